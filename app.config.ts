@@ -93,7 +93,10 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
         iosActivationRules: {
           NSExtensionActivationSupportsWebURLWithMaxCount: 1,
           NSExtensionActivationSupportsText: true,
+          // Recipe export files for bulk import
+          NSExtensionActivationSupportsFileWithMaxCount: 1,
         },
+        androidIntentFilters: ["text/*", "*/*"],
         // Optional: customize the share extension name
         // iosShareExtensionName: "Share to Digero",
       },
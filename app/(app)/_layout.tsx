@@ -13,6 +13,8 @@ import { api } from "@/convex/_generated/api";
 import { View, ActivityIndicator, Text } from "react-native";
 import { useEffect, useState } from "react";
 import { useShareIntentHandler } from "@/hooks/useShareIntent";
+import { useOfflineMutationExecutor } from "@/hooks/useOfflineMutationExecutor";
+import { NetworkStatusProvider } from "@/contexts/NetworkStatusContext";
 
 export default function AppLayout() {
   const { isSignedIn, isLoaded } = useAuth();
@@ -25,6 +27,9 @@ export default function AppLayout() {
   // Handle URLs shared from other apps (YouTube, Safari, etc.)
   useShareIntentHandler();
 
+  // Replays changes made while offline
+  const processOfflineMutation = useOfflineMutationExecutor();
+
   // Debug logging
   console.log("[AppLayout] isLoaded:", isLoaded, "isSignedIn:", isSignedIn, "isConvexAuthenticated:", isConvexAuthenticated, "currentUser:", currentUser);
 
@@ -96,27 +101,34 @@ export default function AppLayout() {
   }
 
   return (
-    <Stack
-      screenOptions={{
-        headerShown: false,
-        contentStyle: {
-          backgroundColor: "#fafaf9", // stone-50
-        },
-      }}
-    >
-      <Stack.Screen name="index" />
-      <Stack.Screen name="recipes-home" />
-      <Stack.Screen name="recipes" />
-      <Stack.Screen name="cookbooks/index" />
-      <Stack.Screen name="cookbooks/[id]" />
-      <Stack.Screen name="discover" />
-      <Stack.Screen name="meal-planner/index" />
-      <Stack.Screen name="shopping/index" />
-      <Stack.Screen name="shopping/[id]" />
-      <Stack.Screen name="settings" />
-      <Stack.Screen name="settings/purchases" />
-      <Stack.Screen name="creator/apply" />
-      <Stack.Screen name="creator" />
-    </Stack>
+    <NetworkStatusProvider onProcessMutation={processOfflineMutation}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: {
+            backgroundColor: "#fafaf9", // stone-50
+          },
+        }}
+      >
+        <Stack.Screen name="index" />
+        <Stack.Screen name="recipes-home" />
+        <Stack.Screen name="recipes" />
+        <Stack.Screen name="cookbooks/index" />
+        <Stack.Screen name="cookbooks/[id]" />
+        <Stack.Screen name="discover" />
+        <Stack.Screen name="meal-planner/index" />
+        <Stack.Screen name="meal-planner/templates" />
+        <Stack.Screen name="shopping/index" />
+        <Stack.Screen name="shopping/[id]" />
+        <Stack.Screen name="pantry/index" />
+        <Stack.Screen name="settings" />
+        <Stack.Screen name="household" />
+        <Stack.Screen name="offline-storage" />
+        <Stack.Screen name="recipe-duplicates" />
+        <Stack.Screen name="settings/purchases" />
+        <Stack.Screen name="creator/apply" />
+        <Stack.Screen name="creator" />
+      </Stack>
+    </NetworkStatusProvider>
   );
 }
@@ -5,7 +5,7 @@
  * recipe grid/list, sorting, and multi-select mode.
  */
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect } from "react";
 import {
   View,
   Text,
@@ -14,6 +14,7 @@ import {
   Image,
   RefreshControl,
   ActivityIndicator,
+  Alert,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useQuery, useMutation } from "convex/react";
@@ -24,6 +25,7 @@ import {
   Share2,
   Pencil,
   Plus,
+  Download,
 } from "lucide-react-native";
 import { LinearGradient } from "expo-linear-gradient";
 
@@ -38,6 +40,11 @@ import {
 } from "@/components/cookbooks";
 import type { SortOption } from "@/components/cookbooks/SortSelector";
 import { TabBar } from "@/components/navigation";
+import { useOfflinePins } from "@/hooks/useOfflinePins";
+import { getPinKey } from "@/convex/lib/offlineStorage";
+import { getPin } from "@/lib/offlinePins";
+import { getLocalImageUri } from "@/lib/imageCache";
+import { useNetworkStatus } from "@/contexts/NetworkStatusContext";
 
 export default function CookbookDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -58,15 +65,30 @@ export default function CookbookDetailScreen() {
 
   // Fetch cookbook with recipes
   const cookbookId = id as Id<"cookbooks">;
-  const cookbook = useQuery(api.cookbooks.getCookbookWithRecipes, {
+  const liveCookbook = useQuery(api.cookbooks.getCookbookWithRecipes, {
     id: cookbookId,
     sortBy,
   });
+  const { isOffline } = useNetworkStatus();
+  const [pinnedCookbook, setPinnedCookbook] = useState<typeof liveCookbook>(undefined);
+
+  // Show the downloaded copy while offline
+  useEffect(() => {
+    if (isOffline && liveCookbook === undefined) {
+      getPin<NonNullable<typeof liveCookbook>>("cookbook", cookbookId).then((pin) =>
+        setPinnedCookbook(pin?.data ?? null)
+      );
+    }
+  }, [isOffline, liveCookbook, cookbookId]);
+
+  const cookbook = liveCookbook === undefined && isOffline ? pinnedCookbook : liveCookbook;
 
   const removeRecipeMutation = useMutation(api.cookbooks.removeRecipeFromCookbook);
   const removeRecipesMutation = useMutation(api.cookbooks.removeRecipesFromCookbook);
   const reorderRecipesMutation = useMutation(api.cookbooks.reorderRecipes);
   const updateCookbookMutation = useMutation(api.cookbooks.updateCookbook);
+  const { isPinned, isBusy, pinCookbook, unpin } = useOfflinePins();
+  const isAvailableOffline = isPinned("cookbook", cookbookId);
 
   const isLoading = cookbook === undefined;
   const recipes = cookbook?.recipes ?? [];
@@ -164,6 +186,19 @@ export default function CookbookDetailScreen() {
     console.log("Share cookbook");
   }, []);
 
+  const handleToggleOffline = useCallback(async () => {
+    try {
+      if (isPinned("cookbook", cookbookId)) {
+        await unpin(getPinKey("cookbook", cookbookId));
+      } else {
+        await pinCookbook(cookbookId);
+      }
+    } catch (error) {
+      console.error("Failed to update offline cookbook:", error);
+      Alert.alert("Error", "Failed to download cookbook. Please try again.");
+    }
+  }, [cookbookId, isPinned, pinCookbook, unpin]);
+
   const handleAddRecipes = useCallback(() => {
     setShowAddRecipesModal(true);
   }, []);
@@ -219,7 +254,7 @@ export default function CookbookDetailScreen() {
       <View className="relative">
         <View className="h-40 bg-gradient-to-br from-orange-400 to-orange-600">
           <Image
-            source={{ uri: cookbook.coverUrl }}
+            source={{ uri: getLocalImageUri(cookbook.coverUrl) ?? cookbook.coverUrl }}
             className="h-full w-full opacity-60"
             resizeMode="cover"
           />
@@ -239,6 +274,21 @@ export default function CookbookDetailScreen() {
 
         {/* Action Buttons */}
         <View className="absolute right-4 top-12 flex-row gap-2">
+          <Pressable
+            onPress={handleToggleOffline}
+            disabled={isBusy("cookbook", cookbookId)}
+            className={`h-10 w-10 items-center justify-center rounded-full ${
+              isAvailableOffline
+                ? "bg-orange-500 active:bg-orange-600"
+                : "bg-black/30 active:bg-black/40"
+            }`}
+          >
+            {isBusy("cookbook", cookbookId) ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Download className="h-5 w-5 text-white" />
+            )}
+          </Pressable>
           <Pressable
             onPress={handleShare}
             className="h-10 w-10 items-center justify-center rounded-full bg-black/30 active:bg-black/40"
@@ -277,6 +327,11 @@ export default function CookbookDetailScreen() {
               <Text className="mt-2 text-sm text-stone-400 dark:text-stone-500">
                 {recipes.length} {recipes.length === 1 ? "recipe" : "recipes"}
               </Text>
+              {isAvailableOffline && (
+                <Text className="mt-1 text-xs font-medium text-orange-600 dark:text-orange-400">
+                  Available offline
+                </Text>
+              )}
             </View>
           </View>
         </View>
@@ -43,6 +43,7 @@ import {
   useYouTubeExtraction,
   type ChannelCategory,
 } from "@/components/discover";
+import { useDuplicateCheck } from "@/hooks/useDuplicateCheck";
 
 /**
  * Video data from channel
@@ -214,6 +215,7 @@ export default function ChannelDetailScreen() {
   const followChannel = useMutation(api.channels.followChannel);
   const unfollowChannel = useMutation(api.channels.unfollowChannel);
   const saveFromYouTube = useMutation(api.recipes.saveFromYouTube);
+  const { checkDuplicates } = useDuplicateCheck();
 
   // Query creator profile to check partnership status
   const youtubeChannelId = dbChannel?.youtubeChannelId || (!isConvexId ? id : undefined);
@@ -388,16 +390,31 @@ export default function ChannelDetailScreen() {
   const handleSavePreview = useCallback(
     async (preview: any) => {
       try {
+        const decision = await checkDuplicates({
+          title: preview.title,
+          sourceUrl: preview.sourceUrl,
+          youtubeVideoId: preview.videoId,
+          ingredients: preview.ingredients,
+        });
+        if (decision === "cancel") return;
+        if (decision === "openedExisting") {
+          setPreviewModalVisible(false);
+          resetExtraction();
+          return;
+        }
+
         await saveFromYouTube({
           title: preview.title,
           ingredients: preview.ingredients,
           instructions: preview.instructions,
+          instructionSections: preview.instructionSections,
           servings: preview.servings,
           prepTime: preview.prepTime,
           cookTime: preview.cookTime,
           youtubeVideoId: preview.videoId,
           sourceUrl: preview.sourceUrl,
           imageUrl: preview.thumbnailUrl,
+          allowDuplicate: decision === "saveAnyway",
         });
 
         setPreviewModalVisible(false);
@@ -407,7 +424,7 @@ export default function ChannelDetailScreen() {
         console.error("Save error:", error);
       }
     },
-    [saveFromYouTube, resetExtraction, router]
+    [checkDuplicates, saveFromYouTube, resetExtraction, router]
   );
 
   const handleRefresh = useCallback(async () => {
@@ -47,6 +47,7 @@ import {
   type ChannelFilter,
   type ChannelCategory,
 } from "@/components/discover";
+import { useDuplicateCheck } from "@/hooks/useDuplicateCheck";
 import { TabBar } from "@/components/navigation";
 import { DigeroLogo } from "@/components/brand";
 
@@ -126,6 +127,7 @@ export default function DiscoverScreen() {
   const followChannel = useMutation(api.channels.followChannel);
   const unfollowChannel = useMutation(api.channels.unfollowChannel);
   const saveFromYouTube = useMutation(api.recipes.saveFromYouTube);
+  const { checkDuplicates } = useDuplicateCheck();
 
   // Convex actions
   const searchChannelsAction = useAction(
@@ -471,16 +473,31 @@ export default function DiscoverScreen() {
   const handleSavePreview = useCallback(
     async (preview: any) => {
       try {
+        const decision = await checkDuplicates({
+          title: preview.title,
+          sourceUrl: preview.sourceUrl,
+          youtubeVideoId: preview.videoId,
+          ingredients: preview.ingredients,
+        });
+        if (decision === "cancel") return;
+        if (decision === "openedExisting") {
+          setPreviewModalVisible(false);
+          resetExtraction();
+          return;
+        }
+
         await saveFromYouTube({
           title: preview.title,
           ingredients: preview.ingredients,
           instructions: preview.instructions,
+          instructionSections: preview.instructionSections,
           servings: preview.servings,
           prepTime: preview.prepTime,
           cookTime: preview.cookTime,
           youtubeVideoId: preview.videoId,
           sourceUrl: preview.sourceUrl,
           imageUrl: preview.thumbnailUrl,
+          allowDuplicate: decision === "saveAnyway",
         });
 
         setPreviewModalVisible(false);
@@ -490,7 +507,7 @@ export default function DiscoverScreen() {
         console.error("Save error:", error);
       }
     },
-    [saveFromYouTube, resetExtraction, router]
+    [checkDuplicates, saveFromYouTube, resetExtraction, router]
   );
 
   const handleRefresh = useCallback(async () => {
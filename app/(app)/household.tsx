@@ -0,0 +1,406 @@
+/**
+ * Household Screen
+ *
+ * Creates or joins a household that shares one meal plan, shopping lists
+ * and opted-in cookbooks. Owners rename the household, invite people with
+ * a short code and remove members; anyone can leave.
+ */
+
+import { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  Share,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { useQuery, useMutation } from "convex/react";
+import { Ionicons } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+
+/**
+ * Format an invite expiry as "Expires Oct 26"
+ */
+function formatExpiry(expiresAt: number): string {
+  return `Expires ${new Date(expiresAt).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  })}`;
+}
+
+export default function HouseholdScreen() {
+  const router = useRouter();
+  const household = useQuery(api.households.getHousehold);
+
+  const createHousehold = useMutation(api.households.createHousehold);
+  const renameHousehold = useMutation(api.households.renameHousehold);
+  const joinHousehold = useMutation(api.households.joinHousehold);
+  const createHouseholdInvite = useMutation(api.households.createHouseholdInvite);
+  const revokeHouseholdInvite = useMutation(api.households.revokeHouseholdInvite);
+  const leaveHousehold = useMutation(api.households.leaveHousehold);
+  const removeHouseholdMember = useMutation(api.households.removeHouseholdMember);
+
+  const [householdName, setHouseholdName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [nameInput, setNameInput] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleCreate = useCallback(async () => {
+    if (!householdName.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await createHousehold({ name: householdName });
+      setHouseholdName("");
+    } catch (error) {
+      console.error("Failed to create household:", error);
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Failed to create household. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [createHousehold, householdName]);
+
+  const handleJoin = useCallback(async () => {
+    if (!inviteCode.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await joinHousehold({ code: inviteCode });
+      setInviteCode("");
+    } catch (error) {
+      console.error("Failed to join household:", error);
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Failed to join household. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [joinHousehold, inviteCode]);
+
+  const handleRename = useCallback(async () => {
+    const name = nameInput;
+    setNameInput(null);
+    if (!household || name === null || !name.trim() || name === household.name) return;
+
+    try {
+      await renameHousehold({ name });
+    } catch (error) {
+      console.error("Failed to rename household:", error);
+      Alert.alert("Error", "Failed to rename household. Please try again.");
+    }
+  }, [household, nameInput, renameHousehold]);
+
+  const handleShareInvite = useCallback(
+    async (code: string) => {
+      await Share.share({
+        message: `Join our household "${household?.name}" on Digero with invite code ${code}`,
+      });
+    },
+    [household?.name]
+  );
+
+  const handleCreateInvite = useCallback(async () => {
+    try {
+      const invite = await createHouseholdInvite({});
+      await handleShareInvite(invite.code);
+    } catch (error) {
+      console.error("Failed to create invite:", error);
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Failed to create invite. Please try again."
+      );
+    }
+  }, [createHouseholdInvite, handleShareInvite]);
+
+  const handleRevokeInvite = useCallback(
+    (inviteId: Id<"householdInvites">, code: string) => {
+      Alert.alert("Revoke Invite", `Code ${code} will stop working.`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Revoke",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await revokeHouseholdInvite({ inviteId });
+            } catch (error) {
+              console.error("Failed to revoke invite:", error);
+              Alert.alert("Error", "Failed to revoke invite. Please try again.");
+            }
+          },
+        },
+      ]);
+    },
+    [revokeHouseholdInvite]
+  );
+
+  const handleRemoveMember = useCallback(
+    (memberId: Id<"householdMembers">, name: string) => {
+      Alert.alert(
+        "Remove Member",
+        `Remove ${name} from the household? Meals and lists they added stay in the household.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Remove",
+            style: "destructive",
+            onPress: async () => {
+              try {
+                await removeHouseholdMember({ memberId });
+              } catch (error) {
+                console.error("Failed to remove member:", error);
+                Alert.alert("Error", "Failed to remove member. Please try again.");
+              }
+            },
+          },
+        ]
+      );
+    },
+    [removeHouseholdMember]
+  );
+
+  const handleLeave = useCallback(() => {
+    Alert.alert(
+      "Leave Household",
+      "You'll go back to your own meal plan and shopping lists. Cookbooks you shared will stop being shared.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Leave",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await leaveHousehold({});
+            } catch (error) {
+              console.error("Failed to leave household:", error);
+              Alert.alert("Error", "Failed to leave household. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  }, [leaveHousehold]);
+
+  if (household === undefined) {
+    return (
+      <View className="flex-1 items-center justify-center bg-stone-50 dark:bg-stone-950">
+        <ActivityIndicator size="large" color="#f97316" />
+      </View>
+    );
+  }
+
+  const isOwner = household?.role === "owner";
+
+  return (
+    <SafeAreaView className="flex-1 bg-stone-50 dark:bg-stone-950" edges={["top"]}>
+      {/* Header */}
+      <View className="px-4 py-4 border-b border-stone-200 dark:border-stone-800 bg-white/80 dark:bg-stone-900/80">
+        <View className="flex-row items-center gap-3">
+          <Pressable onPress={() => router.back()} className="p-2 -m-2">
+            <Ionicons name="arrow-back" size={24} color="#78716c" />
+          </Pressable>
+          <Text className="flex-1 text-2xl font-bold text-stone-900 dark:text-white">
+            Household
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {household === null ? (
+          <>
+            <Text className="mb-4 text-sm text-stone-500 dark:text-stone-400">
+              Plan meals and shop together. Everyone in a household shares one meal plan and
+              its shopping lists, and can share cookbooks with each other.
+            </Text>
+
+            {/* Create */}
+            <View className="mb-4 rounded-xl bg-white p-4 dark:bg-stone-800">
+              <Text className="mb-2 font-semibold text-stone-900 dark:text-white">
+                Start a household
+              </Text>
+              <View className="flex-row gap-2">
+                <TextInput
+                  value={householdName}
+                  onChangeText={setHouseholdName}
+                  placeholder="e.g., The Smiths"
+                  placeholderTextColor="#a8a29e"
+                  className="flex-1 rounded-lg bg-stone-100 px-3 py-2 text-stone-900 dark:bg-stone-700 dark:text-white"
+                  returnKeyType="done"
+                  onSubmitEditing={handleCreate}
+                />
+                <Pressable
+                  onPress={handleCreate}
+                  disabled={isSubmitting || !householdName.trim()}
+                  className={`justify-center rounded-lg px-4 ${
+                    householdName.trim() ? "bg-orange-500" : "bg-orange-500/50"
+                  }`}
+                >
+                  <Text className="font-semibold text-white">Create</Text>
+                </Pressable>
+              </View>
+              <Text className="mt-2 text-xs text-stone-500 dark:text-stone-400">
+                Your current meal plan and shopping lists move into the household.
+              </Text>
+            </View>
+
+            {/* Join */}
+            <View className="rounded-xl bg-white p-4 dark:bg-stone-800">
+              <Text className="mb-2 font-semibold text-stone-900 dark:text-white">
+                Join with an invite code
+              </Text>
+              <View className="flex-row gap-2">
+                <TextInput
+                  value={inviteCode}
+                  onChangeText={setInviteCode}
+                  placeholder="XXXX-XXXX"
+                  placeholderTextColor="#a8a29e"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  className="flex-1 rounded-lg bg-stone-100 px-3 py-2 text-stone-900 dark:bg-stone-700 dark:text-white"
+                  returnKeyType="done"
+                  onSubmitEditing={handleJoin}
+                />
+                <Pressable
+                  onPress={handleJoin}
+                  disabled={isSubmitting || !inviteCode.trim()}
+                  className={`justify-center rounded-lg px-4 ${
+                    inviteCode.trim() ? "bg-orange-500" : "bg-orange-500/50"
+                  }`}
+                >
+                  <Text className="font-semibold text-white">Join</Text>
+                </Pressable>
+              </View>
+            </View>
+          </>
+        ) : (
+          <View className="pb-8">
+            {/* Name */}
+            <View className="mb-4 rounded-xl bg-white p-4 dark:bg-stone-800">
+              <Text className="mb-1 text-xs font-medium uppercase tracking-wider text-stone-500 dark:text-stone-400">
+                Name
+              </Text>
+              {isOwner ? (
+                <TextInput
+                  value={nameInput ?? household.name}
+                  onChangeText={setNameInput}
+                  onEndEditing={handleRename}
+                  returnKeyType="done"
+                  className="text-lg font-semibold text-stone-900 dark:text-white"
+                  accessibilityLabel="Household name"
+                />
+              ) : (
+                <Text className="text-lg font-semibold text-stone-900 dark:text-white">
+                  {household.name}
+                </Text>
+              )}
+            </View>
+
+            {/* Members */}
+            <Text className="mb-2 text-sm font-medium uppercase tracking-wider text-stone-500 dark:text-stone-400">
+              Members
+            </Text>
+            <View className="mb-4 overflow-hidden rounded-xl bg-white dark:bg-stone-800">
+              {household.members.map((member, index) => (
+                <View
+                  key={member._id}
+                  className={`flex-row items-center px-4 py-3 ${
+                    index > 0 ? "border-t border-stone-100 dark:border-stone-700" : ""
+                  }`}
+                >
+                  <View className="mr-3 h-9 w-9 items-center justify-center rounded-full bg-orange-100 dark:bg-orange-900/30">
+                    <Text className="font-semibold text-orange-600 dark:text-orange-400">
+                      {member.name.charAt(0).toUpperCase()}
+                    </Text>
+                  </View>
+                  <View className="flex-1">
+                    <Text className="text-base text-stone-900 dark:text-white">
+                      {member.name}
+                      {member.isCurrentUser ? " (you)" : ""}
+                    </Text>
+                    {member.role === "owner" && (
+                      <Text className="text-xs text-stone-500 dark:text-stone-400">Owner</Text>
+                    )}
+                  </View>
+                  {isOwner && !member.isCurrentUser && (
+                    <Pressable
+                      onPress={() => handleRemoveMember(member._id, member.name)}
+                      className="p-2"
+                      accessibilityLabel={`Remove ${member.name}`}
+                    >
+                      <Ionicons name="close-circle-outline" size={22} color="#ef4444" />
+                    </Pressable>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            {/* Invites */}
+            {isOwner && (
+              <>
+                <Text className="mb-2 text-sm font-medium uppercase tracking-wider text-stone-500 dark:text-stone-400">
+                  Invites
+                </Text>
+                <View className="mb-4 overflow-hidden rounded-xl bg-white dark:bg-stone-800">
+                  {household.invites.map((invite) => (
+                    <View
+                      key={invite._id}
+                      className="flex-row items-center border-b border-stone-100 px-4 py-3 dark:border-stone-700"
+                    >
+                      <View className="flex-1">
+                        <Text className="font-mono text-base font-semibold tracking-widest text-stone-900 dark:text-white">
+                          {invite.code}
+                        </Text>
+                        <Text className="text-xs text-stone-500 dark:text-stone-400">
+                          {formatExpiry(invite.expiresAt)}
+                        </Text>
+                      </View>
+                      <Pressable
+                        onPress={() => handleShareInvite(invite.code)}
+                        className="p-2"
+                        accessibilityLabel="Share invite code"
+                      >
+                        <Ionicons name="share-outline" size={20} color="#78716c" />
+                      </Pressable>
+                      <Pressable
+                        onPress={() => handleRevokeInvite(invite._id, invite.code)}
+                        className="p-2"
+                        accessibilityLabel="Revoke invite code"
+                      >
+                        <Ionicons name="trash-outline" size={20} color="#ef4444" />
+                      </Pressable>
+                    </View>
+                  ))}
+                  <Pressable
+                    onPress={handleCreateInvite}
+                    className="flex-row items-center px-4 py-3 active:bg-stone-50 dark:active:bg-stone-700"
+                  >
+                    <Ionicons name="person-add-outline" size={20} color="#f97316" />
+                    <Text className="ml-3 text-base font-medium text-orange-500">
+                      Invite Someone
+                    </Text>
+                  </Pressable>
+                </View>
+              </>
+            )}
+
+            <Pressable
+              onPress={handleLeave}
+              className="flex-row items-center justify-center rounded-xl bg-white py-3 dark:bg-stone-800"
+            >
+              <Ionicons name="exit-outline" size={20} color="#ef4444" />
+              <Text className="ml-2 text-base font-medium text-red-500">Leave Household</Text>
+            </Pressable>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
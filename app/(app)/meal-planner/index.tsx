@@ -3,7 +3,8 @@
  *
  * Weekly calendar view where users can plan meals by assigning recipes
  * to specific days and meal slots. Supports tap-to-assign and
- * selection mode for shopping list generation.
+ * selection mode for shopping list generation. Moves made offline are
+ * queued and replayed when back online.
  */
 
 import { useState, useCallback, useEffect, useMemo } from "react";
@@ -29,9 +30,18 @@ import {
   OnboardingOverlay,
   EmptyWeekState,
   ContextMenu,
+  PlanWeekSheet,
 } from "@/components/meal-planner";
 import { TabBar } from "@/components/navigation";
-import type { MealSlot, PlannedMeal } from "@/types/meal-planner";
+import { SyncStatusIndicator } from "@/components/shopping";
+import { useNetworkStatus } from "@/contexts/NetworkStatusContext";
+import { getPin } from "@/lib/offlinePins";
+import type { PinnedWeekPlan } from "@/hooks/useOfflinePins";
+import type {
+  MealSlot,
+  PlannedMeal,
+  PlanWeekSettings,
+} from "@/types/meal-planner";
 
 // AsyncStorage keys
 const ONBOARDING_COMPLETE_KEY = "mealPlanner_onboardingComplete";
@@ -52,7 +62,7 @@ export default function MealPlannerScreen() {
   } = useWeekNavigation();
 
   // Fetch planned meals for the current week
-  const plannedMeals = useQuery(api.mealPlanner.getMealsByWeek, {
+  const liveMeals = useQuery(api.mealPlanner.getMealsByWeek, {
     startDate: currentWeek.startDate,
     endDate: currentWeek.endDate,
   });
@@ -60,13 +70,71 @@ export default function MealPlannerScreen() {
   // Fetch recipes for the picker
   const recipePickerItems = useQuery(api.mealPlanner.getRecipePickerItems, {});
 
+  // Generated "plan my week" draft for the current week
+  const mealPlanDraft = useQuery(api.mealPlanDrafts.getMealPlanDraft, {
+    weekStart: currentWeek.startDate,
+  });
+
+  // Nutrition totals and daily targets for the current week
+  const weekNutrition = useQuery(api.mealPlanner.getWeekNutrition, {
+    weekStart: currentWeek.startDate,
+  });
+
   // Mutations
   const addMealToSlot = useMutation(api.mealPlanner.addMealToSlot);
   const removeMeal = useMutation(api.mealPlanner.removeMeal);
   const moveMeal = useMutation(api.mealPlanner.moveMeal);
   const copyMeal = useMutation(api.mealPlanner.copyMeal);
+
+  const {
+    isOffline,
+    pendingMutationsCount,
+    syncConflicts,
+    queueOfflineMutation,
+    dismissConflicts,
+  } = useNetworkStatus();
+  const [pinnedMeals, setPinnedMeals] = useState<typeof liveMeals>(undefined);
+  const [offlineMoves, setOfflineMoves] = useState<
+    Record<string, { day: string; slot: MealSlot }>
+  >({});
+
+  // Show a downloaded week while offline
+  useEffect(() => {
+    if (isOffline && liveMeals === undefined) {
+      getPin<PinnedWeekPlan>("weekPlan", currentWeek.startDate).then((pin) =>
+        setPinnedMeals(pin?.data.meals ?? [])
+      );
+    }
+  }, [isOffline, liveMeals, currentWeek.startDate]);
+
+  useEffect(() => {
+    if (!isOffline && pendingMutationsCount === 0) {
+      setOfflineMoves({});
+    }
+  }, [isOffline, pendingMutationsCount]);
+
+  // Show meals moved offline where they will end up, replacing the meal
+  // already in the target slot as the move will
+  const plannedMeals = useMemo(() => {
+    let meals = liveMeals === undefined && isOffline ? pinnedMeals : liveMeals;
+    if (!meals) return meals;
+
+    for (const [mealId, move] of Object.entries(offlineMoves)) {
+      meals = meals
+        .filter((m) => m._id === mealId || m.day !== move.day || m.slot !== move.slot)
+        .map((m) => (m._id === mealId ? { ...m, ...move } : m));
+    }
+    return meals;
+  }, [liveMeals, pinnedMeals, isOffline, offlineMoves]);
+  const addLeftovers = useMutation(api.mealPlanner.addLeftovers);
+  const updateMealServings = useMutation(api.mealPlanner.updateMealServings);
   const clearDay = useMutation(api.mealPlanner.clearDay);
   const clearWeek = useMutation(api.mealPlanner.clearWeek);
+  const generateMealPlanDraft = useMutation(api.mealPlanDrafts.generateMealPlanDraft);
+  const rerollDraftSlot = useMutation(api.mealPlanDrafts.rerollDraftSlot);
+  const toggleDraftMealPin = useMutation(api.mealPlanDrafts.toggleDraftMealPin);
+  const acceptMealPlanDraft = useMutation(api.mealPlanDrafts.acceptMealPlanDraft);
+  const discardMealPlanDraft = useMutation(api.mealPlanDrafts.discardMealPlanDraft);
 
   // Local state
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -80,6 +148,8 @@ export default function MealPlannerScreen() {
   const [contextMenuMeal, setContextMenuMeal] = useState<PlannedMeal | null>(
     null
   );
+  const [planWeekVisible, setPlanWeekVisible] = useState(false);
+  const [isPlanningWeek, setIsPlanningWeek] = useState(false);
 
   // Load persisted preferences
   useEffect(() => {
@@ -129,7 +199,8 @@ export default function MealPlannerScreen() {
   const selectedCount = selectedMealIds.length;
 
   // Loading state
-  const isLoading = plannedMeals === undefined || recipePickerItems === undefined;
+  const isLoading =
+    plannedMeals === undefined || (recipePickerItems === undefined && !isOffline);
 
   // Handle slot tap (open picker)
   const handleSlotTap = useCallback((slot: MealSlot) => {
@@ -291,6 +362,85 @@ export default function MealPlannerScreen() {
     );
   }, [clearWeek, currentWeek]);
 
+  // Plan my week handlers
+  const handleGeneratePlan = useCallback(
+    async (settings: PlanWeekSettings) => {
+      setIsPlanningWeek(true);
+      try {
+        await generateMealPlanDraft({
+          weekStart: currentWeek.startDate,
+          maxWeeknightTime: settings.maxWeeknightTime,
+          varietyDays: settings.varietyDays,
+        });
+      } catch (error) {
+        console.error("Failed to generate meal plan:", error);
+        Alert.alert(
+          "Error",
+          error instanceof Error ? error.message : "Failed to generate plan. Please try again."
+        );
+      } finally {
+        setIsPlanningWeek(false);
+      }
+    },
+    [generateMealPlanDraft, currentWeek]
+  );
+
+  const handleRerollDraftSlot = useCallback(
+    (day: string, slot: MealSlot) => {
+      if (!mealPlanDraft || slot === "snacks") return;
+      rerollDraftSlot({ draftId: mealPlanDraft._id, day, slot }).catch((error) => {
+        console.error("Failed to re-roll meal:", error);
+        Alert.alert("No Other Recipes", "No other recipes fit this slot.");
+      });
+    },
+    [mealPlanDraft, rerollDraftSlot]
+  );
+
+  const handleToggleDraftPin = useCallback(
+    (day: string, slot: MealSlot) => {
+      if (!mealPlanDraft || slot === "snacks") return;
+      toggleDraftMealPin({ draftId: mealPlanDraft._id, day, slot }).catch((error) => {
+        console.error("Failed to pin meal:", error);
+      });
+    },
+    [mealPlanDraft, toggleDraftMealPin]
+  );
+
+  const handleAcceptPlan = useCallback(async () => {
+    if (!mealPlanDraft) return;
+    setIsPlanningWeek(true);
+    try {
+      const { added, skipped } = await acceptMealPlanDraft({
+        draftId: mealPlanDraft._id,
+      });
+      setPlanWeekVisible(false);
+      if (skipped > 0) {
+        Alert.alert(
+          "Plan Added",
+          `${added} meal${added === 1 ? "" : "s"} added. ${skipped} slot${
+            skipped === 1 ? " was" : "s were"
+          } already filled.`
+        );
+      }
+    } catch (error) {
+      console.error("Failed to accept meal plan:", error);
+      Alert.alert("Error", "Failed to add plan. Please try again.");
+    } finally {
+      setIsPlanningWeek(false);
+    }
+  }, [mealPlanDraft, acceptMealPlanDraft]);
+
+  const handleDiscardPlan = useCallback(async () => {
+    if (!mealPlanDraft) return;
+    try {
+      await discardMealPlanDraft({ draftId: mealPlanDraft._id });
+      setPlanWeekVisible(false);
+    } catch (error) {
+      console.error("Failed to discard meal plan:", error);
+      Alert.alert("Error", "Failed to discard plan. Please try again.");
+    }
+  }, [mealPlanDraft, discardMealPlanDraft]);
+
   // Handle onboarding dismiss
   const handleDismissOnboarding = useCallback(async () => {
     setShowOnboarding(false);
@@ -328,6 +478,19 @@ export default function MealPlannerScreen() {
     nextDay.setDate(nextDay.getDate() + 1);
     const targetDay = nextDay.toISOString().split("T")[0];
 
+    if (isOffline) {
+      setOfflineMoves((moves) => ({
+        ...moves,
+        [contextMenuMeal._id]: { day: targetDay, slot: contextMenuMeal.slot },
+      }));
+      queueOfflineMutation(
+        "moveMeal",
+        { mealId: contextMenuMeal._id, newDay: targetDay, newSlot: contextMenuMeal.slot },
+        contextMenuMeal.updatedAt
+      ).then(() => setContextMenuMeal(null));
+      return;
+    }
+
     moveMeal({
       mealId: contextMenuMeal._id,
       newDay: targetDay,
@@ -338,7 +501,54 @@ export default function MealPlannerScreen() {
         console.error("Failed to move meal:", error);
         Alert.alert("Error", "Failed to move meal. Please try again.");
       });
-  }, [contextMenuMeal, moveMeal]);
+  }, [contextMenuMeal, moveMeal, isOffline, queueOfflineMutation]);
+
+  // Show what happened to offline changes that conflicted
+  const handleSyncStatusPress = useCallback(() => {
+    Alert.alert(
+      "Sync Conflicts",
+      syncConflicts.map((conflict) => conflict.message).join("\n\n"),
+      [{ text: "OK", onPress: () => dismissConflicts() }]
+    );
+  }, [syncConflicts, dismissConflicts]);
+
+  const syncStatus = isOffline
+    ? "offline"
+    : syncConflicts.length > 0
+      ? "conflict"
+      : pendingMutationsCount > 0
+        ? "pending"
+        : "synced";
+
+  const handleContextLeftovers = useCallback(() => {
+    if (!contextMenuMeal) return;
+    // Next day; dinner leftovers become lunch
+    const nextDay = new Date(contextMenuMeal.day + "T12:00:00");
+    nextDay.setDate(nextDay.getDate() + 1);
+    const targetDay = nextDay.toISOString().split("T")[0];
+
+    addLeftovers({
+      sourceMealId: contextMenuMeal._id,
+      targetDay,
+      targetSlot: contextMenuMeal.slot === "dinner" ? "lunch" : contextMenuMeal.slot,
+    })
+      .then(() => setContextMenuMeal(null))
+      .catch((error) => {
+        console.error("Failed to add leftovers:", error);
+        Alert.alert("Error", "Failed to add leftovers. Please try again.");
+      });
+  }, [contextMenuMeal, addLeftovers]);
+
+  const handleContextServings = useCallback(
+    (servings: number) => {
+      if (!contextMenuMeal || servings < 1) return;
+      setContextMenuMeal({ ...contextMenuMeal, servings });
+      updateMealServings({ mealId: contextMenuMeal._id, servings }).catch((error) => {
+        console.error("Failed to update servings:", error);
+      });
+    },
+    [contextMenuMeal, updateMealServings]
+  );
 
   const handleContextRemove = useCallback(() => {
     if (!contextMenuMeal) return;
@@ -377,8 +587,25 @@ export default function MealPlannerScreen() {
           onCancelSelection={handleExitSelectionMode}
           onGenerateList={handleGenerateList}
           onClearWeek={handleClearWeek}
+          onPlanWeek={() => setPlanWeekVisible(true)}
+          onTemplatesPress={() =>
+            router.push(
+              `/(app)/meal-planner/templates?weekStart=${currentWeek.startDate}&weekLabel=${encodeURIComponent(currentWeek.weekLabel)}`
+            )
+          }
+          nutrition={weekNutrition}
         />
 
+        {syncStatus !== "synced" && (
+          <View className="flex-row justify-end border-b border-stone-100 bg-white px-4 py-1.5 dark:border-stone-800 dark:bg-stone-900">
+            <SyncStatusIndicator
+              status={syncStatus}
+              pendingCount={pendingMutationsCount}
+              onPress={syncStatus === "conflict" ? handleSyncStatusPress : undefined}
+            />
+          </View>
+        )}
+
         {/* Day Strip */}
         <View className="border-b border-stone-100 bg-white dark:border-stone-800 dark:bg-stone-900">
           <DayStrip
@@ -407,6 +634,8 @@ export default function MealPlannerScreen() {
               onToggleSnacks={handleToggleSnacks}
               onClearDay={handleClearDay}
               onSelectAllDay={handleSelectAllDay}
+              nutrition={weekNutrition?.days.find((day) => day.day === selectedDay)}
+              nutritionTargets={weekNutrition?.targets}
             />
           )}
         </ScrollView>
@@ -421,6 +650,20 @@ export default function MealPlannerScreen() {
           onClose={() => setPickerVisible(false)}
         />
 
+        {/* Plan My Week Sheet */}
+        <PlanWeekSheet
+          isVisible={planWeekVisible}
+          weekDays={weekDays}
+          draft={mealPlanDraft ?? null}
+          isBusy={isPlanningWeek}
+          onGenerate={handleGeneratePlan}
+          onReroll={handleRerollDraftSlot}
+          onTogglePin={handleToggleDraftPin}
+          onAccept={handleAcceptPlan}
+          onDiscard={handleDiscardPlan}
+          onClose={() => setPlanWeekVisible(false)}
+        />
+
         {/* Onboarding Overlay */}
         <OnboardingOverlay
           isVisible={showOnboarding && mealCount === 0}
@@ -435,6 +678,8 @@ export default function MealPlannerScreen() {
             position={{ x: 0, y: 0 }}
             onCopy={handleContextCopy}
             onMove={handleContextMove}
+            onLeftovers={handleContextLeftovers}
+            onChangeServings={handleContextServings}
             onRemove={handleContextRemove}
             onClose={() => setContextMenuMeal(null)}
           />
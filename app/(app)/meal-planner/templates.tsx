@@ -0,0 +1,270 @@
+/**
+ * Meal Plan Templates Screen
+ *
+ * Saves the current week as a named template and applies saved templates
+ * to the week, overwriting or merging with what's already planned.
+ * Templates can be set to repeat every N weeks.
+ */
+
+import { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useQuery, useMutation } from "convex/react";
+import { Ionicons } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { TemplateCard } from "@/components/meal-planner";
+import type { MealPlanTemplate } from "@/types/meal-planner";
+
+const recurrenceOptions = [1, 2, 3, 4];
+
+export default function MealPlanTemplatesScreen() {
+  const router = useRouter();
+  const { weekStart, weekLabel } = useLocalSearchParams<{
+    weekStart: string;
+    weekLabel?: string;
+  }>();
+
+  const templates = useQuery(api.mealPlanTemplates.getMealPlanTemplates);
+
+  const createTemplateFromWeek = useMutation(api.mealPlanTemplates.createTemplateFromWeek);
+  const applyTemplate = useMutation(api.mealPlanTemplates.applyTemplate);
+  const setTemplateRecurrence = useMutation(api.mealPlanTemplates.setTemplateRecurrence);
+  const deleteTemplate = useMutation(api.mealPlanTemplates.deleteTemplate);
+
+  const [templateName, setTemplateName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyTemplateId, setBusyTemplateId] = useState<Id<"mealPlanTemplates"> | null>(null);
+
+  const handleSaveWeek = useCallback(async () => {
+    if (!templateName.trim()) return;
+    setIsSaving(true);
+    try {
+      await createTemplateFromWeek({ name: templateName, weekStart });
+      setTemplateName("");
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Failed to save template. Please try again."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }, [createTemplateFromWeek, templateName, weekStart]);
+
+  const runApply = useCallback(
+    async (template: MealPlanTemplate, mode: "overwrite" | "merge") => {
+      setBusyTemplateId(template._id);
+      try {
+        const result = await applyTemplate({ templateId: template._id, weekStart, mode });
+
+        const lines = [`${result.added} meal${result.added === 1 ? "" : "s"} added.`];
+        if (result.skippedOccupied > 0) {
+          lines.push(
+            `${result.skippedOccupied} slot${
+              result.skippedOccupied === 1 ? " was" : "s were"
+            } already planned.`
+          );
+        }
+        if (result.missingRecipes.length > 0) {
+          lines.push(`Skipped deleted recipes: ${result.missingRecipes.join(", ")}`);
+        }
+
+        Alert.alert("Template Applied", lines.join("\n"), [
+          { text: "OK", onPress: () => router.back() },
+        ]);
+      } catch (error) {
+        console.error("Failed to apply template:", error);
+        Alert.alert("Error", "Failed to apply template. Please try again.");
+      } finally {
+        setBusyTemplateId(null);
+      }
+    },
+    [applyTemplate, weekStart, router]
+  );
+
+  const handleApply = useCallback(
+    (template: MealPlanTemplate) => {
+      Alert.alert(
+        `Apply "${template.name}"`,
+        `Add this template to ${weekLabel ?? "this week"}?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Merge",
+            onPress: () => runApply(template, "merge"),
+          },
+          {
+            text: "Overwrite",
+            style: "destructive",
+            onPress: () => runApply(template, "overwrite"),
+          },
+        ]
+      );
+    },
+    [runApply, weekLabel]
+  );
+
+  const handleSetRecurrence = useCallback(
+    (template: MealPlanTemplate) => {
+      const update = async (intervalWeeks: number | null) => {
+        try {
+          await setTemplateRecurrence({
+            templateId: template._id,
+            recurrence:
+              intervalWeeks === null
+                ? null
+                : {
+                    intervalWeeks,
+                    startWeek: weekStart,
+                    mode: template.recurrence?.mode ?? "merge",
+                  },
+          });
+        } catch (error) {
+          console.error("Failed to update recurrence:", error);
+          Alert.alert("Error", "Failed to update repeat. Please try again.");
+        }
+      };
+
+      Alert.alert(
+        "Repeat Template",
+        `Automatically add "${template.name}" starting ${weekLabel ?? "this week"}. Existing meals are kept.`,
+        [
+          ...recurrenceOptions.map((weeks) => ({
+            text: weeks === 1 ? "Every week" : `Every ${weeks} weeks`,
+            onPress: () => update(weeks),
+          })),
+          ...(template.recurrence
+            ? [
+                {
+                  text: "Stop repeating",
+                  style: "destructive" as const,
+                  onPress: () => update(null),
+                },
+              ]
+            : []),
+          { text: "Cancel", style: "cancel" as const },
+        ]
+      );
+    },
+    [setTemplateRecurrence, weekStart, weekLabel]
+  );
+
+  const handleDelete = useCallback(
+    (template: MealPlanTemplate) => {
+      Alert.alert("Delete Template", `Delete "${template.name}"?`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteTemplate({ templateId: template._id });
+            } catch (error) {
+              console.error("Failed to delete template:", error);
+              Alert.alert("Error", "Failed to delete template. Please try again.");
+            }
+          },
+        },
+      ]);
+    },
+    [deleteTemplate]
+  );
+
+  if (templates === undefined) {
+    return (
+      <View className="flex-1 items-center justify-center bg-stone-50 dark:bg-stone-950">
+        <ActivityIndicator size="large" color="#f97316" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-stone-50 dark:bg-stone-950" edges={["top"]}>
+      {/* Header */}
+      <View className="px-4 py-4 border-b border-stone-200 dark:border-stone-800 bg-white/80 dark:bg-stone-900/80">
+        <View className="flex-row items-center gap-3">
+          <Pressable onPress={() => router.back()} className="p-2 -m-2">
+            <Ionicons name="arrow-back" size={24} color="#78716c" />
+          </Pressable>
+          <View className="flex-1">
+            <Text className="text-2xl font-bold text-stone-900 dark:text-white">Templates</Text>
+            {weekLabel && (
+              <Text className="text-sm text-stone-500 dark:text-stone-400">{weekLabel}</Text>
+            )}
+          </View>
+        </View>
+      </View>
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {/* Save Current Week */}
+        <View className="mb-6 rounded-xl bg-white p-4 dark:bg-stone-800">
+          <Text className="mb-2 font-semibold text-stone-900 dark:text-white">
+            Save this week as a template
+          </Text>
+          <View className="flex-row gap-2">
+            <TextInput
+              value={templateName}
+              onChangeText={setTemplateName}
+              placeholder="e.g., Week A"
+              placeholderTextColor="#a8a29e"
+              className="flex-1 rounded-lg bg-stone-100 px-3 py-2 text-stone-900 dark:bg-stone-700 dark:text-white"
+              returnKeyType="done"
+              onSubmitEditing={handleSaveWeek}
+            />
+            <Pressable
+              onPress={handleSaveWeek}
+              disabled={isSaving || !templateName.trim()}
+              className={`justify-center rounded-lg px-4 ${
+                templateName.trim() ? "bg-orange-500" : "bg-orange-500/50"
+              }`}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="white" size="small" />
+              ) : (
+                <Text className="font-semibold text-white">Save</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+
+        {/* Saved Templates */}
+        {templates.length === 0 ? (
+          <View className="items-center py-12">
+            <Ionicons name="copy-outline" size={32} color="#a8a29e" />
+            <Text className="font-semibold text-stone-900 dark:text-white mt-4 mb-1">
+              No templates yet
+            </Text>
+            <Text className="text-sm text-stone-500 dark:text-stone-400 text-center">
+              Save a planned week to reuse{"\n"}your meal rotation
+            </Text>
+          </View>
+        ) : (
+          <View className="gap-3 pb-8">
+            {templates.map((template) => (
+              <TemplateCard
+                key={template._id}
+                template={template}
+                isBusy={busyTemplateId === template._id}
+                onApply={() => handleApply(template)}
+                onSetRecurrence={() => handleSetRecurrence(template)}
+                onDelete={() => handleDelete(template)}
+              />
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Offline Storage Screen
+ *
+ * Shows what the app keeps on the device: pinned cookbooks, shopping lists
+ * and week plans with their downloaded images, plus recently viewed
+ * recipes. Users pin this week's plan or the active list, refresh or unpin
+ * downloads, and clear recently viewed recipes.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { View, Text, ScrollView, Pressable, Alert, ActivityIndicator } from "react-native";
+import { useRouter } from "expo-router";
+import { useQuery } from "convex/react";
+import { Ionicons } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { api } from "@/convex/_generated/api";
+import { formatStorageSize, type OfflinePinKind } from "@/convex/lib/offlineStorage";
+import { useOfflinePins } from "@/hooks/useOfflinePins";
+import { useWeekNavigation } from "@/hooks/useWeekNavigation";
+import { useNetworkStatus } from "@/contexts/NetworkStatusContext";
+import { clearCache, getCacheStats } from "@/lib/recipeCache";
+import { getImageCacheSize } from "@/lib/imageCache";
+import type { OfflinePin } from "@/lib/offlinePins";
+
+const PIN_ICONS: Record<OfflinePinKind, keyof typeof Ionicons.glyphMap> = {
+  cookbook: "book-outline",
+  shoppingList: "cart-outline",
+  weekPlan: "calendar-outline",
+};
+
+/**
+ * Format a refresh time as "Updated Oct 19"
+ */
+function formatRefreshed(refreshedAt: number): string {
+  return `Updated ${new Date(refreshedAt).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  })}`;
+}
+
+export default function OfflineStorageScreen() {
+  const router = useRouter();
+  const { isOffline } = useNetworkStatus();
+  const { currentWeek } = useWeekNavigation();
+  const shoppingLists = useQuery(api.shoppingLists.getShoppingLists);
+  const { pins, isPinned, isBusy, pinShoppingList, pinWeekPlan, refreshPin, unpin } =
+    useOfflinePins();
+
+  const [cacheStats, setCacheStats] = useState({ recentCount: 0, pinnedCount: 0 });
+
+  const activeList = shoppingLists?.find((list) => list.status === "active");
+
+  // Recount whenever pins change
+  useEffect(() => {
+    getCacheStats().then(setCacheStats);
+  }, [pins]);
+
+  const { dataBytes, imageBytes } = useMemo(
+    () => ({
+      dataBytes: pins.reduce((total, pin) => total + pin.dataBytes, 0),
+      imageBytes: getImageCacheSize(),
+    }),
+    [pins]
+  );
+
+  // Run a pin action, reporting failures
+  const runPinAction = useCallback(async (action: () => Promise<void>, what: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${what}:`, error);
+      Alert.alert("Error", `Failed to ${what}. Please try again.`);
+    }
+  }, []);
+
+  const handlePinWeek = useCallback(() => {
+    runPinAction(
+      () => pinWeekPlan(currentWeek.startDate, currentWeek.endDate, currentWeek.weekLabel),
+      "download meal plan"
+    );
+  }, [currentWeek, pinWeekPlan, runPinAction]);
+
+  const handlePinActiveList = useCallback(() => {
+    if (!activeList) return;
+    runPinAction(() => pinShoppingList(activeList._id), "download shopping list");
+  }, [activeList, pinShoppingList, runPinAction]);
+
+  const handleRefresh = useCallback(
+    (pin: OfflinePin) => {
+      runPinAction(() => refreshPin(pin), "refresh download");
+    },
+    [refreshPin, runPinAction]
+  );
+
+  const handleUnpin = useCallback(
+    (pin: OfflinePin) => {
+      Alert.alert(
+        "Remove Download",
+        `"${pin.title}" will no longer be available offline.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Remove",
+            style: "destructive",
+            onPress: () => runPinAction(() => unpin(pin.key), "remove download"),
+          },
+        ]
+      );
+    },
+    [unpin, runPinAction]
+  );
+
+  const handleClearRecent = useCallback(() => {
+    Alert.alert(
+      "Clear Recently Viewed",
+      "Recently viewed recipes will be removed from this device. Downloads are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: async () => {
+            await clearCache();
+            setCacheStats(await getCacheStats());
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const weekPinned = isPinned("weekPlan", currentWeek.startDate);
+  const listPinned = activeList ? isPinned("shoppingList", activeList._id) : false;
+
+  return (
+    <SafeAreaView className="flex-1 bg-stone-50 dark:bg-stone-950" edges={["top"]}>
+      {/* Header */}
+      <View className="px-4 py-4 border-b border-stone-200 dark:border-stone-800 bg-white/80 dark:bg-stone-900/80">
+        <View className="flex-row items-center gap-3">
+          <Pressable onPress={() => router.back()} className="p-2 -m-2">
+            <Ionicons name="arrow-back" size={24} color="#78716c" />
+          </Pressable>
+          <Text className="flex-1 text-2xl font-bold text-stone-900 dark:text-white">
+            Offline Storage
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {/* Usage */}
+        <View className="mb-4 rounded-xl bg-white p-4 dark:bg-stone-800">
+          <Text className="text-sm text-stone-500 dark:text-stone-400">Used on this device</Text>
+          <Text className="mt-1 text-3xl font-bold text-stone-900 dark:text-white">
+            {formatStorageSize(dataBytes + imageBytes)}
+          </Text>
+          <View className="mt-3 gap-1">
+            <Text className="text-sm text-stone-600 dark:text-stone-300">
+              Downloads: {formatStorageSize(dataBytes)} ({cacheStats.pinnedCount}{" "}
+              {cacheStats.pinnedCount === 1 ? "recipe" : "recipes"})
+            </Text>
+            <Text className="text-sm text-stone-600 dark:text-stone-300">
+              Images: {formatStorageSize(imageBytes)}
+            </Text>
+          </View>
+        </View>
+
+        {/* Quick downloads */}
+        {!isOffline && (
+          <View className="mb-4 overflow-hidden rounded-xl bg-white dark:bg-stone-800">
+            <Pressable
+              onPress={handlePinWeek}
+              disabled={weekPinned || isBusy("weekPlan", currentWeek.startDate)}
+              className="flex-row items-center px-4 py-3 active:bg-stone-50 dark:active:bg-stone-700"
+            >
+              <Ionicons name="calendar-outline" size={20} color="#f97316" />
+              <Text className="ml-3 flex-1 text-stone-900 dark:text-white">
+                This week's meal plan
+              </Text>
+              {isBusy("weekPlan", currentWeek.startDate) ? (
+                <ActivityIndicator size="small" color="#f97316" />
+              ) : (
+                <Text className="text-sm font-medium text-orange-600 dark:text-orange-400">
+                  {weekPinned ? "Downloaded" : "Download"}
+                </Text>
+              )}
+            </Pressable>
+            {activeList && (
+              <Pressable
+                onPress={handlePinActiveList}
+                disabled={listPinned || isBusy("shoppingList", activeList._id)}
+                className="flex-row items-center border-t border-stone-100 px-4 py-3 active:bg-stone-50 dark:border-stone-700 dark:active:bg-stone-700"
+              >
+                <Ionicons name="cart-outline" size={20} color="#f97316" />
+                <Text className="ml-3 flex-1 text-stone-900 dark:text-white" numberOfLines={1}>
+                  {activeList.name}
+                </Text>
+                {isBusy("shoppingList", activeList._id) ? (
+                  <ActivityIndicator size="small" color="#f97316" />
+                ) : (
+                  <Text className="text-sm font-medium text-orange-600 dark:text-orange-400">
+                    {listPinned ? "Downloaded" : "Download"}
+                  </Text>
+                )}
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        {/* Pins */}
+        <Text className="mb-2 text-xs font-semibold uppercase text-stone-500 dark:text-stone-400">
+          Available offline
+        </Text>
+        {pins.length === 0 ? (
+          <View className="mb-4 rounded-xl bg-white p-4 dark:bg-stone-800">
+            <Text className="text-sm text-stone-500 dark:text-stone-400">
+              Nothing downloaded yet. Download a cookbook from its page, or this week's plan
+              and your shopping list above.
+            </Text>
+          </View>
+        ) : (
+          <View className="mb-4 overflow-hidden rounded-xl bg-white dark:bg-stone-800">
+            {pins.map((pin, index) => (
+              <View
+                key={pin.key}
+                className={`flex-row items-center px-4 py-3 ${
+                  index > 0 ? "border-t border-stone-100 dark:border-stone-700" : ""
+                }`}
+              >
+                <Ionicons name={PIN_ICONS[pin.kind]} size={20} color="#78716c" />
+                <View className="ml-3 flex-1">
+                  <Text className="text-stone-900 dark:text-white" numberOfLines={1}>
+                    {pin.title}
+                  </Text>
+                  <Text className="text-xs text-stone-500 dark:text-stone-400">
+                    {formatStorageSize(pin.dataBytes + pin.imageBytes)} ·{" "}
+                    {formatRefreshed(pin.refreshedAt)}
+                  </Text>
+                </View>
+                {isBusy(pin.kind, pin.targetId) ? (
+                  <ActivityIndicator size="small" color="#f97316" />
+                ) : (
+                  <View className="flex-row items-center gap-3">
+                    {!isOffline && (
+                      <Pressable onPress={() => handleRefresh(pin)} className="p-1">
+                        <Ionicons name="refresh-outline" size={20} color="#78716c" />
+                      </Pressable>
+                    )}
+                    <Pressable onPress={() => handleUnpin(pin)} className="p-1">
+                      <Ionicons name="trash-outline" size={20} color="#ef4444" />
+                    </Pressable>
+                  </View>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Recently viewed */}
+        <View className="mb-8 flex-row items-center rounded-xl bg-white px-4 py-3 dark:bg-stone-800">
+          <View className="flex-1">
+            <Text className="text-stone-900 dark:text-white">Recently viewed recipes</Text>
+            <Text className="text-xs text-stone-500 dark:text-stone-400">
+              {cacheStats.recentCount} kept for offline reading
+            </Text>
+          </View>
+          <Pressable
+            onPress={handleClearRecent}
+            disabled={cacheStats.recentCount === 0}
+            className="rounded-lg bg-stone-100 px-3 py-1.5 dark:bg-stone-700"
+          >
+            <Text className="text-sm font-medium text-stone-600 dark:text-stone-300">Clear</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
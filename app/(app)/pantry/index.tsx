@@ -0,0 +1,273 @@
+/**
+ * Pantry Screen
+ *
+ * Manages the user's pantry inventory and shows "what can I cook"
+ * recipe suggestions ranked by how much of each recipe the pantry covers.
+ */
+
+import { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { useQuery, useMutation } from "convex/react";
+import { Ionicons } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { AddItemForm } from "@/components/shopping";
+import { PantryItemRow, CookableRecipeCard } from "@/components/pantry";
+import type { ItemCategory } from "@/types/shopping-list";
+
+type Tab = "cook" | "pantry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const expiryOptions: { label: string; days: number | null }[] = [
+  { label: "No expiry", days: null },
+  { label: "3 days", days: 3 },
+  { label: "1 week", days: 7 },
+  { label: "2 weeks", days: 14 },
+  { label: "1 month", days: 30 },
+];
+
+export default function PantryScreen() {
+  const router = useRouter();
+
+  const pantryItems = useQuery(api.pantry.getPantryItems);
+  const cookableRecipes = useQuery(api.pantry.getCookableRecipes, {});
+
+  const addPantryItem = useMutation(api.pantry.addPantryItem);
+  const updatePantryItem = useMutation(api.pantry.updatePantryItem);
+  const deletePantryItem = useMutation(api.pantry.deletePantryItem);
+  const addMissingToShoppingList = useMutation(api.pantry.addMissingToShoppingList);
+
+  const [activeTab, setActiveTab] = useState<Tab>("cook");
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [addingRecipeId, setAddingRecipeId] = useState<Id<"recipes"> | null>(null);
+
+  const isLoading = pantryItems === undefined;
+
+  const handleAddItem = useCallback(
+    async (name: string, quantity: number, unit: string, category: ItemCategory) => {
+      try {
+        await addPantryItem({
+          name,
+          quantity,
+          unit: unit === "item" ? "" : unit,
+          category,
+          expiresAt: expiryDays === null ? undefined : Date.now() + expiryDays * DAY_MS,
+        });
+      } catch (error) {
+        console.error("Failed to add pantry item:", error);
+        Alert.alert("Error", "Failed to add item. Please try again.");
+      }
+    },
+    [addPantryItem, expiryDays]
+  );
+
+  const handleChangeQuantity = useCallback(
+    async (itemId: Id<"pantryItems">, quantity: number) => {
+      try {
+        await updatePantryItem({ itemId, quantity });
+      } catch (error) {
+        console.error("Failed to update pantry item:", error);
+      }
+    },
+    [updatePantryItem]
+  );
+
+  const handleDeleteItem = useCallback(
+    async (itemId: Id<"pantryItems">) => {
+      try {
+        await deletePantryItem({ itemId });
+      } catch (error) {
+        console.error("Failed to delete pantry item:", error);
+        Alert.alert("Error", "Failed to delete item. Please try again.");
+      }
+    },
+    [deletePantryItem]
+  );
+
+  const handleAddMissing = useCallback(
+    async (recipeId: Id<"recipes">) => {
+      setAddingRecipeId(recipeId);
+      try {
+        const { listId, itemCount } = await addMissingToShoppingList({ recipeId });
+        Alert.alert(
+          "Added to Shopping List",
+          `${itemCount} item${itemCount === 1 ? "" : "s"} added.`,
+          [
+            { text: "OK", style: "cancel" },
+            {
+              text: "View List",
+              onPress: () => router.push(`/(app)/shopping/${listId}`),
+            },
+          ]
+        );
+      } catch (error) {
+        console.error("Failed to add missing items:", error);
+        Alert.alert("Error", "Failed to add items. Please try again.");
+      } finally {
+        setAddingRecipeId(null);
+      }
+    },
+    [addMissingToShoppingList, router]
+  );
+
+  if (isLoading) {
+    return (
+      <View className="flex-1 items-center justify-center bg-stone-50 dark:bg-stone-950">
+        <ActivityIndicator size="large" color="#f97316" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-stone-50 dark:bg-stone-950" edges={["top"]}>
+      {/* Header */}
+      <View className="px-4 py-4 border-b border-stone-200 dark:border-stone-800 bg-white/80 dark:bg-stone-900/80">
+        <View className="flex-row items-center gap-3">
+          <Pressable onPress={() => router.back()} className="p-2 -m-2">
+            <Ionicons name="arrow-back" size={24} color="#78716c" />
+          </Pressable>
+          <View className="flex-1">
+            <Text className="text-2xl font-bold text-stone-900 dark:text-white">Pantry</Text>
+            <Text className="text-sm text-stone-500 dark:text-stone-400">
+              {pantryItems.length} {pantryItems.length === 1 ? "item" : "items"} on hand
+            </Text>
+          </View>
+          {activeTab === "pantry" && (
+            <Pressable
+              onPress={() => setShowAddForm(!showAddForm)}
+              className="flex-row items-center gap-2 px-4 py-2 bg-orange-500 rounded-xl"
+            >
+              <Ionicons name={showAddForm ? "close" : "add"} size={20} color="white" />
+              <Text className="text-white font-semibold">
+                {showAddForm ? "Done" : "Add"}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+
+        {/* Tabs */}
+        <View className="flex-row mt-4 p-1 rounded-xl bg-stone-100 dark:bg-stone-800">
+          {(["cook", "pantry"] as Tab[]).map((tab) => (
+            <Pressable
+              key={tab}
+              onPress={() => setActiveTab(tab)}
+              className={`flex-1 py-2 rounded-lg items-center ${
+                activeTab === tab ? "bg-white dark:bg-stone-700" : ""
+              }`}
+            >
+              <Text
+                className={`text-sm font-medium ${
+                  activeTab === tab
+                    ? "text-stone-900 dark:text-white"
+                    : "text-stone-500 dark:text-stone-400"
+                }`}
+              >
+                {tab === "cook" ? "What Can I Cook?" : "My Pantry"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {activeTab === "pantry" && showAddForm && (
+        <View>
+          <AddItemForm onAdd={handleAddItem} onCancel={() => setShowAddForm(false)} />
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            className="bg-white dark:bg-stone-800 border-b border-stone-200 dark:border-stone-700"
+            contentContainerClassName="gap-2 px-4 py-3"
+          >
+            {expiryOptions.map((option) => (
+              <Pressable
+                key={option.label}
+                onPress={() => setExpiryDays(option.days)}
+                className={`px-3 py-2 rounded-lg ${
+                  expiryDays === option.days
+                    ? "bg-orange-500"
+                    : "bg-stone-100 dark:bg-stone-700"
+                }`}
+              >
+                <Text
+                  className={`text-sm ${
+                    expiryDays === option.days
+                      ? "text-white font-medium"
+                      : "text-stone-700 dark:text-stone-300"
+                  }`}
+                >
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {activeTab === "pantry" ? (
+          pantryItems.length === 0 ? (
+            <View className="items-center py-12">
+              <Ionicons name="basket-outline" size={32} color="#a8a29e" />
+              <Text className="font-semibold text-stone-900 dark:text-white mt-4 mb-1">
+                Your pantry is empty
+              </Text>
+              <Text className="text-sm text-stone-500 dark:text-stone-400 text-center">
+                Add what you have on hand to see{"\n"}what you can cook
+              </Text>
+            </View>
+          ) : (
+            <View className="gap-2 pb-8">
+              {pantryItems.map((item) => (
+                <PantryItemRow
+                  key={item._id}
+                  item={item}
+                  onChangeQuantity={(quantity) => handleChangeQuantity(item._id, quantity)}
+                  onToggleAlwaysHave={() =>
+                    updatePantryItem({ itemId: item._id, alwaysHave: !item.alwaysHave })
+                  }
+                  onDelete={() => handleDeleteItem(item._id)}
+                />
+              ))}
+            </View>
+          )
+        ) : cookableRecipes === undefined ? (
+          <ActivityIndicator className="py-12" color="#f97316" />
+        ) : cookableRecipes.length === 0 ? (
+          <View className="items-center py-12">
+            <Ionicons name="restaurant-outline" size={32} color="#a8a29e" />
+            <Text className="font-semibold text-stone-900 dark:text-white mt-4 mb-1">
+              No matches yet
+            </Text>
+            <Text className="text-sm text-stone-500 dark:text-stone-400 text-center">
+              Add items to your pantry to find{"\n"}recipes you can cook
+            </Text>
+          </View>
+        ) : (
+          <View className="gap-3 pb-8">
+            {cookableRecipes.map((recipe) => (
+              <CookableRecipeCard
+                key={recipe._id}
+                recipe={recipe}
+                onPress={() => router.push(`/(app)/recipes/${recipe._id}`)}
+                onAddMissing={() => handleAddMissing(recipe._id)}
+                isAdding={addingRecipeId === recipe._id}
+              />
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Duplicate Recipes Screen
+ *
+ * Lists groups of recipes that look like the same recipe saved more than
+ * once (same video, same page, or similar title and ingredients). The user
+ * picks the recipe to keep in each group and merges the others into it;
+ * notes, cookbooks, meal plans, cook history and favorites carry over.
+ */
+
+import { useState, useCallback } from "react";
+import { View, Text, ScrollView, Pressable, Alert, ActivityIndicator } from "react-native";
+import { useRouter } from "expo-router";
+import { useQuery, useMutation } from "convex/react";
+import { Ionicons } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+/**
+ * Format a save date as "Saved Oct 19, 2026"
+ */
+function formatSaved(createdAt: number): string {
+  return `Saved ${new Date(createdAt).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })}`;
+}
+
+export default function RecipeDuplicatesScreen() {
+  const router = useRouter();
+  const groups = useQuery(api.recipeDuplicates.getDuplicateGroups);
+  const mergeRecipes = useMutation(api.recipeDuplicates.mergeRecipes);
+
+  // Recipe to keep per group, keyed by the group's oldest recipe
+  const [keepIds, setKeepIds] = useState<Record<string, Id<"recipes">>>({});
+  const [mergingGroup, setMergingGroup] = useState<string | null>(null);
+
+  const handleMerge = useCallback(
+    (group: NonNullable<typeof groups>[number]) => {
+      const groupKey = group[0]._id;
+      const keepId = keepIds[groupKey] ?? groupKey;
+      const keep = group.find((recipe) => recipe._id === keepId) ?? group[0];
+      const others = group.filter((recipe) => recipe._id !== keep._id);
+
+      Alert.alert(
+        "Merge Recipes",
+        `Keep "${keep.title}" and merge ${others.length} ${
+          others.length === 1 ? "copy" : "copies"
+        } into it? Notes, cookbooks, meal plans and cook history move to the kept recipe.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Merge",
+            style: "destructive",
+            onPress: async () => {
+              setMergingGroup(groupKey);
+              try {
+                await mergeRecipes({
+                  keepId: keep._id,
+                  mergeIds: others.map((recipe) => recipe._id),
+                });
+              } catch (error) {
+                console.error("Failed to merge recipes:", error);
+                Alert.alert("Error", "Failed to merge recipes. Please try again.");
+              } finally {
+                setMergingGroup(null);
+              }
+            },
+          },
+        ]
+      );
+    },
+    [keepIds, mergeRecipes]
+  );
+
+  return (
+    <SafeAreaView className="flex-1 bg-stone-50 dark:bg-stone-950" edges={["top"]}>
+      {/* Header */}
+      <View className="px-4 py-4 border-b border-stone-200 dark:border-stone-800 bg-white/80 dark:bg-stone-900/80">
+        <View className="flex-row items-center gap-3">
+          <Pressable onPress={() => router.back()} className="p-2 -m-2">
+            <Ionicons name="arrow-back" size={24} color="#78716c" />
+          </Pressable>
+          <Text className="flex-1 text-2xl font-bold text-stone-900 dark:text-white">
+            Duplicate Recipes
+          </Text>
+        </View>
+      </View>
+
+      {groups === undefined ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#f97316" />
+        </View>
+      ) : (
+        <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+          {groups.length === 0 ? (
+            <View className="rounded-xl bg-white p-4 dark:bg-stone-800">
+              <Text className="text-sm text-stone-500 dark:text-stone-400">
+                No duplicates found. Every recipe in your library is saved once.
+              </Text>
+            </View>
+          ) : (
+            <Text className="mb-3 text-sm text-stone-500 dark:text-stone-400">
+              Tap the recipe to keep in each group, then merge the others into it.
+            </Text>
+          )}
+
+          {groups.map((group) => {
+            const groupKey = group[0]._id;
+            const keepId = keepIds[groupKey] ?? groupKey;
+            const isMerging = mergingGroup === groupKey;
+
+            return (
+              <View
+                key={groupKey}
+                className="mb-4 overflow-hidden rounded-xl bg-white dark:bg-stone-800"
+              >
+                {group.map((recipe, index) => (
+                  <Pressable
+                    key={recipe._id}
+                    onPress={() => setKeepIds((ids) => ({ ...ids, [groupKey]: recipe._id }))}
+                    onLongPress={() => router.push(`/(app)/recipes/${recipe._id}`)}
+                    disabled={isMerging}
+                    className={`flex-row items-center px-4 py-3 active:bg-stone-50 dark:active:bg-stone-700 ${
+                      index > 0 ? "border-t border-stone-100 dark:border-stone-700" : ""
+                    }`}
+                  >
+                    <Ionicons
+                      name={recipe._id === keepId ? "radio-button-on" : "radio-button-off"}
+                      size={20}
+                      color={recipe._id === keepId ? "#f97316" : "#a8a29e"}
+                    />
+                    <View className="ml-3 flex-1">
+                      <View className="flex-row items-center gap-1">
+                        <Text
+                          className="flex-shrink text-stone-900 dark:text-white"
+                          numberOfLines={1}
+                        >
+                          {recipe.title}
+                        </Text>
+                        {recipe.isFavorited && (
+                          <Ionicons name="heart" size={14} color="#f97316" />
+                        )}
+                      </View>
+                      <Text className="text-xs text-stone-500 dark:text-stone-400">
+                        {[
+                          recipe.sourceName,
+                          formatSaved(recipe.createdAt),
+                          recipe.timesCooked > 0 && `Cooked ${recipe.timesCooked}x`,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </Text>
+                    </View>
+                    {recipe._id === keepId && (
+                      <Text className="text-xs font-medium text-orange-600 dark:text-orange-400">
+                        Keep
+                      </Text>
+                    )}
+                  </Pressable>
+                ))}
+                <Pressable
+                  onPress={() => handleMerge(group)}
+                  disabled={isMerging}
+                  className="flex-row items-center justify-center border-t border-stone-100 px-4 py-3 active:bg-stone-50 dark:border-stone-700 dark:active:bg-stone-700"
+                >
+                  {isMerging ? (
+                    <ActivityIndicator size="small" color="#f97316" />
+                  ) : (
+                    <Text className="text-sm font-medium text-orange-600 dark:text-orange-400">
+                      Merge {group.length} recipes
+                    </Text>
+                  )}
+                </Pressable>
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
@@ -5,7 +5,7 @@
  * Displays user's recipe list with search, filter, and sort.
  */
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect } from "react";
 import {
   View,
   Text,
@@ -15,7 +15,7 @@ import {
   ActivityIndicator,
 } from "react-native";
 import { useRouter } from "expo-router";
-import { useQuery } from "convex/react";
+import { usePaginatedQuery, useQuery } from "convex/react";
 import { useColorScheme } from "nativewind";
 import { api } from "@/convex/_generated/api";
 import { Plus, Settings } from "lucide-react-native";
@@ -24,11 +24,15 @@ import {
   SearchBar,
   FilterPills,
   SortSelector,
+  RecipeFilterSheet,
+  EMPTY_RECIPE_FILTERS,
+  countActiveFilters,
   ViewModeToggle,
   RecipeCard,
   EmptyState,
   SkeletonRecipeCard,
   type SortOption,
+  type RecipeFilters,
   type ViewMode,
 } from "@/components/recipes/list";
 import { AddRecipeMenu } from "@/components/recipes";
@@ -37,6 +41,8 @@ import { DigeroLogo } from "@/components/brand";
 
 type SourceFilter = "all" | "youtube" | "website" | "scanned" | "manual";
 
+const PAGE_SIZE = 30;
+
 export default function HomeScreen() {
   const router = useRouter();
   const { colorScheme } = useColorScheme();
@@ -46,20 +52,56 @@ export default function HomeScreen() {
   const [searchQuery, setSearchQuery] = useState("");
   const [sourceFilter, setSourceFilter] = useState<SourceFilter>("all");
   const [sortBy, setSortBy] = useState<SortOption>("mostRecent");
+  const [filters, setFilters] = useState<RecipeFilters>(EMPTY_RECIPE_FILTERS);
   const [viewMode, setViewMode] = useState<ViewMode>("grid");
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddMenu, setShowAddMenu] = useState(false);
 
-  // Fetch recipes with current filters
-  const recipesResult = useQuery(api.recipes.listRecipes, {
-    paginationOpts: { numItems: 50, cursor: null },
-    sourceFilter: sourceFilter === "all" ? undefined : sourceFilter,
-    searchQuery: searchQuery || undefined,
-    sortBy,
-  });
+  const listArgs = useMemo(
+    () => ({
+      sourceFilter: sourceFilter === "all" ? undefined : sourceFilter,
+      searchQuery: searchQuery || undefined,
+      sortBy,
+      cuisineType: filters.cuisineType,
+      difficulty: filters.difficulty,
+      dietaryTags: filters.dietaryTags.length > 0 ? filters.dietaryTags : undefined,
+      maxTotalTime: filters.maxTotalTime,
+    }),
+    [sourceFilter, searchQuery, sortBy, filters]
+  );
+
+  // Fetch recipes with current filters, loading more pages on scroll
+  const {
+    results: recipes,
+    status,
+    loadMore,
+  } = usePaginatedQuery(api.recipes.listRecipes, listArgs, { initialNumItems: PAGE_SIZE });
+  const [targetCount, setTargetCount] = useState(PAGE_SIZE);
+
+  // Start over with one page when the filters change
+  useEffect(() => {
+    setTargetCount(PAGE_SIZE);
+  }, [listArgs]);
 
-  const recipes = recipesResult?.page ?? [];
-  const isLoading = recipesResult === undefined;
+  // Dietary tags are filtered after paginating, so pages can come back
+  // short; keep loading until the list is full or there are no more
+  useEffect(() => {
+    if (status === "CanLoadMore" && recipes.length < targetCount) {
+      loadMore(PAGE_SIZE);
+    }
+  }, [status, recipes.length, targetCount, loadMore]);
+  const filterOptions = useQuery(api.recipes.getRecipeFilterOptions);
+
+  const isLoading = status === "LoadingFirstPage";
+  const activeFilterCount = countActiveFilters(filters);
+
+  // Load the next page when the list is scrolled near the end
+  const handleEndReached = useCallback(() => {
+    if (status === "CanLoadMore") {
+      setTargetCount(recipes.length + PAGE_SIZE);
+      loadMore(PAGE_SIZE);
+    }
+  }, [status, recipes.length, loadMore]);
 
   // Handle pull to refresh
   const handleRefresh = useCallback(async () => {
@@ -102,6 +144,10 @@ export default function HomeScreen() {
     router.push("/(app)/recipes/scan");
   }, [router]);
 
+  const handleBulkImport = useCallback(() => {
+    router.push("/(app)/recipes/bulk-import");
+  }, [router]);
+
   const handleAiChat = useCallback(() => {
     router.push("/(app)/recipes/ai-chat");
   }, [router]);
@@ -110,12 +156,13 @@ export default function HomeScreen() {
   const handleClearFilters = useCallback(() => {
     setSearchQuery("");
     setSourceFilter("all");
+    setFilters(EMPTY_RECIPE_FILTERS);
   }, []);
 
   // Recipe count text
   const recipeCountText = useMemo(() => {
     const count = recipes.length;
-    let text = `${count} recipe${count !== 1 ? "s" : ""}`;
+    let text = `${count}${status === "CanLoadMore" ? "+" : ""} recipe${count !== 1 ? "s" : ""}`;
 
     if (sourceFilter !== "all") {
       text += ` in ${sourceFilter}`;
@@ -125,8 +172,12 @@ export default function HomeScreen() {
       text += ` matching "${searchQuery}"`;
     }
 
+    if (activeFilterCount > 0) {
+      text += ` (${activeFilterCount} filter${activeFilterCount !== 1 ? "s" : ""})`;
+    }
+
     return text;
-  }, [recipes.length, sourceFilter, searchQuery]);
+  }, [recipes.length, status, sourceFilter, searchQuery, activeFilterCount]);
 
   // Render recipe card
   const renderRecipeCard = useCallback(
@@ -195,6 +246,12 @@ export default function HomeScreen() {
           </View>
 
           <View className="flex-row items-center gap-2">
+            <RecipeFilterSheet
+              filters={filters}
+              onFiltersChange={setFilters}
+              cuisines={filterOptions?.cuisines ?? []}
+              dietaryTags={filterOptions?.dietaryTags ?? []}
+            />
             <SortSelector value={sortBy} onSortChange={setSortBy} />
             <ViewModeToggle value={viewMode} onViewModeChange={setViewMode} />
           </View>
@@ -206,7 +263,9 @@ export default function HomeScreen() {
         <View className="pt-6">{renderSkeleton()}</View>
       ) : recipes.length === 0 ? (
         <EmptyState
-          hasFilters={sourceFilter !== "all" || !!searchQuery}
+          hasFilters={
+            sourceFilter !== "all" || !!searchQuery || activeFilterCount > 0
+          }
           searchQuery={searchQuery}
           onClearFilters={handleClearFilters}
           onAddRecipe={handleAddRecipe}
@@ -228,6 +287,13 @@ export default function HomeScreen() {
               tintColor="#f97316"
             />
           }
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            status === "LoadingMore" ? (
+              <ActivityIndicator className="py-4" color="#f97316" />
+            ) : null
+          }
           ListHeaderComponent={
             <Text className="mb-4 text-sm text-stone-500 dark:text-stone-400">
               {recipeCountText}
@@ -256,6 +322,7 @@ export default function HomeScreen() {
         onYoutubeUrl={handleYoutubeUrl}
         onYoutubeSearch={handleYoutubeSearch}
         onScanPhoto={handleScanPhoto}
+        onBulkImport={handleBulkImport}
         onAiChat={handleAiChat}
       />
     </View>
@@ -1,7 +1,8 @@
 /**
  * Recipe Detail Layout
  *
- * Layout wrapper for recipe detail screens including cook mode.
+ * Layout wrapper for recipe detail screens including cook mode and
+ * version history.
  */
 
 import { Stack } from "expo-router";
@@ -14,6 +15,7 @@ export default function RecipeDetailLayout() {
       }}
     >
       <Stack.Screen name="index" />
+      <Stack.Screen name="history" />
       <Stack.Screen
         name="cook-mode"
         options={{
@@ -19,7 +19,7 @@ import { useLocalSearchParams, useRouter } from "expo-router";
 import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
-import { X, ChevronLeft, ChevronRight } from "lucide-react-native";
+import { X, ChevronLeft, ChevronRight, Check } from "lucide-react-native";
 import { useKeepAwake } from "expo-keep-awake";
 
 import {
@@ -28,9 +28,12 @@ import {
   TimerButton,
   getPrimaryTime,
 } from "@/components/recipes/cook-mode";
+import { LogCookModal } from "@/components/recipes/detail";
 import { SpeechmaticsFlowProvider } from "@/components/voice/SpeechmaticsFlowProvider";
 import { SpeechmaticsVoiceButton } from "@/components/voice/SpeechmaticsVoiceButton";
 import type { VoiceAssistantRecipe } from "@/hooks/voice/useSpeechmaticsFlow";
+import { getStepSections } from "@/convex/lib/recipeSections";
+import { scaleAmount } from "@/convex/lib/recipeScaling";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 
@@ -38,7 +41,7 @@ export default function CookModeScreen() {
   // Keep screen awake during cook mode
   useKeepAwake();
 
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, scale: scaleParam } = useLocalSearchParams<{ id: string; scale?: string }>();
   const router = useRouter();
   const flatListRef = useRef<FlatList>(null);
 
@@ -46,6 +49,7 @@ export default function CookModeScreen() {
   const [activeTimer, setActiveTimer] = useState<number | null>(null);
   const [timerRemaining, setTimerRemaining] = useState<number | null>(null);
   const [timerRunning, setTimerRunning] = useState(true);
+  const [showLogCookModal, setShowLogCookModal] = useState(false);
 
   const recipe = useQuery(api.recipes.get, {
     id: id as Id<"recipes">,
@@ -53,6 +57,15 @@ export default function CookModeScreen() {
 
   const totalSteps = recipe?.instructions.length ?? 0;
 
+  // Scale chosen on the recipe detail screen
+  const scale = Number(scaleParam) > 0 ? Number(scaleParam) : 1;
+
+  // Section heading of each step, shown above the step text
+  const stepSections = useMemo(
+    () => getStepSections(recipe?.instructionSections, totalSteps),
+    [recipe?.instructionSections, totalSteps]
+  );
+
   // Handle step navigation
   const goToStep = useCallback(
     (index: number) => {
@@ -72,6 +85,13 @@ export default function CookModeScreen() {
     goToStep(currentStep + 1);
   }, [currentStep, goToStep]);
 
+  const isLastStep = currentStep === totalSteps - 1;
+
+  // Finishing the last step prompts the user to log the cook
+  const handleFinish = useCallback(() => {
+    setShowLogCookModal(true);
+  }, []);
+
   // Handle timer
   const handleStartTimer = useCallback((seconds: number) => {
     setActiveTimer(seconds);
@@ -136,13 +156,13 @@ export default function CookModeScreen() {
   const voiceRecipe: VoiceAssistantRecipe = {
     id: recipe._id,
     title: recipe.title,
-    ingredients: recipe.ingredients.map((ing) =>
-      typeof ing === "string"
-        ? ing
-        : { name: ing.name, quantity: ing.quantity, unit: ing.unit }
-    ),
+    ingredients: recipe.ingredients.map((ing) => {
+      if (typeof ing === "string") return ing;
+      const { quantity, unit } = scaleAmount(ing, scale);
+      return { name: ing.name, quantity, unit };
+    }),
     instructions: recipe.instructions,
-    servings: recipe.servings,
+    servings: Math.round(recipe.servings * scale),
   };
 
   const renderStep = ({
@@ -202,6 +222,19 @@ export default function CookModeScreen() {
           <Text className="text-center text-base text-stone-400" numberOfLines={1}>
             {recipe.title}
           </Text>
+          {scale !== 1 && (
+            <Text className="mt-1 text-center text-xs text-stone-500">
+              Scaled {Math.round(scale * 100) / 100}x
+            </Text>
+          )}
+          {stepSections[currentStep] && (
+            <Text
+              className="mt-1 text-center text-sm font-semibold uppercase tracking-wide text-orange-400"
+              numberOfLines={1}
+            >
+              {stepSections[currentStep]}
+            </Text>
+          )}
         </View>
 
         {/* Steps Pager */}
@@ -276,21 +309,29 @@ export default function CookModeScreen() {
           </View>
 
           <Pressable
-            onPress={goToNext}
-            disabled={currentStep === totalSteps - 1}
+            onPress={isLastStep ? handleFinish : goToNext}
             className={`h-14 w-14 items-center justify-center rounded-full ${
-              currentStep === totalSteps - 1
-                ? "bg-stone-800/50"
+              isLastStep
+                ? "bg-green-600 active:bg-green-700"
                 : "bg-orange-500 active:bg-orange-600"
             }`}
           >
-            <ChevronRight
-              className={`h-6 w-6 ${
-                currentStep === totalSteps - 1 ? "text-stone-600" : "text-white"
-              }`}
-            />
+            {isLastStep ? (
+              <Check className="h-6 w-6 text-white" />
+            ) : (
+              <ChevronRight className="h-6 w-6 text-white" />
+            )}
           </Pressable>
         </View>
+
+        {/* Log Cook Modal */}
+        <LogCookModal
+          isOpen={showLogCookModal}
+          recipeId={recipe._id}
+          defaultServings={Math.max(1, Math.round(recipe.servings * scale))}
+          onClose={() => setShowLogCookModal(false)}
+          onSuccess={() => router.back()}
+        />
       </View>
     </SpeechmaticsFlowProvider>
   );
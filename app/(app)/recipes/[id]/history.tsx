@@ -0,0 +1,192 @@
+/**
+ * Recipe Version History Screen
+ *
+ * Lists earlier versions of a recipe, newest first. Tapping a version
+ * shows what the change after it did, field by field, and the owner can
+ * restore it. Restoring keeps the current version in the history.
+ */
+
+import { useState, useCallback } from "react";
+import { View, Text, ScrollView, Pressable, Alert, ActivityIndicator } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useQuery, useMutation } from "convex/react";
+import { Ionicons } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { RevisionDiff } from "@/components/recipes/detail";
+
+/**
+ * Format a revision time as "Oct 19, 3:42 PM"
+ */
+function formatRevisionTime(createdAt: number): string {
+  return new Date(createdAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function RecipeHistoryScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const recipeId = id as Id<"recipes">;
+
+  const [selectedId, setSelectedId] = useState<Id<"recipeRevisions"> | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const recipe = useQuery(api.recipes.get, { id: recipeId });
+  const revisions = useQuery(api.recipeRevisions.listRevisions, { recipeId });
+  const selectedDiff = useQuery(
+    api.recipeRevisions.getRevisionDiff,
+    selectedId ? { revisionId: selectedId } : "skip"
+  );
+
+  const restoreRevision = useMutation(api.recipeRevisions.restoreRevision);
+
+  const handleRestore = useCallback(() => {
+    if (!selectedDiff) return;
+
+    const fieldCount = selectedDiff.restoreChanges.length;
+    Alert.alert(
+      "Restore This Version?",
+      fieldCount === 0
+        ? "This version matches the current recipe."
+        : `${fieldCount} ${fieldCount === 1 ? "field" : "fields"} will change. The current version stays in the history.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          onPress: async () => {
+            setIsRestoring(true);
+            try {
+              await restoreRevision({ revisionId: selectedDiff._id });
+              router.back();
+            } catch (error) {
+              console.error("Failed to restore revision:", error);
+              Alert.alert("Error", "Failed to restore this version. Please try again.");
+            } finally {
+              setIsRestoring(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [selectedDiff, restoreRevision, router]);
+
+  if (revisions === undefined) {
+    return (
+      <View className="flex-1 items-center justify-center bg-stone-50 dark:bg-stone-950">
+        <ActivityIndicator size="large" color="#f97316" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-stone-50 dark:bg-stone-950" edges={["top"]}>
+      {/* Header */}
+      <View className="px-4 py-4 border-b border-stone-200 dark:border-stone-800 bg-white/80 dark:bg-stone-900/80">
+        <View className="flex-row items-center gap-3">
+          <Pressable onPress={() => router.back()} className="p-2 -m-2">
+            <Ionicons name="arrow-back" size={24} color="#78716c" />
+          </Pressable>
+          <View className="flex-1">
+            <Text className="text-2xl font-bold text-stone-900 dark:text-white">
+              Version History
+            </Text>
+            {recipe && (
+              <Text className="text-sm text-stone-500 dark:text-stone-400" numberOfLines={1}>
+                {recipe.title}
+              </Text>
+            )}
+          </View>
+        </View>
+      </View>
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {revisions.length === 0 ? (
+          <View className="items-center py-12">
+            <Ionicons name="time-outline" size={48} color="#a8a29e" />
+            <Text className="mt-4 text-center text-stone-500 dark:text-stone-400">
+              No earlier versions yet. Each time this recipe is edited, the previous
+              version is saved here.
+            </Text>
+          </View>
+        ) : (
+          revisions.map((revision) => {
+            const isSelected = revision._id === selectedId;
+
+            return (
+              <View
+                key={revision._id}
+                className={`mb-3 rounded-xl bg-white dark:bg-stone-800 ${
+                  isSelected ? "border border-orange-300 dark:border-orange-700" : ""
+                }`}
+              >
+                <Pressable
+                  onPress={() => setSelectedId(isSelected ? null : revision._id)}
+                  className="flex-row items-center p-4"
+                >
+                  <View className="flex-1">
+                    <Text className="font-semibold text-stone-900 dark:text-white">
+                      {revision.changeSummary}
+                    </Text>
+                    <Text className="mt-0.5 text-xs text-stone-500 dark:text-stone-400">
+                      {revision.isOwnChange ? "You" : revision.authorName} ·{" "}
+                      {formatRevisionTime(revision.createdAt)}
+                    </Text>
+                    {revision.changedFields.length > 0 && (
+                      <Text className="mt-1 text-xs text-stone-400 dark:text-stone-500">
+                        Changed {revision.changedFields.length}{" "}
+                        {revision.changedFields.length === 1 ? "field" : "fields"}
+                      </Text>
+                    )}
+                  </View>
+                  <Ionicons
+                    name={isSelected ? "chevron-up" : "chevron-down"}
+                    size={20}
+                    color="#a8a29e"
+                  />
+                </Pressable>
+
+                {isSelected && (
+                  <View className="border-t border-stone-100 p-4 dark:border-stone-700">
+                    {selectedDiff === undefined ? (
+                      <ActivityIndicator size="small" color="#f97316" />
+                    ) : selectedDiff === null ? (
+                      <Text className="text-sm text-stone-500 dark:text-stone-400">
+                        This version is no longer available.
+                      </Text>
+                    ) : (
+                      <>
+                        <RevisionDiff changes={selectedDiff.changes} />
+                        {selectedDiff.canRestore && (
+                          <Pressable
+                            onPress={handleRestore}
+                            disabled={isRestoring}
+                            className="mt-4 flex-row items-center justify-center gap-2 rounded-xl bg-orange-500 py-3 active:bg-orange-600"
+                          >
+                            {isRestoring ? (
+                              <ActivityIndicator size="small" color="#ffffff" />
+                            ) : (
+                              <Ionicons name="arrow-undo-outline" size={18} color="#ffffff" />
+                            )}
+                            <Text className="font-semibold text-white">Restore This Version</Text>
+                          </Pressable>
+                        )}
+                      </>
+                    )}
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+
+        <View className="h-8" />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -4,7 +4,7 @@
  * Displays detailed view of a recipe with all sections.
  */
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -13,6 +13,7 @@ import {
   ActivityIndicator,
   Image,
   Alert,
+  Share,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useQuery, useMutation, useAction } from "convex/react";
@@ -36,9 +37,19 @@ import {
   DietaryConversionButtons,
   ActionButtons,
   InstacartRecipeButton,
+  CookHistorySummary,
+  LogCookModal,
+  NutritionMatchesModal,
+  ParentRecipeBanner,
+  VariationsSection,
 } from "@/components/recipes/detail";
 import { AddToCookbookModal } from "@/components/cookbooks";
 import { TabBar } from "@/components/navigation";
+import type { RecipeExportFormat } from "@/convex/lib/recipeExport";
+import { findPanSize } from "@/convex/lib/recipeScaling";
+import { useNetworkStatus } from "@/contexts/NetworkStatusContext";
+import { cacheRecipe, getCachedRecipe } from "@/lib/recipeCache";
+import { getLocalImageUri } from "@/lib/imageCache";
 
 type DietType = "vegan" | "vegetarian" | "gluten-free";
 
@@ -46,20 +57,62 @@ export default function RecipeDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const [showAddToCookbookModal, setShowAddToCookbookModal] = useState(false);
+  const [showLogCookModal, setShowLogCookModal] = useState(false);
+  const [showNutritionMatches, setShowNutritionMatches] = useState(false);
+  const [scale, setScale] = useState(1);
   const [isConverting, setIsConverting] = useState(false);
   const [convertingType, setConvertingType] = useState<DietType | null>(null);
 
   // Guard against invalid IDs (like "ai-chat" being caught by dynamic route)
-  const isValidId = id && !["ai-chat", "create", "import", "scan", "youtube-import", "youtube-search"].includes(id);
+  const isValidId = id && !["ai-chat", "bulk-import", "create", "import", "scan", "youtube-import", "youtube-search"].includes(id);
 
-  const recipe = useQuery(
+  const { isOffline } = useNetworkStatus();
+  const liveRecipe = useQuery(
     api.recipes.get,
     isValidId ? { id: id as Id<"recipes"> } : "skip"
   );
+  const [cachedRecipe, setCachedRecipe] = useState<typeof liveRecipe>(undefined);
+
+  // Keep viewed recipes for offline use
+  useEffect(() => {
+    if (liveRecipe) {
+      cacheRecipe(liveRecipe._id, liveRecipe);
+    }
+  }, [liveRecipe]);
+
+  // Fall back to the cached copy while offline
+  useEffect(() => {
+    if (isOffline && liveRecipe === undefined && isValidId) {
+      getCachedRecipe(id).then((cached) =>
+        setCachedRecipe((cached as typeof liveRecipe) ?? null)
+      );
+    }
+  }, [isOffline, liveRecipe, isValidId, id]);
+
+  const recipe = liveRecipe === undefined && isOffline ? cachedRecipe : liveRecipe;
+
+  const recentCookLogs = useQuery(
+    api.cookLogs.getRecipeCookHistory,
+    isValidId ? { recipeId: id as Id<"recipes">, limit: 3 } : "skip"
+  );
+
+  const variations = useQuery(
+    api.recipes.getVariations,
+    isValidId ? { recipeId: id as Id<"recipes"> } : "skip"
+  );
+
+  const parentComparison = useQuery(
+    api.recipes.getParentComparison,
+    isValidId ? { recipeId: id as Id<"recipes"> } : "skip"
+  );
+
+  const currentUser = useQuery(api.users.getCurrentUser);
 
   const toggleFavorite = useMutation(api.recipes.toggleFavorite);
   const deleteRecipe = useMutation(api.recipes.deleteRecipe);
+  const createVariation = useMutation(api.recipes.createVariation);
   const convertRecipeDiet = useAction(api.actions.convertRecipeDiet.convertRecipeDiet);
+  const exportRecipes = useAction(api.actions.exportRecipes.exportRecipes);
 
   // Handle favorite toggle
   const handleFavoriteToggle = useCallback(async () => {
@@ -83,11 +136,31 @@ export default function RecipeDetailScreen() {
     }
   }, [recipe, deleteRecipe, router]);
 
+  // Export the recipe and hand it to the native share sheet
+  const shareRecipe = useCallback(async (format: RecipeExportFormat) => {
+    if (!recipe) return;
+    try {
+      const result = await exportRecipes({ recipeId: recipe._id, format });
+      if (result.content) {
+        await Share.share({ title: result.fileName, message: result.content });
+      } else if (result.url) {
+        await Share.share({ title: result.fileName, url: result.url, message: result.url });
+      }
+    } catch (error) {
+      console.error("Failed to share recipe:", error);
+      Alert.alert("Error", "Failed to export recipe. Please try again.");
+    }
+  }, [recipe, exportRecipes]);
+
   // Handle share
   const handleShare = useCallback(() => {
-    // Share functionality to be implemented
-    Alert.alert("Share", "Sharing will be available soon!");
-  }, []);
+    Alert.alert("Share Recipe", "Choose an export format", [
+      { text: "Text (Markdown)", onPress: () => shareRecipe("markdown") },
+      { text: "Recipe Data (JSON-LD)", onPress: () => shareRecipe("jsonld") },
+      { text: "Paprika", onPress: () => shareRecipe("paprika") },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  }, [shareRecipe]);
 
   // Handle edit
   const handleEdit = useCallback(() => {
@@ -98,8 +171,10 @@ export default function RecipeDetailScreen() {
   // Handle cook mode
   const handleCookMode = useCallback(() => {
     if (!recipe) return;
-    router.push(`/(app)/recipes/${recipe._id}/cook-mode`);
-  }, [recipe, router]);
+    // Cook at the scale chosen on the ingredients list
+    const query = scale !== 1 ? `?scale=${scale}` : "";
+    router.push(`/(app)/recipes/${recipe._id}/cook-mode${query}`);
+  }, [recipe, router, scale]);
 
   // Shopping list mutation
   const addToShoppingList = useMutation(api.shoppingLists.addIngredientsFromRecipe);
@@ -111,6 +186,7 @@ export default function RecipeDetailScreen() {
       const result = await addToShoppingList({
         recipeId: recipe._id,
         ingredientIndexes,
+        scale,
       });
       Alert.alert(
         "Added to Shopping List",
@@ -127,10 +203,10 @@ export default function RecipeDetailScreen() {
       console.error("Failed to add to shopping list:", error);
       Alert.alert("Error", "Failed to add ingredients. Please try again.");
     }
-  }, [recipe, addToShoppingList, router]);
+  }, [recipe, addToShoppingList, router, scale]);
 
   // Handle dietary conversions
-  const handleDietaryConversion = useCallback(async (dietType: DietType) => {
+  const runDietaryConversion = useCallback(async (dietType: DietType, saveAsVariation: boolean) => {
     if (!recipe) return;
 
     setIsConverting(true);
@@ -140,7 +216,8 @@ export default function RecipeDetailScreen() {
       const result = await convertRecipeDiet({
         recipeId: recipe._id,
         dietType,
-        saveAsNew: false, // Update the current recipe
+        saveAsNew: false,
+        saveAsVariation,
       });
 
       if (result.success) {
@@ -153,10 +230,19 @@ export default function RecipeDetailScreen() {
           ? `\n\nTips:\n${result.tips.slice(0, 2).map(t => `• ${t}`).join("\n")}`
           : "";
 
+        const variationId = result.variationId;
         Alert.alert(
           `Converted to ${dietType.charAt(0).toUpperCase() + dietType.slice(1)}!`,
-          `Recipe updated successfully.${changesSummary}${tips}`,
-          [{ text: "OK" }]
+          `${variationId ? "Saved as a variation." : "Recipe updated successfully."}${changesSummary}${tips}`,
+          variationId
+            ? [
+                { text: "Stay Here", style: "cancel" },
+                {
+                  text: "Open Variation",
+                  onPress: () => router.push(`/(app)/recipes/${variationId}`),
+                },
+              ]
+            : [{ text: "OK" }]
         );
       } else {
         Alert.alert("Conversion Failed", result.error || "Please try again.");
@@ -170,6 +256,31 @@ export default function RecipeDetailScreen() {
     }
   }, [recipe, convertRecipeDiet, router]);
 
+  // Ask whether to replace the recipe or keep the original
+  const handleDietaryConversion = useCallback((dietType: DietType) => {
+    Alert.alert(
+      "Convert Recipe",
+      "Save the converted recipe as a variation, or replace this recipe? Replaced versions stay in the version history.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", onPress: () => runDietaryConversion(dietType, false) },
+        { text: "Save as Variation", onPress: () => runDietaryConversion(dietType, true) },
+      ]
+    );
+  }, [runDietaryConversion]);
+
+  // Fork the recipe and open the copy
+  const handleCreateVariation = useCallback(async () => {
+    if (!recipe) return;
+    try {
+      const variationId = await createVariation({ recipeId: recipe._id });
+      router.push(`/(app)/recipes/${variationId}`);
+    } catch (error) {
+      console.error("Failed to create variation:", error);
+      Alert.alert("Error", "Failed to create variation. Please try again.");
+    }
+  }, [recipe, createVariation, router]);
+
   // Handle meal plan
   const handleAddToMealPlan = useCallback(() => {
     Alert.alert("Add to Meal Plan", "This feature will be available soon!");
@@ -215,7 +326,7 @@ export default function RecipeDetailScreen() {
       <View className="relative">
         <View className="aspect-[16/10] w-full overflow-hidden">
           <Image
-            source={{ uri: recipe.imageUrl }}
+            source={{ uri: getLocalImageUri(recipe.imageUrl) ?? recipe.imageUrl }}
             className="h-full w-full"
             resizeMode="cover"
           />
@@ -290,6 +401,23 @@ export default function RecipeDetailScreen() {
           <Text className="text-lg font-semibold text-white">Start Cooking</Text>
         </Pressable>
 
+        {/* Variation of */}
+        {parentComparison && (
+          <ParentRecipeBanner
+            parentTitle={parentComparison.parent.title}
+            changes={parentComparison.changes}
+            onOpenParent={() => router.push(`/(app)/recipes/${parentComparison.parent._id}`)}
+          />
+        )}
+
+        {/* Cook History */}
+        <CookHistorySummary
+          timesCooked={recipe.timesCooked ?? 0}
+          lastCookedAt={recipe.lastCookedAt ?? null}
+          recentLogs={recentCookLogs ?? []}
+          onMarkCooked={() => setShowLogCookModal(true)}
+        />
+
         {/* Order Ingredients with Instacart */}
         <InstacartRecipeButton
           recipeId={recipe._id}
@@ -302,15 +430,34 @@ export default function RecipeDetailScreen() {
         )}
 
         {/* Nutrition */}
-        {recipe.nutrition && (
+        {recipe.nutrition ? (
           <View className="mt-6">
             <NutritionGrid
               calories={recipe.nutrition.calories}
               protein={recipe.nutrition.protein}
               carbs={recipe.nutrition.carbs}
               fat={recipe.nutrition.fat}
+              fiber={recipe.nutrition.fiber}
+              sugar={recipe.nutrition.sugar}
+              sodium={recipe.nutrition.sodium}
+              calculated={recipe.nutritionCalculated}
+              unmatchedCount={recipe.unmatchedIngredients?.length}
+              onReviewMatches={() => setShowNutritionMatches(true)}
             />
           </View>
+        ) : (
+          recipe.unmatchedIngredients &&
+          recipe.unmatchedIngredients.length > 0 && (
+            <Pressable
+              onPress={() => setShowNutritionMatches(true)}
+              className="mt-6 rounded-xl bg-stone-100 px-4 py-3 active:bg-stone-200 dark:bg-stone-800 dark:active:bg-stone-700"
+            >
+              <Text className="text-sm text-stone-600 dark:text-stone-300">
+                Nutrition couldn't be estimated from these ingredients.{" "}
+                <Text className="font-medium text-orange-500">Match ingredients</Text>
+              </Text>
+            </Pressable>
+          )
         )}
 
         {/* Dietary Conversion */}
@@ -324,11 +471,17 @@ export default function RecipeDetailScreen() {
         <IngredientsSection
           ingredients={recipe.ingredients}
           originalServings={recipe.servings}
+          unitSystem={currentUser?.preferredUnitSystem}
+          recipePan={findPanSize(recipe.instructions.join("\n"))}
+          onScaleChange={setScale}
           onAddToShoppingList={handleAddToShoppingList}
         />
 
         {/* Instructions */}
-        <InstructionsSection instructions={recipe.instructions} />
+        <InstructionsSection
+          instructions={recipe.instructions}
+          sections={recipe.instructionSections}
+        />
 
         {/* Notes */}
         {recipe.notes && recipe.notes.length > 0 && (
@@ -365,10 +518,19 @@ export default function RecipeDetailScreen() {
           </View>
         )}
 
+        {/* Variations */}
+        <VariationsSection
+          variations={variations ?? []}
+          onOpenVariation={(variationId) => router.push(`/(app)/recipes/${variationId}`)}
+        />
+
         {/* Action Buttons */}
         <ActionButtons
           onAddToMealPlan={handleAddToMealPlan}
           onAddToCookbook={handleAddToCookbook}
+          onShare={handleShare}
+          onCreateVariation={handleCreateVariation}
+          onViewHistory={() => router.push(`/(app)/recipes/${recipe._id}/history`)}
           onDelete={handleDelete}
         />
 
@@ -387,6 +549,24 @@ export default function RecipeDetailScreen() {
         }}
       />
 
+      {/* Log Cook Modal */}
+      <LogCookModal
+        isOpen={showLogCookModal}
+        recipeId={recipe._id}
+        defaultServings={recipe.servings}
+        onClose={() => setShowLogCookModal(false)}
+      />
+
+      {/* Nutrition Matches Modal */}
+      <NutritionMatchesModal
+        isOpen={showNutritionMatches}
+        recipeId={recipe._id}
+        ingredients={recipe.ingredients}
+        servings={recipe.servings}
+        matches={recipe.nutritionMatches}
+        onClose={() => setShowNutritionMatches(false)}
+      />
+
       {/* Bottom Tab Bar */}
       <TabBar />
     </View>
@@ -28,6 +28,12 @@ export default function RecipesLayout() {
           presentation: "fullScreenModal",
         }}
       />
+      <Stack.Screen
+        name="bulk-import"
+        options={{
+          presentation: "fullScreenModal",
+        }}
+      />
       <Stack.Screen
         name="ai-chat"
         options={{
@@ -0,0 +1,404 @@
+/**
+ * Bulk Recipe Import Screen
+ *
+ * Imports recipes exported from other recipe managers (Paprika, Mealie,
+ * Tandoor, or CSV). Export files can be shared to the app from the Files
+ * app, or JSON/CSV text can be pasted directly. Shows a per-recipe result
+ * once the import finishes.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { useAction, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  ArrowLeft,
+  FileText,
+  CheckCircle2,
+  Copy,
+  XCircle,
+  Lock,
+} from "lucide-react-native";
+import {
+  CSV_MAPPABLE_FIELDS,
+  parseCsv,
+  suggestCsvMapping,
+  type CsvColumnMapping,
+  type ImportRecipeResult,
+  type RecipeImportFormat,
+} from "@/convex/lib/recipeImport";
+
+const FORMAT_OPTIONS: { value: RecipeImportFormat; label: string }[] = [
+  { value: "paprika", label: "Paprika" },
+  { value: "mealie", label: "Mealie" },
+  { value: "tandoor", label: "Tandoor" },
+  { value: "csv", label: "CSV" },
+];
+
+const FIELD_LABELS: Record<keyof CsvColumnMapping, string> = {
+  title: "Title",
+  ingredients: "Ingredients",
+  instructions: "Instructions",
+  servings: "Servings",
+  prepTime: "Prep Time",
+  cookTime: "Cook Time",
+  sourceUrl: "Source URL",
+  imageUrl: "Image URL",
+  notes: "Notes",
+  cuisineType: "Cuisine",
+};
+
+/**
+ * Guess the import format from a shared file name
+ */
+function formatFromFileName(fileName: string): RecipeImportFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".paprikarecipes") || lower.endsWith(".paprikarecipe")) {
+    return "paprika";
+  }
+  if (lower.endsWith(".csv")) return "csv";
+  return null;
+}
+
+export default function BulkImportScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ fileUri?: string; fileName?: string }>();
+
+  const [format, setFormat] = useState<RecipeImportFormat>(
+    () => formatFromFileName(params.fileName ?? "") ?? "mealie"
+  );
+  const [pastedText, setPastedText] = useState("");
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvColumnMapping | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [results, setResults] = useState<ImportRecipeResult[] | null>(null);
+
+  const generateUploadUrl = useMutation(api.recipeImport.generateImportUploadUrl);
+  const importRecipes = useAction(api.actions.importRecipes.importRecipes);
+
+  const hasFile = !!params.fileUri;
+
+  // Read shared CSV files so the column headers can be mapped
+  useEffect(() => {
+    if (!params.fileUri || format !== "csv") return;
+    fetch(params.fileUri)
+      .then((response) => response.text())
+      .then(setFileText)
+      .catch((error) => console.error("Failed to read import file:", error));
+  }, [params.fileUri, format]);
+
+  const csvHeaders = useMemo(() => {
+    if (format !== "csv") return [];
+    const text = hasFile ? fileText : pastedText;
+    return text ? parseCsv(text)[0] ?? [] : [];
+  }, [format, hasFile, fileText, pastedText]);
+
+  // Suggest a mapping whenever the headers change
+  useEffect(() => {
+    setCsvMapping(csvHeaders.length > 0 ? suggestCsvMapping(csvHeaders) : null);
+  }, [csvHeaders]);
+
+  const canImport =
+    !isImporting &&
+    (hasFile || (format !== "paprika" && pastedText.trim().length > 0)) &&
+    (format !== "csv" || !!csvMapping?.title);
+
+  const handleImport = useCallback(async () => {
+    setIsImporting(true);
+    try {
+      let storageId: Id<"_storage"> | undefined;
+
+      if (params.fileUri) {
+        // Upload the shared file for the import action to read
+        const fileResponse = await fetch(params.fileUri);
+        const blob = await fileResponse.blob();
+        const uploadUrl = await generateUploadUrl();
+        const uploadResult = await fetch(uploadUrl, {
+          method: "POST",
+          headers: { "Content-Type": blob.type || "application/octet-stream" },
+          body: blob,
+        });
+
+        if (!uploadResult.ok) {
+          throw new Error("Failed to upload import file");
+        }
+
+        storageId = (await uploadResult.json()).storageId;
+      }
+
+      const result = await importRecipes({
+        format,
+        storageId,
+        content: storageId ? undefined : pastedText,
+        csvMapping: format === "csv" && csvMapping ? csvMapping : undefined,
+      });
+
+      setResults(result.results);
+    } catch (error) {
+      console.error("Bulk import failed:", error);
+      Alert.alert(
+        "Import Failed",
+        error instanceof Error ? error.message : "Please check the file and try again."
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  }, [params.fileUri, format, pastedText, csvMapping, generateUploadUrl, importRecipes]);
+
+  const summary = useMemo(() => {
+    if (!results) return null;
+    return {
+      imported: results.filter((r) => r.status === "imported").length,
+      skipped: results.filter((r) => r.status !== "imported").length,
+    };
+  }, [results]);
+
+  return (
+    <View className="flex-1 bg-stone-50 dark:bg-stone-950">
+      {/* Header */}
+      <View className="border-b border-stone-200 bg-white px-4 pb-4 pt-12 dark:border-stone-800 dark:bg-stone-900">
+        <View className="flex-row items-center gap-3">
+          <Pressable
+            onPress={() => router.back()}
+            className="h-10 w-10 items-center justify-center rounded-full active:bg-stone-100 dark:active:bg-stone-800"
+          >
+            <ArrowLeft className="h-5 w-5 text-stone-700 dark:text-stone-200" />
+          </Pressable>
+          <Text className="text-xl font-bold text-stone-900 dark:text-white">
+            Import from Another App
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView className="flex-1" contentContainerClassName="p-4 pb-12">
+        {results && summary ? (
+          <>
+            <Text className="mb-1 text-lg font-semibold text-stone-900 dark:text-white">
+              {summary.imported} recipe{summary.imported !== 1 ? "s" : ""} imported
+            </Text>
+            {summary.skipped > 0 && (
+              <Text className="mb-4 text-sm text-stone-500 dark:text-stone-400">
+                {summary.skipped} skipped
+              </Text>
+            )}
+
+            {results.map((result, index) => (
+              <ImportResultRow key={index} result={result} />
+            ))}
+
+            <Pressable
+              onPress={() => router.replace("/(app)")}
+              className="mt-6 items-center rounded-xl bg-orange-500 py-4 active:bg-orange-600"
+            >
+              <Text className="text-base font-semibold text-white">Done</Text>
+            </Pressable>
+          </>
+        ) : (
+          <>
+            {/* Format */}
+            <Text className="mb-2 text-sm font-semibold uppercase tracking-wide text-stone-500 dark:text-stone-400">
+              Import From
+            </Text>
+            <View className="mb-6 flex-row flex-wrap gap-2">
+              {FORMAT_OPTIONS.map((option) => (
+                <Pressable
+                  key={option.value}
+                  onPress={() => setFormat(option.value)}
+                  className={`rounded-full border px-4 py-2 ${
+                    format === option.value
+                      ? "border-orange-500 bg-orange-50 dark:bg-orange-900/30"
+                      : "border-stone-200 bg-white dark:border-stone-700 dark:bg-stone-800"
+                  }`}
+                >
+                  <Text
+                    className={`font-medium ${
+                      format === option.value
+                        ? "text-orange-600 dark:text-orange-400"
+                        : "text-stone-700 dark:text-stone-200"
+                    }`}
+                  >
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {/* Source */}
+            {hasFile ? (
+              <View className="mb-6 flex-row items-center gap-3 rounded-xl border border-stone-200 bg-white p-4 dark:border-stone-700 dark:bg-stone-800">
+                <FileText className="h-5 w-5 text-orange-500" />
+                <Text
+                  className="flex-1 text-stone-700 dark:text-stone-200"
+                  numberOfLines={1}
+                >
+                  {params.fileName || "Shared file"}
+                </Text>
+              </View>
+            ) : format === "paprika" ? (
+              <Text className="mb-6 text-sm text-stone-500 dark:text-stone-400">
+                Export your recipes from Paprika, then open the .paprikarecipes
+                file in the Files app and share it to Digero.
+              </Text>
+            ) : (
+              <>
+                <Text className="mb-2 text-sm text-stone-500 dark:text-stone-400">
+                  Paste your {format === "csv" ? "CSV" : "JSON"} export below, or
+                  share the export file to Digero from the Files app.
+                </Text>
+                <TextInput
+                  value={pastedText}
+                  onChangeText={setPastedText}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  placeholder={format === "csv" ? "Title,Ingredients,Instructions" : "{ ... }"}
+                  placeholderTextColor="#a8a29e"
+                  className="mb-6 min-h-[160px] rounded-xl border border-stone-200 bg-white p-4 font-mono text-sm text-stone-900 dark:border-stone-700 dark:bg-stone-800 dark:text-white"
+                  textAlignVertical="top"
+                />
+              </>
+            )}
+
+            {/* CSV column mapping */}
+            {format === "csv" && csvMapping && (
+              <>
+                <Text className="mb-2 text-sm font-semibold uppercase tracking-wide text-stone-500 dark:text-stone-400">
+                  Columns
+                </Text>
+                <View className="mb-6 rounded-xl border border-stone-200 bg-white dark:border-stone-700 dark:bg-stone-800">
+                  {CSV_MAPPABLE_FIELDS.map((field) => (
+                    <View
+                      key={field}
+                      className="border-b border-stone-100 px-4 py-3 last:border-b-0 dark:border-stone-700"
+                    >
+                      <Text className="mb-2 font-medium text-stone-900 dark:text-white">
+                        {FIELD_LABELS[field]}
+                      </Text>
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                        <View className="flex-row gap-2">
+                          {field !== "title" && (
+                            <ColumnChip
+                              label="None"
+                              selected={!csvMapping[field]}
+                              onPress={() =>
+                                setCsvMapping({ ...csvMapping, [field]: undefined })
+                              }
+                            />
+                          )}
+                          {csvHeaders.map((header) => (
+                            <ColumnChip
+                              key={header}
+                              label={header}
+                              selected={csvMapping[field] === header}
+                              onPress={() =>
+                                setCsvMapping({ ...csvMapping, [field]: header })
+                              }
+                            />
+                          ))}
+                        </View>
+                      </ScrollView>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Pressable
+              onPress={handleImport}
+              disabled={!canImport}
+              className={`items-center rounded-xl py-4 ${
+                canImport ? "bg-orange-500 active:bg-orange-600" : "bg-stone-300 dark:bg-stone-700"
+              }`}
+            >
+              {isImporting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text className="text-base font-semibold text-white">
+                  Import Recipes
+                </Text>
+              )}
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+/**
+ * Selectable CSV header chip
+ */
+function ColumnChip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className={`rounded-full border px-3 py-1.5 ${
+        selected
+          ? "border-orange-500 bg-orange-50 dark:bg-orange-900/30"
+          : "border-stone-200 dark:border-stone-600"
+      }`}
+    >
+      <Text
+        className={`text-sm ${
+          selected
+            ? "text-orange-600 dark:text-orange-400"
+            : "text-stone-600 dark:text-stone-300"
+        }`}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+/**
+ * Per-recipe import result row
+ */
+function ImportResultRow({ result }: { result: ImportRecipeResult }) {
+  const status = {
+    imported: { icon: CheckCircle2, color: "text-green-600", label: "Imported" },
+    duplicate: { icon: Copy, color: "text-stone-400", label: "Already in your library" },
+    failed: { icon: XCircle, color: "text-red-500", label: result.error ?? "Failed" },
+    limit_reached: {
+      icon: Lock,
+      color: "text-amber-500",
+      label: result.error ?? "Recipe limit reached",
+    },
+  }[result.status];
+  const Icon = status.icon;
+
+  return (
+    <View className="mb-2 flex-row items-center gap-3 rounded-xl bg-white p-3 dark:bg-stone-800">
+      <Icon className={`h-5 w-5 ${status.color}`} />
+      <View className="flex-1">
+        <Text
+          className="font-medium text-stone-900 dark:text-white"
+          numberOfLines={1}
+        >
+          {result.title}
+        </Text>
+        <Text className="text-xs text-stone-500 dark:text-stone-400">
+          {status.label}
+        </Text>
+      </View>
+    </View>
+  );
+}
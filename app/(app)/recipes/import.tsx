@@ -12,6 +12,7 @@ import { useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { UrlPasteModal, RecipeReviewScreen } from "@/components/import";
 import type { ReviewRecipeData } from "@/components/import/types";
+import { useDuplicateCheck } from "@/hooks/useDuplicateCheck";
 
 type ImportStep = "url" | "review";
 
@@ -55,6 +56,7 @@ export default function RecipeImportScreen() {
   const [reviewData, setReviewData] = useState<ReviewRecipeData | null>(null);
 
   const createRecipe = useMutation(api.recipes.createRecipe);
+  const { checkDuplicates } = useDuplicateCheck();
 
   const handleClose = useCallback(() => {
     router.back();
@@ -68,6 +70,13 @@ export default function RecipeImportScreen() {
   const handleSaveRecipe = useCallback(
     async (data: ReviewRecipeData) => {
       try {
+        const decision = await checkDuplicates({
+          title: data.title,
+          sourceUrl: data.sourceUrl,
+          ingredients: data.ingredients,
+        });
+        if (decision === "cancel" || decision === "openedExisting") return;
+
         // Extract domain name for attribution
         const sourceName = data.sourceUrl ? extractDomainName(data.sourceUrl) : undefined;
 
@@ -82,7 +91,9 @@ export default function RecipeImportScreen() {
           cookTime: data.cookTime,
           ingredients: data.ingredients,
           instructions: data.instructions,
+          instructionSections: data.instructionSections,
           notes: "",
+          allowDuplicate: decision === "saveAnyway",
         });
 
         // Navigate to the new recipe
@@ -92,7 +103,7 @@ export default function RecipeImportScreen() {
         // Error handling is done in RecipeReviewScreen
       }
     },
-    [createRecipe, router]
+    [checkDuplicates, createRecipe, router]
   );
 
   const handleCancelReview = useCallback(() => {
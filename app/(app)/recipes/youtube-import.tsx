@@ -33,6 +33,8 @@ import {
 } from "lucide-react-native";
 
 import { parseYouTubeUrl } from "@/convex/lib/youtubeUrlParser";
+import type { InstructionSection } from "@/convex/lib/recipeSections";
+import { useDuplicateCheck } from "@/hooks/useDuplicateCheck";
 
 type ImportStep = "url" | "extracting" | "preview";
 
@@ -47,6 +49,7 @@ interface RecipePreview {
   title: string;
   ingredients: ParsedIngredient[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   servings: number;
   prepTime: number;
   cookTime: number;
@@ -73,6 +76,7 @@ export default function YouTubeImportScreen() {
   const fetchCaptions = useAction(api.actions.youtube.fetchCaptions.fetchCaptions);
   const extractRecipe = useAction(api.actions.youtube.extractRecipeFromYouTube.extractRecipeFromYouTube);
   const saveFromYouTube = useMutation(api.recipes.saveFromYouTube);
+  const { checkDuplicates } = useDuplicateCheck();
 
   // Handle URL shared from other apps
   useEffect(() => {
@@ -149,6 +153,7 @@ export default function YouTubeImportScreen() {
         title: extractionResult.recipe.title,
         ingredients: extractionResult.recipe.ingredients as ParsedIngredient[],
         instructions: extractionResult.recipe.instructions,
+        instructionSections: extractionResult.recipe.instructionSections,
         servings: extractionResult.recipe.servings || 4,
         prepTime: extractionResult.recipe.prepTime || 0,
         cookTime: extractionResult.recipe.cookTime || 0,
@@ -172,19 +177,33 @@ export default function YouTubeImportScreen() {
 
     setIsSaving(true);
     try {
+      const sourceUrl = `https://www.youtube.com/watch?v=${preview.videoId}`;
+      const decision = await checkDuplicates({
+        title: preview.title,
+        sourceUrl,
+        youtubeVideoId: preview.videoId,
+        ingredients: preview.ingredients,
+      });
+      if (decision === "cancel" || decision === "openedExisting") {
+        setIsSaving(false);
+        return;
+      }
+
       const recipeId = await saveFromYouTube({
         title: preview.title,
         ingredients: preview.ingredients,
         instructions: preview.instructions,
+        instructionSections: preview.instructionSections,
         servings: preview.servings,
         prepTime: preview.prepTime,
         cookTime: preview.cookTime,
         youtubeVideoId: preview.videoId,
-        sourceUrl: `https://www.youtube.com/watch?v=${preview.videoId}`,
+        sourceUrl,
         imageUrl: preview.thumbnailUrl,
         // Creator attribution - YouTube channel name
         sourceName: preview.channelName,
         notes: preview.description.substring(0, 500), // Store description as notes
+        allowDuplicate: decision === "saveAnyway",
       });
 
       router.replace(`/(app)/recipes/${recipeId}`);
@@ -193,7 +212,7 @@ export default function YouTubeImportScreen() {
       Alert.alert("Error", "Failed to save recipe. Please try again.");
       setIsSaving(false);
     }
-  }, [preview, isSaving, saveFromYouTube, router]);
+  }, [preview, isSaving, checkDuplicates, saveFromYouTube, router]);
 
   const handleBack = useCallback(() => {
     if (step === "preview") {
@@ -22,6 +22,7 @@ import {
   YouTubeRecipePreviewModal,
   useYouTubeExtraction,
 } from "@/components/discover";
+import { useDuplicateCheck } from "@/hooks/useDuplicateCheck";
 
 interface VideoResult {
   videoId: string;
@@ -54,6 +55,7 @@ export default function YouTubeSearchScreen() {
     api.actions.youtube.fetchChannelData.searchVideos
   );
   const saveFromYouTube = useMutation(api.recipes.saveFromYouTube);
+  const { checkDuplicates } = useDuplicateCheck();
 
   // Handle search
   const handleSearch = useCallback(async () => {
@@ -107,16 +109,31 @@ export default function YouTubeSearchScreen() {
   const handleSaveRecipe = useCallback(
     async (preview: any) => {
       try {
+        const decision = await checkDuplicates({
+          title: preview.title,
+          sourceUrl: preview.sourceUrl,
+          youtubeVideoId: preview.videoId,
+          ingredients: preview.ingredients,
+        });
+        if (decision === "cancel") return;
+        if (decision === "openedExisting") {
+          setPreviewModalVisible(false);
+          resetExtraction();
+          return;
+        }
+
         await saveFromYouTube({
           title: preview.title,
           ingredients: preview.ingredients,
           instructions: preview.instructions,
+          instructionSections: preview.instructionSections,
           servings: preview.servings,
           prepTime: preview.prepTime,
           cookTime: preview.cookTime,
           youtubeVideoId: preview.videoId,
           sourceUrl: preview.sourceUrl,
           imageUrl: preview.thumbnailUrl,
+          allowDuplicate: decision === "saveAnyway",
         });
 
         setPreviewModalVisible(false);
@@ -126,7 +143,7 @@ export default function YouTubeSearchScreen() {
         console.error("Save error:", error);
       }
     },
-    [saveFromYouTube, resetExtraction, router]
+    [checkDuplicates, saveFromYouTube, resetExtraction, router]
   );
 
   // Format view count
@@ -13,10 +13,12 @@ import {
   ScrollView,
   ActivityIndicator,
   Alert,
+  Linking,
+  TextInput,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { useAuth, useUser } from "@clerk/clerk-expo";
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, useAction } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import {
   Sun,
@@ -33,10 +35,21 @@ import {
   Database,
   Trash2,
   ShoppingBag,
+  Ruler,
+  Scale,
+  Download,
+  Users,
+  Minus,
+  Plus,
+  Target,
+  Home,
+  HardDrive,
+  Copy,
 } from "lucide-react-native";
 import { DeleteAccountConfirmation } from "@/components/auth/DeleteAccountConfirmation";
 import { SubscriptionSection } from "@/components/subscription/SubscriptionSection";
 import { TabBar } from "@/components/navigation";
+import { CalendarFeedSection } from "@/components/meal-planner";
 import { useTheme } from "@/contexts/ThemeContext";
 
 type ThemeMode = "light" | "dark" | "system";
@@ -47,6 +60,27 @@ const themeOptions: { mode: ThemeMode; label: string; icon: typeof Sun }[] = [
   { mode: "system", label: "System", icon: Smartphone },
 ];
 
+type UnitSystem = "imperial" | "metric";
+
+const unitSystemOptions: {
+  system: UnitSystem;
+  label: string;
+  example: string;
+  icon: typeof Sun;
+}[] = [
+  { system: "imperial", label: "Imperial", example: "cups, oz, lb", icon: Ruler },
+  { system: "metric", label: "Metric", example: "ml, g, kg", icon: Scale },
+];
+
+type NutrientKey = "calories" | "protein" | "carbs" | "fat";
+
+const nutrientTargetOptions: { key: NutrientKey; label: string; unit: string }[] = [
+  { key: "calories", label: "Calories", unit: "kcal" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "carbs", label: "Carbs", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+];
+
 // Show dev tools in development mode
 const __DEV__ = process.env.NODE_ENV !== "production";
 
@@ -55,7 +89,13 @@ export default function SettingsScreen() {
   const { signOut, userId } = useAuth();
   const { user: clerkUser } = useUser();
   const currentUser = useQuery(api.users.getCurrentUser);
+  const household = useQuery(api.households.getHousehold);
   const { themeMode, setThemeMode, isDark } = useTheme();
+  const updateUserProfile = useMutation(api.users.updateUserProfile);
+  const exportUserData = useAction(api.actions.exportUserData.exportUserData);
+  const unitSystem: UnitSystem = currentUser?.preferredUnitSystem ?? "imperial";
+  const householdSize = currentUser?.householdSize;
+  const nutritionTargets = currentUser?.nutritionTargets;
 
   // Fetch creator profile status
   const creatorProfile = useQuery(
@@ -72,6 +112,8 @@ export default function SettingsScreen() {
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [isSeedingData, setIsSeedingData] = useState(false);
   const [isClearingData, setIsClearingData] = useState(false);
+  const [isExportingData, setIsExportingData] = useState(false);
+  const [targetInputs, setTargetInputs] = useState<Partial<Record<NutrientKey, string>>>({});
 
   // Handle logout
   const handleLogout = useCallback(async () => {
@@ -96,11 +138,40 @@ export default function SettingsScreen() {
     router.push("/(app)/creator");
   }, [router]);
 
+  // Navigate to household sharing
+  const handleOpenHousehold = useCallback(() => {
+    router.push("/(app)/household");
+  }, [router]);
+
+  // Navigate to offline downloads
+  const handleOpenOfflineStorage = useCallback(() => {
+    router.push("/(app)/offline-storage");
+  }, [router]);
+
+  // Navigate to the duplicate recipe finder
+  const handleOpenDuplicates = useCallback(() => {
+    router.push("/(app)/recipe-duplicates");
+  }, [router]);
+
   // Navigate to purchases
   const handleViewPurchases = useCallback(() => {
     router.push("/(app)/settings/purchases");
   }, [router]);
 
+  // Export all user data as a JSON download
+  const handleExportData = useCallback(async () => {
+    setIsExportingData(true);
+    try {
+      const result = await exportUserData();
+      await Linking.openURL(result.url);
+    } catch (error) {
+      console.error("Data export failed:", error);
+      Alert.alert("Export Failed", "We couldn't export your data. Please try again.");
+    } finally {
+      setIsExportingData(false);
+    }
+  }, [exportUserData]);
+
   // Handle seeding demo data
   const handleSeedDemoData = useCallback(async () => {
     setIsSeedingData(true);
@@ -322,6 +393,33 @@ export default function SettingsScreen() {
     return null;
   };
 
+  const handleSaveNutritionTarget = useCallback(
+    async (key: NutrientKey) => {
+      const input = targetInputs[key];
+      if (input === undefined) return;
+
+      const value = Number(input);
+      const targets = { ...nutritionTargets };
+      if (input.trim() === "" || !Number.isFinite(value) || value <= 0) {
+        delete targets[key];
+      } else {
+        targets[key] = Math.round(value);
+      }
+
+      try {
+        await updateUserProfile({
+          nutritionTargets: Object.keys(targets).length > 0 ? targets : null,
+        });
+      } catch (error) {
+        console.error("Failed to update nutrition targets:", error);
+        Alert.alert("Error", "Failed to update nutrition targets. Please try again.");
+      } finally {
+        setTargetInputs((inputs) => ({ ...inputs, [key]: undefined }));
+      }
+    },
+    [targetInputs, nutritionTargets, updateUserProfile]
+  );
+
   return (
     <View className="flex-1 bg-stone-50 dark:bg-stone-950">
       {/* Header */}
@@ -400,6 +498,191 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Units Section */}
+        <View className="mb-6">
+          <Text className="px-6 text-sm font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wider mb-2">
+            Units
+          </Text>
+          <View className="bg-white dark:bg-stone-900 border-y border-stone-200 dark:border-stone-800">
+            <View className="flex-row">
+              {unitSystemOptions.map((option, index) => {
+                const Icon = option.icon;
+                const isSelected = unitSystem === option.system;
+                return (
+                  <Pressable
+                    key={option.system}
+                    onPress={() =>
+                      updateUserProfile({ preferredUnitSystem: option.system })
+                    }
+                    disabled={!currentUser}
+                    className={`flex-1 items-center py-4 ${
+                      index < unitSystemOptions.length - 1
+                        ? "border-r border-stone-100 dark:border-stone-800"
+                        : ""
+                    }`}
+                  >
+                    <View
+                      className={`mb-2 rounded-full p-2 ${
+                        isSelected
+                          ? "bg-orange-100 dark:bg-orange-900/30"
+                          : "bg-stone-100 dark:bg-stone-800"
+                      }`}
+                    >
+                      <Icon
+                        size={20}
+                        className={
+                          isSelected
+                            ? "text-orange-500"
+                            : "text-stone-500 dark:text-stone-400"
+                        }
+                      />
+                    </View>
+                    <Text
+                      className={`text-sm font-medium ${
+                        isSelected
+                          ? "text-orange-500"
+                          : "text-stone-700 dark:text-stone-300"
+                      }`}
+                    >
+                      {option.label}
+                    </Text>
+                    <Text className="text-xs text-stone-400 dark:text-stone-500 mt-0.5">
+                      {option.example}
+                    </Text>
+                    {isSelected && (
+                      <Check size={14} className="text-orange-500 mt-1" />
+                    )}
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        </View>
+
+        {/* Household Section */}
+        <View className="mb-6">
+          <Text className="px-6 text-sm font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wider mb-2">
+            Household
+          </Text>
+          <View className="bg-white dark:bg-stone-900 border-y border-stone-200 dark:border-stone-800">
+            <Pressable
+              onPress={handleOpenHousehold}
+              className="px-6 py-4 flex-row items-center border-b border-stone-100 dark:border-stone-800 active:bg-stone-50 dark:active:bg-stone-800"
+            >
+              <View className="bg-orange-100 dark:bg-orange-900/30 rounded-full p-2 mr-3">
+                <Home size={20} color="#f97316" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-base font-medium text-stone-900 dark:text-stone-100">
+                  {household ? household.name : "Share with Your Household"}
+                </Text>
+                <Text className="text-sm text-stone-500 dark:text-stone-400">
+                  {household
+                    ? `${household.members.length} member${household.members.length === 1 ? "" : "s"} · shared meal plan and lists`
+                    : "Plan meals and shop together"}
+                </Text>
+              </View>
+              <ChevronRight size={20} className="text-stone-400" />
+            </Pressable>
+            <View className="px-6 py-4 flex-row items-center">
+              <View className="bg-stone-100 dark:bg-stone-800 rounded-full p-2 mr-3">
+                <Users size={20} color="#78716c" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-base font-medium text-stone-900 dark:text-stone-100">
+                  Household Size
+                </Text>
+                <Text className="text-sm text-stone-500 dark:text-stone-400">
+                  {householdSize === undefined
+                    ? "Planned meals use each recipe's servings"
+                    : "Default servings for planned meals"}
+                </Text>
+              </View>
+              <View className="flex-row items-center gap-3">
+                <Pressable
+                  onPress={() =>
+                    updateUserProfile({ householdSize: Math.max(1, (householdSize ?? 2) - 1) })
+                  }
+                  disabled={!currentUser || householdSize === 1}
+                  className="h-8 w-8 items-center justify-center rounded-full bg-stone-100 dark:bg-stone-800"
+                  accessibilityLabel="Decrease household size"
+                >
+                  <Minus size={16} color="#78716c" />
+                </Pressable>
+                <Text className="w-6 text-center text-base font-semibold text-stone-900 dark:text-stone-100">
+                  {householdSize ?? "–"}
+                </Text>
+                <Pressable
+                  onPress={() => updateUserProfile({ householdSize: (householdSize ?? 1) + 1 })}
+                  disabled={!currentUser}
+                  className="h-8 w-8 items-center justify-center rounded-full bg-stone-100 dark:bg-stone-800"
+                  accessibilityLabel="Increase household size"
+                >
+                  <Plus size={16} color="#78716c" />
+                </Pressable>
+              </View>
+            </View>
+          </View>
+        </View>
+
+        {/* Nutrition Targets Section */}
+        <View className="mb-6">
+          <Text className="px-6 text-sm font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wider mb-2">
+            Daily Nutrition Targets
+          </Text>
+          <View className="bg-white dark:bg-stone-900 border-y border-stone-200 dark:border-stone-800">
+            {nutrientTargetOptions.map((option, index) => (
+              <View
+                key={option.key}
+                className={`px-6 py-3 flex-row items-center ${
+                  index < nutrientTargetOptions.length - 1
+                    ? "border-b border-stone-100 dark:border-stone-800"
+                    : ""
+                }`}
+              >
+                {index === 0 ? (
+                  <View className="bg-stone-100 dark:bg-stone-800 rounded-full p-2 mr-3">
+                    <Target size={20} color="#78716c" />
+                  </View>
+                ) : (
+                  <View className="w-9 mr-3" />
+                )}
+                <Text className="flex-1 text-base font-medium text-stone-900 dark:text-stone-100">
+                  {option.label}
+                </Text>
+                <TextInput
+                  value={
+                    targetInputs[option.key] ??
+                    (nutritionTargets?.[option.key] !== undefined
+                      ? String(nutritionTargets[option.key])
+                      : "")
+                  }
+                  onChangeText={(text) =>
+                    setTargetInputs((inputs) => ({ ...inputs, [option.key]: text }))
+                  }
+                  onEndEditing={() => handleSaveNutritionTarget(option.key)}
+                  editable={!!currentUser}
+                  placeholder="None"
+                  placeholderTextColor="#a8a29e"
+                  keyboardType="number-pad"
+                  returnKeyType="done"
+                  className="w-20 rounded-lg bg-stone-100 px-3 py-1.5 text-right text-stone-900 dark:bg-stone-800 dark:text-stone-100"
+                  accessibilityLabel={`Daily ${option.label.toLowerCase()} target`}
+                />
+                <Text className="w-10 pl-2 text-sm text-stone-500 dark:text-stone-400">
+                  {option.unit}
+                </Text>
+              </View>
+            ))}
+          </View>
+          <Text className="px-6 mt-2 text-xs text-stone-500 dark:text-stone-400">
+            Shown as progress in the meal planner. Leave blank for no target.
+          </Text>
+        </View>
+
+        {/* Calendar Feed Section */}
+        <CalendarFeedSection />
+
         {/* Account Section */}
         <View className="mb-6">
           <Text className="px-6 text-sm font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wider mb-2">
@@ -458,6 +741,68 @@ export default function SettingsScreen() {
               </View>
               <ChevronRight size={20} className="text-stone-400" />
             </Pressable>
+
+            {/* Offline Storage */}
+            <Pressable
+              onPress={handleOpenOfflineStorage}
+              className="px-6 py-4 flex-row items-center border-t border-stone-100 dark:border-stone-800 active:bg-stone-50 dark:active:bg-stone-800"
+            >
+              <View className="bg-stone-100 dark:bg-stone-800 rounded-full p-2 mr-3">
+                <HardDrive size={20} color="#78716c" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-base font-medium text-stone-900 dark:text-stone-100">
+                  Offline Storage
+                </Text>
+                <Text className="text-sm text-stone-500 dark:text-stone-400">
+                  Manage downloaded cookbooks, lists and meal plans
+                </Text>
+              </View>
+              <ChevronRight size={20} className="text-stone-400" />
+            </Pressable>
+
+            {/* Duplicate Recipes */}
+            <Pressable
+              onPress={handleOpenDuplicates}
+              className="px-6 py-4 flex-row items-center border-t border-stone-100 dark:border-stone-800 active:bg-stone-50 dark:active:bg-stone-800"
+            >
+              <View className="bg-stone-100 dark:bg-stone-800 rounded-full p-2 mr-3">
+                <Copy size={20} color="#78716c" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-base font-medium text-stone-900 dark:text-stone-100">
+                  Duplicate Recipes
+                </Text>
+                <Text className="text-sm text-stone-500 dark:text-stone-400">
+                  Find and merge recipes saved more than once
+                </Text>
+              </View>
+              <ChevronRight size={20} className="text-stone-400" />
+            </Pressable>
+
+            {/* Export My Data */}
+            <Pressable
+              onPress={handleExportData}
+              disabled={isExportingData}
+              className="px-6 py-4 flex-row items-center border-t border-stone-100 dark:border-stone-800 active:bg-stone-50 dark:active:bg-stone-800"
+            >
+              <View className="bg-stone-100 dark:bg-stone-800 rounded-full p-2 mr-3">
+                <Download size={20} color="#78716c" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-base font-medium text-stone-900 dark:text-stone-100">
+                  Export My Data
+                </Text>
+                <Text className="text-sm text-stone-500 dark:text-stone-400">
+                  Download everything as a JSON file (link expires in 15 minutes)
+                </Text>
+              </View>
+              {isExportingData ? (
+                <ActivityIndicator size="small" color="#f97316" />
+              ) : (
+                <ChevronRight size={20} className="text-stone-400" />
+              )}
+            </Pressable>
           </View>
         </View>
 
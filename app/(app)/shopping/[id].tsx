@@ -2,7 +2,8 @@
  * Shopping List Detail Screen
  *
  * Displays a single shopping list with items organized by category or recipe.
- * Supports item checking, editing, adding, and list sharing.
+ * Supports item checking, editing, adding, and list sharing. Checks, edits
+ * and new items made offline are queued and shown until they sync.
  */
 
 import { useState, useCallback, useMemo, useEffect } from "react";
@@ -33,6 +34,11 @@ import {
 } from "@/components/shopping";
 import type { ItemCategory, SyncStatus, ShoppingItem } from "@/types/shopping-list";
 import { ITEM_CATEGORIES } from "@/types/shopping-list";
+import { useNetworkStatus } from "@/contexts/NetworkStatusContext";
+import { generateTempId } from "@/lib/offlineSyncQueue";
+import { getPin } from "@/lib/offlinePins";
+import { useOfflinePins } from "@/hooks/useOfflinePins";
+import { getPinKey } from "@/convex/lib/offlineStorage";
 
 export default function ShoppingListDetailScreen() {
   const router = useRouter();
@@ -41,7 +47,7 @@ export default function ShoppingListDetailScreen() {
   const listId = id as Id<"shoppingLists">;
 
   // Fetch list with items
-  const list = useQuery(api.shoppingLists.getShoppingListById, { listId });
+  const liveList = useQuery(api.shoppingLists.getShoppingListById, { listId });
 
   // Mutations
   const updateList = useMutation(api.shoppingLists.updateShoppingList);
@@ -49,6 +55,7 @@ export default function ShoppingListDetailScreen() {
   const updateItem = useMutation(api.shoppingLists.updateItem);
   const deleteItem = useMutation(api.shoppingLists.deleteItem);
   const addItem = useMutation(api.shoppingLists.addItem);
+  const restoreSkippedItem = useMutation(api.shoppingLists.restoreSkippedItem);
 
   // Local state
   const [viewMode, setViewMode] = useState<"category" | "recipe">("category");
@@ -57,6 +64,52 @@ export default function ShoppingListDetailScreen() {
   const [listName, setListName] = useState("");
   const [syncStatus, setSyncStatus] = useState<SyncStatus>("synced");
 
+  // Offline changes shown until they sync
+  const {
+    isOffline,
+    pendingMutationsCount,
+    syncConflicts,
+    queueOfflineMutation,
+    dismissConflicts,
+  } = useNetworkStatus();
+  const [offlineChanges, setOfflineChanges] = useState<Record<string, Partial<ShoppingItem>>>({});
+  const [offlineItems, setOfflineItems] = useState<ShoppingItem[]>([]);
+  const [pinnedList, setPinnedList] = useState<typeof liveList>(undefined);
+  const { isPinned, isBusy, pinShoppingList, unpin } = useOfflinePins();
+
+  // Show the downloaded copy while offline
+  useEffect(() => {
+    if (isOffline && liveList === undefined) {
+      getPin<NonNullable<typeof liveList>>("shoppingList", listId).then((pin) =>
+        setPinnedList(pin?.data ?? null)
+      );
+    }
+  }, [isOffline, liveList, listId]);
+
+  const list = liveList === undefined && isOffline ? pinnedList : liveList;
+
+  useEffect(() => {
+    if (!isOffline && pendingMutationsCount === 0) {
+      setOfflineChanges({});
+      setOfflineItems([]);
+    }
+  }, [isOffline, pendingMutationsCount]);
+
+  const items = useMemo(() => {
+    if (!list?.items) return undefined;
+    return [...list.items, ...offlineItems].map((item) =>
+      offlineChanges[item._id] ? { ...item, ...offlineChanges[item._id] } : item
+    );
+  }, [list?.items, offlineItems, offlineChanges]);
+
+  const displayStatus: SyncStatus = isOffline
+    ? "offline"
+    : syncConflicts.length > 0
+      ? "conflict"
+      : pendingMutationsCount > 0
+        ? "pending"
+        : syncStatus;
+
   // Update listName when list loads
   useEffect(() => {
     if (list) {
@@ -74,11 +127,11 @@ export default function ShoppingListDetailScreen() {
 
   // Group items by category
   const itemsByCategory = useMemo(() => {
-    if (!list?.items) return {};
+    if (!items) return {};
 
     return ITEM_CATEGORIES.reduce(
       (acc, category) => {
-        const categoryItems = list.items.filter(
+        const categoryItems = items.filter(
           (item) => item.category === category
         );
         if (categoryItems.length > 0) {
@@ -88,13 +141,13 @@ export default function ShoppingListDetailScreen() {
       },
       {} as Record<ItemCategory, ShoppingItem[]>
     );
-  }, [list?.items]);
+  }, [items]);
 
   // Group items by recipe
   const itemsByRecipe = useMemo(() => {
-    if (!list?.items) return {};
+    if (!items) return {};
 
-    return list.items.reduce(
+    return items.reduce(
       (acc, item) => {
         const key = item.isCustom
           ? "Custom Items"
@@ -107,7 +160,7 @@ export default function ShoppingListDetailScreen() {
       },
       {} as Record<string, ShoppingItem[]>
     );
-  }, [list?.items]);
+  }, [items]);
 
   // Handle rename
   const handleRename = useCallback(async () => {
@@ -129,9 +182,44 @@ export default function ShoppingListDetailScreen() {
     setIsRenaming(false);
   }, [listName, list?.name, updateList, listId]);
 
+  // Handle restock pantry toggle
+  const handleToggleRestock = useCallback(async () => {
+    try {
+      await updateList({ listId, restockPantry: !list?.restockPantry });
+    } catch (error) {
+      console.error("Failed to update restock setting:", error);
+    }
+  }, [updateList, listId, list?.restockPantry]);
+
+  // Handle undo of an item skipped because of the pantry
+  const handleRestoreSkipped = useCallback(
+    async (index: number) => {
+      try {
+        setSyncStatus("pending");
+        await restoreSkippedItem({ listId, index });
+        setSyncStatus("synced");
+      } catch (error) {
+        console.error("Failed to restore item:", error);
+        setSyncStatus("synced");
+      }
+    },
+    [restoreSkippedItem, listId]
+  );
+
   // Handle toggle item
   const handleToggleItem = useCallback(
     async (itemId: Id<"shoppingItems">) => {
+      const item = items?.find((i) => i._id === itemId);
+      if (isOffline && item) {
+        const checked = !item.checked;
+        setOfflineChanges((changes) => ({
+          ...changes,
+          [itemId]: { ...changes[itemId], checked },
+        }));
+        await queueOfflineMutation("setShoppingItemChecked", { itemId, checked }, item.updatedAt);
+        return;
+      }
+
       try {
         setSyncStatus("pending");
         await toggleItem({ itemId });
@@ -141,12 +229,30 @@ export default function ShoppingListDetailScreen() {
         setSyncStatus("synced");
       }
     },
-    [toggleItem]
+    [toggleItem, items, isOffline, queueOfflineMutation]
   );
 
   // Handle edit item
   const handleEditItem = useCallback(
     async (itemId: Id<"shoppingItems">, quantity: number, unit: string) => {
+      const item = items?.find((i) => i._id === itemId);
+      if (isOffline && item) {
+        setOfflineChanges((changes) => ({
+          ...changes,
+          [itemId]: { ...changes[itemId], quantity, unit },
+        }));
+        await queueOfflineMutation(
+          "updateShoppingItem",
+          {
+            itemId,
+            changes: { quantity, unit },
+            base: { quantity: item.quantity, unit: item.unit },
+          },
+          item.updatedAt
+        );
+        return;
+      }
+
       try {
         setSyncStatus("pending");
         await updateItem({ itemId, quantity, unit });
@@ -156,7 +262,7 @@ export default function ShoppingListDetailScreen() {
         setSyncStatus("synced");
       }
     },
-    [updateItem]
+    [updateItem, items, isOffline, queueOfflineMutation]
   );
 
   // Handle delete item
@@ -182,6 +288,37 @@ export default function ShoppingListDetailScreen() {
       unit: string,
       category: ItemCategory
     ) => {
+      if (isOffline) {
+        const clientItemId = generateTempId();
+        const now = Date.now();
+        setOfflineItems((pending) => [
+          ...pending,
+          {
+            _id: clientItemId as Id<"shoppingItems">,
+            listId,
+            name,
+            quantity,
+            unit,
+            category,
+            checked: false,
+            isCustom: true,
+            recipeIds: [],
+            createdAt: now,
+            updatedAt: now,
+          },
+        ]);
+        await queueOfflineMutation("addShoppingItem", {
+          clientItemId,
+          listId,
+          name,
+          quantity,
+          unit,
+          category,
+        });
+        setShowAddForm(false);
+        return;
+      }
+
       try {
         setSyncStatus("pending");
         await addItem({ listId, name, quantity, unit, category });
@@ -193,9 +330,32 @@ export default function ShoppingListDetailScreen() {
         setSyncStatus("synced");
       }
     },
-    [addItem, listId]
+    [addItem, listId, isOffline, queueOfflineMutation]
   );
 
+  // Show what happened to offline changes that conflicted
+  const handleSyncStatusPress = useCallback(() => {
+    Alert.alert(
+      "Sync Conflicts",
+      syncConflicts.map((conflict) => conflict.message).join("\n\n"),
+      [{ text: "OK", onPress: () => dismissConflicts() }]
+    );
+  }, [syncConflicts, dismissConflicts]);
+
+  // Keep the list available offline
+  const handleToggleOffline = useCallback(async () => {
+    try {
+      if (isPinned("shoppingList", listId)) {
+        await unpin(getPinKey("shoppingList", listId));
+      } else {
+        await pinShoppingList(listId);
+      }
+    } catch (error) {
+      console.error("Failed to update offline list:", error);
+      Alert.alert("Error", "Failed to download shopping list. Please try again.");
+    }
+  }, [listId, isPinned, pinShoppingList, unpin]);
+
   // Handle share
   const handleShare = useCallback(async () => {
     if (!list) return;
@@ -305,7 +465,11 @@ export default function ShoppingListDetailScreen() {
           </View>
 
           <View className="flex-row items-center gap-2">
-            <SyncStatusIndicator status={syncStatus} />
+            <SyncStatusIndicator
+              status={displayStatus}
+              pendingCount={pendingMutationsCount}
+              onPress={displayStatus === "conflict" ? handleSyncStatusPress : undefined}
+            />
             {!isReadOnly && (
               <InstacartButton
                 listId={listId}
@@ -313,6 +477,21 @@ export default function ShoppingListDetailScreen() {
                 disabled={list.totalItems === 0}
               />
             )}
+            <Pressable
+              onPress={handleToggleOffline}
+              disabled={isBusy("shoppingList", listId)}
+              className="p-1.5 bg-stone-100 dark:bg-stone-800 rounded-lg"
+            >
+              {isBusy("shoppingList", listId) ? (
+                <ActivityIndicator size="small" color="#f97316" />
+              ) : (
+                <Ionicons
+                  name={isPinned("shoppingList", listId) ? "cloud-done" : "cloud-download-outline"}
+                  size={16}
+                  color={isPinned("shoppingList", listId) ? "#f97316" : "#78716c"}
+                />
+              )}
+            </Pressable>
             <Pressable
               onPress={handleShare}
               className="flex-row items-center gap-1 px-3 py-1.5 bg-stone-100 dark:bg-stone-800 rounded-lg"
@@ -519,6 +698,64 @@ export default function ShoppingListDetailScreen() {
           })
         )}
 
+        {/* Items skipped because of the pantry */}
+        {!isReadOnly && list.skippedItems && list.skippedItems.length > 0 && (
+          <View className="mt-2 mb-4">
+            <Text className="text-sm font-semibold text-stone-500 dark:text-stone-400 uppercase tracking-wider mb-2 px-1">
+              Skipped (in your pantry)
+            </Text>
+            <View className="space-y-1">
+              {list.skippedItems.map((item, index) => (
+                <View
+                  key={`${item.name}-${index}`}
+                  className="flex-row items-center gap-3 py-3 px-4 rounded-xl bg-white dark:bg-stone-800"
+                >
+                  <Ionicons
+                    name={item.reason === "always_have" ? "star" : "basket-outline"}
+                    size={16}
+                    color="#a8a29e"
+                  />
+                  <View className="flex-1">
+                    <Text className="text-stone-700 dark:text-stone-300">{item.name}</Text>
+                    <Text className="text-xs text-stone-400 dark:text-stone-500">
+                      {item.reason === "always_have"
+                        ? "Always have"
+                        : item.reason === "partially_on_hand"
+                          ? `${item.quantity} ${item.unit} on hand, rest added`
+                          : "On hand"}
+                    </Text>
+                  </View>
+                  <Pressable
+                    onPress={() => handleRestoreSkipped(index)}
+                    className="px-3 py-1.5 bg-stone-100 dark:bg-stone-700 rounded-lg"
+                  >
+                    <Text className="text-sm font-medium text-orange-500">
+                      {item.reason === "partially_on_hand" ? "Buy all" : "Add"}
+                    </Text>
+                  </Pressable>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Restock pantry on completion */}
+        {!isReadOnly && list.totalItems > 0 && (
+          <Pressable
+            onPress={handleToggleRestock}
+            className="flex-row items-center gap-3 mt-2 mb-6 px-4 py-3 rounded-xl bg-white dark:bg-stone-800"
+          >
+            <Ionicons
+              name={list.restockPantry ? "checkbox" : "square-outline"}
+              size={20}
+              color={list.restockPantry ? "#f97316" : "#a8a29e"}
+            />
+            <Text className="flex-1 text-sm text-stone-700 dark:text-stone-300">
+              Add checked items to my pantry when this list is complete
+            </Text>
+          </Pressable>
+        )}
+
         {/* Complete badge for archived lists */}
         {isReadOnly && (
           <View className="items-center mt-4 mb-8">
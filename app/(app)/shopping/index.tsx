@@ -191,13 +191,22 @@ export default function ShoppingListsScreen() {
             </Text>
           </View>
 
-          <Pressable
-            onPress={() => setShowCreateModal(true)}
-            className="flex-row items-center gap-2 px-4 py-2 bg-orange-500 rounded-xl"
-          >
-            <Ionicons name="add" size={20} color="white" />
-            <Text className="text-white font-semibold">New List</Text>
-          </Pressable>
+          <View className="flex-row items-center gap-2">
+            <Pressable
+              onPress={() => router.push("/(app)/pantry")}
+              className="flex-row items-center gap-2 px-4 py-2 bg-stone-100 dark:bg-stone-800 rounded-xl"
+            >
+              <Ionicons name="basket-outline" size={20} color="#78716c" />
+              <Text className="text-stone-700 dark:text-stone-300 font-semibold">Pantry</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => setShowCreateModal(true)}
+              className="flex-row items-center gap-2 px-4 py-2 bg-orange-500 rounded-xl"
+            >
+              <Ionicons name="add" size={20} color="white" />
+              <Text className="text-white font-semibold">New List</Text>
+            </Pressable>
+          </View>
         </View>
       </View>
 
@@ -2,7 +2,8 @@
  * Delete Account Confirmation Component
  *
  * Modal dialog for confirming account deletion.
- * Warns user about permanent data loss.
+ * Warns user about permanent data loss, then deletes the Clerk user.
+ * The Clerk user.deleted webhook removes the account's data in Convex.
  */
 
 import { useState, useCallback } from "react";
@@ -41,7 +42,7 @@ export function DeleteAccountConfirmation({
     setError(null);
 
     try {
-      // Delete user from Clerk (this will trigger webhook to delete from Convex)
+      // Delete user from Clerk (the webhook then deletes the account's data)
       await clerkUser.delete();
 
       // Sign out to clear local session
@@ -16,6 +16,7 @@ import {
   Check,
 } from "lucide-react-native";
 import { Id } from "@/convex/_generated/dataModel";
+import { getLocalImageUri } from "@/lib/imageCache";
 import type { ViewMode } from "./CookbookCard";
 
 type RecipeSource = "youtube" | "website" | "scanned" | "manual";
@@ -96,7 +97,7 @@ export function CookbookRecipeCard({
         {/* Thumbnail */}
         <View className="h-14 w-14 overflow-hidden rounded-lg bg-stone-100 dark:bg-stone-700">
           <Image
-            source={{ uri: recipe.imageUrl }}
+            source={{ uri: getLocalImageUri(recipe.imageUrl) ?? recipe.imageUrl }}
             className="h-full w-full"
             resizeMode="cover"
           />
@@ -159,7 +160,7 @@ export function CookbookRecipeCard({
       {/* Image */}
       <View className="relative aspect-square overflow-hidden bg-stone-100 dark:bg-stone-700">
         <Image
-          source={{ uri: recipe.imageUrl }}
+          source={{ uri: getLocalImageUri(recipe.imageUrl) ?? recipe.imageUrl }}
           className="h-full w-full"
           resizeMode="cover"
         />
@@ -2,7 +2,8 @@
  * EditCookbookModal Component
  *
  * Modal for editing an existing cookbook.
- * Pre-populates form with current cookbook data.
+ * Pre-populates form with current cookbook data. Members of a household
+ * can also share the cookbook with it here.
  */
 
 import { useState, useEffect } from "react";
@@ -15,6 +16,7 @@ import {
   KeyboardAvoidingView,
   Platform,
   ScrollView,
+  Switch,
 } from "react-native";
 import { X, Pencil } from "lucide-react-native";
 import { useMutation, useQuery } from "convex/react";
@@ -38,6 +40,7 @@ export function EditCookbookModal({
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [coverUrl, setCoverUrl] = useState("");
+  const [isShared, setIsShared] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -51,7 +54,10 @@ export function EditCookbookModal({
     cookbookId ? { id: cookbookId } : "skip"
   );
 
+  const household = useQuery(api.households.getHousehold);
+
   const updateCookbook = useMutation(api.cookbooks.updateCookbook);
+  const setCookbookShared = useMutation(api.cookbooks.setCookbookShared);
 
   // Populate form with existing data
   useEffect(() => {
@@ -59,6 +65,7 @@ export function EditCookbookModal({
       setName(cookbook.name);
       setDescription(cookbook.description);
       setCoverUrl(cookbook.coverUrl);
+      setIsShared(cookbook.householdId !== undefined);
     }
   }, [cookbook]);
 
@@ -85,6 +92,10 @@ export function EditCookbookModal({
         coverUrl,
       });
 
+      if (cookbook && isShared !== (cookbook.householdId !== undefined)) {
+        await setCookbookShared({ id: cookbookId, shared: isShared });
+      }
+
       onSuccess?.();
       onClose();
     } catch (err) {
@@ -208,6 +219,25 @@ export function EditCookbookModal({
               />
             </View>
 
+            {/* Household Sharing */}
+            {household && (
+              <View className="flex-row items-center gap-3">
+                <View className="flex-1">
+                  <Text className="text-sm font-medium text-stone-700 dark:text-stone-300">
+                    Share with {household.name}
+                  </Text>
+                  <Text className="text-xs text-stone-500 dark:text-stone-400">
+                    Members can view and add recipes to this cookbook
+                  </Text>
+                </View>
+                <Switch
+                  value={isShared}
+                  onValueChange={setIsShared}
+                  trackColor={{ true: "#f97316" }}
+                />
+              </View>
+            )}
+
             {/* Error Message */}
             {error && (
               <View className="rounded-lg bg-red-50 p-3 dark:bg-red-900/30">
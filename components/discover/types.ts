@@ -4,6 +4,8 @@
  * Type definitions for the Discover tab and YouTube recipe import features.
  */
 
+import type { InstructionSection } from "@/convex/lib/recipeSections";
+
 /**
  * Extraction confidence level
  */
@@ -95,6 +97,7 @@ export interface YouTubeRecipePreview {
   title: string;
   ingredients: ParsedIngredient[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   prepTime: number;
   cookTime: number;
   servings: number;
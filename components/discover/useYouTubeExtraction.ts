@@ -184,6 +184,7 @@ export function useYouTubeExtraction(): UseYouTubeExtractionReturn {
           title: extractionResult.recipe.title,
           ingredients: extractionResult.recipe.ingredients as ParsedIngredient[],
           instructions: extractionResult.recipe.instructions,
+          instructionSections: extractionResult.recipe.instructionSections,
           prepTime: extractionResult.recipe.prepTime,
           cookTime: extractionResult.recipe.cookTime,
           servings: extractionResult.recipe.servings,
@@ -29,6 +29,11 @@ import {
 } from "lucide-react-native";
 import { InlineEditSection, MissingFieldPlaceholder } from "./InlineEditSection";
 import { LowConfidenceHighlight } from "./ConfidenceIndicator";
+import {
+  groupIngredientsBySection,
+  groupInstructionsBySection,
+  removeStepFromSections,
+} from "@/convex/lib/recipeSections";
 import type {
   RecipeReviewScreenProps,
   ReviewRecipeData,
@@ -135,10 +140,18 @@ export function RecipeReviewScreen({
   );
 
   const handleRemoveInstruction = useCallback((index: number) => {
-    setData((prev) => ({
-      ...prev,
-      instructions: prev.instructions.filter((_, i) => i !== index),
-    }));
+    setData((prev) => {
+      const instructions = prev.instructions.filter((_, i) => i !== index);
+      return {
+        ...prev,
+        instructions,
+        instructionSections: removeStepFromSections(
+          prev.instructionSections,
+          index,
+          instructions.length
+        ),
+      };
+    });
   }, []);
 
   const handleAddInstruction = useCallback(() => {
@@ -397,12 +410,21 @@ export function RecipeReviewScreen({
           {data.ingredients.length > 0 ? (
             <LowConfidenceHighlight confidence={data.confidence.ingredients}>
               <View className="gap-2">
-                {data.ingredients.map((ing, index) => (
-                  <View key={index} className="flex-row items-center gap-2">
-                    <Text className="min-w-[4rem] font-mono text-sm text-orange-500">
-                      {ing.quantity} {ing.unit}
-                    </Text>
-                    <Text className="flex-1 text-white">{ing.name}</Text>
+                {groupIngredientsBySection(data.ingredients).map((group, groupIndex) => (
+                  <View key={groupIndex} className="gap-2">
+                    {group.title && (
+                      <Text className="mt-1 text-sm font-semibold text-stone-400">
+                        {group.title}
+                      </Text>
+                    )}
+                    {group.items.map(({ item: ing, index }) => (
+                      <View key={index} className="flex-row items-center gap-2">
+                        <Text className="min-w-[4rem] font-mono text-sm text-orange-500">
+                          {ing.quantity} {ing.unit}
+                        </Text>
+                        <Text className="flex-1 text-white">{ing.name}</Text>
+                      </View>
+                    ))}
                   </View>
                 ))}
               </View>
@@ -458,14 +480,26 @@ export function RecipeReviewScreen({
           {data.instructions.length > 0 ? (
             <LowConfidenceHighlight confidence={data.confidence.instructions}>
               <View className="gap-3">
-                {data.instructions.map((step, index) => (
-                  <View key={index} className="flex-row gap-3">
-                    <View className="h-6 w-6 items-center justify-center rounded-full bg-orange-500/20">
-                      <Text className="text-xs font-bold text-orange-500">
-                        {index + 1}
+                {groupInstructionsBySection(
+                  data.instructions,
+                  data.instructionSections
+                ).map((group, groupIndex) => (
+                  <View key={groupIndex} className="gap-3">
+                    {group.title && (
+                      <Text className="mt-1 text-sm font-semibold text-stone-400">
+                        {group.title}
                       </Text>
-                    </View>
-                    <Text className="flex-1 text-stone-300">{step}</Text>
+                    )}
+                    {group.items.map(({ item: step, index }) => (
+                      <View key={index} className="flex-row gap-3">
+                        <View className="h-6 w-6 items-center justify-center rounded-full bg-orange-500/20">
+                          <Text className="text-xs font-bold text-orange-500">
+                            {index + 1}
+                          </Text>
+                        </View>
+                        <Text className="flex-1 text-stone-300">{step}</Text>
+                      </View>
+                    ))}
                   </View>
                 ))}
               </View>
@@ -33,6 +33,7 @@ import {
   isYouTubeUrl,
   extractVideoId,
 } from "@/convex/lib/youtubeUrlParser";
+import { parseIngredientText } from "@/convex/lib/ingredientParser";
 import type {
   UrlPasteModalProps,
   ReviewRecipeData,
@@ -88,33 +89,16 @@ function toReviewData(
   sourceUrl: string
 ): ReviewRecipeData {
   // Convert ingredients to parsed format
-  const ingredients: ParsedIngredient[] = data.ingredients.map((ing) => {
-    if (ing.parsed) {
-      return ing.parsed;
-    }
-    // Parse raw ingredient string (basic parsing)
-    const match = ing.raw.match(/^([\d/.]+)?\s*(\w+)?\s*(.+)$/);
-    if (match) {
-      return {
-        name: match[3]?.trim() || ing.raw,
-        quantity: match[1] ? parseFloat(match[1]) : 1,
-        unit: match[2] || "item",
-        category: "other" as const,
-      };
-    }
-    return {
-      name: ing.raw,
-      quantity: 1,
-      unit: "item",
-      category: "other" as const,
-    };
-  });
+  const ingredients: ParsedIngredient[] = data.ingredients.map(
+    (ing) => ing.parsed ?? parseIngredientText(ing.raw)
+  );
 
   return {
     title: data.title || "Untitled Recipe",
     imageUrl: data.imageUrl || "",
     ingredients,
     instructions: data.instructions,
+    instructionSections: data.instructionSections,
     servings: data.servings || 4,
     prepTime: data.prepTime || 0,
     cookTime: data.cookTime || 0,
@@ -317,6 +301,7 @@ export function UrlPasteModal({
         title: extractionResult.recipe.title,
         ingredients: extractionResult.recipe.ingredients as ParsedIngredient[],
         instructions: extractionResult.recipe.instructions,
+        instructionSections: extractionResult.recipe.instructionSections,
         prepTime: extractionResult.recipe.prepTime,
         cookTime: extractionResult.recipe.cookTime,
         servings: extractionResult.recipe.servings,
@@ -340,6 +325,7 @@ export function UrlPasteModal({
           imageUrl: youtubeRecipeData.thumbnailUrl,
           ingredients: youtubeRecipeData.ingredients,
           instructions: youtubeRecipeData.instructions,
+          instructionSections: youtubeRecipeData.instructionSections,
           servings: youtubeRecipeData.servings,
           prepTime: youtubeRecipeData.prepTime,
           cookTime: youtubeRecipeData.cookTime,
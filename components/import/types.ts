@@ -4,6 +4,8 @@
  * Type definitions for recipe import components.
  */
 
+import type { InstructionSection } from "@/convex/lib/recipeSections";
+
 /**
  * Confidence level for extracted fields
  */
@@ -30,6 +32,12 @@ export interface ParsedIngredient {
   quantity: number;
   unit: string;
   category: IngredientCategory;
+  quantityMax?: number;
+  packageSize?: { quantity: number; unit: string };
+  preparation?: string;
+  note?: string;
+  optional?: boolean;
+  section?: string;
 }
 
 /**
@@ -48,6 +56,7 @@ export interface ExtractedRecipeData {
   imageUrl: string | null;
   ingredients: RawIngredient[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   servings: number;
   prepTime: number;
   cookTime: number;
@@ -89,6 +98,7 @@ export interface ReviewRecipeData {
   imageUrl: string;
   ingredients: ParsedIngredient[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   servings: number;
   prepTime: number;
   cookTime: number;
@@ -107,6 +117,7 @@ export interface YouTubeRecipeData {
   title: string;
   ingredients: ParsedIngredient[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   prepTime: number;
   cookTime: number;
   servings: number;
@@ -0,0 +1,228 @@
+/**
+ * Calendar Feed Section Component
+ *
+ * Settings section for subscribing to the meal plan from a calendar app.
+ * Turns the iCalendar feed on, copies or opens its secret URL, sets the
+ * time each meal slot appears at, and rotates or revokes the URL.
+ */
+
+import { useState, useCallback } from "react";
+import { View, Text, Pressable, TextInput, Alert, Linking } from "react-native";
+import { useQuery, useMutation } from "convex/react";
+import * as Clipboard from "expo-clipboard";
+import { CalendarDays, Copy, RefreshCw, XCircle } from "lucide-react-native";
+import { api } from "@/convex/_generated/api";
+import type { MealSlot } from "@/types/meal-planner";
+
+const SLOT_LABELS: { slot: MealSlot; label: string }[] = [
+  { slot: "breakfast", label: "Breakfast" },
+  { slot: "lunch", label: "Lunch" },
+  { slot: "dinner", label: "Dinner" },
+  { slot: "snacks", label: "Snacks" },
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function CalendarFeedSection() {
+  const feed = useQuery(api.calendarFeeds.getCalendarFeed);
+
+  const enableCalendarFeed = useMutation(api.calendarFeeds.enableCalendarFeed);
+  const rotateCalendarFeedToken = useMutation(api.calendarFeeds.rotateCalendarFeedToken);
+  const revokeCalendarFeed = useMutation(api.calendarFeeds.revokeCalendarFeed);
+  const updateCalendarSlotTimes = useMutation(api.calendarFeeds.updateCalendarSlotTimes);
+
+  const [timeInputs, setTimeInputs] = useState<Partial<Record<MealSlot, string>>>({});
+
+  const handleEnable = useCallback(async () => {
+    try {
+      await enableCalendarFeed({});
+    } catch (error) {
+      console.error("Failed to enable calendar feed:", error);
+      Alert.alert("Error", "Failed to turn on the calendar feed. Please try again.");
+    }
+  }, [enableCalendarFeed]);
+
+  const handleSubscribe = useCallback(async () => {
+    if (!feed) return;
+    const webcalUrl = feed.url.replace(/^https?:\/\//, "webcal://");
+    try {
+      await Linking.openURL(webcalUrl);
+    } catch {
+      await Clipboard.setStringAsync(feed.url);
+      Alert.alert("Link Copied", "Paste the link into your calendar app to subscribe.");
+    }
+  }, [feed]);
+
+  const handleCopy = useCallback(async () => {
+    if (!feed) return;
+    await Clipboard.setStringAsync(feed.url);
+    Alert.alert("Link Copied", "Anyone with this link can see your meal plan.");
+  }, [feed]);
+
+  const handleRotate = useCallback(() => {
+    Alert.alert(
+      "Reset Calendar Link",
+      "The current link will stop working. Calendars subscribed to it will need the new link.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reset Link",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await rotateCalendarFeedToken({});
+            } catch (error) {
+              console.error("Failed to rotate calendar feed:", error);
+              Alert.alert("Error", "Failed to reset the link. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  }, [rotateCalendarFeedToken]);
+
+  const handleRevoke = useCallback(() => {
+    Alert.alert(
+      "Turn Off Calendar Feed",
+      "Subscribed calendars will stop receiving your meal plan.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Turn Off",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await revokeCalendarFeed({});
+            } catch (error) {
+              console.error("Failed to revoke calendar feed:", error);
+              Alert.alert("Error", "Failed to turn off the calendar feed. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  }, [revokeCalendarFeed]);
+
+  const handleSaveTime = useCallback(
+    async (slot: MealSlot) => {
+      const input = timeInputs[slot];
+      setTimeInputs((inputs) => ({ ...inputs, [slot]: undefined }));
+      if (!feed || input === undefined || input === feed.slotTimes[slot]) return;
+
+      if (!TIME_PATTERN.test(input)) {
+        Alert.alert("Invalid Time", "Enter a 24-hour time like 18:30.");
+        return;
+      }
+
+      try {
+        await updateCalendarSlotTimes({
+          slotTimes: { ...feed.slotTimes, [slot]: input },
+        });
+      } catch (error) {
+        console.error("Failed to update slot times:", error);
+        Alert.alert("Error", "Failed to update the meal time. Please try again.");
+      }
+    },
+    [feed, timeInputs, updateCalendarSlotTimes]
+  );
+
+  return (
+    <View className="mb-6">
+      <Text className="px-6 text-sm font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wider mb-2">
+        Calendar
+      </Text>
+      <View className="bg-white dark:bg-stone-900 border-y border-stone-200 dark:border-stone-800">
+        {feed === null ? (
+          <Pressable
+            onPress={handleEnable}
+            className="px-6 py-4 flex-row items-center active:bg-stone-50 dark:active:bg-stone-800"
+          >
+            <View className="bg-stone-100 dark:bg-stone-800 rounded-full p-2 mr-3">
+              <CalendarDays size={20} color="#78716c" />
+            </View>
+            <View className="flex-1">
+              <Text className="text-base font-medium text-stone-900 dark:text-stone-100">
+                Meal Plan Calendar Feed
+              </Text>
+              <Text className="text-sm text-stone-500 dark:text-stone-400">
+                Show planned meals in your calendar app
+              </Text>
+            </View>
+            <Text className="text-sm font-medium text-orange-500">Turn On</Text>
+          </Pressable>
+        ) : feed ? (
+          <>
+            <Pressable
+              onPress={handleSubscribe}
+              className="px-6 py-4 flex-row items-center border-b border-stone-100 dark:border-stone-800 active:bg-stone-50 dark:active:bg-stone-800"
+            >
+              <View className="bg-orange-100 dark:bg-orange-900/30 rounded-full p-2 mr-3">
+                <CalendarDays size={20} color="#f97316" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-base font-medium text-stone-900 dark:text-stone-100">
+                  Subscribe in Calendar
+                </Text>
+                <Text className="text-sm text-stone-500 dark:text-stone-400">
+                  Updates automatically as you plan
+                </Text>
+              </View>
+            </Pressable>
+
+            {SLOT_LABELS.map(({ slot, label }) => (
+              <View
+                key={slot}
+                className="px-6 py-3 flex-row items-center border-b border-stone-100 dark:border-stone-800"
+              >
+                <Text className="flex-1 text-base text-stone-900 dark:text-stone-100">
+                  {label}
+                </Text>
+                <TextInput
+                  value={timeInputs[slot] ?? feed.slotTimes[slot]}
+                  onChangeText={(text) => setTimeInputs((inputs) => ({ ...inputs, [slot]: text }))}
+                  onEndEditing={() => handleSaveTime(slot)}
+                  placeholder="HH:MM"
+                  placeholderTextColor="#a8a29e"
+                  keyboardType="numbers-and-punctuation"
+                  returnKeyType="done"
+                  maxLength={5}
+                  className="w-20 rounded-lg bg-stone-100 px-3 py-1.5 text-right text-stone-900 dark:bg-stone-800 dark:text-stone-100"
+                  accessibilityLabel={`${label} time`}
+                />
+              </View>
+            ))}
+
+            <Pressable
+              onPress={handleCopy}
+              className="px-6 py-4 flex-row items-center border-b border-stone-100 dark:border-stone-800 active:bg-stone-50 dark:active:bg-stone-800"
+            >
+              <Copy size={18} color="#78716c" />
+              <Text className="ml-3 text-base text-stone-900 dark:text-stone-100">Copy Link</Text>
+            </Pressable>
+
+            <Pressable
+              onPress={handleRotate}
+              className="px-6 py-4 flex-row items-center border-b border-stone-100 dark:border-stone-800 active:bg-stone-50 dark:active:bg-stone-800"
+            >
+              <RefreshCw size={18} color="#78716c" />
+              <Text className="ml-3 text-base text-stone-900 dark:text-stone-100">Reset Link</Text>
+            </Pressable>
+
+            <Pressable
+              onPress={handleRevoke}
+              className="px-6 py-4 flex-row items-center active:bg-stone-50 dark:active:bg-stone-800"
+            >
+              <XCircle size={18} color="#ef4444" />
+              <Text className="ml-3 text-base text-red-500">Turn Off Feed</Text>
+            </Pressable>
+          </>
+        ) : null}
+      </View>
+      {feed && (
+        <Text className="px-6 mt-2 text-xs text-stone-500 dark:text-stone-400">
+          Keep this link private. Anyone with it can see your meal plan.
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -2,12 +2,12 @@
  * ContextMenu Component
  *
  * Long-press context menu for filled meal slots.
- * Shows Copy, Move, and Remove options.
+ * Shows a servings stepper and Copy, Move, Leftovers, and Remove options.
  */
 
 import { View, Text, Pressable, Modal } from "react-native";
 import Animated, { FadeIn, FadeOut, SlideInDown } from "react-native-reanimated";
-import { Copy, Move, Trash2, X } from "lucide-react-native";
+import { Copy, Minus, Move, Plus, Repeat, Trash2, X } from "lucide-react-native";
 import type { ContextMenuProps } from "@/types/meal-planner";
 
 export function ContextMenu({
@@ -15,6 +15,8 @@ export function ContextMenu({
   meal,
   onCopy,
   onMove,
+  onLeftovers,
+  onChangeServings,
   onRemove,
   onClose,
 }: ContextMenuProps) {
@@ -46,10 +48,41 @@ export function ContextMenu({
               {meal.recipeName}
             </Text>
             <Text className="text-sm text-stone-500 dark:text-stone-400">
-              {meal.prepTime}
+              {meal.leftoverOfMealId ? "Leftovers" : meal.prepTime}
             </Text>
           </View>
 
+          {/* Servings */}
+          {meal.servings !== undefined && (
+            <View className="mb-2 flex-row items-center justify-between px-6">
+              <Text className="font-medium text-stone-900 dark:text-white">
+                Servings
+              </Text>
+              <View className="flex-row items-center gap-3">
+                <Pressable
+                  onPress={() => onChangeServings(meal.servings! - 1)}
+                  disabled={meal.servings <= 1}
+                  className="h-9 w-9 items-center justify-center rounded-full bg-stone-100 dark:bg-stone-700"
+                  accessibilityLabel="Decrease servings"
+                  accessibilityRole="button"
+                >
+                  <Minus className="h-4 w-4 text-stone-600 dark:text-stone-300" />
+                </Pressable>
+                <Text className="w-6 text-center text-base font-semibold text-stone-900 dark:text-white">
+                  {meal.servings}
+                </Text>
+                <Pressable
+                  onPress={() => onChangeServings(meal.servings! + 1)}
+                  className="h-9 w-9 items-center justify-center rounded-full bg-stone-100 dark:bg-stone-700"
+                  accessibilityLabel="Increase servings"
+                  accessibilityRole="button"
+                >
+                  <Plus className="h-4 w-4 text-stone-600 dark:text-stone-300" />
+                </Pressable>
+              </View>
+            </View>
+          )}
+
           {/* Actions */}
           <View className="px-4">
             {/* Copy */}
@@ -92,6 +125,26 @@ export function ContextMenu({
               </View>
             </Pressable>
 
+            {/* Leftovers */}
+            <Pressable
+              onPress={onLeftovers}
+              className="flex-row items-center gap-4 rounded-xl px-4 py-4 active:bg-stone-100 dark:active:bg-stone-700"
+              accessibilityLabel="Plan leftovers of this meal"
+              accessibilityRole="button"
+            >
+              <View className="h-10 w-10 items-center justify-center rounded-xl bg-amber-100 dark:bg-amber-900/30">
+                <Repeat className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+              </View>
+              <View>
+                <Text className="font-medium text-stone-900 dark:text-white">
+                  Leftovers Tomorrow
+                </Text>
+                <Text className="text-sm text-stone-500 dark:text-stone-400">
+                  Cook once, eat twice
+                </Text>
+              </View>
+            </Pressable>
+
             {/* Remove */}
             <Pressable
               onPress={onRemove}
@@ -3,6 +3,7 @@
  *
  * Displays all meal slots for a single day vertically stacked.
  * Includes breakfast, lunch, dinner, and a collapsible snacks section.
+ * Shows the day's nutrition against the user's daily targets.
  * Supports horizontal swipe gestures for day navigation.
  */
 
@@ -10,6 +11,7 @@ import { View, Text, Pressable } from "react-native";
 import { Sun, Clock, Moon, Trash2, CheckSquare } from "lucide-react-native";
 import { MealSlotCard } from "./MealSlotCard";
 import { CollapsibleSnacksSection } from "./CollapsibleSnacksSection";
+import { NutritionProgress } from "./NutritionProgress";
 import type { DayViewProps } from "@/types/meal-planner";
 import type { MealSlot, PlannedMeal } from "@/types/meal-planner";
 import { Id } from "@/convex/_generated/dataModel";
@@ -38,6 +40,8 @@ export function DayView({
   onToggleSnacks,
   onClearDay,
   onSelectAllDay,
+  nutrition,
+  nutritionTargets,
 }: DayViewProps) {
   // Format day for display (e.g., "Wednesday, Feb 5")
   const formatDayHeader = (dateString: string): string => {
@@ -101,6 +105,17 @@ export function DayView({
         </View>
       </View>
 
+      {/* Day Nutrition */}
+      {nutrition && mealCount > 0 && (
+        <View className="pt-4">
+          <NutritionProgress
+            values={nutrition.totals}
+            targets={nutritionTargets}
+            missingCount={nutrition.missing.length}
+          />
+        </View>
+      )}
+
       {/* Meal Slots */}
       <View className="flex-1 py-4">
         {/* Breakfast, Lunch, Dinner */}
@@ -2,13 +2,15 @@
  * MealSlotCard Component
  *
  * Displays a single meal slot with either empty state (dashed border + plus icon)
- * or filled state (recipe thumbnail, name, prep time, remove button).
+ * or filled state (recipe thumbnail, name, prep time, servings, remove button).
+ * Leftover meals are marked with a badge.
  * Supports selection mode with checkboxes for shopping list generation.
  */
 
 import { View, Text, Pressable, Image } from "react-native";
-import { Plus, X, Clock, Check } from "lucide-react-native";
+import { Plus, X, Clock, Check, Users, Repeat } from "lucide-react-native";
 import type { MealSlotCardProps } from "@/types/meal-planner";
+import { getLocalImageUri } from "@/lib/imageCache";
 
 export function MealSlotCard({
   meal,
@@ -91,7 +93,7 @@ export function MealSlotCard({
         {/* Recipe Thumbnail */}
         <View className="h-12 w-12 overflow-hidden rounded-lg bg-stone-100 dark:bg-stone-700">
           <Image
-            source={{ uri: meal.recipeImage }}
+            source={{ uri: getLocalImageUri(meal.recipeImage) ?? meal.recipeImage }}
             className="h-full w-full"
             resizeMode="cover"
             accessibilityIgnoresInvertColors
@@ -107,10 +109,29 @@ export function MealSlotCard({
             {meal.recipeName}
           </Text>
           <View className="mt-0.5 flex-row items-center gap-1">
-            <Clock className="h-3 w-3 text-stone-400 dark:text-stone-500" />
-            <Text className="text-xs text-stone-500 dark:text-stone-400">
-              {meal.prepTime}
-            </Text>
+            {meal.leftoverOfMealId ? (
+              <>
+                <Repeat className="h-3 w-3 text-amber-500" />
+                <Text className="text-xs font-medium text-amber-600 dark:text-amber-400">
+                  Leftovers
+                </Text>
+              </>
+            ) : (
+              <>
+                <Clock className="h-3 w-3 text-stone-400 dark:text-stone-500" />
+                <Text className="text-xs text-stone-500 dark:text-stone-400">
+                  {meal.prepTime}
+                </Text>
+              </>
+            )}
+            {meal.servings !== undefined && (
+              <>
+                <Users className="ml-2 h-3 w-3 text-stone-400 dark:text-stone-500" />
+                <Text className="text-xs text-stone-500 dark:text-stone-400">
+                  {meal.servings}
+                </Text>
+              </>
+            )}
           </View>
         </View>
 
@@ -0,0 +1,95 @@
+/**
+ * NutritionProgress Component
+ *
+ * Shows calories and macros for planned meals, with progress bars for
+ * nutrients that have a daily target. Meals without nutrition are flagged
+ * so partial totals aren't mistaken for complete ones.
+ */
+
+import { View, Text } from "react-native";
+import { AlertTriangle } from "lucide-react-native";
+import type {
+  NutritionProgressProps,
+  NutritionValues,
+} from "@/types/meal-planner";
+
+const NUTRIENTS: { key: keyof NutritionValues; label: string; unit: string }[] = [
+  { key: "calories", label: "Calories", unit: "kcal" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "carbs", label: "Carbs", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+];
+
+export function NutritionProgress({
+  values,
+  targets,
+  missingCount,
+  compact = false,
+}: NutritionProgressProps) {
+  const missingLabel = `${missingCount} meal${missingCount !== 1 ? "s" : ""} missing nutrition`;
+
+  if (compact) {
+    const calorieTarget = targets?.calories;
+
+    return (
+      <View className="flex-row items-center gap-2">
+        <Text className="text-xs text-stone-500 dark:text-stone-400">
+          Avg {values.calories.toLocaleString()}
+          {calorieTarget ? ` / ${calorieTarget.toLocaleString()}` : ""} kcal/day
+        </Text>
+        {missingCount > 0 && (
+          <View className="flex-row items-center gap-1">
+            <AlertTriangle className="h-3 w-3 text-amber-500" />
+            <Text className="text-xs text-amber-600 dark:text-amber-400">
+              {missingCount} missing
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View className="rounded-xl bg-stone-50 p-3 dark:bg-stone-800/50">
+      <View className="flex-row gap-3">
+        {NUTRIENTS.map(({ key, label, unit }) => {
+          const target = targets?.[key];
+          const ratio = target ? values[key] / target : 0;
+          const isOver = ratio > 1.1;
+
+          return (
+            <View key={key} className="flex-1">
+              <Text className="text-xs text-stone-500 dark:text-stone-400">{label}</Text>
+              <Text className="text-sm font-semibold text-stone-900 dark:text-white">
+                {values[key].toLocaleString()}
+                <Text className="text-xs font-normal text-stone-400">
+                  {target ? ` / ${target.toLocaleString()}` : ""} {unit}
+                </Text>
+              </Text>
+              {target ? (
+                <View
+                  className="mt-1 h-1.5 overflow-hidden rounded-full bg-stone-200 dark:bg-stone-700"
+                  accessibilityLabel={`${label} ${Math.round(ratio * 100)}% of target`}
+                >
+                  <View
+                    className={`h-full rounded-full ${isOver ? "bg-red-500" : "bg-green-500"}`}
+                    style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+                  />
+                </View>
+              ) : null}
+            </View>
+          );
+        })}
+      </View>
+
+      {missingCount > 0 && (
+        <View className="mt-2 flex-row items-center gap-1">
+          <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+          <Text className="text-xs text-amber-600 dark:text-amber-400">
+            {missingLabel}; totals are incomplete
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * PlanWeekSheet Component
+ *
+ * Bottom sheet for "plan my week". Lets the user pick a max weeknight
+ * dinner time and variety window, generate a draft, then review it day
+ * by day: re-roll or pin individual meals, and accept or discard the plan.
+ */
+
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Pin, RefreshCw, Sparkles } from "lucide-react-native";
+import type {
+  MealSlot,
+  PlanWeekSheetProps,
+  PlanWeekSettings,
+} from "@/types/meal-planner";
+import { SLOT_LABELS } from "@/types/meal-planner";
+
+const PLANNED_SLOTS: MealSlot[] = ["breakfast", "lunch", "dinner"];
+
+const weeknightTimeOptions: { label: string; minutes?: number }[] = [
+  { label: "Any" },
+  { label: "30 min", minutes: 30 },
+  { label: "45 min", minutes: 45 },
+  { label: "60 min", minutes: 60 },
+];
+
+const varietyOptions = [2, 3, 5, 7];
+
+function Chip({
+  label,
+  isActive,
+  onPress,
+}: {
+  label: string;
+  isActive: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className={`rounded-full px-4 py-2 ${
+        isActive ? "bg-orange-500" : "bg-stone-100 dark:bg-stone-800"
+      }`}
+    >
+      <Text
+        className={`text-sm font-medium ${
+          isActive ? "text-white" : "text-stone-600 dark:text-stone-300"
+        }`}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+export function PlanWeekSheet({
+  isVisible,
+  weekDays,
+  draft,
+  isBusy,
+  onGenerate,
+  onReroll,
+  onTogglePin,
+  onAccept,
+  onDiscard,
+  onClose,
+}: PlanWeekSheetProps) {
+  const [settings, setSettings] = useState<PlanWeekSettings>({ varietyDays: 3 });
+
+  // Start from the draft's settings when reopening an existing draft
+  useEffect(() => {
+    if (draft) {
+      setSettings({
+        maxWeeknightTime: draft.maxWeeknightTime,
+        varietyDays: draft.varietyDays,
+      });
+    }
+  }, [draft?._id]);
+
+  const newMealCount = draft?.meals.length ?? 0;
+
+  return (
+    <Modal
+      visible={isVisible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable className="flex-1 bg-black/50" onPress={onClose}>
+        <Pressable
+          className="mt-auto max-h-[90%] rounded-t-3xl bg-white dark:bg-stone-900"
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View className="items-center py-4">
+            <View className="h-1 w-10 rounded-full bg-stone-300 dark:bg-stone-600" />
+          </View>
+
+          <View className="px-6 pb-4">
+            <Text className="text-lg font-semibold text-stone-900 dark:text-stone-100">
+              Plan My Week
+            </Text>
+            <Text className="text-sm text-stone-500 dark:text-stone-400">
+              Fills empty breakfast, lunch, and dinner slots from your recipes
+            </Text>
+          </View>
+
+          <ScrollView>
+            {/* Settings */}
+            <View className="px-6 pb-4">
+              <Text className="mb-3 text-sm font-semibold uppercase text-stone-500 dark:text-stone-400">
+                Weeknight Dinners Under
+              </Text>
+              <View className="flex-row flex-wrap gap-2">
+                {weeknightTimeOptions.map((option) => (
+                  <Chip
+                    key={option.label}
+                    label={option.label}
+                    isActive={settings.maxWeeknightTime === option.minutes}
+                    onPress={() =>
+                      setSettings({ ...settings, maxWeeknightTime: option.minutes })
+                    }
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View className="px-6 pb-4">
+              <Text className="mb-3 text-sm font-semibold uppercase text-stone-500 dark:text-stone-400">
+                No Repeats Within
+              </Text>
+              <View className="flex-row flex-wrap gap-2">
+                {varietyOptions.map((days) => (
+                  <Chip
+                    key={days}
+                    label={`${days} days`}
+                    isActive={settings.varietyDays === days}
+                    onPress={() => setSettings({ ...settings, varietyDays: days })}
+                  />
+                ))}
+              </View>
+            </View>
+
+            {/* Draft Preview */}
+            {draft && (
+              <View className="gap-3 px-6 pb-4">
+                {weekDays.map((day) => {
+                  const meals = draft.meals.filter((meal) => meal.day === day.date);
+                  const unfilled = draft.unfilled.filter((entry) => entry.day === day.date);
+                  if (meals.length === 0 && unfilled.length === 0) return null;
+
+                  return (
+                    <View
+                      key={day.date}
+                      className="rounded-xl border border-stone-200 p-3 dark:border-stone-700"
+                    >
+                      <Text className="mb-2 font-semibold text-stone-900 dark:text-white">
+                        {day.dayName} {day.dateNumber}
+                      </Text>
+
+                      {PLANNED_SLOTS.map((slot) => {
+                        const meal = meals.find((m) => m.slot === slot);
+                        const isUnfilled = unfilled.some((entry) => entry.slot === slot);
+                        if (!meal && !isUnfilled) return null;
+
+                        return (
+                          <View key={slot} className="flex-row items-center gap-2 py-1.5">
+                            <Text className="w-20 text-xs font-medium uppercase text-stone-500 dark:text-stone-400">
+                              {SLOT_LABELS[slot]}
+                            </Text>
+                            <View className="flex-1">
+                              {meal ? (
+                                <>
+                                  <Text
+                                    className="text-sm font-medium text-stone-900 dark:text-white"
+                                    numberOfLines={1}
+                                  >
+                                    {meal.recipeName}
+                                  </Text>
+                                  <Text className="text-xs text-stone-500 dark:text-stone-400">
+                                    {[meal.cuisineType, meal.prepTime]
+                                      .filter(Boolean)
+                                      .join(" · ")}
+                                  </Text>
+                                </>
+                              ) : (
+                                <Text className="text-sm italic text-stone-400">
+                                  No recipe fits
+                                </Text>
+                              )}
+                            </View>
+                            {meal && (
+                              <Pressable
+                                onPress={() => onTogglePin(day.date, slot)}
+                                className="p-2"
+                                accessibilityLabel={meal.pinned ? "Unpin meal" : "Pin meal"}
+                                accessibilityRole="button"
+                              >
+                                <Pin
+                                  className={`h-4 w-4 ${
+                                    meal.pinned ? "text-orange-500" : "text-stone-400"
+                                  }`}
+                                />
+                              </Pressable>
+                            )}
+                            <Pressable
+                              onPress={() => onReroll(day.date, slot)}
+                              className="p-2"
+                              accessibilityLabel="Pick a different recipe"
+                              accessibilityRole="button"
+                            >
+                              <RefreshCw className="h-4 w-4 text-stone-400" />
+                            </Pressable>
+                          </View>
+                        );
+                      })}
+                    </View>
+                  );
+                })}
+
+                {newMealCount === 0 && draft.unfilled.length === 0 && (
+                  <Text className="py-4 text-center text-sm text-stone-500 dark:text-stone-400">
+                    Every slot this week is already planned
+                  </Text>
+                )}
+              </View>
+            )}
+          </ScrollView>
+
+          {/* Actions */}
+          <View className="flex-row gap-3 border-t border-stone-200 px-6 pb-8 pt-4 dark:border-stone-800">
+            {draft ? (
+              <>
+                <Pressable
+                  onPress={onDiscard}
+                  disabled={isBusy}
+                  className="flex-1 items-center rounded-xl bg-stone-100 py-3 dark:bg-stone-800"
+                >
+                  <Text className="font-semibold text-stone-700 dark:text-stone-300">
+                    Discard
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => onGenerate(settings)}
+                  disabled={isBusy}
+                  className="flex-1 items-center rounded-xl bg-stone-100 py-3 dark:bg-stone-800"
+                >
+                  <Text className="font-semibold text-stone-700 dark:text-stone-300">
+                    Regenerate
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={onAccept}
+                  disabled={isBusy || newMealCount === 0}
+                  className={`flex-1 items-center rounded-xl py-3 ${
+                    newMealCount > 0 ? "bg-orange-500" : "bg-orange-500/50"
+                  }`}
+                >
+                  {isBusy ? (
+                    <ActivityIndicator color="white" />
+                  ) : (
+                    <Text className="font-semibold text-white">Accept</Text>
+                  )}
+                </Pressable>
+              </>
+            ) : (
+              <Pressable
+                onPress={() => onGenerate(settings)}
+                disabled={isBusy}
+                className="flex-1 flex-row items-center justify-center gap-2 rounded-xl bg-orange-500 py-3"
+              >
+                {isBusy ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  <>
+                    <Sparkles className="h-5 w-5 text-white" />
+                    <Text className="font-semibold text-white">Generate Plan</Text>
+                  </>
+                )}
+              </Pressable>
+            )}
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
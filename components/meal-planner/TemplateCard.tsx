@@ -0,0 +1,99 @@
+/**
+ * TemplateCard Component
+ *
+ * Displays a saved meal plan template with its meal count, recurrence,
+ * and any recipes skipped the last time it was applied.
+ * Actions: apply to the current week, set recurrence, delete.
+ */
+
+import { View, Text, Pressable, ActivityIndicator } from "react-native";
+import { CalendarPlus, Repeat, Trash2, AlertTriangle } from "lucide-react-native";
+import type { TemplateCardProps } from "@/types/meal-planner";
+
+function formatWeek(weekStart: string): string {
+  return new Date(weekStart + "T12:00:00").toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function TemplateCard({
+  template,
+  isBusy,
+  onApply,
+  onSetRecurrence,
+  onDelete,
+}: TemplateCardProps) {
+  const mealCount = template.meals.length;
+  const missingRecipes = template.lastApplied?.missingRecipes ?? [];
+
+  return (
+    <View className="rounded-xl bg-white p-4 dark:bg-stone-800">
+      <View className="flex-row items-start justify-between gap-3">
+        <View className="flex-1">
+          <Text className="text-base font-semibold text-stone-900 dark:text-white">
+            {template.name}
+          </Text>
+          <Text className="text-sm text-stone-500 dark:text-stone-400">
+            {mealCount} meal{mealCount !== 1 ? "s" : ""}
+          </Text>
+          {template.recurrence && (
+            <Text className="mt-1 text-xs text-orange-600 dark:text-orange-400">
+              Repeats every{" "}
+              {template.recurrence.intervalWeeks === 1
+                ? "week"
+                : `${template.recurrence.intervalWeeks} weeks`}
+              {template.nextRecurrenceWeek &&
+                ` · next ${formatWeek(template.nextRecurrenceWeek)}`}
+            </Text>
+          )}
+        </View>
+
+        <Pressable
+          onPress={onDelete}
+          className="p-2 -m-2"
+          accessibilityLabel={`Delete ${template.name}`}
+          accessibilityRole="button"
+        >
+          <Trash2 className="h-4 w-4 text-stone-400" />
+        </Pressable>
+      </View>
+
+      {missingRecipes.length > 0 && (
+        <View className="mt-3 flex-row items-start gap-2 rounded-lg bg-amber-50 p-2 dark:bg-amber-900/20">
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          <Text className="flex-1 text-xs text-amber-700 dark:text-amber-400">
+            Skipped deleted recipes: {missingRecipes.join(", ")}
+          </Text>
+        </View>
+      )}
+
+      <View className="mt-3 flex-row gap-2">
+        <Pressable
+          onPress={onApply}
+          disabled={isBusy}
+          className="flex-1 flex-row items-center justify-center gap-2 rounded-lg bg-orange-500 py-2 active:bg-orange-600"
+        >
+          {isBusy ? (
+            <ActivityIndicator color="white" size="small" />
+          ) : (
+            <>
+              <CalendarPlus className="h-4 w-4 text-white" />
+              <Text className="text-sm font-semibold text-white">Apply</Text>
+            </>
+          )}
+        </Pressable>
+        <Pressable
+          onPress={onSetRecurrence}
+          disabled={isBusy}
+          className="flex-1 flex-row items-center justify-center gap-2 rounded-lg bg-stone-100 py-2 dark:bg-stone-700"
+        >
+          <Repeat className="h-4 w-4 text-stone-600 dark:text-stone-300" />
+          <Text className="text-sm font-medium text-stone-700 dark:text-stone-300">
+            {template.recurrence ? "Change Repeat" : "Repeat"}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
@@ -2,7 +2,8 @@
  * WeekHeader Component
  *
  * Header for the meal planner showing week navigation,
- * meal count, and action buttons (Shop, Clear Week).
+ * meal count, average daily nutrition, and action buttons (Plan,
+ * Templates, Shop, Clear Week).
  */
 
 import { View, Text, Pressable } from "react-native";
@@ -13,7 +14,10 @@ import {
   Trash2,
   X,
   ClipboardList,
+  Sparkles,
+  LayoutTemplate,
 } from "lucide-react-native";
+import { NutritionProgress } from "./NutritionProgress";
 import type { WeekHeaderProps } from "@/types/meal-planner";
 
 export function WeekHeader({
@@ -28,6 +32,9 @@ export function WeekHeader({
   onCancelSelection,
   onGenerateList,
   onClearWeek,
+  onPlanWeek,
+  onTemplatesPress,
+  nutrition,
 }: WeekHeaderProps) {
   return (
     <View className="border-b border-stone-200 bg-white px-4 pb-4 pt-12 dark:border-stone-800 dark:bg-stone-900">
@@ -40,6 +47,14 @@ export function WeekHeader({
           <Text className="text-sm text-stone-500 dark:text-stone-400">
             {mealCount} meal{mealCount !== 1 ? "s" : ""} planned this week
           </Text>
+          {nutrition && mealCount > 0 && (
+            <NutritionProgress
+              values={nutrition.dailyAverage}
+              targets={nutrition.targets}
+              missingCount={nutrition.week.missing.length}
+              compact
+            />
+          )}
         </View>
 
         {/* Action Buttons */}
@@ -79,6 +94,27 @@ export function WeekHeader({
             </>
           ) : (
             <>
+              {/* Plan Week Button */}
+              <Pressable
+                onPress={onPlanWeek}
+                className="flex-row items-center gap-2 rounded-lg bg-orange-500 px-3 py-1.5 active:bg-orange-600"
+                accessibilityLabel="Plan my week"
+                accessibilityRole="button"
+              >
+                <Sparkles className="h-4 w-4 text-white" />
+                <Text className="text-sm font-medium text-white">Plan</Text>
+              </Pressable>
+
+              {/* Templates Button */}
+              <Pressable
+                onPress={onTemplatesPress}
+                className="rounded-lg bg-stone-100 p-2 active:bg-stone-200 dark:bg-stone-800 dark:active:bg-stone-700"
+                accessibilityLabel="Meal plan templates"
+                accessibilityRole="button"
+              >
+                <LayoutTemplate className="h-4 w-4 text-stone-600 dark:text-stone-400" />
+              </Pressable>
+
               {/* Shop Button */}
               <Pressable
                 onPress={onShopPress}
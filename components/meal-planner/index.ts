@@ -14,3 +14,7 @@ export { RecipePickerSheet } from "./RecipePickerSheet";
 export { OnboardingOverlay } from "./OnboardingOverlay";
 export { EmptyWeekState } from "./EmptyWeekState";
 export { ContextMenu } from "./ContextMenu";
+export { PlanWeekSheet } from "./PlanWeekSheet";
+export { TemplateCard } from "./TemplateCard";
+export { NutritionProgress } from "./NutritionProgress";
+export { CalendarFeedSection } from "./CalendarFeedSection";
@@ -0,0 +1,92 @@
+/**
+ * CookableRecipeCard Component
+ *
+ * Shows a recipe ranked by pantry coverage, with the ingredients still
+ * needed and an action to add them to the shopping list.
+ */
+
+import { View, Text, Pressable, Image } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+interface CookableRecipeCardProps {
+  recipe: {
+    title: string;
+    imageUrl: string;
+    coveredCount: number;
+    totalCount: number;
+    coverage: number;
+    missing: { name: string; quantity: number; unit: string; isPartial: boolean }[];
+  };
+  onPress?: () => void;
+  onAddMissing?: () => void;
+  isAdding?: boolean;
+}
+
+export function CookableRecipeCard({
+  recipe,
+  onPress,
+  onAddMissing,
+  isAdding = false,
+}: CookableRecipeCardProps) {
+  const percent = Math.round(recipe.coverage * 100);
+  const canCookNow = recipe.missing.length === 0;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      className="bg-white dark:bg-stone-800 rounded-2xl overflow-hidden border border-stone-200 dark:border-stone-700"
+    >
+      <View className="flex-row gap-3 p-3">
+        <Image source={{ uri: recipe.imageUrl }} className="w-16 h-16 rounded-xl" />
+        <View className="flex-1">
+          <Text className="font-semibold text-stone-900 dark:text-white" numberOfLines={2}>
+            {recipe.title}
+          </Text>
+          <Text className="text-xs text-stone-500 dark:text-stone-400 mt-1">
+            You have {recipe.coveredCount} of {recipe.totalCount} ingredients
+          </Text>
+          <View className="h-1.5 mt-2 rounded-full bg-stone-100 dark:bg-stone-700 overflow-hidden">
+            <View
+              className={`h-full rounded-full ${canCookNow ? "bg-green-500" : "bg-orange-500"}`}
+              style={{ width: `${percent}%` }}
+            />
+          </View>
+        </View>
+      </View>
+
+      {canCookNow ? (
+        <View className="flex-row items-center gap-2 px-3 pb-3">
+          <Ionicons name="checkmark-circle" size={16} color="#22c55e" />
+          <Text className="text-sm text-green-600 dark:text-green-400">
+            Everything's in your pantry
+          </Text>
+        </View>
+      ) : (
+        <View className="px-3 pb-3">
+          <Text className="text-xs font-semibold text-stone-500 dark:text-stone-400 uppercase mb-1">
+            Missing
+          </Text>
+          <Text className="text-sm text-stone-700 dark:text-stone-300" numberOfLines={3}>
+            {recipe.missing
+              .map((item) =>
+                item.isPartial
+                  ? `${item.name} (${item.quantity} ${item.unit} more)`
+                  : item.name
+              )
+              .join(", ")}
+          </Text>
+          <Pressable
+            onPress={onAddMissing}
+            disabled={isAdding}
+            className="flex-row items-center justify-center gap-2 mt-3 py-2 rounded-xl bg-orange-50 dark:bg-orange-950"
+          >
+            <Ionicons name="cart-outline" size={16} color="#f97316" />
+            <Text className="text-sm font-semibold text-orange-500">
+              {isAdding ? "Adding..." : "Add missing to shopping list"}
+            </Text>
+          </Pressable>
+        </View>
+      )}
+    </Pressable>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * PantryItemRow Component
+ *
+ * Displays a pantry item with its quantity and expiry status.
+ * Quantity can be adjusted with +/- buttons, and the item can be marked
+ * as an "always have" staple.
+ */
+
+import { View, Text, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { getExpiryStatus } from "@/convex/lib/pantryMatching";
+
+interface PantryItemRowProps {
+  item: {
+    name: string;
+    quantity: number;
+    unit: string;
+    category: string;
+    expiresAt?: number;
+    alwaysHave?: boolean;
+  };
+  onChangeQuantity?: (quantity: number) => void;
+  onToggleAlwaysHave?: () => void;
+  onDelete?: () => void;
+}
+
+function formatExpiry(expiresAt: number): string {
+  return new Date(expiresAt).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function PantryItemRow({
+  item,
+  onChangeQuantity,
+  onToggleAlwaysHave,
+  onDelete,
+}: PantryItemRowProps) {
+  const expiryStatus = getExpiryStatus(item.expiresAt, Date.now());
+
+  return (
+    <View className="flex-row items-center gap-3 py-3 px-4 rounded-xl bg-white dark:bg-stone-800">
+      <View className="flex-1">
+        <Text className="text-stone-900 dark:text-white font-medium">{item.name}</Text>
+        <View className="flex-row items-center gap-2 mt-0.5">
+          <Text className="text-xs text-stone-500 dark:text-stone-400">{item.category}</Text>
+          {item.expiresAt !== undefined && (
+            <Text
+              className={`text-xs ${
+                expiryStatus === "expired"
+                  ? "text-red-500"
+                  : expiryStatus === "expiring"
+                    ? "text-amber-500"
+                    : "text-stone-400"
+              }`}
+            >
+              {expiryStatus === "expired" ? "Expired" : "Expires"} {formatExpiry(item.expiresAt)}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {item.alwaysHave ? (
+        <Text className="text-xs font-medium text-orange-500">Always have</Text>
+      ) : (
+        <View className="flex-row items-center gap-2">
+          <Pressable
+            onPress={() => onChangeQuantity?.(Math.max(0, item.quantity - 1))}
+            className="w-7 h-7 rounded-full bg-stone-100 dark:bg-stone-700 items-center justify-center"
+          >
+            <Ionicons name="remove" size={16} color="#78716c" />
+          </Pressable>
+          <Text className="min-w-[56px] text-center text-stone-700 dark:text-stone-300">
+            {item.quantity} {item.unit}
+          </Text>
+          <Pressable
+            onPress={() => onChangeQuantity?.(item.quantity + 1)}
+            className="w-7 h-7 rounded-full bg-stone-100 dark:bg-stone-700 items-center justify-center"
+          >
+            <Ionicons name="add" size={16} color="#78716c" />
+          </Pressable>
+        </View>
+      )}
+
+      <Pressable onPress={onToggleAlwaysHave} className="p-1">
+        <Ionicons
+          name={item.alwaysHave ? "star" : "star-outline"}
+          size={18}
+          color={item.alwaysHave ? "#f97316" : "#a8a29e"}
+        />
+      </Pressable>
+
+      <Pressable onPress={onDelete} className="p-1">
+        <Ionicons name="trash-outline" size={18} color="#a8a29e" />
+      </Pressable>
+    </View>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Pantry Components
+ *
+ * Exports all components for the pantry feature.
+ */
+
+export { PantryItemRow } from "./PantryItemRow";
+export { CookableRecipeCard } from "./CookableRecipeCard";
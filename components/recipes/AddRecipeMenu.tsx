@@ -7,6 +7,7 @@
  * - YouTube URL
  * - YouTube Search
  * - Scan from photo
+ * - Import from another app (Paprika, Mealie, Tandoor, CSV)
  * - Sous Chef (AI-powered recipe chat)
  */
 
@@ -25,6 +26,7 @@ import {
   Search,
   Camera,
   MessageSquare,
+  FileDown,
   X,
 } from "lucide-react-native";
 
@@ -36,6 +38,7 @@ interface AddRecipeMenuProps {
   onYoutubeUrl: () => void;
   onYoutubeSearch: () => void;
   onScanPhoto: () => void;
+  onBulkImport?: () => void;
   onAiChat?: () => void;
 }
 
@@ -57,6 +60,7 @@ export function AddRecipeMenu({
   onYoutubeUrl,
   onYoutubeSearch,
   onScanPhoto,
+  onBulkImport,
   onAiChat,
 }: AddRecipeMenuProps) {
   const options: MenuOption[] = [
@@ -105,6 +109,20 @@ export function AddRecipeMenu({
       description: "Take a photo of a recipe",
       onPress: onScanPhoto,
     },
+    // Bulk import option - only shown if callback is provided
+    ...(onBulkImport
+      ? [
+          {
+            id: "bulk-import",
+            icon: FileDown,
+            iconColor: "#0ea5e9",
+            iconBg: "bg-sky-100 dark:bg-sky-900/30",
+            title: "Import from Another App",
+            description: "Paprika, Mealie, Tandoor, or CSV",
+            onPress: onBulkImport,
+          },
+        ]
+      : []),
     // Sous Chef option - only shown if callback is provided
     ...(onAiChat
       ? [
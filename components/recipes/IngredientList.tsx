@@ -2,12 +2,15 @@
  * Ingredient List Component
  *
  * Manages list of ingredient rows with add, delete, and reorder functionality.
+ * Rows can be grouped under named sections ("For the sauce").
  */
 
 import { useCallback } from "react";
 import { View, Text, Pressable } from "react-native";
-import { Plus } from "lucide-react-native";
+import { Plus, Heading } from "lucide-react-native";
+import { groupBySection } from "@/convex/lib/recipeSections";
 import { IngredientRow } from "./IngredientRow";
+import { SectionHeadingInput } from "./SectionHeadingInput";
 import { FormIngredient, createEmptyIngredient } from "./types";
 
 interface IngredientListProps {
@@ -39,10 +42,30 @@ export function IngredientList({
     [ingredients, onChange]
   );
 
+  // New rows join the section of the last row
   const handleAddIngredient = useCallback(() => {
-    onChange([...ingredients, createEmptyIngredient()]);
+    const section = ingredients[ingredients.length - 1]?.section;
+    onChange([...ingredients, { ...createEmptyIngredient(), section }]);
   }, [ingredients, onChange]);
 
+  const handleAddSection = useCallback(() => {
+    onChange([...ingredients, { ...createEmptyIngredient(), section: "" }]);
+  }, [ingredients, onChange]);
+
+  // Renaming or removing a heading applies to every row in its group
+  const handleSectionChange = useCallback(
+    (indexes: number[], section: string | undefined) => {
+      onChange(
+        ingredients.map((ingredient, i) =>
+          indexes.includes(i) ? { ...ingredient, section } : ingredient
+        )
+      );
+    },
+    [ingredients, onChange]
+  );
+
+  const groups = groupBySection(ingredients, (ingredient) => ingredient.section);
+
   const handleReorder = useCallback(
     (fromIndex: number, toIndex: number) => {
       if (toIndex < 0 || toIndex >= ingredients.length) return;
@@ -67,27 +90,55 @@ export function IngredientList({
 
       {/* Ingredient Rows */}
       <View className="gap-3">
-        {ingredients.map((ingredient, index) => (
-          <IngredientRow
-            key={ingredient.id}
-            ingredient={ingredient}
-            onChange={(updated) => handleIngredientChange(index, updated)}
-            onDelete={() => handleDelete(index)}
-            canDelete={ingredients.length > 1}
-          />
-        ))}
+        {groups.map((group) => {
+          const indexes = group.items.map(({ index }) => index);
+          return (
+            <View key={group.items[0].item.id} className="gap-3">
+              {group.title !== null && (
+                <SectionHeadingInput
+                  title={group.title}
+                  onChange={(title) => handleSectionChange(indexes, title)}
+                  onRemove={() => handleSectionChange(indexes, undefined)}
+                />
+              )}
+              {group.items.map(({ item: ingredient, index }) => (
+                <IngredientRow
+                  key={ingredient.id}
+                  ingredient={ingredient}
+                  onChange={(updated) => handleIngredientChange(index, updated)}
+                  onDelete={() => handleDelete(index)}
+                  canDelete={ingredients.length > 1}
+                />
+              ))}
+            </View>
+          );
+        })}
       </View>
 
-      {/* Add Ingredient Button */}
-      <Pressable
-        onPress={handleAddIngredient}
-        className="mt-3 flex-row items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-stone-300 dark:border-stone-600 active:bg-stone-100 dark:active:bg-stone-800"
-      >
-        <Plus className="w-5 h-5 text-stone-500 dark:text-stone-400" />
-        <Text className="text-stone-600 dark:text-stone-400 font-medium">
-          Add Ingredient
-        </Text>
-      </Pressable>
+      {/* Action Buttons */}
+      <View className="flex-row gap-3 mt-3">
+        {/* Add Ingredient Button */}
+        <Pressable
+          onPress={handleAddIngredient}
+          className="flex-1 flex-row items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-stone-300 dark:border-stone-600 active:bg-stone-100 dark:active:bg-stone-800"
+        >
+          <Plus className="w-5 h-5 text-stone-500 dark:text-stone-400" />
+          <Text className="text-stone-600 dark:text-stone-400 font-medium">
+            Add Ingredient
+          </Text>
+        </Pressable>
+
+        {/* Add Section Button */}
+        <Pressable
+          onPress={handleAddSection}
+          className="flex-1 flex-row items-center justify-center gap-2 py-3 rounded-xl bg-stone-100 dark:bg-stone-800 active:bg-stone-200 dark:active:bg-stone-700"
+        >
+          <Heading className="w-5 h-5 text-stone-600 dark:text-stone-400" />
+          <Text className="text-stone-600 dark:text-stone-400 font-medium">
+            Add Section
+          </Text>
+        </Pressable>
+      </View>
     </View>
   );
 }
@@ -2,13 +2,16 @@
  * Instruction List Component
  *
  * Manages list of instruction steps with add, delete, reorder, and bulk paste.
+ * Steps can be grouped under named sections; numbering runs across sections.
  */
 
 import { useState, useCallback } from "react";
 import { View, Text, Pressable } from "react-native";
-import { Plus, ClipboardPaste } from "lucide-react-native";
+import { Plus, ClipboardPaste, Heading } from "lucide-react-native";
+import { groupBySection } from "@/convex/lib/recipeSections";
 import { InstructionStep } from "./InstructionStep";
 import { BulkPasteModal } from "./BulkPasteModal";
+import { SectionHeadingInput } from "./SectionHeadingInput";
 import { FormInstruction, createEmptyInstruction } from "./types";
 
 interface InstructionListProps {
@@ -42,10 +45,28 @@ export function InstructionList({
     [instructions, onChange]
   );
 
+  // New steps join the section of the last step
   const handleAddInstruction = useCallback(() => {
-    onChange([...instructions, createEmptyInstruction()]);
+    const section = instructions[instructions.length - 1]?.section;
+    onChange([...instructions, { ...createEmptyInstruction(), section }]);
   }, [instructions, onChange]);
 
+  const handleAddSection = useCallback(() => {
+    onChange([...instructions, { ...createEmptyInstruction(), section: "" }]);
+  }, [instructions, onChange]);
+
+  // Renaming or removing a heading applies to every step in its group
+  const handleSectionChange = useCallback(
+    (indexes: number[], section: string | undefined) => {
+      onChange(
+        instructions.map((instruction, i) =>
+          indexes.includes(i) ? { ...instruction, section } : instruction
+        )
+      );
+    },
+    [instructions, onChange]
+  );
+
   const handleBulkPasteConfirm = useCallback(
     (newInstructions: FormInstruction[]) => {
       if (newInstructions.length === 0) return;
@@ -57,13 +78,19 @@ export function InstructionList({
       if (hasOnlyEmptyInstructions) {
         onChange(newInstructions);
       } else {
-        // Append to existing instructions
-        onChange([...instructions, ...newInstructions]);
+        // Append to existing instructions, in the last step's section
+        const section = instructions[instructions.length - 1]?.section;
+        onChange([
+          ...instructions,
+          ...newInstructions.map((instruction) => ({ ...instruction, section })),
+        ]);
       }
     },
     [instructions, onChange]
   );
 
+  const groups = groupBySection(instructions, (instruction) => instruction.section);
+
   return (
     <View>
       {/* Error message */}
@@ -77,16 +104,30 @@ export function InstructionList({
 
       {/* Instruction Steps */}
       <View className="gap-3">
-        {instructions.map((instruction, index) => (
-          <InstructionStep
-            key={instruction.id}
-            instruction={instruction}
-            stepNumber={index + 1}
-            onChange={(updated) => handleInstructionChange(index, updated)}
-            onDelete={() => handleDelete(index)}
-            canDelete={instructions.length > 1}
-          />
-        ))}
+        {groups.map((group) => {
+          const indexes = group.items.map(({ index }) => index);
+          return (
+            <View key={group.items[0].item.id} className="gap-3">
+              {group.title !== null && (
+                <SectionHeadingInput
+                  title={group.title}
+                  onChange={(title) => handleSectionChange(indexes, title)}
+                  onRemove={() => handleSectionChange(indexes, undefined)}
+                />
+              )}
+              {group.items.map(({ item: instruction, index }) => (
+                <InstructionStep
+                  key={instruction.id}
+                  instruction={instruction}
+                  stepNumber={index + 1}
+                  onChange={(updated) => handleInstructionChange(index, updated)}
+                  onDelete={() => handleDelete(index)}
+                  canDelete={instructions.length > 1}
+                />
+              ))}
+            </View>
+          );
+        })}
       </View>
 
       {/* Action Buttons */}
@@ -102,6 +143,17 @@ export function InstructionList({
           </Text>
         </Pressable>
 
+        {/* Add Section Button */}
+        <Pressable
+          onPress={handleAddSection}
+          className="flex-1 flex-row items-center justify-center gap-2 py-3 rounded-xl bg-stone-100 dark:bg-stone-800 active:bg-stone-200 dark:active:bg-stone-700"
+        >
+          <Heading className="w-5 h-5 text-stone-600 dark:text-stone-400" />
+          <Text className="text-stone-600 dark:text-stone-400 font-medium">
+            Section
+          </Text>
+        </Pressable>
+
         {/* Bulk Paste Button */}
         <Pressable
           onPress={() => setShowBulkPaste(true)}
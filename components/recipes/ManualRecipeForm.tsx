@@ -20,6 +20,9 @@ import {
 import { X, Check } from "lucide-react-native";
 import { useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { parseQuantityRange } from "@/convex/lib/aiRecipeTransform";
+import { enrichIngredient } from "@/convex/lib/ingredientParser";
+import { toInstructionSections } from "@/convex/lib/recipeSections";
 
 import { DiscardConfirmation } from "./DiscardConfirmation";
 import { TitleInput } from "./TitleInput";
@@ -208,17 +211,27 @@ export function ManualRecipeForm({
       // Filter valid ingredients
       const validIngredients = formState.ingredients
         .filter((ing) => ing.name.trim())
-        .map((ing) => ({
-          name: ing.name.trim(),
-          quantity: parseFloat(ing.quantity) || 0,
-          unit: ing.unit || "piece",
-          category: ing.category,
-        }));
-
-      // Filter valid instructions
-      const validInstructions = formState.instructions
-        .filter((inst) => inst.text.trim())
-        .map((inst) => inst.text.trim());
+        .map((ing) => {
+          // Accepts "1½" and "1-2" as well as plain numbers
+          const { quantity, quantityMax } = ing.quantity.trim()
+            ? parseQuantityRange(ing.quantity)
+            : { quantity: 0, quantityMax: undefined };
+          return enrichIngredient({
+            name: ing.name.trim(),
+            quantity,
+            ...(quantityMax !== undefined && { quantityMax }),
+            unit: ing.unit || "piece",
+            category: ing.category,
+            ...(ing.section?.trim() && { section: ing.section.trim() }),
+          });
+        });
+
+      // Filter valid instructions; sections are stored by starting step
+      const filledInstructions = formState.instructions.filter((inst) => inst.text.trim());
+      const validInstructions = filledInstructions.map((inst) => inst.text.trim());
+      const instructionSections = toInstructionSections(
+        filledInstructions.map((inst) => inst.section)
+      );
 
       // Build nutrition object if any values provided
       const hasNutrition =
@@ -246,6 +259,7 @@ export function ManualRecipeForm({
         cookTime: parseInt(formState.cookTime, 10) || 0,
         ingredients: validIngredients,
         instructions: validInstructions,
+        ...(instructionSections.length > 0 && { instructionSections }),
         notes: formState.notes.trim() || undefined,
         nutrition,
         cuisineType: formState.cuisineType.trim() || undefined,
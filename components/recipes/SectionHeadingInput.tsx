@@ -0,0 +1,41 @@
+/**
+ * Section Heading Input Component
+ *
+ * Editable title above a group of ingredients or steps, e.g. "For the sauce".
+ * Removing the heading keeps the items and moves them out of the section.
+ */
+
+import { View, TextInput, Pressable } from "react-native";
+import { X } from "lucide-react-native";
+
+interface SectionHeadingInputProps {
+  title: string;
+  onChange: (title: string) => void;
+  onRemove: () => void;
+}
+
+export function SectionHeadingInput({
+  title,
+  onChange,
+  onRemove,
+}: SectionHeadingInputProps) {
+  return (
+    <View className="flex-row items-center gap-2 mt-2">
+      <TextInput
+        value={title}
+        onChangeText={onChange}
+        placeholder="Section name (e.g. For the sauce)"
+        placeholderTextColor="#a8a29e"
+        selectTextOnFocus
+        className="flex-1 border-b border-stone-300 dark:border-stone-600 px-1 py-2 text-base font-semibold text-stone-900 dark:text-stone-100"
+      />
+      <Pressable
+        onPress={onRemove}
+        accessibilityLabel="Remove section"
+        className="w-8 h-8 items-center justify-center rounded-full active:bg-stone-100 dark:active:bg-stone-700"
+      >
+        <X className="w-5 h-5 text-stone-400" />
+      </Pressable>
+    </View>
+  );
+}
@@ -1,21 +1,28 @@
 /**
  * ActionButtons Component
  *
- * Action buttons for meal plan, cookbook, and delete operations.
+ * Action buttons for meal plan, cookbook, share, variation, version
+ * history, and delete operations.
  */
 
 import { View, Text, Pressable, Alert } from "react-native";
-import { Calendar, BookOpen, Trash2 } from "lucide-react-native";
+import { Calendar, BookOpen, Share2, GitBranch, History, Trash2 } from "lucide-react-native";
 
 interface ActionButtonsProps {
   onAddToMealPlan?: () => void;
   onAddToCookbook?: () => void;
+  onShare?: () => void;
+  onCreateVariation?: () => void;
+  onViewHistory?: () => void;
   onDelete?: () => void;
 }
 
 export function ActionButtons({
   onAddToMealPlan,
   onAddToCookbook,
+  onShare,
+  onCreateVariation,
+  onViewHistory,
   onDelete,
 }: ActionButtonsProps) {
   const handleDelete = () => {
@@ -55,6 +62,42 @@ export function ActionButtons({
         </Text>
       </Pressable>
 
+      {onShare && (
+        <Pressable
+          onPress={onShare}
+          className="flex-row items-center gap-2 rounded-xl border border-stone-200 bg-white px-4 py-3 active:border-orange-300 active:bg-orange-50 dark:border-stone-700 dark:bg-stone-800 dark:active:border-orange-600 dark:active:bg-orange-900/30"
+        >
+          <Share2 className="h-5 w-5 text-orange-500" />
+          <Text className="font-medium text-stone-700 dark:text-stone-200">
+            Share Recipe
+          </Text>
+        </Pressable>
+      )}
+
+      {onCreateVariation && (
+        <Pressable
+          onPress={onCreateVariation}
+          className="flex-row items-center gap-2 rounded-xl border border-stone-200 bg-white px-4 py-3 active:border-orange-300 active:bg-orange-50 dark:border-stone-700 dark:bg-stone-800 dark:active:border-orange-600 dark:active:bg-orange-900/30"
+        >
+          <GitBranch className="h-5 w-5 text-orange-500" />
+          <Text className="font-medium text-stone-700 dark:text-stone-200">
+            Create Variation
+          </Text>
+        </Pressable>
+      )}
+
+      {onViewHistory && (
+        <Pressable
+          onPress={onViewHistory}
+          className="flex-row items-center gap-2 rounded-xl border border-stone-200 bg-white px-4 py-3 active:border-orange-300 active:bg-orange-50 dark:border-stone-700 dark:bg-stone-800 dark:active:border-orange-600 dark:active:bg-orange-900/30"
+        >
+          <History className="h-5 w-5 text-orange-500" />
+          <Text className="font-medium text-stone-700 dark:text-stone-200">
+            Version History
+          </Text>
+        </Pressable>
+      )}
+
       <Pressable
         onPress={handleDelete}
         className="flex-row items-center gap-2 rounded-xl border border-red-200 bg-white px-4 py-3 active:bg-red-50 dark:border-red-800 dark:bg-stone-800 dark:active:bg-red-900/30"
@@ -0,0 +1,90 @@
+/**
+ * CookHistorySummary Component
+ *
+ * Shows how many times a recipe has been cooked and when it was last cooked,
+ * with the most recent cook log entries and a "Mark as Cooked" action.
+ */
+
+import { View, Text, Pressable } from "react-native";
+import { History, Star, CheckCircle } from "lucide-react-native";
+import { formatCookDate, formatCookSummary } from "@/convex/lib/cookHistory";
+
+interface CookLogEntry {
+  _id: string;
+  cookedAt: number;
+  servingsMade?: number;
+  rating?: number;
+  notes?: string;
+}
+
+interface CookHistorySummaryProps {
+  timesCooked: number;
+  lastCookedAt: number | null;
+  recentLogs?: CookLogEntry[];
+  onMarkCooked?: () => void;
+}
+
+export function CookHistorySummary({
+  timesCooked,
+  lastCookedAt,
+  recentLogs = [],
+  onMarkCooked,
+}: CookHistorySummaryProps) {
+  const summary = formatCookSummary(timesCooked, lastCookedAt);
+
+  return (
+    <View className="mt-6 rounded-2xl border border-stone-200 bg-white p-4 dark:border-stone-700 dark:bg-stone-800">
+      <View className="flex-row items-center justify-between">
+        <View className="flex-1 flex-row items-center gap-2">
+          <History className="h-5 w-5 text-orange-500" />
+          <Text className="flex-1 font-medium text-stone-900 dark:text-stone-100">
+            {summary}
+          </Text>
+        </View>
+        {onMarkCooked && (
+          <Pressable
+            onPress={onMarkCooked}
+            className="flex-row items-center gap-1 rounded-lg bg-orange-50 px-3 py-2 active:bg-orange-100 dark:bg-orange-900/30 dark:active:bg-orange-900/50"
+          >
+            <CheckCircle className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+            <Text className="text-sm font-medium text-orange-600 dark:text-orange-400">
+              Cooked it
+            </Text>
+          </Pressable>
+        )}
+      </View>
+
+      {recentLogs.length > 0 && (
+        <View className="mt-4 gap-3 border-t border-stone-100 pt-4 dark:border-stone-700">
+          {recentLogs.map((log) => (
+            <View key={log._id}>
+              <View className="flex-row items-center gap-2">
+                <Text className="text-sm font-medium text-stone-700 dark:text-stone-300">
+                  {formatCookDate(log.cookedAt)}
+                </Text>
+                {log.servingsMade !== undefined && (
+                  <Text className="text-sm text-stone-500 dark:text-stone-400">
+                    · {log.servingsMade} servings
+                  </Text>
+                )}
+                {log.rating !== undefined && (
+                  <View className="flex-row items-center gap-0.5">
+                    <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+                    <Text className="text-sm text-stone-500 dark:text-stone-400">
+                      {log.rating}
+                    </Text>
+                  </View>
+                )}
+              </View>
+              {log.notes && (
+                <Text className="mt-1 text-sm text-stone-600 dark:text-stone-400">
+                  {log.notes}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -2,45 +2,92 @@
  * IngredientsSection Component
  *
  * Displays ingredients with serving adjuster and shopping list actions.
+ * Amounts are scaled by servings and, for baked recipes, by pan size,
+ * and shown in the user's preferred unit system when provided.
+ * Metric users also see an approximate weight for volume-measured
+ * ingredients with a known density (e.g., "1 cup flour ≈ 120 g").
+ * Ingredients listed under a section are grouped under its heading.
  */
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { View, Text, Pressable } from "react-native";
 import { ShoppingCart, Check } from "lucide-react-native";
+import { getUnitGroup, UnitSystem } from "@/convex/lib/unitConversion";
+import { convertWithDensity } from "@/convex/lib/ingredientDensity";
+import { normalizeIngredientName } from "@/convex/lib/ingredientAggregation";
+import { groupIngredientsBySection } from "@/convex/lib/recipeSections";
+import {
+  formatAmount,
+  getPanScaleFactor,
+  getScaleFactor,
+  scaleIngredient,
+  type PanSize,
+} from "@/convex/lib/recipeScaling";
 import { ServingAdjuster } from "./ServingAdjuster";
+import { PanSizeScaler } from "./PanSizeScaler";
 
 interface Ingredient {
   name: string;
   quantity: number;
   unit: string;
   category: string;
+  quantityMax?: number;
+  packageSize?: { quantity: number; unit: string };
+  preparation?: string;
+  note?: string;
+  optional?: boolean;
+  section?: string;
 }
 
 interface IngredientsSectionProps {
   ingredients: Ingredient[];
   originalServings: number;
+  unitSystem?: UnitSystem;
+  /** Pan the recipe calls for, enabling pan size scaling */
+  recipePan?: PanSize | null;
+  onScaleChange?: (scale: number) => void;
   onAddToShoppingList?: (ingredientIndexes: number[]) => void;
 }
 
 export function IngredientsSection({
   ingredients,
   originalServings,
+  unitSystem,
+  recipePan,
+  onScaleChange,
   onAddToShoppingList,
 }: IngredientsSectionProps) {
   const [servings, setServings] = useState(originalServings);
+  const [panId, setPanId] = useState(recipePan?.id);
   const [isSelectMode, setIsSelectMode] = useState(false);
   const [selectedIndexes, setSelectedIndexes] = useState<number[]>([]);
 
   // Calculate scale factor for ingredients
-  const scaleFactor = servings / originalServings;
+  const scaleFactor =
+    getScaleFactor(originalServings, servings) *
+    (recipePan && panId ? getPanScaleFactor(recipePan.id, panId) ?? 1 : 1);
 
-  // Scale ingredients based on current serving count
+  useEffect(() => {
+    onScaleChange?.(scaleFactor);
+  }, [scaleFactor, onScaleChange]);
+
+  // Scale ingredients to practical amounts in the preferred unit system
   const scaledIngredients = useMemo(() => {
-    return ingredients.map((ing) => ({
-      ...ing,
-      quantity: Math.round(ing.quantity * scaleFactor * 100) / 100,
-    }));
-  }, [ingredients, scaleFactor]);
+    return ingredients.map((ing) => {
+      const scaled = scaleIngredient(ing, scaleFactor, { unitSystem });
+
+      // Approximate weight for volume measures (metric cooks weigh)
+      const grams =
+        unitSystem === "metric" && getUnitGroup(scaled.unit) === "volume"
+          ? convertWithDensity(scaled.quantity, scaled.unit, "g", normalizeIngredientName(ing.name))
+          : null;
+
+      return {
+        ...scaled,
+        approximateGrams: grams !== null ? Math.round(grams) : null,
+      };
+    });
+  }, [ingredients, scaleFactor, unitSystem]);
 
   const toggleSelection = (index: number) => {
     setSelectedIndexes((prev) =>
@@ -76,37 +123,75 @@ export function IngredientsSection({
         <ServingAdjuster value={servings} onChange={setServings} />
       </View>
 
+      {/* Pan Size */}
+      {recipePan && panId && (
+        <PanSizeScaler recipePan={recipePan} selectedPanId={panId} onChange={setPanId} />
+      )}
+
       {/* Ingredients List */}
       <View className="rounded-2xl border border-stone-200 bg-white dark:border-stone-700 dark:bg-stone-800">
-        {scaledIngredients.map((ingredient, index) => (
-          <Pressable
-            key={index}
-            onPress={() => isSelectMode && toggleSelection(index)}
-            disabled={!isSelectMode}
-            className={`flex-row items-center gap-3 border-b border-stone-100 px-4 py-3 last:border-b-0 dark:border-stone-700 ${
-              isSelectMode ? "active:bg-stone-50 dark:active:bg-stone-700/50" : ""
-            }`}
-          >
-            {isSelectMode && (
-              <View
-                className={`h-5 w-5 items-center justify-center rounded border-2 ${
-                  selectedIndexes.includes(index)
-                    ? "border-orange-500 bg-orange-500"
-                    : "border-stone-300 dark:border-stone-600"
+        {groupIngredientsBySection(scaledIngredients).map((group, groupIndex) => (
+          <View key={groupIndex}>
+            {group.title && (
+              <Text className="border-b border-stone-100 px-4 pb-2 pt-4 text-sm font-semibold uppercase tracking-wide text-stone-500 dark:border-stone-700 dark:text-stone-400">
+                {group.title}
+              </Text>
+            )}
+            {group.items.map(({ item: ingredient, index }) => (
+              <Pressable
+                key={index}
+                onPress={() => isSelectMode && toggleSelection(index)}
+                disabled={!isSelectMode}
+                className={`flex-row items-center gap-3 border-b border-stone-100 px-4 py-3 last:border-b-0 dark:border-stone-700 ${
+                  isSelectMode ? "active:bg-stone-50 dark:active:bg-stone-700/50" : ""
                 }`}
               >
-                {selectedIndexes.includes(index) && (
-                  <Check className="h-3 w-3 text-white" />
+                {isSelectMode && (
+                  <View
+                    className={`h-5 w-5 items-center justify-center rounded border-2 ${
+                      selectedIndexes.includes(index)
+                        ? "border-orange-500 bg-orange-500"
+                        : "border-stone-300 dark:border-stone-600"
+                    }`}
+                  >
+                    {selectedIndexes.includes(index) && (
+                      <Check className="h-3 w-3 text-white" />
+                    )}
+                  </View>
                 )}
-              </View>
-            )}
-            <Text className="min-w-16 font-mono text-sm text-orange-600 dark:text-orange-400">
-              {ingredient.quantity} {ingredient.unit}
-            </Text>
-            <Text className="flex-1 text-stone-900 dark:text-stone-100">
-              {ingredient.name}
-            </Text>
-          </Pressable>
+                <Text className="min-w-16 font-mono text-sm text-orange-600 dark:text-orange-400">
+                  {formatAmount(ingredient)}
+                </Text>
+                <Text className="flex-1 text-stone-900 dark:text-stone-100">
+                  {ingredient.packageSize &&
+                    `(${ingredient.packageSize.quantity} ${ingredient.packageSize.unit}) `}
+                  {ingredient.name}
+                  {ingredient.preparation && (
+                    <Text className="text-stone-500 dark:text-stone-400">
+                      , {ingredient.preparation}
+                    </Text>
+                  )}
+                  {ingredient.note && (
+                    <Text className="text-stone-500 dark:text-stone-400"> ({ingredient.note})</Text>
+                  )}
+                  {ingredient.optional && (
+                    <Text className="text-xs text-stone-400 dark:text-stone-500"> optional</Text>
+                  )}
+                  {ingredient.warning && (
+                    <Text className="text-xs text-amber-600 dark:text-amber-400">
+                      {" "}
+                      ({ingredient.warning})
+                    </Text>
+                  )}
+                </Text>
+                {ingredient.approximateGrams !== null && (
+                  <Text className="text-xs text-stone-400 dark:text-stone-500">
+                    ≈ {ingredient.approximateGrams} g
+                  </Text>
+                )}
+              </Pressable>
+            ))}
+          </View>
         ))}
       </View>
 
@@ -1,32 +1,47 @@
 /**
  * InstructionsSection Component
  *
- * Displays numbered cooking instructions.
+ * Displays numbered cooking instructions, grouped under their section
+ * headings. Step numbers run across sections.
  */
 
 import { View, Text } from "react-native";
+import {
+  groupInstructionsBySection,
+  type InstructionSection,
+} from "@/convex/lib/recipeSections";
 
 interface InstructionsSectionProps {
   instructions: string[];
+  sections?: InstructionSection[];
 }
 
-export function InstructionsSection({ instructions }: InstructionsSectionProps) {
+export function InstructionsSection({ instructions, sections }: InstructionsSectionProps) {
   return (
     <View className="mt-8">
       <Text className="mb-3 text-lg font-semibold text-stone-900 dark:text-stone-100">
         Instructions
       </Text>
       <View className="gap-4">
-        {instructions.map((step, index) => (
-          <View key={index} className="flex-row gap-4">
-            <View className="h-8 w-8 shrink-0 items-center justify-center rounded-full bg-orange-100 dark:bg-orange-900/50">
-              <Text className="text-sm font-bold text-orange-600 dark:text-orange-400">
-                {index + 1}
+        {groupInstructionsBySection(instructions, sections).map((group, groupIndex) => (
+          <View key={groupIndex} className="gap-4">
+            {group.title && (
+              <Text className="mt-2 text-sm font-semibold uppercase tracking-wide text-stone-500 dark:text-stone-400">
+                {group.title}
               </Text>
-            </View>
-            <Text className="flex-1 pt-1 text-stone-700 dark:text-stone-300 leading-relaxed">
-              {step}
-            </Text>
+            )}
+            {group.items.map(({ item: step, index }) => (
+              <View key={index} className="flex-row gap-4">
+                <View className="h-8 w-8 shrink-0 items-center justify-center rounded-full bg-orange-100 dark:bg-orange-900/50">
+                  <Text className="text-sm font-bold text-orange-600 dark:text-orange-400">
+                    {index + 1}
+                  </Text>
+                </View>
+                <Text className="flex-1 pt-1 text-stone-700 dark:text-stone-300 leading-relaxed">
+                  {step}
+                </Text>
+              </View>
+            ))}
           </View>
         ))}
       </View>
@@ -0,0 +1,215 @@
+/**
+ * LogCookModal Component
+ *
+ * Modal for recording a cook event with servings made, rating, and notes.
+ * Used when finishing cook mode and from the recipe detail "Mark as Cooked" action.
+ */
+
+import { useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  TextInput,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { X, ChefHat, Star, Minus, Plus } from "lucide-react-native";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+
+interface LogCookModalProps {
+  isOpen: boolean;
+  recipeId: Id<"recipes">;
+  defaultServings: number;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+export function LogCookModal({
+  isOpen,
+  recipeId,
+  defaultServings,
+  onClose,
+  onSuccess,
+}: LogCookModalProps) {
+  const [servings, setServings] = useState(defaultServings);
+  const [rating, setRating] = useState<number | null>(null);
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const logCook = useMutation(api.cookLogs.logCook);
+
+  const resetForm = () => {
+    setServings(defaultServings);
+    setRating(null);
+    setNotes("");
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await logCook({
+        recipeId,
+        servingsMade: servings,
+        rating: rating ?? undefined,
+        notes: notes.trim() || undefined,
+      });
+
+      resetForm();
+      onSuccess?.();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to log cook");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={isOpen}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1 bg-white dark:bg-stone-900"
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-stone-200 px-4 py-3 dark:border-stone-700">
+          <View className="flex-row items-center gap-2">
+            <ChefHat className="h-5 w-5 text-orange-500" />
+            <Text className="text-lg font-semibold text-stone-900 dark:text-white">
+              Log This Cook
+            </Text>
+          </View>
+          <Pressable
+            onPress={handleClose}
+            className="h-8 w-8 items-center justify-center rounded-full active:bg-stone-100 dark:active:bg-stone-800"
+          >
+            <X className="h-5 w-5 text-stone-500" />
+          </Pressable>
+        </View>
+
+        {/* Content */}
+        <ScrollView className="flex-1 px-4 py-6">
+          <View className="gap-6">
+            {/* Servings Made */}
+            <View>
+              <Text className="mb-2 text-sm font-medium text-stone-700 dark:text-stone-300">
+                Servings Made
+              </Text>
+              <View className="flex-row items-center gap-4">
+                <Pressable
+                  onPress={() => setServings((s) => Math.max(1, s - 1))}
+                  disabled={servings <= 1}
+                  className="h-10 w-10 items-center justify-center rounded-full bg-stone-100 active:bg-stone-200 dark:bg-stone-800 dark:active:bg-stone-700"
+                >
+                  <Minus className="h-4 w-4 text-stone-600 dark:text-stone-300" />
+                </Pressable>
+                <Text className="w-8 text-center text-xl font-semibold text-stone-900 dark:text-white">
+                  {servings}
+                </Text>
+                <Pressable
+                  onPress={() => setServings((s) => s + 1)}
+                  className="h-10 w-10 items-center justify-center rounded-full bg-stone-100 active:bg-stone-200 dark:bg-stone-800 dark:active:bg-stone-700"
+                >
+                  <Plus className="h-4 w-4 text-stone-600 dark:text-stone-300" />
+                </Pressable>
+              </View>
+            </View>
+
+            {/* Rating */}
+            <View>
+              <Text className="mb-2 text-sm font-medium text-stone-700 dark:text-stone-300">
+                How did it turn out?
+              </Text>
+              <View className="flex-row gap-2">
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <Pressable
+                    key={value}
+                    onPress={() => setRating(rating === value ? null : value)}
+                    className="p-1"
+                  >
+                    <Star
+                      className={`h-8 w-8 ${
+                        rating !== null && value <= rating
+                          ? "fill-amber-400 text-amber-400"
+                          : "text-stone-300 dark:text-stone-600"
+                      }`}
+                    />
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            {/* Notes */}
+            <View>
+              <Text className="mb-2 text-sm font-medium text-stone-700 dark:text-stone-300">
+                Notes
+              </Text>
+              <TextInput
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="e.g., Used less salt, needed 5 more minutes"
+                placeholderTextColor="#9ca3af"
+                multiline
+                numberOfLines={4}
+                textAlignVertical="top"
+                className="min-h-[100px] rounded-xl border border-stone-200 bg-stone-50 px-4 py-3 text-stone-900 dark:border-stone-700 dark:bg-stone-800 dark:text-white"
+              />
+            </View>
+
+            {/* Error Message */}
+            {error && (
+              <View className="rounded-xl bg-red-50 p-3 dark:bg-red-900/30">
+                <Text className="text-sm text-red-600 dark:text-red-400">
+                  {error}
+                </Text>
+              </View>
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Footer */}
+        <View className="flex-row gap-3 border-t border-stone-200 px-4 py-4 dark:border-stone-700">
+          <Pressable
+            onPress={handleClose}
+            className="flex-1 items-center rounded-xl border border-stone-200 py-3 active:bg-stone-50 dark:border-stone-700 dark:active:bg-stone-800"
+          >
+            <Text className="font-semibold text-stone-600 dark:text-stone-400">
+              Cancel
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+            className={`flex-1 items-center rounded-xl py-3 ${
+              isSubmitting
+                ? "bg-stone-300 dark:bg-stone-700"
+                : "bg-orange-500 active:bg-orange-600"
+            }`}
+          >
+            <Text className="font-semibold text-white">
+              {isSubmitting ? "Saving..." : "Mark as Cooked"}
+            </Text>
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
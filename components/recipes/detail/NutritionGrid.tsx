@@ -2,15 +2,26 @@
  * NutritionGrid Component
  *
  * Displays nutrition information in a 4-column grid with colored values.
+ * Values calculated from the ingredients are marked as estimates, with a
+ * link to review which ingredients were counted.
  */
 
-import { View, Text } from "react-native";
+import { View, Text, Pressable } from "react-native";
 
 interface NutritionGridProps {
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
+  fiber?: number;
+  sugar?: number;
+  /** Milligrams */
+  sodium?: number;
+  /** True when estimated from the ingredients */
+  calculated?: boolean;
+  /** Ingredients left out of the estimate */
+  unmatchedCount?: number;
+  onReviewMatches?: () => void;
 }
 
 interface NutritionBadgeProps {
@@ -37,7 +48,19 @@ export function NutritionGrid({
   protein,
   carbs,
   fat,
+  fiber,
+  sugar,
+  sodium,
+  calculated,
+  unmatchedCount = 0,
+  onReviewMatches,
 }: NutritionGridProps) {
+  const details = [
+    fiber !== undefined && `Fiber ${fiber}g`,
+    sugar !== undefined && `Sugar ${sugar}g`,
+    sodium !== undefined && `Sodium ${sodium}mg`,
+  ].filter(Boolean);
+
   return (
     <View>
       <Text className="mb-3 text-lg font-semibold text-stone-900 dark:text-stone-100">
@@ -69,6 +92,25 @@ export function NutritionGrid({
           color="text-green-500"
         />
       </View>
+      {details.length > 0 && (
+        <Text className="mt-2 text-sm text-stone-600 dark:text-stone-300">
+          {details.join(" · ")}
+        </Text>
+      )}
+      {calculated && (
+        <View className="mt-2 flex-row flex-wrap items-center gap-x-2">
+          <Text className="text-xs text-stone-500 dark:text-stone-400">
+            Estimated from ingredients
+            {unmatchedCount > 0 &&
+              ` · ${unmatchedCount} ${unmatchedCount === 1 ? "ingredient" : "ingredients"} not counted`}
+          </Text>
+          {onReviewMatches && (
+            <Pressable onPress={onReviewMatches} hitSlop={8}>
+              <Text className="text-xs font-medium text-orange-500">Review</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
     </View>
   );
 }
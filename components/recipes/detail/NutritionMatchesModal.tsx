@@ -0,0 +1,240 @@
+/**
+ * NutritionMatchesModal Component
+ *
+ * Lists how each ingredient was counted in the recipe's estimated nutrition
+ * and lets the user pick a different reference food, leave an ingredient
+ * out, or go back to automatic matching.
+ */
+
+import { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  TextInput,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { X, Apple, ChevronLeft, Search } from "lucide-react-native";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  calculateNutrition,
+  type IngredientNutrition,
+  type IngredientNutritionStatus,
+  type NutritionIngredient,
+  type NutritionMatch,
+} from "@/convex/lib/nutritionCalculator";
+import { searchNutrientFoods } from "@/convex/lib/nutrientTable";
+
+interface NutritionMatchesModalProps {
+  isOpen: boolean;
+  recipeId: Id<"recipes">;
+  ingredients: NutritionIngredient[];
+  servings: number;
+  matches?: NutritionMatch[];
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<IngredientNutritionStatus, string> = {
+  matched: "",
+  unmatched: "No match",
+  unconverted: "Amount can't be weighed",
+  excluded: "Not counted",
+  skipped: "Skipped (optional or to taste)",
+};
+
+export function NutritionMatchesModal({
+  isOpen,
+  recipeId,
+  ingredients,
+  servings,
+  matches,
+  onClose,
+}: NutritionMatchesModalProps) {
+  const [selected, setSelected] = useState<IngredientNutrition | null>(null);
+  const [query, setQuery] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setNutritionMatch = useMutation(api.recipes.setNutritionMatch);
+
+  const calculation = useMemo(
+    () => calculateNutrition(ingredients, servings, matches),
+    [ingredients, servings, matches]
+  );
+  const foods = useMemo(() => searchNutrientFoods(query), [query]);
+
+  const handleBack = () => {
+    setSelected(null);
+    setQuery("");
+    setError(null);
+  };
+
+  const handleClose = () => {
+    handleBack();
+    onClose();
+  };
+
+  const handleChoose = async (foodId: string | null | undefined) => {
+    if (!selected) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await setNutritionMatch({ id: recipeId, ingredient: selected.name, foodId });
+      handleBack();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update match");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={isOpen}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1 bg-white dark:bg-stone-900"
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-stone-200 px-4 py-3 dark:border-stone-700">
+          <View className="flex-1 flex-row items-center gap-2">
+            {selected ? (
+              <Pressable
+                onPress={handleBack}
+                className="h-8 w-8 items-center justify-center rounded-full active:bg-stone-100 dark:active:bg-stone-800"
+              >
+                <ChevronLeft className="h-5 w-5 text-stone-500" />
+              </Pressable>
+            ) : (
+              <Apple className="h-5 w-5 text-orange-500" />
+            )}
+            <Text
+              className="flex-1 text-lg font-semibold text-stone-900 dark:text-white"
+              numberOfLines={1}
+            >
+              {selected ? selected.name : "Nutrition Matches"}
+            </Text>
+          </View>
+          <Pressable
+            onPress={handleClose}
+            className="h-8 w-8 items-center justify-center rounded-full active:bg-stone-100 dark:active:bg-stone-800"
+          >
+            <X className="h-5 w-5 text-stone-500" />
+          </Pressable>
+        </View>
+
+        {selected ? (
+          <>
+            {/* Food Search */}
+            <View className="flex-row items-center gap-2 border-b border-stone-200 px-4 py-3 dark:border-stone-700">
+              <Search className="h-4 w-4 text-stone-400" />
+              <TextInput
+                value={query}
+                onChangeText={setQuery}
+                placeholder="Search foods"
+                placeholderTextColor="#9ca3af"
+                autoFocus
+                className="flex-1 text-base text-stone-900 dark:text-white"
+              />
+            </View>
+
+            {error && (
+              <View className="mx-4 mt-3 rounded-xl bg-red-50 p-3 dark:bg-red-900/30">
+                <Text className="text-sm text-red-600 dark:text-red-400">{error}</Text>
+              </View>
+            )}
+
+            <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+              <Pressable
+                onPress={() => handleChoose(undefined)}
+                disabled={isSaving}
+                className="border-b border-stone-100 px-4 py-3 active:bg-stone-50 dark:border-stone-800 dark:active:bg-stone-800"
+              >
+                <Text className="font-medium text-orange-500">Match automatically</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => handleChoose(null)}
+                disabled={isSaving}
+                className="border-b border-stone-100 px-4 py-3 active:bg-stone-50 dark:border-stone-800 dark:active:bg-stone-800"
+              >
+                <Text className="font-medium text-stone-600 dark:text-stone-300">
+                  Don't count this ingredient
+                </Text>
+              </Pressable>
+              {foods.map((food) => (
+                <Pressable
+                  key={food.id}
+                  onPress={() => handleChoose(food.id)}
+                  disabled={isSaving}
+                  className="flex-row items-center justify-between border-b border-stone-100 px-4 py-3 active:bg-stone-50 dark:border-stone-800 dark:active:bg-stone-800"
+                >
+                  <Text
+                    className={`text-base ${
+                      selected.food?.id === food.id
+                        ? "font-semibold text-orange-500"
+                        : "text-stone-900 dark:text-white"
+                    }`}
+                  >
+                    {food.name}
+                  </Text>
+                  <Text className="text-xs text-stone-500 dark:text-stone-400">
+                    {food.per100g.calories} kcal/100g
+                  </Text>
+                </Pressable>
+              ))}
+            </ScrollView>
+          </>
+        ) : (
+          <ScrollView className="flex-1">
+            <Text className="px-4 py-3 text-sm text-stone-500 dark:text-stone-400">
+              Nutrition is estimated from a built-in food table. Tap an ingredient to
+              change the food it's counted as.
+            </Text>
+            {calculation.ingredients.map((result) => (
+              <Pressable
+                key={result.index}
+                onPress={() => setSelected(result)}
+                className="border-b border-stone-100 px-4 py-3 active:bg-stone-50 dark:border-stone-800 dark:active:bg-stone-800"
+              >
+                <View className="flex-row items-center justify-between gap-3">
+                  <Text
+                    className="flex-1 text-base text-stone-900 dark:text-white"
+                    numberOfLines={1}
+                  >
+                    {result.name}
+                  </Text>
+                  {result.grams !== null && (
+                    <Text className="text-xs text-stone-500 dark:text-stone-400">
+                      {Math.round(result.grams)}g
+                    </Text>
+                  )}
+                </View>
+                <Text
+                  className={`mt-0.5 text-sm ${
+                    result.status === "unmatched" || result.status === "unconverted"
+                      ? "text-red-500"
+                      : "text-stone-500 dark:text-stone-400"
+                  }`}
+                >
+                  {[result.food?.name, STATUS_LABELS[result.status], result.corrected && "Corrected"]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * PanSizeScaler Component
+ *
+ * Lets the user bake in a different pan than the recipe calls for.
+ * Shows the recipe's pan and a row of pans to switch to; ingredient
+ * amounts scale by the ratio of the pans' areas.
+ */
+
+import { useState } from "react";
+import { View, Text, Pressable, ScrollView } from "react-native";
+import { ChevronDown, ChevronUp } from "lucide-react-native";
+import { PAN_SIZES, type PanSize } from "@/convex/lib/recipeScaling";
+
+interface PanSizeScalerProps {
+  recipePan: PanSize;
+  selectedPanId: string;
+  onChange: (panId: string) => void;
+}
+
+export function PanSizeScaler({ recipePan, selectedPanId, onChange }: PanSizeScalerProps) {
+  const [isExpanded, setIsExpanded] = useState(selectedPanId !== recipePan.id);
+  const selectedPan = PAN_SIZES.find((pan) => pan.id === selectedPanId) ?? recipePan;
+
+  return (
+    <View className="mb-3 rounded-xl bg-stone-100 px-3 py-2 dark:bg-stone-800">
+      <Pressable
+        onPress={() => setIsExpanded((expanded) => !expanded)}
+        className="flex-row items-center justify-between"
+      >
+        <Text className="text-sm text-stone-600 dark:text-stone-300">
+          Pan: <Text className="font-semibold">{selectedPan.label}</Text>
+          {selectedPan.id !== recipePan.id && (
+            <Text className="text-stone-400"> (recipe uses {recipePan.label})</Text>
+          )}
+        </Text>
+        {isExpanded ? (
+          <ChevronUp className="h-4 w-4 text-stone-400" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-stone-400" />
+        )}
+      </Pressable>
+
+      {isExpanded && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          className="mt-2"
+          contentContainerClassName="gap-2"
+        >
+          {PAN_SIZES.map((pan) => (
+            <Pressable
+              key={pan.id}
+              onPress={() => onChange(pan.id)}
+              className={`rounded-full border px-3 py-1.5 ${
+                pan.id === selectedPanId
+                  ? "border-orange-500 bg-orange-500"
+                  : "border-stone-200 bg-white dark:border-stone-700 dark:bg-stone-900"
+              }`}
+            >
+              <Text
+                className={`text-sm ${
+                  pan.id === selectedPanId
+                    ? "font-medium text-white"
+                    : "text-stone-600 dark:text-stone-300"
+                }`}
+              >
+                {pan.label}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * ParentRecipeBanner Component
+ *
+ * Shown on a recipe variation. Links to the recipe it was forked from and
+ * expands to show what the variation changed.
+ */
+
+import { useState } from "react";
+import { View, Text, Pressable } from "react-native";
+import { GitBranch, ChevronDown, ChevronUp } from "lucide-react-native";
+import type { RevisionChange } from "@/convex/lib/recipeRevisions";
+import { RevisionDiff } from "./RevisionDiff";
+
+interface ParentRecipeBannerProps {
+  parentTitle: string;
+  changes: RevisionChange[];
+  onOpenParent: () => void;
+}
+
+export function ParentRecipeBanner({
+  parentTitle,
+  changes,
+  onOpenParent,
+}: ParentRecipeBannerProps) {
+  const [showChanges, setShowChanges] = useState(false);
+
+  return (
+    <View className="mt-6 rounded-2xl border border-orange-200 bg-orange-50 p-4 dark:border-orange-800 dark:bg-orange-900/20">
+      <View className="flex-row items-center gap-2">
+        <GitBranch className="h-5 w-5 text-orange-500" />
+        <Text className="flex-1 text-stone-700 dark:text-stone-200">
+          Variation of{" "}
+          <Text
+            onPress={onOpenParent}
+            className="font-semibold text-orange-600 dark:text-orange-400"
+          >
+            {parentTitle}
+          </Text>
+        </Text>
+      </View>
+
+      <Pressable
+        onPress={() => setShowChanges(!showChanges)}
+        className="mt-3 flex-row items-center gap-1"
+      >
+        <Text className="text-sm font-medium text-orange-600 dark:text-orange-400">
+          {changes.length === 0
+            ? "Same as the original"
+            : `What changed (${changes.length} ${changes.length === 1 ? "field" : "fields"})`}
+        </Text>
+        {changes.length > 0 &&
+          (showChanges ? (
+            <ChevronUp className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+          ) : (
+            <ChevronDown className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+          ))}
+      </Pressable>
+
+      {showChanges && changes.length > 0 && (
+        <View className="mt-3 rounded-xl bg-white p-3 dark:bg-stone-900">
+          <RevisionDiff changes={changes} />
+        </View>
+      )}
+    </View>
+  );
+}
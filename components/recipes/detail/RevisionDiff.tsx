@@ -0,0 +1,112 @@
+/**
+ * RevisionDiff Component
+ *
+ * Shows the field-level changes between two versions of a recipe.
+ * Ingredient and instruction lists are shown line by line with added
+ * lines in green and removed lines struck through in red.
+ */
+
+import { View, Text } from "react-native";
+import type { RevisionChange, RevisionField } from "@/convex/lib/recipeRevisions";
+
+interface RevisionDiffProps {
+  changes: RevisionChange[];
+}
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: "Title",
+  imageUrl: "Photo",
+  servings: "Servings",
+  prepTime: "Prep time",
+  cookTime: "Cook time",
+  ingredients: "Ingredients",
+  instructions: "Instructions",
+  instructionSections: "Step sections",
+  notes: "Notes",
+  nutrition: "Nutrition",
+  cuisineType: "Cuisine",
+  difficulty: "Difficulty",
+  dietaryTags: "Dietary tags",
+};
+
+/**
+ * Format a field value for display
+ */
+function formatValue(field: RevisionField, value: unknown): string {
+  if (value === undefined || value === null || value === "") return "None";
+
+  switch (field) {
+    case "prepTime":
+    case "cookTime":
+      return `${value} min`;
+    case "imageUrl":
+      return "Photo";
+    case "dietaryTags":
+      return (value as string[]).length > 0 ? (value as string[]).join(", ") : "None";
+    case "instructionSections": {
+      const sections = value as { title: string; startIndex: number }[];
+      return sections.length > 0
+        ? sections.map((section) => `${section.title} (from step ${section.startIndex + 1})`).join(", ")
+        : "None";
+    }
+    case "nutrition": {
+      const { calories, protein, carbs, fat } = value as Record<string, number | undefined>;
+      return `${calories ?? 0} cal, ${protein ?? 0}g protein, ${carbs ?? 0}g carbs, ${fat ?? 0}g fat`;
+    }
+    default:
+      return String(value);
+  }
+}
+
+export function RevisionDiff({ changes }: RevisionDiffProps) {
+  if (changes.length === 0) {
+    return (
+      <Text className="text-sm text-stone-500 dark:text-stone-400">
+        No differences.
+      </Text>
+    );
+  }
+
+  return (
+    <View className="gap-4">
+      {changes.map((change) => (
+        <View key={change.field}>
+          <Text className="mb-1 text-xs font-semibold uppercase text-stone-500 dark:text-stone-400">
+            {FIELD_LABELS[change.field]}
+          </Text>
+
+          {change.kind === "list" ? (
+            <View className="gap-1">
+              {change.lines.map((line, index) => (
+                <Text
+                  key={`${line.type}-${index}`}
+                  className={
+                    line.type === "added"
+                      ? "text-sm text-green-700 dark:text-green-400"
+                      : line.type === "removed"
+                        ? "text-sm text-red-600 line-through dark:text-red-400"
+                        : "text-sm text-stone-500 dark:text-stone-400"
+                  }
+                >
+                  {line.type === "added" ? "+ " : line.type === "removed" ? "− " : "  "}
+                  {line.text}
+                </Text>
+              ))}
+            </View>
+          ) : change.field === "imageUrl" ? (
+            <Text className="text-sm text-stone-700 dark:text-stone-300">Photo changed</Text>
+          ) : (
+            <View className="gap-1">
+              <Text className="text-sm text-red-600 line-through dark:text-red-400">
+                {formatValue(change.field, change.before)}
+              </Text>
+              <Text className="text-sm text-green-700 dark:text-green-400">
+                {formatValue(change.field, change.after)}
+              </Text>
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
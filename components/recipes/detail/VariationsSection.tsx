@@ -0,0 +1,63 @@
+/**
+ * VariationsSection Component
+ *
+ * Lists the variations forked from a recipe on its detail screen.
+ */
+
+import { View, Text, Pressable, Image, ScrollView } from "react-native";
+
+interface Variation {
+  _id: string;
+  title: string;
+  imageUrl: string;
+  dietaryTags: string[];
+}
+
+interface VariationsSectionProps {
+  variations: Variation[];
+  onOpenVariation: (id: string) => void;
+}
+
+export function VariationsSection({ variations, onOpenVariation }: VariationsSectionProps) {
+  if (variations.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="mt-6">
+      <Text className="mb-3 text-lg font-semibold text-stone-900 dark:text-stone-100">
+        Variations ({variations.length})
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View className="flex-row gap-3">
+          {variations.map((variation) => (
+            <Pressable
+              key={variation._id}
+              onPress={() => onOpenVariation(variation._id)}
+              className="w-40 overflow-hidden rounded-xl border border-stone-200 bg-white active:opacity-80 dark:border-stone-700 dark:bg-stone-800"
+            >
+              <Image
+                source={{ uri: variation.imageUrl }}
+                className="h-24 w-full"
+                resizeMode="cover"
+              />
+              <View className="p-2">
+                <Text
+                  className="text-sm font-medium text-stone-900 dark:text-stone-100"
+                  numberOfLines={2}
+                >
+                  {variation.title}
+                </Text>
+                {variation.dietaryTags.length > 0 && (
+                  <Text className="mt-0.5 text-xs text-stone-500 dark:text-stone-400" numberOfLines={1}>
+                    {variation.dietaryTags.join(", ")}
+                  </Text>
+                )}
+              </View>
+            </Pressable>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
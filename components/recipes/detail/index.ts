@@ -6,10 +6,17 @@
 
 export { QuickStatsBar } from "./QuickStatsBar";
 export { NutritionGrid } from "./NutritionGrid";
+export { NutritionMatchesModal } from "./NutritionMatchesModal";
 export { ServingAdjuster } from "./ServingAdjuster";
+export { PanSizeScaler } from "./PanSizeScaler";
 export { IngredientsSection } from "./IngredientsSection";
 export { InstructionsSection } from "./InstructionsSection";
 export { YouTubeEmbed } from "./YouTubeEmbed";
 export { DietaryConversionButtons } from "./DietaryConversionButtons";
 export { ActionButtons } from "./ActionButtons";
+export { CookHistorySummary } from "./CookHistorySummary";
+export { LogCookModal } from "./LogCookModal";
 export { InstacartRecipeButton } from "./InstacartRecipeButton";
+export { RevisionDiff } from "./RevisionDiff";
+export { ParentRecipeBanner } from "./ParentRecipeBanner";
+export { VariationsSection } from "./VariationsSection";
@@ -15,6 +15,7 @@ export { IngredientList } from "./IngredientList";
 export { InstructionStep } from "./InstructionStep";
 export { InstructionList } from "./InstructionList";
 export { BulkPasteModal } from "./BulkPasteModal";
+export { SectionHeadingInput } from "./SectionHeadingInput";
 export { ImageSelector } from "./ImageSelector";
 export { DietaryTagSelector } from "./DietaryTagSelector";
 export { NutritionInputs } from "./NutritionInputs";
@@ -0,0 +1,223 @@
+/**
+ * RecipeFilterSheet Component
+ *
+ * Filter button that opens a bottom sheet for cuisine, difficulty,
+ * dietary tag, and max total time filters. Shows the number of active
+ * filters on the button.
+ */
+
+import { useState } from "react";
+import { View, Text, Pressable, Modal, ScrollView } from "react-native";
+import { SlidersHorizontal } from "lucide-react-native";
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export interface RecipeFilters {
+  cuisineType?: string;
+  difficulty?: Difficulty;
+  dietaryTags: string[];
+  maxTotalTime?: number;
+}
+
+export const EMPTY_RECIPE_FILTERS: RecipeFilters = { dietaryTags: [] };
+
+interface RecipeFilterSheetProps {
+  filters: RecipeFilters;
+  onFiltersChange: (filters: RecipeFilters) => void;
+  cuisines: string[];
+  dietaryTags: string[];
+}
+
+const difficultyOptions: { value: Difficulty; label: string }[] = [
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+];
+
+const maxTimeOptions = [15, 30, 45, 60];
+
+/**
+ * Count the filters that are set
+ */
+export function countActiveFilters(filters: RecipeFilters): number {
+  return (
+    (filters.cuisineType ? 1 : 0) +
+    (filters.difficulty ? 1 : 0) +
+    filters.dietaryTags.length +
+    (filters.maxTotalTime !== undefined ? 1 : 0)
+  );
+}
+
+function Chip({
+  label,
+  isActive,
+  onPress,
+}: {
+  label: string;
+  isActive: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className={`rounded-full px-4 py-2 ${
+        isActive ? "bg-orange-500" : "bg-stone-100 dark:bg-stone-800"
+      }`}
+    >
+      <Text
+        className={`text-sm font-medium ${
+          isActive ? "text-white" : "text-stone-600 dark:text-stone-300"
+        }`}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <View className="px-6 pb-5">
+      <Text className="mb-3 text-sm font-semibold uppercase text-stone-500 dark:text-stone-400">
+        {title}
+      </Text>
+      <View className="flex-row flex-wrap gap-2">{children}</View>
+    </View>
+  );
+}
+
+export function RecipeFilterSheet({
+  filters,
+  onFiltersChange,
+  cuisines,
+  dietaryTags,
+}: RecipeFilterSheetProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const toggleDietaryTag = (tag: string) => {
+    const selected = filters.dietaryTags.includes(tag)
+      ? filters.dietaryTags.filter((t) => t !== tag)
+      : [...filters.dietaryTags, tag];
+    onFiltersChange({ ...filters, dietaryTags: selected });
+  };
+
+  return (
+    <>
+      <Pressable
+        onPress={() => setIsOpen(true)}
+        className={`flex-row items-center gap-1 rounded-lg border px-3 py-2 ${
+          activeCount > 0
+            ? "border-orange-500 bg-orange-50 dark:bg-orange-950"
+            : "border-stone-200 bg-white dark:border-stone-700 dark:bg-stone-800"
+        }`}
+      >
+        <SlidersHorizontal
+          className={`h-4 w-4 ${activeCount > 0 ? "text-orange-500" : "text-stone-400"}`}
+        />
+        {activeCount > 0 && (
+          <Text className="text-sm font-medium text-orange-500">{activeCount}</Text>
+        )}
+      </Pressable>
+
+      <Modal
+        visible={isOpen}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsOpen(false)}
+      >
+        <Pressable className="flex-1 bg-black/50" onPress={() => setIsOpen(false)}>
+          <Pressable
+            className="mt-auto max-h-[80%] rounded-t-3xl bg-white dark:bg-stone-900"
+            onPress={(e) => e.stopPropagation()}
+          >
+            <View className="items-center py-4">
+              <View className="h-1 w-10 rounded-full bg-stone-300 dark:bg-stone-600" />
+            </View>
+
+            <View className="flex-row items-center justify-between px-6 pb-4">
+              <Text className="text-lg font-semibold text-stone-900 dark:text-stone-100">
+                Filter Recipes
+              </Text>
+              {activeCount > 0 && (
+                <Pressable onPress={() => onFiltersChange(EMPTY_RECIPE_FILTERS)}>
+                  <Text className="text-sm font-medium text-orange-500">Clear all</Text>
+                </Pressable>
+              )}
+            </View>
+
+            <ScrollView>
+              <Section title="Max Total Time">
+                {maxTimeOptions.map((minutes) => (
+                  <Chip
+                    key={minutes}
+                    label={`${minutes} min`}
+                    isActive={filters.maxTotalTime === minutes}
+                    onPress={() =>
+                      onFiltersChange({
+                        ...filters,
+                        maxTotalTime:
+                          filters.maxTotalTime === minutes ? undefined : minutes,
+                      })
+                    }
+                  />
+                ))}
+              </Section>
+
+              <Section title="Difficulty">
+                {difficultyOptions.map((option) => (
+                  <Chip
+                    key={option.value}
+                    label={option.label}
+                    isActive={filters.difficulty === option.value}
+                    onPress={() =>
+                      onFiltersChange({
+                        ...filters,
+                        difficulty:
+                          filters.difficulty === option.value ? undefined : option.value,
+                      })
+                    }
+                  />
+                ))}
+              </Section>
+
+              {cuisines.length > 0 && (
+                <Section title="Cuisine">
+                  {cuisines.map((cuisine) => (
+                    <Chip
+                      key={cuisine}
+                      label={cuisine}
+                      isActive={filters.cuisineType === cuisine}
+                      onPress={() =>
+                        onFiltersChange({
+                          ...filters,
+                          cuisineType:
+                            filters.cuisineType === cuisine ? undefined : cuisine,
+                        })
+                      }
+                    />
+                  ))}
+                </Section>
+              )}
+
+              {dietaryTags.length > 0 && (
+                <Section title="Dietary">
+                  {dietaryTags.map((tag) => (
+                    <Chip
+                      key={tag}
+                      label={tag}
+                      isActive={filters.dietaryTags.includes(tag)}
+                      onPress={() => toggleDietaryTag(tag)}
+                    />
+                  ))}
+                </Section>
+              )}
+
+              <View className="h-8" />
+            </ScrollView>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
@@ -8,6 +8,12 @@ export { SourceBadge } from "./SourceBadge";
 export { SearchBar } from "./SearchBar";
 export { FilterPills } from "./FilterPills";
 export { SortSelector, type SortOption } from "./SortSelector";
+export {
+  RecipeFilterSheet,
+  EMPTY_RECIPE_FILTERS,
+  countActiveFilters,
+  type RecipeFilters,
+} from "./RecipeFilterSheet";
 export { ViewModeToggle, type ViewMode } from "./ViewModeToggle";
 export { RecipeCard } from "./RecipeCard";
 export { EmptyState } from "./EmptyState";
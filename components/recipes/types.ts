@@ -95,6 +95,8 @@ export interface FormIngredient {
   quantity: string;
   unit: string;
   category: IngredientCategory;
+  /** Section heading the ingredient is listed under */
+  section?: string;
 }
 
 /**
@@ -103,6 +105,8 @@ export interface FormIngredient {
 export interface FormInstruction {
   id: string;
   text: string;
+  /** Section heading the step is listed under */
+  section?: string;
 }
 
 /**
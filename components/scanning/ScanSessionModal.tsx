@@ -292,6 +292,7 @@ export function ScanSessionModal({
             title: p.extractedData.title,
             ingredients: p.extractedData.ingredients,
             instructions: p.extractedData.instructions,
+            instructionSections: p.extractedData.instructionSections,
             servings: p.extractedData.servings,
             prepTime: p.extractedData.prepTime,
             cookTime: p.extractedData.cookTime,
@@ -301,6 +302,7 @@ export function ScanSessionModal({
             title: recipe.title,
             ingredients: recipe.ingredients,
             instructions: recipe.instructions,
+            instructionSections: recipe.instructionSections,
             servings: recipe.servings,
             prepTime: recipe.prepTime,
             cookTime: recipe.cookTime,
@@ -319,6 +321,7 @@ export function ScanSessionModal({
         title: finalRecipe.title,
         ingredients: finalRecipe.ingredients,
         instructions: finalRecipe.instructions,
+        instructionSections: finalRecipe.instructionSections,
         servings: finalRecipe.servings,
         prepTime: finalRecipe.prepTime,
         cookTime: finalRecipe.cookTime,
@@ -25,6 +25,7 @@ import {
   Edit3,
   GripVertical,
 } from "lucide-react-native";
+import { removeStepFromSections } from "@/convex/lib/recipeSections";
 
 import type {
   ScannedRecipeEditFormProps,
@@ -144,10 +145,18 @@ export function ScannedRecipeEditForm({
   }, []);
 
   const handleRemoveInstruction = useCallback((index: number) => {
-    setData((prev) => ({
-      ...prev,
-      instructions: prev.instructions.filter((_, i) => i !== index),
-    }));
+    setData((prev) => {
+      const instructions = prev.instructions.filter((_, i) => i !== index);
+      return {
+        ...prev,
+        instructions,
+        instructionSections: removeStepFromSections(
+          prev.instructionSections,
+          index,
+          instructions.length
+        ),
+      };
+    });
   }, []);
 
   const handleAddInstruction = useCallback(() => {
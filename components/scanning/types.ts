@@ -5,6 +5,7 @@
  */
 
 import type { Id } from "@/convex/_generated/dataModel";
+import type { InstructionSection } from "@/convex/lib/recipeSections";
 
 /**
  * Scan session step states
@@ -32,6 +33,11 @@ export interface ExtractedIngredient {
   quantity: number;
   unit: string;
   category: IngredientCategory;
+  packageSize?: { quantity: number; unit: string };
+  preparation?: string;
+  note?: string;
+  optional?: boolean;
+  section?: string;
 }
 
 /**
@@ -41,6 +47,7 @@ export interface ExtractedRecipeData {
   title: string;
   ingredients: ExtractedIngredient[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   servings: number;
   prepTime: number;
   cookTime: number;
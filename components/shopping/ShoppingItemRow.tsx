@@ -105,6 +105,7 @@ export function ShoppingItemRow({
                     : "text-stone-500 dark:text-stone-400"
                 }`}
               >
+                {item.isApproximate ? "~" : ""}
                 {item.quantity} {item.unit}
               </Text>
               {item.isCustom && (
@@ -114,6 +115,13 @@ export function ShoppingItemRow({
                   </Text>
                 </View>
               )}
+              {item.isApproximate && !item.checked && (
+                <View className="px-1.5 py-0.5 bg-amber-100 dark:bg-amber-900/30 rounded">
+                  <Text className="text-xs font-medium text-amber-700 dark:text-amber-400">
+                    Approx.
+                  </Text>
+                </View>
+              )}
             </View>
 
             {/* Recipe source */}
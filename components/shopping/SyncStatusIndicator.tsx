@@ -2,16 +2,14 @@
  * SyncStatusIndicator Component
  *
  * Shows the current sync status for offline support.
- * Displays synced (green), pending (orange), or offline (gray).
+ * Displays synced (green), pending (orange), offline (gray), or
+ * conflict (amber). Offline and pending show how many changes are
+ * waiting; tapping a conflict shows what happened.
  */
 
-import { View, Text } from "react-native";
+import { Pressable, Text } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import type { SyncStatus } from "@/types/shopping-list";
-
-interface SyncStatusIndicatorProps {
-  status: SyncStatus;
-}
+import type { SyncStatus, SyncStatusIndicatorProps } from "@/types/shopping-list";
 
 const STATUS_CONFIG: Record<
   SyncStatus,
@@ -35,22 +33,32 @@ const STATUS_CONFIG: Record<
     label: "Offline",
     bgColor: "bg-stone-100 dark:bg-stone-700",
   },
+  conflict: {
+    icon: "alert-circle",
+    color: "#f59e0b",
+    label: "Sync conflict",
+    bgColor: "bg-amber-100 dark:bg-amber-900/30",
+  },
 };
 
-export function SyncStatusIndicator({ status }: SyncStatusIndicatorProps) {
+export function SyncStatusIndicator({ status, pendingCount = 0, onPress }: SyncStatusIndicatorProps) {
   const config = STATUS_CONFIG[status];
+  const showCount = pendingCount > 0 && (status === "pending" || status === "offline");
 
   return (
-    <View
+    <Pressable
+      onPress={onPress}
+      disabled={!onPress}
       className={`flex-row items-center gap-1 px-2 py-1 rounded-full ${config.bgColor}`}
+      accessibilityRole={onPress ? "button" : undefined}
     >
       <Ionicons name={config.icon} size={12} color={config.color} />
       <Text
         className="text-xs font-medium"
         style={{ color: config.color }}
       >
-        {config.label}
+        {showCount ? `${config.label} · ${pendingCount}` : config.label}
       </Text>
-    </View>
+    </Pressable>
   );
 }
@@ -2,7 +2,9 @@
  * Network Status Context
  *
  * Provides network connectivity status to components.
- * Triggers offline sync queue processing when connection is restored.
+ * Triggers offline sync queue processing when connection is restored,
+ * retries failed replays after their backoff delay, and exposes conflicts
+ * found while replaying.
  */
 
 import {
@@ -11,31 +13,51 @@ import {
   useState,
   useEffect,
   useCallback,
+  useRef,
   ReactNode,
 } from "react";
 import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
 import {
   processQueue,
+  queueMutation,
   getPendingCount,
+  getNextRetryAt,
+  getSyncConflicts,
+  dismissSyncConflicts,
+  type MutationType,
+  type OfflineMutationPayloads,
+  type QueuedMutation,
+  type ReplayResult,
+  type SyncConflict,
 } from "@/lib/offlineSyncQueue";
 
 interface NetworkStatusContextType {
   isOnline: boolean;
   isOffline: boolean;
   pendingMutationsCount: number;
+  syncConflicts: SyncConflict[];
   refreshPendingCount: () => Promise<void>;
+  queueOfflineMutation: <T extends MutationType>(
+    type: T,
+    payload: OfflineMutationPayloads[T],
+    baseUpdatedAt?: number
+  ) => Promise<void>;
+  dismissConflicts: () => Promise<void>;
 }
 
 const NetworkStatusContext = createContext<NetworkStatusContextType>({
   isOnline: true,
   isOffline: false,
   pendingMutationsCount: 0,
+  syncConflicts: [],
   refreshPendingCount: async () => {},
+  queueOfflineMutation: async () => {},
+  dismissConflicts: async () => {},
 });
 
 interface NetworkStatusProviderProps {
   children: ReactNode;
-  onProcessMutation?: (type: string, payload: unknown) => Promise<void>;
+  onProcessMutation?: (mutation: QueuedMutation) => Promise<ReplayResult | void>;
 }
 
 export function NetworkStatusProvider({
@@ -44,11 +66,14 @@ export function NetworkStatusProvider({
 }: NetworkStatusProviderProps) {
   const [isOnline, setIsOnline] = useState(true);
   const [pendingMutationsCount, setPendingMutationsCount] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Refresh pending mutations count
+  // Refresh pending mutations count and conflicts
   const refreshPendingCount = useCallback(async () => {
     const count = await getPendingCount();
     setPendingMutationsCount(count);
+    setSyncConflicts(await getSyncConflicts());
   }, []);
 
   // Process queued mutations when coming back online
@@ -57,15 +82,44 @@ export function NetworkStatusProvider({
       try {
         const result = await processQueue(onProcessMutation);
         console.log(
-          `Processed ${result.success} mutations, ${result.failed} failed`
+          `Processed ${result.success} mutations, ${result.discarded} discarded, ${result.failed} failed`
         );
         await refreshPendingCount();
+
+        // Retry backed-off mutations once their delay has passed
+        const nextRetryAt = await getNextRetryAt();
+        if (retryTimer.current) clearTimeout(retryTimer.current);
+        if (nextRetryAt !== null) {
+          retryTimer.current = setTimeout(
+            () => handleOnline(),
+            Math.max(0, nextRetryAt - Date.now())
+          );
+        }
       } catch (error) {
         console.error("Failed to process offline queue:", error);
       }
     }
   }, [onProcessMutation, refreshPendingCount]);
 
+  // Queue a mutation made while offline
+  const queueOfflineMutation = useCallback(
+    async <T extends MutationType>(
+      type: T,
+      payload: OfflineMutationPayloads[T],
+      baseUpdatedAt?: number
+    ) => {
+      await queueMutation(type, payload, baseUpdatedAt);
+      await refreshPendingCount();
+    },
+    [refreshPendingCount]
+  );
+
+  // Clear conflicts once the user has seen them
+  const dismissConflicts = useCallback(async () => {
+    await dismissSyncConflicts();
+    setSyncConflicts([]);
+  }, []);
+
   // Subscribe to network status changes
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener((state: NetInfoState) => {
@@ -93,13 +147,29 @@ export function NetworkStatusProvider({
     };
   }, [handleOnline, isOnline, refreshPendingCount]);
 
+  // Replay anything left over from a previous session
+  useEffect(() => {
+    NetInfo.fetch().then((state: NetInfoState) => {
+      if (state.isConnected) {
+        handleOnline();
+      }
+    });
+
+    return () => {
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+    };
+  }, [handleOnline]);
+
   return (
     <NetworkStatusContext.Provider
       value={{
         isOnline,
         isOffline: !isOnline,
         pendingMutationsCount,
+        syncConflicts,
         refreshPendingCount,
+        queueOfflineMutation,
+        dismissConflicts,
       }}
     >
       {children}
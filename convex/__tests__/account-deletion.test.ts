@@ -1,9 +1,19 @@
 /**
  * Account Deletion Tests
  *
- * Tests for account deletion confirmation and execution.
+ * Tests for account deletion confirmation and execution,
+ * and the batched data deletion job.
  */
 
+import {
+  advanceDeletionStep,
+  DELETION_BATCH_SIZE,
+  DELETION_STEPS,
+  getStorageIdFromUrl,
+  isDeletionStalled,
+  STALLED_JOB_MS,
+} from "../lib/accountDeletion";
+
 describe("Account Deletion", () => {
   describe("confirmation dialog", () => {
     it("should show confirmation dialog before deletion", () => {
@@ -86,3 +96,97 @@ describe("Account Deletion", () => {
     });
   });
 });
+
+describe("Account Data Deletion Job", () => {
+  describe("deletion steps", () => {
+    it("should delete the users row last", () => {
+      expect(DELETION_STEPS[DELETION_STEPS.length - 1]).toBe("users");
+    });
+
+    it("should delete chat messages before chat sessions", () => {
+      expect(DELETION_STEPS.indexOf("aiChatMessages")).toBeLessThan(
+        DELETION_STEPS.indexOf("aiChatSessions")
+      );
+    });
+
+    it("should leave the household before deleting meals and lists", () => {
+      expect(DELETION_STEPS.indexOf("householdMembers")).toBeLessThan(
+        DELETION_STEPS.indexOf("plannedMeals")
+      );
+      expect(DELETION_STEPS.indexOf("householdMembers")).toBeLessThan(
+        DELETION_STEPS.indexOf("shoppingLists")
+      );
+    });
+
+    it("should cover every user-owned table", () => {
+      const userOwnedTables = [
+        "householdMembers",
+        "recipes",
+        "cookLogs",
+        "cookbooks",
+        "plannedMeals",
+        "mealPlanDrafts",
+        "mealPlanTemplates",
+        "calendarFeeds",
+        "shoppingLists",
+        "pantryItems",
+        "scanSessions",
+        "physicalCookbooks",
+        "scanHistory",
+        "aiChatMessages",
+        "aiChatSessions",
+        "aiChatUsage",
+        "userFollowedChannels",
+        "dataExports",
+        "users",
+      ];
+
+      for (const table of userOwnedTables) {
+        expect(DELETION_STEPS).toContain(table);
+      }
+    });
+  });
+
+  describe("batching", () => {
+    it("should stay on a step while batches are full", () => {
+      expect(advanceDeletionStep(1, DELETION_BATCH_SIZE)).toEqual({
+        nextStep: 1,
+        isComplete: false,
+      });
+    });
+
+    it("should advance to the next step when a batch is not full", () => {
+      expect(advanceDeletionStep(0, 3)).toEqual({ nextStep: 1, isComplete: false });
+    });
+
+    it("should complete after the last step", () => {
+      expect(advanceDeletionStep(DELETION_STEPS.length - 1, 0)).toEqual({
+        nextStep: DELETION_STEPS.length,
+        isComplete: true,
+      });
+    });
+
+    it("should treat jobs without recent progress as stalled", () => {
+      const now = 1_000_000_000;
+      expect(isDeletionStalled(now - STALLED_JOB_MS - 1, now)).toBe(true);
+      expect(isDeletionStalled(now - 1000, now)).toBe(false);
+    });
+  });
+
+  describe("storage files", () => {
+    it("should extract storage IDs from Convex storage URLs", () => {
+      expect(
+        getStorageIdFromUrl(
+          "https://happy-otter-123.convex.cloud/api/storage/abc-123-def"
+        )
+      ).toBe("abc-123-def");
+    });
+
+    it("should ignore external image URLs", () => {
+      expect(
+        getStorageIdFromUrl("https://i.ytimg.com/vi/xyz/hqdefault.jpg")
+      ).toBeNull();
+      expect(getStorageIdFromUrl(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Calendar Feed Tests
+ *
+ * Tests for building the iCalendar feed of a meal plan, escaping and
+ * folding content lines, slot time validation, and feed tokens.
+ */
+
+import {
+  buildMealPlanCalendar,
+  CalendarMeal,
+  DEFAULT_SLOT_TIMES,
+  escapeIcsText,
+  foldIcsLine,
+  generateFeedToken,
+  getRecipeDeepLink,
+  isValidSlotTime,
+} from "../lib/calendarFeed";
+
+const dinner: CalendarMeal = {
+  _id: "meal1",
+  day: "2026-01-05",
+  slot: "dinner",
+  recipeId: "recipe1",
+  recipeName: "Chili, Beans; Rice",
+  totalMinutes: 75,
+  servings: 4,
+};
+
+const generatedAt = Date.UTC(2026, 0, 1, 9, 30);
+
+describe("Calendar Document", () => {
+  const calendar = buildMealPlanCalendar([dinner], DEFAULT_SLOT_TIMES, generatedAt);
+  const lines = calendar.split("\r\n");
+
+  it("should wrap events in a calendar with CRLF line endings", () => {
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("VERSION:2.0");
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("should start the event at the slot time and last the recipe's total time", () => {
+    expect(lines).toContain("DTSTART:20260105T183000");
+    expect(lines).toContain("DTEND:20260105T194500");
+    expect(lines).toContain("DTSTAMP:20260101T093000Z");
+    expect(lines).toContain("UID:meal1@digero");
+  });
+
+  it("should include the title, total time and a deep link", () => {
+    expect(lines).toContain("SUMMARY:Chili\\, Beans\\; Rice");
+    expect(lines).toContain(`URL:${getRecipeDeepLink("recipe1")}`);
+    expect(calendar.replace(/\r\n /g, "")).toContain("Total time: 1 hr 15 min");
+  });
+
+  it("should use configured slot times and a default length", () => {
+    const result = buildMealPlanCalendar(
+      [{ ...dinner, slot: "breakfast", totalMinutes: undefined, isLeftovers: true }],
+      { ...DEFAULT_SLOT_TIMES, breakfast: "23:45" },
+      generatedAt
+    ).split("\r\n");
+
+    expect(result).toContain("DTSTART:20260105T234500");
+    expect(result).toContain("DTEND:20260106T001500");
+    expect(result.some((line) => line.includes("(leftovers)"))).toBe(true);
+  });
+
+  it("should produce an empty calendar when nothing is planned", () => {
+    const empty = buildMealPlanCalendar([], DEFAULT_SLOT_TIMES, generatedAt);
+    expect(empty).not.toContain("BEGIN:VEVENT");
+  });
+});
+
+describe("Content Lines", () => {
+  it("should escape special characters", () => {
+    expect(escapeIcsText("a,b;c\\d\ne")).toBe("a\\,b\\;c\\\\d\\ne");
+  });
+
+  it("should fold long lines to 75 octets", () => {
+    const folded = foldIcsLine("SUMMARY:" + "x".repeat(200));
+    const parts = folded.split("\r\n");
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every((part) => part.length <= 75)).toBe(true);
+    expect(parts.slice(1).every((part) => part.startsWith(" "))).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe("SUMMARY:" + "x".repeat(200));
+  });
+
+  it("should leave short lines alone", () => {
+    expect(foldIcsLine("BEGIN:VEVENT")).toBe("BEGIN:VEVENT");
+  });
+});
+
+describe("Feed Settings", () => {
+  it("should validate 24-hour slot times", () => {
+    expect(isValidSlotTime("07:30")).toBe(true);
+    expect(isValidSlotTime("23:59")).toBe(true);
+    expect(isValidSlotTime("24:00")).toBe(false);
+    expect(isValidSlotTime("7:30")).toBe(false);
+    expect(isValidSlotTime("12:60")).toBe(false);
+  });
+
+  it("should generate unique URL-safe tokens", () => {
+    const token = generateFeedToken();
+
+    expect(token).toMatch(/^[0-9a-f]{48}$/);
+    expect(generateFeedToken()).not.toBe(token);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Cook History Tests
+ *
+ * Tests for cook log validation, denormalized cook stats,
+ * and the cook history summary.
+ */
+
+import {
+  computeCookStats,
+  formatCookSummary,
+  validateRating,
+  validateServings,
+  type CookLogStatsEntry,
+} from "../lib/cookHistory";
+
+describe("Cook Log Validation", () => {
+  it("should accept whole-number ratings from 1 to 5", () => {
+    expect(() => validateRating(1)).not.toThrow();
+    expect(() => validateRating(5)).not.toThrow();
+    expect(() => validateRating(undefined)).not.toThrow();
+  });
+
+  it("should reject out-of-range or fractional ratings", () => {
+    expect(() => validateRating(0)).toThrow("Rating must be a whole number between 1 and 5");
+    expect(() => validateRating(6)).toThrow();
+    expect(() => validateRating(3.5)).toThrow();
+  });
+
+  it("should require positive servings made", () => {
+    expect(() => validateServings(2)).not.toThrow();
+    expect(() => validateServings(undefined)).not.toThrow();
+    expect(() => validateServings(0)).toThrow("Servings made must be greater than 0");
+  });
+});
+
+describe("Cook Stats", () => {
+  it("should count cook events and find the latest date", () => {
+    const logs: CookLogStatsEntry[] = [
+      { cookedAt: 1000 },
+      { cookedAt: 3000, rating: 5 },
+      { cookedAt: 2000, rating: 4 },
+    ];
+
+    const stats = computeCookStats(logs);
+    expect(stats.timesCooked).toBe(3);
+    expect(stats.lastCookedAt).toBe(3000);
+    expect(stats.averageRating).toBe(4.5);
+  });
+
+  it("should return empty stats when a recipe was never cooked", () => {
+    const stats = computeCookStats([]);
+    expect(stats.timesCooked).toBe(0);
+    expect(stats.lastCookedAt).toBeNull();
+    expect(stats.averageRating).toBeNull();
+  });
+
+  it("should recompute last cooked date after a log is deleted", () => {
+    const logs: CookLogStatsEntry[] = [{ cookedAt: 1000 }, { cookedAt: 3000 }];
+
+    const remaining = logs.filter((log) => log.cookedAt !== 3000);
+    expect(computeCookStats(remaining).lastCookedAt).toBe(1000);
+  });
+});
+
+describe("Cook History Summary", () => {
+  it("should pluralize the cook count", () => {
+    const lastCookedAt = new Date(2026, 9, 3, 12).getTime();
+    expect(formatCookSummary(4, lastCookedAt)).toBe(
+      "Cooked 4 times, last on Oct 3, 2026"
+    );
+    expect(formatCookSummary(1, lastCookedAt)).toBe(
+      "Cooked 1 time, last on Oct 3, 2026"
+    );
+  });
+
+  it("should show a prompt when never cooked", () => {
+    expect(formatCookSummary(0, null)).toBe("You haven't cooked this yet");
+  });
+});
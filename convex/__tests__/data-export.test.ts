@@ -0,0 +1,97 @@
+/**
+ * Data Export Tests
+ *
+ * Tests for building the versioned personal data export document.
+ */
+
+import {
+  buildDataExport,
+  DATA_EXPORT_TTL_MS,
+  DATA_EXPORT_VERSION,
+  getDataExportFileName,
+  UserDataForExport,
+  withoutOwner,
+} from "../lib/dataExport";
+
+const emptyData: UserDataForExport = {
+  profile: null,
+  subscription: null,
+  recipes: [],
+  cookLogs: [],
+  cookbooks: [],
+  physicalCookbooks: [],
+  mealPlan: [],
+  mealPlanTemplates: [],
+  shoppingLists: [],
+  pantry: [],
+  chatSessions: [],
+};
+
+describe("Data Export Document", () => {
+  it("should include format, version, owner, and export timestamp", () => {
+    const exportedAt = Date.UTC(2026, 9, 19, 12, 0, 0);
+    const document = buildDataExport("user_123", emptyData, exportedAt);
+
+    expect(document.format).toBe("digero-data-export");
+    expect(document.version).toBe(DATA_EXPORT_VERSION);
+    expect(document.userId).toBe("user_123");
+    expect(document.exportedAt).toBe("2026-10-19T12:00:00.000Z");
+  });
+
+  it("should preserve manual cookbook order", () => {
+    const document = buildDataExport(
+      "user_123",
+      {
+        ...emptyData,
+        cookbooks: [
+          {
+            name: "Weeknight",
+            recipes: [
+              { recipeId: "r3", position: 2, dateAdded: 3 },
+              { recipeId: "r1", position: 0, dateAdded: 1 },
+              { recipeId: "r2", position: 1, dateAdded: 2 },
+            ],
+          },
+        ],
+      },
+      Date.now()
+    );
+
+    expect(document.cookbooks[0].recipes.map((r) => r.recipeId)).toEqual([
+      "r1",
+      "r2",
+      "r3",
+    ]);
+  });
+
+  it("should survive a JSON round trip", () => {
+    const document = buildDataExport(
+      "user_123",
+      {
+        ...emptyData,
+        recipes: [{ title: "Soup", ingredients: [], nutrition: { calories: 200 } }],
+      },
+      Date.now()
+    );
+
+    expect(JSON.parse(JSON.stringify(document))).toEqual(document);
+  });
+});
+
+describe("Data Export Helpers", () => {
+  it("should strip the owning userId from documents", () => {
+    expect(withoutOwner({ userId: "user_123", title: "Soup" })).toEqual({
+      title: "Soup",
+    });
+  });
+
+  it("should name the file by export date", () => {
+    expect(getDataExportFileName(Date.UTC(2026, 0, 5))).toBe(
+      "digero-export-2026-01-05.json"
+    );
+  });
+
+  it("should expire the download link after a short window", () => {
+    expect(DATA_EXPORT_TTL_MS).toBeLessThanOrEqual(60 * 60 * 1000);
+  });
+});
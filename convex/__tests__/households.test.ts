@@ -0,0 +1,69 @@
+/**
+ * Household Tests
+ *
+ * Tests for invite codes, invite expiry and picking the next owner.
+ */
+
+import {
+  generateInviteCode,
+  normalizeInviteCode,
+  isInviteExpired,
+  pickNextOwner,
+  INVITE_TTL_MS,
+} from "../lib/households";
+
+describe("households", () => {
+  describe("generateInviteCode", () => {
+    it("should generate codes in XXXX-XXXX format", () => {
+      expect(generateInviteCode()).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    });
+
+    it("should not use easily confused characters", () => {
+      for (let i = 0; i < 50; i++) {
+        expect(generateInviteCode()).not.toMatch(/[01OIL]/);
+      }
+    });
+
+    it("should generate different codes", () => {
+      expect(generateInviteCode()).not.toBe(generateInviteCode());
+    });
+  });
+
+  describe("normalizeInviteCode", () => {
+    it("should ignore case, spaces and dashes", () => {
+      expect(normalizeInviteCode("k7qm 4xpa")).toBe("K7QM-4XPA");
+      expect(normalizeInviteCode(" K7QM4XPA ")).toBe("K7QM-4XPA");
+      expect(normalizeInviteCode("k7qm-4xpa")).toBe("K7QM-4XPA");
+    });
+
+    it("should not add a dash to codes of the wrong length", () => {
+      expect(normalizeInviteCode("abc")).toBe("ABC");
+    });
+  });
+
+  describe("isInviteExpired", () => {
+    it("should be valid until it expires", () => {
+      const now = Date.now();
+      const invite = { expiresAt: now + INVITE_TTL_MS };
+
+      expect(isInviteExpired(invite, now)).toBe(false);
+      expect(isInviteExpired(invite, now + INVITE_TTL_MS)).toBe(true);
+    });
+  });
+
+  describe("pickNextOwner", () => {
+    it("should pick the longest-standing member", () => {
+      const members = [
+        { userId: "b", joinedAt: 300 },
+        { userId: "c", joinedAt: 100 },
+        { userId: "d", joinedAt: 200 },
+      ];
+
+      expect(pickNextOwner(members)?.userId).toBe("c");
+    });
+
+    it("should return null when no one is left", () => {
+      expect(pickNextOwner([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Ingredient Density Tests
+ *
+ * Tests for weight/volume conversion via the density table and
+ * approximate combining of mixed measures during aggregation.
+ */
+
+import {
+  convertWithDensity,
+  getIngredientDensity,
+  hasKnownDensity,
+} from "../lib/ingredientDensity";
+import {
+  aggregateIngredients,
+  RecipeWithIngredients,
+} from "../lib/ingredientAggregation";
+import { Id } from "../_generated/dataModel";
+
+const recipeA = "recipeA" as Id<"recipes">;
+const recipeB = "recipeB" as Id<"recipes">;
+
+function recipe(
+  recipeId: Id<"recipes">,
+  ingredients: RecipeWithIngredients["ingredients"]
+): RecipeWithIngredients {
+  return { recipeId, recipeName: String(recipeId), ingredients };
+}
+
+describe("Density Table", () => {
+  it("should know common baking ingredients", () => {
+    expect(getIngredientDensity("flour")).toBe(120);
+    expect(hasKnownDensity("butter")).toBe(true);
+    expect(hasKnownDensity("milk")).toBe(true);
+    expect(hasKnownDensity("rice")).toBe(true);
+  });
+
+  it("should not guess densities for unknown ingredients", () => {
+    expect(getIngredientDensity("chicken breast")).toBeNull();
+  });
+});
+
+describe("Density Conversion", () => {
+  it("should convert volume to weight", () => {
+    expect(convertWithDensity(2, "cups", "g", "flour")).toBeCloseTo(240);
+    expect(convertWithDensity(1, "tbsp", "g", "butter")).toBeCloseTo(14.19, 1);
+  });
+
+  it("should convert weight to volume", () => {
+    expect(convertWithDensity(200, "g", "cup", "sugar")).toBeCloseTo(1);
+  });
+
+  it("should return null for unknown ingredients or same-group units", () => {
+    expect(convertWithDensity(1, "cup", "g", "chicken")).toBeNull();
+    expect(convertWithDensity(1, "cup", "tbsp", "flour")).toBeNull();
+    expect(convertWithDensity(1, "cup", "cloves", "flour")).toBeNull();
+  });
+});
+
+describe("Aggregation with Densities", () => {
+  it("should merge cups and grams of flour and flag the result", () => {
+    const result = aggregateIngredients([
+      recipe(recipeA, [
+        { name: "flour", quantity: 2, unit: "cups", category: "pantry" },
+      ]),
+      recipe(recipeB, [
+        { name: "flour", quantity: 240, unit: "g", category: "pantry" },
+      ]),
+    ]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].quantity).toBe(4);
+    expect(result[0].unit).toBe("cups");
+    expect(result[0].isApproximate).toBe(true);
+    expect(result[0].recipeIds).toEqual([recipeA, recipeB]);
+  });
+
+  it("should keep unknown ingredients separate", () => {
+    const result = aggregateIngredients([
+      recipe(recipeA, [
+        { name: "spinach", quantity: 2, unit: "cups", category: "produce" },
+      ]),
+      recipe(recipeB, [
+        { name: "spinach", quantity: 200, unit: "g", category: "produce" },
+      ]),
+    ]);
+
+    expect(result).toHaveLength(2);
+    expect(result.every((item) => !item.isApproximate)).toBe(true);
+  });
+
+  it("should not flag exact same-group combinations", () => {
+    const result = aggregateIngredients([
+      recipe(recipeA, [
+        { name: "butter", quantity: 200, unit: "g", category: "dairy" },
+      ]),
+      recipe(recipeB, [
+        { name: "butter", quantity: 4, unit: "oz", category: "dairy" },
+      ]),
+    ]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].isApproximate).toBe(false);
+  });
+});
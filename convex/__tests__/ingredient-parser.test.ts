@@ -0,0 +1,198 @@
+/**
+ * Ingredient Parser Tests
+ *
+ * Tests for parsing free-text ingredient lines into quantity, unit, name
+ * and the details around them, and for splitting those details out of
+ * already-structured ingredients.
+ */
+
+import { enrichIngredient, parseIngredientText } from "../lib/ingredientParser";
+import { parseQuantityRange, transformAiIngredients } from "../lib/aiRecipeTransform";
+import { formatIngredientLine } from "../lib/recipeExport";
+
+describe("ingredientParser", () => {
+  describe("parseIngredientText", () => {
+    it("should keep the package size of canned goods", () => {
+      expect(parseIngredientText("2 (14 oz) cans diced tomatoes, drained")).toEqual({
+        name: "diced tomatoes",
+        quantity: 2,
+        unit: "cans",
+        category: "produce",
+        packageSize: { quantity: 14, unit: "oz" },
+        preparation: "drained",
+      });
+      expect(parseIngredientText("1 14.5-ounce can black beans")).toMatchObject({
+        quantity: 1,
+        unit: "can",
+        name: "black beans",
+        packageSize: { quantity: 14.5, unit: "ounce" },
+      });
+    });
+
+    it("should parse ranges with any dash or word", () => {
+      expect(parseIngredientText("1–2 tbsp sugar")).toEqual({
+        name: "sugar",
+        quantity: 1,
+        quantityMax: 2,
+        unit: "tbsp",
+        category: "pantry",
+      });
+      expect(parseIngredientText("2 to 3 cloves garlic")).toMatchObject({
+        quantity: 2,
+        quantityMax: 3,
+        unit: "cloves",
+        name: "garlic",
+      });
+      expect(parseIngredientText("1 orange").quantityMax).toBeUndefined();
+    });
+
+    it("should split preparation and the optional flag", () => {
+      expect(parseIngredientText("salt, to taste (optional)")).toEqual({
+        name: "salt",
+        quantity: 0,
+        unit: "",
+        category: "spices",
+        preparation: "to taste",
+        optional: true,
+      });
+      expect(parseIngredientText("Optional: 1/4 cup pecans, toasted")).toMatchObject({
+        quantity: 0.25,
+        name: "pecans",
+        preparation: "toasted",
+        optional: true,
+      });
+      expect(parseIngredientText("fresh parsley, chopped, optional")).toMatchObject({
+        name: "fresh parsley",
+        preparation: "chopped",
+        optional: true,
+      });
+    });
+
+    it("should handle unicode fractions", () => {
+      expect(parseIngredientText("⅔ cup milk")).toMatchObject({ quantity: 2 / 3, unit: "cup" });
+      expect(parseIngredientText("2 ¼ tsp yeast")).toMatchObject({ quantity: 2.25, unit: "tsp" });
+      expect(parseIngredientText("1⅛ cups water").quantity).toBe(1.125);
+    });
+
+    it("should keep other parentheticals as a note", () => {
+      expect(parseIngredientText("1 cup (240 ml) whole milk")).toMatchObject({
+        quantity: 1,
+        unit: "cup",
+        name: "whole milk",
+        note: "240 ml",
+      });
+    });
+
+    it("should keep descriptors and size words in the name", () => {
+      expect(parseIngredientText("2 boneless, skinless chicken breasts, cubed")).toMatchObject({
+        quantity: 2,
+        unit: "",
+        name: "boneless, skinless chicken breasts",
+        preparation: "cubed",
+      });
+      expect(parseIngredientText("3 large eggs")).toMatchObject({
+        quantity: 3,
+        unit: "",
+        name: "large eggs",
+      });
+    });
+
+    it("should read a/an as one", () => {
+      expect(parseIngredientText("a pinch of nutmeg")).toMatchObject({
+        quantity: 1,
+        unit: "pinch",
+        name: "nutmeg",
+      });
+      expect(parseIngredientText("an apple")).toMatchObject({ quantity: 0, name: "an apple" });
+    });
+  });
+
+  describe("exported lines", () => {
+    it("should read back what the exporter writes", () => {
+      for (const line of [
+        "2 (14 oz) cans diced tomatoes, drained",
+        "1-2 tbsp sugar",
+        "1 cup whole milk (240 ml)",
+        "salt, to taste (optional)",
+      ]) {
+        const parsed = parseIngredientText(line);
+        expect(formatIngredientLine(parsed)).toBe(line);
+        expect(parseIngredientText(formatIngredientLine(parsed))).toEqual(parsed);
+      }
+    });
+  });
+
+  describe("enrichIngredient", () => {
+    it("should split details out of a stored name", () => {
+      expect(
+        enrichIngredient({
+          name: "basil (optional - for garnish)",
+          quantity: 1,
+          unit: "item",
+          category: "produce",
+        })
+      ).toEqual({
+        name: "basil",
+        quantity: 1,
+        unit: "item",
+        category: "produce",
+        note: "for garnish",
+        optional: true,
+      });
+    });
+
+    it("should turn a measurement on a container into a package size", () => {
+      expect(
+        enrichIngredient({ name: "coconut milk (13.5 oz)", quantity: 1, unit: "can", category: "pantry" })
+      ).toEqual({
+        name: "coconut milk",
+        quantity: 1,
+        unit: "can",
+        category: "pantry",
+        packageSize: { quantity: 13.5, unit: "oz" },
+      });
+    });
+
+    it("should move a to-taste unit into the preparation", () => {
+      expect(
+        enrichIngredient({ name: "black pepper", quantity: 1, unit: "to taste", category: "spices" })
+      ).toMatchObject({ name: "black pepper", unit: "", preparation: "to taste" });
+    });
+
+    it("should be safe to run twice", () => {
+      const once = enrichIngredient({
+        name: "onion, diced (about 1 cup)",
+        quantity: 1,
+        unit: "",
+        category: "produce" as const,
+      });
+      expect(enrichIngredient(once)).toEqual(once);
+    });
+  });
+
+  describe("AI quantities", () => {
+    it("should parse unicode fractions and ranges", () => {
+      expect(parseQuantityRange("½")).toEqual({ quantity: 0.5 });
+      expect(parseQuantityRange("1-2")).toEqual({ quantity: 1, quantityMax: 2 });
+      expect(parseQuantityRange("a few")).toEqual({ quantity: 1 });
+    });
+
+    it("should keep the optional flag and note as fields", () => {
+      expect(
+        transformAiIngredients([
+          { name: "cilantro", quantity: "1-2", unit: "tbsp", is_optional: true, note: "chopped" },
+        ])
+      ).toEqual([
+        {
+          name: "cilantro",
+          quantity: 1,
+          quantityMax: 2,
+          unit: "tbsp",
+          category: "other",
+          preparation: "chopped",
+          optional: true,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Meal Plan Nutrition Tests
+ *
+ * Tests for daily and weekly nutrition totals, flagging meals without
+ * nutrition, and progress against daily targets.
+ */
+
+import {
+  getTargetProgress,
+  summarizeNutrition,
+  summarizeWeekNutrition,
+} from "../lib/mealNutrition";
+
+const oats = { calories: 300, protein: 10, carbs: 54, fat: 5 };
+const chili = { calories: 550.4, protein: 35, carbs: 40, fat: 22 };
+
+const meal = (
+  _id: string,
+  day: string,
+  nutrition?: typeof oats
+) => ({ _id, day, recipeName: `Recipe ${_id}`, nutrition });
+
+describe("Nutrition Totals", () => {
+  it("should total one serving of each meal", () => {
+    const summary = summarizeNutrition([
+      meal("m1", "2026-01-04", oats),
+      meal("m2", "2026-01-04", chili),
+    ]);
+
+    expect(summary.totals).toEqual({ calories: 850, protein: 45, carbs: 94, fat: 27 });
+    expect(summary.mealCount).toBe(2);
+    expect(summary.missing).toEqual([]);
+  });
+
+  it("should flag meals without nutrition instead of counting zero", () => {
+    const summary = summarizeNutrition([
+      meal("m1", "2026-01-04", oats),
+      meal("m2", "2026-01-04"),
+    ]);
+
+    expect(summary.totals.calories).toBe(300);
+    expect(summary.mealCount).toBe(1);
+    expect(summary.missing).toEqual([{ mealId: "m2", recipeName: "Recipe m2" }]);
+  });
+});
+
+describe("Week Nutrition", () => {
+  const days = ["2026-01-04", "2026-01-05", "2026-01-06"];
+
+  it("should total each day and the week", () => {
+    const result = summarizeWeekNutrition(
+      [
+        meal("m1", "2026-01-04", oats),
+        meal("m2", "2026-01-04", chili),
+        meal("m3", "2026-01-06", chili),
+        meal("m4", "2026-01-11", oats),
+      ],
+      days
+    );
+
+    expect(result.days.map((day) => day.totals.calories)).toEqual([850, 0, 550]);
+    expect(result.week.totals.calories).toBe(1401);
+    expect(result.week.mealCount).toBe(3);
+  });
+
+  it("should average over days with meals", () => {
+    const result = summarizeWeekNutrition(
+      [meal("m1", "2026-01-04", oats), meal("m2", "2026-01-06", oats)],
+      days
+    );
+
+    expect(result.dailyAverage.calories).toBe(300);
+  });
+
+  it("should report missing nutrition per day and for the week", () => {
+    const result = summarizeWeekNutrition(
+      [meal("m1", "2026-01-04"), meal("m2", "2026-01-05", oats)],
+      days
+    );
+
+    expect(result.days[0].missing).toHaveLength(1);
+    expect(result.days[1].missing).toHaveLength(0);
+    expect(result.week.missing.map((m) => m.mealId)).toEqual(["m1"]);
+  });
+});
+
+describe("Target Progress", () => {
+  it("should compare only nutrients with a target", () => {
+    const progress = getTargetProgress(oats, { calories: 2000, protein: 0 });
+
+    expect(progress).toEqual([
+      { nutrient: "calories", value: 300, target: 2000, ratio: 0.15 },
+    ]);
+  });
+
+  it("should return nothing without targets", () => {
+    expect(getTargetProgress(oats, undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Meal Plan Generator Tests
+ *
+ * Tests for "plan my week": dietary restriction matching, the weeknight
+ * time limit, variety rules, and keeping planned or pinned meals.
+ */
+
+import {
+  generateWeekPlan,
+  getWeekDays,
+  inferMealCategory,
+  isWeeknight,
+  meetsDietaryRestrictions,
+  pickRecipeForSlot,
+  PlanCandidate,
+  PlanGeneratorOptions,
+} from "../lib/mealPlanGenerator";
+
+// Sunday, January 4 2026 through Saturday, January 10
+const WEEK = getWeekDays("2026-01-04");
+
+const recipe = (
+  recipeId: string,
+  overrides: Partial<PlanCandidate> = {}
+): PlanCandidate => ({
+  recipeId,
+  title: `Recipe ${recipeId}`,
+  totalTime: 30,
+  dietaryTags: [],
+  ...overrides,
+});
+
+const options = (overrides: Partial<PlanGeneratorOptions> = {}): PlanGeneratorOptions => ({
+  dietaryRestrictions: [],
+  varietyDays: 3,
+  ...overrides,
+});
+
+const first = () => 0;
+
+describe("Week Helpers", () => {
+  it("should list seven consecutive days", () => {
+    expect(WEEK).toEqual([
+      "2026-01-04",
+      "2026-01-05",
+      "2026-01-06",
+      "2026-01-07",
+      "2026-01-08",
+      "2026-01-09",
+      "2026-01-10",
+    ]);
+  });
+
+  it("should treat Monday through Friday as weeknights", () => {
+    expect(WEEK.map(isWeeknight)).toEqual([false, true, true, true, true, true, false]);
+  });
+
+  it("should infer meal categories from titles and tags", () => {
+    expect(inferMealCategory("Blueberry Pancakes", [])).toBe("breakfast");
+    expect(inferMealCategory("Greek Salad", [])).toBe("lunch");
+    expect(inferMealCategory("Chocolate Cake", [])).toBe("snacks");
+    expect(inferMealCategory("Beef Stew", [])).toBe("dinner");
+    expect(inferMealCategory("Anything", ["Lunch"])).toBe("lunch");
+  });
+});
+
+describe("Dietary Restrictions", () => {
+  it("should require every restriction to be tagged", () => {
+    expect(meetsDietaryRestrictions(["vegan", "gluten-free"], ["gluten-free"])).toBe(true);
+    expect(meetsDietaryRestrictions(["vegan"], ["vegan", "nut-free"])).toBe(false);
+    expect(meetsDietaryRestrictions([], [])).toBe(true);
+  });
+
+  it("should normalize tag spelling", () => {
+    expect(meetsDietaryRestrictions(["Gluten Free"], ["gluten-free"])).toBe(true);
+  });
+
+  it("should accept related tags", () => {
+    expect(meetsDietaryRestrictions(["vegan"], ["vegetarian"])).toBe(true);
+    expect(meetsDietaryRestrictions(["keto"], ["low-carb-keto"])).toBe(true);
+    expect(meetsDietaryRestrictions(["vegetarian"], ["vegan"])).toBe(false);
+  });
+});
+
+describe("Slot Picking", () => {
+  it("should skip recipes that break a restriction", () => {
+    const picked = pickRecipeForSlot(
+      [recipe("a"), recipe("b", { dietaryTags: ["vegetarian"] })],
+      WEEK[1],
+      "dinner",
+      [],
+      options({ dietaryRestrictions: ["vegetarian"] }),
+      first
+    );
+
+    expect(picked?.recipeId).toBe("b");
+  });
+
+  it("should limit weeknight dinners to the max time", () => {
+    const candidates = [recipe("slow", { totalTime: 120 }), recipe("quick", { totalTime: 25 })];
+    const limited = options({ maxWeeknightTime: 30 });
+
+    expect(pickRecipeForSlot(candidates, WEEK[1], "dinner", [], limited, first)?.recipeId).toBe(
+      "quick"
+    );
+    // Weekends and other slots are not limited
+    expect(pickRecipeForSlot(candidates, WEEK[0], "dinner", [], limited, first)?.recipeId).toBe(
+      "slow"
+    );
+    expect(pickRecipeForSlot(candidates, WEEK[1], "lunch", [], limited, first)?.recipeId).toBe(
+      "slow"
+    );
+  });
+
+  it("should prefer recipes that fit the slot", () => {
+    const picked = pickRecipeForSlot(
+      [recipe("stew", { title: "Beef Stew" }), recipe("oats", { title: "Overnight Oats" })],
+      WEEK[0],
+      "breakfast",
+      [],
+      options(),
+      first
+    );
+
+    expect(picked?.recipeId).toBe("oats");
+  });
+
+  it("should not repeat a recipe within the variety window", () => {
+    const entries = [{ day: WEEK[1], slot: "lunch", recipeId: "a" }];
+    const candidates = [recipe("a"), recipe("b")];
+
+    expect(
+      pickRecipeForSlot(candidates, WEEK[2], "dinner", entries, options(), first)?.recipeId
+    ).toBe("b");
+    expect(
+      pickRecipeForSlot(candidates, WEEK[5], "dinner", entries, options(), first)?.recipeId
+    ).toBe("a");
+  });
+
+  it("should avoid a recent cuisine in the same slot, relaxing if needed", () => {
+    const entries = [{ day: WEEK[1], slot: "dinner", recipeId: "x", cuisineType: "Mexican" }];
+
+    expect(
+      pickRecipeForSlot(
+        [recipe("tacos", { cuisineType: "mexican" }), recipe("curry", { cuisineType: "Indian" })],
+        WEEK[2],
+        "dinner",
+        entries,
+        options(),
+        first
+      )?.recipeId
+    ).toBe("curry");
+
+    expect(
+      pickRecipeForSlot(
+        [recipe("tacos", { cuisineType: "Mexican" })],
+        WEEK[2],
+        "dinner",
+        entries,
+        options(),
+        first
+      )?.recipeId
+    ).toBe("tacos");
+  });
+
+  it("should pick a different recipe when re-rolling", () => {
+    const picked = pickRecipeForSlot(
+      [recipe("a"), recipe("b")],
+      WEEK[0],
+      "dinner",
+      [],
+      options(),
+      first,
+      "a"
+    );
+
+    expect(picked?.recipeId).toBe("b");
+  });
+
+  it("should return null when nothing fits", () => {
+    expect(
+      pickRecipeForSlot(
+        [recipe("a")],
+        WEEK[0],
+        "dinner",
+        [],
+        options({ dietaryRestrictions: ["vegan"] }),
+        first
+      )
+    ).toBeNull();
+  });
+});
+
+describe("Week Generation", () => {
+  const library = Array.from({ length: 10 }, (_, i) => recipe(`r${i}`));
+
+  it("should fill every requested slot", () => {
+    const { meals, unfilled } = generateWeekPlan(
+      WEEK,
+      ["breakfast", "lunch", "dinner"],
+      library,
+      [],
+      options(),
+      first
+    );
+
+    expect(meals).toHaveLength(21);
+    expect(unfilled).toHaveLength(0);
+    expect(meals[0]).toMatchObject({ day: WEEK[0], slot: "breakfast", title: "Recipe r0" });
+  });
+
+  it("should keep fixed meals and count them for variety", () => {
+    const fixed = [{ day: WEEK[0], slot: "dinner", recipeId: "r0" }];
+    const { meals } = generateWeekPlan(WEEK, ["dinner"], library, fixed, options(), first);
+
+    expect(meals).toHaveLength(6);
+    expect(meals.some((meal) => meal.day === WEEK[0])).toBe(false);
+    expect(meals.find((meal) => meal.day === WEEK[1])?.recipeId).not.toBe("r0");
+  });
+
+  it("should never repeat a recipe within the variety window", () => {
+    const { meals } = generateWeekPlan(
+      WEEK,
+      ["breakfast", "lunch", "dinner"],
+      library,
+      [],
+      options({ varietyDays: 3 }),
+      first
+    );
+
+    for (const meal of meals) {
+      const repeats = meals.filter(
+        (other) =>
+          other !== meal &&
+          other.recipeId === meal.recipeId &&
+          Math.abs(WEEK.indexOf(other.day) - WEEK.indexOf(meal.day)) < 3
+      );
+      expect(repeats).toHaveLength(0);
+    }
+  });
+
+  it("should report slots that couldn't be filled", () => {
+    const { meals, unfilled } = generateWeekPlan(
+      WEEK,
+      ["dinner"],
+      [recipe("only")],
+      [],
+      options({ varietyDays: 7 }),
+      first
+    );
+
+    expect(meals).toHaveLength(1);
+    expect(unfilled).toHaveLength(6);
+    expect(unfilled[0]).toEqual({ day: WEEK[1], slot: "dinner" });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Meal Plan Template Tests
+ *
+ * Tests for saving a week as a template, applying it in overwrite and
+ * merge modes, skipping deleted recipes, and recurrence scheduling.
+ */
+
+import {
+  addDays,
+  buildTemplateMeals,
+  getNextRecurrenceWeek,
+  getWeekStartDay,
+  isRecurrenceDue,
+  planTemplateApplication,
+} from "../lib/mealPlanTemplates";
+
+const planned = (day: string, slot: string, recipeId: string) => ({
+  day,
+  slot,
+  recipeId,
+  recipeName: `Recipe ${recipeId}`,
+});
+
+describe("Date Helpers", () => {
+  it("should add days across month boundaries", () => {
+    expect(addDays("2026-01-30", 3)).toBe("2026-02-02");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+
+  it("should find the Sunday that starts the week", () => {
+    expect(getWeekStartDay("2026-01-07")).toBe("2026-01-04");
+    expect(getWeekStartDay("2026-01-04")).toBe("2026-01-04");
+    expect(getWeekStartDay("2026-01-10")).toBe("2026-01-04");
+  });
+});
+
+describe("Building Templates", () => {
+  it("should key meals by day offset and drop meals outside the week", () => {
+    const meals = buildTemplateMeals(
+      [
+        planned("2026-01-06", "dinner", "b"),
+        planned("2026-01-04", "breakfast", "a"),
+        planned("2026-01-11", "lunch", "c"),
+      ],
+      "2026-01-04"
+    );
+
+    expect(meals).toEqual([
+      { dayOffset: 0, slot: "breakfast", recipeId: "a", recipeName: "Recipe a" },
+      { dayOffset: 2, slot: "dinner", recipeId: "b", recipeName: "Recipe b" },
+    ]);
+  });
+
+  it("should keep servings and leftovers of meals in the same week", () => {
+    const meals = buildTemplateMeals(
+      [
+        { _id: "m1", ...planned("2026-01-04", "dinner", "a"), servings: 6 },
+        { _id: "m2", ...planned("2026-01-05", "lunch", "a"), leftoverOfMealId: "m1" },
+        { _id: "m3", ...planned("2026-01-06", "lunch", "b"), leftoverOfMealId: "old" },
+      ],
+      "2026-01-04"
+    );
+
+    expect(meals[0].servings).toBe(6);
+    expect(meals[1].leftoverOf).toEqual({ dayOffset: 0, slot: "dinner" });
+    expect(meals[2].leftoverOf).toBeUndefined();
+  });
+});
+
+describe("Applying Templates", () => {
+  const template = buildTemplateMeals(
+    [
+      planned("2026-01-04", "breakfast", "a"),
+      planned("2026-01-05", "dinner", "b"),
+      planned("2026-01-06", "dinner", "gone"),
+    ],
+    "2026-01-04"
+  );
+  const available = new Set(["a", "b"]);
+  const existing = [
+    { _id: "m1", day: "2026-01-19", slot: "dinner" },
+    { _id: "m2", day: "2026-01-20", slot: "lunch" },
+  ];
+
+  it("should shift meals to the target week", () => {
+    const { toAdd } = planTemplateApplication(template, "2026-01-18", [], "merge", available);
+
+    expect(toAdd.map((meal) => [meal.day, meal.slot, meal.recipeId])).toEqual([
+      ["2026-01-18", "breakfast", "a"],
+      ["2026-01-19", "dinner", "b"],
+    ]);
+  });
+
+  it("should keep existing meals and fill only empty slots when merging", () => {
+    const result = planTemplateApplication(template, "2026-01-18", existing, "merge", available);
+
+    expect(result.toRemove).toEqual([]);
+    expect(result.toAdd.map((meal) => meal.recipeId)).toEqual(["a"]);
+    expect(result.occupiedCount).toBe(1);
+  });
+
+  it("should replace the week's meals when overwriting", () => {
+    const result = planTemplateApplication(
+      template,
+      "2026-01-18",
+      existing,
+      "overwrite",
+      available
+    );
+
+    expect(result.toRemove).toEqual(["m1", "m2"]);
+    expect(result.toAdd.map((meal) => meal.recipeId)).toEqual(["a", "b"]);
+    expect(result.occupiedCount).toBe(0);
+  });
+
+  it("should skip and report deleted recipes", () => {
+    const result = planTemplateApplication(template, "2026-01-18", [], "merge", available);
+
+    expect(result.missingRecipes).toEqual(["Recipe gone"]);
+    expect(result.toAdd.some((meal) => meal.recipeId === "gone")).toBe(false);
+  });
+});
+
+describe("Recurrence", () => {
+  it("should be due every N weeks from the start week", () => {
+    expect(isRecurrenceDue("2026-01-04", 2, "2026-01-04")).toBe(true);
+    expect(isRecurrenceDue("2026-01-04", 2, "2026-01-11")).toBe(false);
+    expect(isRecurrenceDue("2026-01-04", 2, "2026-01-18")).toBe(true);
+    expect(isRecurrenceDue("2026-01-04", 2, "2025-12-21")).toBe(false);
+  });
+
+  it("should find the next occurrence on or after a week", () => {
+    expect(getNextRecurrenceWeek("2026-01-04", 2, "2025-12-01")).toBe("2026-01-04");
+    expect(getNextRecurrenceWeek("2026-01-04", 2, "2026-01-04")).toBe("2026-01-04");
+    expect(getNextRecurrenceWeek("2026-01-04", 2, "2026-01-11")).toBe("2026-01-18");
+    expect(getNextRecurrenceWeek("2026-01-04", 3, "2026-02-01")).toBe("2026-02-15");
+  });
+});
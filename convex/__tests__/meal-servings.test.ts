@@ -0,0 +1,109 @@
+/**
+ * Meal Servings Tests
+ *
+ * Tests for scaling planned meals to their servings and for "cook once,
+ * eat twice" leftovers when building a shopping list.
+ */
+
+import { Id } from "../_generated/dataModel";
+import { aggregateIngredients } from "../lib/ingredientAggregation";
+import {
+  buildScaledMealRecipes,
+  getPlannedServings,
+  scaleIngredients,
+  ServingsRecipe,
+} from "../lib/mealServings";
+
+const chili: ServingsRecipe = {
+  _id: "chili" as Id<"recipes">,
+  title: "Chili",
+  servings: 4,
+  ingredients: [
+    { name: "ground beef", quantity: 1, unit: "lb", category: "meat" },
+    { name: "kidney beans", quantity: 2, unit: "can", category: "pantry" },
+  ],
+};
+
+const toast: ServingsRecipe = {
+  _id: "toast" as Id<"recipes">,
+  title: "Toast",
+  servings: 2,
+  ingredients: [{ name: "bread", quantity: 2, unit: "slice", category: "bakery" }],
+};
+
+const recipes = new Map<string, ServingsRecipe>([
+  [chili._id, chili],
+  [toast._id, toast],
+]);
+
+describe("Planned Servings", () => {
+  it("should default to the recipe's servings", () => {
+    expect(getPlannedServings({}, chili)).toBe(4);
+    expect(getPlannedServings({ servings: 6 }, chili)).toBe(6);
+  });
+
+  it("should scale ingredient quantities", () => {
+    expect(scaleIngredients(chili.ingredients, 1.5).map((i) => i.quantity)).toEqual([1.5, 3]);
+    expect(scaleIngredients(chili.ingredients, 1)).toBe(chili.ingredients);
+  });
+});
+
+describe("Scaling Meal Plan Recipes", () => {
+  it("should scale each meal to its planned servings", () => {
+    const result = buildScaledMealRecipes(
+      [{ _id: "m1", recipeId: chili._id, servings: 2 }],
+      recipes
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].ingredients.map((i) => i.quantity)).toEqual([0.5, 1]);
+  });
+
+  it("should count the same recipe planned twice", () => {
+    const result = buildScaledMealRecipes(
+      [
+        { _id: "m1", recipeId: toast._id },
+        { _id: "m2", recipeId: toast._id },
+      ],
+      recipes
+    );
+
+    const [bread] = aggregateIngredients(result);
+    expect(bread.quantity).toBe(4);
+  });
+
+  it("should add no ingredients for leftover meals", () => {
+    const result = buildScaledMealRecipes(
+      [
+        { _id: "m1", recipeId: chili._id, servings: 4 },
+        { _id: "m2", recipeId: chili._id, servings: 4, leftoverOfMealId: "m1" },
+      ],
+      recipes
+    );
+
+    expect(result).toHaveLength(1);
+    // Cooked once for both meals
+    expect(result[0].ingredients.map((i) => i.quantity)).toEqual([2, 4]);
+  });
+
+  it("should cook extra for leftovers outside the selection", () => {
+    const leftover = { _id: "m2", recipeId: chili._id, leftoverOfMealId: "m1" };
+    const result = buildScaledMealRecipes(
+      [{ _id: "m1", recipeId: chili._id, servings: 2 }],
+      recipes,
+      [leftover, leftover]
+    );
+
+    // Leftover defaults to the original's servings and is only counted once
+    expect(result[0].ingredients.map((i) => i.quantity)).toEqual([1, 2]);
+  });
+
+  it("should skip leftovers whose original isn't selected", () => {
+    const result = buildScaledMealRecipes(
+      [{ _id: "m2", recipeId: chili._id, leftoverOfMealId: "m1" }],
+      recipes
+    );
+
+    expect(result).toEqual([]);
+  });
+});
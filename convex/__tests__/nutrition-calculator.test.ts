@@ -0,0 +1,165 @@
+/**
+ * Nutrition Calculator Tests
+ *
+ * Tests for matching ingredients to the bundled nutrient table, converting
+ * amounts to grams, and calculating per-serving nutrition on save.
+ */
+
+import {
+  calculateNutrition,
+  getIngredientGrams,
+  getNutritionMatchKey,
+  matchNutrientFood,
+  withCalculatedNutrition,
+} from "../lib/nutritionCalculator";
+import { getNutrientFood, searchNutrientFoods } from "../lib/nutrientTable";
+
+const food = (id: string) => {
+  const result = getNutrientFood(id);
+  if (!result) throw new Error(`Missing food ${id}`);
+  return result;
+};
+
+describe("nutritionCalculator", () => {
+  describe("matching", () => {
+    it("should share a key across plurals and preparation", () => {
+      expect(getNutritionMatchKey("Onions")).toBe(getNutritionMatchKey("onion"));
+      expect(getNutritionMatchKey("Tomatoes")).toBe("tomato");
+    });
+
+    it("should prefer the longest alias", () => {
+      expect(matchNutrientFood("low sodium chicken broth")?.id).toBe("broth");
+      expect(matchNutrientFood("boneless chicken breasts")?.id).toBe("chicken-breast");
+      expect(matchNutrientFood("canned diced tomatoes")?.id).toBe("canned-tomatoes");
+    });
+
+    it("should return null for unknown foods", () => {
+      expect(matchNutrientFood("dragon fruit powder")).toBeNull();
+      expect(matchNutrientFood("")).toBeNull();
+    });
+
+    it("should search by name before aliases", () => {
+      const results = searchNutrientFoods("flour");
+      expect(results[0].name.toLowerCase()).toContain("flour");
+      expect(results.map((f) => f.id)).toContain("flour");
+    });
+  });
+
+  describe("getIngredientGrams", () => {
+    it("should weigh volumes, weights and counts", () => {
+      expect(getIngredientGrams({ name: "flour", quantity: 2, unit: "cups" }, food("flour"))).toBe(240);
+      expect(getIngredientGrams({ name: "butter", quantity: 1, unit: "lb" }, food("butter"))).toBeCloseTo(453.6, 0);
+      expect(getIngredientGrams({ name: "eggs", quantity: 3, unit: "" }, food("egg"))).toBe(150);
+      expect(getIngredientGrams({ name: "garlic", quantity: 2, unit: "cloves" }, food("garlic"))).toBe(6);
+    });
+
+    it("should weigh packages by their size", () => {
+      expect(
+        getIngredientGrams(
+          { name: "diced tomatoes", quantity: 2, unit: "can", packageSize: { quantity: 14, unit: "oz" } },
+          food("canned-tomatoes")
+        )
+      ).toBeCloseTo(793.8, 0);
+    });
+
+    it("should convert a pinch through teaspoons", () => {
+      const tsp = getIngredientGrams({ name: "salt", quantity: 1, unit: "tsp" }, food("salt"))!;
+      expect(getIngredientGrams({ name: "salt", quantity: 1, unit: "pinch" }, food("salt"))).toBeCloseTo(tsp / 16);
+    });
+
+    it("should return null for units it can't weigh", () => {
+      expect(getIngredientGrams({ name: "flour", quantity: 1, unit: "bunch" }, food("flour"))).toBeNull();
+    });
+  });
+
+  describe("calculateNutrition", () => {
+    it("should sum per-serving values and report unmatched ingredients", () => {
+      const result = calculateNutrition(
+        [
+          { name: "sugar", quantity: 1, unit: "cup" },
+          { name: "olive oil", quantity: 100, unit: "g" },
+          { name: "mystery spice blend", quantity: 1, unit: "tsp" },
+          { name: "salt", quantity: 0, unit: "", preparation: "to taste" },
+          { name: "parsley", quantity: 1, unit: "cup", optional: true },
+        ],
+        2
+      );
+
+      expect(result.perServing!.calories).toBeCloseTo((387 * 2 + 884) / 2);
+      expect(result.perServing!.fat).toBeCloseTo(50);
+      expect(result.perServing!.sugar).toBeCloseTo(99.8);
+      expect(result.ingredients.map((i) => i.status)).toEqual([
+        "matched",
+        "matched",
+        "unmatched",
+        "skipped",
+        "skipped",
+      ]);
+      expect(result.unmatched).toEqual(["mystery spice blend"]);
+    });
+
+    it("should apply corrections by ingredient key", () => {
+      const result = calculateNutrition(
+        [
+          { name: "Mystery spice blends", quantity: 100, unit: "g" },
+          { name: "butter", quantity: 100, unit: "g" },
+        ],
+        1,
+        [
+          { ingredient: "mystery spice blend", foodId: "sugar" },
+          { ingredient: "butter", foodId: null },
+        ]
+      );
+
+      expect(result.ingredients.map((i) => [i.status, i.corrected])).toEqual([
+        ["matched", true],
+        ["excluded", true],
+      ]);
+      expect(result.perServing!.calories).toBeCloseTo(387);
+      expect(result.unmatched).toEqual([]);
+    });
+
+    it("should return null when nothing can be counted", () => {
+      expect(calculateNutrition([{ name: "unobtainium", quantity: 1, unit: "cup" }], 4).perServing).toBeNull();
+    });
+  });
+
+  describe("withCalculatedNutrition", () => {
+    const ingredients = [{ name: "flour", quantity: 1, unit: "cup" }];
+
+    it("should add rounded nutrition to recipes without any", () => {
+      const recipe = withCalculatedNutrition({ title: "Bread", ingredients, servings: 4 });
+
+      expect(recipe.nutritionCalculated).toBe(true);
+      expect(recipe.nutrition).toEqual({
+        calories: 109,
+        protein: 3.1,
+        carbs: 22.9,
+        fat: 0.3,
+        fiber: 0.8,
+        sugar: 0.1,
+        sodium: 1,
+      });
+      expect(recipe.unmatchedIngredients).toEqual([]);
+    });
+
+    it("should keep nutrition entered by the user", () => {
+      const nutrition = { calories: 200, protein: 5, carbs: 30, fat: 4 };
+      expect(withCalculatedNutrition({ ingredients, servings: 4, nutrition })).toEqual({
+        ingredients,
+        servings: 4,
+        nutrition,
+      });
+    });
+
+    it("should recalculate nutrition it calculated before", () => {
+      const recipe = withCalculatedNutrition({
+        ingredients,
+        servings: 1,
+        nutrition: { calories: 1, protein: 1, carbs: 1, fat: 1 },
+        nutritionCalculated: true,
+      });
+      expect(recipe.nutrition!.calories).toBe(437);
+    });
+  });
+});
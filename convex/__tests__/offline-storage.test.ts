@@ -0,0 +1,106 @@
+/**
+ * Offline Storage Tests
+ *
+ * Tests for pin keys, LRU eviction with pinned recipes, image file names
+ * and shared image cleanup used by offline pinning.
+ */
+
+import {
+  formatStorageSize,
+  getImageFileName,
+  getPinKey,
+  getUnreferencedImages,
+  isDownloadableImage,
+  selectEvictions,
+} from "../lib/offlineStorage";
+
+describe("offlineStorage", () => {
+  describe("getPinKey", () => {
+    it("should combine kind and target", () => {
+      expect(getPinKey("cookbook", "cb_1")).toBe("cookbook:cb_1");
+      expect(getPinKey("weekPlan", "2026-10-19")).toBe("weekPlan:2026-10-19");
+    });
+  });
+
+  describe("selectEvictions", () => {
+    it("should evict the least recently used recipes over the limit", () => {
+      expect(selectEvictions(["r1", "r2", "r3", "r4"], new Set(), 2)).toEqual(["r3", "r4"]);
+    });
+
+    it("should never evict pinned recipes", () => {
+      const evicted = selectEvictions(["r1", "r2", "r3", "r4"], new Set(["r4"]), 2);
+      expect(evicted).toEqual(["r3"]);
+      expect(evicted).not.toContain("r4");
+    });
+
+    it("should not count pinned recipes toward the limit", () => {
+      expect(selectEvictions(["p1", "r1", "p2", "r2"], new Set(["p1", "p2"]), 2)).toEqual([]);
+    });
+
+    it("should evict nothing under the limit", () => {
+      expect(selectEvictions(["r1"], new Set(), 50)).toEqual([]);
+    });
+  });
+
+  describe("isDownloadableImage", () => {
+    it("should accept http and https URLs", () => {
+      expect(isDownloadableImage("https://example.com/a.jpg")).toBe(true);
+      expect(isDownloadableImage("http://example.com/a.jpg")).toBe(true);
+    });
+
+    it("should reject missing and local URLs", () => {
+      expect(isDownloadableImage(undefined)).toBe(false);
+      expect(isDownloadableImage("")).toBe(false);
+      expect(isDownloadableImage("file:///data/a.jpg")).toBe(false);
+    });
+  });
+
+  describe("getImageFileName", () => {
+    it("should be stable for the same URL", () => {
+      const url = "https://example.com/images/pasta.png";
+      expect(getImageFileName(url)).toBe(getImageFileName(url));
+    });
+
+    it("should differ for different URLs", () => {
+      expect(getImageFileName("https://example.com/a.jpg")).not.toBe(
+        getImageFileName("https://example.com/b.jpg")
+      );
+    });
+
+    it("should keep the image extension and ignore query strings", () => {
+      expect(getImageFileName("https://example.com/a.PNG?w=400")).toMatch(/\.png$/);
+      expect(getImageFileName("https://example.com/a.webp#x")).toMatch(/\.webp$/);
+    });
+
+    it("should default to jpg", () => {
+      expect(getImageFileName("https://example.com/image?id=5")).toMatch(/^[a-z0-9]+\.jpg$/);
+    });
+  });
+
+  describe("getUnreferencedImages", () => {
+    it("should keep images another pin still uses", () => {
+      const removed = { key: "cookbook:a", imageUrls: ["u1", "u2", "u3"] };
+      const remaining = [
+        removed,
+        { key: "weekPlan:2026-10-19", imageUrls: ["u2"] },
+        { key: "cookbook:b", imageUrls: ["u3"] },
+      ];
+
+      expect(getUnreferencedImages(removed, remaining)).toEqual(["u1"]);
+    });
+
+    it("should return each image once", () => {
+      const removed = { key: "cookbook:a", imageUrls: ["u1", "u1"] };
+      expect(getUnreferencedImages(removed, [])).toEqual(["u1"]);
+    });
+  });
+
+  describe("formatStorageSize", () => {
+    it("should format bytes, kilobytes, megabytes and gigabytes", () => {
+      expect(formatStorageSize(0)).toBe("0 B");
+      expect(formatStorageSize(512 * 1024)).toBe("512 KB");
+      expect(formatStorageSize(3.4 * 1024 * 1024)).toBe("3.4 MB");
+      expect(formatStorageSize(2 * 1024 * 1024 * 1024)).toBe("2.00 GB");
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Offline Sync Tests
+ *
+ * Tests for replay ordering, backoff, temp IDs and conflict resolution
+ * used by the offline mutation queue.
+ */
+
+import {
+  BASE_RETRY_DELAY_MS,
+  CONFLICT_RESOLUTIONS,
+  MAX_RETRY_DELAY_MS,
+  getEntityKey,
+  getNextAttemptAt,
+  getRetryDelay,
+  hasConflict,
+  isPermanentSyncError,
+  mergeFieldChanges,
+  rebaseQueuedMutations,
+  resolveTempIds,
+  selectReadyMutations,
+} from "../lib/offlineSync";
+
+describe("offlineSync", () => {
+  describe("hasConflict", () => {
+    it("should detect a server change after the edit", () => {
+      expect(hasConflict(2000, 1000)).toBe(true);
+    });
+
+    it("should not conflict when the server copy is unchanged", () => {
+      expect(hasConflict(1000, 1000)).toBe(false);
+    });
+
+    it("should not conflict when no base is known", () => {
+      expect(hasConflict(2000, undefined)).toBe(false);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should double the delay per attempt", () => {
+      expect(getRetryDelay(1)).toBe(BASE_RETRY_DELAY_MS);
+      expect(getRetryDelay(2)).toBe(BASE_RETRY_DELAY_MS * 2);
+      expect(getRetryDelay(3)).toBe(BASE_RETRY_DELAY_MS * 4);
+    });
+
+    it("should cap the delay", () => {
+      expect(getRetryDelay(30)).toBe(MAX_RETRY_DELAY_MS);
+    });
+  });
+
+  describe("getEntityKey", () => {
+    it("should key an added item and later edits to it the same", () => {
+      expect(getEntityKey("addShoppingItem", { clientItemId: "temp:1" })).toBe(
+        getEntityKey("setShoppingItemChecked", { itemId: "temp:1" })
+      );
+    });
+
+    it("should key recipe mutations by recipe", () => {
+      expect(getEntityKey("toggleFavorite", { recipeId: "r1" })).toBe(
+        getEntityKey("updateRecipe", { recipeId: "r1" })
+      );
+    });
+  });
+
+  describe("selectReadyMutations", () => {
+    const now = 10_000;
+
+    it("should return ready mutations in queue order", () => {
+      const mutations = [
+        { id: "b", sequence: 2, entityKey: "x", nextAttemptAt: 0 },
+        { id: "a", sequence: 1, entityKey: "y", nextAttemptAt: 0 },
+      ];
+
+      expect(selectReadyMutations(mutations, now).map((m) => m.id)).toEqual(["a", "b"]);
+    });
+
+    it("should hold back later mutations to a document that is backing off", () => {
+      const mutations = [
+        { id: "a", sequence: 1, entityKey: "item:1", nextAttemptAt: now + 5000 },
+        { id: "b", sequence: 2, entityKey: "item:1", nextAttemptAt: 0 },
+        { id: "c", sequence: 3, entityKey: "item:2", nextAttemptAt: 0 },
+      ];
+
+      expect(selectReadyMutations(mutations, now).map((m) => m.id)).toEqual(["c"]);
+    });
+  });
+
+  describe("rebaseQueuedMutations", () => {
+    it("should not let a chained edit conflict with the replay before it", () => {
+      const mutations = [
+        { id: "a", sequence: 1, entityKey: "plannedMeal:1", nextAttemptAt: 0, baseUpdatedAt: 1000 },
+        { id: "b", sequence: 2, entityKey: "plannedMeal:1", nextAttemptAt: 0, baseUpdatedAt: 1000 },
+        { id: "c", sequence: 3, entityKey: "plannedMeal:2", nextAttemptAt: 0, baseUpdatedAt: 1000 },
+      ];
+
+      // "a" replays and the server copy is now at 2000
+      const remaining = rebaseQueuedMutations(mutations.slice(1), "plannedMeal:1", 2000);
+
+      expect(remaining.map((m) => m.baseUpdatedAt)).toEqual([2000, 1000]);
+      expect(hasConflict(2000, remaining[0].baseUpdatedAt)).toBe(false);
+    });
+
+    it("should leave mutations without a base alone", () => {
+      const mutations = [{ id: "a", sequence: 1, entityKey: "shoppingItem:temp:1", nextAttemptAt: 0 }];
+
+      expect(rebaseQueuedMutations(mutations, "shoppingItem:temp:1", 2000)).toEqual(mutations);
+    });
+  });
+
+  describe("getNextAttemptAt", () => {
+    it("should return the earliest retry time", () => {
+      expect(
+        getNextAttemptAt([
+          { id: "a", sequence: 1, entityKey: "x", nextAttemptAt: 500 },
+          { id: "b", sequence: 2, entityKey: "y", nextAttemptAt: 200 },
+        ])
+      ).toBe(200);
+    });
+
+    it("should return null for an empty queue", () => {
+      expect(getNextAttemptAt([])).toBeNull();
+    });
+  });
+
+  describe("isPermanentSyncError", () => {
+    it("should give up on missing documents and lost access", () => {
+      expect(isPermanentSyncError("Item not found")).toBe(true);
+      expect(isPermanentSyncError("You do not have permission to update this item")).toBe(true);
+      expect(isPermanentSyncError("Cannot update items in an archived list")).toBe(true);
+    });
+
+    it("should retry network errors", () => {
+      expect(isPermanentSyncError("Network request failed")).toBe(false);
+    });
+  });
+
+  describe("resolveTempIds", () => {
+    it("should replace temp IDs with server IDs", () => {
+      expect(
+        resolveTempIds({ itemId: "temp:1", checked: true }, { "temp:1": "item_abc" })
+      ).toEqual({ itemId: "item_abc", checked: true });
+    });
+
+    it("should keep the client ID of an add", () => {
+      expect(resolveTempIds({ clientItemId: "temp:1", name: "Milk" }, {})).toEqual({
+        clientItemId: "temp:1",
+        name: "Milk",
+      });
+    });
+
+    it("should return null when the temp document was never created", () => {
+      expect(resolveTempIds({ itemId: "temp:1" }, {})).toBeNull();
+    });
+  });
+
+  describe("mergeFieldChanges", () => {
+    it("should apply fields the server hasn't changed", () => {
+      const current = { quantity: 1, unit: "kg" };
+      const result = mergeFieldChanges({ quantity: 3 }, { quantity: 1 }, current);
+
+      expect(result.patch).toEqual({ quantity: 3 });
+      expect(result.conflictingFields).toEqual([]);
+    });
+
+    it("should keep server values for fields changed on both sides", () => {
+      const result = mergeFieldChanges(
+        { quantity: 3, unit: "lb" },
+        { quantity: 1, unit: "kg" },
+        { quantity: 2, unit: "kg" }
+      );
+
+      expect(result.patch).toEqual({ unit: "lb" });
+      expect(result.conflictingFields).toEqual(["quantity"]);
+    });
+
+    it("should not report a conflict when both sides made the same change", () => {
+      const result = mergeFieldChanges({ quantity: 2 }, { quantity: 1 }, { quantity: 2 });
+
+      expect(result.patch).toEqual({});
+      expect(result.conflictingFields).toEqual([]);
+    });
+
+    it("should compare arrays by value", () => {
+      const result = mergeFieldChanges(
+        { instructions: ["Stir", "Serve"] },
+        { instructions: ["Stir"] },
+        { instructions: ["Stir"] }
+      );
+
+      expect(result.patch).toEqual({ instructions: ["Stir", "Serve"] });
+    });
+  });
+
+  describe("CONFLICT_RESOLUTIONS", () => {
+    it("should let checking items off in the store win", () => {
+      expect(CONFLICT_RESOLUTIONS.setShoppingItemChecked).toBe("clientWins");
+    });
+
+    it("should keep meal moves made elsewhere", () => {
+      expect(CONFLICT_RESOLUTIONS.moveMeal).toBe("serverWins");
+    });
+
+    it("should merge edits", () => {
+      expect(CONFLICT_RESOLUTIONS.updateRecipe).toBe("merge");
+      expect(CONFLICT_RESOLUTIONS.updateShoppingItem).toBe("merge");
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Pantry Matching Tests
+ *
+ * Tests for matching recipe ingredients against the pantry, ranking
+ * recipes by pantry coverage, and pantry-aware shopping list generation.
+ */
+
+import { Id } from "../_generated/dataModel";
+import { AggregatedIngredient } from "../lib/ingredientAggregation";
+import {
+  getExpiryStatus,
+  getPantryMatchKey,
+  indexPantry,
+  matchRecipeToPantry,
+  rankRecipesByPantry,
+  subtractPantryStock,
+} from "../lib/pantryMatching";
+
+const ingredient = (name: string, quantity: number, unit: string) => ({
+  name,
+  quantity,
+  unit,
+  category: "other",
+});
+
+describe("Pantry Match Keys", () => {
+  it("should normalize names and fold plurals", () => {
+    expect(getPantryMatchKey("Fresh Tomatoes")).toBe("tomato");
+    expect(getPantryMatchKey("eggs")).toBe("egg");
+    expect(getPantryMatchKey("berries")).toBe("berry");
+    expect(getPantryMatchKey("peaches")).toBe("peach");
+    expect(getPantryMatchKey("garlic, minced")).toBe("garlic");
+    expect(getPantryMatchKey("swiss")).toBe("swiss");
+  });
+});
+
+describe("Recipe Matching", () => {
+  const pantry = indexPantry([
+    { name: "eggs", quantity: 6, unit: "" },
+    { name: "flour", quantity: 1, unit: "cup" },
+    { name: "basil", quantity: 1, unit: "bunch" },
+    { name: "milk", quantity: 0, unit: "cup" },
+  ]);
+
+  it("should cover ingredients the pantry has enough of", () => {
+    const match = matchRecipeToPantry(
+      [ingredient("egg", 2, ""), ingredient("flour", 8, "tbsp")],
+      pantry
+    );
+    expect(match.coverage).toBe(1);
+    expect(match.missing).toEqual([]);
+  });
+
+  it("should report the shortfall when the pantry has too little", () => {
+    const match = matchRecipeToPantry([ingredient("flour", 2, "cups")], pantry);
+    expect(match.missing).toEqual([
+      { name: "flour", quantity: 1, unit: "cups", isPartial: true },
+    ]);
+  });
+
+  it("should count items with incomparable units as covered", () => {
+    const match = matchRecipeToPantry([ingredient("fresh basil", 20, "g")], pantry);
+    expect(match.coveredCount).toBe(1);
+  });
+
+  it("should always cover staples", () => {
+    const match = matchRecipeToPantry(
+      [ingredient("salt", 2, "tsp")],
+      indexPantry([{ name: "salt", quantity: 0, unit: "", alwaysHave: true }])
+    );
+    expect(match.coverage).toBe(1);
+  });
+
+  it("should treat used-up items as missing", () => {
+    const match = matchRecipeToPantry(
+      [ingredient("milk", 1, "cup"), ingredient("sugar", 2, "tbsp")],
+      pantry
+    );
+    expect(match.coverage).toBe(0);
+    expect(match.missing.map((m) => m.name)).toEqual(["milk", "sugar"]);
+  });
+});
+
+describe("Recipe Ranking", () => {
+  it("should rank by coverage, then fewest missing items", () => {
+    const ranked = rankRecipesByPantry(
+      [
+        { title: "Cake", ingredients: [ingredient("flour", 1, "cup"), ingredient("sugar", 1, "cup")] },
+        { title: "Omelette", ingredients: [ingredient("eggs", 3, "")] },
+        { title: "Empty", ingredients: [] },
+        {
+          title: "Pasta",
+          ingredients: [
+            ingredient("flour", 1, "cup"),
+            ingredient("eggs", 2, ""),
+            ingredient("salt", 1, "tsp"),
+            ingredient("oil", 1, "tbsp"),
+          ],
+        },
+      ],
+      [
+        { name: "eggs", quantity: 12, unit: "" },
+        { name: "flour", quantity: 5, unit: "cups" },
+      ]
+    );
+
+    expect(ranked.map((r) => r.title)).toEqual(["Omelette", "Cake", "Pasta"]);
+    expect(ranked[1].match.missing).toHaveLength(1);
+  });
+});
+
+describe("Pantry-Aware Shopping Lists", () => {
+  const recipeId = "recipe_1" as Id<"recipes">;
+  const aggregated = (
+    name: string,
+    quantity: number,
+    unit: string
+  ): AggregatedIngredient => ({
+    name,
+    quantity,
+    unit,
+    category: "Pantry",
+    recipeIds: [recipeId],
+    recipeName: "Pancakes",
+    isApproximate: false,
+  });
+
+  it("should skip staples and fully stocked items", () => {
+    const { items, skipped } = subtractPantryStock(
+      [aggregated("salt", 1, "tsp"), aggregated("eggs", 2, ""), aggregated("milk", 1, "cup")],
+      [
+        { name: "salt", quantity: 0, unit: "", alwaysHave: true },
+        { name: "egg", quantity: 6, unit: "" },
+      ]
+    );
+
+    expect(items.map((i) => i.name)).toEqual(["milk"]);
+    expect(skipped.map((s) => [s.name, s.reason])).toEqual([
+      ["salt", "always_have"],
+      ["eggs", "on_hand"],
+    ]);
+    expect(skipped[1]).toMatchObject({ quantity: 2, recipeIds: [recipeId] });
+  });
+
+  it("should subtract on-hand amounts with unit conversion", () => {
+    const { items, skipped } = subtractPantryStock(
+      [aggregated("flour", 3, "cups")],
+      [{ name: "flour", quantity: 16, unit: "tbsp" }]
+    );
+
+    expect(items[0].quantity).toBe(2);
+    expect(skipped[0]).toMatchObject({ quantity: 1, reason: "partially_on_hand" });
+  });
+
+  it("should keep items whose units can't be compared", () => {
+    const { items, skipped } = subtractPantryStock(
+      [aggregated("basil", 20, "g")],
+      [{ name: "basil", quantity: 1, unit: "bunch" }]
+    );
+
+    expect(items).toHaveLength(1);
+    expect(skipped).toEqual([]);
+  });
+});
+
+describe("Expiry Status", () => {
+  const now = Date.UTC(2026, 9, 19);
+  const day = 24 * 60 * 60 * 1000;
+
+  it("should flag expired and soon-expiring items", () => {
+    expect(getExpiryStatus(undefined, now)).toBeNull();
+    expect(getExpiryStatus(now - day, now)).toBe("expired");
+    expect(getExpiryStatus(now + 2 * day, now)).toBe("expiring");
+    expect(getExpiryStatus(now + 10 * day, now)).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Recipe Duplicate Tests
+ *
+ * Tests for detecting duplicate recipes by source and by similar title
+ * and ingredients, grouping a library's duplicates, and merging notes.
+ */
+
+import { getConvertedRecipeArgs } from "../lib/dietConversion";
+import {
+  compareRecipes,
+  findDuplicateGroups,
+  findDuplicates,
+  findSourceMatch,
+  getIngredientSimilarity,
+  getTitleSimilarity,
+  mergeRecipeNotes,
+} from "../lib/recipeDuplicates";
+
+const bananaBread = [
+  { name: "bananas" },
+  { name: "flour" },
+  { name: "sugar" },
+  { name: "butter" },
+  { name: "eggs" },
+  { name: "baking soda" },
+];
+
+describe("recipeDuplicates", () => {
+  describe("similarity", () => {
+    it("should ignore filler words in titles", () => {
+      expect(getTitleSimilarity("The Best Easy Banana Bread Recipe", "Banana Bread")).toBe(1);
+      expect(getTitleSimilarity("Banana Bread", "Chicken Curry")).toBe(0);
+    });
+
+    it("should compare ingredients by name regardless of plurals", () => {
+      expect(
+        getIngredientSimilarity([{ name: "Eggs" }, { name: "flour" }], [{ name: "egg" }, { name: "Flour" }])
+      ).toBe(1);
+      expect(getIngredientSimilarity([], bananaBread)).toBe(0);
+    });
+  });
+
+  describe("compareRecipes", () => {
+    it("should match the same YouTube video", () => {
+      expect(
+        compareRecipes(
+          { title: "Pasta", youtubeVideoId: "abc123" },
+          { title: "Weeknight Pasta", youtubeVideoId: "abc123" }
+        )
+      ).toEqual({ reason: "youtube", score: 1 });
+    });
+
+    it("should not treat different videos as the same URL", () => {
+      expect(
+        compareRecipes(
+          { title: "Pasta", youtubeVideoId: "abc", sourceUrl: "https://www.youtube.com/watch?v=abc" },
+          { title: "Curry", youtubeVideoId: "xyz", sourceUrl: "https://www.youtube.com/watch?v=xyz" }
+        )
+      ).toBeNull();
+    });
+
+    it("should match the same page ignoring protocol and tracking", () => {
+      expect(
+        compareRecipes(
+          { title: "Chili", sourceUrl: "https://www.example.com/chili/?utm_source=x" },
+          { title: "Texas Chili", sourceUrl: "http://example.com/chili" }
+        )?.reason
+      ).toBe("url");
+    });
+
+    it("should match similar titles with mostly the same ingredients", () => {
+      expect(
+        compareRecipes(
+          { title: "Best Banana Bread", ingredients: bananaBread },
+          { title: "Banana Bread", ingredients: [...bananaBread.slice(0, 5), { name: "vanilla" }] }
+        )?.reason
+      ).toBe("similar");
+    });
+
+    it("should not match similar titles with different ingredients", () => {
+      expect(
+        compareRecipes(
+          { title: "Chicken Soup", ingredients: [{ name: "chicken" }, { name: "carrots" }, { name: "celery" }] },
+          { title: "Chicken Curry", ingredients: [{ name: "chicken" }, { name: "curry paste" }, { name: "coconut milk" }] }
+        )
+      ).toBeNull();
+    });
+
+    it("should require a near-identical title without ingredients", () => {
+      expect(compareRecipes({ title: "Banana Bread" }, { title: "Easy Banana Bread" })?.reason).toBe(
+        "similar"
+      );
+      expect(compareRecipes({ title: "Banana Bread" }, { title: "Banana Muffins" })).toBeNull();
+    });
+  });
+
+  describe("findDuplicates", () => {
+    it("should rank source matches above similar recipes", () => {
+      const existing = [
+        { title: "Banana Bread", ingredients: bananaBread },
+        { title: "Grandma's Loaf", youtubeVideoId: "vid1" },
+        { title: "Lentil Soup" },
+      ];
+
+      const matches = findDuplicates(
+        { title: "Banana Bread", youtubeVideoId: "vid1", ingredients: bananaBread },
+        existing
+      );
+
+      expect(matches.map((match) => match.reason)).toEqual(["youtube", "similar"]);
+      expect(matches[0].recipe).toBe(existing[1]);
+    });
+  });
+
+  describe("findSourceMatch", () => {
+    it("should only match the same video or page", () => {
+      const saved = [
+        { title: "Banana Bread", ingredients: bananaBread },
+        { title: "Chili", sourceUrl: "https://example.com/chili" },
+      ];
+
+      expect(findSourceMatch({ title: "Chili", sourceUrl: "https://example.com/chili/" }, saved)).toBe(
+        saved[1]
+      );
+      expect(findSourceMatch({ title: "Banana Bread", ingredients: bananaBread }, saved)).toBeNull();
+    });
+
+    it("should not match a diet conversion saved as new against its original", () => {
+      const original = {
+        _id: "recipe1",
+        title: "Beef Chili",
+        source: "youtube",
+        sourceUrl: "https://www.youtube.com/watch?v=chili1",
+        youtubeVideoId: "chili1",
+        imageUrl: "https://example.com/chili.jpg",
+        servings: 4,
+        prepTime: 10,
+        cookTime: 60,
+        ingredients: [{ name: "beef", quantity: 1, unit: "lb", category: "meat" }],
+        instructions: ["Brown the beef"],
+        dietaryTags: [],
+      } as unknown as Parameters<typeof getConvertedRecipeArgs>[0];
+
+      const args = getConvertedRecipeArgs(original, {
+        title: "Beef Chili (Vegan)",
+        ingredients: [{ name: "lentils", quantity: 1, unit: "lb", category: "pantry" }],
+        instructions: ["Simmer the lentils"],
+        dietaryTags: ["vegan"],
+        instructionChanges: ["Swapped beef for lentils"],
+      });
+
+      expect(args.youtubeVideoId).toBe("chili1");
+      expect(args.parentRecipeId).toBe("recipe1");
+      expect(findSourceMatch(args, [original])).toBeNull();
+    });
+  });
+
+  describe("findDuplicateGroups", () => {
+    it("should group duplicates oldest first and leave unique recipes out", () => {
+      const groups = findDuplicateGroups([
+        { title: "Banana Bread", ingredients: bananaBread, createdAt: 3 },
+        { title: "Lentil Soup", createdAt: 2 },
+        { title: "Best Banana Bread", ingredients: bananaBread, createdAt: 1 },
+        { title: "Weeknight Dinner", sourceUrl: "https://example.com/banana-bread", createdAt: 4 },
+        { title: "Banana Loaf", sourceUrl: "https://example.com/banana-bread/", createdAt: 5 },
+      ]);
+
+      expect(groups.map((group) => group.map((recipe) => recipe.createdAt))).toEqual([
+        [1, 3],
+        [4, 5],
+      ]);
+    });
+
+    it("should not group a recipe with its variations", () => {
+      const groups = findDuplicateGroups([
+        { _id: "a", title: "Banana Bread", youtubeVideoId: "vid1", ingredients: bananaBread, createdAt: 1 },
+        {
+          _id: "b",
+          title: "Banana Bread (Variation)",
+          youtubeVideoId: "vid1",
+          ingredients: bananaBread,
+          parentRecipeId: "a",
+          createdAt: 2,
+        },
+        {
+          _id: "c",
+          title: "Banana Bread (Less Sugar)",
+          youtubeVideoId: "vid1",
+          ingredients: bananaBread,
+          parentRecipeId: "a",
+          createdAt: 3,
+        },
+      ]);
+
+      expect(groups).toEqual([]);
+    });
+  });
+
+  describe("mergeRecipeNotes", () => {
+    it("should keep each distinct note once", () => {
+      expect(mergeRecipeNotes(["Use ripe bananas", "", undefined, "Use ripe bananas ", "Add walnuts"])).toBe(
+        "Use ripe bananas\n\nAdd walnuts"
+      );
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Recipe Export Tests
+ *
+ * Tests for the JSON-LD, Markdown, and Paprika recipe exporters,
+ * including round trips through our own JSON-LD importer.
+ */
+
+import { gunzipSync, gzipSync } from "zlib";
+import { parseJsonLdRecipe } from "../lib/parseJsonLdRecipe";
+import {
+  buildPaprikaArchive,
+  crc32,
+  ExportableRecipe,
+  formatIngredientLine,
+  recipesToJsonLd,
+  recipeToMarkdown,
+  toIsoDuration,
+  toPaprikaRecipe,
+  toSafeFileName,
+} from "../lib/recipeExport";
+
+const recipe: ExportableRecipe = {
+  _id: "recipe_1",
+  title: "Lemon Pasta",
+  sourceUrl: "https://example.com/lemon-pasta",
+  sourceName: "Example Kitchen",
+  imageUrl: "https://example.com/lemon-pasta.jpg",
+  servings: 4,
+  prepTime: 10,
+  cookTime: 95,
+  ingredients: [
+    { name: "spaghetti", quantity: 1, unit: "lb", category: "pantry" },
+    { name: "lemon juice", quantity: 0.25, unit: "cup", category: "produce" },
+    { name: "salt to taste", quantity: 0, unit: "", category: "spices" },
+  ],
+  instructions: ["Boil the pasta.", "Toss with lemon juice."],
+  notes: "Best served immediately.",
+  nutrition: { calories: 420, protein: 12, carbs: 70, fat: 9 },
+  cuisineType: "Italian",
+  difficulty: "easy",
+  dietaryTags: ["vegetarian"],
+  createdAt: Date.UTC(2026, 0, 2, 3, 4, 5),
+  updatedAt: Date.UTC(2026, 0, 3),
+};
+
+/**
+ * Wrap JSON-LD in a script tag so it can be fed to the HTML importer
+ */
+function asHtml(jsonLd: string): string {
+  return `<html><head><script type="application/ld+json">${jsonLd}</script></head></html>`;
+}
+
+/**
+ * Read the stored entries from a ZIP archive
+ */
+function readZipEntries(
+  archive: Uint8Array
+): { name: string; data: Uint8Array; crc: number }[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const entries: { name: string; data: Uint8Array; crc: number }[] = [];
+  let offset = 0;
+
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = new TextDecoder().decode(
+      archive.slice(offset + 30, offset + 30 + nameLength)
+    );
+    const start = offset + 30 + nameLength;
+    entries.push({ name, data: archive.slice(start, start + size), crc });
+    offset = start + size;
+  }
+
+  return entries;
+}
+
+describe("Recipe Export Helpers", () => {
+  it("should format ingredient lines", () => {
+    expect(formatIngredientLine(recipe.ingredients[0])).toBe("1 lb spaghetti");
+    expect(formatIngredientLine(recipe.ingredients[1])).toBe("0.25 cup lemon juice");
+    expect(formatIngredientLine(recipe.ingredients[2])).toBe("salt to taste");
+  });
+
+  it("should format ISO 8601 durations", () => {
+    expect(toIsoDuration(30)).toBe("PT30M");
+    expect(toIsoDuration(90)).toBe("PT1H30M");
+    expect(toIsoDuration(120)).toBe("PT2H");
+    expect(toIsoDuration(0)).toBeUndefined();
+  });
+
+  it("should strip reserved characters from file names", () => {
+    expect(toSafeFileName('Mac & "Cheese" 1/2')).toBe("Mac & Cheese 12");
+    expect(toSafeFileName("  ")).toBe("Recipe");
+  });
+
+  it("should compute standard CRC-32 checksums", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("JSON-LD Export", () => {
+  it("should round trip through the JSON-LD importer", () => {
+    const parsed = parseJsonLdRecipe(asHtml(recipesToJsonLd([recipe])));
+
+    expect(parsed).not.toBeNull();
+    expect(parsed!.title).toBe(recipe.title);
+    expect(parsed!.imageUrl).toBe(recipe.imageUrl);
+    expect(parsed!.servings).toBe(recipe.servings);
+    expect(parsed!.prepTime).toBe(recipe.prepTime);
+    expect(parsed!.cookTime).toBe(recipe.cookTime);
+    expect(parsed!.instructions).toEqual(recipe.instructions);
+    expect(parsed!.ingredients.map((i) => i.raw)).toEqual([
+      "1 lb spaghetti",
+      "0.25 cup lemon juice",
+      "salt to taste",
+    ]);
+  });
+
+  it("should use @graph for multiple recipes", () => {
+    const second = { ...recipe, _id: "recipe_2", title: "Tomato Soup" };
+    const document = JSON.parse(recipesToJsonLd([recipe, second]));
+
+    expect(document["@context"]).toBe("https://schema.org");
+    expect(document["@graph"]).toHaveLength(2);
+    expect(parseJsonLdRecipe(asHtml(JSON.stringify(document)))!.title).toBe(
+      "Lemon Pasta"
+    );
+  });
+
+  it("should include nutrition and omit missing optional fields", () => {
+    const document = JSON.parse(
+      recipesToJsonLd([{ ...recipe, notes: undefined, prepTime: 0 }])
+    );
+
+    expect(document.nutrition.calories).toBe("420 calories");
+    expect(document).not.toHaveProperty("description");
+    expect(document).not.toHaveProperty("prepTime");
+  });
+});
+
+describe("Markdown Export", () => {
+  it("should render a recipe card", () => {
+    const markdown = recipeToMarkdown(recipe);
+
+    expect(markdown).toContain("# Lemon Pasta");
+    expect(markdown).toContain("**Cook:** 1 hr 35 min");
+    expect(markdown).toContain("- 1 lb spaghetti");
+    expect(markdown).toContain("2. Toss with lemon juice.");
+    expect(markdown).toContain("## Notes");
+  });
+});
+
+describe("Paprika Export", () => {
+  it("should map recipe fields to Paprika fields", () => {
+    const paprika = toPaprikaRecipe(recipe);
+
+    expect(paprika.name).toBe("Lemon Pasta");
+    expect(paprika.ingredients).toBe(
+      "1 lb spaghetti\n0.25 cup lemon juice\nsalt to taste"
+    );
+    expect(paprika.directions).toBe("Boil the pasta.\n\nToss with lemon juice.");
+    expect(paprika.servings).toBe("4");
+    expect(paprika.difficulty).toBe("Easy");
+    expect(paprika.created).toBe("2026-01-02 03:04:05");
+  });
+
+  it("should build a ZIP of gzipped recipe files", () => {
+    const duplicate = { ...recipe, _id: "recipe_2" };
+    const archive = buildPaprikaArchive([recipe, duplicate], (data) =>
+      gzipSync(data)
+    );
+    const entries = readZipEntries(archive);
+
+    expect(entries.map((e) => e.name)).toEqual([
+      "Lemon Pasta.paprikarecipe",
+      "Lemon Pasta (2).paprikarecipe",
+    ]);
+    expect(entries[0].crc).toBe(crc32(entries[0].data));
+
+    const json = JSON.parse(gunzipSync(entries[1].data).toString("utf8"));
+    expect(json.uid).toBe("recipe_2");
+    expect(json.name).toBe("Lemon Pasta");
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Bulk Recipe Import Tests
+ *
+ * Tests for mapping Paprika, Mealie, Tandoor, and CSV exports to the
+ * recipes schema, reading Paprika archives, and duplicate detection.
+ */
+
+import { deflateRawSync, gunzipSync, gzipSync, inflateRawSync } from "zlib";
+import {
+  buildPaprikaArchive,
+  createZipArchive,
+  ExportableRecipe,
+} from "../lib/recipeExport";
+import {
+  ImportDeduplicator,
+  mapCsvRecipes,
+  mapMealieRecipe,
+  mapPaprikaRecipe,
+  mapTandoorRecipe,
+  parseCsv,
+  parseDurationMinutes,
+  parseIngredientLine,
+  readZipArchive,
+  suggestCsvMapping,
+  summarizeImportResults,
+} from "../lib/recipeImport";
+
+describe("Ingredient Line Parsing", () => {
+  it("should split quantity, unit, and name", () => {
+    expect(parseIngredientLine("2 cups all-purpose flour")).toEqual({
+      name: "all-purpose flour",
+      quantity: 2,
+      unit: "cups",
+      category: "pantry",
+    });
+  });
+
+  it("should handle mixed numbers and unicode fractions", () => {
+    expect(parseIngredientLine("1 1/2 tsp salt").quantity).toBe(1.5);
+    expect(parseIngredientLine("1½ tbsp butter")).toMatchObject({
+      quantity: 1.5,
+      unit: "tbsp",
+      name: "butter",
+    });
+  });
+
+  it("should leave unitless and unquantified lines intact", () => {
+    expect(parseIngredientLine("3 eggs")).toMatchObject({
+      quantity: 3,
+      unit: "",
+      name: "eggs",
+      category: "dairy",
+    });
+    expect(parseIngredientLine("salt to taste")).toMatchObject({
+      quantity: 0,
+      unit: "",
+      name: "salt to taste",
+    });
+  });
+});
+
+describe("Duration Parsing", () => {
+  it("should parse ISO, text, and numeric durations", () => {
+    expect(parseDurationMinutes("PT1H15M")).toBe(75);
+    expect(parseDurationMinutes("1 hr 30 mins")).toBe(90);
+    expect(parseDurationMinutes("45 minutes")).toBe(45);
+    expect(parseDurationMinutes("20")).toBe(20);
+    expect(parseDurationMinutes(15)).toBe(15);
+    expect(parseDurationMinutes("overnight")).toBe(0);
+  });
+});
+
+describe("Paprika Import", () => {
+  it("should map a Paprika recipe", () => {
+    const result = mapPaprikaRecipe({
+      name: "Banana Bread",
+      ingredients: "3 bananas\n2 cups flour",
+      directions: "1. Mash bananas.\n2. Mix and bake.",
+      servings: "8 slices",
+      prep_time: "15 min",
+      cook_time: "1 hr",
+      source_url: "https://example.com/banana-bread",
+      difficulty: "Easy",
+      categories: ["Baking"],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.recipe.servings).toBe(8);
+    expect(result.recipe.prepTime).toBe(15);
+    expect(result.recipe.cookTime).toBe(60);
+    expect(result.recipe.instructions).toEqual(["Mash bananas.", "Mix and bake."]);
+    expect(result.recipe.ingredients).toHaveLength(2);
+    expect(result.recipe.difficulty).toBe("easy");
+    expect(result.recipe.imageUrl).toMatch(/^https:\/\//);
+  });
+
+  it("should fail recipes without a title", () => {
+    const result = mapPaprikaRecipe({ ingredients: "1 egg" });
+    expect(result).toEqual({
+      ok: false,
+      title: "Untitled recipe",
+      error: "Recipe has no title",
+    });
+  });
+
+  it("should read recipes back from our own Paprika export", () => {
+    const recipe: ExportableRecipe = {
+      _id: "recipe_1",
+      title: "Lemon Pasta",
+      imageUrl: "https://example.com/pasta.jpg",
+      servings: 2,
+      prepTime: 5,
+      cookTime: 12,
+      ingredients: [
+        { name: "spaghetti", quantity: 8, unit: "oz", category: "pantry" },
+      ],
+      instructions: ["Boil pasta.", "Add lemon."],
+      dietaryTags: [],
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    const archive = buildPaprikaArchive([recipe], (data) => gzipSync(data));
+    const files = readZipArchive(archive, (raw) => inflateRawSync(raw));
+    const entry = JSON.parse(
+      gunzipSync(files[0].data).toString("utf8")
+    );
+    const result = mapPaprikaRecipe(entry);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.recipe).toMatchObject({
+      title: "Lemon Pasta",
+      servings: 2,
+      prepTime: 5,
+      cookTime: 12,
+      instructions: ["Boil pasta.", "Add lemon."],
+      ingredients: [{ name: "spaghetti", quantity: 8, unit: "oz" }],
+    });
+  });
+});
+
+describe("Archive Reading", () => {
+  it("should read deflated entries", () => {
+    const content = new TextEncoder().encode("hello hello hello");
+    const archive = createZipArchive([
+      { name: "a.txt", data: new Uint8Array(deflateRawSync(content)) },
+    ]);
+
+    // Mark the entry as deflated in the local and central headers
+    const centralOffset = archive.length - 22 - (46 + "a.txt".length);
+    archive[8] = 8;
+    archive[centralOffset + 10] = 8;
+
+    const files = readZipArchive(archive, (raw) => inflateRawSync(raw));
+    expect(new TextDecoder().decode(files[0].data)).toBe("hello hello hello");
+  });
+
+  it("should reject non-archive data", () => {
+    expect(() =>
+      readZipArchive(new TextEncoder().encode("not a zip"), (raw) => raw)
+    ).toThrow("File is not a valid archive");
+  });
+});
+
+describe("Mealie Import", () => {
+  it("should map structured and unparsed ingredients", () => {
+    const result = mapMealieRecipe({
+      name: "Chili",
+      recipeYield: "6 servings",
+      prepTime: "20 minutes",
+      performTime: "PT1H",
+      orgURL: "https://example.com/chili",
+      recipeIngredient: [
+        { quantity: 1, unit: { name: "lb" }, food: { name: "ground beef" }, note: "" },
+        { quantity: 0, unit: null, food: null, note: "2 cans kidney beans" },
+      ],
+      recipeInstructions: [{ text: "Brown the beef." }, { text: "Simmer." }],
+      tags: [{ name: "Gluten-Free" }],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.recipe.cookTime).toBe(60);
+    expect(result.recipe.ingredients[0]).toEqual({
+      name: "ground beef",
+      quantity: 1,
+      unit: "lb",
+      category: "meat",
+    });
+    expect(result.recipe.ingredients[1]).toMatchObject({
+      name: "kidney beans",
+      quantity: 2,
+      unit: "cans",
+    });
+    expect(result.recipe.dietaryTags).toEqual(["gluten-free"]);
+  });
+});
+
+describe("Tandoor Import", () => {
+  it("should collect ingredients from every step", () => {
+    const result = mapTandoorRecipe({
+      name: "Pancakes",
+      servings: 4,
+      working_time: 10,
+      waiting_time: 15,
+      steps: [
+        {
+          instruction: "Whisk the batter.",
+          ingredients: [
+            { food: { name: "Dry" }, is_header: true },
+            { food: { name: "flour" }, unit: { name: "g" }, amount: 200 },
+            { food: { name: "salt" }, unit: null, amount: 0, no_amount: true },
+          ],
+        },
+        {
+          instruction: "Cook on a griddle.",
+          ingredients: [{ food: { name: "butter" }, unit: { name: "tbsp" }, amount: 1 }],
+        },
+      ],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.recipe.prepTime).toBe(10);
+    expect(result.recipe.cookTime).toBe(15);
+    expect(result.recipe.instructions).toHaveLength(2);
+    expect(result.recipe.ingredients.map((i) => i.name)).toEqual([
+      "flour",
+      "salt",
+      "butter",
+    ]);
+    expect(result.recipe.ingredients[1]).toMatchObject({ quantity: 0, unit: "" });
+  });
+});
+
+describe("CSV Import", () => {
+  const csv = [
+    'Name,Ingredients,Directions,Serves',
+    '"Toast","1 slice bread\n1 tbsp butter","Toast bread.\nSpread butter.",1',
+    '"Quote ""Test""","1 cup rice","Cook rice.",2',
+    ',"1 egg","Fry.",1',
+  ].join("\r\n");
+
+  it("should parse quoted cells with newlines and escaped quotes", () => {
+    const rows = parseCsv(csv);
+    expect(rows).toHaveLength(4);
+    expect(rows[1][1]).toBe("1 slice bread\n1 tbsp butter");
+    expect(rows[2][0]).toBe('Quote "Test"');
+  });
+
+  it("should suggest a mapping from common headers", () => {
+    expect(suggestCsvMapping(["Name", "Ingredients", "Directions", "Serves"])).toEqual({
+      title: "Name",
+      ingredients: "Ingredients",
+      instructions: "Directions",
+      servings: "Serves",
+    });
+  });
+
+  it("should map rows and report invalid ones", () => {
+    const results = mapCsvRecipes(csv, suggestCsvMapping(parseCsv(csv)[0]));
+
+    expect(results).toHaveLength(3);
+    expect(results[0].ok && results[0].recipe.instructions).toEqual([
+      "Toast bread.",
+      "Spread butter.",
+    ]);
+    expect(results[1].ok && results[1].recipe.servings).toBe(2);
+    expect(results[2].ok).toBe(false);
+  });
+
+  it("should reject a mapping with a missing title column", () => {
+    expect(() => mapCsvRecipes(csv, { title: "Recipe" })).toThrow(
+      'Title column "Recipe" not found'
+    );
+  });
+});
+
+describe("Import Deduplication", () => {
+  it("should match existing titles and source URLs", () => {
+    const dedupe = new ImportDeduplicator([
+      { title: "Banana Bread!", sourceUrl: "https://www.example.com/bread/" },
+    ]);
+
+    expect(dedupe.isDuplicate({ title: "banana bread" })).toBe(true);
+    expect(
+      dedupe.isDuplicate({ title: "Other", sourceUrl: "http://example.com/bread?ref=1" })
+    ).toBe(true);
+    expect(dedupe.isDuplicate({ title: "Zucchini Bread" })).toBe(false);
+  });
+
+  it("should catch duplicates within the same import", () => {
+    const dedupe = new ImportDeduplicator();
+    dedupe.add({ title: "Soup" });
+    expect(dedupe.isDuplicate({ title: "Soup" })).toBe(true);
+  });
+
+  it("should summarize results by status", () => {
+    expect(
+      summarizeImportResults([
+        { title: "A", status: "imported" },
+        { title: "B", status: "duplicate" },
+        { title: "C", status: "limit_reached" },
+        { title: "D", status: "imported" },
+      ])
+    ).toEqual({ imported: 2, duplicates: 1, failed: 0, limitReached: 1 });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Recipe Revision Tests
+ *
+ * Tests for revision snapshots, change detection, pruning and the
+ * field-level diff used by recipe version history.
+ */
+
+import {
+  MAX_REVISIONS_PER_RECIPE,
+  diffLines,
+  diffRevisions,
+  formatIngredientLine,
+  getRevisionSnapshot,
+  hasRevisionChanges,
+  selectRevisionsToPrune,
+  type RevisionSnapshot,
+} from "../lib/recipeRevisions";
+
+const baseRecipe: RevisionSnapshot = {
+  title: "Tomato Soup",
+  imageUrl: "https://example.com/soup.jpg",
+  servings: 4,
+  prepTime: 10,
+  cookTime: 30,
+  ingredients: [
+    { name: "tomatoes", quantity: 6, unit: "" },
+    { name: "sugar", quantity: 2, unit: "tbsp" },
+    { name: "salt", quantity: 1, unit: "tsp" },
+  ],
+  instructions: ["Chop tomatoes.", "Simmer 30 minutes.", "Blend."],
+  notes: "Great with grilled cheese",
+  dietaryTags: ["vegetarian"],
+};
+
+describe("recipeRevisions", () => {
+  describe("getRevisionSnapshot", () => {
+    it("should keep only tracked fields", () => {
+      const recipe = { ...baseRecipe, isFavorited: true, userId: "user_1" };
+      const snapshot = getRevisionSnapshot(recipe);
+
+      expect(snapshot).not.toHaveProperty("isFavorited");
+      expect(snapshot).not.toHaveProperty("userId");
+      expect(snapshot.title).toBe("Tomato Soup");
+      expect(snapshot.ingredients).toHaveLength(3);
+    });
+  });
+
+  describe("hasRevisionChanges", () => {
+    it("should detect a changed content field", () => {
+      expect(hasRevisionChanges(baseRecipe, { title: "Roasted Tomato Soup" })).toBe(true);
+      expect(
+        hasRevisionChanges(baseRecipe, {
+          ingredients: [{ name: "tomatoes", quantity: 8, unit: "" }],
+        })
+      ).toBe(true);
+    });
+
+    it("should ignore untracked fields like favorites", () => {
+      expect(hasRevisionChanges(baseRecipe, { isFavorited: true, updatedAt: 5 })).toBe(false);
+    });
+
+    it("should ignore fields written with their current value", () => {
+      expect(
+        hasRevisionChanges(baseRecipe, {
+          title: "Tomato Soup",
+          instructions: [...baseRecipe.instructions],
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe("selectRevisionsToPrune", () => {
+    it("should keep the newest revisions up to the cap", () => {
+      const ids = Array.from({ length: MAX_REVISIONS_PER_RECIPE + 2 }, (_, i) => `rev_${i}`);
+      expect(selectRevisionsToPrune(ids)).toEqual([
+        `rev_${MAX_REVISIONS_PER_RECIPE}`,
+        `rev_${MAX_REVISIONS_PER_RECIPE + 1}`,
+      ]);
+    });
+
+    it("should prune nothing under the cap", () => {
+      expect(selectRevisionsToPrune(["a", "b"], 5)).toEqual([]);
+    });
+  });
+
+  describe("formatIngredientLine", () => {
+    it("should join quantity, unit and name", () => {
+      expect(formatIngredientLine({ name: "sugar", quantity: 2, unit: "tbsp" })).toBe(
+        "2 tbsp sugar"
+      );
+      expect(formatIngredientLine({ name: "tomatoes", quantity: 6, unit: "" })).toBe(
+        "6 tomatoes"
+      );
+      expect(formatIngredientLine({ name: "salt", quantity: 0, unit: "" })).toBe("salt");
+    });
+  });
+
+  describe("diffLines", () => {
+    it("should mark added, removed and unchanged lines in order", () => {
+      expect(diffLines(["a", "b", "c"], ["a", "x", "c", "d"])).toEqual([
+        { type: "unchanged", text: "a" },
+        { type: "removed", text: "b" },
+        { type: "added", text: "x" },
+        { type: "unchanged", text: "c" },
+        { type: "added", text: "d" },
+      ]);
+    });
+
+    it("should handle empty lists", () => {
+      expect(diffLines([], ["a"])).toEqual([{ type: "added", text: "a" }]);
+      expect(diffLines(["a"], [])).toEqual([{ type: "removed", text: "a" }]);
+    });
+  });
+
+  describe("diffRevisions", () => {
+    it("should return no changes for identical versions", () => {
+      expect(diffRevisions(baseRecipe, { ...baseRecipe })).toEqual([]);
+    });
+
+    it("should diff value fields with before and after", () => {
+      const changes = diffRevisions(baseRecipe, { ...baseRecipe, servings: 6, notes: undefined });
+
+      expect(changes).toEqual([
+        { field: "servings", kind: "value", before: 4, after: 6 },
+        { field: "notes", kind: "value", before: "Great with grilled cheese", after: undefined },
+      ]);
+    });
+
+    it("should diff ingredients line by line", () => {
+      const after = {
+        ...baseRecipe,
+        ingredients: [
+          { name: "tomatoes", quantity: 6, unit: "" },
+          { name: "sugar", quantity: 1, unit: "tbsp" },
+          { name: "salt", quantity: 1, unit: "tsp" },
+          { name: "chili flakes", quantity: 0.5, unit: "tsp" },
+        ],
+      };
+
+      const [change] = diffRevisions(baseRecipe, after);
+      expect(change.field).toBe("ingredients");
+      expect(change.kind === "list" && change.lines).toEqual([
+        { type: "unchanged", text: "6 tomatoes" },
+        { type: "removed", text: "2 tbsp sugar" },
+        { type: "added", text: "1 tbsp sugar" },
+        { type: "unchanged", text: "1 tsp salt" },
+        { type: "added", text: "0.5 tsp chili flakes" },
+      ]);
+    });
+
+    it("should list changed fields in a stable order", () => {
+      const after = {
+        ...baseRecipe,
+        dietaryTags: ["vegan"],
+        instructions: ["Chop tomatoes.", "Blend."],
+        title: "Vegan Tomato Soup",
+      };
+
+      expect(diffRevisions(baseRecipe, after).map((change) => change.field)).toEqual([
+        "title",
+        "instructions",
+        "dietaryTags",
+      ]);
+    });
+  });
+});
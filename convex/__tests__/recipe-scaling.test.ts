@@ -0,0 +1,143 @@
+/**
+ * Recipe Scaling Tests
+ *
+ * Tests for scaling ingredient amounts to practical fractions and units,
+ * keeping counted items whole, and scaling by pan size.
+ */
+
+import {
+  findPanSize,
+  formatAmount,
+  formatQuantity,
+  getPanScaleFactor,
+  getScaleFactor,
+  promoteUnit,
+  roundShoppingQuantity,
+  roundToPracticalFraction,
+  scaleAmount,
+  scaleIngredient,
+} from "../lib/recipeScaling";
+
+describe("recipeScaling", () => {
+  describe("getScaleFactor", () => {
+    it("should divide target by base servings", () => {
+      expect(getScaleFactor(4, 6)).toBe(1.5);
+      expect(getScaleFactor(0, 6)).toBe(1);
+    });
+  });
+
+  describe("practical fractions", () => {
+    it("should round to fractions on measuring cups", () => {
+      expect(roundToPracticalFraction(0.333)).toBeCloseTo(1 / 3);
+      expect(roundToPracticalFraction(1.3)).toBeCloseTo(4 / 3);
+      expect(roundToPracticalFraction(0.02)).toBe(1 / 8);
+      expect(roundToPracticalFraction(12.4)).toBe(12);
+    });
+
+    it("should format mixed fractions", () => {
+      expect(formatQuantity(1 / 3)).toBe("1/3");
+      expect(formatQuantity(2.5)).toBe("2 1/2");
+      expect(formatQuantity(0.41)).toBe("0.41");
+      expect(formatQuantity(2.5, "g")).toBe("2.5");
+      expect(formatAmount({ quantity: 1.5, quantityMax: 2, unit: "cups" })).toBe("1 1/2-2 cups");
+    });
+  });
+
+  describe("promoteUnit", () => {
+    it("should move to a larger unit", () => {
+      expect(promoteUnit(48, "tsp")).toEqual({ quantity: 1, unit: "cup" });
+      expect(promoteUnit(6, "teaspoons")).toEqual({ quantity: 2, unit: "tbsp" });
+      expect(promoteUnit(24, "oz")).toEqual({ quantity: 1.5, unit: "lb" });
+      const kilograms = promoteUnit(1500, "g");
+      expect(kilograms.unit).toBe("kg");
+      expect(kilograms.quantity).toBeCloseTo(1.5);
+    });
+
+    it("should move to a smaller unit", () => {
+      expect(promoteUnit(0.125, "cup")).toEqual({ quantity: 2, unit: "tbsp" });
+      expect(promoteUnit(0.75, "lb")).toEqual({ quantity: 12, unit: "oz" });
+    });
+
+    it("should keep units outside the ladders", () => {
+      expect(promoteUnit(3, "pints")).toEqual({ quantity: 3, unit: "pints" });
+    });
+  });
+
+  describe("scaleAmount", () => {
+    it("should scale measured amounts to practical fractions", () => {
+      expect(scaleAmount({ quantity: 1, unit: "cup" }, 1 / 3)).toEqual({
+        quantity: 1 / 3,
+        unit: "cup",
+      });
+      expect(scaleAmount({ quantity: 2, unit: "tsp" }, 24)).toEqual({ quantity: 1, unit: "cup" });
+      expect(scaleAmount({ quantity: 1, unit: "tbsp" }, 1.5)).toEqual({
+        quantity: 1.5,
+        unit: "tbsp",
+      });
+    });
+
+    it("should keep the unit when not scaled", () => {
+      expect(scaleAmount({ quantity: 4, unit: "tbsp" }, 1)).toEqual({ quantity: 4, unit: "tbsp" });
+    });
+
+    it("should convert to the preferred unit system", () => {
+      expect(scaleAmount({ quantity: 1, unit: "cup" }, 2, { unitSystem: "metric" })).toEqual({
+        quantity: 475,
+        unit: "ml",
+      });
+    });
+
+    it("should scale ranges with the same unit", () => {
+      expect(scaleAmount({ quantity: 2, quantityMax: 3, unit: "tsp" }, 2)).toEqual({
+        quantity: 4 / 3,
+        quantityMax: 2,
+        unit: "tbsp",
+      });
+    });
+
+    it("should keep counted items whole with a warning", () => {
+      expect(scaleAmount({ quantity: 3, unit: "" }, 0.5)).toEqual({
+        quantity: 2,
+        unit: "",
+        warning: "Rounded from 1 1/2",
+      });
+      expect(scaleAmount({ quantity: 2, unit: "large" }, 2)).toEqual({ quantity: 4, unit: "large" });
+      expect(scaleAmount({ quantity: 0.5, unit: "" }, 3)).toEqual({ quantity: 1.5, unit: "" });
+    });
+
+    it("should leave amounts of zero alone", () => {
+      expect(scaleAmount({ quantity: 0, unit: "" }, 2)).toEqual({ quantity: 0, unit: "" });
+      expect(scaleAmount({ quantity: 0, unit: "tsp" }, 2)).toEqual({ quantity: 0, unit: "tsp" });
+    });
+
+    it("should keep other ingredient fields", () => {
+      const scaled = scaleIngredient({ name: "eggs", quantity: 2, unit: "", category: "dairy" }, 1.5);
+      expect(scaled).toEqual({ name: "eggs", quantity: 3, unit: "", category: "dairy" });
+    });
+  });
+
+  describe("pan sizes", () => {
+    it("should scale by pan area", () => {
+      expect(getPanScaleFactor("8-round", "9x13")).toBeCloseTo(117 / (Math.PI * 16));
+      expect(getPanScaleFactor("8x8", "8x8")).toBe(1);
+      expect(getPanScaleFactor("8x8", "wok")).toBeNull();
+    });
+
+    it("should find the pan in recipe text", () => {
+      expect(findPanSize("Grease a 9x13-inch baking dish.")?.id).toBe("9x13");
+      expect(findPanSize("Pour into a 13 x 9 pan")?.id).toBe("9x13");
+      expect(findPanSize("Line two 8-inch round cake pans")?.id).toBe("8-round");
+      expect(findPanSize('Use a 9" square pan')?.id).toBe("9x9");
+      expect(findPanSize("Bake in a 9-by-5 loaf pan")?.id).toBe("5x9-loaf");
+      expect(findPanSize("Bake for 30 minutes at 350")).toBeNull();
+    });
+  });
+
+  describe("roundShoppingQuantity", () => {
+    it("should round counted items up", () => {
+      expect(roundShoppingQuantity(2.25, "")).toBe(3);
+      expect(roundShoppingQuantity(2.004, "cans")).toBe(2);
+      expect(roundShoppingQuantity(0.34, "cups")).toBeCloseTo(1 / 3);
+    });
+  });
+});
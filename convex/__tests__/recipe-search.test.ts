@@ -0,0 +1,91 @@
+/**
+ * Recipe Search Tests
+ *
+ * Tests for the denormalized search fields and the filters applied to
+ * recipe search results.
+ */
+
+import {
+  buildRecipeSearchText,
+  getRecipeSearchFields,
+  hasAllDietaryTags,
+  matchesRecipeFilters,
+  normalizeSearchQuery,
+  withSearchFields,
+} from "../lib/recipeSearch";
+
+const recipe = {
+  title: "Chicken Tikka Masala",
+  ingredients: [{ name: "chicken thighs" }, { name: " garam masala " }],
+  cuisineType: "Indian",
+  notes: "Marinate overnight",
+  dietaryTags: ["Gluten-Free"],
+  prepTime: 20,
+  cookTime: 40,
+};
+
+describe("Search Fields", () => {
+  it("should index title first, then ingredients, cuisine, tags, and notes", () => {
+    expect(buildRecipeSearchText(recipe)).toBe(
+      "Chicken Tikka Masala chicken thighs garam masala Indian Gluten-Free Marinate overnight"
+    );
+  });
+
+  it("should skip empty optional fields", () => {
+    expect(
+      buildRecipeSearchText({
+        ...recipe,
+        ingredients: [],
+        cuisineType: undefined,
+        notes: "",
+        dietaryTags: [],
+      })
+    ).toBe("Chicken Tikka Masala");
+  });
+
+  it("should compute total time", () => {
+    expect(getRecipeSearchFields(recipe).totalTime).toBe(60);
+  });
+
+  it("should add search fields without dropping other fields", () => {
+    const result = withSearchFields({ ...recipe, userId: "user_1" });
+    expect(result.userId).toBe("user_1");
+    expect(result.searchText).toContain("garam masala");
+    expect(result.totalTime).toBe(60);
+  });
+});
+
+describe("Search Query Normalization", () => {
+  it("should trim and collapse whitespace", () => {
+    expect(normalizeSearchQuery("  tikka   masala ")).toBe("tikka masala");
+  });
+
+  it("should return undefined for blank queries", () => {
+    expect(normalizeSearchQuery("   ")).toBeUndefined();
+    expect(normalizeSearchQuery(undefined)).toBeUndefined();
+  });
+});
+
+describe("Recipe Filters", () => {
+  const listed = { ...recipe, source: "website", difficulty: "medium" };
+
+  it("should match dietary tags case-insensitively", () => {
+    expect(hasAllDietaryTags(["Gluten-Free", "Dairy-Free"], ["gluten-free"])).toBe(true);
+    expect(hasAllDietaryTags(["Gluten-Free"], ["gluten-free", "vegan"])).toBe(false);
+    expect(hasAllDietaryTags([], undefined)).toBe(true);
+  });
+
+  it("should combine source, cuisine, difficulty, and time filters", () => {
+    expect(
+      matchesRecipeFilters(listed, {
+        source: "website",
+        cuisineType: "Indian",
+        difficulty: "medium",
+        maxTotalTime: 60,
+      })
+    ).toBe(true);
+    expect(matchesRecipeFilters(listed, { maxTotalTime: 45 })).toBe(false);
+    expect(matchesRecipeFilters(listed, { source: "youtube" })).toBe(false);
+    expect(matchesRecipeFilters(listed, { dietaryTags: ["vegan"] })).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Recipe Section Tests
+ *
+ * Tests for grouping ingredients and steps under named sections, and for
+ * keeping those sections through JSON-LD import and multi-page merging.
+ */
+
+import {
+  getStepSections,
+  groupIngredientsBySection,
+  groupInstructionsBySection,
+  parseExtractedInstructionSections,
+  parseSectionHeading,
+  removeStepFromSections,
+  toInstructionSections,
+} from "../lib/recipeSections";
+import { parseJsonLdRecipe } from "../lib/parseJsonLdRecipe";
+import { mergeMultiPageRecipe, type PageRecipeData } from "../lib/multiPageMerge";
+
+function asHtml(jsonLd: object): string {
+  return `<html><head><script type="application/ld+json">${JSON.stringify(jsonLd)}</script></head></html>`;
+}
+
+describe("recipeSections", () => {
+  describe("grouping", () => {
+    it("should group consecutive ingredients and keep their indexes", () => {
+      const groups = groupIngredientsBySection([
+        { name: "salt" },
+        { name: "flour", section: "Dough" },
+        { name: "butter", section: "Dough" },
+        { name: "tomatoes", section: "Sauce" },
+      ]);
+
+      expect(groups.map((g) => g.title)).toEqual([null, "Dough", "Sauce"]);
+      expect(groups[1].items.map((i) => i.index)).toEqual([1, 2]);
+    });
+
+    it("should group steps with numbering across sections", () => {
+      const groups = groupInstructionsBySection(["a", "b", "c", "d"], [
+        { title: "Sauce", startIndex: 2 },
+        { title: "Dough", startIndex: 0 },
+      ]);
+
+      expect(groups.map((g) => [g.title, g.items.map((i) => i.index)])).toEqual([
+        ["Dough", [0, 1]],
+        ["Sauce", [2, 3]],
+      ]);
+    });
+
+    it("should ignore sections past the last step", () => {
+      expect(getStepSections([{ title: "Glaze", startIndex: 5 }], 2)).toEqual([
+        undefined,
+        undefined,
+      ]);
+    });
+  });
+
+  describe("editing", () => {
+    it("should turn per-step titles back into sections", () => {
+      const sections = toInstructionSections([undefined, "Dough", "Dough", " ", "Sauce"]);
+      expect(sections).toEqual([
+        { title: "Dough", startIndex: 1 },
+        { title: "Sauce", startIndex: 4 },
+      ]);
+      expect(getStepSections(sections, 5)).toEqual([
+        undefined,
+        "Dough",
+        "Dough",
+        "Dough",
+        "Sauce",
+      ]);
+    });
+
+    it("should shift and drop sections when a step is removed", () => {
+      const sections = [
+        { title: "Dough", startIndex: 0 },
+        { title: "Filling", startIndex: 2 },
+        { title: "Sauce", startIndex: 3 },
+      ];
+
+      expect(removeStepFromSections(sections, 2, 3)).toEqual([
+        { title: "Dough", startIndex: 0 },
+        { title: "Sauce", startIndex: 2 },
+      ]);
+    });
+  });
+
+  describe("parseSectionHeading", () => {
+    it("should recognise heading lines", () => {
+      expect(parseSectionHeading("For the sauce:")).toBe("For the sauce");
+      expect(parseSectionHeading("For the frosting")).toBe("For the frosting");
+      expect(parseSectionHeading("FILLING")).toBe("FILLING");
+    });
+
+    it("should leave ingredient lines alone", () => {
+      expect(parseSectionHeading("2 cups flour")).toBeNull();
+      expect(parseSectionHeading("½ tsp salt:")).toBeNull();
+      expect(parseSectionHeading("salt and pepper")).toBeNull();
+    });
+  });
+
+  describe("parseExtractedInstructionSections", () => {
+    it("should convert 1-based start steps and drop invalid entries", () => {
+      expect(
+        parseExtractedInstructionSections(
+          [
+            { title: "Sauce", startStep: 3 },
+            { title: "Dough", startStep: 1 },
+            { title: "Garnish", startStep: 9 },
+            { startStep: 2 },
+          ],
+          4
+        )
+      ).toEqual([
+        { title: "Dough", startIndex: 0 },
+        { title: "Sauce", startIndex: 2 },
+      ]);
+      expect(parseExtractedInstructionSections("none", 4)).toEqual([]);
+    });
+  });
+
+  describe("JSON-LD import", () => {
+    it("should keep HowToSection steps and heading ingredient lines", () => {
+      const recipe = parseJsonLdRecipe(
+        asHtml({
+          "@type": "Recipe",
+          name: "Pie",
+          recipeIngredient: ["For the crust:", "2 cups flour", "For the filling:", "4 apples"],
+          recipeInstructions: [
+            {
+              "@type": "HowToSection",
+              name: "Crust",
+              itemListElement: [{ "@type": "HowToStep", text: "Mix." }, { "@type": "HowToStep", text: "Chill." }],
+            },
+            {
+              "@type": "HowToSection",
+              name: "Filling",
+              itemListElement: [{ "@type": "HowToStep", text: "Slice apples." }],
+            },
+          ],
+        })
+      );
+
+      expect(recipe!.ingredients.map((i) => [i.raw, i.parsed?.section])).toEqual([
+        ["2 cups flour", "For the crust"],
+        ["4 apples", "For the filling"],
+      ]);
+      expect(recipe!.instructions).toEqual(["Mix.", "Chill.", "Slice apples."]);
+      expect(recipe!.instructionSections).toEqual([
+        { title: "Crust", startIndex: 0 },
+        { title: "Filling", startIndex: 2 },
+      ]);
+    });
+  });
+
+  describe("multi-page merge", () => {
+    const page = (overrides: Partial<PageRecipeData>): PageRecipeData => ({
+      title: null,
+      ingredients: [],
+      instructions: [],
+      servings: null,
+      prepTime: null,
+      cookTime: null,
+      pageNumber: null,
+      ...overrides,
+    });
+
+    it("should offset step sections and carry an ingredient section across pages", () => {
+      const merged = mergeMultiPageRecipe([
+        page({
+          title: "Lasagna",
+          ingredients: [{ name: "beef", quantity: 1, unit: "lb", category: "meat", section: "Ragu" }],
+          instructions: ["Brown beef.", "Simmer."],
+          instructionSections: [{ title: "Ragu", startIndex: 0 }],
+        }),
+        page({
+          ingredients: [
+            { name: "tomatoes", quantity: 1, unit: "can", category: "produce" },
+            { name: "ricotta", quantity: 1, unit: "cup", category: "dairy", section: "Filling" },
+          ],
+          instructions: ["Mix ricotta.", "Layer."],
+          instructionSections: [{ title: "Filling", startIndex: 0 }],
+        }),
+      ]);
+
+      expect(merged.ingredients.map((i) => i.section)).toEqual(["Ragu", "Ragu", "Filling"]);
+      expect(merged.instructionSections).toEqual([
+        { title: "Ragu", startIndex: 0 },
+        { title: "Filling", startIndex: 2 },
+      ]);
+    });
+  });
+});
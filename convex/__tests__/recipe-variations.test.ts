@@ -0,0 +1,69 @@
+/**
+ * Recipe Variation Tests
+ *
+ * Tests for naming new variations and comparing a variation with the
+ * recipe it was forked from.
+ */
+
+import { getVariationTitle } from "../lib/recipeVariations";
+import { diffRevisions, type RevisionSnapshot } from "../lib/recipeRevisions";
+
+describe("recipeVariations", () => {
+  describe("getVariationTitle", () => {
+    it("should mark the copy as a variation", () => {
+      expect(getVariationTitle("Chili", ["Chili"])).toBe("Chili (Variation)");
+    });
+
+    it("should number variations when the title is taken", () => {
+      expect(getVariationTitle("Chili", ["Chili", "Chili (Variation)"])).toBe(
+        "Chili (Variation 2)"
+      );
+      expect(
+        getVariationTitle("Chili", ["Chili", "chili (variation)", "Chili (Variation 2)"])
+      ).toBe("Chili (Variation 3)");
+    });
+
+    it("should trim the parent title", () => {
+      expect(getVariationTitle("  Chili ", [])).toBe("Chili (Variation)");
+    });
+  });
+
+  describe("comparing with the parent", () => {
+    const parent: RevisionSnapshot = {
+      title: "Chili",
+      imageUrl: "https://example.com/chili.jpg",
+      servings: 6,
+      prepTime: 15,
+      cookTime: 60,
+      ingredients: [
+        { name: "ground beef", quantity: 1, unit: "lb" },
+        { name: "sugar", quantity: 2, unit: "tbsp" },
+      ],
+      instructions: ["Brown the beef.", "Simmer with spices."],
+      dietaryTags: [],
+    };
+
+    it("should show tweaked ingredients as removed and added lines", () => {
+      const variation = {
+        ...parent,
+        title: "Chili (Spicy)",
+        ingredients: [
+          { name: "ground beef", quantity: 1, unit: "lb" },
+          { name: "sugar", quantity: 1, unit: "tbsp" },
+          { name: "chili flakes", quantity: 1, unit: "tsp" },
+        ],
+      };
+
+      const changes = diffRevisions(parent, variation);
+      expect(changes.map((change) => change.field)).toEqual(["title", "ingredients"]);
+
+      const ingredients = changes[1];
+      expect(ingredients.kind === "list" && ingredients.lines.filter((l) => l.type !== "unchanged"))
+        .toEqual([
+          { type: "removed", text: "2 tbsp sugar" },
+          { type: "added", text: "1 tbsp sugar" },
+          { type: "added", text: "1 tsp chili flakes" },
+        ]);
+    });
+  });
+});
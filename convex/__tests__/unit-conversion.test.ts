@@ -0,0 +1,115 @@
+/**
+ * Unit Conversion Tests
+ *
+ * Tests for metric unit support, mixed metric/imperial combining,
+ * and conversion to the user's preferred unit system.
+ */
+
+import {
+  areUnitsCompatible,
+  combineQuantities,
+  convertToSystem,
+  convertUnit,
+  getUnitGroup,
+  getUnitSystem,
+  normalizeUnit,
+} from "../lib/unitConversion";
+
+describe("Metric Unit Recognition", () => {
+  it("should recognize metric weight and volume units", () => {
+    expect(getUnitGroup("g")).toBe("weight");
+    expect(getUnitGroup("Kilograms")).toBe("weight");
+    expect(getUnitGroup("ml")).toBe("volume");
+    expect(getUnitGroup("litres")).toBe("volume");
+    expect(getUnitGroup("dl")).toBe("volume");
+  });
+
+  it("should recognize larger US volume units", () => {
+    expect(getUnitGroup("fl oz")).toBe("volume");
+    expect(getUnitGroup("pints")).toBe("volume");
+    expect(getUnitGroup("qt")).toBe("volume");
+    expect(getUnitGroup("gallon")).toBe("volume");
+  });
+
+  it("should normalize periods and extra whitespace", () => {
+    expect(normalizeUnit("Fl.  Oz.")).toBe("fl oz");
+    expect(normalizeUnit("Tbsp.")).toBe("tbsp");
+  });
+
+  it("should report the unit system of a unit", () => {
+    expect(getUnitSystem("grams")).toBe("metric");
+    expect(getUnitSystem("cups")).toBe("imperial");
+    expect(getUnitSystem("cloves")).toBeNull();
+  });
+});
+
+describe("Metric Conversion", () => {
+  it("should treat metric and imperial weights as compatible", () => {
+    expect(areUnitsCompatible("g", "oz")).toBe(true);
+    expect(areUnitsCompatible("ml", "cup")).toBe(true);
+    expect(areUnitsCompatible("g", "ml")).toBe(false);
+  });
+
+  it("should convert between metric and imperial units", () => {
+    expect(convertUnit(1, "kg", "g")).toBeCloseTo(1000);
+    expect(convertUnit(1, "lb", "g")).toBeCloseTo(453.59, 1);
+    expect(convertUnit(1, "cup", "ml")).toBeCloseTo(236.59, 1);
+    expect(convertUnit(2, "pints", "quart")).toBeCloseTo(1);
+  });
+});
+
+describe("Combining Mixed Units", () => {
+  it("should combine grams of butter with ounces of butter", () => {
+    const combined = combineQuantities(200, "g", 4, "oz", "metric");
+    expect(combined).not.toBeNull();
+    expect(combined!.unit).toBe("g");
+    expect(combined!.quantity).toBeCloseTo(313.4, 1);
+  });
+
+  it("should promote to kilograms and liters above 1000", () => {
+    expect(combineQuantities(800, "g", 500, "g", "metric")).toEqual({
+      quantity: 1.3,
+      unit: "kg",
+    });
+    expect(combineQuantities(750, "ml", 500, "ml", "metric")).toEqual({
+      quantity: 1.25,
+      unit: "l",
+    });
+  });
+
+  it("should default to the first unit's system", () => {
+    expect(combineQuantities(100, "g", 100, "g")!.unit).toBe("g");
+    expect(combineQuantities(1, "cup", 1, "cup")!.unit).toBe("cups");
+  });
+});
+
+describe("Preferred Unit System", () => {
+  it("should convert imperial quantities to metric", () => {
+    expect(convertToSystem(2, "cups", "metric")).toEqual({
+      quantity: 473.18,
+      unit: "ml",
+    });
+    expect(convertToSystem(3, "lbs", "metric")).toEqual({
+      quantity: 1.36,
+      unit: "kg",
+    });
+  });
+
+  it("should convert metric quantities to imperial", () => {
+    expect(convertToSystem(500, "g", "imperial")).toEqual({
+      quantity: 1.1,
+      unit: "lbs",
+    });
+  });
+
+  it("should leave count units and matching systems unchanged", () => {
+    expect(convertToSystem(3, "cloves", "metric")).toEqual({
+      quantity: 3,
+      unit: "cloves",
+    });
+    expect(convertToSystem(1.5, "cups", "imperial")).toEqual({
+      quantity: 1.5,
+      unit: "cups",
+    });
+  });
+});
@@ -8,7 +8,10 @@
  * @module
  */
 
+import type * as accountDeletion from "../accountDeletion.js";
 import type * as actions_convertRecipeDiet from "../actions/convertRecipeDiet.js";
+import type * as actions_exportRecipes from "../actions/exportRecipes.js";
+import type * as actions_exportUserData from "../actions/exportUserData.js";
 import type * as actions_extractCookbookName from "../actions/extractCookbookName.js";
 import type * as actions_extractRecipeFromUrl from "../actions/extractRecipeFromUrl.js";
 import type * as actions_extractRecipeWithGemini from "../actions/extractRecipeWithGemini.js";
@@ -17,6 +20,7 @@ import type * as actions_generateCookbookCover from "../actions/generateCookbook
 import type * as actions_generateRecipeChat from "../actions/generateRecipeChat.js";
 import type * as actions_generateRecipeImage from "../actions/generateRecipeImage.js";
 import type * as actions_generateSpeechmaticsJWT from "../actions/generateSpeechmaticsJWT.js";
+import type * as actions_importRecipes from "../actions/importRecipes.js";
 import type * as actions_processRecipeImage from "../actions/processRecipeImage.js";
 import type * as actions_sendCreatorMessage from "../actions/sendCreatorMessage.js";
 import type * as actions_sendRecipeToInstacart from "../actions/sendRecipeToInstacart.js";
@@ -34,32 +38,62 @@ import type * as actions_youtube_seedFeaturedChannelsAction from "../actions/you
 import type * as aiChat from "../aiChat.js";
 import type * as aiChatCleanup from "../aiChatCleanup.js";
 import type * as aiChatUsage from "../aiChatUsage.js";
+import type * as calendarFeeds from "../calendarFeeds.js";
 import type * as channels from "../channels.js";
 import type * as cookbooks from "../cookbooks.js";
+import type * as cookLogs from "../cookLogs.js";
 import type * as creator from "../creator.js";
 import type * as creatorMessaging from "../creatorMessaging.js";
 import type * as creatorSchema from "../creatorSchema.js";
 import type * as creatorShop from "../creatorShop.js";
 import type * as crons from "../crons.js";
+import type * as dataExport from "../dataExport.js";
+import type * as households from "../households.js";
 import type * as http from "../http.js";
 import type * as internalMutations from "../internalMutations.js";
+import type * as lib_accountDeletion from "../lib/accountDeletion.js";
 import type * as lib_aiRecipeTransform from "../lib/aiRecipeTransform.js";
+import type * as lib_calendarFeed from "../lib/calendarFeed.js";
 import type * as lib_categoryAssignment from "../lib/categoryAssignment.js";
 import type * as lib_chatCleanup from "../lib/chatCleanup.js";
+import type * as lib_dataExport from "../lib/dataExport.js";
+import type * as lib_households from "../lib/households.js";
 import type * as lib_ingredientAggregation from "../lib/ingredientAggregation.js";
 import type * as lib_instacartUtils from "../lib/instacartUtils.js";
+import type * as lib_mealNutrition from "../lib/mealNutrition.js";
+import type * as lib_mealPlanGenerator from "../lib/mealPlanGenerator.js";
+import type * as lib_mealPlanTemplates from "../lib/mealPlanTemplates.js";
+import type * as lib_mealServings from "../lib/mealServings.js";
 import type * as lib_multiPageMerge from "../lib/multiPageMerge.js";
+import type * as lib_offlineStorage from "../lib/offlineStorage.js";
+import type * as lib_offlineSync from "../lib/offlineSync.js";
 import type * as lib_onesignalUtils from "../lib/onesignalUtils.js";
+import type * as lib_pantryMatching from "../lib/pantryMatching.js";
 import type * as lib_parseJsonLdRecipe from "../lib/parseJsonLdRecipe.js";
 import type * as lib_parseMicrodataRecipe from "../lib/parseMicrodataRecipe.js";
+import type * as lib_recipeExport from "../lib/recipeExport.js";
+import type * as lib_recipeImport from "../lib/recipeImport.js";
+import type * as lib_recipeRevisions from "../lib/recipeRevisions.js";
+import type * as lib_recipeSearch from "../lib/recipeSearch.js";
 import type * as lib_recipeTypes from "../lib/recipeTypes.js";
+import type * as lib_recipeVariations from "../lib/recipeVariations.js";
 import type * as lib_unitConversion from "../lib/unitConversion.js";
 import type * as lib_youtubeTypes from "../lib/youtubeTypes.js";
 import type * as lib_youtubeUrlParser from "../lib/youtubeUrlParser.js";
+import type * as mealPlanDrafts from "../mealPlanDrafts.js";
 import type * as mealPlanner from "../mealPlanner.js";
+import type * as mealPlanTemplates from "../mealPlanTemplates.js";
+import type * as migrations_backfillCalculatedNutrition from "../migrations/backfillCalculatedNutrition.js";
+import type * as migrations_backfillIngredientDetails from "../migrations/backfillIngredientDetails.js";
+import type * as migrations_backfillRecipeSearchFields from "../migrations/backfillRecipeSearchFields.js";
 import type * as migrations_migrateMessagesToSessions from "../migrations/migrateMessagesToSessions.js";
 import type * as mutations_seedDemoData from "../mutations/seedDemoData.js";
+import type * as pantry from "../pantry.js";
 import type * as physicalCookbooks from "../physicalCookbooks.js";
+import type * as recipeDuplicates from "../recipeDuplicates.js";
+import type * as recipeExport from "../recipeExport.js";
+import type * as recipeImport from "../recipeImport.js";
+import type * as recipeRevisions from "../recipeRevisions.js";
 import type * as recipes from "../recipes.js";
 import type * as scanSessions from "../scanSessions.js";
 import type * as seed_creatorDemo from "../seed/creatorDemo.js";
@@ -77,7 +111,10 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  accountDeletion: typeof accountDeletion;
   "actions/convertRecipeDiet": typeof actions_convertRecipeDiet;
+  "actions/exportRecipes": typeof actions_exportRecipes;
+  "actions/exportUserData": typeof actions_exportUserData;
   "actions/extractCookbookName": typeof actions_extractCookbookName;
   "actions/extractRecipeFromUrl": typeof actions_extractRecipeFromUrl;
   "actions/extractRecipeWithGemini": typeof actions_extractRecipeWithGemini;
@@ -86,6 +123,7 @@ declare const fullApi: ApiFromModules<{
   "actions/generateRecipeChat": typeof actions_generateRecipeChat;
   "actions/generateRecipeImage": typeof actions_generateRecipeImage;
   "actions/generateSpeechmaticsJWT": typeof actions_generateSpeechmaticsJWT;
+  "actions/importRecipes": typeof actions_importRecipes;
   "actions/processRecipeImage": typeof actions_processRecipeImage;
   "actions/sendCreatorMessage": typeof actions_sendCreatorMessage;
   "actions/sendRecipeToInstacart": typeof actions_sendRecipeToInstacart;
@@ -103,32 +141,62 @@ declare const fullApi: ApiFromModules<{
   aiChat: typeof aiChat;
   aiChatCleanup: typeof aiChatCleanup;
   aiChatUsage: typeof aiChatUsage;
+  calendarFeeds: typeof calendarFeeds;
   channels: typeof channels;
   cookbooks: typeof cookbooks;
+  cookLogs: typeof cookLogs;
   creator: typeof creator;
   creatorMessaging: typeof creatorMessaging;
   creatorSchema: typeof creatorSchema;
   creatorShop: typeof creatorShop;
   crons: typeof crons;
+  dataExport: typeof dataExport;
+  households: typeof households;
   http: typeof http;
   internalMutations: typeof internalMutations;
+  "lib/accountDeletion": typeof lib_accountDeletion;
   "lib/aiRecipeTransform": typeof lib_aiRecipeTransform;
+  "lib/calendarFeed": typeof lib_calendarFeed;
   "lib/categoryAssignment": typeof lib_categoryAssignment;
   "lib/chatCleanup": typeof lib_chatCleanup;
+  "lib/dataExport": typeof lib_dataExport;
+  "lib/households": typeof lib_households;
   "lib/ingredientAggregation": typeof lib_ingredientAggregation;
   "lib/instacartUtils": typeof lib_instacartUtils;
+  "lib/mealNutrition": typeof lib_mealNutrition;
+  "lib/mealPlanGenerator": typeof lib_mealPlanGenerator;
+  "lib/mealPlanTemplates": typeof lib_mealPlanTemplates;
+  "lib/mealServings": typeof lib_mealServings;
   "lib/multiPageMerge": typeof lib_multiPageMerge;
+  "lib/offlineStorage": typeof lib_offlineStorage;
+  "lib/offlineSync": typeof lib_offlineSync;
   "lib/onesignalUtils": typeof lib_onesignalUtils;
+  "lib/pantryMatching": typeof lib_pantryMatching;
   "lib/parseJsonLdRecipe": typeof lib_parseJsonLdRecipe;
   "lib/parseMicrodataRecipe": typeof lib_parseMicrodataRecipe;
+  "lib/recipeExport": typeof lib_recipeExport;
+  "lib/recipeImport": typeof lib_recipeImport;
+  "lib/recipeRevisions": typeof lib_recipeRevisions;
+  "lib/recipeSearch": typeof lib_recipeSearch;
   "lib/recipeTypes": typeof lib_recipeTypes;
+  "lib/recipeVariations": typeof lib_recipeVariations;
   "lib/unitConversion": typeof lib_unitConversion;
   "lib/youtubeTypes": typeof lib_youtubeTypes;
   "lib/youtubeUrlParser": typeof lib_youtubeUrlParser;
+  mealPlanDrafts: typeof mealPlanDrafts;
   mealPlanner: typeof mealPlanner;
+  mealPlanTemplates: typeof mealPlanTemplates;
+  "migrations/backfillCalculatedNutrition": typeof migrations_backfillCalculatedNutrition;
+  "migrations/backfillIngredientDetails": typeof migrations_backfillIngredientDetails;
+  "migrations/backfillRecipeSearchFields": typeof migrations_backfillRecipeSearchFields;
   "migrations/migrateMessagesToSessions": typeof migrations_migrateMessagesToSessions;
   "mutations/seedDemoData": typeof mutations_seedDemoData;
+  pantry: typeof pantry;
   physicalCookbooks: typeof physicalCookbooks;
+  recipeDuplicates: typeof recipeDuplicates;
+  recipeExport: typeof recipeExport;
+  recipeImport: typeof recipeImport;
+  recipeRevisions: typeof recipeRevisions;
   recipes: typeof recipes;
   scanSessions: typeof scanSessions;
   "seed/creatorDemo": typeof seed_creatorDemo;
@@ -0,0 +1,566 @@
+/**
+ * Account Deletion Job
+ *
+ * Removes every user-owned document and stored file when an account is
+ * deleted. Runs as a chain of scheduled internal mutations, one batch at a
+ * time, and records its progress in the accountDeletions audit table so an
+ * interrupted job can resume from the step it stopped at.
+ *
+ * Started from the Clerk user.deleted webhook, so the data is only removed
+ * once the Clerk user is actually gone.
+ * Creator shop, payout, and revenue records are retained for financial
+ * reporting and are not part of this job.
+ */
+
+import { v } from "convex/values";
+import {
+  internalMutation,
+  internalQuery,
+  MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import {
+  advanceDeletionStep,
+  DELETION_BATCH_SIZE,
+  DELETION_STEPS,
+  DeletionStep,
+  getStorageIdFromUrl,
+  isDeletionStalled,
+} from "./lib/accountDeletion";
+import { deleteHouseholdMembership, getHouseholdMembership } from "./households";
+import { deleteRecipeRevisions } from "./recipeRevisions";
+
+/**
+ * Result of deleting one batch from a step
+ */
+interface BatchResult {
+  documentsDeleted: number;
+  filesDeleted: number;
+  /** Parent documents in the batch; a short batch finishes the step */
+  batchLength: number;
+}
+
+/**
+ * Delete a file from Convex storage if it exists
+ *
+ * Accepts a storage ID or a storage URL. Files that are already gone
+ * (e.g., a cover image shared by a recipe and a cookbook) are skipped.
+ *
+ * @returns 1 if a file was deleted, otherwise 0
+ */
+async function deleteStoredFile(
+  ctx: MutationCtx,
+  ref: string | undefined
+): Promise<number> {
+  if (!ref) return 0;
+
+  const rawId = ref.includes("/") ? getStorageIdFromUrl(ref) : ref;
+  if (!rawId) return 0;
+
+  const storageId = (ctx.db.system.normalizeId("_storage", rawId) ??
+    rawId) as Id<"_storage">;
+
+  try {
+    await ctx.storage.delete(storageId);
+    return 1;
+  } catch {
+    // File does not exist (already deleted or not a storage file)
+    return 0;
+  }
+}
+
+/**
+ * Check if a recipe outside the account uses the same stored image
+ *
+ * Variations and copies of shared recipes keep the original's imageUrl,
+ * so the file must stay while another user's recipe still shows it.
+ */
+async function isImageUsedByOthers(
+  ctx: MutationCtx,
+  imageUrl: string,
+  userId: string
+): Promise<boolean> {
+  if (!getStorageIdFromUrl(imageUrl)) return false;
+
+  const other = await ctx.db
+    .query("recipes")
+    .withIndex("by_image_url", (q) => q.eq("imageUrl", imageUrl))
+    .filter((q) => q.neq(q.field("userId"), userId))
+    .first();
+
+  return other !== null;
+}
+
+/**
+ * Delete one batch of documents for a deletion step
+ */
+async function deleteBatch(
+  ctx: MutationCtx,
+  step: DeletionStep,
+  userId: string
+): Promise<BatchResult> {
+  let documentsDeleted = 0;
+  let filesDeleted = 0;
+  let batchLength = 0;
+
+  switch (step) {
+    case "householdMembers": {
+      const membership = await getHouseholdMembership(ctx, userId);
+      batchLength = membership ? 1 : 0;
+
+      if (membership) {
+        await deleteHouseholdMembership(ctx, membership);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "recipes": {
+      const recipes = await ctx.db
+        .query("recipes")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = recipes.length;
+
+      for (const recipe of recipes) {
+        const cookbookRecipes = await ctx.db
+          .query("cookbookRecipes")
+          .withIndex("by_recipe", (q) => q.eq("recipeId", recipe._id))
+          .collect();
+        for (const cr of cookbookRecipes) {
+          await ctx.db.delete(cr._id);
+        }
+
+        const attributions = await ctx.db
+          .query("recipeAttribution")
+          .withIndex("by_recipe", (q) => q.eq("recipeId", recipe._id))
+          .collect();
+        for (const attribution of attributions) {
+          await ctx.db.delete(attribution._id);
+        }
+
+        const revisionsDeleted = await deleteRecipeRevisions(ctx, recipe._id);
+
+        if (!(await isImageUsedByOthers(ctx, recipe.imageUrl, userId))) {
+          filesDeleted += await deleteStoredFile(ctx, recipe.imageUrl);
+        }
+        await ctx.db.delete(recipe._id);
+        documentsDeleted +=
+          1 + cookbookRecipes.length + attributions.length + revisionsDeleted;
+      }
+      break;
+    }
+
+    case "cookLogs": {
+      const logs = await ctx.db
+        .query("cookLogs")
+        .withIndex("by_user_cooked", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = logs.length;
+
+      for (const log of logs) {
+        await ctx.db.delete(log._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "cookbooks": {
+      const cookbooks = await ctx.db
+        .query("cookbooks")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = cookbooks.length;
+
+      for (const cookbook of cookbooks) {
+        const cookbookRecipes = await ctx.db
+          .query("cookbookRecipes")
+          .withIndex("by_cookbook", (q) => q.eq("cookbookId", cookbook._id))
+          .collect();
+        for (const cr of cookbookRecipes) {
+          await ctx.db.delete(cr._id);
+        }
+
+        filesDeleted += await deleteStoredFile(ctx, cookbook.coverUrl);
+        await ctx.db.delete(cookbook._id);
+        documentsDeleted += 1 + cookbookRecipes.length;
+      }
+      break;
+    }
+
+    case "plannedMeals": {
+      const meals = await ctx.db
+        .query("plannedMeals")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = meals.length;
+
+      for (const meal of meals) {
+        await ctx.db.delete(meal._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "mealPlanDrafts": {
+      const drafts = await ctx.db
+        .query("mealPlanDrafts")
+        .withIndex("by_user_week", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = drafts.length;
+
+      for (const draft of drafts) {
+        await ctx.db.delete(draft._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "mealPlanTemplates": {
+      const templates = await ctx.db
+        .query("mealPlanTemplates")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = templates.length;
+
+      for (const template of templates) {
+        await ctx.db.delete(template._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "calendarFeeds": {
+      const feeds = await ctx.db
+        .query("calendarFeeds")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = feeds.length;
+
+      for (const feed of feeds) {
+        await ctx.db.delete(feed._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "shoppingLists": {
+      const lists = await ctx.db
+        .query("shoppingLists")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = lists.length;
+
+      for (const list of lists) {
+        const items = await ctx.db
+          .query("shoppingItems")
+          .withIndex("by_list", (q) => q.eq("listId", list._id))
+          .collect();
+        for (const item of items) {
+          await ctx.db.delete(item._id);
+        }
+
+        await ctx.db.delete(list._id);
+        documentsDeleted += 1 + items.length;
+      }
+      break;
+    }
+
+    case "pantryItems": {
+      const items = await ctx.db
+        .query("pantryItems")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = items.length;
+
+      for (const item of items) {
+        await ctx.db.delete(item._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "scanSessions": {
+      const sessions = await ctx.db
+        .query("scanSessions")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = sessions.length;
+
+      for (const session of sessions) {
+        filesDeleted += await deleteStoredFile(ctx, session.coverImageId);
+        await ctx.db.delete(session._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "physicalCookbooks": {
+      const cookbooks = await ctx.db
+        .query("physicalCookbooks")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = cookbooks.length;
+
+      for (const cookbook of cookbooks) {
+        filesDeleted += await deleteStoredFile(ctx, cookbook.coverImageId);
+        await ctx.db.delete(cookbook._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "scanHistory": {
+      const scans = await ctx.db
+        .query("scanHistory")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = scans.length;
+
+      for (const scan of scans) {
+        await ctx.db.delete(scan._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "aiChatMessages": {
+      const messages = await ctx.db
+        .query("aiChatMessages")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = messages.length;
+
+      for (const message of messages) {
+        filesDeleted += await deleteStoredFile(ctx, message.imageUrl);
+        await ctx.db.delete(message._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "aiChatSessions": {
+      const sessions = await ctx.db
+        .query("aiChatSessions")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = sessions.length;
+
+      for (const session of sessions) {
+        await ctx.db.delete(session._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "aiChatUsage": {
+      const usage = await ctx.db
+        .query("aiChatUsage")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = usage.length;
+
+      for (const record of usage) {
+        await ctx.db.delete(record._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "userFollowedChannels": {
+      const follows = await ctx.db
+        .query("userFollowedChannels")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = follows.length;
+
+      for (const follow of follows) {
+        await ctx.db.delete(follow._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "dataExports": {
+      const exports = await ctx.db
+        .query("dataExports")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .take(DELETION_BATCH_SIZE);
+      batchLength = exports.length;
+
+      for (const dataExport of exports) {
+        filesDeleted += await deleteStoredFile(ctx, dataExport.storageId);
+        await ctx.db.delete(dataExport._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+
+    case "users": {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+        .unique();
+
+      if (user) {
+        await ctx.db.delete(user._id);
+        documentsDeleted++;
+      }
+      break;
+    }
+  }
+
+  return { documentsDeleted, filesDeleted, batchLength };
+}
+
+/**
+ * Create or resume the deletion job for a user
+ *
+ * Reuses an existing audit entry: in-progress jobs are left running (or
+ * rescheduled from their current step if stalled), and completed jobs are
+ * returned as-is unless the user record has reappeared since.
+ */
+async function startDeletion(
+  ctx: MutationCtx,
+  userId: string,
+  source: "user" | "webhook"
+): Promise<Id<"accountDeletions">> {
+  const now = Date.now();
+
+  const existing = await ctx.db
+    .query("accountDeletions")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .first();
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+    .unique();
+
+  if (existing && (existing.status === "in_progress" || !user)) {
+    if (
+      existing.status === "in_progress" &&
+      isDeletionStalled(existing.updatedAt, now)
+    ) {
+      await ctx.db.patch(existing._id, { updatedAt: now });
+      await ctx.scheduler.runAfter(
+        0,
+        internal.accountDeletion.processDeletionBatch,
+        { deletionId: existing._id }
+      );
+    }
+    return existing._id;
+  }
+
+  const deletionId = await ctx.db.insert("accountDeletions", {
+    userId,
+    source,
+    status: "in_progress",
+    currentStep: 0,
+    documentsDeleted: 0,
+    filesDeleted: 0,
+    requestedAt: now,
+    updatedAt: now,
+  });
+
+  await ctx.scheduler.runAfter(
+    0,
+    internal.accountDeletion.processDeletionBatch,
+    { deletionId }
+  );
+
+  return deletionId;
+}
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Start account deletion (internal - called from Clerk webhook)
+ */
+export const startAccountDeletion = internalMutation({
+  args: {
+    clerkId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await startDeletion(ctx, args.clerkId, "webhook");
+  },
+});
+
+/**
+ * Process one batch of an account deletion job
+ *
+ * Deletes up to DELETION_BATCH_SIZE documents for the current step,
+ * records progress, and schedules itself until every step is complete.
+ */
+export const processDeletionBatch = internalMutation({
+  args: {
+    deletionId: v.id("accountDeletions"),
+  },
+  handler: async (ctx, args) => {
+    const deletion = await ctx.db.get(args.deletionId);
+    if (!deletion || deletion.status === "completed") {
+      return null;
+    }
+
+    const step = DELETION_STEPS[deletion.currentStep];
+    const result = await deleteBatch(ctx, step, deletion.userId);
+
+    const now = Date.now();
+    const { nextStep, isComplete } = advanceDeletionStep(
+      deletion.currentStep,
+      result.batchLength
+    );
+
+    await ctx.db.patch(args.deletionId, {
+      currentStep: nextStep,
+      documentsDeleted: deletion.documentsDeleted + result.documentsDeleted,
+      filesDeleted: deletion.filesDeleted + result.filesDeleted,
+      status: isComplete ? "completed" : "in_progress",
+      updatedAt: now,
+      ...(isComplete ? { completedAt: now } : {}),
+    });
+
+    if (isComplete) {
+      console.log(
+        `Account deletion complete for ${deletion.userId}: ` +
+          `${deletion.documentsDeleted + result.documentsDeleted} documents, ` +
+          `${deletion.filesDeleted + result.filesDeleted} files`
+      );
+      return null;
+    }
+
+    await ctx.scheduler.runAfter(
+      0,
+      internal.accountDeletion.processDeletionBatch,
+      { deletionId: args.deletionId }
+    );
+
+    return null;
+  },
+});
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Get the deletion audit entries for a Clerk user ID
+ *
+ * Used by support to confirm that an account's data was removed.
+ */
+export const getDeletionAudit = internalQuery({
+  args: {
+    clerkId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("accountDeletions")
+      .withIndex("by_user", (q) => q.eq("userId", args.clerkId))
+      .order("desc")
+      .collect();
+  },
+});
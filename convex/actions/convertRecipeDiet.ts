@@ -4,12 +4,16 @@
  * Convert Recipe Diet Action
  *
  * Uses Gemini AI to intelligently convert recipes to vegetarian or vegan,
- * updating both ingredients and instructions appropriately.
+ * updating both ingredients and instructions appropriately. Results replace
+ * the recipe (keeping the original as a revision) or are saved as a new
+ * recipe or a variation.
  */
 
 import { v } from "convex/values";
 import { action } from "../_generated/server";
 import { api } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { getConvertedRecipeArgs } from "../lib/dietConversion";
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY_EXTRACT || process.env.GEMINI_API_KEY;
 
@@ -30,6 +34,7 @@ interface ConversionResult {
   instructionChanges: string[];
   tips: string[];
   error?: string;
+  variationId?: Id<"recipes">;
 }
 
 /**
@@ -178,6 +183,7 @@ export const convertRecipeDiet = action({
     recipeId: v.id("recipes"),
     dietType: v.union(v.literal("vegetarian"), v.literal("vegan"), v.literal("gluten-free")),
     saveAsNew: v.optional(v.boolean()), // If true, create a new recipe instead of modifying
+    saveAsVariation: v.optional(v.boolean()), // If true, save as a variation of the original
   },
   handler: async (ctx, args): Promise<ConversionResult> => {
     // Fetch the recipe
@@ -232,32 +238,39 @@ export const convertRecipeDiet = action({
       "gluten-free": "Gluten-Free",
     };
 
-    if (args.saveAsNew) {
-      // Create a new recipe with the converted data
-      await ctx.runMutation(api.recipes.createRecipe, {
+    const convertedTags = [...(recipe.dietaryTags || []).filter(t => !["contains-meat", "contains-dairy", "contains-gluten"].includes(t)), args.dietType];
+    let variationId: Id<"recipes"> | undefined;
+
+    if (args.saveAsVariation) {
+      // Fork the original, which stays unchanged
+      variationId = await ctx.runMutation(api.recipes.createVariation, {
+        recipeId: args.recipeId,
         title: `${recipe.title} (${dietLabels[args.dietType]})`,
-        source: recipe.source,
-        sourceUrl: recipe.sourceUrl,
-        youtubeVideoId: recipe.youtubeVideoId,
-        imageUrl: recipe.imageUrl,
         ingredients: newIngredients,
         instructions: result.instructions,
-        servings: recipe.servings,
-        prepTime: recipe.prepTime,
-        cookTime: recipe.cookTime,
-        difficulty: recipe.difficulty,
-        cuisineType: recipe.cuisineType,
-        dietaryTags: [...(recipe.dietaryTags || []).filter(t => !["contains-meat", "contains-dairy", "contains-gluten"].includes(t)), args.dietType],
-        notes: `Converted from original recipe. Changes: ${(result.instructionChanges || []).join("; ")}`,
-        nutrition: recipe.nutrition,
+        dietaryTags: convertedTags,
+        notes: `Converted to ${dietLabels[args.dietType]}: ${(result.instructionChanges || []).join("; ")}`,
       });
+    } else if (args.saveAsNew) {
+      // Create a new recipe with the converted data
+      await ctx.runMutation(
+        api.recipes.createRecipe,
+        getConvertedRecipeArgs(recipe, {
+          title: `${recipe.title} (${dietLabels[args.dietType]})`,
+          ingredients: newIngredients,
+          instructions: result.instructions,
+          dietaryTags: convertedTags,
+          instructionChanges: result.instructionChanges || [],
+        })
+      );
     } else {
-      // Update the existing recipe
+      // Update the existing recipe; the original is kept as a revision
       await ctx.runMutation(api.recipes.updateRecipe, {
         id: args.recipeId,
+        changeSummary: `Converted to ${dietLabels[args.dietType]}`,
         ingredients: newIngredients,
         instructions: result.instructions,
-        dietaryTags: [...(recipe.dietaryTags || []).filter(t => !["contains-meat", "contains-dairy", "contains-gluten"].includes(t)), args.dietType],
+        dietaryTags: convertedTags,
         notes: recipe.notes
           ? `${recipe.notes}\n\nConverted to ${dietLabels[args.dietType]}: ${(result.instructionChanges || []).join("; ")}`
           : `Converted to ${dietLabels[args.dietType]}: ${(result.instructionChanges || []).join("; ")}`,
@@ -271,6 +284,7 @@ export const convertRecipeDiet = action({
       instructions: result.instructions,
       instructionChanges: result.instructionChanges || [],
       tips: result.tips || [],
+      variationId,
     };
   },
 });
@@ -0,0 +1,136 @@
+"use node";
+
+/**
+ * Export Recipes Action
+ *
+ * Exports a single recipe, a digital cookbook, or the whole library as
+ * schema.org JSON-LD, Markdown, or a Paprika .paprikarecipes archive.
+ *
+ * Text formats are returned inline so the app can hand them to the native
+ * share sheet. Paprika archives are binary, so they are stored in Convex
+ * file storage and returned as a temporary download URL.
+ */
+
+import { gzipSync } from "zlib";
+import { v } from "convex/values";
+import { action } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { DATA_EXPORT_TTL_MS } from "../lib/dataExport";
+import {
+  buildPaprikaArchive,
+  recipesToJsonLd,
+  recipesToMarkdown,
+  toSafeFileName,
+} from "../lib/recipeExport";
+
+/**
+ * Result of a recipe export request
+ *
+ * Text formats include `content`; Paprika archives include `url`.
+ */
+interface ExportRecipesResult {
+  fileName: string;
+  mimeType: string;
+  recipeCount: number;
+  content?: string;
+  url?: string;
+  expiresAt?: number;
+}
+
+/**
+ * Export recipes
+ *
+ * Pass recipeId to export one recipe, cookbookId to export a cookbook,
+ * or neither to export the whole library.
+ */
+export const exportRecipes = action({
+  args: {
+    recipeId: v.optional(v.id("recipes")),
+    cookbookId: v.optional(v.id("cookbooks")),
+    format: v.union(
+      v.literal("jsonld"),
+      v.literal("paprika"),
+      v.literal("markdown")
+    ),
+  },
+  handler: async (ctx, args): Promise<ExportRecipesResult> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    if (args.recipeId && args.cookbookId) {
+      throw new Error("Export either a recipe or a cookbook, not both");
+    }
+
+    const userId = identity.subject;
+
+    const { title, recipes } = await ctx.runQuery(
+      internal.recipeExport.getRecipesForExport,
+      {
+        userId,
+        recipeId: args.recipeId,
+        cookbookId: args.cookbookId,
+      }
+    );
+
+    if (recipes.length === 0) {
+      throw new Error("No recipes to export");
+    }
+
+    const baseName = toSafeFileName(title);
+
+    if (args.format === "jsonld") {
+      return {
+        fileName: `${baseName}.json`,
+        mimeType: "application/ld+json",
+        recipeCount: recipes.length,
+        content: recipesToJsonLd(recipes),
+      };
+    }
+
+    if (args.format === "markdown") {
+      return {
+        fileName: `${baseName}.md`,
+        mimeType: "text/markdown",
+        recipeCount: recipes.length,
+        content: recipesToMarkdown(recipes),
+      };
+    }
+
+    // Paprika: ZIP of gzipped recipe files
+    const now = Date.now();
+    const archive = buildPaprikaArchive(recipes, (data) => gzipSync(data));
+    // The React Native Blob typings only list string and Blob parts, but
+    // the Convex runtime accepts binary data
+    const blob = new Blob([archive as unknown as Blob], {
+      type: "application/zip",
+      lastModified: now,
+    });
+
+    const storageId = await ctx.storage.store(blob);
+    const url = await ctx.storage.getUrl(storageId);
+
+    if (!url) {
+      await ctx.storage.delete(storageId);
+      throw new Error("Failed to create export file");
+    }
+
+    const expiresAt = now + DATA_EXPORT_TTL_MS;
+
+    // Track the file so it is removed when the download window ends
+    await ctx.runMutation(internal.dataExport.recordDataExport, {
+      userId,
+      storageId,
+      expiresAt,
+    });
+
+    return {
+      fileName: `${baseName}.paprikarecipes`,
+      mimeType: "application/zip",
+      recipeCount: recipes.length,
+      url,
+      expiresAt,
+    };
+  },
+});
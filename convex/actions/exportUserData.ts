@@ -0,0 +1,81 @@
+/**
+ * Export User Data Action
+ *
+ * Gathers everything the authenticated user owns into one versioned JSON
+ * document, stores it in Convex file storage, and returns a download URL.
+ * The file is deleted automatically after a short window.
+ */
+
+import { action } from "../_generated/server";
+import { internal } from "../_generated/api";
+import {
+  buildDataExport,
+  DATA_EXPORT_TTL_MS,
+  getDataExportFileName,
+} from "../lib/dataExport";
+
+/**
+ * Result of a data export request
+ */
+interface ExportUserDataResult {
+  url: string;
+  fileName: string;
+  expiresAt: number;
+}
+
+/**
+ * Export all of the user's data as JSON
+ *
+ * This action:
+ * 1. Gathers the user's recipes, cookbooks, meal plan, shopping lists,
+ *    chat history, and subscription state
+ * 2. Builds a versioned export document
+ * 3. Stores it in Convex file storage
+ * 4. Returns a download URL that expires after DATA_EXPORT_TTL_MS
+ */
+export const exportUserData = action({
+  args: {},
+  handler: async (ctx): Promise<ExportUserDataResult> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const now = Date.now();
+
+    const data = await ctx.runQuery(internal.dataExport.getUserDataForExport, {
+      userId,
+    });
+
+    const document = buildDataExport(userId, data, now);
+    const blob = new Blob([JSON.stringify(document, null, 2)], {
+      type: "application/json",
+      lastModified: now,
+    });
+
+    // Store the export in Convex file storage
+    const storageId = await ctx.storage.store(blob);
+    const url = await ctx.storage.getUrl(storageId);
+
+    if (!url) {
+      await ctx.storage.delete(storageId);
+      throw new Error("Failed to create export file");
+    }
+
+    const expiresAt = now + DATA_EXPORT_TTL_MS;
+
+    // Track the file so it is removed when the download window ends
+    await ctx.runMutation(internal.dataExport.recordDataExport, {
+      userId,
+      storageId,
+      expiresAt,
+    });
+
+    return {
+      url,
+      fileName: getDataExportFileName(now),
+      expiresAt,
+    };
+  },
+});
@@ -16,6 +16,8 @@ import type {
   IngredientCategory,
   RawIngredient,
 } from "../lib/recipeTypes";
+import { enrichIngredient, parseIngredientText } from "../lib/ingredientParser";
+import { parseExtractedInstructionSections } from "../lib/recipeSections";
 
 /**
  * Valid ingredient categories
@@ -51,10 +53,12 @@ Return a JSON object with the following structure (use exactly these field names
         "quantity": 1.5,
         "unit": "cup",
         "category": "one of: meat, produce, dairy, pantry, spices, condiments, bread, other"
-      }
+      },
+      "section": "Heading the ingredient is listed under, e.g. For the sauce (omit if none)"
     }
   ],
   "instructions": ["Step 1 text", "Step 2 text"],
+  "instructionSections": [{"title": "Make the sauce", "startStep": 1}],
   "servings": 4,
   "prepTime": 15,
   "cookTime": 30,
@@ -81,6 +85,7 @@ Guidelines:
   - condiments: sauces, vinegar, mustard, mayo, dressings
   - bread: bread, rolls, tortillas, crackers
   - other: anything else
+- Keep ingredient and step headings out of the ingredient and instruction lists; use "section" on each ingredient and "instructionSections" (1-based number of the first step under each heading) instead, or [] when there are no headings
 - For time values, convert to minutes (e.g., "1 hour" = 60)
 - Use "low" confidence if the data seems uncertain or incomplete
 - Use "medium" confidence for data that seems reasonable but not explicitly stated
@@ -178,29 +183,48 @@ function parseGeminiResponse(response: unknown): ExtractedRecipeData | null {
   // Extract ingredients
   let ingredients: RawIngredient[] = [];
   if (Array.isArray(data.ingredients)) {
-    ingredients = data.ingredients.map((ing: unknown) => {
+    ingredients = data.ingredients.map((ing: unknown): RawIngredient => {
       if (typeof ing === "string") {
-        return { raw: ing, parsed: null };
+        return { raw: ing, parsed: parseIngredientText(ing) };
       }
       if (ing && typeof ing === "object") {
         const ingObj = ing as Record<string, unknown>;
-        const raw =
-          typeof ingObj.raw === "string" ? ingObj.raw : JSON.stringify(ing);
-
-        let parsed = null;
-        if (ingObj.parsed && typeof ingObj.parsed === "object") {
-          const p = ingObj.parsed as Record<string, unknown>;
-          parsed = {
-            name: typeof p.name === "string" ? p.name : raw,
-            quantity: typeof p.quantity === "number" ? p.quantity : 1,
-            unit: typeof p.unit === "string" ? p.unit : "item",
-            category: normalizeCategory(p.category),
-          };
+        const p =
+          ingObj.parsed && typeof ingObj.parsed === "object"
+            ? (ingObj.parsed as Record<string, unknown>)
+            : null;
+        const section =
+          typeof ingObj.section === "string" && ingObj.section.trim()
+            ? ingObj.section.trim()
+            : undefined;
+
+        // The original text is parsed deterministically; the AI's split is
+        // only used when the text is missing
+        if (typeof ingObj.raw === "string" && ingObj.raw.trim()) {
+          const parsed = parseIngredientText(ingObj.raw);
+          if (p?.category) {
+            parsed.category = normalizeCategory(p.category);
+          }
+          if (section) {
+            parsed.section = section;
+          }
+          return { raw: ingObj.raw, parsed };
         }
 
+        const raw = JSON.stringify(ing);
+        const parsed = p
+          ? enrichIngredient({
+              name: typeof p.name === "string" ? p.name : raw,
+              quantity: typeof p.quantity === "number" ? p.quantity : 1,
+              unit: typeof p.unit === "string" ? p.unit : "item",
+              category: normalizeCategory(p.category),
+              ...(section && { section }),
+            })
+          : null;
+
         return { raw, parsed };
       }
-      return { raw: String(ing), parsed: null };
+      return { raw: String(ing), parsed: parseIngredientText(String(ing)) };
     });
   }
 
@@ -222,11 +246,17 @@ function parseGeminiResponse(response: unknown): ExtractedRecipeData | null {
     }
   }
 
+  const instructionSections = parseExtractedInstructionSections(
+    data.instructionSections,
+    instructions.length
+  );
+
   return {
     title,
     imageUrl,
     ingredients,
     instructions,
+    ...(instructionSections.length > 0 && { instructionSections }),
     servings,
     prepTime,
     cookTime,
@@ -0,0 +1,205 @@
+"use node";
+
+/**
+ * Import Recipes Action
+ *
+ * Bulk imports recipes exported from other recipe managers (Paprika,
+ * Mealie, Tandoor, or CSV). Returns a per-recipe result so the user can
+ * see what was imported, skipped as a duplicate, or failed.
+ */
+
+import { gunzipSync, inflateRawSync } from "zlib";
+import { v } from "convex/values";
+import { action } from "../_generated/server";
+import { internal } from "../_generated/api";
+import {
+  extractRecipeEntries,
+  ImportedRecipe,
+  ImportParseResult,
+  ImportRecipeResult,
+  isGzip,
+  isZipArchive,
+  mapCsvRecipes,
+  mapMealieRecipe,
+  mapPaprikaRecipe,
+  mapTandoorRecipe,
+  MAX_IMPORT_RECIPES,
+  readZipArchive,
+  summarizeImportResults,
+} from "../lib/recipeImport";
+
+/**
+ * Number of recipes saved per mutation
+ */
+const SAVE_BATCH_SIZE = 50;
+
+/**
+ * Result of a bulk import
+ */
+interface ImportRecipesResult {
+  results: ImportRecipeResult[];
+  summary: ReturnType<typeof summarizeImportResults>;
+}
+
+/**
+ * Decode a Paprika export into recipe objects
+ *
+ * A .paprikarecipes file is a ZIP of gzipped JSON recipes; a single
+ * .paprikarecipe file is one gzipped JSON recipe.
+ */
+function readPaprikaEntries(data: Uint8Array): Record<string, unknown>[] {
+  const decode = (bytes: Uint8Array) =>
+    JSON.parse(
+      Buffer.from(isGzip(bytes) ? gunzipSync(bytes) : bytes).toString("utf8")
+    ) as Record<string, unknown>;
+
+  if (isZipArchive(data)) {
+    return readZipArchive(data, (raw) => inflateRawSync(raw))
+      .filter((file) => file.name.endsWith(".paprikarecipe"))
+      .map((file) => decode(file.data));
+  }
+
+  if (isGzip(data)) {
+    return [decode(data)];
+  }
+
+  return extractRecipeEntries(Buffer.from(data).toString("utf8"));
+}
+
+/**
+ * Import recipes from another recipe manager
+ *
+ * This action:
+ * 1. Reads the export (uploaded file or pasted text)
+ * 2. Maps each entry to the recipes schema, categorizing ingredients
+ * 3. Saves recipes in batches, skipping duplicates and enforcing the
+ *    free tier recipe limit
+ * 4. Returns per-recipe results and a summary
+ */
+export const importRecipes = action({
+  args: {
+    format: v.union(
+      v.literal("paprika"),
+      v.literal("mealie"),
+      v.literal("tandoor"),
+      v.literal("csv")
+    ),
+    // Uploaded export file (required for Paprika archives)
+    storageId: v.optional(v.id("_storage")),
+    // Pasted JSON or CSV text
+    content: v.optional(v.string()),
+    // CSV column mapping (recipe field -> header)
+    csvMapping: v.optional(
+      v.object({
+        title: v.string(),
+        ingredients: v.optional(v.string()),
+        instructions: v.optional(v.string()),
+        servings: v.optional(v.string()),
+        prepTime: v.optional(v.string()),
+        cookTime: v.optional(v.string()),
+        sourceUrl: v.optional(v.string()),
+        imageUrl: v.optional(v.string()),
+        notes: v.optional(v.string()),
+        cuisineType: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args): Promise<ImportRecipesResult> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    // Load the export file
+    let data: Uint8Array;
+    if (args.storageId) {
+      const blob = await ctx.storage.get(args.storageId);
+      if (!blob) {
+        throw new Error("Import file not found");
+      }
+      data = new Uint8Array(await blob.arrayBuffer());
+      await ctx.storage.delete(args.storageId);
+    } else if (args.content) {
+      data = new Uint8Array(Buffer.from(args.content, "utf8"));
+    } else {
+      throw new Error("No import file provided");
+    }
+
+    // Map entries to recipes
+    let parsed: ImportParseResult[];
+    switch (args.format) {
+      case "paprika":
+        parsed = readPaprikaEntries(data).map(mapPaprikaRecipe);
+        break;
+      case "mealie":
+        parsed = extractRecipeEntries(Buffer.from(data).toString("utf8")).map(
+          mapMealieRecipe
+        );
+        break;
+      case "tandoor":
+        parsed = extractRecipeEntries(Buffer.from(data).toString("utf8")).map(
+          mapTandoorRecipe
+        );
+        break;
+      case "csv":
+        if (!args.csvMapping) {
+          throw new Error("Column mapping required for CSV imports");
+        }
+        parsed = mapCsvRecipes(Buffer.from(data).toString("utf8"), args.csvMapping);
+        break;
+    }
+
+    if (parsed.length === 0) {
+      throw new Error("No recipes found in file");
+    }
+    if (parsed.length > MAX_IMPORT_RECIPES) {
+      throw new Error(
+        `Imports are limited to ${MAX_IMPORT_RECIPES} recipes at a time`
+      );
+    }
+
+    // Save valid recipes in batches, keeping results in file order
+    const results: (ImportRecipeResult | null)[] = parsed.map((entry) =>
+      entry.ok
+        ? null
+        : { title: entry.title, status: "failed", error: entry.error }
+    );
+    const pending = parsed
+      .map((entry, index) => (entry.ok ? { index, recipe: entry.recipe } : null))
+      .filter((p): p is { index: number; recipe: ImportedRecipe } => p !== null);
+
+    for (let i = 0; i < pending.length; i += SAVE_BATCH_SIZE) {
+      const batch = pending.slice(i, i + SAVE_BATCH_SIZE);
+      try {
+        const saved = await ctx.runMutation(
+          internal.recipeImport.saveImportedRecipes,
+          { userId, recipes: batch.map((p) => p.recipe) }
+        );
+        saved.forEach((result, j) => {
+          results[batch[j].index] = result;
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to save recipe";
+        for (const p of batch) {
+          results[p.index] = {
+            title: p.recipe.title,
+            status: "failed",
+            error: message,
+          };
+        }
+      }
+    }
+
+    const finalResults = results.filter(
+      (r): r is ImportRecipeResult => r !== null
+    );
+
+    return {
+      results: finalResults,
+      summary: summarizeImportResults(finalResults),
+    };
+  },
+});
@@ -9,6 +9,12 @@
 
 import { v } from "convex/values";
 import { action } from "../_generated/server";
+import type { PackageSize } from "../lib/aiRecipeTransform";
+import { enrichIngredient } from "../lib/ingredientParser";
+import {
+  parseExtractedInstructionSections,
+  type InstructionSection,
+} from "../lib/recipeSections";
 
 /**
  * Ingredient category type
@@ -31,6 +37,11 @@ interface ExtractedIngredient {
   quantity: number;
   unit: string;
   category: IngredientCategory;
+  packageSize?: PackageSize;
+  preparation?: string;
+  note?: string;
+  optional?: boolean;
+  section?: string;
 }
 
 /**
@@ -42,6 +53,7 @@ export interface RecipeExtractionResult {
     title: string;
     ingredients: ExtractedIngredient[];
     instructions: string[];
+    instructionSections?: InstructionSection[];
     servings: number;
     prepTime: number;
     cookTime: number;
@@ -77,9 +89,10 @@ Return a JSON object with this exact structure:
   "success": true,
   "title": "Recipe Title",
   "ingredients": [
-    {"name": "ingredient name", "quantity": 1.5, "unit": "cup", "category": "produce"}
+    {"name": "ingredient name", "quantity": 1.5, "unit": "cup", "category": "produce", "section": "For the sauce"}
   ],
   "instructions": ["Step 1...", "Step 2..."],
+  "instructionSections": [{"title": "Make the sauce", "startStep": 1}],
   "servings": 4,
   "prepTime": 15,
   "cookTime": 30,
@@ -92,9 +105,11 @@ Guidelines:
   - Parse quantity as a number (use 1 if not specified)
   - Extract unit (cup, tsp, tbsp, oz, lb, etc.) or use "item" if none
   - Categorize: meat (beef/chicken/pork/fish/seafood), produce (fruits/vegetables/fresh herbs), dairy (milk/cheese/butter/cream/eggs), pantry (flour/sugar/oil/pasta/rice/canned goods), spices (dried herbs/spices/seasonings), condiments (sauces/vinegar/mustard), bread (bread/rolls/tortillas), other (anything else)
+  - If the ingredients are grouped under headings (e.g. "For the sauce"), set "section" to the heading; omit it otherwise
 - For instructions:
   - Extract each step as a separate string
   - Include all steps in order
+  - If the steps are grouped under headings, list each heading in "instructionSections" with the 1-based number of its first step; use [] otherwise
 - For times: Convert to minutes (e.g., "1 hour" = 60)
 - For pageNumber: Extract if visible on the page, or null if not found
 
@@ -181,24 +196,32 @@ function parseGeminiResponse(response: unknown): RecipeExtractionResult {
           return null;
         }
         const ingObj = ing as Record<string, unknown>;
-        return {
+        return enrichIngredient({
           name: typeof ingObj.name === "string" ? ingObj.name.trim() : "",
           quantity: typeof ingObj.quantity === "number" ? ingObj.quantity : 1,
           unit: typeof ingObj.unit === "string" ? ingObj.unit : "item",
           category: normalizeCategory(ingObj.category),
-        };
+          ...(typeof ingObj.section === "string" &&
+            ingObj.section.trim() && { section: ingObj.section.trim() }),
+        });
       })
       .filter(
         (ing): ing is ExtractedIngredient => ing !== null && ing.name.length > 0
       );
   }
 
+  const instructionSections = parseExtractedInstructionSections(
+    data.instructionSections,
+    instructions.length
+  );
+
   return {
     success: true,
     data: {
       title,
       ingredients,
       instructions,
+      ...(instructionSections.length > 0 && { instructionSections }),
       servings,
       prepTime,
       cookTime,
@@ -14,6 +14,8 @@ import type {
   YouTubeExtractionConfidence,
 } from "../../lib/youtubeTypes";
 import type { IngredientCategory } from "../../lib/recipeTypes";
+import { enrichIngredient } from "../../lib/ingredientParser";
+import { parseExtractedInstructionSections } from "../../lib/recipeSections";
 
 /**
  * Valid ingredient categories
@@ -61,12 +63,13 @@ Return a JSON object with this exact structure:
   "isRecipe": true,
   "title": "Clean recipe title without channel name or episode info",
   "ingredients": [
-    {"name": "ingredient name", "quantity": 2, "unit": "cup", "category": "pantry"}
+    {"name": "ingredient name", "quantity": 2, "unit": "cup", "category": "pantry", "section": "For the sauce"}
   ],
   "instructions": [
     "Step 1: Detailed instruction",
     "Step 2: Next step"
   ],
+  "instructionSections": [{"title": "Make the sauce", "startStep": 1}],
   "servings": 4,
   "prepTime": 15,
   "cookTime": 30,
@@ -74,6 +77,10 @@ Return a JSON object with this exact structure:
   "extractionNotes": "Notes about extraction"
 }
 
+SECTIONS:
+- If the recipe has separate components (e.g. a sauce and a filling), set "section" on each ingredient to its component and list each component's first step (1-based) in "instructionSections"
+- Omit "section" and use [] for "instructionSections" when the recipe has a single component
+
 INGREDIENT CATEGORIES:
 - meat: beef, chicken, pork, fish, seafood, bacon, sausage, turkey, lamb, shrimp
 - produce: fruits, vegetables, fresh herbs (basil, parsley, cilantro, green onions)
@@ -146,12 +153,16 @@ function parseExtractionResponse(
     for (const ing of data.ingredients) {
       if (ing && typeof ing === "object") {
         const ingObj = ing as Record<string, unknown>;
-        ingredients.push({
-          name: typeof ingObj.name === "string" ? ingObj.name : "Unknown",
-          quantity: typeof ingObj.quantity === "number" ? ingObj.quantity : 1,
-          unit: typeof ingObj.unit === "string" ? ingObj.unit : "item",
-          category: normalizeCategory(ingObj.category),
-        });
+        ingredients.push(
+          enrichIngredient({
+            name: typeof ingObj.name === "string" ? ingObj.name : "Unknown",
+            quantity: typeof ingObj.quantity === "number" ? ingObj.quantity : 1,
+            unit: typeof ingObj.unit === "string" ? ingObj.unit : "item",
+            category: normalizeCategory(ingObj.category),
+            ...(typeof ingObj.section === "string" &&
+              ingObj.section.trim() && { section: ingObj.section.trim() }),
+          })
+        );
       }
     }
   }
@@ -166,6 +177,11 @@ function parseExtractionResponse(
     }
   }
 
+  const instructionSections = parseExtractedInstructionSections(
+    data.instructionSections,
+    instructions.length
+  );
+
   // Extract times and servings
   const servings = typeof data.servings === "number" ? data.servings : 4;
   const prepTime = typeof data.prepTime === "number" ? data.prepTime : 0;
@@ -187,6 +203,7 @@ function parseExtractionResponse(
       title,
       ingredients,
       instructions,
+      ...(instructionSections.length > 0 && { instructionSections }),
       servings,
       prepTime,
       cookTime,
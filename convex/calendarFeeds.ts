@@ -0,0 +1,252 @@
+/**
+ * Calendar Feed Queries and Mutations
+ *
+ * Manages the secret-token iCalendar feed of a user's meal plan. The feed
+ * itself is served by the /calendar/meal-plan.ics HTTP route; these
+ * functions enable, rotate and revoke the token and set the slot times
+ * used for events.
+ */
+
+import { v } from "convex/values";
+import { internalQuery, mutation, MutationCtx, query } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { getPlanMeals } from "./mealPlanner";
+import {
+  CalendarMeal,
+  DEFAULT_SLOT_TIMES,
+  generateFeedToken,
+  isValidSlotTime,
+} from "./lib/calendarFeed";
+
+/**
+ * Slot times validator
+ */
+const slotTimes = v.object({
+  breakfast: v.string(),
+  lunch: v.string(),
+  dinner: v.string(),
+  snacks: v.string(),
+});
+
+/**
+ * Days of past meals kept in the feed
+ */
+const FEED_HISTORY_DAYS = 28;
+
+/**
+ * Build the public feed URL for a token
+ */
+function getFeedUrl(token: string): string {
+  return `${process.env.CONVEX_SITE_URL}/calendar/meal-plan.ics?token=${token}`;
+}
+
+/**
+ * Get the user's calendar feed, if enabled
+ */
+async function getUserFeed(
+  ctx: MutationCtx,
+  userId: string
+): Promise<Doc<"calendarFeeds"> | null> {
+  return await ctx.db
+    .query("calendarFeeds")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get the authenticated user's calendar feed
+ *
+ * Returns the feed URL and slot times, or null when the feed is off.
+ */
+export const getCalendarFeed = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const feed = await ctx.db
+      .query("calendarFeeds")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .unique();
+
+    if (!feed) {
+      return null;
+    }
+
+    return {
+      url: getFeedUrl(feed.token),
+      slotTimes: feed.slotTimes,
+      createdAt: feed.createdAt,
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Turn on the calendar feed
+ *
+ * Does nothing if the feed is already on.
+ */
+export const enableCalendarFeed = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const existing = await getUserFeed(ctx, identity.subject);
+    if (existing) {
+      return existing._id;
+    }
+
+    const now = Date.now();
+
+    return await ctx.db.insert("calendarFeeds", {
+      userId: identity.subject,
+      token: generateFeedToken(),
+      slotTimes: DEFAULT_SLOT_TIMES,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Replace the feed token
+ *
+ * The old URL stops working immediately; calendars need to re-subscribe
+ * with the new one.
+ */
+export const rotateCalendarFeedToken = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const feed = await getUserFeed(ctx, identity.subject);
+    if (!feed) {
+      throw new Error("Calendar feed not found");
+    }
+
+    const token = generateFeedToken();
+    await ctx.db.patch(feed._id, { token, updatedAt: Date.now() });
+
+    return { url: getFeedUrl(token) };
+  },
+});
+
+/**
+ * Turn off the calendar feed, revoking its URL
+ */
+export const revokeCalendarFeed = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const feed = await getUserFeed(ctx, identity.subject);
+    if (feed) {
+      await ctx.db.delete(feed._id);
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Set the event start time for each meal slot
+ */
+export const updateCalendarSlotTimes = mutation({
+  args: {
+    slotTimes,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const feed = await getUserFeed(ctx, identity.subject);
+    if (!feed) {
+      throw new Error("Calendar feed not found");
+    }
+
+    if (!Object.values(args.slotTimes).every(isValidSlotTime)) {
+      throw new Error("Slot times must be in HH:MM format");
+    }
+
+    await ctx.db.patch(feed._id, {
+      slotTimes: args.slotTimes,
+      updatedAt: Date.now(),
+    });
+
+    return feed._id;
+  },
+});
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Get the meals for a feed token (internal - called from the HTTP route)
+ *
+ * Returns null for unknown or revoked tokens. Includes the past four
+ * weeks and all future meals of the user's plan (their household's, if
+ * they're in one).
+ */
+export const getCalendarFeedMeals = internalQuery({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const feed = await ctx.db
+      .query("calendarFeeds")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .unique();
+
+    if (!feed) {
+      return null;
+    }
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split("T")[0];
+
+    const plannedMeals = (await getPlanMeals(ctx, feed.userId)).filter(
+      (meal) => meal.day >= since
+    );
+
+    const meals: CalendarMeal[] = await Promise.all(
+      plannedMeals.map(async (meal) => {
+        const recipe = await ctx.db.get(meal.recipeId);
+        return {
+          _id: meal._id,
+          day: meal.day,
+          slot: meal.slot,
+          recipeId: meal.recipeId,
+          recipeName: recipe?.title ?? meal.recipeName,
+          totalMinutes: recipe ? recipe.prepTime + recipe.cookTime : undefined,
+          servings: meal.servings,
+          isLeftovers: meal.leftoverOfMealId !== undefined,
+        };
+      })
+    );
+
+    return { meals, slotTimes: feed.slotTimes };
+  },
+});
@@ -0,0 +1,261 @@
+/**
+ * Cook Log Mutations and Queries
+ *
+ * Records when a user cooks a recipe and exposes per-recipe cook history.
+ * Keeps the denormalized lastCookedAt/timesCooked fields on the recipe
+ * in sync so the recipe list can sort by "recently cooked".
+ */
+
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { computeCookStats, validateRating, validateServings } from "./lib/cookHistory";
+
+/**
+ * Recompute a recipe's denormalized cook stats from its cook logs
+ *
+ * Called after any insert, update, or delete so that lastCookedAt and
+ * timesCooked always reflect the cookLogs table.
+ */
+export async function refreshRecipeCookStats(
+  ctx: MutationCtx,
+  recipeId: Id<"recipes">
+): Promise<void> {
+  const recipe = await ctx.db.get(recipeId);
+  if (!recipe) return;
+
+  const logs = await ctx.db
+    .query("cookLogs")
+    .withIndex("by_recipe_cooked", (q) => q.eq("recipeId", recipeId))
+    .collect();
+
+  const stats = computeCookStats(logs);
+
+  await ctx.db.patch(recipeId, {
+    lastCookedAt: stats.lastCookedAt ?? undefined,
+    timesCooked: stats.timesCooked,
+  });
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Log a cook event for a recipe
+ *
+ * Called when the user finishes cook mode or marks a recipe as cooked.
+ * cookedAt defaults to now; servings, rating, and notes are optional.
+ */
+export const logCook = mutation({
+  args: {
+    recipeId: v.id("recipes"),
+    cookedAt: v.optional(v.number()),
+    servingsMade: v.optional(v.number()),
+    rating: v.optional(v.number()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const recipe = await ctx.db.get(args.recipeId);
+    if (!recipe) {
+      throw new Error("Recipe not found");
+    }
+
+    if (recipe.userId !== userId) {
+      throw new Error("You do not have permission to log this recipe");
+    }
+
+    validateRating(args.rating);
+    validateServings(args.servingsMade);
+
+    const now = Date.now();
+    const notes = args.notes?.trim();
+
+    const logId = await ctx.db.insert("cookLogs", {
+      userId,
+      recipeId: args.recipeId,
+      cookedAt: args.cookedAt ?? now,
+      servingsMade: args.servingsMade,
+      rating: args.rating,
+      notes: notes || undefined,
+      createdAt: now,
+    });
+
+    await refreshRecipeCookStats(ctx, args.recipeId);
+
+    return logId;
+  },
+});
+
+/**
+ * Update an existing cook log entry
+ *
+ * Allows editing the date, servings, rating, or notes after the fact.
+ */
+export const updateCookLog = mutation({
+  args: {
+    logId: v.id("cookLogs"),
+    cookedAt: v.optional(v.number()),
+    servingsMade: v.optional(v.number()),
+    rating: v.optional(v.number()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const log = await ctx.db.get(args.logId);
+    if (!log) {
+      throw new Error("Cook log not found");
+    }
+
+    if (log.userId !== userId) {
+      throw new Error("You do not have permission to update this cook log");
+    }
+
+    validateRating(args.rating);
+    validateServings(args.servingsMade);
+
+    const updates: {
+      cookedAt?: number;
+      servingsMade?: number;
+      rating?: number;
+      notes?: string;
+    } = {};
+
+    if (args.cookedAt !== undefined) {
+      updates.cookedAt = args.cookedAt;
+    }
+    if (args.servingsMade !== undefined) {
+      updates.servingsMade = args.servingsMade;
+    }
+    if (args.rating !== undefined) {
+      updates.rating = args.rating;
+    }
+    if (args.notes !== undefined) {
+      updates.notes = args.notes.trim();
+    }
+
+    await ctx.db.patch(args.logId, updates);
+
+    if (args.cookedAt !== undefined) {
+      await refreshRecipeCookStats(ctx, log.recipeId);
+    }
+
+    return args.logId;
+  },
+});
+
+/**
+ * Delete a cook log entry
+ */
+export const deleteCookLog = mutation({
+  args: {
+    logId: v.id("cookLogs"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const log = await ctx.db.get(args.logId);
+    if (!log) {
+      throw new Error("Cook log not found");
+    }
+
+    if (log.userId !== userId) {
+      throw new Error("You do not have permission to delete this cook log");
+    }
+
+    await ctx.db.delete(args.logId);
+    await refreshRecipeCookStats(ctx, log.recipeId);
+
+    return args.logId;
+  },
+});
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get the cook history for a recipe
+ *
+ * Returns cook log entries newest first.
+ */
+export const getRecipeCookHistory = query({
+  args: {
+    recipeId: v.id("recipes"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const recipe = await ctx.db.get(args.recipeId);
+    if (!recipe || recipe.userId !== userId) {
+      return [];
+    }
+
+    const historyQuery = ctx.db
+      .query("cookLogs")
+      .withIndex("by_recipe_cooked", (q) => q.eq("recipeId", args.recipeId))
+      .order("desc");
+
+    if (args.limit) {
+      return await historyQuery.take(args.limit);
+    }
+
+    return await historyQuery.collect();
+  },
+});
+
+/**
+ * Get cook stats summary for a recipe
+ *
+ * Returns the number of times cooked, the last cook date, and the
+ * average rating across rated cook logs (null if none are rated).
+ */
+export const getRecipeCookStats = query({
+  args: {
+    recipeId: v.id("recipes"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const recipe = await ctx.db.get(args.recipeId);
+    if (!recipe || recipe.userId !== userId) {
+      return null;
+    }
+
+    const logs = await ctx.db
+      .query("cookLogs")
+      .withIndex("by_recipe_cooked", (q) => q.eq("recipeId", args.recipeId))
+      .collect();
+
+    return computeCookStats(logs);
+  },
+});
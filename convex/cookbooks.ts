@@ -3,12 +3,15 @@
  *
  * CRUD operations and query functions for digital cookbooks.
  * Handles both built-in system cookbooks (Favorites, Recently Added)
- * and user-created custom cookbooks.
+ * and user-created custom cookbooks. Owners can share a custom cookbook
+ * with their household; members can then view it and add, remove and
+ * reorder its recipes, while renaming and deleting stay with the owner.
  */
 
 import { v } from "convex/values";
 import { mutation, query, internalMutation } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
+import { canAccessHouseholdDoc, canAccessRecipe, getHouseholdId } from "./households";
 
 /**
  * Cookbook sort option validator
@@ -161,7 +164,8 @@ export const syncFavoritesCookbook = internalMutation({
 /**
  * List all cookbooks for the authenticated user
  *
- * Returns both built-in and user-created cookbooks.
+ * Returns both built-in and user-created cookbooks, plus cookbooks other
+ * members have shared with the user's household.
  * Built-in cookbooks are returned first.
  */
 export const listCookbooks = query({
@@ -179,6 +183,15 @@ export const listCookbooks = query({
       .withIndex("by_user", (q) => q.eq("userId", userId))
       .collect();
 
+    const householdId = await getHouseholdId(ctx, userId);
+    if (householdId) {
+      const shared = await ctx.db
+        .query("cookbooks")
+        .withIndex("by_household", (q) => q.eq("householdId", householdId))
+        .collect();
+      cookbooks.push(...shared.filter((cookbook) => cookbook.userId !== userId));
+    }
+
     // Sort: built-in first, then by updatedAt descending
     return cookbooks.sort((a, b) => {
       if (a.isBuiltIn !== b.isBuiltIn) {
@@ -207,7 +220,7 @@ export const getCookbook = query({
     const userId = identity.subject;
     const cookbook = await ctx.db.get(args.id);
 
-    if (!cookbook || cookbook.userId !== userId) {
+    if (!cookbook || !(await canAccessHouseholdDoc(ctx, cookbook, userId))) {
       return null;
     }
 
@@ -235,7 +248,7 @@ export const getCookbookWithRecipes = query({
     const userId = identity.subject;
     const cookbook = await ctx.db.get(args.id);
 
-    if (!cookbook || cookbook.userId !== userId) {
+    if (!cookbook || !(await canAccessHouseholdDoc(ctx, cookbook, userId))) {
       return null;
     }
 
@@ -311,11 +324,11 @@ export const getCookbooksForRecipe = query({
       .withIndex("by_recipe", (q) => q.eq("recipeId", args.recipeId))
       .collect();
 
-    // Get the cookbook details for each entry, filtering by user
+    // Get the cookbook details for each entry, filtering by access
     const cookbookIds = await Promise.all(
       entries.map(async (entry) => {
         const cookbook = await ctx.db.get(entry.cookbookId);
-        if (cookbook && cookbook.userId === userId) {
+        if (cookbook && (await canAccessHouseholdDoc(ctx, cookbook, userId))) {
           return cookbook._id;
         }
         return null;
@@ -535,6 +548,52 @@ export const deleteCookbook = mutation({
   },
 });
 
+/**
+ * Share or unshare a cookbook with the owner's household
+ *
+ * Members can view shared cookbooks and add, remove and reorder their
+ * recipes. Built-in cookbooks can't be shared.
+ */
+export const setCookbookShared = mutation({
+  args: {
+    id: v.id("cookbooks"),
+    shared: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const cookbook = await ctx.db.get(args.id);
+
+    if (!cookbook) {
+      throw new Error("Cookbook not found");
+    }
+
+    if (cookbook.userId !== userId) {
+      throw new Error("You do not have permission to share this cookbook");
+    }
+
+    if (cookbook.isBuiltIn) {
+      throw new Error("Cannot share built-in cookbooks");
+    }
+
+    let householdId: Id<"households"> | undefined;
+    if (args.shared) {
+      householdId = (await getHouseholdId(ctx, userId)) ?? undefined;
+      if (!householdId) {
+        throw new Error("Join a household to share cookbooks");
+      }
+    }
+
+    await ctx.db.patch(args.id, { householdId, updatedAt: Date.now() });
+
+    return args.id;
+  },
+});
+
 // ============================================================================
 // COOKBOOK RECIPE MUTATIONS
 // ============================================================================
@@ -559,13 +618,13 @@ export const addRecipeToCookbook = mutation({
 
     // Verify cookbook ownership
     const cookbook = await ctx.db.get(args.cookbookId);
-    if (!cookbook || cookbook.userId !== userId) {
+    if (!cookbook || !(await canAccessHouseholdDoc(ctx, cookbook, userId))) {
       throw new Error("Cookbook not found");
     }
 
-    // Verify recipe ownership
+    // Verify recipe access
     const recipe = await ctx.db.get(args.recipeId);
-    if (!recipe || recipe.userId !== userId) {
+    if (!recipe || !(await canAccessRecipe(ctx, recipe, userId))) {
       throw new Error("Recipe not found");
     }
 
@@ -630,19 +689,28 @@ export const addRecipeToCookbooks = mutation({
 
     const userId = identity.subject;
 
-    // Verify recipe ownership
+    // Verify recipe access
     const recipe = await ctx.db.get(args.recipeId);
-    if (!recipe || recipe.userId !== userId) {
+    if (!recipe || !(await canAccessRecipe(ctx, recipe, userId))) {
       throw new Error("Recipe not found");
     }
 
-    // Get all user's non-built-in cookbooks
-    const userCookbooks = await ctx.db
+    // Get all user's non-built-in cookbooks, plus ones shared with their household
+    const userCookbooks: Doc<"cookbooks">[] = await ctx.db
       .query("cookbooks")
       .withIndex("by_user", (q) => q.eq("userId", userId))
       .filter((q) => q.eq(q.field("isBuiltIn"), false))
       .collect();
 
+    const householdId = await getHouseholdId(ctx, userId);
+    if (householdId) {
+      const shared = await ctx.db
+        .query("cookbooks")
+        .withIndex("by_household", (q) => q.eq("householdId", householdId))
+        .collect();
+      userCookbooks.push(...shared.filter((cookbook) => cookbook.userId !== userId));
+    }
+
     // Get current cookbook memberships for this recipe
     const currentEntries = await ctx.db
       .query("cookbookRecipes")
@@ -720,7 +788,7 @@ export const removeRecipeFromCookbook = mutation({
 
     // Verify cookbook ownership
     const cookbook = await ctx.db.get(args.cookbookId);
-    if (!cookbook || cookbook.userId !== userId) {
+    if (!cookbook || !(await canAccessHouseholdDoc(ctx, cookbook, userId))) {
       throw new Error("Cookbook not found");
     }
 
@@ -773,7 +841,7 @@ export const removeRecipesFromCookbook = mutation({
 
     // Verify cookbook ownership
     const cookbook = await ctx.db.get(args.cookbookId);
-    if (!cookbook || cookbook.userId !== userId) {
+    if (!cookbook || !(await canAccessHouseholdDoc(ctx, cookbook, userId))) {
       throw new Error("Cookbook not found");
     }
 
@@ -829,7 +897,7 @@ export const updateRecipePosition = mutation({
 
     // Verify cookbook ownership
     const cookbook = await ctx.db.get(args.cookbookId);
-    if (!cookbook || cookbook.userId !== userId) {
+    if (!cookbook || !(await canAccessHouseholdDoc(ctx, cookbook, userId))) {
       throw new Error("Cookbook not found");
     }
 
@@ -874,7 +942,7 @@ export const reorderRecipes = mutation({
 
     // Verify cookbook ownership
     const cookbook = await ctx.db.get(args.cookbookId);
-    if (!cookbook || cookbook.userId !== userId) {
+    if (!cookbook || !(await canAccessHouseholdDoc(ctx, cookbook, userId))) {
       throw new Error("Cookbook not found");
     }
 
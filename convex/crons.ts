@@ -2,7 +2,7 @@
  * Convex Cron Jobs
  *
  * Scheduled tasks that run automatically at specified intervals.
- * Currently includes AI chat message cleanup.
+ * Includes AI chat message cleanup and recurring meal plan templates.
  */
 
 import { cronJobs } from "convex/server";
@@ -35,4 +35,16 @@ crons.daily(
   internal.aiChatCleanup.cleanupEmptySessions
 );
 
+/**
+ * Apply recurring meal plan templates
+ *
+ * Runs daily at 4:00 AM UTC.
+ * Fills next week's plan from templates set to recur.
+ */
+crons.daily(
+  "apply recurring meal plan templates",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.mealPlanTemplates.applyRecurringTemplates
+);
+
 export default crons;
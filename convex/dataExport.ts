@@ -0,0 +1,216 @@
+/**
+ * Data Export Queries and Mutations
+ *
+ * Internal functions used by the exportUserData action to gather
+ * everything a user owns and track the temporary export files.
+ * Export files are deleted from storage once their download window ends.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { UserDataForExport, withoutOwner } from "./lib/dataExport";
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Gather all data owned by a user for export
+ *
+ * Includes recipes (with ingredients and nutrition), cook logs, cookbooks
+ * with their recipe membership and order, physical cookbooks, planned meals,
+ * shopping lists with items, chat sessions with messages, and the user's
+ * profile and subscription state.
+ */
+export const getUserDataForExport = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args): Promise<UserDataForExport> => {
+    const { userId } = args;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+      .unique();
+
+    const recipes = await ctx.db
+      .query("recipes")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const cookLogs = await ctx.db
+      .query("cookLogs")
+      .withIndex("by_user_cooked", (q) => q.eq("userId", userId))
+      .collect();
+
+    const cookbooks = await ctx.db
+      .query("cookbooks")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const cookbooksWithRecipes = await Promise.all(
+      cookbooks.map(async (cookbook) => {
+        const memberships = await ctx.db
+          .query("cookbookRecipes")
+          .withIndex("by_cookbook", (q) => q.eq("cookbookId", cookbook._id))
+          .collect();
+
+        return {
+          ...withoutOwner(cookbook),
+          recipes: memberships.map((m) => ({
+            recipeId: m.recipeId,
+            position: m.position,
+            dateAdded: m.dateAdded,
+          })),
+        };
+      })
+    );
+
+    const physicalCookbooks = await ctx.db
+      .query("physicalCookbooks")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const plannedMeals = await ctx.db
+      .query("plannedMeals")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const mealPlanTemplates = await ctx.db
+      .query("mealPlanTemplates")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const shoppingLists = await ctx.db
+      .query("shoppingLists")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const shoppingListsWithItems = await Promise.all(
+      shoppingLists.map(async (list) => {
+        const items = await ctx.db
+          .query("shoppingItems")
+          .withIndex("by_list", (q) => q.eq("listId", list._id))
+          .collect();
+
+        return { ...withoutOwner(list), items };
+      })
+    );
+
+    const pantryItems = await ctx.db
+      .query("pantryItems")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const chatSessions = await ctx.db
+      .query("aiChatSessions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const chatSessionsWithMessages = await Promise.all(
+      chatSessions.map(async (session) => {
+        const messages = await ctx.db
+          .query("aiChatMessages")
+          .withIndex("by_session_created", (q) =>
+            q.eq("sessionId", session._id)
+          )
+          .collect();
+
+        return { ...withoutOwner(session), messages: messages.map(withoutOwner) };
+      })
+    );
+
+    return {
+      profile: user
+        ? {
+            email: user.email,
+            name: user.name,
+            avatarUrl: user.avatarUrl,
+            cookingSkillLevel: user.cookingSkillLevel,
+            dietaryRestrictions: user.dietaryRestrictions,
+            preferredUnitSystem: user.preferredUnitSystem,
+            householdSize: user.householdSize,
+            nutritionTargets: user.nutritionTargets,
+            hasCompletedOnboarding: user.hasCompletedOnboarding,
+            createdAt: user.createdAt,
+            updatedAt: user.updatedAt,
+          }
+        : null,
+      subscription: user
+        ? {
+            status: user.subscriptionStatus ?? "free",
+            type: user.subscriptionType,
+            expiresAt: user.subscriptionExpiresAt,
+            canceledAt: user.subscriptionCanceledAt,
+            hasBillingIssue: user.hasBillingIssue ?? false,
+          }
+        : null,
+      recipes: recipes.map(withoutOwner),
+      cookLogs: cookLogs.map(withoutOwner),
+      cookbooks: cookbooksWithRecipes,
+      physicalCookbooks: physicalCookbooks.map(withoutOwner),
+      mealPlan: plannedMeals.map(withoutOwner),
+      mealPlanTemplates: mealPlanTemplates.map(withoutOwner),
+      shoppingLists: shoppingListsWithItems,
+      pantry: pantryItems.map(withoutOwner),
+      chatSessions: chatSessionsWithMessages,
+    };
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Record a generated export file and schedule its removal
+ */
+export const recordDataExport = internalMutation({
+  args: {
+    userId: v.string(),
+    storageId: v.id("_storage"),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const exportId = await ctx.db.insert("dataExports", {
+      userId: args.userId,
+      storageId: args.storageId,
+      createdAt: Date.now(),
+      expiresAt: args.expiresAt,
+    });
+
+    await ctx.scheduler.runAt(
+      args.expiresAt,
+      internal.dataExport.deleteExpiredExport,
+      { exportId }
+    );
+
+    return exportId;
+  },
+});
+
+/**
+ * Delete an export file once its download window has passed
+ */
+export const deleteExpiredExport = internalMutation({
+  args: {
+    exportId: v.id("dataExports"),
+  },
+  handler: async (ctx, args) => {
+    const dataExport = await ctx.db.get(args.exportId);
+    if (!dataExport) {
+      return null;
+    }
+
+    const file = await ctx.db.system.get(dataExport.storageId);
+    if (file) {
+      await ctx.storage.delete(dataExport.storageId);
+    }
+
+    await ctx.db.delete(args.exportId);
+
+    return args.exportId;
+  },
+});
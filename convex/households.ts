@@ -0,0 +1,580 @@
+/**
+ * Household Queries and Mutations
+ *
+ * Households let several users share one meal plan, shared shopping lists
+ * and the cookbooks their owners choose to share. Users join with an
+ * invite code; the owner manages invites and members, and anyone can
+ * leave. Shared plan meals and lists belong to the household, so they
+ * stay with it when the member who created them leaves.
+ *
+ * Also exports the membership checks used by the meal planner, shopping
+ * lists and cookbooks.
+ */
+
+import { v } from "convex/values";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  generateInviteCode,
+  INVITE_TTL_MS,
+  isInviteExpired,
+  MAX_HOUSEHOLD_MEMBERS,
+  normalizeInviteCode,
+  pickNextOwner,
+} from "./lib/households";
+
+/**
+ * Get a user's household membership
+ *
+ * @returns The membership, or null if the user isn't in a household
+ */
+export async function getHouseholdMembership(
+  ctx: QueryCtx,
+  userId: string
+): Promise<Doc<"householdMembers"> | null> {
+  return await ctx.db
+    .query("householdMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+}
+
+/**
+ * Get the ID of a user's household
+ *
+ * @returns Household ID, or null if the user isn't in a household
+ */
+export async function getHouseholdId(
+  ctx: QueryCtx,
+  userId: string
+): Promise<Id<"households"> | null> {
+  const membership = await getHouseholdMembership(ctx, userId);
+  return membership?.householdId ?? null;
+}
+
+/**
+ * Check if a user can read and write a document that may be shared
+ *
+ * Shared documents are accessible to current members of their household
+ * (and no one else); personal documents only to their owner.
+ */
+export async function canAccessHouseholdDoc(
+  ctx: QueryCtx,
+  doc: { userId: string; householdId?: Id<"households"> },
+  userId: string
+): Promise<boolean> {
+  if (!doc.householdId) {
+    return doc.userId === userId;
+  }
+  return (await getHouseholdId(ctx, userId)) === doc.householdId;
+}
+
+/**
+ * Check if a user can view and plan a recipe
+ *
+ * Users can use their own recipes and recipes in cookbooks shared with
+ * their household.
+ */
+export async function canAccessRecipe(
+  ctx: QueryCtx,
+  recipe: Doc<"recipes">,
+  userId: string
+): Promise<boolean> {
+  if (recipe.userId === userId) {
+    return true;
+  }
+
+  const householdId = await getHouseholdId(ctx, userId);
+  if (!householdId) {
+    return false;
+  }
+
+  const entries = await ctx.db
+    .query("cookbookRecipes")
+    .withIndex("by_recipe", (q) => q.eq("recipeId", recipe._id))
+    .collect();
+
+  for (const entry of entries) {
+    const cookbook = await ctx.db.get(entry.cookbookId);
+    if (cookbook?.householdId === householdId) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Get the recipes in cookbooks shared with a household
+ */
+export async function getSharedRecipeIds(
+  ctx: QueryCtx,
+  householdId: Id<"households">
+): Promise<Id<"recipes">[]> {
+  const cookbooks = await ctx.db
+    .query("cookbooks")
+    .withIndex("by_household", (q) => q.eq("householdId", householdId))
+    .collect();
+
+  const recipeIds = new Set<Id<"recipes">>();
+  for (const cookbook of cookbooks) {
+    const entries = await ctx.db
+      .query("cookbookRecipes")
+      .withIndex("by_cookbook", (q) => q.eq("cookbookId", cookbook._id))
+      .collect();
+    for (const entry of entries) {
+      recipeIds.add(entry.recipeId);
+    }
+  }
+
+  return [...recipeIds];
+}
+
+/**
+ * Remove a member from their household
+ *
+ * The member's shared cookbooks are unshared, and the shared meals and
+ * lists they created are handed to the owner so they stay with the
+ * household. If the owner leaves, the longest-standing member takes over;
+ * if no one is left, the household is dissolved and everything shared
+ * goes back to whoever created it.
+ */
+export async function deleteHouseholdMembership(
+  ctx: MutationCtx,
+  membership: Doc<"householdMembers">
+): Promise<void> {
+  const { householdId, userId } = membership;
+  const now = Date.now();
+
+  await ctx.db.delete(membership._id);
+
+  const sharedCookbooks = await ctx.db
+    .query("cookbooks")
+    .withIndex("by_household", (q) => q.eq("householdId", householdId))
+    .collect();
+  const sharedMeals = await ctx.db
+    .query("plannedMeals")
+    .withIndex("by_household_day", (q) => q.eq("householdId", householdId))
+    .collect();
+  const sharedLists = await ctx.db
+    .query("shoppingLists")
+    .withIndex("by_household", (q) => q.eq("householdId", householdId))
+    .collect();
+  const invites = await ctx.db
+    .query("householdInvites")
+    .withIndex("by_household", (q) => q.eq("householdId", householdId))
+    .collect();
+
+  const remaining = await ctx.db
+    .query("householdMembers")
+    .withIndex("by_household", (q) => q.eq("householdId", householdId))
+    .collect();
+
+  if (remaining.length === 0) {
+    for (const doc of [...sharedCookbooks, ...sharedMeals, ...sharedLists]) {
+      await ctx.db.patch(doc._id, { householdId: undefined });
+    }
+    for (const invite of invites) {
+      await ctx.db.delete(invite._id);
+    }
+    await ctx.db.delete(householdId);
+    return;
+  }
+
+  for (const cookbook of sharedCookbooks) {
+    if (cookbook.userId === userId) {
+      await ctx.db.patch(cookbook._id, { householdId: undefined, updatedAt: now });
+    }
+  }
+
+  const household = await ctx.db.get(householdId);
+  let ownerId = household?.ownerId ?? userId;
+
+  if (membership.role === "owner") {
+    const nextOwner = pickNextOwner(remaining)!;
+    await ctx.db.patch(nextOwner._id, { role: "owner" });
+    await ctx.db.patch(householdId, { ownerId: nextOwner.userId, updatedAt: now });
+    ownerId = nextOwner.userId;
+  }
+
+  for (const doc of [...sharedMeals, ...sharedLists]) {
+    if (doc.userId === userId) {
+      await ctx.db.patch(doc._id, { userId: ownerId });
+    }
+  }
+
+  for (const invite of invites) {
+    if (invite.createdBy === userId) {
+      await ctx.db.delete(invite._id);
+    }
+  }
+}
+
+/**
+ * Get the authenticated user's membership, requiring the owner role
+ */
+async function getOwnerMembership(
+  ctx: MutationCtx,
+  userId: string
+): Promise<Doc<"householdMembers">> {
+  const membership = await getHouseholdMembership(ctx, userId);
+
+  if (!membership) {
+    throw new Error("You are not in a household");
+  }
+
+  if (membership.role !== "owner") {
+    throw new Error("Only the household owner can do this");
+  }
+
+  return membership;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get the authenticated user's household
+ *
+ * Returns the household with its members and the user's role, or null if
+ * the user isn't in one. Open invites are included for the owner.
+ */
+export const getHousehold = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const membership = await getHouseholdMembership(ctx, userId);
+    if (!membership) {
+      return null;
+    }
+
+    const household = await ctx.db.get(membership.householdId);
+    if (!household) {
+      return null;
+    }
+
+    const memberships = await ctx.db
+      .query("householdMembers")
+      .withIndex("by_household", (q) => q.eq("householdId", household._id))
+      .collect();
+
+    const members = await Promise.all(
+      memberships.map(async (member) => {
+        const user = await ctx.db
+          .query("users")
+          .withIndex("by_clerk_id", (q) => q.eq("clerkId", member.userId))
+          .unique();
+
+        return {
+          _id: member._id,
+          name: user?.name ?? "Member",
+          avatarUrl: user?.avatarUrl,
+          role: member.role,
+          joinedAt: member.joinedAt,
+          isCurrentUser: member.userId === userId,
+        };
+      })
+    );
+
+    const now = Date.now();
+    const invites =
+      membership.role === "owner"
+        ? (
+            await ctx.db
+              .query("householdInvites")
+              .withIndex("by_household", (q) => q.eq("householdId", household._id))
+              .collect()
+          )
+            .filter((invite) => !isInviteExpired(invite, now))
+            .map((invite) => ({
+              _id: invite._id,
+              code: invite.code,
+              expiresAt: invite.expiresAt,
+            }))
+        : [];
+
+    return {
+      _id: household._id,
+      name: household.name,
+      role: membership.role,
+      members: members.sort((a, b) => a.joinedAt - b.joinedAt),
+      invites,
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Create a household with the authenticated user as owner
+ *
+ * The user's meal plan and active shopping lists become the household's.
+ */
+export const createHousehold = mutation({
+  args: {
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const name = args.name.trim();
+
+    if (!name) {
+      throw new Error("Household name is required");
+    }
+
+    if (await getHouseholdMembership(ctx, userId)) {
+      throw new Error("You are already in a household");
+    }
+
+    const now = Date.now();
+
+    const householdId = await ctx.db.insert("households", {
+      name,
+      ownerId: userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.insert("householdMembers", {
+      householdId,
+      userId,
+      role: "owner",
+      joinedAt: now,
+    });
+
+    const meals = await ctx.db
+      .query("plannedMeals")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    for (const meal of meals) {
+      if (!meal.householdId) {
+        await ctx.db.patch(meal._id, { householdId });
+      }
+    }
+
+    const lists = await ctx.db
+      .query("shoppingLists")
+      .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "active"))
+      .collect();
+    for (const list of lists) {
+      if (!list.householdId) {
+        await ctx.db.patch(list._id, { householdId });
+      }
+    }
+
+    return householdId;
+  },
+});
+
+/**
+ * Rename the household (owner only)
+ */
+export const renameHousehold = mutation({
+  args: {
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await getOwnerMembership(ctx, identity.subject);
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Household name is required");
+    }
+
+    await ctx.db.patch(membership.householdId, { name, updatedAt: Date.now() });
+
+    return membership.householdId;
+  },
+});
+
+/**
+ * Create an invite code for the household (owner only)
+ *
+ * Codes are single-use and expire after a week.
+ */
+export const createHouseholdInvite = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await getOwnerMembership(ctx, identity.subject);
+
+    const members = await ctx.db
+      .query("householdMembers")
+      .withIndex("by_household", (q) => q.eq("householdId", membership.householdId))
+      .collect();
+
+    if (members.length >= MAX_HOUSEHOLD_MEMBERS) {
+      throw new Error("This household is full");
+    }
+
+    const now = Date.now();
+    const code = generateInviteCode();
+    const expiresAt = now + INVITE_TTL_MS;
+
+    await ctx.db.insert("householdInvites", {
+      householdId: membership.householdId,
+      code,
+      createdBy: identity.subject,
+      expiresAt,
+      createdAt: now,
+    });
+
+    return { code, expiresAt };
+  },
+});
+
+/**
+ * Revoke an unused invite code (owner only)
+ */
+export const revokeHouseholdInvite = mutation({
+  args: {
+    inviteId: v.id("householdInvites"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await getOwnerMembership(ctx, identity.subject);
+    const invite = await ctx.db.get(args.inviteId);
+
+    if (!invite || invite.householdId !== membership.householdId) {
+      throw new Error("Invite not found");
+    }
+
+    await ctx.db.delete(args.inviteId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Join a household with an invite code
+ *
+ * The user's own meal plan is kept but hidden while they're in the
+ * household, and comes back if they leave.
+ */
+export const joinHousehold = mutation({
+  args: {
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    if (await getHouseholdMembership(ctx, userId)) {
+      throw new Error("Leave your current household before joining another");
+    }
+
+    const now = Date.now();
+    const invite = await ctx.db
+      .query("householdInvites")
+      .withIndex("by_code", (q) => q.eq("code", normalizeInviteCode(args.code)))
+      .unique();
+
+    if (!invite || isInviteExpired(invite, now)) {
+      throw new Error("Invite code is invalid or has expired");
+    }
+
+    const members = await ctx.db
+      .query("householdMembers")
+      .withIndex("by_household", (q) => q.eq("householdId", invite.householdId))
+      .collect();
+
+    if (members.length >= MAX_HOUSEHOLD_MEMBERS) {
+      throw new Error("This household is full");
+    }
+
+    await ctx.db.insert("householdMembers", {
+      householdId: invite.householdId,
+      userId,
+      role: "member",
+      joinedAt: now,
+    });
+
+    await ctx.db.delete(invite._id);
+
+    return invite.householdId;
+  },
+});
+
+/**
+ * Leave the household
+ *
+ * If the owner leaves, the longest-standing member becomes owner. The
+ * last member leaving dissolves the household.
+ */
+export const leaveHousehold = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await getHouseholdMembership(ctx, identity.subject);
+    if (!membership) {
+      throw new Error("You are not in a household");
+    }
+
+    await deleteHouseholdMembership(ctx, membership);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove another member from the household (owner only)
+ */
+export const removeHouseholdMember = mutation({
+  args: {
+    memberId: v.id("householdMembers"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const ownerMembership = await getOwnerMembership(ctx, identity.subject);
+    const member = await ctx.db.get(args.memberId);
+
+    if (!member || member.householdId !== ownerMembership.householdId) {
+      throw new Error("Member not found");
+    }
+
+    if (member._id === ownerMembership._id) {
+      throw new Error("Use leave household to remove yourself");
+    }
+
+    await deleteHouseholdMembership(ctx, member);
+
+    return { success: true };
+  },
+});
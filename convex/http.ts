@@ -2,8 +2,9 @@
  * Convex HTTP Endpoints
  *
  * HTTP endpoints for external service integrations.
- * Includes Clerk webhook handler for user synchronization
- * and RevenueCat webhook handler for subscription management with OneSignal sync.
+ * Includes Clerk webhook handler for user synchronization,
+ * RevenueCat webhook handler for subscription management with OneSignal sync,
+ * and the iCalendar feed of a user's meal plan.
  */
 
 import { httpRouter } from "convex/server";
@@ -11,6 +12,7 @@ import { httpAction } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { Webhook } from "svix";
 import { syncSubscriptionTags } from "./lib/onesignalUtils";
+import { buildMealPlanCalendar } from "./lib/calendarFeed";
 
 /**
  * Verify HMAC-SHA256 signature using Web Crypto API
@@ -143,11 +145,12 @@ http.route({
           const { id } = event.data;
 
           if (id) {
-            await ctx.runMutation(internal.users.deleteUserByClerkId, {
+            // Schedules the batched deletion of all user-owned data
+            await ctx.runMutation(internal.accountDeletion.startAccountDeletion, {
               clerkId: id,
             });
 
-            console.log(`Deleted user: ${id}`);
+            console.log(`Scheduled account deletion for user: ${id}`);
           }
           break;
         }
@@ -387,6 +390,43 @@ http.route({
   }),
 });
 
+/**
+ * Meal Plan Calendar Feed
+ *
+ * Serves the user's planned meals as an iCalendar (.ics) feed for calendar
+ * subscriptions. The secret token in the query string identifies the user;
+ * revoked or rotated tokens return 404.
+ */
+http.route({
+  path: "/calendar/meal-plan.ics",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    const token = new URL(request.url).searchParams.get("token");
+    if (!token) {
+      return new Response("Missing token", { status: 400 });
+    }
+
+    const feed = await ctx.runQuery(internal.calendarFeeds.getCalendarFeedMeals, {
+      token,
+    });
+
+    if (!feed) {
+      return new Response("Calendar feed not found", { status: 404 });
+    }
+
+    const calendar = buildMealPlanCalendar(feed.meals, feed.slotTimes, Date.now());
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="meal-plan.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  }),
+});
+
 /**
  * Helper to determine subscription type from RevenueCat product ID
  */
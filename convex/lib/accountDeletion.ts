@@ -0,0 +1,106 @@
+/**
+ * Account Deletion Utilities
+ *
+ * Helper constants and functions for the batched account deletion job.
+ * Defines the order in which user-owned data is removed.
+ */
+
+/**
+ * Maximum number of documents to delete per table in a single batch
+ * Parent documents (recipes, cookbooks, lists) also delete their children,
+ * so this is kept small enough to stay within mutation limits
+ */
+export const DELETION_BATCH_SIZE = 50;
+
+/**
+ * If a job has not made progress in this long, it is considered stalled
+ * and a repeated deletion request will reschedule it
+ */
+export const STALLED_JOB_MS = 10 * 60 * 1000;
+
+/**
+ * Ordered deletion steps
+ *
+ * Child records are removed together with their parents (cookbookRecipes
+ * with cookbooks and recipes, recipeRevisions with recipes, shoppingItems
+ * with shoppingLists, chat messages before sessions). Household membership goes first so shared
+ * meals and lists are handed to the remaining members rather than deleted.
+ * The users row is removed last so an
+ * interrupted job can still be matched to its account.
+ */
+export const DELETION_STEPS = [
+  "householdMembers",
+  "recipes",
+  "cookLogs",
+  "cookbooks",
+  "plannedMeals",
+  "mealPlanDrafts",
+  "mealPlanTemplates",
+  "calendarFeeds",
+  "shoppingLists",
+  "pantryItems",
+  "scanSessions",
+  "physicalCookbooks",
+  "scanHistory",
+  "aiChatMessages",
+  "aiChatSessions",
+  "aiChatUsage",
+  "userFollowedChannels",
+  "dataExports",
+  "users",
+] as const;
+
+export type DeletionStep = (typeof DELETION_STEPS)[number];
+
+/**
+ * Work out where a deletion job continues after a batch
+ *
+ * A step is finished once a batch comes back smaller than
+ * DELETION_BATCH_SIZE; the job is complete after the last step.
+ *
+ * @param currentStep - Index of the step the batch was taken from
+ * @param batchLength - Number of parent documents in the batch
+ * @returns The step to run next and whether every step is done
+ */
+export function advanceDeletionStep(
+  currentStep: number,
+  batchLength: number
+): { nextStep: number; isComplete: boolean } {
+  const nextStep =
+    batchLength < DELETION_BATCH_SIZE ? currentStep + 1 : currentStep;
+
+  return { nextStep, isComplete: nextStep >= DELETION_STEPS.length };
+}
+
+/**
+ * Extract a Convex storage ID from a file URL
+ *
+ * Images generated by the app are referenced by their storage URL
+ * (".../api/storage/<id>"). External URLs (e.g., YouTube thumbnails)
+ * return null.
+ *
+ * @param url - Image URL stored on a document
+ * @returns The storage ID, or null if the URL is not a Convex storage URL
+ */
+export function getStorageIdFromUrl(url: string | undefined): string | null {
+  if (!url) {
+    return null;
+  }
+
+  const match = url.match(/\/api\/storage\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Check if a deletion job has stalled
+ *
+ * @param updatedAt - When the job last made progress
+ * @param now - Current timestamp (defaults to Date.now())
+ * @returns True if the job should be rescheduled
+ */
+export function isDeletionStalled(
+  updatedAt: number,
+  now: number = Date.now()
+): boolean {
+  return now - updatedAt > STALLED_JOB_MS;
+}
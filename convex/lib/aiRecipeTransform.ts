@@ -29,74 +29,162 @@ export interface AiIngredient {
   note?: string;
 }
 
+/**
+ * Size of one package, e.g. the "14 oz" in "2 (14 oz) cans tomatoes"
+ */
+export interface PackageSize {
+  quantity: number;
+  unit: string;
+}
+
 /**
  * App ingredient format for storage
+ *
+ * The optional fields are only set when the source line had them.
  */
 export interface AppIngredient {
   name: string;
   quantity: number;
   unit: string;
   category: IngredientCategory;
+  /** Upper end of a range, e.g. 2 for "1-2 tbsp" */
+  quantityMax?: number;
+  packageSize?: PackageSize;
+  /** e.g. "drained", "finely chopped", "to taste" */
+  preparation?: string;
+  /** Other parenthetical detail, e.g. "240 ml" */
+  note?: string;
+  optional?: boolean;
+  /** Section title, e.g. "For the sauce" */
+  section?: string;
 }
 
 /**
- * Parse quantity string to number
+ * Unicode fraction characters and their values
+ */
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "½": "1/2",
+  "⅓": "1/3",
+  "⅔": "2/3",
+  "¼": "1/4",
+  "¾": "3/4",
+  "⅕": "1/5",
+  "⅖": "2/5",
+  "⅗": "3/5",
+  "⅘": "4/5",
+  "⅙": "1/6",
+  "⅚": "5/6",
+  "⅛": "1/8",
+  "⅜": "3/8",
+  "⅝": "5/8",
+  "⅞": "7/8",
+};
+
+/**
+ * Expand unicode fractions and normalize dashes
  *
- * Handles:
- * - Whole numbers: "1", "2", "10"
- * - Decimals: "1.5", "0.25"
- * - Simple fractions: "1/2", "1/4", "3/4"
- * - Mixed numbers: "1 1/2", "2 1/4"
- * - Ranges (takes first): "1-2"
+ * "1½" -> "1 1/2", "1–2" -> "1-2", "3⁄4" -> "3/4"
  *
- * @param quantityStr - String representation of quantity
- * @returns Numeric quantity (defaults to 1 if unparseable)
+ * @param text - Quantity or ingredient text
+ * @returns Text using ASCII fractions and hyphens
  */
-export function parseQuantity(quantityStr: string): number {
-  if (!quantityStr || typeof quantityStr !== "string") {
-    return 1;
-  }
+export function normalizeQuantityText(text: string): string {
+  return text
+    .replace(/\u2044/g, "/")
+    .replace(/[\u2010-\u2015\u2212]/g, "-")
+    .replace(/(\d\s?)?([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_match, whole, fraction) =>
+      whole ? `${whole.trim()} ${UNICODE_FRACTIONS[fraction]}` : UNICODE_FRACTIONS[fraction]
+    );
+}
 
-  const trimmed = quantityStr.trim();
-  if (!trimmed) {
-    return 1;
-  }
+/**
+ * Parse a single number: whole, decimal, fraction, or mixed number
+ *
+ * @returns The value, or null if the text isn't a number
+ */
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim();
 
-  // Try to parse as simple number first
-  const simpleNum = parseFloat(trimmed);
-  if (!isNaN(simpleNum) && /^[\d.]+$/.test(trimmed)) {
-    return simpleNum;
+  if (/^\d*\.?\d+$/.test(trimmed)) {
+    return parseFloat(trimmed);
   }
 
-  // Check for mixed number (e.g., "1 1/2")
-  const mixedMatch = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
-  if (mixedMatch) {
-    const whole = parseInt(mixedMatch[1], 10);
-    const numerator = parseInt(mixedMatch[2], 10);
-    const denominator = parseInt(mixedMatch[3], 10);
+  // Mixed number (e.g., "1 1/2") or simple fraction (e.g., "1/2")
+  const fractionMatch = trimmed.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+  if (fractionMatch) {
+    const whole = fractionMatch[1] ? parseInt(fractionMatch[1], 10) : 0;
+    const numerator = parseInt(fractionMatch[2], 10);
+    const denominator = parseInt(fractionMatch[3], 10);
     if (denominator !== 0) {
       return whole + numerator / denominator;
     }
   }
 
-  // Check for simple fraction (e.g., "1/2")
-  const fractionMatch = trimmed.match(/^(\d+)\/(\d+)$/);
-  if (fractionMatch) {
-    const numerator = parseInt(fractionMatch[1], 10);
-    const denominator = parseInt(fractionMatch[2], 10);
-    if (denominator !== 0) {
-      return numerator / denominator;
+  return null;
+}
+
+/**
+ * Parse a quantity string that may be a range
+ *
+ * Handles everything parseQuantity does plus unicode fractions ("1½")
+ * and ranges written "1-2", "1 to 2", or "1 or 2".
+ *
+ * @param quantityStr - String representation of quantity
+ * @returns Low end of the range, and the high end when there is one
+ */
+export function parseQuantityRange(quantityStr: string): {
+  quantity: number;
+  quantityMax?: number;
+} {
+  if (!quantityStr || typeof quantityStr !== "string") {
+    return { quantity: 1 };
+  }
+
+  const trimmed = normalizeQuantityText(quantityStr).trim();
+  if (!trimmed) {
+    return { quantity: 1 };
+  }
+
+  const single = parseNumber(trimmed);
+  if (single !== null) {
+    return { quantity: single };
+  }
+
+  const rangeMatch = trimmed.match(/^(.+?)\s*(?:-|\bto\b|\bor\b)\s*(.+)$/);
+  if (rangeMatch) {
+    const low = parseNumber(rangeMatch[1]);
+    const high = parseNumber(rangeMatch[2]);
+    if (low !== null && high !== null) {
+      return high > low ? { quantity: low, quantityMax: high } : { quantity: low };
     }
   }
 
   // Try to extract first number from string
   const numMatch = trimmed.match(/(\d+(?:\.\d+)?)/);
   if (numMatch) {
-    return parseFloat(numMatch[1]);
+    return { quantity: parseFloat(numMatch[1]) };
   }
 
   // Default to 1 if all parsing fails
-  return 1;
+  return { quantity: 1 };
+}
+
+/**
+ * Parse quantity string to number
+ *
+ * Handles:
+ * - Whole numbers: "1", "2", "10"
+ * - Decimals: "1.5", "0.25"
+ * - Simple fractions: "1/2", "1/4", "3/4"
+ * - Mixed numbers: "1 1/2", "2 1/4"
+ * - Unicode fractions: "½", "1½"
+ * - Ranges (takes first): "1-2"
+ *
+ * @param quantityStr - String representation of quantity
+ * @returns Numeric quantity (defaults to 1 if unparseable)
+ */
+export function parseQuantity(quantityStr: string): number {
+  return parseQuantityRange(quantityStr).quantity;
 }
 
 /**
@@ -393,7 +481,7 @@ export function categorizeIngredient(ingredientName: string): IngredientCategory
  * Transform AI ingredients to app format
  *
  * Converts the AI response ingredient format to the app's storage format.
- * Handles optional ingredients by appending "(optional)" to name.
+ * The optional marker and note become the optional and preparation fields.
  *
  * @param aiIngredients - Array of AI-format ingredients
  * @returns Array of app-format ingredients
@@ -402,22 +490,24 @@ export function transformAiIngredients(
   aiIngredients: AiIngredient[]
 ): AppIngredient[] {
   return aiIngredients.map((ing) => {
-    // Build the ingredient name with optional marker and note
-    let name = ing.name;
-    if (ing.is_optional) {
-      if (ing.note) {
-        name = `${ing.name} (optional - ${ing.note})`;
-      } else {
-        name = `${ing.name} (optional)`;
-      }
-    }
+    const { quantity, quantityMax } = parseQuantityRange(ing.quantity);
 
-    return {
-      name,
-      quantity: parseQuantity(ing.quantity),
+    const ingredient: AppIngredient = {
+      name: ing.name,
+      quantity,
       unit: ing.unit || "item",
       category: categorizeIngredient(ing.name),
     };
+    if (quantityMax !== undefined) {
+      ingredient.quantityMax = quantityMax;
+    }
+    if (ing.note?.trim()) {
+      ingredient.preparation = ing.note.trim();
+    }
+    if (ing.is_optional) {
+      ingredient.optional = true;
+    }
+    return ingredient;
   });
 }
 
@@ -0,0 +1,207 @@
+/**
+ * Meal Plan Calendar Feed Utility
+ *
+ * Builds an iCalendar (.ics, RFC 5545) feed from planned meals so the
+ * meal plan can be subscribed to from a calendar app. Events use floating
+ * local times, so a dinner planned for 18:00 shows at 18:00 in whatever
+ * time zone the subscriber's calendar is in.
+ */
+
+/**
+ * Meal slots shown in the feed
+ */
+export type CalendarMealSlot = "breakfast" | "lunch" | "dinner" | "snacks";
+
+/**
+ * Start time for each slot in HH:MM (24-hour)
+ */
+export type CalendarSlotTimes = Record<CalendarMealSlot, string>;
+
+/**
+ * Planned meal fields used to build an event
+ */
+export interface CalendarMeal {
+  _id: string;
+  day: string;
+  slot: CalendarMealSlot;
+  recipeId: string;
+  recipeName: string;
+  /** Prep plus cook time in minutes, if the recipe still exists */
+  totalMinutes?: number;
+  servings?: number;
+  isLeftovers?: boolean;
+}
+
+/**
+ * Default slot start times
+ */
+export const DEFAULT_SLOT_TIMES: CalendarSlotTimes = {
+  breakfast: "08:00",
+  lunch: "12:30",
+  dinner: "18:30",
+  snacks: "15:30",
+};
+
+/**
+ * Event length when the recipe has no total time
+ */
+const DEFAULT_EVENT_MINUTES = 30;
+
+/**
+ * Bytes of randomness in a feed token
+ */
+const FEED_TOKEN_BYTES = 24;
+
+/**
+ * Generate a secret token for a calendar feed URL
+ *
+ * @returns URL-safe hex token
+ */
+export function generateFeedToken(): string {
+  const bytes = new Uint8Array(FEED_TOKEN_BYTES);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Check a slot time is a valid 24-hour HH:MM time
+ */
+export function isValidSlotTime(time: string): boolean {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  if (!match) return false;
+  return Number(match[1]) < 24 && Number(match[2]) < 60;
+}
+
+/**
+ * Deep link that opens a recipe in the app
+ */
+export function getRecipeDeepLink(recipeId: string): string {
+  return `digero://recipes/${recipeId}`;
+}
+
+/**
+ * Escape text for an iCalendar property value
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to 75 octets, as iCalendar requires
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, leaving 74 octets of content
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Format a day and HH:MM time as a floating iCalendar date-time
+ */
+function formatLocalDateTime(day: string, time: string, addMinutes = 0): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCMinutes(hours * 60 + minutes + addMinutes);
+
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}Z$/, "");
+}
+
+/**
+ * Format a timestamp as a UTC iCalendar date-time
+ */
+function formatUtcDateTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "Z");
+}
+
+/**
+ * Format minutes as "1 hr 15 min"
+ */
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+}
+
+/**
+ * Build the iCalendar document for a meal plan
+ *
+ * @param meals - Planned meals to include
+ * @param slotTimes - Start time for each slot
+ * @param generatedAt - Timestamp used for DTSTAMP
+ * @returns .ics file contents with CRLF line endings
+ */
+export function buildMealPlanCalendar(
+  meals: CalendarMeal[],
+  slotTimes: CalendarSlotTimes,
+  generatedAt: number
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Digero//Meal Plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Meal Plan",
+  ];
+
+  const stamp = formatUtcDateTime(generatedAt);
+
+  for (const meal of meals) {
+    const time = slotTimes[meal.slot];
+    const minutes = meal.totalMinutes || DEFAULT_EVENT_MINUTES;
+    const link = getRecipeDeepLink(meal.recipeId);
+
+    const details = [
+      meal.isLeftovers ? "Leftovers" : null,
+      meal.totalMinutes ? `Total time: ${formatDuration(meal.totalMinutes)}` : null,
+      meal.servings ? `Servings: ${meal.servings}` : null,
+      `Open recipe: ${link}`,
+    ].filter((line): line is string => line !== null);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${meal._id}@digero`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatLocalDateTime(meal.day, time)}`,
+      `DTEND:${formatLocalDateTime(meal.day, time, minutes)}`,
+      `SUMMARY:${escapeIcsText(meal.isLeftovers ? `${meal.recipeName} (leftovers)` : meal.recipeName)}`,
+      `DESCRIPTION:${escapeIcsText(details.join("\n"))}`,
+      `URL:${link}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
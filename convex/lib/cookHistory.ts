@@ -0,0 +1,98 @@
+/**
+ * Cook History Helpers
+ *
+ * Validation for cook log entries, the per-recipe cook stats derived from
+ * them, and the summary line shown on the recipe detail screen.
+ *
+ * All functions are pure.
+ */
+
+/**
+ * Cook log fields used for stats
+ */
+export interface CookLogStatsEntry {
+  cookedAt: number;
+  rating?: number;
+}
+
+/**
+ * Cook stats for a recipe
+ */
+export interface CookStats {
+  timesCooked: number;
+  /** Latest cook date, or null if never cooked */
+  lastCookedAt: number | null;
+  /** Average of rated cook logs to one decimal, or null if none are rated */
+  averageRating: number | null;
+}
+
+/**
+ * Validate an optional star rating (1-5, whole numbers)
+ */
+export function validateRating(rating: number | undefined): void {
+  if (rating === undefined) return;
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error("Rating must be a whole number between 1 and 5");
+  }
+}
+
+/**
+ * Validate an optional servings count
+ */
+export function validateServings(servings: number | undefined): void {
+  if (servings === undefined) return;
+  if (!(servings > 0)) {
+    throw new Error("Servings made must be greater than 0");
+  }
+}
+
+/**
+ * Compute a recipe's cook stats from its cook logs
+ *
+ * @param logs - All cook logs of the recipe
+ * @returns Times cooked, last cook date and average rating
+ */
+export function computeCookStats(logs: CookLogStatsEntry[]): CookStats {
+  const ratings = logs
+    .map((log) => log.rating)
+    .filter((rating): rating is number => rating !== undefined);
+
+  return {
+    timesCooked: logs.length,
+    lastCookedAt:
+      logs.length > 0 ? Math.max(...logs.map((log) => log.cookedAt)) : null,
+    averageRating:
+      ratings.length > 0
+        ? Math.round(
+            (ratings.reduce((sum, rating) => sum + rating, 0) /
+              ratings.length) *
+              10
+          ) / 10
+        : null,
+  };
+}
+
+/**
+ * Format a cook date as "Oct 3, 2026"
+ */
+export function formatCookDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Summarize how often and how recently a recipe was cooked
+ *
+ * @param timesCooked - Number of cook logs
+ * @param lastCookedAt - Latest cook date, or null
+ * @returns e.g. "Cooked 4 times, last on Oct 3, 2026"
+ */
+export function formatCookSummary(timesCooked: number, lastCookedAt: number | null): string {
+  if (timesCooked === 0 || lastCookedAt === null) {
+    return "You haven't cooked this yet";
+  }
+  return `Cooked ${timesCooked} ${timesCooked === 1 ? "time" : "times"}, last on ${formatCookDate(lastCookedAt)}`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Data Export Utilities
+ *
+ * Helpers for building the user's personal data export.
+ * The export is a single versioned JSON document so that it can be
+ * re-imported or parsed by other tools.
+ */
+
+/**
+ * Export format version
+ * Increment when the shape of the export document changes
+ */
+export const DATA_EXPORT_VERSION = 1;
+
+/**
+ * How long the export file and its download URL remain available
+ */
+export const DATA_EXPORT_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Raw user data gathered for export
+ * Documents are exported as stored, minus the owning userId field
+ */
+export interface UserDataForExport {
+  profile: Record<string, unknown> | null;
+  subscription: Record<string, unknown> | null;
+  recipes: Record<string, unknown>[];
+  cookLogs: Record<string, unknown>[];
+  cookbooks: (Record<string, unknown> & {
+    recipes: { recipeId: string; position: number; dateAdded: number }[];
+  })[];
+  physicalCookbooks: Record<string, unknown>[];
+  mealPlan: Record<string, unknown>[];
+  mealPlanTemplates: Record<string, unknown>[];
+  shoppingLists: (Record<string, unknown> & {
+    items: Record<string, unknown>[];
+  })[];
+  pantry: Record<string, unknown>[];
+  chatSessions: (Record<string, unknown> & {
+    messages: Record<string, unknown>[];
+  })[];
+}
+
+/**
+ * Versioned export document written to storage
+ */
+export interface DataExportDocument extends UserDataForExport {
+  format: "digero-data-export";
+  version: number;
+  exportedAt: string;
+  userId: string;
+}
+
+/**
+ * Remove the owning userId from a document
+ * The export's top-level userId identifies the owner once
+ *
+ * @param doc - Document with a userId field
+ * @returns The document without userId
+ */
+export function withoutOwner<T extends { userId: string }>(
+  doc: T
+): Omit<T, "userId"> {
+  const { userId: _owner, ...rest } = doc;
+  return rest;
+}
+
+/**
+ * Build the versioned export document
+ *
+ * Cookbook recipes are sorted by their position so the export preserves
+ * the user's manual ordering.
+ *
+ * @param userId - Clerk user ID of the owner
+ * @param data - Gathered user data
+ * @param exportedAt - Export timestamp (milliseconds)
+ * @returns The export document
+ */
+export function buildDataExport(
+  userId: string,
+  data: UserDataForExport,
+  exportedAt: number
+): DataExportDocument {
+  return {
+    format: "digero-data-export",
+    version: DATA_EXPORT_VERSION,
+    exportedAt: new Date(exportedAt).toISOString(),
+    userId,
+    ...data,
+    cookbooks: data.cookbooks.map((cookbook) => ({
+      ...cookbook,
+      recipes: [...cookbook.recipes].sort((a, b) => a.position - b.position),
+    })),
+  };
+}
+
+/**
+ * Build the download file name for an export
+ *
+ * @param exportedAt - Export timestamp (milliseconds)
+ * @returns File name like "digero-export-2026-10-19.json"
+ */
+export function getDataExportFileName(exportedAt: number): string {
+  const date = new Date(exportedAt).toISOString().slice(0, 10);
+  return `digero-export-${date}.json`;
+}
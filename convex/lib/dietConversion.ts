@@ -0,0 +1,51 @@
+/**
+ * Diet Conversion Helpers
+ *
+ * Builds the recipe saved when a diet conversion is kept as a new recipe.
+ *
+ * All functions are pure.
+ */
+
+import { Doc } from "../_generated/dataModel";
+
+/**
+ * Converted recipe content
+ */
+export interface ConvertedRecipeContent {
+  title: string;
+  ingredients: Doc<"recipes">["ingredients"];
+  instructions: string[];
+  dietaryTags: string[];
+  instructionChanges: string[];
+}
+
+/**
+ * Build createRecipe arguments for a converted copy of a recipe
+ *
+ * The copy keeps the original's source for attribution and is linked to
+ * it by parentRecipeId, so duplicate detection doesn't report the pair.
+ *
+ * @param recipe - Original recipe
+ * @param converted - Converted content
+ * @returns Arguments for api.recipes.createRecipe
+ */
+export function getConvertedRecipeArgs(recipe: Doc<"recipes">, converted: ConvertedRecipeContent) {
+  return {
+    title: converted.title,
+    source: recipe.source,
+    sourceUrl: recipe.sourceUrl,
+    youtubeVideoId: recipe.youtubeVideoId,
+    imageUrl: recipe.imageUrl,
+    ingredients: converted.ingredients,
+    instructions: converted.instructions,
+    servings: recipe.servings,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    difficulty: recipe.difficulty,
+    cuisineType: recipe.cuisineType,
+    dietaryTags: converted.dietaryTags,
+    notes: `Converted from original recipe. Changes: ${converted.instructionChanges.join("; ")}`,
+    nutrition: recipe.nutrition,
+    parentRecipeId: recipe._id,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Household Utility
+ *
+ * Shared rules for households: invite codes, who can manage the household,
+ * and who takes over as owner when the owner leaves.
+ */
+
+/**
+ * Household member role
+ *
+ * - owner: can invite, remove members and rename the household
+ * - member: can read and write the shared plan, lists and cookbooks
+ */
+export type HouseholdRole = "owner" | "member";
+
+/**
+ * How long an invite code stays valid
+ */
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum members in a household
+ */
+export const MAX_HOUSEHOLD_MEMBERS = 10;
+
+/**
+ * Characters used in invite codes (no 0/O or 1/I/L, which are easy to misread)
+ */
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+const INVITE_CODE_LENGTH = 8;
+
+/**
+ * Generate an invite code that's easy to read out or type
+ *
+ * @returns Code such as "K7QM-4XPA"
+ */
+export function generateInviteCode(): string {
+  const bytes = new Uint8Array(INVITE_CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+
+  const chars = Array.from(
+    bytes,
+    (b) => INVITE_CODE_ALPHABET[b % INVITE_CODE_ALPHABET.length]
+  ).join("");
+
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/**
+ * Normalize a typed invite code for lookup
+ *
+ * Ignores case, spaces and the dash, so "k7qm 4xpa" matches "K7QM-4XPA".
+ */
+export function normalizeInviteCode(code: string): string {
+  const chars = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (chars.length !== INVITE_CODE_LENGTH) return chars;
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/**
+ * Check if an invite has expired
+ */
+export function isInviteExpired(invite: { expiresAt: number }, now: number): boolean {
+  return invite.expiresAt <= now;
+}
+
+/**
+ * Pick who becomes owner when the owner leaves
+ *
+ * The longest-standing remaining member takes over.
+ *
+ * @param members - Remaining members
+ * @returns The new owner, or null if no one is left
+ */
+export function pickNextOwner<T extends { userId: string; joinedAt: number }>(
+  members: T[]
+): T | null {
+  if (members.length === 0) return null;
+  return members.reduce((oldest, member) =>
+    member.joinedAt < oldest.joinedAt ? member : oldest
+  );
+}
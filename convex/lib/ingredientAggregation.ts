@@ -3,20 +3,26 @@
  *
  * Combines duplicate ingredients from multiple recipes into aggregated items.
  * Handles unit conversion and tracks source recipes.
+ * Quantities can be expressed in the user's preferred unit system.
+ * Weight and volume amounts of the same ingredient are combined using
+ * the density table when the ingredient is known.
  */
 
 import { Id } from "../_generated/dataModel";
 import {
   areUnitsCompatible,
   combineQuantities,
+  convertToSystem,
   isCountUnit,
   normalizeUnit,
+  UnitSystem,
 } from "./unitConversion";
 import {
   assignCategory,
   mapRecipeCategoryToShoppingCategory,
   ShoppingItemCategory,
 } from "./categoryAssignment";
+import { convertWithDensity } from "./ingredientDensity";
 
 /**
  * Input ingredient from a recipe
@@ -47,6 +53,8 @@ export interface AggregatedIngredient {
   category: ShoppingItemCategory;
   recipeIds: Id<"recipes">[];
   recipeName: string | null;
+  /** True if a weight/volume conversion via density was used */
+  isApproximate: boolean;
 }
 
 /**
@@ -93,10 +101,12 @@ function generateIngredientKey(name: string, unit: string): string {
  * Aggregate ingredients from multiple recipes
  *
  * @param recipes - Array of recipes with their ingredients
+ * @param unitSystem - Preferred unit system for combined quantities (optional)
  * @returns Array of aggregated ingredients
  */
 export function aggregateIngredients(
-  recipes: RecipeWithIngredients[]
+  recipes: RecipeWithIngredients[],
+  unitSystem?: UnitSystem
 ): AggregatedIngredient[] {
   // Map to track aggregated ingredients by normalized key
   const aggregatedMap = new Map<
@@ -108,6 +118,7 @@ export function aggregateIngredients(
       category: ShoppingItemCategory;
       recipeIds: Set<Id<"recipes">>;
       recipeNames: Set<string>;
+      isApproximate: boolean;
     }
   >();
 
@@ -117,6 +128,14 @@ export function aggregateIngredients(
       const existing = aggregatedMap.get(key);
 
       if (existing) {
+        // Weight <-> volume conversion, only for ingredients with a known density
+        const densityQuantity = convertWithDensity(
+          ingredient.quantity,
+          ingredient.unit,
+          existing.unit,
+          normalizeIngredientName(ingredient.name)
+        );
+
         // Try to combine with existing
         if (areUnitsCompatible(existing.unit, ingredient.unit)) {
           // Convert and combine
@@ -124,7 +143,8 @@ export function aggregateIngredients(
             existing.quantity,
             existing.unit,
             ingredient.quantity,
-            ingredient.unit
+            ingredient.unit,
+            unitSystem
           );
 
           if (combined) {
@@ -141,6 +161,23 @@ export function aggregateIngredients(
         ) {
           // Same unit (count units), just add
           existing.quantity += ingredient.quantity;
+        } else if (densityQuantity !== null) {
+          // Weight vs volume of a known ingredient - convert via density
+          const combined = combineQuantities(
+            existing.quantity,
+            existing.unit,
+            densityQuantity,
+            existing.unit,
+            unitSystem
+          );
+
+          if (combined) {
+            existing.quantity = combined.quantity;
+            existing.unit = combined.unit;
+          } else {
+            existing.quantity += densityQuantity;
+          }
+          existing.isApproximate = true;
         } else {
           // Incompatible units - create a separate entry with unit suffix
           const newKey = `${key}|${normalizeUnit(ingredient.unit)}`;
@@ -156,6 +193,7 @@ export function aggregateIngredients(
               category,
               recipeIds: new Set([recipe.recipeId]),
               recipeNames: new Set([recipe.recipeName]),
+              isApproximate: false,
             });
           } else {
             const altExisting = aggregatedMap.get(newKey)!;
@@ -181,6 +219,7 @@ export function aggregateIngredients(
           category,
           recipeIds: new Set([recipe.recipeId]),
           recipeNames: new Set([recipe.recipeName]),
+          isApproximate: false,
         });
       }
     }
@@ -199,13 +238,19 @@ export function aggregateIngredients(
           ? `${recipeNames[0]} +${recipeNames.length - 1} more`
           : null;
 
+    // Express in the preferred unit system (no-op for count units)
+    const { quantity, unit } = unitSystem
+      ? convertToSystem(item.quantity, item.unit, unitSystem)
+      : { quantity: item.quantity, unit: item.unit };
+
     return {
       name: item.name,
-      quantity: Math.round(item.quantity * 100) / 100, // Round to 2 decimal places
-      unit: item.unit,
+      quantity: Math.round(quantity * 100) / 100, // Round to 2 decimal places
+      unit,
       category: item.category,
       recipeIds,
       recipeName,
+      isApproximate: item.isApproximate,
     };
   });
 }
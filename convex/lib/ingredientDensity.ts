@@ -0,0 +1,132 @@
+/**
+ * Ingredient Density Table
+ *
+ * Approximate densities for common ingredients, used to convert between
+ * weight and volume (e.g., "2 cups flour" and "250 g flour").
+ * Cross-group conversions are only performed for ingredients listed here,
+ * and results should always be treated as approximate.
+ */
+
+import { convertUnit, getUnitGroup } from "./unitConversion";
+
+/**
+ * Grams per US cup for common ingredients
+ * Keys are normalized ingredient names (see normalizeIngredientName)
+ */
+const GRAMS_PER_CUP: Record<string, number> = {
+  // Flours and starches
+  flour: 120,
+  "all-purpose flour": 120,
+  "all purpose flour": 120,
+  "plain flour": 120,
+  "bread flour": 127,
+  "whole wheat flour": 113,
+  "cake flour": 114,
+  "self-rising flour": 113,
+  cornstarch: 128,
+  "cocoa powder": 85,
+  "rolled oats": 90,
+  oats: 90,
+
+  // Sugars and sweeteners
+  sugar: 200,
+  "granulated sugar": 200,
+  "white sugar": 200,
+  "caster sugar": 200,
+  "brown sugar": 213,
+  "light brown sugar": 213,
+  "dark brown sugar": 213,
+  "powdered sugar": 120,
+  "icing sugar": 120,
+  "confectioners sugar": 120,
+  honey: 340,
+  "maple syrup": 315,
+
+  // Fats
+  butter: 227,
+  "unsalted butter": 227,
+  "salted butter": 227,
+  oil: 218,
+  "olive oil": 216,
+  "vegetable oil": 218,
+  "canola oil": 218,
+
+  // Grains
+  rice: 185,
+  "white rice": 185,
+  "brown rice": 190,
+  "basmati rice": 185,
+  "jasmine rice": 185,
+
+  // Dairy and liquids
+  milk: 245,
+  "whole milk": 245,
+  buttermilk: 245,
+  "heavy cream": 238,
+  cream: 238,
+  yogurt: 245,
+  "greek yogurt": 245,
+  water: 237,
+
+  // Seasonings
+  salt: 292,
+  "table salt": 292,
+  "kosher salt": 160,
+};
+
+/**
+ * Look up the density of an ingredient in grams per US cup
+ *
+ * @param normalizedName - Ingredient name, already normalized
+ * @returns Grams per cup, or null if the ingredient is not in the table
+ */
+export function getIngredientDensity(normalizedName: string): number | null {
+  return GRAMS_PER_CUP[normalizedName] ?? null;
+}
+
+/**
+ * Check if an ingredient has a known density
+ *
+ * @param normalizedName - Ingredient name, already normalized
+ * @returns True if weight/volume conversion is supported
+ */
+export function hasKnownDensity(normalizedName: string): boolean {
+  return getIngredientDensity(normalizedName) !== null;
+}
+
+/**
+ * Convert an ingredient quantity between weight and volume using its density
+ *
+ * Only handles cross-group conversions (weight <-> volume); use convertUnit
+ * for conversions within a group.
+ *
+ * @param quantity - The quantity to convert
+ * @param fromUnit - The source unit
+ * @param toUnit - The target unit
+ * @param normalizedName - Ingredient name, already normalized
+ * @returns The converted quantity, or null if the density is unknown
+ */
+export function convertWithDensity(
+  quantity: number,
+  fromUnit: string,
+  toUnit: string,
+  normalizedName: string
+): number | null {
+  const density = getIngredientDensity(normalizedName);
+  const fromGroup = getUnitGroup(fromUnit);
+  const toGroup = getUnitGroup(toUnit);
+
+  if (density === null || !fromGroup || !toGroup || fromGroup === toGroup) {
+    return null;
+  }
+
+  if (fromGroup === "volume") {
+    // volume -> cups -> grams -> target weight unit
+    const cups = convertUnit(quantity, fromUnit, "cup");
+    return cups === null ? null : convertUnit(cups * density, "g", toUnit);
+  }
+
+  // weight -> grams -> cups -> target volume unit
+  const grams = convertUnit(quantity, fromUnit, "g");
+  return grams === null ? null : convertUnit(grams / density, "cup", toUnit);
+}
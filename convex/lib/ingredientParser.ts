@@ -0,0 +1,353 @@
+/**
+ * Ingredient Line Parser
+ *
+ * Deterministic parser for free-text ingredient lines, shared by the web,
+ * scan, YouTube, manual and bulk importers. Besides quantity, unit and
+ * name it keeps the detail that a plain "quantity unit name" split loses:
+ *
+ * - "2 (14 oz) cans diced tomatoes, drained"
+ *     -> 2 cans of 14 oz, "diced tomatoes", preparation "drained"
+ * - "1–2 tbsp sugar" -> 1 to 2 tbsp, "sugar"
+ * - "salt, to taste (optional)" -> "salt", preparation "to taste", optional
+ *
+ * All functions are pure.
+ */
+
+import {
+  categorizeIngredient,
+  normalizeQuantityText,
+  parseQuantity,
+  type AppIngredient,
+  type PackageSize,
+} from "./aiRecipeTransform";
+import { getUnitGroup, isKnownUnit, normalizeUnit } from "./unitConversion";
+
+/**
+ * Ingredient fields that enrichIngredient reads and fills in
+ */
+type EnrichableIngredient = Pick<
+  AppIngredient,
+  "name" | "unit" | "packageSize" | "preparation" | "note" | "optional"
+>;
+
+/**
+ * Detail pulled out of an ingredient name
+ */
+interface NameDetails {
+  name: string;
+  preparation?: string;
+  notes: string[];
+  optional: boolean;
+}
+
+/**
+ * A single number: mixed number, fraction, or decimal
+ */
+const NUMBER = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+`;
+
+/**
+ * Leading quantity, optionally a range ("1-2", "1 to 2", "2 or 3")
+ */
+const LEADING_QUANTITY = new RegExp(
+  String.raw`^(${NUMBER})(?:\s*(?:-|to|or)\s*(${NUMBER}))?(?![\d/])\s*`,
+  "i"
+);
+
+/**
+ * Package size in parentheses: "(14 oz)", "(14.5-ounce)"
+ */
+const PAREN_PACKAGE_SIZE = new RegExp(
+  String.raw`^\(\s*(${NUMBER})\s*-?\s*([a-zA-Z.]+(?:\s+oz\.?)?)\s*\)\s*`
+);
+
+/**
+ * Package size written inline: "14-ounce", "8 oz"
+ */
+const INLINE_PACKAGE_SIZE = new RegExp(
+  String.raw`^(${NUMBER})\s*-?\s*([a-zA-Z]+)\.?\s+`
+);
+
+/**
+ * A parenthetical that is only a measurement: "14 oz"
+ */
+const MEASUREMENT = new RegExp(String.raw`^(${NUMBER})\s*-?\s*([a-zA-Z. ]+)$`);
+
+/**
+ * Size words kept in the name rather than treated as units
+ */
+const SIZE_WORDS = new Set(["large", "medium", "small", "whole"]);
+
+/**
+ * Match a unit at the start of the text
+ *
+ * Tries two-word units ("fl oz") before single words. A unit must be
+ * followed by a name, so "2 cloves" keeps "cloves" as the name.
+ */
+function matchUnit(text: string): { unit: string; rest: string } | null {
+  const candidates = [
+    text.match(/^([a-zA-Z]+\.?\s+[a-zA-Z]+)\.?\s+(.+)$/),
+    text.match(/^([a-zA-Z]+)\.?\s+(.+)$/),
+  ];
+
+  for (const match of candidates) {
+    if (!match) continue;
+    const unit = match[1].replace(/\.$/, "");
+    if (isKnownUnit(unit) && !SIZE_WORDS.has(normalizeUnit(unit))) {
+      return { unit, rest: match[2] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a measurement like "14 oz" into a package size
+ *
+ * @returns The size, or null if the text isn't a weight or volume
+ */
+function toPackageSize(quantityText: string, unitText: string): PackageSize | null {
+  const unit = unitText.trim().replace(/\.$/, "");
+  if (!getUnitGroup(unit)) {
+    return null;
+  }
+  return { quantity: parseQuantity(quantityText), unit };
+}
+
+/**
+ * Match a package size that follows the quantity
+ *
+ * "(14 oz) cans" and "14-ounce cans" both describe the size of each can.
+ * The inline form needs a container unit after it so "2 8 oz" alone
+ * isn't misread.
+ */
+function matchPackageSize(text: string): { packageSize: PackageSize; rest: string } | null {
+  const paren = text.match(PAREN_PACKAGE_SIZE);
+  if (paren) {
+    const packageSize = toPackageSize(paren[1], paren[2]);
+    if (packageSize) {
+      return { packageSize, rest: text.slice(paren[0].length) };
+    }
+  }
+
+  const inline = text.match(INLINE_PACKAGE_SIZE);
+  if (inline) {
+    const packageSize = toPackageSize(inline[1], inline[2]);
+    const rest = text.slice(inline[0].length);
+    const container = matchUnit(rest);
+    if (packageSize && container && !getUnitGroup(container.unit)) {
+      return { packageSize, rest };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split an ingredient name into name, preparation, notes and optional flag
+ *
+ * Parentheticals become notes, "(optional)" and ", optional" set the flag,
+ * and everything after the first comma is the preparation.
+ */
+function splitNameDetails(text: string): NameDetails {
+  let name = text.trim();
+  let optional = false;
+  const notes: string[] = [];
+
+  for (const group of name.match(/\([^()]*\)/g) ?? []) {
+    const content = group.slice(1, -1).trim();
+    const optionalMatch = content.match(/^optional\b[\s,;:-]*(.*)$/i);
+    if (optionalMatch) {
+      optional = true;
+      if (optionalMatch[1]) {
+        notes.push(optionalMatch[1]);
+      }
+    } else if (content) {
+      notes.push(content);
+    }
+  }
+  name = name.replace(/\s*\([^()]*\)/g, " ");
+
+  if (/,\s*optional\s*(?=,|$)/i.test(name)) {
+    optional = true;
+    name = name.replace(/,\s*optional\s*(?=,|$)/gi, "");
+  }
+
+  name = name.replace(/\s+/g, " ").trim();
+
+  // "boneless, skinless chicken thighs" describes the chicken, not its prep
+  let preparation: string | undefined;
+  const segments = name.split(",");
+  let nameSegments = 1;
+  while (nameSegments < segments.length && /^\s*\w+less\s*$/i.test(segments[nameSegments - 1])) {
+    nameSegments++;
+  }
+  if (segments.length > nameSegments) {
+    preparation = segments.slice(nameSegments).join(",").replace(/^[\s,]+|[\s,]+$/g, "") || undefined;
+    name = segments.slice(0, nameSegments).join(",").trim();
+  }
+
+  return {
+    name: name.replace(/[\s,;:]+$/, ""),
+    preparation,
+    notes,
+    optional,
+  };
+}
+
+/**
+ * Set the optional detail fields that have values
+ *
+ * Fields without a value are left off so stored ingredients stay small.
+ */
+function applyDetails<T extends EnrichableIngredient>(
+  ingredient: T,
+  details: {
+    quantityMax?: number;
+    packageSize?: PackageSize;
+    preparation?: string;
+    notes: string[];
+    optional: boolean;
+  }
+): T & Pick<AppIngredient, "quantityMax"> {
+  const result: T & Pick<AppIngredient, "quantityMax"> = { ...ingredient };
+
+  if (details.quantityMax !== undefined) {
+    result.quantityMax = details.quantityMax;
+  }
+  if (details.packageSize) {
+    result.packageSize = details.packageSize;
+  }
+  if (details.preparation) {
+    result.preparation = details.preparation;
+  }
+  if (details.notes.length > 0) {
+    result.note = details.notes.join("; ");
+  }
+  if (details.optional) {
+    result.optional = true;
+  }
+
+  return result;
+}
+
+/**
+ * Parse a free-text ingredient line
+ *
+ * Handles unicode fractions ("1½"), ranges ("1–2", "1 to 2"), "a"/"an"
+ * as one, nested package sizes ("2 (14 oz) cans"), preparation after a
+ * comma ("onion, diced"), parenthetical notes and optional markers.
+ * Lines without a leading quantity get quantity 0.
+ *
+ * @param line - Ingredient text
+ * @returns Parsed ingredient; detail fields are only set when present
+ */
+export function parseIngredientText(line: string): AppIngredient {
+  let text = normalizeQuantityText(line)
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^[-*•]\s*/, "");
+
+  let optional = false;
+  if (/^optional\s*:\s*/i.test(text)) {
+    optional = true;
+    text = text.replace(/^optional\s*:\s*/i, "");
+  }
+
+  let quantity = 0;
+  let quantityMax: number | undefined;
+  const quantityMatch = text.match(LEADING_QUANTITY);
+  if (quantityMatch) {
+    quantity = parseQuantity(quantityMatch[1]);
+    if (quantityMatch[2]) {
+      const high = parseQuantity(quantityMatch[2]);
+      if (high > quantity) {
+        quantityMax = high;
+      }
+    }
+    text = text.slice(quantityMatch[0].length);
+  } else {
+    // "a pinch of salt", "an 8 oz package"
+    const article = text.match(/^an?\s+/i);
+    const rest = article ? text.slice(article[0].length) : "";
+    if (article && (matchUnit(rest) || matchPackageSize(rest))) {
+      quantity = 1;
+      text = rest;
+    }
+  }
+
+  let packageSize: PackageSize | undefined;
+  let unit = "";
+  if (quantity > 0) {
+    const packageMatch = matchPackageSize(text);
+    if (packageMatch) {
+      packageSize = packageMatch.packageSize;
+      text = packageMatch.rest;
+    }
+
+    const unitMatch = matchUnit(text);
+    if (unitMatch) {
+      unit = unitMatch.unit;
+      text = unitMatch.rest;
+    }
+  }
+
+  const details = splitNameDetails(text.replace(/^of\s+/i, ""));
+  const name = details.name || line.trim();
+
+  return applyDetails(
+    { name, quantity, unit, category: categorizeIngredient(name) },
+    {
+      ...details,
+      quantityMax,
+      packageSize,
+      optional: optional || details.optional,
+    }
+  );
+}
+
+/**
+ * Pull preparation, notes and the optional flag out of a stored name
+ *
+ * For ingredients that already have a quantity and unit: AI extraction
+ * results, manual entries, and recipes saved before these fields existed.
+ * A unit of "to taste" becomes the preparation, and a measurement note on
+ * a container ("can" with "(14 oz)") becomes the package size.
+ * Category and quantity are left as they are. Safe to run more than once.
+ *
+ * @param ingredient - Structured ingredient
+ * @returns The ingredient with any details it had in its name split out
+ */
+export function enrichIngredient<T extends EnrichableIngredient>(ingredient: T): T {
+  const details = splitNameDetails(ingredient.name);
+  let unit = ingredient.unit;
+  let packageSize = ingredient.packageSize;
+
+  const preparation = [ingredient.preparation, details.preparation];
+  if (normalizeUnit(unit) === "to taste") {
+    unit = "";
+    preparation.push("to taste");
+  }
+
+  if (!packageSize && isKnownUnit(unit) && !getUnitGroup(unit)) {
+    const index = details.notes.findIndex((note) => MEASUREMENT.test(note));
+    const measurement = index >= 0 ? details.notes[index].match(MEASUREMENT) : null;
+    const size = measurement ? toPackageSize(measurement[1], measurement[2]) : null;
+    if (size) {
+      packageSize = size;
+      details.notes.splice(index, 1);
+    }
+  }
+
+  const base: T = { ...ingredient, name: details.name || ingredient.name.trim(), unit };
+  delete base.packageSize;
+  delete base.preparation;
+  delete base.note;
+  delete base.optional;
+
+  return applyDetails(base, {
+    packageSize,
+    preparation: preparation.filter(Boolean).join(", ") || undefined,
+    notes: ingredient.note ? [ingredient.note, ...details.notes] : details.notes,
+    optional: ingredient.optional === true || details.optional,
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * Meal Plan Nutrition Utility
+ *
+ * Totals recipe nutrition for planned meals per day and per week, and
+ * compares the totals with the user's daily targets. Recipe nutrition is
+ * stored per serving, so each planned meal counts as one serving eaten by
+ * one person. Meals whose recipe has no nutrition are reported as missing
+ * instead of counting as zero, so partial totals are never mistaken for
+ * complete ones.
+ */
+
+/**
+ * Nutrition values (kcal and grams)
+ */
+export interface NutritionValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+/**
+ * Daily nutrition targets; unset values have no target
+ */
+export type NutritionTargets = Partial<NutritionValues>;
+
+export type NutrientKey = keyof NutritionValues;
+
+export const NUTRIENT_KEYS: NutrientKey[] = ["calories", "protein", "carbs", "fat"];
+
+/**
+ * Planned meal fields used for nutrition totals
+ */
+export interface NutritionMeal {
+  _id: string;
+  day: string;
+  recipeName: string;
+  nutrition?: NutritionValues | null;
+}
+
+/**
+ * Meal left out of the totals because its recipe has no nutrition
+ */
+export interface MissingNutritionMeal {
+  mealId: string;
+  recipeName: string;
+}
+
+/**
+ * Nutrition totals for a set of meals
+ */
+export interface NutritionSummary {
+  totals: NutritionValues;
+  /** Meals included in the totals */
+  mealCount: number;
+  /** Meals without nutrition, not included in the totals */
+  missing: MissingNutritionMeal[];
+}
+
+/**
+ * Nutrition totals for one day
+ */
+export interface DayNutrition extends NutritionSummary {
+  day: string;
+}
+
+/**
+ * Nutrition totals for a week
+ */
+export interface WeekNutrition {
+  days: DayNutrition[];
+  week: NutritionSummary;
+  /** Week totals divided by the days that have meals */
+  dailyAverage: NutritionValues;
+}
+
+/**
+ * Progress toward one daily target
+ */
+export interface TargetProgress {
+  nutrient: NutrientKey;
+  value: number;
+  target: number;
+  /** value / target (1 = target reached) */
+  ratio: number;
+}
+
+/**
+ * Nutrition values of zero
+ */
+export function emptyNutrition(): NutritionValues {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0 };
+}
+
+/**
+ * Round nutrition values to whole numbers for display
+ */
+function roundNutrition(values: NutritionValues): NutritionValues {
+  return {
+    calories: Math.round(values.calories),
+    protein: Math.round(values.protein),
+    carbs: Math.round(values.carbs),
+    fat: Math.round(values.fat),
+  };
+}
+
+/**
+ * Total nutrition for a set of meals
+ *
+ * @param meals - Planned meals with their recipe's per-serving nutrition
+ * @returns Totals plus the meals that had no nutrition
+ */
+export function summarizeNutrition(meals: NutritionMeal[]): NutritionSummary {
+  const totals = emptyNutrition();
+  const missing: MissingNutritionMeal[] = [];
+  let mealCount = 0;
+
+  for (const meal of meals) {
+    if (!meal.nutrition) {
+      missing.push({ mealId: meal._id, recipeName: meal.recipeName });
+      continue;
+    }
+
+    for (const key of NUTRIENT_KEYS) {
+      totals[key] += meal.nutrition[key];
+    }
+    mealCount++;
+  }
+
+  return { totals: roundNutrition(totals), mealCount, missing };
+}
+
+/**
+ * Total nutrition per day and for the week
+ *
+ * @param meals - Planned meals for the week
+ * @param days - The week's days in YYYY-MM-DD format
+ * @returns One entry per day, the week totals, and the daily average
+ */
+export function summarizeWeekNutrition(
+  meals: NutritionMeal[],
+  days: string[]
+): WeekNutrition {
+  const dayNutrition = days.map((day) => ({
+    day,
+    ...summarizeNutrition(meals.filter((meal) => meal.day === day)),
+  }));
+
+  const week = summarizeNutrition(meals.filter((meal) => days.includes(meal.day)));
+  const plannedDays = dayNutrition.filter((day) => day.mealCount > 0).length;
+
+  const dailyAverage = emptyNutrition();
+  if (plannedDays > 0) {
+    for (const key of NUTRIENT_KEYS) {
+      dailyAverage[key] = week.totals[key] / plannedDays;
+    }
+  }
+
+  return { days: dayNutrition, week, dailyAverage: roundNutrition(dailyAverage) };
+}
+
+/**
+ * Compare nutrition with daily targets
+ *
+ * @param values - Nutrition for a day (or a daily average)
+ * @param targets - Daily targets
+ * @returns Progress for each nutrient that has a target
+ */
+export function getTargetProgress(
+  values: NutritionValues,
+  targets: NutritionTargets | undefined
+): TargetProgress[] {
+  if (!targets) return [];
+
+  return NUTRIENT_KEYS.flatMap((nutrient) => {
+    const target = targets[nutrient];
+    if (target === undefined || target <= 0) return [];
+    return [{ nutrient, value: values[nutrient], target, ratio: values[nutrient] / target }];
+  });
+}
@@ -0,0 +1,314 @@
+/**
+ * Meal Plan Generator
+ *
+ * Fills empty breakfast/lunch/dinner slots for a week from the user's
+ * recipe library. Candidates must satisfy the user's dietary restrictions
+ * and, for weeknight dinners, a max total time. Variety rules prevent the
+ * same recipe within N days (any slot) and the same cuisine within N days
+ * in the same slot. Meals already planned or pinned are kept and count
+ * toward the variety rules.
+ */
+
+/**
+ * Slots the generator fills (snacks are left to the user)
+ */
+export type GeneratedMealSlot = "breakfast" | "lunch" | "dinner";
+
+export const GENERATED_MEAL_SLOTS: GeneratedMealSlot[] = [
+  "breakfast",
+  "lunch",
+  "dinner",
+];
+
+/**
+ * Meal category inferred from a recipe
+ */
+export type MealCategory = "breakfast" | "lunch" | "dinner" | "snacks";
+
+/**
+ * Recipe the generator can choose from
+ */
+export interface PlanCandidate {
+  recipeId: string;
+  title: string;
+  cuisineType?: string;
+  totalTime: number;
+  dietaryTags: string[];
+}
+
+/**
+ * A meal in the week, planned or generated
+ */
+export interface PlanEntry {
+  day: string;
+  slot: string;
+  recipeId: string;
+  cuisineType?: string;
+}
+
+/**
+ * Generator settings
+ */
+export interface PlanGeneratorOptions {
+  dietaryRestrictions: string[];
+  /** Max prep + cook minutes for dinners Monday-Friday */
+  maxWeeknightTime?: number;
+  /** Days within which a recipe or cuisine may not repeat */
+  varietyDays: number;
+}
+
+export const DEFAULT_VARIETY_DAYS = 3;
+
+/**
+ * Tags that satisfy a restriction when the names differ
+ */
+const RESTRICTION_ALIASES: Record<string, string[]> = {
+  "low-carb-keto": ["low-carb", "keto"],
+  vegetarian: ["vegetarian", "vegan"],
+};
+
+/**
+ * Normalize a tag or restriction ("Gluten Free" -> "gluten-free")
+ */
+function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/[\s_]+/g, "-");
+}
+
+/**
+ * Infer which meal a recipe suits from its title and tags
+ *
+ * @param title - Recipe title
+ * @param dietaryTags - Recipe tags
+ * @returns Meal category (defaults to dinner)
+ */
+export function inferMealCategory(title: string, dietaryTags: string[]): MealCategory {
+  const lowerTitle = title.toLowerCase();
+  const tags = dietaryTags.map((t) => t.toLowerCase());
+
+  if (
+    lowerTitle.includes("breakfast") ||
+    lowerTitle.includes("oat") ||
+    lowerTitle.includes("pancake") ||
+    lowerTitle.includes("egg") ||
+    lowerTitle.includes("toast") ||
+    tags.includes("breakfast")
+  ) {
+    return "breakfast";
+  }
+
+  if (
+    lowerTitle.includes("salad") ||
+    lowerTitle.includes("sandwich") ||
+    lowerTitle.includes("wrap") ||
+    lowerTitle.includes("bowl") ||
+    tags.includes("lunch")
+  ) {
+    return "lunch";
+  }
+
+  if (
+    lowerTitle.includes("snack") ||
+    lowerTitle.includes("cookie") ||
+    lowerTitle.includes("cake") ||
+    lowerTitle.includes("dessert") ||
+    lowerTitle.includes("bite") ||
+    tags.includes("snack") ||
+    tags.includes("dessert")
+  ) {
+    return "snacks";
+  }
+
+  return "dinner";
+}
+
+/**
+ * Check that a recipe is tagged for every dietary restriction
+ *
+ * @param dietaryTags - Recipe tags
+ * @param restrictions - User's dietary restrictions
+ * @returns True if every restriction is satisfied
+ */
+export function meetsDietaryRestrictions(
+  dietaryTags: string[],
+  restrictions: string[]
+): boolean {
+  const tags = new Set(dietaryTags.map(normalizeTag));
+
+  return restrictions.every((restriction) => {
+    const normalized = normalizeTag(restriction);
+    const accepted = RESTRICTION_ALIASES[normalized] ?? [normalized];
+    return accepted.some((tag) => tags.has(tag));
+  });
+}
+
+/**
+ * Check if a day is a weeknight (Monday-Friday)
+ *
+ * @param day - Date in YYYY-MM-DD format
+ */
+export function isWeeknight(day: string): boolean {
+  const weekday = new Date(day + "T12:00:00").getDay();
+  return weekday >= 1 && weekday <= 5;
+}
+
+/**
+ * List the seven days of a week
+ *
+ * @param weekStart - First day in YYYY-MM-DD format
+ * @returns Days in YYYY-MM-DD format
+ */
+export function getWeekDays(weekStart: string): string[] {
+  const start = new Date(weekStart + "T12:00:00");
+
+  return Array.from({ length: 7 }, (_, i) => {
+    const date = new Date(start);
+    date.setDate(start.getDate() + i);
+    return date.toISOString().split("T")[0];
+  });
+}
+
+/**
+ * Whole days between two YYYY-MM-DD dates
+ */
+function daysBetween(a: string, b: string): number {
+  const ms = new Date(a + "T12:00:00").getTime() - new Date(b + "T12:00:00").getTime();
+  return Math.abs(Math.round(ms / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * Filter candidates down to those allowed in a slot
+ *
+ * Dietary restrictions and the weeknight time limit always apply.
+ * Recipes that fit the slot's meal category are preferred; if none do,
+ * any recipe is allowed. The cuisine rule is relaxed before giving up.
+ */
+function getEligibleCandidates(
+  candidates: PlanCandidate[],
+  day: string,
+  slot: GeneratedMealSlot,
+  entries: PlanEntry[],
+  options: PlanGeneratorOptions
+): PlanCandidate[] {
+  const nearby = entries.filter(
+    (entry) =>
+      daysBetween(entry.day, day) < options.varietyDays &&
+      !(entry.day === day && entry.slot === slot)
+  );
+  const recentRecipes = new Set(nearby.map((entry) => entry.recipeId));
+  const recentCuisines = new Set(
+    nearby
+      .filter((entry) => entry.slot === slot && entry.cuisineType)
+      .map((entry) => entry.cuisineType!.toLowerCase())
+  );
+
+  const allowed = candidates.filter(
+    (candidate) =>
+      meetsDietaryRestrictions(candidate.dietaryTags, options.dietaryRestrictions) &&
+      !(
+        slot === "dinner" &&
+        options.maxWeeknightTime !== undefined &&
+        isWeeknight(day) &&
+        candidate.totalTime > options.maxWeeknightTime
+      ) &&
+      !recentRecipes.has(candidate.recipeId)
+  );
+
+  const inCategory = allowed.filter(
+    (candidate) => inferMealCategory(candidate.title, candidate.dietaryTags) === slot
+  );
+  const pool = inCategory.length > 0 ? inCategory : allowed;
+
+  const varied = pool.filter(
+    (candidate) =>
+      !candidate.cuisineType || !recentCuisines.has(candidate.cuisineType.toLowerCase())
+  );
+
+  return varied.length > 0 ? varied : pool;
+}
+
+/**
+ * Pick a recipe for one slot
+ *
+ * @param candidates - Recipes to choose from
+ * @param day - Day in YYYY-MM-DD format
+ * @param slot - Slot to fill
+ * @param entries - Other meals in the plan (for variety rules)
+ * @param options - Generator settings
+ * @param random - Random number source in [0, 1)
+ * @param excludeRecipeId - Recipe to avoid (the one being re-rolled)
+ * @returns The chosen recipe, or null if nothing fits
+ */
+export function pickRecipeForSlot(
+  candidates: PlanCandidate[],
+  day: string,
+  slot: GeneratedMealSlot,
+  entries: PlanEntry[],
+  options: PlanGeneratorOptions,
+  random: () => number,
+  excludeRecipeId?: string
+): PlanCandidate | null {
+  let eligible = getEligibleCandidates(candidates, day, slot, entries, options);
+
+  if (excludeRecipeId && eligible.length > 1) {
+    eligible = eligible.filter((candidate) => candidate.recipeId !== excludeRecipeId);
+  }
+
+  if (eligible.length === 0) {
+    return null;
+  }
+
+  return eligible[Math.floor(random() * eligible.length)];
+}
+
+/**
+ * Fill every empty slot of a week
+ *
+ * @param weekDays - Days of the week in YYYY-MM-DD format
+ * @param slots - Slots to fill
+ * @param candidates - Recipes to choose from
+ * @param fixed - Planned or pinned meals that must be kept
+ * @param options - Generator settings
+ * @param random - Random number source in [0, 1)
+ * @returns Generated meals, plus the slots that couldn't be filled
+ */
+export function generateWeekPlan(
+  weekDays: string[],
+  slots: GeneratedMealSlot[],
+  candidates: PlanCandidate[],
+  fixed: PlanEntry[],
+  options: PlanGeneratorOptions,
+  random: () => number
+): {
+  meals: (PlanEntry & { title: string })[];
+  unfilled: { day: string; slot: GeneratedMealSlot }[];
+} {
+  const entries: PlanEntry[] = [...fixed];
+  const meals: (PlanEntry & { title: string })[] = [];
+  const unfilled: { day: string; slot: GeneratedMealSlot }[] = [];
+
+  for (const day of weekDays) {
+    for (const slot of slots) {
+      if (entries.some((entry) => entry.day === day && entry.slot === slot)) {
+        continue;
+      }
+
+      const recipe = pickRecipeForSlot(candidates, day, slot, entries, options, random);
+
+      if (!recipe) {
+        unfilled.push({ day, slot });
+        continue;
+      }
+
+      const entry = {
+        day,
+        slot,
+        recipeId: recipe.recipeId,
+        cuisineType: recipe.cuisineType,
+      };
+      entries.push(entry);
+      meals.push({ ...entry, title: recipe.title });
+    }
+  }
+
+  return { meals, unfilled };
+}
@@ -0,0 +1,226 @@
+/**
+ * Meal Plan Template Utility
+ *
+ * Saves a week of planned meals as a reusable template (meals keyed by
+ * day offset from the week start) and works out what applying a template
+ * to another week should change. Weeks start on Sunday, matching the
+ * meal planner calendar.
+ */
+
+/**
+ * How a template is applied to a week
+ *
+ * - overwrite: the week's existing meals are removed first
+ * - merge: existing meals are kept; only empty slots are filled
+ */
+export type TemplateApplyMode = "overwrite" | "merge";
+
+/**
+ * Meal saved in a template
+ */
+export interface TemplateMeal {
+  /** Days after the week start (0 = Sunday) */
+  dayOffset: number;
+  slot: string;
+  recipeId: string;
+  recipeName: string;
+  servings?: number;
+  /** Slot of the template meal these are leftovers of */
+  leftoverOf?: { dayOffset: number; slot: string };
+}
+
+/**
+ * Planned meal as read from the week being applied to
+ */
+export interface WeekMeal {
+  _id: string;
+  day: string;
+  slot: string;
+}
+
+/**
+ * Changes needed to apply a template to a week
+ */
+export interface TemplateApplication<T extends TemplateMeal> {
+  /** Existing meals to delete (overwrite mode) */
+  toRemove: string[];
+  /** Template meals to add, with their calendar day */
+  toAdd: (T & { day: string })[];
+  /** Names of recipes deleted since the template was saved */
+  missingRecipes: string[];
+  /** Template meals skipped because the slot was already planned */
+  occupiedCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Offset a YYYY-MM-DD date by a number of days
+ *
+ * @param day - Date in YYYY-MM-DD format
+ * @param offset - Days to add (may be negative)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function addDays(day: string, offset: number): string {
+  const date = new Date(day + "T12:00:00Z");
+  date.setUTCDate(date.getUTCDate() + offset);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+function daysFrom(from: string, to: string): number {
+  return Math.round(
+    (new Date(to + "T12:00:00Z").getTime() - new Date(from + "T12:00:00Z").getTime()) / DAY_MS
+  );
+}
+
+/**
+ * Get the Sunday that starts the week containing a date
+ *
+ * @param day - Date in YYYY-MM-DD format
+ * @returns Week start in YYYY-MM-DD format
+ */
+export function getWeekStartDay(day: string): string {
+  const weekday = new Date(day + "T12:00:00Z").getUTCDay();
+  return addDays(day, -weekday);
+}
+
+/**
+ * Convert a week of planned meals into template meals
+ *
+ * Meals outside the week are ignored. Leftover links are kept when the
+ * original meal is in the same week.
+ *
+ * @param meals - Planned meals
+ * @param weekStart - First day of the week in YYYY-MM-DD format
+ * @returns Template meals sorted by day offset
+ */
+export function buildTemplateMeals<
+  T extends {
+    _id?: string;
+    day: string;
+    slot: string;
+    recipeId: string;
+    recipeName: string;
+    servings?: number;
+    leftoverOfMealId?: string;
+  },
+>(meals: T[], weekStart: string): TemplateMeal[] {
+  const inWeek = meals.filter((meal) => {
+    const offset = daysFrom(weekStart, meal.day);
+    return offset >= 0 && offset < 7;
+  });
+
+  return inWeek
+    .map((meal) => {
+      const source = meal.leftoverOfMealId
+        ? inWeek.find((other) => other._id === meal.leftoverOfMealId)
+        : undefined;
+
+      const templateMeal: TemplateMeal = {
+        dayOffset: daysFrom(weekStart, meal.day),
+        slot: meal.slot,
+        recipeId: meal.recipeId,
+        recipeName: meal.recipeName,
+      };
+      if (meal.servings !== undefined) {
+        templateMeal.servings = meal.servings;
+      }
+      if (source) {
+        templateMeal.leftoverOf = {
+          dayOffset: daysFrom(weekStart, source.day),
+          slot: source.slot,
+        };
+      }
+      return templateMeal;
+    })
+    .sort((a, b) => a.dayOffset - b.dayOffset);
+}
+
+/**
+ * Work out how to apply a template to a week
+ *
+ * @param templateMeals - Meals saved in the template
+ * @param weekStart - First day of the target week in YYYY-MM-DD format
+ * @param existingMeals - Meals already planned in the target week
+ * @param mode - Overwrite or merge
+ * @param availableRecipeIds - Recipes that still exist
+ * @returns Meals to remove and add, plus what was skipped
+ */
+export function planTemplateApplication<T extends TemplateMeal>(
+  templateMeals: T[],
+  weekStart: string,
+  existingMeals: WeekMeal[],
+  mode: TemplateApplyMode,
+  availableRecipeIds: Set<string>
+): TemplateApplication<T> {
+  const toRemove = mode === "overwrite" ? existingMeals.map((meal) => meal._id) : [];
+  const occupied = new Set(
+    mode === "overwrite" ? [] : existingMeals.map((meal) => `${meal.day}|${meal.slot}`)
+  );
+
+  const toAdd: (T & { day: string })[] = [];
+  const missingRecipes: string[] = [];
+  let occupiedCount = 0;
+
+  for (const meal of templateMeals) {
+    if (!availableRecipeIds.has(meal.recipeId)) {
+      if (!missingRecipes.includes(meal.recipeName)) {
+        missingRecipes.push(meal.recipeName);
+      }
+      continue;
+    }
+
+    const day = addDays(weekStart, meal.dayOffset);
+    const key = `${day}|${meal.slot}`;
+
+    if (occupied.has(key)) {
+      occupiedCount++;
+      continue;
+    }
+
+    occupied.add(key);
+    toAdd.push({ ...meal, day });
+  }
+
+  return { toRemove, toAdd, missingRecipes, occupiedCount };
+}
+
+/**
+ * Check if a recurring template is due for a week
+ *
+ * @param startWeek - First week the template recurs on (YYYY-MM-DD)
+ * @param intervalWeeks - Apply every N weeks
+ * @param weekStart - Week to check (YYYY-MM-DD)
+ * @returns True if the template should be applied to the week
+ */
+export function isRecurrenceDue(
+  startWeek: string,
+  intervalWeeks: number,
+  weekStart: string
+): boolean {
+  const days = daysFrom(startWeek, weekStart);
+  return days >= 0 && days % (intervalWeeks * 7) === 0;
+}
+
+/**
+ * Get the next week a recurring template applies to
+ *
+ * @param startWeek - First week the template recurs on (YYYY-MM-DD)
+ * @param intervalWeeks - Apply every N weeks
+ * @param afterWeek - Return the first occurrence on or after this week
+ * @returns Week start in YYYY-MM-DD format
+ */
+export function getNextRecurrenceWeek(
+  startWeek: string,
+  intervalWeeks: number,
+  afterWeek: string
+): string {
+  const days = daysFrom(startWeek, afterWeek);
+  if (days <= 0) return startWeek;
+
+  const period = intervalWeeks * 7;
+  return addDays(startWeek, Math.ceil(days / period) * period);
+}
@@ -0,0 +1,120 @@
+/**
+ * Meal Servings Utility
+ *
+ * Scales recipes to the servings planned for each meal before their
+ * ingredients are aggregated into a shopping list. "Cook once, eat twice"
+ * leftovers add no ingredients of their own; instead their servings are
+ * added to the meal they're left over from, so enough gets cooked.
+ * Amounts stay exact here; they're rounded once aggregated.
+ */
+
+import { Id } from "../_generated/dataModel";
+import { RecipeIngredient, RecipeWithIngredients } from "./ingredientAggregation";
+import { getScaleFactor } from "./recipeScaling";
+
+/**
+ * Planned meal fields used for scaling
+ */
+export interface ServingsMeal {
+  _id: string;
+  recipeId: Id<"recipes">;
+  servings?: number;
+  leftoverOfMealId?: string;
+}
+
+/**
+ * Recipe fields used for scaling
+ */
+export interface ServingsRecipe {
+  _id: Id<"recipes">;
+  title: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+}
+
+/**
+ * Servings planned for a meal
+ *
+ * @param meal - Planned meal
+ * @param recipe - The meal's recipe
+ * @returns Planned servings, or the recipe's own servings when unset
+ */
+export function getPlannedServings(
+  meal: Pick<ServingsMeal, "servings">,
+  recipe: Pick<ServingsRecipe, "servings">
+): number {
+  return meal.servings ?? recipe.servings;
+}
+
+/**
+ * Multiply every ingredient quantity by a factor
+ *
+ * @param ingredients - Recipe ingredients
+ * @param factor - Scale factor (2 = double)
+ * @returns Scaled copies of the ingredients
+ */
+export function scaleIngredients(
+  ingredients: RecipeIngredient[],
+  factor: number
+): RecipeIngredient[] {
+  if (factor === 1) return ingredients;
+  return ingredients.map((ingredient) => ({
+    ...ingredient,
+    quantity: ingredient.quantity * factor,
+  }));
+}
+
+/**
+ * Build scaled recipe entries for aggregating a meal plan
+ *
+ * Each cooked meal contributes its recipe once, scaled to its planned
+ * servings plus the servings of any leftovers that come from it.
+ * Leftover meals contribute nothing.
+ *
+ * @param meals - Selected planned meals
+ * @param recipes - Recipes for the meals, by ID
+ * @param leftovers - Leftover meals linked to the selected meals (may overlap with meals)
+ * @returns One entry per cooked meal, ready for aggregateIngredients
+ */
+export function buildScaledMealRecipes(
+  meals: ServingsMeal[],
+  recipes: Map<string, ServingsRecipe>,
+  leftovers: ServingsMeal[] = []
+): RecipeWithIngredients[] {
+  const cooks = meals.filter((meal) => !meal.leftoverOfMealId);
+
+  // Servings eaten later as leftovers, by source meal
+  const leftoverServings = new Map<string, number>();
+  const seenLeftovers = new Set<string>();
+
+  for (const leftover of [...meals, ...leftovers]) {
+    if (!leftover.leftoverOfMealId || seenLeftovers.has(leftover._id)) continue;
+    seenLeftovers.add(leftover._id);
+
+    const source = cooks.find((meal) => meal._id === leftover.leftoverOfMealId);
+    const recipe = source && recipes.get(source.recipeId);
+    if (!source || !recipe) continue;
+
+    const servings = leftover.servings ?? getPlannedServings(source, recipe);
+    leftoverServings.set(source._id, (leftoverServings.get(source._id) ?? 0) + servings);
+  }
+
+  const result: RecipeWithIngredients[] = [];
+
+  for (const meal of cooks) {
+    const recipe = recipes.get(meal.recipeId);
+    if (!recipe) continue;
+
+    const servings =
+      getPlannedServings(meal, recipe) + (leftoverServings.get(meal._id) ?? 0);
+    const factor = getScaleFactor(recipe.servings, servings);
+
+    result.push({
+      recipeId: recipe._id,
+      recipeName: recipe.title,
+      ingredients: scaleIngredients(recipe.ingredients, factor),
+    });
+  }
+
+  return result;
+}
@@ -6,6 +6,8 @@
  * concatenation for arrays.
  */
 
+import type { InstructionSection } from "./recipeSections";
+
 /**
  * Ingredient category type
  */
@@ -27,6 +29,7 @@ interface ExtractedIngredient {
   quantity: number;
   unit: string;
   category: IngredientCategory;
+  section?: string;
 }
 
 /**
@@ -36,6 +39,7 @@ export interface PageRecipeData {
   title: string | null;
   ingredients: ExtractedIngredient[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   servings: number | null;
   prepTime: number | null;
   cookTime: number | null;
@@ -49,6 +53,7 @@ export interface MergedRecipeData {
   title: string;
   ingredients: ExtractedIngredient[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   servings: number;
   prepTime: number;
   cookTime: number;
@@ -114,7 +119,7 @@ export function formatPageRange(pageNumbers: (string | null)[]): string {
  * Merge strategy:
  * - Title: First non-empty value
  * - Ingredients: Concatenate all lists in scan order
- * - Instructions: Append in scan order
+ * - Instructions: Append in scan order; sections move with their steps
  * - Servings/prepTime/cookTime: First non-null/non-zero value
  * - Page numbers: Combine as range (e.g., "pp. 42-43")
  *
@@ -132,6 +137,9 @@ export function mergeMultiPageRecipe(pages: PageRecipeData[]): MergedRecipeData
       title: page.title || "Untitled Recipe",
       ingredients: page.ingredients,
       instructions: page.instructions,
+      ...(page.instructionSections && page.instructionSections.length > 0 && {
+        instructionSections: page.instructionSections,
+      }),
       servings: page.servings || 4,
       prepTime: page.prepTime || 0,
       cookTime: page.cookTime || 0,
@@ -148,15 +156,33 @@ export function mergeMultiPageRecipe(pages: PageRecipeData[]): MergedRecipeData
     }
   }
 
-  // Concatenate all ingredients in order
+  // Concatenate all ingredients in order. Untitled ingredients at the top
+  // of a page continue the section the previous page ended in.
   const ingredients: ExtractedIngredient[] = [];
   for (const page of pages) {
-    ingredients.push(...page.ingredients);
+    const carriedSection = ingredients[ingredients.length - 1]?.section;
+    let isLeading = true;
+    for (const ingredient of page.ingredients) {
+      if (ingredient.section) {
+        isLeading = false;
+      }
+      ingredients.push(
+        isLeading && carriedSection ? { ...ingredient, section: carriedSection } : ingredient
+      );
+    }
   }
 
-  // Concatenate all instructions in order
+  // Concatenate all instructions in order, moving each page's sections
+  // to where its steps land
   const instructions: string[] = [];
+  const instructionSections: InstructionSection[] = [];
   for (const page of pages) {
+    for (const section of page.instructionSections ?? []) {
+      instructionSections.push({
+        title: section.title,
+        startIndex: section.startIndex + instructions.length,
+      });
+    }
     instructions.push(...page.instructions);
   }
 
@@ -185,6 +211,7 @@ export function mergeMultiPageRecipe(pages: PageRecipeData[]): MergedRecipeData
     title,
     ingredients,
     instructions,
+    ...(instructionSections.length > 0 && { instructionSections }),
     servings,
     prepTime,
     cookTime,
@@ -0,0 +1,925 @@
+/**
+ * Nutrient Reference Table
+ *
+ * Bundled subset of USDA FoodData Central (SR Legacy) values for common
+ * recipe ingredients, so nutrition can be estimated without a network
+ * call. Values are per 100 g of the food as it is usually bought
+ * (raw meat, dry pasta and rice, drained canned beans).
+ *
+ * Portion weights convert recipe measures to grams: gramsPerCup for
+ * volume measures, gramsPerItem for unitless counts ("2 eggs"), and
+ * unitGrams for count units like cloves and slices.
+ */
+
+/**
+ * Nutrients tracked per 100 g, or per serving once calculated
+ * Energy in kcal, sodium in mg, everything else in grams
+ */
+export interface NutrientValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+}
+
+/**
+ * A food in the reference table
+ */
+export interface NutrientFood {
+  /** Stable identifier stored on user corrections */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Lowercase singular ingredient names that refer to this food */
+  aliases: string[];
+  per100g: NutrientValues;
+  gramsPerCup?: number;
+  gramsPerItem?: number;
+  /** Grams per count unit, keyed by singular unit ("clove", "can") */
+  unitGrams?: Record<string, number>;
+}
+
+/**
+ * Build per-100 g values in table column order
+ */
+function per100g(
+  calories: number,
+  protein: number,
+  carbs: number,
+  fat: number,
+  fiber: number,
+  sugar: number,
+  sodium: number
+): NutrientValues {
+  return { calories, protein, carbs, fat, fiber, sugar, sodium };
+}
+
+/**
+ * Reference foods
+ *
+ * Columns: kcal, protein, carbs, fat, fiber, sugar, sodium (mg)
+ */
+export const NUTRIENT_FOODS: NutrientFood[] = [
+  // Meat and seafood
+  {
+    id: "chicken-breast",
+    name: "Chicken breast, raw",
+    aliases: ["chicken breast", "chicken", "chicken breast half", "chicken tender"],
+    per100g: per100g(120, 22.5, 0, 2.6, 0, 0, 45),
+    gramsPerCup: 140,
+    gramsPerItem: 174,
+  },
+  {
+    id: "chicken-thigh",
+    name: "Chicken thigh, raw",
+    aliases: ["chicken thigh", "chicken leg", "chicken drumstick"],
+    per100g: per100g(121, 19.7, 0, 4.1, 0, 0, 95),
+    gramsPerCup: 140,
+    gramsPerItem: 110,
+  },
+  {
+    id: "ground-beef",
+    name: "Ground beef, 80% lean, raw",
+    aliases: ["ground beef", "beef mince", "minced beef", "hamburger meat", "ground chuck"],
+    per100g: per100g(254, 17.2, 0, 20, 0, 0, 66),
+    gramsPerCup: 225,
+  },
+  {
+    id: "beef",
+    name: "Beef, lean cuts, raw",
+    aliases: ["beef", "steak", "sirloin", "stew meat", "beef chuck", "chuck roast", "flank steak"],
+    per100g: per100g(150, 21, 0, 7, 0, 0, 55),
+    gramsPerCup: 150,
+  },
+  {
+    id: "pork",
+    name: "Pork loin, raw",
+    aliases: ["pork", "pork loin", "pork chop", "pork tenderloin", "pork shoulder"],
+    per100g: per100g(143, 21, 0, 5.7, 0, 0, 50),
+    gramsPerCup: 150,
+    gramsPerItem: 170,
+  },
+  {
+    id: "ground-pork",
+    name: "Ground pork, raw",
+    aliases: ["ground pork", "pork mince", "minced pork"],
+    per100g: per100g(263, 16.9, 0, 21.2, 0, 0, 56),
+    gramsPerCup: 225,
+  },
+  {
+    id: "ground-turkey",
+    name: "Ground turkey, raw",
+    aliases: ["ground turkey", "turkey mince", "turkey"],
+    per100g: per100g(148, 19.7, 0, 8.3, 0, 0, 69),
+    gramsPerCup: 225,
+  },
+  {
+    id: "bacon",
+    name: "Bacon, raw",
+    aliases: ["bacon", "bacon strip", "pancetta"],
+    per100g: per100g(417, 13, 1.4, 40, 0, 0, 833),
+    gramsPerItem: 23,
+    unitGrams: { slice: 23, strip: 23 },
+  },
+  {
+    id: "sausage",
+    name: "Pork sausage, raw",
+    aliases: ["sausage", "italian sausage", "pork sausage", "chorizo"],
+    per100g: per100g(300, 14, 1, 26, 0, 0, 750),
+    gramsPerCup: 225,
+    gramsPerItem: 85,
+    unitGrams: { link: 85 },
+  },
+  {
+    id: "ham",
+    name: "Ham, sliced",
+    aliases: ["ham", "deli ham"],
+    per100g: per100g(145, 21, 1.5, 5.5, 0, 0, 1200),
+    gramsPerCup: 140,
+    unitGrams: { slice: 28 },
+  },
+  {
+    id: "salmon",
+    name: "Salmon, raw",
+    aliases: ["salmon", "salmon fillet"],
+    per100g: per100g(208, 20, 0, 13, 0, 0, 59),
+    gramsPerItem: 170,
+  },
+  {
+    id: "white-fish",
+    name: "Cod and other white fish, raw",
+    aliases: ["cod", "white fish", "tilapia", "halibut", "haddock", "fish fillet"],
+    per100g: per100g(82, 18, 0, 0.7, 0, 0, 54),
+    gramsPerItem: 170,
+  },
+  {
+    id: "shrimp",
+    name: "Shrimp, raw",
+    aliases: ["shrimp", "prawn"],
+    per100g: per100g(85, 20, 0, 0.5, 0, 0, 119),
+    gramsPerCup: 145,
+    gramsPerItem: 12,
+  },
+  {
+    id: "tuna-canned",
+    name: "Tuna, canned in water, drained",
+    aliases: ["tuna", "canned tuna"],
+    per100g: per100g(116, 25.5, 0, 0.8, 0, 0, 338),
+    gramsPerCup: 154,
+    unitGrams: { can: 142 },
+  },
+
+  // Dairy and eggs
+  {
+    id: "egg",
+    name: "Egg, whole, raw",
+    aliases: ["egg", "large egg", "whole egg"],
+    per100g: per100g(143, 12.6, 0.7, 9.5, 0, 0.4, 142),
+    gramsPerCup: 243,
+    gramsPerItem: 50,
+  },
+  {
+    id: "milk",
+    name: "Milk, whole",
+    aliases: ["milk", "whole milk", "2% milk"],
+    per100g: per100g(61, 3.2, 4.8, 3.3, 0, 5.1, 43),
+    gramsPerCup: 244,
+  },
+  {
+    id: "butter",
+    name: "Butter",
+    aliases: ["butter", "unsalted butter", "salted butter"],
+    per100g: per100g(717, 0.9, 0.1, 81, 0, 0.1, 11),
+    gramsPerCup: 227,
+    unitGrams: { stick: 113 },
+  },
+  {
+    id: "heavy-cream",
+    name: "Heavy cream",
+    aliases: ["heavy cream", "cream", "whipping cream", "heavy whipping cream", "double cream"],
+    per100g: per100g(340, 2.8, 2.7, 36, 0, 2.9, 27),
+    gramsPerCup: 238,
+  },
+  {
+    id: "sour-cream",
+    name: "Sour cream",
+    aliases: ["sour cream", "creme fraiche"],
+    per100g: per100g(198, 2.4, 4.6, 19, 0, 3.4, 31),
+    gramsPerCup: 230,
+  },
+  {
+    id: "yogurt",
+    name: "Yogurt, plain",
+    aliases: ["yogurt", "plain yogurt", "yoghurt"],
+    per100g: per100g(61, 3.5, 4.7, 3.3, 0, 4.7, 46),
+    gramsPerCup: 245,
+  },
+  {
+    id: "greek-yogurt",
+    name: "Greek yogurt, plain, nonfat",
+    aliases: ["greek yogurt", "plain greek yogurt"],
+    per100g: per100g(59, 10, 3.6, 0.4, 0, 3.2, 36),
+    gramsPerCup: 245,
+  },
+  {
+    id: "cheddar",
+    name: "Cheddar cheese",
+    aliases: ["cheddar", "cheddar cheese", "shredded cheese", "cheese", "monterey jack"],
+    per100g: per100g(403, 24.9, 1.3, 33, 0, 0.5, 621),
+    gramsPerCup: 113,
+    unitGrams: { slice: 28 },
+  },
+  {
+    id: "mozzarella",
+    name: "Mozzarella cheese",
+    aliases: ["mozzarella", "mozzarella cheese"],
+    per100g: per100g(300, 22, 2.2, 22, 0, 1, 627),
+    gramsPerCup: 112,
+    unitGrams: { slice: 28 },
+  },
+  {
+    id: "parmesan",
+    name: "Parmesan cheese",
+    aliases: ["parmesan", "parmesan cheese", "parmigiano reggiano", "pecorino romano"],
+    per100g: per100g(392, 35.8, 3.2, 25.8, 0, 0.9, 1376),
+    gramsPerCup: 100,
+  },
+  {
+    id: "cream-cheese",
+    name: "Cream cheese",
+    aliases: ["cream cheese"],
+    per100g: per100g(342, 6, 4, 34, 0, 3.2, 321),
+    gramsPerCup: 232,
+    unitGrams: { package: 227, block: 227 },
+  },
+  {
+    id: "feta",
+    name: "Feta cheese",
+    aliases: ["feta", "feta cheese"],
+    per100g: per100g(264, 14, 4, 21, 0, 4, 1116),
+    gramsPerCup: 150,
+  },
+
+  // Produce
+  {
+    id: "onion",
+    name: "Onion",
+    aliases: ["onion", "yellow onion", "white onion", "red onion", "sweet onion", "shallot"],
+    per100g: per100g(40, 1.1, 9.3, 0.1, 1.7, 4.2, 4),
+    gramsPerCup: 160,
+    gramsPerItem: 110,
+  },
+  {
+    id: "garlic",
+    name: "Garlic",
+    aliases: ["garlic", "garlic clove"],
+    per100g: per100g(149, 6.4, 33, 0.5, 2.1, 1, 17),
+    gramsPerCup: 136,
+    gramsPerItem: 3,
+    unitGrams: { clove: 3, head: 40 },
+  },
+  {
+    id: "tomato",
+    name: "Tomato",
+    aliases: ["tomato", "roma tomato", "cherry tomato", "grape tomato"],
+    per100g: per100g(18, 0.9, 3.9, 0.2, 1.2, 2.6, 5),
+    gramsPerCup: 180,
+    gramsPerItem: 123,
+  },
+  {
+    id: "canned-tomatoes",
+    name: "Tomatoes, canned",
+    aliases: ["diced tomato", "crushed tomato", "canned tomato", "whole peeled tomato", "tomato sauce", "passata"],
+    per100g: per100g(24, 1.1, 4, 0.3, 1.9, 2.5, 143),
+    gramsPerCup: 240,
+    unitGrams: { can: 411 },
+  },
+  {
+    id: "tomato-paste",
+    name: "Tomato paste",
+    aliases: ["tomato paste"],
+    per100g: per100g(82, 4.3, 19, 0.5, 4.1, 12, 59),
+    gramsPerCup: 262,
+    unitGrams: { can: 170 },
+  },
+  {
+    id: "potato",
+    name: "Potato",
+    aliases: ["potato", "russet potato", "yukon gold potato", "red potato", "baby potato"],
+    per100g: per100g(77, 2, 17.5, 0.1, 2.2, 0.8, 6),
+    gramsPerCup: 150,
+    gramsPerItem: 213,
+  },
+  {
+    id: "sweet-potato",
+    name: "Sweet potato",
+    aliases: ["sweet potato", "yam"],
+    per100g: per100g(86, 1.6, 20, 0.1, 3, 4.2, 55),
+    gramsPerCup: 133,
+    gramsPerItem: 130,
+  },
+  {
+    id: "carrot",
+    name: "Carrot",
+    aliases: ["carrot", "baby carrot"],
+    per100g: per100g(41, 0.9, 9.6, 0.2, 2.8, 4.7, 69),
+    gramsPerCup: 128,
+    gramsPerItem: 61,
+  },
+  {
+    id: "celery",
+    name: "Celery",
+    aliases: ["celery", "celery stalk", "celery rib"],
+    per100g: per100g(16, 0.7, 3, 0.2, 1.6, 1.3, 80),
+    gramsPerCup: 101,
+    gramsPerItem: 40,
+    unitGrams: { stalk: 40, rib: 40 },
+  },
+  {
+    id: "bell-pepper",
+    name: "Bell pepper",
+    aliases: ["bell pepper", "red bell pepper", "green bell pepper", "red pepper", "green pepper", "capsicum"],
+    per100g: per100g(26, 1, 6, 0.3, 2.1, 4.2, 4),
+    gramsPerCup: 149,
+    gramsPerItem: 119,
+  },
+  {
+    id: "chili-pepper",
+    name: "Chili pepper, fresh",
+    aliases: ["jalapeno", "jalapeño", "chili pepper", "serrano", "chile", "chili"],
+    per100g: per100g(40, 1.9, 8.8, 0.4, 1.5, 5.3, 9),
+    gramsPerCup: 150,
+    gramsPerItem: 14,
+  },
+  {
+    id: "spinach",
+    name: "Spinach",
+    aliases: ["spinach", "baby spinach"],
+    per100g: per100g(23, 2.9, 3.6, 0.4, 2.2, 0.4, 79),
+    gramsPerCup: 30,
+  },
+  {
+    id: "broccoli",
+    name: "Broccoli",
+    aliases: ["broccoli", "broccoli floret"],
+    per100g: per100g(34, 2.8, 6.6, 0.4, 2.6, 1.7, 33),
+    gramsPerCup: 91,
+    unitGrams: { head: 500 },
+  },
+  {
+    id: "mushroom",
+    name: "Mushrooms, white",
+    aliases: ["mushroom", "cremini mushroom", "button mushroom", "baby bella mushroom"],
+    per100g: per100g(22, 3.1, 3.3, 0.3, 1, 2, 5),
+    gramsPerCup: 70,
+    gramsPerItem: 18,
+  },
+  {
+    id: "zucchini",
+    name: "Zucchini",
+    aliases: ["zucchini", "courgette", "summer squash"],
+    per100g: per100g(17, 1.2, 3.1, 0.3, 1, 2.5, 8),
+    gramsPerCup: 124,
+    gramsPerItem: 196,
+  },
+  {
+    id: "cucumber",
+    name: "Cucumber",
+    aliases: ["cucumber", "english cucumber"],
+    per100g: per100g(15, 0.7, 3.6, 0.1, 0.5, 1.7, 2),
+    gramsPerCup: 119,
+    gramsPerItem: 301,
+  },
+  {
+    id: "green-onion",
+    name: "Green onion",
+    aliases: ["green onion", "scallion", "spring onion"],
+    per100g: per100g(32, 1.8, 7.3, 0.2, 2.6, 2.3, 16),
+    gramsPerCup: 100,
+    gramsPerItem: 15,
+    unitGrams: { bunch: 100, stalk: 15 },
+  },
+  {
+    id: "parsley",
+    name: "Parsley, fresh",
+    aliases: ["parsley", "flat leaf parsley", "italian parsley"],
+    per100g: per100g(36, 3, 6.3, 0.8, 3.3, 0.9, 56),
+    gramsPerCup: 60,
+    unitGrams: { bunch: 60, sprig: 1 },
+  },
+  {
+    id: "cilantro",
+    name: "Cilantro, fresh",
+    aliases: ["cilantro", "coriander leaf", "fresh coriander"],
+    per100g: per100g(23, 2.1, 3.7, 0.5, 2.8, 0.9, 46),
+    gramsPerCup: 16,
+    unitGrams: { bunch: 50, sprig: 1 },
+  },
+  {
+    id: "basil",
+    name: "Basil, fresh",
+    aliases: ["basil", "basil leaf", "fresh basil"],
+    per100g: per100g(23, 3.2, 2.7, 0.6, 1.6, 0.3, 4),
+    gramsPerCup: 24,
+    gramsPerItem: 0.5,
+    unitGrams: { bunch: 40, sprig: 2 },
+  },
+  {
+    id: "ginger",
+    name: "Ginger root",
+    aliases: ["ginger", "ginger root", "fresh ginger"],
+    per100g: per100g(80, 1.8, 17.8, 0.8, 2, 1.7, 13),
+    gramsPerCup: 96,
+    unitGrams: { inch: 10, piece: 10 },
+  },
+  {
+    id: "corn",
+    name: "Corn kernels",
+    aliases: ["corn", "sweet corn", "corn kernel"],
+    per100g: per100g(86, 3.3, 19, 1.4, 2, 6.3, 15),
+    gramsPerCup: 145,
+    gramsPerItem: 90,
+    unitGrams: { ear: 90, cob: 90 },
+  },
+  {
+    id: "peas",
+    name: "Green peas, frozen",
+    aliases: ["pea", "green pea", "frozen pea"],
+    per100g: per100g(77, 5.2, 13.6, 0.4, 4.5, 5, 108),
+    gramsPerCup: 134,
+  },
+  {
+    id: "lemon",
+    name: "Lemon",
+    aliases: ["lemon"],
+    per100g: per100g(29, 1.1, 9.3, 0.3, 2.8, 2.5, 2),
+    gramsPerItem: 58,
+  },
+  {
+    id: "lemon-juice",
+    name: "Lemon juice",
+    aliases: ["lemon juice", "juice of lemon"],
+    per100g: per100g(22, 0.4, 6.9, 0.2, 0.3, 2.5, 1),
+    gramsPerCup: 244,
+    gramsPerItem: 48,
+  },
+  {
+    id: "lime",
+    name: "Lime",
+    aliases: ["lime"],
+    per100g: per100g(30, 0.7, 10.5, 0.2, 2.8, 1.7, 2),
+    gramsPerItem: 67,
+  },
+  {
+    id: "lime-juice",
+    name: "Lime juice",
+    aliases: ["lime juice", "juice of lime"],
+    per100g: per100g(25, 0.4, 8.4, 0.1, 0.4, 1.7, 2),
+    gramsPerCup: 242,
+    gramsPerItem: 44,
+  },
+  {
+    id: "apple",
+    name: "Apple",
+    aliases: ["apple", "granny smith apple"],
+    per100g: per100g(52, 0.3, 13.8, 0.2, 2.4, 10.4, 1),
+    gramsPerCup: 125,
+    gramsPerItem: 182,
+  },
+  {
+    id: "banana",
+    name: "Banana",
+    aliases: ["banana"],
+    per100g: per100g(89, 1.1, 22.8, 0.3, 2.6, 12.2, 1),
+    gramsPerCup: 150,
+    gramsPerItem: 118,
+  },
+  {
+    id: "avocado",
+    name: "Avocado",
+    aliases: ["avocado"],
+    per100g: per100g(160, 2, 8.5, 14.7, 6.7, 0.7, 7),
+    gramsPerCup: 150,
+    gramsPerItem: 150,
+  },
+  {
+    id: "berries",
+    name: "Berries, mixed",
+    aliases: ["blueberry", "strawberry", "raspberry", "blackberry", "berry"],
+    per100g: per100g(45, 0.8, 11, 0.4, 2.5, 7.5, 1),
+    gramsPerCup: 148,
+  },
+
+  // Pantry
+  {
+    id: "flour",
+    name: "Wheat flour, all-purpose",
+    aliases: ["flour", "all purpose flour", "plain flour", "bread flour", "cake flour", "self rising flour"],
+    per100g: per100g(364, 10.3, 76.3, 1, 2.7, 0.3, 2),
+    gramsPerCup: 120,
+  },
+  {
+    id: "whole-wheat-flour",
+    name: "Whole wheat flour",
+    aliases: ["whole wheat flour", "wholemeal flour"],
+    per100g: per100g(340, 13.2, 72, 2.5, 10.7, 0.4, 2),
+    gramsPerCup: 113,
+  },
+  {
+    id: "sugar",
+    name: "Sugar, granulated",
+    aliases: ["sugar", "granulated sugar", "white sugar", "caster sugar", "cane sugar"],
+    per100g: per100g(387, 0, 100, 0, 0, 99.8, 1),
+    gramsPerCup: 200,
+  },
+  {
+    id: "brown-sugar",
+    name: "Brown sugar",
+    aliases: ["brown sugar", "light brown sugar", "dark brown sugar"],
+    per100g: per100g(380, 0.1, 98, 0, 0, 97, 28),
+    gramsPerCup: 213,
+  },
+  {
+    id: "powdered-sugar",
+    name: "Powdered sugar",
+    aliases: ["powdered sugar", "icing sugar", "confectioners sugar", "confectioner sugar"],
+    per100g: per100g(389, 0, 99.8, 0, 0, 97.8, 2),
+    gramsPerCup: 120,
+  },
+  {
+    id: "honey",
+    name: "Honey",
+    aliases: ["honey"],
+    per100g: per100g(304, 0.3, 82.4, 0, 0.2, 82.1, 4),
+    gramsPerCup: 340,
+  },
+  {
+    id: "maple-syrup",
+    name: "Maple syrup",
+    aliases: ["maple syrup", "pure maple syrup"],
+    per100g: per100g(260, 0, 67, 0.1, 0, 60, 12),
+    gramsPerCup: 315,
+  },
+  {
+    id: "olive-oil",
+    name: "Olive oil",
+    aliases: ["olive oil", "extra virgin olive oil"],
+    per100g: per100g(884, 0, 0, 100, 0, 0, 2),
+    gramsPerCup: 216,
+  },
+  {
+    id: "vegetable-oil",
+    name: "Vegetable oil",
+    aliases: ["oil", "vegetable oil", "canola oil", "neutral oil", "sunflower oil", "cooking oil", "sesame oil", "coconut oil"],
+    per100g: per100g(884, 0, 0, 100, 0, 0, 0),
+    gramsPerCup: 218,
+  },
+  {
+    id: "rice",
+    name: "White rice, uncooked",
+    aliases: ["rice", "white rice", "long grain rice", "basmati rice", "jasmine rice", "arborio rice"],
+    per100g: per100g(365, 7.1, 80, 0.7, 1.3, 0.1, 5),
+    gramsPerCup: 185,
+  },
+  {
+    id: "brown-rice",
+    name: "Brown rice, uncooked",
+    aliases: ["brown rice"],
+    per100g: per100g(367, 7.5, 76, 3.2, 3.6, 0.8, 7),
+    gramsPerCup: 190,
+  },
+  {
+    id: "pasta",
+    name: "Pasta, dry",
+    aliases: ["pasta", "spaghetti", "penne", "macaroni", "noodle", "egg noodle", "fettuccine", "linguine", "rigatoni", "fusilli", "lasagna noodle"],
+    per100g: per100g(371, 13, 75, 1.5, 3.2, 2.7, 6),
+    gramsPerCup: 100,
+  },
+  {
+    id: "oats",
+    name: "Oats, rolled",
+    aliases: ["oat", "rolled oat", "old fashioned oat", "quick oat", "oatmeal"],
+    per100g: per100g(379, 13.2, 67.7, 6.5, 10.1, 1, 6),
+    gramsPerCup: 90,
+  },
+  {
+    id: "bread",
+    name: "Bread, white",
+    aliases: ["bread", "white bread", "sandwich bread", "bun", "roll", "baguette"],
+    per100g: per100g(266, 8.9, 49, 3.3, 2.7, 5, 490),
+    gramsPerItem: 28,
+    unitGrams: { slice: 28 },
+  },
+  {
+    id: "tortilla",
+    name: "Tortilla, flour",
+    aliases: ["tortilla", "flour tortilla", "wrap"],
+    per100g: per100g(312, 8.3, 51, 8, 3.5, 2.4, 736),
+    gramsPerItem: 45,
+  },
+  {
+    id: "breadcrumbs",
+    name: "Breadcrumbs, dry",
+    aliases: ["breadcrumb", "bread crumb", "panko", "panko breadcrumb"],
+    per100g: per100g(395, 13.4, 72, 5.3, 4.5, 6.2, 732),
+    gramsPerCup: 108,
+  },
+  {
+    id: "black-beans",
+    name: "Black beans, canned, drained",
+    aliases: ["black bean"],
+    per100g: per100g(91, 6, 16.5, 0.3, 6.9, 0.3, 237),
+    gramsPerCup: 172,
+    unitGrams: { can: 240 },
+  },
+  {
+    id: "kidney-beans",
+    name: "Kidney beans, canned, drained",
+    aliases: ["kidney bean", "red kidney bean", "pinto bean", "cannellini bean", "white bean"],
+    per100g: per100g(84, 5.2, 15, 0.4, 6.3, 1.8, 258),
+    gramsPerCup: 172,
+    unitGrams: { can: 240 },
+  },
+  {
+    id: "chickpeas",
+    name: "Chickpeas, canned, drained",
+    aliases: ["chickpea", "garbanzo bean"],
+    per100g: per100g(139, 7, 22.5, 2.6, 6.4, 4, 246),
+    gramsPerCup: 164,
+    unitGrams: { can: 240 },
+  },
+  {
+    id: "lentils",
+    name: "Lentils, dry",
+    aliases: ["lentil", "red lentil", "green lentil", "brown lentil"],
+    per100g: per100g(352, 24.6, 63, 1.1, 10.7, 2, 6),
+    gramsPerCup: 192,
+  },
+  {
+    id: "broth",
+    name: "Broth or stock",
+    aliases: ["broth", "stock", "chicken broth", "chicken stock", "beef broth", "beef stock", "vegetable broth", "vegetable stock"],
+    per100g: per100g(6, 0.6, 0.4, 0.2, 0, 0.2, 371),
+    gramsPerCup: 240,
+    unitGrams: { can: 411, carton: 946 },
+  },
+  {
+    id: "coconut-milk",
+    name: "Coconut milk, canned",
+    aliases: ["coconut milk", "coconut cream"],
+    per100g: per100g(197, 2, 2.8, 21.3, 0, 0, 13),
+    gramsPerCup: 226,
+    unitGrams: { can: 400 },
+  },
+  {
+    id: "peanut-butter",
+    name: "Peanut butter",
+    aliases: ["peanut butter", "almond butter"],
+    per100g: per100g(588, 25, 20, 50, 6, 9.2, 426),
+    gramsPerCup: 258,
+  },
+  {
+    id: "almonds",
+    name: "Almonds",
+    aliases: ["almond", "sliced almond", "slivered almond"],
+    per100g: per100g(579, 21.2, 21.6, 49.9, 12.5, 4.4, 1),
+    gramsPerCup: 143,
+  },
+  {
+    id: "walnuts",
+    name: "Walnuts and pecans",
+    aliases: ["walnut", "pecan", "nut", "cashew"],
+    per100g: per100g(654, 15.2, 13.7, 65.2, 6.7, 2.6, 2),
+    gramsPerCup: 117,
+  },
+  {
+    id: "chocolate-chips",
+    name: "Chocolate chips, semisweet",
+    aliases: ["chocolate chip", "semisweet chocolate chip", "chocolate", "dark chocolate", "semisweet chocolate"],
+    per100g: per100g(480, 4.2, 63.9, 30, 5.9, 54.5, 11),
+    gramsPerCup: 168,
+  },
+  {
+    id: "cocoa-powder",
+    name: "Cocoa powder, unsweetened",
+    aliases: ["cocoa powder", "cocoa", "unsweetened cocoa powder"],
+    per100g: per100g(228, 19.6, 57.9, 13.7, 37, 1.8, 21),
+    gramsPerCup: 86,
+  },
+  {
+    id: "cornstarch",
+    name: "Cornstarch",
+    aliases: ["cornstarch", "corn starch", "cornflour"],
+    per100g: per100g(381, 0.3, 91, 0.1, 0.9, 0, 9),
+    gramsPerCup: 128,
+  },
+  {
+    id: "baking-powder",
+    name: "Baking powder",
+    aliases: ["baking powder"],
+    per100g: per100g(53, 0, 27.7, 0, 0.2, 0, 10600),
+    gramsPerCup: 220,
+  },
+  {
+    id: "baking-soda",
+    name: "Baking soda",
+    aliases: ["baking soda", "bicarbonate of soda"],
+    per100g: per100g(0, 0, 0, 0, 0, 0, 27360),
+    gramsPerCup: 220,
+  },
+  {
+    id: "vanilla",
+    name: "Vanilla extract",
+    aliases: ["vanilla", "vanilla extract", "pure vanilla extract"],
+    per100g: per100g(288, 0.1, 12.7, 0.1, 0, 12.7, 9),
+    gramsPerCup: 208,
+  },
+  {
+    id: "tofu",
+    name: "Tofu, firm",
+    aliases: ["tofu", "firm tofu", "extra firm tofu"],
+    per100g: per100g(144, 17.3, 2.8, 8.7, 2.3, 0.6, 14),
+    gramsPerCup: 252,
+    unitGrams: { block: 397, package: 397 },
+  },
+  {
+    id: "water",
+    name: "Water",
+    aliases: ["water", "warm water", "cold water", "boiling water"],
+    per100g: per100g(0, 0, 0, 0, 0, 0, 0),
+    gramsPerCup: 237,
+  },
+
+  // Spices and seasonings
+  {
+    id: "salt",
+    name: "Salt",
+    aliases: ["salt", "table salt", "sea salt", "kosher salt"],
+    per100g: per100g(0, 0, 0, 0, 0, 0, 38758),
+    gramsPerCup: 292,
+  },
+  {
+    id: "black-pepper",
+    name: "Black pepper",
+    aliases: ["black pepper", "ground black pepper", "ground pepper", "peppercorn"],
+    per100g: per100g(251, 10.4, 64, 3.3, 25.3, 0.6, 20),
+    gramsPerCup: 110,
+  },
+  {
+    id: "cinnamon",
+    name: "Cinnamon, ground",
+    aliases: ["cinnamon", "ground cinnamon"],
+    per100g: per100g(247, 4, 80.6, 1.2, 53, 2.2, 10),
+    gramsPerCup: 125,
+    unitGrams: { stick: 3 },
+  },
+  {
+    id: "cumin",
+    name: "Cumin, ground",
+    aliases: ["cumin", "ground cumin", "cumin seed"],
+    per100g: per100g(375, 17.8, 44.2, 22.3, 10.5, 2.3, 168),
+    gramsPerCup: 101,
+  },
+  {
+    id: "paprika",
+    name: "Paprika",
+    aliases: ["paprika", "smoked paprika", "sweet paprika"],
+    per100g: per100g(282, 14.1, 54, 12.9, 34.9, 10.3, 68),
+    gramsPerCup: 110,
+  },
+  {
+    id: "chili-powder",
+    name: "Chili powder",
+    aliases: ["chili powder", "chile powder"],
+    per100g: per100g(282, 13.5, 49.7, 14.3, 34.8, 7.2, 2867),
+    gramsPerCup: 128,
+  },
+  {
+    id: "red-pepper-flakes",
+    name: "Red pepper flakes and cayenne",
+    aliases: ["red pepper flake", "crushed red pepper", "chili flake", "cayenne", "cayenne pepper"],
+    per100g: per100g(318, 12, 56.6, 17.3, 27.2, 10.3, 30),
+    gramsPerCup: 86,
+  },
+  {
+    id: "garlic-powder",
+    name: "Garlic powder",
+    aliases: ["garlic powder", "granulated garlic"],
+    per100g: per100g(331, 16.6, 72.7, 0.7, 9, 2.4, 60),
+    gramsPerCup: 149,
+  },
+  {
+    id: "onion-powder",
+    name: "Onion powder",
+    aliases: ["onion powder"],
+    per100g: per100g(341, 10.4, 79, 1, 15.2, 6.6, 73),
+    gramsPerCup: 115,
+  },
+  {
+    id: "dried-herbs",
+    name: "Dried herbs (oregano, thyme, basil)",
+    aliases: ["oregano", "dried oregano", "thyme", "dried thyme", "italian seasoning", "dried basil", "rosemary", "bay leaf", "dill"],
+    per100g: per100g(265, 9, 68.9, 4.3, 42.5, 4.1, 25),
+    gramsPerCup: 48,
+    gramsPerItem: 0.2,
+    unitGrams: { sprig: 1, leaf: 0.2 },
+  },
+
+  // Condiments
+  {
+    id: "soy-sauce",
+    name: "Soy sauce",
+    aliases: ["soy sauce", "tamari", "low sodium soy sauce"],
+    per100g: per100g(53, 8.1, 4.9, 0.6, 0.8, 0.4, 5493),
+    gramsPerCup: 255,
+  },
+  {
+    id: "fish-sauce",
+    name: "Fish sauce",
+    aliases: ["fish sauce"],
+    per100g: per100g(35, 5, 3.6, 0, 0, 3.6, 7851),
+    gramsPerCup: 288,
+  },
+  {
+    id: "mayonnaise",
+    name: "Mayonnaise",
+    aliases: ["mayonnaise", "mayo"],
+    per100g: per100g(680, 1, 0.6, 75, 0, 0.6, 635),
+    gramsPerCup: 220,
+  },
+  {
+    id: "ketchup",
+    name: "Ketchup",
+    aliases: ["ketchup", "catsup"],
+    per100g: per100g(101, 1, 27.4, 0.1, 0.3, 22.8, 907),
+    gramsPerCup: 272,
+  },
+  {
+    id: "mustard",
+    name: "Mustard, prepared",
+    aliases: ["mustard", "dijon mustard", "yellow mustard", "whole grain mustard"],
+    per100g: per100g(60, 3.7, 5.8, 3.3, 4, 0.9, 1104),
+    gramsPerCup: 250,
+  },
+  {
+    id: "vinegar",
+    name: "Vinegar",
+    aliases: ["vinegar", "white vinegar", "apple cider vinegar", "red wine vinegar", "rice vinegar", "white wine vinegar"],
+    per100g: per100g(18, 0, 0.1, 0, 0, 0.1, 2),
+    gramsPerCup: 238,
+  },
+  {
+    id: "balsamic-vinegar",
+    name: "Balsamic vinegar",
+    aliases: ["balsamic vinegar", "balsamic"],
+    per100g: per100g(88, 0.5, 17, 0, 0, 15, 23),
+    gramsPerCup: 255,
+  },
+  {
+    id: "salsa",
+    name: "Salsa",
+    aliases: ["salsa", "pico de gallo"],
+    per100g: per100g(36, 1.5, 7, 0.2, 1.9, 4, 711),
+    gramsPerCup: 259,
+  },
+];
+
+/**
+ * Foods by id
+ */
+const FOODS_BY_ID = new Map(NUTRIENT_FOODS.map((food) => [food.id, food]));
+
+/**
+ * Look up a reference food by id
+ *
+ * @param id - Food id
+ * @returns The food, or null if the id is not in the table
+ */
+export function getNutrientFood(id: string): NutrientFood | null {
+  return FOODS_BY_ID.get(id) ?? null;
+}
+
+/**
+ * Search reference foods by name or alias
+ *
+ * Used by the match picker; an empty query lists every food by name.
+ *
+ * @param query - Text typed by the user
+ * @returns Matching foods, name matches first
+ */
+export function searchNutrientFoods(query: string): NutrientFood[] {
+  const text = query.trim().toLowerCase();
+  const sorted = [...NUTRIENT_FOODS].sort((a, b) => a.name.localeCompare(b.name));
+  if (!text) {
+    return sorted;
+  }
+
+  const byName = sorted.filter((food) => food.name.toLowerCase().includes(text));
+  const byAlias = sorted.filter(
+    (food) => !byName.includes(food) && food.aliases.some((alias) => alias.includes(text))
+  );
+  return [...byName, ...byAlias];
+}
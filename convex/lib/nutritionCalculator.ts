@@ -0,0 +1,407 @@
+/**
+ * Nutrition Calculator
+ *
+ * Estimates per-serving nutrition from a recipe's ingredients using the
+ * bundled nutrient table, without any network calls. Each ingredient is
+ * matched to a reference food by name (or by the user's correction),
+ * its amount converted to grams, and the totals divided by servings.
+ *
+ * Ingredients that can't be matched, or whose amount can't be weighed
+ * (e.g. "1 bunch" of something with no known bunch weight), are left out
+ * and reported so the user can correct them.
+ *
+ * All functions are pure.
+ */
+
+import type { PackageSize } from "./aiRecipeTransform";
+import { normalizeIngredientName } from "./ingredientAggregation";
+import { getIngredientDensity } from "./ingredientDensity";
+import {
+  NUTRIENT_FOODS,
+  getNutrientFood,
+  type NutrientFood,
+  type NutrientValues,
+} from "./nutrientTable";
+import { convertUnit, getUnitGroup, normalizeUnit } from "./unitConversion";
+
+/**
+ * Ingredient fields used for nutrition
+ */
+export interface NutritionIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+  packageSize?: PackageSize;
+  preparation?: string;
+  optional?: boolean;
+}
+
+/**
+ * A user's correction of an ingredient's reference food
+ */
+export interface NutritionMatch {
+  /** Ingredient key from getNutritionMatchKey */
+  ingredient: string;
+  /** Reference food id, or null to leave the ingredient out */
+  foodId: string | null;
+}
+
+/**
+ * Stored recipe nutrition, per serving
+ * Fiber, sugar and sodium are only known for calculated values
+ */
+export interface RecipeNutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+}
+
+/**
+ * How an ingredient contributed to the calculation
+ *
+ * - matched: counted
+ * - unmatched: no reference food
+ * - unconverted: matched, but the amount couldn't be converted to grams
+ * - excluded: the user chose to leave it out
+ * - skipped: no amount ("salt, to taste") or optional
+ */
+export type IngredientNutritionStatus =
+  | "matched"
+  | "unmatched"
+  | "unconverted"
+  | "excluded"
+  | "skipped";
+
+/**
+ * Calculation result for one ingredient
+ */
+export interface IngredientNutrition {
+  index: number;
+  name: string;
+  /** Key for corrections, see getNutritionMatchKey */
+  key: string;
+  food: NutrientFood | null;
+  grams: number | null;
+  status: IngredientNutritionStatus;
+  /** True when the food comes from a user correction */
+  corrected: boolean;
+}
+
+/**
+ * Result of a nutrition calculation
+ */
+export interface NutritionCalculation {
+  /** Per-serving values, or null if no ingredient could be counted */
+  perServing: NutrientValues | null;
+  ingredients: IngredientNutrition[];
+  /** Names of ingredients that were unmatched or couldn't be weighed */
+  unmatched: string[];
+}
+
+/**
+ * Recipe fields read and written by withCalculatedNutrition
+ */
+export interface CalculableRecipe {
+  ingredients: NutritionIngredient[];
+  servings: number;
+  nutrition?: RecipeNutrition;
+  nutritionCalculated?: boolean;
+  nutritionMatches?: NutritionMatch[];
+}
+
+/**
+ * Nutrition fields set on a recipe by the calculator
+ */
+export interface CalculatedNutritionFields {
+  nutrition: RecipeNutrition | undefined;
+  nutritionCalculated: true | undefined;
+  unmatchedIngredients: string[];
+}
+
+/**
+ * Units that mean "one of the ingredient"
+ */
+const ITEM_UNITS = new Set(["", "item", "piece", "whole", "large", "medium", "small", "each"]);
+
+/**
+ * Teaspoons in informal small measures
+ */
+const TSP_PER_MEASURE: Record<string, number> = {
+  pinch: 1 / 16,
+  dash: 1 / 8,
+};
+
+/**
+ * Reduce a plural word to its singular form ("tomatoes" -> "tomato")
+ */
+function singularize(word: string): string {
+  if (/ies$/.test(word)) return word.replace(/ies$/, "y");
+  if (/(oes|ches|shes|sses)$/.test(word)) return word.replace(/es$/, "");
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Key used to look up an ingredient's correction
+ *
+ * Lowercase, without notes after a comma, parentheticals or plural
+ * endings, so "Onions, diced" and "onion" share a correction. Unlike
+ * normalizeIngredientName, words like "canned" are kept because they
+ * change the nutrition.
+ *
+ * @param name - Ingredient name
+ * @returns Lookup key
+ */
+export function getNutritionMatchKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/,.*$/, "")
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[^a-z0-9%]+/g, " ")
+    .trim()
+    .split(" ")
+    .map(singularize)
+    .join(" ");
+}
+
+/**
+ * Find the reference food for an ingredient name
+ *
+ * An exact alias wins; otherwise the longest alias found as whole words
+ * in the name, so "chicken broth" matches broth rather than chicken.
+ *
+ * @param name - Ingredient name
+ * @returns The matching food, or null
+ */
+export function matchNutrientFood(name: string): NutrientFood | null {
+  const key = getNutritionMatchKey(name);
+  if (!key) {
+    return null;
+  }
+
+  const padded = ` ${key} `;
+  let best: NutrientFood | null = null;
+  let bestLength = 0;
+
+  for (const food of NUTRIENT_FOODS) {
+    for (const alias of food.aliases) {
+      const aliasKey = getNutritionMatchKey(alias);
+      if (aliasKey === key) {
+        return food;
+      }
+      if (aliasKey.length > bestLength && padded.includes(` ${aliasKey} `)) {
+        best = food;
+        bestLength = aliasKey.length;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Weight in grams of one measure of a food
+ *
+ * @returns Grams, or null if the unit can't be weighed for this food
+ */
+function getGramsPerUnit(unit: string, food: NutrientFood, normalizedName: string): number | null {
+  const group = getUnitGroup(unit);
+
+  if (group === "weight") {
+    return convertUnit(1, unit, "g");
+  }
+
+  if (group === "volume") {
+    const cups = convertUnit(1, unit, "cup");
+    const gramsPerCup = food.gramsPerCup ?? getIngredientDensity(normalizedName);
+    return cups !== null && gramsPerCup !== null ? cups * gramsPerCup : null;
+  }
+
+  const countUnit = singularize(normalizeUnit(unit));
+  if (TSP_PER_MEASURE[countUnit] !== undefined) {
+    const gramsPerTsp = getGramsPerUnit("tsp", food, normalizedName);
+    return gramsPerTsp === null ? null : TSP_PER_MEASURE[countUnit] * gramsPerTsp;
+  }
+  if (food.unitGrams?.[countUnit] !== undefined) {
+    return food.unitGrams[countUnit];
+  }
+  if (ITEM_UNITS.has(countUnit)) {
+    return food.gramsPerItem ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Convert an ingredient's amount to grams of a reference food
+ *
+ * A package size ("2 (14 oz) cans") weighs each package by its size.
+ *
+ * @param ingredient - Ingredient with quantity and unit
+ * @param food - Matched reference food
+ * @returns Grams, or null if the amount can't be converted
+ */
+export function getIngredientGrams(
+  ingredient: NutritionIngredient,
+  food: NutrientFood
+): number | null {
+  const normalizedName = normalizeIngredientName(ingredient.name);
+
+  if (ingredient.packageSize) {
+    const perPackage = getGramsPerUnit(ingredient.packageSize.unit, food, normalizedName);
+    if (perPackage !== null) {
+      return ingredient.quantity * ingredient.packageSize.quantity * perPackage;
+    }
+  }
+
+  const perUnit = getGramsPerUnit(ingredient.unit, food, normalizedName);
+  return perUnit === null ? null : ingredient.quantity * perUnit;
+}
+
+/**
+ * Calculate per-serving nutrition for a list of ingredients
+ *
+ * Ranges count their lower amount. Optional ingredients and ingredients
+ * without an amount ("to taste") are skipped.
+ *
+ * @param ingredients - Recipe ingredients
+ * @param servings - Number of servings the recipe makes
+ * @param matches - User corrections, keyed by getNutritionMatchKey
+ * @returns Per-serving values and how each ingredient was handled
+ */
+export function calculateNutrition(
+  ingredients: NutritionIngredient[],
+  servings: number,
+  matches: NutritionMatch[] = []
+): NutritionCalculation {
+  const corrections = new Map(matches.map((match) => [match.ingredient, match.foodId]));
+  const totals: NutrientValues = {
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    fiber: 0,
+    sugar: 0,
+    sodium: 0,
+  };
+  let counted = 0;
+
+  const results = ingredients.map((ingredient, index): IngredientNutrition => {
+    const key = getNutritionMatchKey(ingredient.name);
+    const corrected = corrections.has(key);
+    const correction = corrections.get(key);
+    const food = corrected
+      ? correction ? getNutrientFood(correction) : null
+      : matchNutrientFood(ingredient.name);
+    const result = { index, name: ingredient.name, key, food, corrected };
+
+    if (corrected && correction === null) {
+      return { ...result, grams: null, status: "excluded" };
+    }
+    if (
+      ingredient.optional ||
+      ingredient.quantity <= 0 ||
+      /\bto taste\b/i.test(ingredient.preparation ?? "")
+    ) {
+      return { ...result, grams: null, status: "skipped" };
+    }
+    if (!food) {
+      return { ...result, grams: null, status: "unmatched" };
+    }
+
+    const grams = getIngredientGrams(ingredient, food);
+    if (grams === null) {
+      return { ...result, grams: null, status: "unconverted" };
+    }
+
+    for (const nutrient of Object.keys(totals) as (keyof NutrientValues)[]) {
+      totals[nutrient] += (food.per100g[nutrient] * grams) / 100;
+    }
+    counted++;
+    return { ...result, grams, status: "matched" };
+  });
+
+  const divisor = servings > 0 ? servings : 1;
+  const perServing =
+    counted > 0
+      ? (Object.fromEntries(
+          Object.entries(totals).map(([nutrient, total]) => [nutrient, total / divisor])
+        ) as unknown as NutrientValues)
+      : null;
+
+  return {
+    perServing,
+    ingredients: results,
+    unmatched: results
+      .filter((result) => result.status === "unmatched" || result.status === "unconverted")
+      .map((result) => result.name),
+  };
+}
+
+/**
+ * Round calculated values for storage
+ *
+ * Calories and sodium to whole numbers, grams to one decimal.
+ *
+ * @param values - Per-serving values
+ * @returns Recipe nutrition
+ */
+export function toRecipeNutrition(values: NutrientValues): RecipeNutrition {
+  const grams = (value: number) => Math.round(value * 10) / 10;
+  return {
+    calories: Math.round(values.calories),
+    protein: grams(values.protein),
+    carbs: grams(values.carbs),
+    fat: grams(values.fat),
+    fiber: grams(values.fiber),
+    sugar: grams(values.sugar),
+    sodium: Math.round(values.sodium),
+  };
+}
+
+/**
+ * Calculate the nutrition fields for a recipe being saved
+ *
+ * Nutrition entered by the user or imported with the recipe is kept;
+ * returns null in that case. Otherwise the fields hold freshly calculated
+ * values, with nutrition unset when nothing could be counted.
+ *
+ * @param recipe - Recipe content
+ * @returns Fields to store, or null to leave nutrition alone
+ */
+export function getCalculatedNutritionFields(
+  recipe: CalculableRecipe
+): CalculatedNutritionFields | null {
+  if (recipe.nutrition && !recipe.nutritionCalculated) {
+    return null;
+  }
+
+  const { perServing, unmatched } = calculateNutrition(
+    recipe.ingredients,
+    recipe.servings,
+    recipe.nutritionMatches
+  );
+
+  return {
+    nutrition: perServing ? toRecipeNutrition(perServing) : undefined,
+    nutritionCalculated: perServing ? true : undefined,
+    unmatchedIngredients: unmatched,
+  };
+}
+
+/**
+ * Add calculated nutrition to a recipe document
+ *
+ * @param recipe - Recipe document being inserted
+ * @returns The recipe with calculated nutrition, unless it already had its own
+ */
+export function withCalculatedNutrition<T extends CalculableRecipe>(
+  recipe: T
+): T & Partial<CalculatedNutritionFields> {
+  const fields = getCalculatedNutritionFields(recipe);
+  return { ...recipe, ...fields };
+}
@@ -0,0 +1,106 @@
+/**
+ * Offline Storage Utility
+ *
+ * Rules for what the app keeps on the device: which recently viewed
+ * recipes the LRU cache evicts (never pinned ones), where downloaded images
+ * are stored, and which images are still needed after an unpin.
+ */
+
+/**
+ * Things that can be pinned for offline use
+ */
+export type OfflinePinKind = "cookbook" | "shoppingList" | "weekPlan";
+
+/**
+ * Pin fields needed to work out shared images
+ */
+export interface PinImageRefs {
+  key: string;
+  imageUrls: string[];
+}
+
+/**
+ * Key a pin is stored under
+ *
+ * @param kind - What is pinned
+ * @param targetId - Cookbook or list ID, or the week's start date
+ */
+export function getPinKey(kind: OfflinePinKind, targetId: string): string {
+  return `${kind}:${targetId}`;
+}
+
+/**
+ * Pick recently viewed recipes to evict
+ *
+ * Pinned recipes are never evicted and don't count toward the limit.
+ *
+ * @param recipeIds - Cached recipe IDs, most recently used first
+ * @param pinnedIds - Recipes held by a pin
+ * @param maxRecipes - Most unpinned recipes to keep
+ * @returns Recipe IDs to evict
+ */
+export function selectEvictions(
+  recipeIds: string[],
+  pinnedIds: Set<string>,
+  maxRecipes: number
+): string[] {
+  const unpinned = recipeIds.filter((id) => !pinnedIds.has(id));
+  return unpinned.slice(maxRecipes);
+}
+
+/**
+ * Check if an image URL can be downloaded for offline use
+ */
+export function isDownloadableImage(url: string | undefined): url is string {
+  return !!url && /^https?:\/\//.test(url);
+}
+
+/**
+ * File name a downloaded image is stored under
+ *
+ * Derived from the URL so the same image shared by several recipes is
+ * only stored once.
+ */
+export function getImageFileName(url: string): string {
+  // djb2 hash of the URL, in two halves to keep collisions unlikely
+  let h1 = 5381;
+  let h2 = 52711;
+  for (let i = 0; i < url.length; i++) {
+    const c = url.charCodeAt(i);
+    h1 = (h1 * 33) ^ c;
+    h2 = (h2 * 33) ^ c;
+  }
+
+  const path = url.split(/[?#]/)[0];
+  const ext = /\.(jpe?g|png|webp|gif|heic)$/i.exec(path)?.[1]?.toLowerCase() ?? "jpg";
+
+  return `${(h1 >>> 0).toString(36)}${(h2 >>> 0).toString(36)}.${ext}`;
+}
+
+/**
+ * Images of a removed pin that no other pin uses
+ *
+ * @param removed - The pin being removed
+ * @param remaining - All other pins
+ */
+export function getUnreferencedImages(
+  removed: PinImageRefs,
+  remaining: PinImageRefs[]
+): string[] {
+  const stillUsed = new Set(
+    remaining.filter((pin) => pin.key !== removed.key).flatMap((pin) => pin.imageUrls)
+  );
+  return [...new Set(removed.imageUrls)].filter((url) => !stillUsed.has(url));
+}
+
+/**
+ * Format a byte count for display
+ *
+ * @returns e.g. "0 B", "512 KB", "3.4 MB"
+ */
+export function formatStorageSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
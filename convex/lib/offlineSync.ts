@@ -0,0 +1,267 @@
+/**
+ * Offline Sync Utility
+ *
+ * Rules shared by the client-side offline mutation queue and the mutations
+ * it replays: which queued mutations may run and in what order, how long
+ * to back off after a failure, and how a replay that conflicts with a newer
+ * server change is resolved.
+ */
+
+/**
+ * Mutations that can be queued while offline
+ */
+export type OfflineMutationType =
+  | "toggleFavorite"
+  | "deleteRecipe"
+  | "updateRecipe"
+  | "addShoppingItem"
+  | "setShoppingItemChecked"
+  | "updateShoppingItem"
+  | "moveMeal";
+
+/**
+ * How a replay is resolved when the server copy changed after the edit
+ *
+ * - clientWins: the queued change is applied over the newer server state
+ * - serverWins: the queued change is discarded
+ * - merge: fields changed only offline are applied; fields also changed on
+ *   the server keep the server value
+ */
+export type ConflictResolution = "clientWins" | "serverWins" | "merge";
+
+/**
+ * Resolution used for each mutation type
+ *
+ * Checking items off in the store is the most recent intent, so it wins.
+ * Moving a meal someone else already changed would fight their edit, so
+ * the server wins. Edits merge field by field.
+ */
+export const CONFLICT_RESOLUTIONS: Record<OfflineMutationType, ConflictResolution> = {
+  toggleFavorite: "clientWins",
+  deleteRecipe: "clientWins",
+  updateRecipe: "merge",
+  addShoppingItem: "clientWins",
+  setShoppingItemChecked: "clientWins",
+  updateShoppingItem: "merge",
+  moveMeal: "serverWins",
+};
+
+/**
+ * Delay before the first retry of a failed replay
+ */
+export const BASE_RETRY_DELAY_MS = 2000;
+
+/**
+ * Longest delay between retries
+ */
+export const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Failed attempts before a queued mutation is given up on
+ */
+export const MAX_RETRY_ATTEMPTS = 8;
+
+/**
+ * Prefix for IDs of documents created offline that don't exist on the
+ * server yet
+ */
+export const TEMP_ID_PREFIX = "temp:";
+
+/**
+ * Queued mutation fields needed to schedule replays
+ */
+export interface SchedulableMutation {
+  id: string;
+  /** Order the mutation was queued in */
+  sequence: number;
+  /** Document the mutation changes; mutations to one document replay in order */
+  entityKey: string;
+  /** Earliest time the next attempt may run */
+  nextAttemptAt: number;
+}
+
+/**
+ * Check if the server copy changed after the client's edit was based on it
+ *
+ * @param serverUpdatedAt - Current updatedAt on the server
+ * @param baseUpdatedAt - updatedAt of the copy the client edited, if known
+ */
+export function hasConflict(serverUpdatedAt: number, baseUpdatedAt?: number): boolean {
+  return baseUpdatedAt !== undefined && serverUpdatedAt > baseUpdatedAt;
+}
+
+/**
+ * Exponential backoff delay for a retry
+ *
+ * @param retryCount - Failed attempts so far
+ * @returns Delay in ms, doubling per attempt up to MAX_RETRY_DELAY_MS
+ */
+export function getRetryDelay(retryCount: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, retryCount - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Get the document a queued mutation changes
+ *
+ * Mutations with the same key are replayed strictly in queue order; an
+ * item added offline shares its key with later edits to it.
+ */
+export function getEntityKey(type: OfflineMutationType, payload: Record<string, unknown>): string {
+  switch (type) {
+    case "toggleFavorite":
+    case "deleteRecipe":
+    case "updateRecipe":
+      return `recipe:${payload.recipeId}`;
+    case "addShoppingItem":
+      return `shoppingItem:${payload.clientItemId}`;
+    case "setShoppingItemChecked":
+    case "updateShoppingItem":
+      return `shoppingItem:${payload.itemId}`;
+    case "moveMeal":
+      return `plannedMeal:${payload.mealId}`;
+  }
+}
+
+/**
+ * Pick the queued mutations that may replay now, in order
+ *
+ * A mutation waits while its backoff delay hasn't passed, and holds back
+ * every later mutation for the same document so they never apply out of
+ * order. Mutations for other documents are unaffected.
+ *
+ * @param mutations - Queued mutations
+ * @param now - Current timestamp
+ * @returns Ready mutations sorted by sequence
+ */
+export function selectReadyMutations<T extends SchedulableMutation>(
+  mutations: T[],
+  now: number
+): T[] {
+  const blocked = new Set<string>();
+  const ready: T[] = [];
+
+  for (const mutation of [...mutations].sort((a, b) => a.sequence - b.sequence)) {
+    if (blocked.has(mutation.entityKey)) continue;
+
+    if (mutation.nextAttemptAt > now) {
+      blocked.add(mutation.entityKey);
+      continue;
+    }
+
+    ready.push(mutation);
+  }
+
+  return ready;
+}
+
+/**
+ * Point later queued edits to a document at its state after a replay
+ *
+ * Every offline edit to a document records the updatedAt it was made
+ * against, which is the same for all of them. Once one replays, the server
+ * copy includes it, so the rest are based on the new updatedAt; otherwise
+ * they would conflict with the queue's own write.
+ *
+ * @param mutations - Queued mutations
+ * @param entityKey - Document the replayed mutation changed
+ * @param updatedAt - updatedAt of the server copy after the replay
+ * @returns The mutations with the document's base updatedAt replaced
+ */
+export function rebaseQueuedMutations<T extends SchedulableMutation & { baseUpdatedAt?: number }>(
+  mutations: T[],
+  entityKey: string,
+  updatedAt: number
+): T[] {
+  return mutations.map((mutation) =>
+    mutation.entityKey === entityKey && mutation.baseUpdatedAt !== undefined
+      ? { ...mutation, baseUpdatedAt: updatedAt }
+      : mutation
+  );
+}
+
+/**
+ * Get when the next waiting mutation becomes ready
+ *
+ * @returns Timestamp, or null if the queue is empty
+ */
+export function getNextAttemptAt(mutations: SchedulableMutation[]): number | null {
+  if (mutations.length === 0) return null;
+  return Math.min(...mutations.map((m) => m.nextAttemptAt));
+}
+
+/**
+ * Check if a replay error will fail the same way on every retry
+ *
+ * Missing documents, lost access and validation errors are permanent;
+ * anything else (network, server busy) is retried.
+ */
+export function isPermanentSyncError(message: string): boolean {
+  return /not found|permission|cannot|must be|required for|invalid/i.test(message);
+}
+
+/**
+ * Replace offline temp IDs in a payload with their server IDs
+ *
+ * @param payload - Queued mutation payload
+ * @param idMap - Temp ID to server ID for documents created so far
+ * @returns The payload with IDs replaced, or null if it still refers to a
+ *   document that was never created
+ */
+export function resolveTempIds<T extends Record<string, unknown>>(
+  payload: T,
+  idMap: Record<string, string>
+): T | null {
+  const resolved: Record<string, unknown> = { ...payload };
+
+  for (const [key, value] of Object.entries(payload)) {
+    // The temp ID an add is keyed by stays as is
+    if (key === "clientItemId") continue;
+    if (typeof value === "string" && value.startsWith(TEMP_ID_PREFIX)) {
+      if (!idMap[value]) return null;
+      resolved[key] = idMap[value];
+    }
+  }
+
+  return resolved as T;
+}
+
+/**
+ * Compare two field values
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Merge an offline edit into a document that changed on the server
+ *
+ * A field is applied when the server still has the value the edit was based
+ * on. When both sides changed a field to different values, the server value
+ * is kept and the field is reported as conflicting.
+ *
+ * @param changes - Fields changed offline
+ * @param base - Values of those fields when the edit was made
+ * @param current - Current server document
+ * @returns Fields to write and the names of fields the server kept
+ */
+export function mergeFieldChanges<T extends Record<string, unknown>>(
+  changes: T,
+  base: Partial<T>,
+  current: Partial<T>
+): { patch: Partial<T>; conflictingFields: string[] } {
+  const patch: Partial<T> = {};
+  const conflictingFields: string[] = [];
+
+  for (const key of Object.keys(changes) as (keyof T & string)[]) {
+    const value = changes[key];
+    if (value === undefined) continue;
+
+    if (isSameValue(current[key], base[key])) {
+      patch[key] = value;
+    } else if (!isSameValue(current[key], value)) {
+      conflictingFields.push(key);
+    }
+  }
+
+  return { patch, conflictingFields };
+}
@@ -0,0 +1,298 @@
+/**
+ * Pantry Matching Utility
+ *
+ * Matches recipe ingredients against the user's pantry inventory to
+ * answer "what can I cook with what I have?". Names are compared with
+ * normalizeIngredientName so "fresh basil" matches "basil", and amounts
+ * are compared when the pantry and recipe units are convertible.
+ * Staples marked "always have" (salt, oil) always count as on hand.
+ */
+
+import { Id } from "../_generated/dataModel";
+import { convertUnit } from "./unitConversion";
+import {
+  AggregatedIngredient,
+  normalizeIngredientName,
+  RecipeIngredient,
+} from "./ingredientAggregation";
+import { ShoppingItemCategory } from "./categoryAssignment";
+
+/**
+ * Pantry item used for matching
+ */
+export interface PantryStock {
+  name: string;
+  quantity: number;
+  unit: string;
+  /** Staple that is always on hand; quantity isn't tracked */
+  alwaysHave?: boolean;
+}
+
+/**
+ * Recipe ingredient the pantry doesn't cover
+ */
+export interface MissingIngredient {
+  name: string;
+  /** Amount still needed, in the recipe's unit */
+  quantity: number;
+  unit: string;
+  /** True if the pantry has some, but not enough */
+  isPartial: boolean;
+}
+
+/**
+ * How well the pantry covers a recipe
+ */
+export interface PantryMatch {
+  coveredCount: number;
+  totalCount: number;
+  /** Fraction of ingredients covered (0-1) */
+  coverage: number;
+  missing: MissingIngredient[];
+}
+
+/**
+ * Build the key used to match pantry items to ingredients
+ *
+ * Normalizes the name and folds simple plurals ("tomatoes" -> "tomato").
+ *
+ * @param name - Ingredient or pantry item name
+ * @returns Match key
+ */
+export function getPantryMatchKey(name: string): string {
+  const normalized = normalizeIngredientName(name);
+
+  if (normalized.endsWith("ies") && normalized.length > 4) {
+    return normalized.slice(0, -3) + "y";
+  }
+  if (normalized.endsWith("oes") || normalized.endsWith("ches") || normalized.endsWith("shes")) {
+    return normalized.slice(0, -2);
+  }
+  if (normalized.endsWith("s") && !normalized.endsWith("ss") && normalized.length > 3) {
+    return normalized.slice(0, -1);
+  }
+  return normalized;
+}
+
+/**
+ * Index pantry items by match key
+ *
+ * @param pantry - Pantry items
+ * @returns Map of match key to the items with that key
+ */
+export function indexPantry<T extends PantryStock>(pantry: T[]): Map<string, T[]> {
+  const index = new Map<string, T[]>();
+
+  for (const item of pantry) {
+    if (item.quantity <= 0 && !item.alwaysHave) continue;
+    const key = getPantryMatchKey(item.name);
+    const items = index.get(key) ?? [];
+    items.push(item);
+    index.set(key, items);
+  }
+
+  return index;
+}
+
+/**
+ * Total pantry amount of an ingredient, in the given unit
+ *
+ * Items in units that can't be converted are ignored.
+ *
+ * @param items - Pantry items with the same match key
+ * @param unit - Unit to express the total in
+ * @returns Total quantity, or null if no item is in a convertible unit
+ */
+export function getPantryAmount(items: PantryStock[], unit: string): number | null {
+  let total: number | null = null;
+
+  for (const item of items) {
+    const converted = convertUnit(item.quantity, item.unit, unit);
+    if (converted !== null) {
+      total = (total ?? 0) + converted;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Check how much of a recipe's ingredient list the pantry covers
+ *
+ * An ingredient is covered when the pantry has it in a sufficient amount.
+ * If the units can't be compared (e.g., "1 bunch" vs "200 g"), the recipe
+ * gives no amount, or the item is a staple, having it counts as covered.
+ *
+ * @param ingredients - Recipe ingredients
+ * @param pantryIndex - Pantry indexed with indexPantry
+ * @returns Coverage and the missing ingredients
+ */
+export function matchRecipeToPantry(
+  ingredients: RecipeIngredient[],
+  pantryIndex: Map<string, PantryStock[]>
+): PantryMatch {
+  const missing: MissingIngredient[] = [];
+
+  for (const ingredient of ingredients) {
+    const items = pantryIndex.get(getPantryMatchKey(ingredient.name));
+
+    if (!items || items.length === 0) {
+      missing.push({
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        isPartial: false,
+      });
+      continue;
+    }
+
+    if (ingredient.quantity <= 0 || items.some((item) => item.alwaysHave)) {
+      continue;
+    }
+
+    const onHand = getPantryAmount(items, ingredient.unit);
+    if (onHand !== null && onHand < ingredient.quantity) {
+      missing.push({
+        name: ingredient.name,
+        quantity: Math.round((ingredient.quantity - onHand) * 100) / 100,
+        unit: ingredient.unit,
+        isPartial: true,
+      });
+    }
+  }
+
+  const totalCount = ingredients.length;
+  const coveredCount = totalCount - missing.length;
+
+  return {
+    coveredCount,
+    totalCount,
+    coverage: totalCount === 0 ? 0 : coveredCount / totalCount,
+    missing,
+  };
+}
+
+/**
+ * Rank recipes by pantry coverage
+ *
+ * Recipes with the highest coverage come first; ties go to the recipe
+ * with fewer missing items, then alphabetically.
+ *
+ * @param recipes - Recipes with ingredients
+ * @param pantry - Pantry items
+ * @returns Recipes with their pantry match, best first
+ */
+export function rankRecipesByPantry<
+  T extends { title: string; ingredients: RecipeIngredient[] },
+>(recipes: T[], pantry: PantryStock[]): (T & { match: PantryMatch })[] {
+  const pantryIndex = indexPantry(pantry);
+
+  return recipes
+    .filter((recipe) => recipe.ingredients.length > 0)
+    .map((recipe) => ({
+      ...recipe,
+      match: matchRecipeToPantry(recipe.ingredients, pantryIndex),
+    }))
+    .sort(
+      (a, b) =>
+        b.match.coverage - a.match.coverage ||
+        a.match.missing.length - b.match.missing.length ||
+        a.title.localeCompare(b.title)
+    );
+}
+
+/**
+ * Why an ingredient was left off (or reduced on) a shopping list
+ */
+export type SkipReason = "always_have" | "on_hand" | "partially_on_hand";
+
+/**
+ * Ingredient amount left off a shopping list because of the pantry
+ *
+ * For partially_on_hand, quantity is the amount taken from the pantry;
+ * the rest stays on the list.
+ */
+export interface SkippedIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+  category: ShoppingItemCategory;
+  recipeIds: Id<"recipes">[];
+  recipeName?: string;
+  reason: SkipReason;
+}
+
+/**
+ * Remove what the pantry already covers from aggregated shopping items
+ *
+ * Staples are skipped entirely. On-hand amounts are subtracted when the
+ * units are convertible; items in incomparable units stay on the list.
+ *
+ * @param ingredients - Aggregated shopping list ingredients
+ * @param pantry - Pantry items
+ * @returns Items still to buy and the amounts skipped
+ */
+export function subtractPantryStock(
+  ingredients: AggregatedIngredient[],
+  pantry: PantryStock[]
+): { items: AggregatedIngredient[]; skipped: SkippedIngredient[] } {
+  const pantryIndex = indexPantry(pantry);
+  const items: AggregatedIngredient[] = [];
+  const skipped: SkippedIngredient[] = [];
+
+  for (const ingredient of ingredients) {
+    const stock = pantryIndex.get(getPantryMatchKey(ingredient.name));
+    const skip = (quantity: number, reason: SkipReason) =>
+      skipped.push({
+        name: ingredient.name,
+        quantity,
+        unit: ingredient.unit,
+        category: ingredient.category,
+        recipeIds: ingredient.recipeIds,
+        recipeName: ingredient.recipeName ?? undefined,
+        reason,
+      });
+
+    if (!stock || stock.length === 0) {
+      items.push(ingredient);
+      continue;
+    }
+
+    if (stock.some((item) => item.alwaysHave)) {
+      skip(ingredient.quantity, "always_have");
+      continue;
+    }
+
+    const onHand = getPantryAmount(stock, ingredient.unit);
+    if (onHand === null) {
+      items.push(ingredient);
+    } else if (ingredient.quantity <= 0 || onHand >= ingredient.quantity) {
+      skip(ingredient.quantity, "on_hand");
+    } else {
+      const remaining = Math.round((ingredient.quantity - onHand) * 100) / 100;
+      skip(Math.round(onHand * 100) / 100, "partially_on_hand");
+      items.push({ ...ingredient, quantity: remaining });
+    }
+  }
+
+  return { items, skipped };
+}
+
+/**
+ * Check if a pantry item is past or near its expiry date
+ *
+ * @param expiresAt - Expiry timestamp (Unix milliseconds)
+ * @param now - Current time
+ * @param withinDays - Days ahead that count as expiring soon
+ * @returns "expired", "expiring", or null
+ */
+export function getExpiryStatus(
+  expiresAt: number | undefined,
+  now: number,
+  withinDays = 3
+): "expired" | "expiring" | null {
+  if (expiresAt === undefined) return null;
+  if (expiresAt < now) return "expired";
+  if (expiresAt - now <= withinDays * 24 * 60 * 60 * 1000) return "expiring";
+  return null;
+}
@@ -6,7 +6,25 @@
  * modern recipe websites.
  */
 
-import type { ExtractedRecipeData, Confidence } from "./recipeTypes";
+import type { ExtractedRecipeData, Confidence, RawIngredient } from "./recipeTypes";
+import { parseIngredientText } from "./ingredientParser";
+import {
+  normalizeInstructionSections,
+  parseSectionHeading,
+  type InstructionSection,
+} from "./recipeSections";
+
+/**
+ * Schema.org HowToStep or HowToSection (partial)
+ */
+type SchemaInstruction =
+  | string
+  | {
+      "@type"?: string;
+      text?: string;
+      name?: string;
+      itemListElement?: SchemaInstruction[];
+    };
 
 /**
  * Schema.org Recipe type (partial - only fields we extract)
@@ -17,10 +35,7 @@ interface SchemaRecipe {
   image?: string | string[] | { url?: string }[];
   recipeIngredient?: string[];
   ingredients?: string[];
-  recipeInstructions?:
-    | string
-    | string[]
-    | { "@type"?: string; text?: string; name?: string }[];
+  recipeInstructions?: string | SchemaInstruction[];
   recipeYield?: string | number | string[];
   prepTime?: string;
   cookTime?: string;
@@ -99,42 +114,95 @@ function extractImageUrl(
   return null;
 }
 
+/**
+ * Get the text of a single HowToStep
+ */
+function getStepText(item: SchemaInstruction): string {
+  if (typeof item === "string") {
+    return item.trim();
+  }
+  if (typeof item === "object" && item) {
+    return (item.text || item.name || "").trim();
+  }
+  return "";
+}
+
 /**
  * Parse instructions from various formats
+ *
+ * HowToSection entries ("For the sauce" with their own steps) are
+ * flattened into the step list and recorded as instruction sections.
  */
-function parseInstructions(
-  instructions:
-    | string
-    | string[]
-    | { "@type"?: string; text?: string; name?: string }[]
-    | undefined
-): string[] {
-  if (!instructions) return [];
+function parseInstructions(instructions: string | SchemaInstruction[] | undefined): {
+  steps: string[];
+  sections: InstructionSection[];
+} {
+  if (!instructions) return { steps: [], sections: [] };
 
   if (typeof instructions === "string") {
     // Split on numbered steps or newlines
-    return instructions
+    const steps = instructions
       .split(/(?:\d+\.\s*|\n+)/)
       .map((s) => s.trim())
       .filter((s) => s.length > 0);
+    return { steps, sections: [] };
   }
 
+  const steps: string[] = [];
+  const sections: InstructionSection[] = [];
+
   if (Array.isArray(instructions)) {
-    return instructions
-      .map((item) => {
-        if (typeof item === "string") {
-          return item.trim();
-        }
-        if (typeof item === "object" && item) {
-          // HowToStep or HowToSection
-          return (item.text || item.name || "").trim();
+    for (const item of instructions) {
+      if (
+        item &&
+        typeof item === "object" &&
+        Array.isArray(item.itemListElement)
+      ) {
+        // HowToSection
+        const sectionSteps = item.itemListElement
+          .map(getStepText)
+          .filter((s) => s.length > 0);
+        if (item.name?.trim() && sectionSteps.length > 0) {
+          sections.push({ title: item.name.trim(), startIndex: steps.length });
         }
-        return "";
-      })
-      .filter((s) => s.length > 0);
+        steps.push(...sectionSteps);
+        continue;
+      }
+
+      const text = getStepText(item);
+      if (text.length > 0) {
+        steps.push(text);
+      }
+    }
+  }
+
+  return { steps, sections: normalizeInstructionSections(sections, steps.length) };
+}
+
+/**
+ * Parse ingredient lines, assigning heading lines as sections
+ *
+ * "For the sauce:" lines mixed into recipeIngredient become the section of
+ * the ingredients that follow.
+ */
+function parseIngredients(lines: string[]): RawIngredient[] {
+  const ingredients: RawIngredient[] = [];
+  let section: string | undefined;
+
+  for (const line of lines) {
+    if (typeof line !== "string" || !line.trim()) continue;
+
+    const heading = parseSectionHeading(line);
+    if (heading) {
+      section = heading;
+      continue;
+    }
+
+    const parsed = parseIngredientText(line);
+    ingredients.push({ raw: line, parsed: section ? { ...parsed, section } : parsed });
   }
 
-  return [];
+  return ingredients;
 }
 
 /**
@@ -180,7 +248,8 @@ export function parseJsonLdRecipe(html: string): ExtractedRecipeData | null {
           // Extract other fields
           const imageUrl = extractImageUrl(recipe.image);
           const ingredients = recipe.recipeIngredient || recipe.ingredients || [];
-          const instructions = parseInstructions(recipe.recipeInstructions);
+          const { steps: instructions, sections: instructionSections } =
+            parseInstructions(recipe.recipeInstructions);
           const servings = parseServings(recipe.recipeYield);
           const prepTime = parseDuration(recipe.prepTime);
           const cookTime = parseDuration(recipe.cookTime);
@@ -200,11 +269,9 @@ export function parseJsonLdRecipe(html: string): ExtractedRecipeData | null {
           return {
             title,
             imageUrl,
-            ingredients: ingredients.map((ing) => ({
-              raw: ing,
-              parsed: null, // Will be parsed by Gemini if needed
-            })),
+            ingredients: parseIngredients(ingredients),
             instructions,
+            ...(instructionSections.length > 0 && { instructionSections }),
             servings,
             prepTime,
             cookTime,
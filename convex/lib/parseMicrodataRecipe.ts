@@ -6,6 +6,7 @@
  */
 
 import type { ExtractedRecipeData, Confidence } from "./recipeTypes";
+import { parseIngredientText } from "./ingredientParser";
 
 /**
  * Parse ISO 8601 duration to minutes
@@ -223,7 +224,7 @@ export function parseMicrodataRecipe(html: string): ExtractedRecipeData | null {
     imageUrl,
     ingredients: ingredients.map((ing) => ({
       raw: ing,
-      parsed: null,
+      parsed: parseIngredientText(ing),
     })),
     instructions,
     servings,
@@ -0,0 +1,313 @@
+/**
+ * Recipe Duplicate Detection
+ *
+ * Finds recipes a user has saved more than once: the same YouTube video
+ * or source URL, or a similar title with mostly the same ingredients
+ * ("Best Banana Bread" and "Banana Bread" from two sites).
+ *
+ * All functions are pure.
+ */
+
+import { getPantryMatchKey } from "./pantryMatching";
+import { normalizeTitleForMatch, normalizeUrlForMatch } from "./recipeImport";
+
+/**
+ * Recipe fields used to detect duplicates
+ */
+export interface DuplicateCandidate {
+  _id?: string;
+  title: string;
+  sourceUrl?: string;
+  youtubeVideoId?: string;
+  ingredients?: { name: string }[];
+  /** Recipe this one is a variation or diet conversion of */
+  parentRecipeId?: string;
+}
+
+/**
+ * Why two recipes look like duplicates
+ *
+ * - youtube: same YouTube video
+ * - url: same source page
+ * - similar: similar title and ingredients
+ */
+export type DuplicateReason = "youtube" | "url" | "similar";
+
+/**
+ * An existing recipe that looks like a duplicate
+ */
+export interface DuplicateMatch<T> {
+  recipe: T;
+  reason: DuplicateReason;
+  /** 1 for a source match, otherwise the combined similarity */
+  score: number;
+}
+
+/**
+ * Words that don't tell recipes apart ("The Best Easy Banana Bread Recipe")
+ */
+const TITLE_STOPWORDS = new Set([
+  "a", "an", "and", "the", "with", "of", "in", "my", "for",
+  "best", "easy", "simple", "quick", "perfect", "homemade", "classic",
+  "ultimate", "recipe", "favorite", "favourite",
+]);
+
+/**
+ * Title similarity needed when ingredients can't be compared
+ */
+const TITLE_ONLY_THRESHOLD = 0.9;
+
+/**
+ * Title and ingredient similarity needed for a fuzzy match
+ */
+const SIMILAR_TITLE_THRESHOLD = 0.6;
+const SIMILAR_INGREDIENTS_THRESHOLD = 0.6;
+
+/**
+ * Title similarity needed when the ingredients are nearly identical
+ */
+const LOOSE_TITLE_THRESHOLD = 0.3;
+const NEAR_IDENTICAL_INGREDIENTS_THRESHOLD = 0.85;
+
+/**
+ * Significant words of a title
+ */
+function getTitleWords(title: string): Set<string> {
+  return new Set(
+    normalizeTitleForMatch(title)
+      .split(" ")
+      .filter((word) => word && !TITLE_STOPWORDS.has(word))
+  );
+}
+
+/**
+ * Match keys of a recipe's ingredients
+ */
+function getIngredientKeys(ingredients: { name: string }[] = []): Set<string> {
+  return new Set(ingredients.map((ingredient) => getPantryMatchKey(ingredient.name)).filter(Boolean));
+}
+
+/**
+ * Share of items two sets have in common (Jaccard index)
+ */
+function getOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * How alike two recipe titles are, ignoring filler words
+ *
+ * @returns Similarity from 0 to 1
+ */
+export function getTitleSimilarity(a: string, b: string): number {
+  return getOverlap(getTitleWords(a), getTitleWords(b));
+}
+
+/**
+ * How alike two ingredient lists are, by ingredient name
+ *
+ * @returns Similarity from 0 to 1, or 0 if either list is empty
+ */
+export function getIngredientSimilarity(a: { name: string }[], b: { name: string }[]): number {
+  return getOverlap(getIngredientKeys(a), getIngredientKeys(b));
+}
+
+/**
+ * Whether two recipes are a parent and its variation, or two variations
+ * of the same parent
+ */
+function isVariationPair(a: DuplicateCandidate, b: DuplicateCandidate): boolean {
+  return (
+    (a._id !== undefined && b.parentRecipeId === a._id) ||
+    (b._id !== undefined && a.parentRecipeId === b._id) ||
+    (a.parentRecipeId !== undefined && a.parentRecipeId === b.parentRecipeId)
+  );
+}
+
+/**
+ * Compare two recipes for duplication
+ *
+ * Variations copy their parent's source and most of its content, so a
+ * parent and its variations are never duplicates of each other.
+ *
+ * @param a - First recipe
+ * @param b - Second recipe
+ * @returns Why they look like duplicates and how strongly, or null
+ */
+export function compareRecipes(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate
+): { reason: DuplicateReason; score: number } | null {
+  if (isVariationPair(a, b)) {
+    return null;
+  }
+  if (a.youtubeVideoId && a.youtubeVideoId === b.youtubeVideoId) {
+    return { reason: "youtube", score: 1 };
+  }
+  // YouTube URLs keep the video in the query string, which URL matching drops
+  if (
+    !a.youtubeVideoId &&
+    !b.youtubeVideoId &&
+    a.sourceUrl &&
+    b.sourceUrl &&
+    normalizeUrlForMatch(a.sourceUrl) === normalizeUrlForMatch(b.sourceUrl)
+  ) {
+    return { reason: "url", score: 1 };
+  }
+
+  const title = getTitleSimilarity(a.title, b.title);
+  if (title < LOOSE_TITLE_THRESHOLD) {
+    return null;
+  }
+
+  const hasIngredients = (a.ingredients?.length ?? 0) > 0 && (b.ingredients?.length ?? 0) > 0;
+  if (!hasIngredients) {
+    return title >= TITLE_ONLY_THRESHOLD ? { reason: "similar", score: title } : null;
+  }
+
+  const ingredients = getIngredientSimilarity(a.ingredients ?? [], b.ingredients ?? []);
+  const isSimilar =
+    (title >= SIMILAR_TITLE_THRESHOLD && ingredients >= SIMILAR_INGREDIENTS_THRESHOLD) ||
+    ingredients >= NEAR_IDENTICAL_INGREDIENTS_THRESHOLD;
+
+  return isSimilar ? { reason: "similar", score: (title + ingredients) / 2 } : null;
+}
+
+/**
+ * Find saved recipes that a new recipe would duplicate
+ *
+ * @param candidate - Recipe about to be saved
+ * @param existing - The user's saved recipes
+ * @returns Matches, source matches first, then by similarity
+ */
+export function findDuplicates<T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  existing: T[]
+): DuplicateMatch<T>[] {
+  const matches: DuplicateMatch<T>[] = [];
+
+  for (const recipe of existing) {
+    const match = compareRecipes(candidate, recipe);
+    if (match) {
+      matches.push({ recipe, ...match });
+    }
+  }
+
+  const isSourceMatch = (match: DuplicateMatch<T>) => (match.reason === "similar" ? 0 : 1);
+  return matches.sort((a, b) => isSourceMatch(b) - isSourceMatch(a) || b.score - a.score);
+}
+
+/**
+ * Find a saved recipe with the same YouTube video or source URL
+ *
+ * @param candidate - Recipe about to be saved
+ * @param existing - The user's saved recipes
+ * @returns The first exact source match, or null
+ */
+export function findSourceMatch<T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  existing: T[]
+): T | null {
+  if (!candidate.sourceUrl && !candidate.youtubeVideoId) {
+    return null;
+  }
+
+  return (
+    existing.find((recipe) => {
+      const match = compareRecipes(candidate, recipe);
+      return match !== null && match.reason !== "similar";
+    }) ?? null
+  );
+}
+
+/**
+ * Group a library's recipes into sets of likely duplicates
+ *
+ * Recipes are compared only when their titles share a significant word
+ * or they share a source, which keeps large libraries fast.
+ *
+ * @param recipes - The user's saved recipes
+ * @returns Groups of two or more recipes, oldest first within each group
+ */
+export function findDuplicateGroups<T extends DuplicateCandidate & { createdAt: number }>(
+  recipes: T[]
+): T[][] {
+  // Candidate pairs share a title word or a source
+  const buckets = new Map<string, number[]>();
+  const addToBucket = (key: string, index: number) => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(index);
+    else buckets.set(key, [index]);
+  };
+
+  recipes.forEach((recipe, index) => {
+    for (const word of getTitleWords(recipe.title)) addToBucket(`title:${word}`, index);
+    if (recipe.youtubeVideoId) addToBucket(`youtube:${recipe.youtubeVideoId}`, index);
+    else if (recipe.sourceUrl) addToBucket(`url:${normalizeUrlForMatch(recipe.sourceUrl)}`, index);
+  });
+
+  // Union-find over matching pairs
+  const parent = recipes.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const compared = new Set<string>();
+  for (const indexes of buckets.values()) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const pair = `${indexes[i]}:${indexes[j]}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+
+        if (compareRecipes(recipes[indexes[i]], recipes[indexes[j]])) {
+          parent[find(indexes[j])] = find(indexes[i]);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  recipes.forEach((recipe, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), recipe]);
+  });
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => group.sort((a, b) => a.createdAt - b.createdAt));
+}
+
+/**
+ * Combine the notes of merged recipes
+ *
+ * Keeps each distinct note once, in order, separated by a blank line.
+ *
+ * @param notes - Notes of the surviving recipe, then of the merged ones
+ * @returns Combined notes
+ */
+export function mergeRecipeNotes(notes: (string | undefined)[]): string {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+
+  for (const note of notes) {
+    const text = note?.trim();
+    if (text && !seen.has(text)) {
+      seen.add(text);
+      merged.push(text);
+    }
+  }
+
+  return merged.join("\n\n");
+}
@@ -0,0 +1,481 @@
+/**
+ * Recipe Export Formatters
+ *
+ * Converts recipes into portable formats:
+ * - schema.org Recipe JSON-LD (readable by parseJsonLdRecipe)
+ * - Paprika .paprikarecipes archives (ZIP of gzipped JSON recipes)
+ * - Markdown recipe cards
+ *
+ * All functions are pure; gzip compression is passed in by the caller so
+ * this module can run in both the Convex and Node.js runtimes.
+ */
+
+import type { ParsedIngredient } from "./recipeTypes";
+
+/**
+ * Supported export formats
+ */
+export type RecipeExportFormat = "jsonld" | "paprika" | "markdown";
+
+/**
+ * Recipe fields used for export (subset of the recipes table)
+ */
+export interface ExportableRecipe {
+  _id: string;
+  title: string;
+  sourceUrl?: string;
+  sourceName?: string;
+  imageUrl: string;
+  servings: number;
+  prepTime: number;
+  cookTime: number;
+  ingredients: ParsedIngredient[];
+  instructions: string[];
+  notes?: string;
+  nutrition?: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+  };
+  cuisineType?: string;
+  difficulty?: "easy" | "medium" | "hard";
+  dietaryTags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// =============================================================================
+// Shared Helpers
+// =============================================================================
+
+/**
+ * Format a quantity for display (up to 2 decimal places, no trailing zeros)
+ */
+function formatQuantity(quantity: number): string {
+  return Number.isInteger(quantity)
+    ? quantity.toString()
+    : quantity.toFixed(2).replace(/\.?0+$/, "");
+}
+
+/**
+ * Format an ingredient as a single line (e.g., "2 cups flour")
+ *
+ * Detail fields are written the way parseIngredientText reads them, e.g.
+ * "2 (14 oz) cans diced tomatoes, drained (optional)".
+ *
+ * @param ingredient - Parsed ingredient
+ * @returns Ingredient line text
+ */
+export function formatIngredientLine(ingredient: ParsedIngredient): string {
+  const parts: string[] = [];
+
+  if (ingredient.quantity > 0) {
+    parts.push(
+      ingredient.quantityMax !== undefined
+        ? `${formatQuantity(ingredient.quantity)}-${formatQuantity(ingredient.quantityMax)}`
+        : formatQuantity(ingredient.quantity)
+    );
+  }
+  if (ingredient.packageSize) {
+    parts.push(
+      `(${formatQuantity(ingredient.packageSize.quantity)} ${ingredient.packageSize.unit})`
+    );
+  }
+  if (ingredient.unit) {
+    parts.push(ingredient.unit);
+  }
+  parts.push(
+    ingredient.preparation ? `${ingredient.name}, ${ingredient.preparation}` : ingredient.name
+  );
+  if (ingredient.note) {
+    parts.push(`(${ingredient.note})`);
+  }
+  if (ingredient.optional) {
+    parts.push("(optional)");
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Format minutes as an ISO 8601 duration (e.g., 90 -> "PT1H30M")
+ *
+ * @param minutes - Duration in minutes
+ * @returns ISO 8601 duration, or undefined for zero/negative durations
+ */
+export function toIsoDuration(minutes: number): string | undefined {
+  if (!(minutes > 0)) return undefined;
+
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+
+  return `PT${hours > 0 ? `${hours}H` : ""}${mins > 0 ? `${mins}M` : ""}`;
+}
+
+/**
+ * Format minutes as readable text (e.g., 90 -> "1 hr 30 min")
+ */
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours} hr ${mins} min` : `${hours} hr`;
+}
+
+/**
+ * Make a string safe to use as a file name
+ *
+ * @param name - Recipe or cookbook name
+ * @returns File name without path separators or reserved characters
+ */
+export function toSafeFileName(name: string): string {
+  const safe = name
+    .replace(/[\\/:*?"<>|]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return safe || "Recipe";
+}
+
+// =============================================================================
+// schema.org JSON-LD
+// =============================================================================
+
+/**
+ * Convert a recipe to a schema.org Recipe object
+ *
+ * @param recipe - Recipe to convert
+ * @returns schema.org Recipe (without @context)
+ */
+export function toSchemaOrgRecipe(
+  recipe: ExportableRecipe
+): Record<string, unknown> {
+  const totalTime = recipe.prepTime + recipe.cookTime;
+
+  const schemaRecipe: Record<string, unknown> = {
+    "@type": "Recipe",
+    name: recipe.title,
+    image: recipe.imageUrl || undefined,
+    description: recipe.notes,
+    recipeYield: `${recipe.servings} servings`,
+    prepTime: toIsoDuration(recipe.prepTime),
+    cookTime: toIsoDuration(recipe.cookTime),
+    totalTime: toIsoDuration(totalTime),
+    recipeCuisine: recipe.cuisineType,
+    keywords:
+      recipe.dietaryTags.length > 0 ? recipe.dietaryTags.join(", ") : undefined,
+    recipeIngredient: recipe.ingredients.map(formatIngredientLine),
+    recipeInstructions: recipe.instructions.map((text) => ({
+      "@type": "HowToStep",
+      text,
+    })),
+    author: recipe.sourceName
+      ? { "@type": "Organization", name: recipe.sourceName }
+      : undefined,
+    url: recipe.sourceUrl,
+    dateCreated: new Date(recipe.createdAt).toISOString(),
+    dateModified: new Date(recipe.updatedAt).toISOString(),
+  };
+
+  if (recipe.nutrition) {
+    schemaRecipe.nutrition = {
+      "@type": "NutritionInformation",
+      calories: `${recipe.nutrition.calories} calories`,
+      proteinContent: `${recipe.nutrition.protein} g`,
+      carbohydrateContent: `${recipe.nutrition.carbs} g`,
+      fatContent: `${recipe.nutrition.fat} g`,
+    };
+  }
+
+  // Drop undefined fields so the output stays clean
+  return Object.fromEntries(
+    Object.entries(schemaRecipe).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Export recipes as a schema.org JSON-LD document
+ *
+ * A single recipe is emitted as one Recipe object; multiple recipes use
+ * an @graph array. Both forms are accepted by parseJsonLdRecipe.
+ *
+ * @param recipes - Recipes to export
+ * @returns Pretty-printed JSON-LD string
+ */
+export function recipesToJsonLd(recipes: ExportableRecipe[]): string {
+  const document =
+    recipes.length === 1
+      ? { "@context": "https://schema.org", ...toSchemaOrgRecipe(recipes[0]) }
+      : {
+          "@context": "https://schema.org",
+          "@graph": recipes.map(toSchemaOrgRecipe),
+        };
+
+  return JSON.stringify(document, null, 2);
+}
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+/**
+ * Export a recipe as a Markdown recipe card
+ *
+ * @param recipe - Recipe to export
+ * @returns Markdown text
+ */
+export function recipeToMarkdown(recipe: ExportableRecipe): string {
+  const lines: string[] = [`# ${recipe.title}`, ""];
+
+  if (recipe.sourceUrl) {
+    lines.push(`*Source: [${recipe.sourceName || recipe.sourceUrl}](${recipe.sourceUrl})*`, "");
+  } else if (recipe.sourceName) {
+    lines.push(`*Source: ${recipe.sourceName}*`, "");
+  }
+
+  const details = [`**Servings:** ${recipe.servings}`];
+  if (recipe.prepTime > 0) details.push(`**Prep:** ${formatMinutes(recipe.prepTime)}`);
+  if (recipe.cookTime > 0) details.push(`**Cook:** ${formatMinutes(recipe.cookTime)}`);
+  lines.push(details.join(" · "), "");
+
+  lines.push("## Ingredients", "");
+  for (const ingredient of recipe.ingredients) {
+    lines.push(`- ${formatIngredientLine(ingredient)}`);
+  }
+  lines.push("");
+
+  lines.push("## Instructions", "");
+  recipe.instructions.forEach((step, index) => {
+    lines.push(`${index + 1}. ${step}`);
+  });
+  lines.push("");
+
+  if (recipe.notes) {
+    lines.push("## Notes", "", recipe.notes, "");
+  }
+
+  if (recipe.nutrition) {
+    lines.push(
+      "## Nutrition (per serving)",
+      "",
+      `- Calories: ${recipe.nutrition.calories}`,
+      `- Protein: ${recipe.nutrition.protein} g`,
+      `- Carbs: ${recipe.nutrition.carbs} g`,
+      `- Fat: ${recipe.nutrition.fat} g`,
+      ""
+    );
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * Export multiple recipes as one Markdown document
+ *
+ * @param recipes - Recipes to export
+ * @returns Markdown text with recipes separated by horizontal rules
+ */
+export function recipesToMarkdown(recipes: ExportableRecipe[]): string {
+  return recipes.map(recipeToMarkdown).join("\n---\n\n");
+}
+
+// =============================================================================
+// Paprika
+// =============================================================================
+
+/**
+ * Format a timestamp the way Paprika does ("YYYY-MM-DD HH:MM:SS")
+ */
+function toPaprikaDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 19).replace("T", " ");
+}
+
+/**
+ * Convert a recipe to a Paprika recipe object
+ *
+ * @param recipe - Recipe to convert
+ * @returns Paprika recipe JSON object
+ */
+export function toPaprikaRecipe(
+  recipe: ExportableRecipe
+): Record<string, unknown> {
+  const nutrition = recipe.nutrition
+    ? [
+        `Calories: ${recipe.nutrition.calories}`,
+        `Protein: ${recipe.nutrition.protein} g`,
+        `Carbs: ${recipe.nutrition.carbs} g`,
+        `Fat: ${recipe.nutrition.fat} g`,
+      ].join("\n")
+    : "";
+
+  return {
+    uid: recipe._id,
+    name: recipe.title,
+    ingredients: recipe.ingredients.map(formatIngredientLine).join("\n"),
+    directions: recipe.instructions.join("\n\n"),
+    servings: String(recipe.servings),
+    prep_time: recipe.prepTime > 0 ? formatMinutes(recipe.prepTime) : "",
+    cook_time: recipe.cookTime > 0 ? formatMinutes(recipe.cookTime) : "",
+    total_time:
+      recipe.prepTime + recipe.cookTime > 0
+        ? formatMinutes(recipe.prepTime + recipe.cookTime)
+        : "",
+    notes: recipe.notes ?? "",
+    nutritional_info: nutrition,
+    source: recipe.sourceName ?? "",
+    source_url: recipe.sourceUrl ?? "",
+    image_url: recipe.imageUrl,
+    photo_data: null,
+    categories: recipe.cuisineType ? [recipe.cuisineType] : [],
+    difficulty: recipe.difficulty
+      ? recipe.difficulty[0].toUpperCase() + recipe.difficulty.slice(1)
+      : "",
+    rating: 0,
+    created: toPaprikaDate(recipe.createdAt),
+    hash: `${recipe._id}-${recipe.updatedAt}`,
+  };
+}
+
+/**
+ * CRC-32 lookup table (IEEE polynomial), built on first use
+ */
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Compute the CRC-32 checksum used by the ZIP format
+ *
+ * @param data - Bytes to checksum
+ * @returns Unsigned CRC-32
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build an uncompressed (stored) ZIP archive
+ *
+ * Paprika entries are already gzipped, so the archive itself does not
+ * need compression.
+ *
+ * @param entries - File names and contents
+ * @returns ZIP archive bytes
+ */
+export function createZipArchive(
+  entries: { name: string; data: Uint8Array }[]
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true); // Local file header signature
+    localView.setUint16(4, 20, true); // Version needed to extract
+    localView.setUint16(6, 0x0800, true); // Flags: UTF-8 file names
+    localView.setUint16(8, 0, true); // Compression: stored
+    localView.setUint16(10, 0, true); // Modification time
+    localView.setUint16(12, 0x21, true); // Modification date (1980-01-01)
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true); // Compressed size
+    localView.setUint32(22, size, true); // Uncompressed size
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true); // Extra field length
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true); // Central directory signature
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed to extract
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, 0, true);
+    centralView.setUint16(14, 0x21, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true); // Local header offset
+    central.set(name, 46);
+
+    localParts.push(local, entry.data);
+    centralParts.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // End of central directory signature
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const archive = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0)
+  );
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+
+  return archive;
+}
+
+/**
+ * Build a Paprika .paprikarecipes archive
+ *
+ * Each recipe is stored as a gzipped JSON .paprikarecipe file inside a
+ * ZIP archive, which is the format Paprika imports.
+ *
+ * @param recipes - Recipes to export
+ * @param gzip - Gzip compression function (e.g., zlib.gzipSync)
+ * @returns Archive bytes
+ */
+export function buildPaprikaArchive(
+  recipes: ExportableRecipe[],
+  gzip: (data: Uint8Array) => Uint8Array
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const usedNames = new Set<string>();
+
+  const entries = recipes.map((recipe) => {
+    // Keep file names unique within the archive
+    const baseName = toSafeFileName(recipe.title);
+    let name = `${baseName}.paprikarecipe`;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${baseName} (${i}).paprikarecipe`;
+    }
+    usedNames.add(name);
+
+    const json = JSON.stringify(toPaprikaRecipe(recipe));
+    return { name, data: gzip(encoder.encode(json)) };
+  });
+
+  return createZipArchive(entries);
+}
@@ -0,0 +1,800 @@
+/**
+ * Bulk Recipe Import Utilities
+ *
+ * Maps recipes exported from other recipe managers to the app's recipe
+ * format:
+ * - Paprika (.paprikarecipes archive or .paprikarecipe JSON)
+ * - Mealie JSON
+ * - Tandoor JSON
+ * - CSV with a user-provided column mapping
+ *
+ * All functions are pure; archive decompression is passed in by the caller.
+ */
+
+import {
+  categorizeIngredient,
+  getPlaceholderImageUrl,
+  type AppIngredient,
+} from "./aiRecipeTransform";
+import { parseIngredientText } from "./ingredientParser";
+
+/**
+ * Supported import formats
+ */
+export type RecipeImportFormat = "paprika" | "mealie" | "tandoor" | "csv";
+
+/**
+ * Maximum number of recipes accepted in one import
+ */
+export const MAX_IMPORT_RECIPES = 1000;
+
+/**
+ * Recipe mapped from another app, ready to be saved
+ */
+export interface ImportedRecipe {
+  title: string;
+  sourceUrl?: string;
+  sourceName?: string;
+  imageUrl: string;
+  servings: number;
+  prepTime: number;
+  cookTime: number;
+  ingredients: AppIngredient[];
+  instructions: string[];
+  notes?: string;
+  cuisineType?: string;
+  difficulty?: "easy" | "medium" | "hard";
+  dietaryTags: string[];
+}
+
+/**
+ * Result of mapping a single source entry
+ */
+export type ImportParseResult =
+  | { ok: true; recipe: ImportedRecipe }
+  | { ok: false; title: string; error: string };
+
+/**
+ * Per-recipe outcome reported back to the user
+ */
+export interface ImportRecipeResult {
+  title: string;
+  status: "imported" | "duplicate" | "failed" | "limit_reached";
+  recipeId?: string;
+  error?: string;
+}
+
+/**
+ * CSV column mapping: recipe field -> CSV header
+ */
+export interface CsvColumnMapping {
+  title: string;
+  ingredients?: string;
+  instructions?: string;
+  servings?: string;
+  prepTime?: string;
+  cookTime?: string;
+  sourceUrl?: string;
+  imageUrl?: string;
+  notes?: string;
+  cuisineType?: string;
+}
+
+/**
+ * Recipe fields that can be mapped from CSV columns
+ */
+export const CSV_MAPPABLE_FIELDS: (keyof CsvColumnMapping)[] = [
+  "title",
+  "ingredients",
+  "instructions",
+  "servings",
+  "prepTime",
+  "cookTime",
+  "sourceUrl",
+  "imageUrl",
+  "notes",
+  "cuisineType",
+];
+
+// =============================================================================
+// Field Parsing
+// =============================================================================
+
+/**
+ * Parse a free-text ingredient line into an app ingredient
+ *
+ * Examples:
+ * - "2 cups flour" -> { quantity: 2, unit: "cups", name: "flour" }
+ * - "1 1/2 tsp salt" -> { quantity: 1.5, unit: "tsp", name: "salt" }
+ * - "3 eggs" -> { quantity: 3, unit: "", name: "eggs" }
+ * - "salt to taste" -> { quantity: 0, unit: "", name: "salt to taste" }
+ *
+ * See parseIngredientText for ranges, package sizes and preparation notes.
+ *
+ * @param line - Ingredient text
+ * @returns Parsed ingredient
+ */
+export function parseIngredientLine(line: string): AppIngredient {
+  return parseIngredientText(line);
+}
+
+/**
+ * Parse a duration into minutes
+ *
+ * Handles ISO 8601 ("PT1H30M"), text ("1 hr 30 min", "45 minutes"),
+ * and plain numbers (treated as minutes).
+ *
+ * @param value - Duration value from the source app
+ * @returns Minutes (0 if unknown)
+ */
+export function parseDurationMinutes(value: unknown): number {
+  if (typeof value === "number") {
+    return value > 0 ? Math.round(value) : 0;
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    return 0;
+  }
+
+  const text = value.trim().toLowerCase();
+
+  const iso = text.match(/^p(?:\d+d)?t(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (iso) {
+    return (
+      parseInt(iso[1] || "0", 10) * 60 +
+      parseInt(iso[2] || "0", 10) +
+      Math.ceil(parseInt(iso[3] || "0", 10) / 60)
+    );
+  }
+
+  if (/^\d+(?:\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text));
+  }
+
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/);
+  const minutes = text.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/);
+  if (hours || minutes) {
+    return Math.round(
+      (hours ? parseFloat(hours[1]) * 60 : 0) +
+        (minutes ? parseInt(minutes[1], 10) : 0)
+    );
+  }
+
+  return 0;
+}
+
+/**
+ * Parse a servings/yield value (e.g., "4 servings", "Makes 6", 8)
+ *
+ * @param value - Yield value from the source app
+ * @returns Servings (defaults to 4)
+ */
+export function parseServingsValue(value: unknown): number {
+  if (typeof value === "number" && value > 0) {
+    return Math.round(value);
+  }
+  if (typeof value === "string") {
+    const match = value.match(/(\d+)/);
+    if (match && parseInt(match[1], 10) > 0) {
+      return parseInt(match[1], 10);
+    }
+  }
+  return 4;
+}
+
+/**
+ * Split a text block into non-empty lines
+ */
+function splitLines(text: unknown): string[] {
+  if (typeof text !== "string") return [];
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Split an instructions block into steps
+ *
+ * Strips leading step numbers ("1.", "2)") from each line.
+ */
+function splitInstructions(text: unknown): string[] {
+  return splitLines(text)
+    .map((line) => line.replace(/^\d+[.)]\s*/, "").trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Read a string field, returning undefined for empty values
+ */
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Read a web URL field, returning undefined for anything else
+ */
+function optionalUrl(value: unknown): string | undefined {
+  const url = optionalString(value);
+  return url && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+/**
+ * Map a difficulty label to the app's difficulty levels
+ */
+function parseDifficulty(value: unknown): ImportedRecipe["difficulty"] {
+  const text = optionalString(value)?.toLowerCase();
+  if (!text) return undefined;
+  if (text.startsWith("easy") || text === "simple") return "easy";
+  if (text.startsWith("med") || text === "intermediate") return "medium";
+  if (text.startsWith("hard") || text === "difficult") return "hard";
+  return undefined;
+}
+
+/**
+ * Validate a mapped recipe and wrap it as a parse result
+ *
+ * Recipes without a photo get a food placeholder image.
+ */
+function toParseResult(recipe: ImportedRecipe): ImportParseResult {
+  if (!recipe.title) {
+    return { ok: false, title: "Untitled recipe", error: "Recipe has no title" };
+  }
+  if (recipe.ingredients.length === 0 && recipe.instructions.length === 0) {
+    return {
+      ok: false,
+      title: recipe.title,
+      error: "Recipe has no ingredients or instructions",
+    };
+  }
+  return {
+    ok: true,
+    recipe: {
+      ...recipe,
+      imageUrl: recipe.imageUrl || getPlaceholderImageUrl(recipe.title),
+    },
+  };
+}
+
+// =============================================================================
+// Paprika
+// =============================================================================
+
+/**
+ * Map a Paprika recipe object
+ *
+ * @param entry - Parsed .paprikarecipe JSON
+ * @returns Parse result
+ */
+export function mapPaprikaRecipe(entry: Record<string, unknown>): ImportParseResult {
+  const categories = Array.isArray(entry.categories)
+    ? entry.categories.filter((c): c is string => typeof c === "string")
+    : [];
+
+  return toParseResult({
+    title: optionalString(entry.name) ?? "",
+    sourceUrl: optionalUrl(entry.source_url),
+    sourceName: optionalString(entry.source),
+    imageUrl: optionalUrl(entry.image_url) ?? "",
+    servings: parseServingsValue(entry.servings),
+    prepTime: parseDurationMinutes(entry.prep_time),
+    cookTime: parseDurationMinutes(entry.cook_time),
+    ingredients: splitLines(entry.ingredients).map(parseIngredientLine),
+    instructions: splitInstructions(entry.directions),
+    notes: optionalString(entry.notes),
+    cuisineType: categories[0],
+    difficulty: parseDifficulty(entry.difficulty),
+    dietaryTags: [],
+  });
+}
+
+// =============================================================================
+// Mealie
+// =============================================================================
+
+/**
+ * Format a Mealie structured ingredient as a line of text
+ */
+function mealieIngredientText(ingredient: unknown): string {
+  if (typeof ingredient === "string") return ingredient;
+  if (!ingredient || typeof ingredient !== "object") return "";
+
+  const item = ingredient as Record<string, unknown>;
+  const food = (item.food as { name?: string } | null)?.name;
+
+  if (!food) {
+    // Unparsed ingredients keep their text in note/display/originalText
+    return (
+      optionalString(item.originalText) ??
+      optionalString(item.display) ??
+      optionalString(item.note) ??
+      ""
+    );
+  }
+
+  const unit = (item.unit as { name?: string } | null)?.name;
+  const quantity = typeof item.quantity === "number" && item.quantity > 0
+    ? String(item.quantity)
+    : "";
+  const note = optionalString(item.note);
+
+  return [quantity, unit, food, note ? `(${note})` : ""]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Map a Mealie recipe object
+ *
+ * @param entry - Recipe from a Mealie JSON export
+ * @returns Parse result
+ */
+export function mapMealieRecipe(entry: Record<string, unknown>): ImportParseResult {
+  const ingredients = Array.isArray(entry.recipeIngredient)
+    ? entry.recipeIngredient.map(mealieIngredientText).filter(Boolean)
+    : [];
+
+  const instructions = Array.isArray(entry.recipeInstructions)
+    ? entry.recipeInstructions
+        .map((step) =>
+          typeof step === "string"
+            ? step
+            : optionalString((step as { text?: unknown })?.text) ?? ""
+        )
+        .map((step) => step.trim())
+        .filter(Boolean)
+    : splitInstructions(entry.recipeInstructions);
+
+  const notes = Array.isArray(entry.notes)
+    ? entry.notes
+        .map((note) => optionalString((note as { text?: unknown })?.text))
+        .filter(Boolean)
+        .join("\n\n")
+    : undefined;
+
+  const tags = Array.isArray(entry.tags)
+    ? entry.tags
+        .map((tag) => optionalString(typeof tag === "string" ? tag : (tag as { name?: unknown })?.name))
+        .filter((tag): tag is string => !!tag)
+    : [];
+
+  const categories = Array.isArray(entry.recipeCategory)
+    ? entry.recipeCategory
+        .map((c) => optionalString(typeof c === "string" ? c : (c as { name?: unknown })?.name))
+        .filter((c): c is string => !!c)
+    : [];
+
+  return toParseResult({
+    title: optionalString(entry.name) ?? "",
+    sourceUrl: optionalUrl(entry.orgURL),
+    imageUrl: optionalUrl(entry.image) ?? "",
+    servings: parseServingsValue(entry.recipeServings ?? entry.recipeYield),
+    prepTime: parseDurationMinutes(entry.prepTime),
+    cookTime: parseDurationMinutes(entry.performTime ?? entry.cookTime),
+    ingredients: ingredients.map(parseIngredientLine),
+    instructions,
+    notes: notes || optionalString(entry.description),
+    cuisineType: categories[0],
+    dietaryTags: tags.map((tag) => tag.toLowerCase()),
+  });
+}
+
+// =============================================================================
+// Tandoor
+// =============================================================================
+
+/**
+ * Map a Tandoor recipe object
+ *
+ * Tandoor stores ingredients per step, so they are collected in step order.
+ * working_time maps to prep time and waiting_time to cook time.
+ *
+ * @param entry - Recipe from a Tandoor JSON export
+ * @returns Parse result
+ */
+export function mapTandoorRecipe(entry: Record<string, unknown>): ImportParseResult {
+  const steps = Array.isArray(entry.steps)
+    ? (entry.steps as Record<string, unknown>[])
+    : [];
+
+  const ingredients: AppIngredient[] = [];
+  for (const step of steps) {
+    const stepIngredients = Array.isArray(step.ingredients)
+      ? (step.ingredients as Record<string, unknown>[])
+      : [];
+
+    for (const ingredient of stepIngredients) {
+      if (ingredient.is_header) continue;
+
+      const food = optionalString((ingredient.food as { name?: unknown } | null)?.name);
+      if (!food) continue;
+
+      const note = optionalString(ingredient.note);
+      const amount =
+        !ingredient.no_amount && typeof ingredient.amount === "number"
+          ? ingredient.amount
+          : 0;
+
+      ingredients.push({
+        name: food,
+        quantity: amount,
+        unit: amount > 0
+          ? optionalString((ingredient.unit as { name?: unknown } | null)?.name) ?? ""
+          : "",
+        category: categorizeIngredient(food),
+        ...(note && { preparation: note }),
+      });
+    }
+  }
+
+  const instructions = steps
+    .map((step) => optionalString(step.instruction) ?? "")
+    .filter(Boolean);
+
+  const keywords = Array.isArray(entry.keywords)
+    ? entry.keywords
+        .map((k) => optionalString((k as { name?: unknown })?.name))
+        .filter((k): k is string => !!k)
+    : [];
+
+  return toParseResult({
+    title: optionalString(entry.name) ?? "",
+    sourceUrl: optionalUrl(entry.source_url),
+    imageUrl: optionalUrl(entry.image) ?? "",
+    servings: parseServingsValue(entry.servings),
+    prepTime: parseDurationMinutes(entry.working_time),
+    cookTime: parseDurationMinutes(entry.waiting_time),
+    ingredients,
+    instructions,
+    notes: optionalString(entry.description),
+    dietaryTags: keywords.map((k) => k.toLowerCase()),
+  });
+}
+
+// =============================================================================
+// JSON Exports
+// =============================================================================
+
+/**
+ * Extract the recipe list from a JSON export
+ *
+ * Accepts a single recipe, an array of recipes, or an object wrapping
+ * the recipes in `recipes`, `items`, or `results`.
+ *
+ * @param json - Export file contents
+ * @returns Recipe objects
+ */
+export function extractRecipeEntries(json: string): Record<string, unknown>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (Array.isArray(data)) {
+    return data.filter((item) => item && typeof item === "object");
+  }
+
+  if (data && typeof data === "object") {
+    const wrapper = data as Record<string, unknown>;
+    for (const key of ["recipes", "items", "results"]) {
+      if (Array.isArray(wrapper[key])) {
+        return (wrapper[key] as unknown[]).filter(
+          (item): item is Record<string, unknown> =>
+            !!item && typeof item === "object"
+        );
+      }
+    }
+    return [wrapper];
+  }
+
+  throw new Error("No recipes found in file");
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Parse CSV text into rows (RFC 4180: quoted fields, escaped quotes,
+ * and newlines inside quotes)
+ *
+ * @param text - CSV file contents
+ * @returns Rows of cell values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark
+  const input = text.replace(/^﻿/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Suggest a column mapping from CSV headers
+ *
+ * Matches common header names (e.g., "Name" -> title, "Directions" ->
+ * instructions). The user can adjust the suggestion before importing.
+ *
+ * @param headers - CSV header row
+ * @returns Suggested mapping (title falls back to the first column)
+ */
+export function suggestCsvMapping(headers: string[]): CsvColumnMapping {
+  const aliases: Record<keyof CsvColumnMapping, string[]> = {
+    title: ["title", "name", "recipe", "recipe name"],
+    ingredients: ["ingredients", "ingredient"],
+    instructions: ["instructions", "directions", "steps", "method"],
+    servings: ["servings", "serves", "yield", "portions"],
+    prepTime: ["prep time", "prep", "preparation time", "prep_time"],
+    cookTime: ["cook time", "cook", "cooking time", "cook_time"],
+    sourceUrl: ["url", "source url", "source_url", "link"],
+    imageUrl: ["image", "image url", "image_url", "photo"],
+    notes: ["notes", "description", "comments"],
+    cuisineType: ["cuisine", "category", "cuisine type"],
+  };
+
+  const mapping: Partial<CsvColumnMapping> = {};
+  for (const field of CSV_MAPPABLE_FIELDS) {
+    const header = headers.find((h) =>
+      aliases[field].includes(h.trim().toLowerCase())
+    );
+    if (header) {
+      mapping[field] = header;
+    }
+  }
+
+  return { ...mapping, title: mapping.title ?? headers[0] ?? "" };
+}
+
+/**
+ * Map CSV rows to recipes using a column mapping
+ *
+ * Ingredients and instructions are read one per line within their cell.
+ *
+ * @param text - CSV file contents (first row is the header)
+ * @param mapping - Recipe field -> header mapping
+ * @returns Parse result per data row
+ */
+export function mapCsvRecipes(
+  text: string,
+  mapping: CsvColumnMapping
+): ImportParseResult[] {
+  const [headers, ...rows] = parseCsv(text);
+  if (!headers) {
+    throw new Error("CSV file is empty");
+  }
+  if (!headers.includes(mapping.title)) {
+    throw new Error(`Title column "${mapping.title}" not found`);
+  }
+
+  return rows.map((row) => {
+    const cell = (field: keyof CsvColumnMapping): string | undefined => {
+      const header = mapping[field];
+      if (!header) return undefined;
+      const index = headers.indexOf(header);
+      return index >= 0 ? row[index] : undefined;
+    };
+
+    return toParseResult({
+      title: optionalString(cell("title")) ?? "",
+      sourceUrl: optionalUrl(cell("sourceUrl")),
+      imageUrl: optionalUrl(cell("imageUrl")) ?? "",
+      servings: parseServingsValue(cell("servings")),
+      prepTime: parseDurationMinutes(cell("prepTime")),
+      cookTime: parseDurationMinutes(cell("cookTime")),
+      ingredients: splitLines(cell("ingredients")).map(parseIngredientLine),
+      instructions: splitInstructions(cell("instructions")),
+      notes: optionalString(cell("notes")),
+      cuisineType: optionalString(cell("cuisineType")),
+      dietaryTags: [],
+    });
+  });
+}
+
+// =============================================================================
+// Archives
+// =============================================================================
+
+/**
+ * Read the files in a ZIP archive
+ *
+ * Supports stored and deflated entries (the two methods used by Paprika
+ * and common zip tools). Reads sizes from the central directory, so
+ * archives written with data descriptors are handled too.
+ *
+ * @param archive - ZIP archive bytes
+ * @param inflateRaw - Raw DEFLATE decompression (e.g., zlib.inflateRawSync)
+ * @returns File names and contents
+ */
+export function readZipArchive(
+  archive: Uint8Array,
+  inflateRaw: (data: Uint8Array) => Uint8Array
+): { name: string; data: Uint8Array }[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+
+  // Find the end of central directory record (scan back past any comment)
+  let endOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("File is not a valid archive");
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const files: { name: string; data: Uint8Array }[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("File is not a valid archive");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      archive.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Skip directories
+    if (name.endsWith("/")) continue;
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = archive.subarray(start, start + compressedSize);
+
+    if (method === 0) {
+      files.push({ name, data: raw });
+    } else if (method === 8) {
+      files.push({ name, data: inflateRaw(raw) });
+    } else {
+      throw new Error(`Unsupported compression in archive entry "${name}"`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Check if bytes start with the ZIP signature
+ */
+export function isZipArchive(data: Uint8Array): boolean {
+  return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b;
+}
+
+/**
+ * Check if bytes start with the gzip signature
+ */
+export function isGzip(data: Uint8Array): boolean {
+  return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+// =============================================================================
+// Deduplication
+// =============================================================================
+
+/**
+ * Normalize a title for duplicate detection
+ */
+export function normalizeTitleForMatch(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Normalize a URL for duplicate detection (ignores protocol, www,
+ * trailing slashes, query string, and fragment)
+ */
+export function normalizeUrlForMatch(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Tracks existing titles and source URLs to detect duplicates
+ */
+export class ImportDeduplicator {
+  private titles = new Set<string>();
+  private urls = new Set<string>();
+
+  constructor(existing: { title: string; sourceUrl?: string }[] = []) {
+    for (const recipe of existing) {
+      this.add(recipe);
+    }
+  }
+
+  /**
+   * Check if a recipe matches an existing title or source URL
+   */
+  isDuplicate(recipe: { title: string; sourceUrl?: string }): boolean {
+    if (recipe.sourceUrl && this.urls.has(normalizeUrlForMatch(recipe.sourceUrl))) {
+      return true;
+    }
+    return this.titles.has(normalizeTitleForMatch(recipe.title));
+  }
+
+  /**
+   * Remember a recipe so later entries in the same import are compared too
+   */
+  add(recipe: { title: string; sourceUrl?: string }): void {
+    this.titles.add(normalizeTitleForMatch(recipe.title));
+    if (recipe.sourceUrl) {
+      this.urls.add(normalizeUrlForMatch(recipe.sourceUrl));
+    }
+  }
+}
+
+/**
+ * Summarize per-recipe import results
+ *
+ * @param results - Per-recipe outcomes
+ * @returns Counts by status
+ */
+export function summarizeImportResults(results: ImportRecipeResult[]): {
+  imported: number;
+  duplicates: number;
+  failed: number;
+  limitReached: number;
+} {
+  return {
+    imported: results.filter((r) => r.status === "imported").length,
+    duplicates: results.filter((r) => r.status === "duplicate").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    limitReached: results.filter((r) => r.status === "limit_reached").length,
+  };
+}
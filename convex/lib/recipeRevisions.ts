@@ -0,0 +1,237 @@
+/**
+ * Recipe Revision Utilities
+ *
+ * Helpers for recipe revision history. Before an update changes a recipe's
+ * content, the prior version is stored as a revision snapshot. These
+ * functions pick the tracked fields, detect real changes, prune old
+ * revisions and compute the field-level diff shown to users.
+ */
+
+/**
+ * Most revisions kept per recipe; older ones are pruned
+ */
+export const MAX_REVISIONS_PER_RECIPE = 25;
+
+/**
+ * Recipe fields stored in a revision and restored by a revert
+ *
+ * Favorites, source details and cook stats are not content and are left
+ * out so toggling them never creates a revision.
+ */
+export const REVISION_FIELDS = [
+  "title",
+  "imageUrl",
+  "servings",
+  "prepTime",
+  "cookTime",
+  "ingredients",
+  "instructions",
+  "instructionSections",
+  "notes",
+  "nutrition",
+  "cuisineType",
+  "difficulty",
+  "dietaryTags",
+] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+/**
+ * Ingredient fields shown in a diff
+ */
+export interface RevisionIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+  preparation?: string;
+}
+
+/**
+ * Recipe content captured by a revision
+ */
+export interface RevisionSnapshot {
+  title: string;
+  imageUrl: string;
+  servings: number;
+  prepTime: number;
+  cookTime: number;
+  ingredients: RevisionIngredient[];
+  instructions: string[];
+  instructionSections?: { title: string; startIndex: number }[];
+  notes?: string;
+  nutrition?: Record<string, number | undefined>;
+  cuisineType?: string;
+  difficulty?: string;
+  dietaryTags: string[];
+}
+
+/**
+ * One line of an ingredient or instruction list diff
+ */
+export interface ListDiffLine {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+/**
+ * A changed field between two versions of a recipe
+ *
+ * Lists (ingredients, instructions) are diffed line by line; other fields
+ * report their old and new values.
+ */
+export type RevisionChange =
+  | { field: RevisionField; kind: "value"; before: unknown; after: unknown }
+  | { field: "ingredients" | "instructions"; kind: "list"; lines: ListDiffLine[] };
+
+/**
+ * Copy the tracked fields of a recipe into a snapshot
+ *
+ * @param recipe - Recipe document
+ * @returns Snapshot with only the revision fields
+ */
+export function getRevisionSnapshot<T extends RevisionSnapshot>(
+  recipe: T
+): Pick<T, RevisionField> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of REVISION_FIELDS) {
+    snapshot[field] = recipe[field];
+  }
+  return snapshot as Pick<T, RevisionField>;
+}
+
+/**
+ * Compare two field values by content
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Check if an update changes any tracked field
+ *
+ * @param current - Recipe before the update
+ * @param updates - Fields being written (undefined means unchanged)
+ * @returns True if a revision should be stored
+ */
+export function hasRevisionChanges(
+  current: RevisionSnapshot,
+  updates: Partial<Record<string, unknown>>
+): boolean {
+  return REVISION_FIELDS.some(
+    (field) => updates[field] !== undefined && !isSameValue(current[field], updates[field])
+  );
+}
+
+/**
+ * Pick revisions to delete once a recipe has too many
+ *
+ * @param revisionIds - Revision IDs, newest first
+ * @param maxRevisions - Most revisions to keep
+ * @returns IDs of the oldest revisions over the limit
+ */
+export function selectRevisionsToPrune<T>(
+  revisionIds: T[],
+  maxRevisions: number = MAX_REVISIONS_PER_RECIPE
+): T[] {
+  return revisionIds.slice(maxRevisions);
+}
+
+/**
+ * Format an ingredient as a single diff line
+ *
+ * @returns e.g. "2 cups flour, sifted"
+ */
+export function formatIngredientLine(ingredient: RevisionIngredient): string {
+  const name = ingredient.preparation
+    ? `${ingredient.name}, ${ingredient.preparation}`
+    : ingredient.name;
+  return [ingredient.quantity || "", ingredient.unit, name]
+    .map((part) => String(part).trim())
+    .filter((part) => part.length > 0)
+    .join(" ");
+}
+
+/**
+ * Line-by-line diff of two lists
+ *
+ * Uses the longest common subsequence so reordered or edited lines show
+ * as a removal and an addition while untouched lines stay in place.
+ *
+ * @param before - Old lines
+ * @param after - New lines
+ * @returns Diff lines in display order
+ */
+export function diffLines(before: string[], after: string[]): ListDiffLine[] {
+  // lcs[i][j] = common subsequence length of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: ListDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: "unchanged", text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: before[i] });
+      i++;
+    } else {
+      lines.push({ type: "added", text: after[j] });
+      j++;
+    }
+  }
+  for (; i < before.length; i++) lines.push({ type: "removed", text: before[i] });
+  for (; j < after.length; j++) lines.push({ type: "added", text: after[j] });
+
+  return lines;
+}
+
+/**
+ * Field-level diff between two versions of a recipe
+ *
+ * @param before - Older version
+ * @param after - Newer version
+ * @returns Changed fields in REVISION_FIELDS order; empty if identical
+ */
+export function diffRevisions(
+  before: RevisionSnapshot,
+  after: RevisionSnapshot
+): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  for (const field of REVISION_FIELDS) {
+    if (isSameValue(before[field], after[field])) continue;
+
+    if (field === "ingredients") {
+      changes.push({
+        field,
+        kind: "list",
+        lines: diffLines(
+          before.ingredients.map(formatIngredientLine),
+          after.ingredients.map(formatIngredientLine)
+        ),
+      });
+    } else if (field === "instructions") {
+      changes.push({
+        field,
+        kind: "list",
+        lines: diffLines(before.instructions, after.instructions),
+      });
+    } else {
+      changes.push({ field, kind: "value", before: before[field], after: after[field] });
+    }
+  }
+
+  return changes;
+}
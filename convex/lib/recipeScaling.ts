@@ -0,0 +1,473 @@
+/**
+ * Recipe Scaling Utility
+ *
+ * Scales ingredient amounts by a factor (from servings or pan size) and
+ * expresses the result the way a cook would measure it: practical
+ * fractions instead of "0.333 cups", and a better-sized unit when the
+ * amount outgrows or shrinks below its original one (48 tsp -> 1 cup).
+ * Count items like eggs stay whole, with a warning saying how they were
+ * rounded.
+ *
+ * Shared by the recipe detail screen, cook mode, the voice assistant and
+ * shopping list generation. All functions are pure.
+ */
+
+import {
+  convertToSystem,
+  convertUnit,
+  getUnitGroup,
+  getUnitSystem,
+  normalizeUnit,
+  UnitSystem,
+} from "./unitConversion";
+
+/**
+ * Ingredient fields used for scaling
+ */
+export interface ScalableIngredient {
+  quantity: number;
+  unit: string;
+  quantityMax?: number;
+}
+
+/**
+ * Scaled amount of an ingredient
+ */
+export interface ScaledAmount {
+  quantity: number;
+  quantityMax?: number;
+  unit: string;
+  /** Set when a count item was rounded, e.g. "Rounded from 1 1/2" */
+  warning?: string;
+}
+
+/**
+ * Options for scaling an ingredient
+ */
+export interface ScaleOptions {
+  /** Express the amount in this unit system */
+  unitSystem?: UnitSystem;
+}
+
+/**
+ * A baking pan
+ */
+export interface PanSize {
+  id: string;
+  label: string;
+  shape: "round" | "square" | "rectangle" | "loaf";
+  /** Diameter, or the sides of the base, in inches */
+  dimensions: [number] | [number, number];
+}
+
+/**
+ * Fractions found on measuring cups and spoons
+ */
+const PRACTICAL_FRACTIONS: { value: number; text: string }[] = [
+  { value: 0, text: "" },
+  { value: 1 / 8, text: "1/8" },
+  { value: 1 / 4, text: "1/4" },
+  { value: 1 / 3, text: "1/3" },
+  { value: 1 / 2, text: "1/2" },
+  { value: 2 / 3, text: "2/3" },
+  { value: 3 / 4, text: "3/4" },
+  { value: 1, text: "" },
+];
+
+/**
+ * Amounts at or above this are rounded to whole numbers
+ */
+const WHOLE_NUMBER_THRESHOLD = 10;
+
+/**
+ * Units from smallest to largest, with the smallest amount worth
+ * expressing in each (a quarter cup reads better than 4 tbsp)
+ */
+const UNIT_LADDERS: { unit: string; min: number }[][] = [
+  [
+    { unit: "tsp", min: 0 },
+    { unit: "tbsp", min: 1 },
+    { unit: "cup", min: 1 / 4 },
+  ],
+  [
+    { unit: "oz", min: 0 },
+    { unit: "lb", min: 1 },
+  ],
+  [
+    { unit: "g", min: 0 },
+    { unit: "kg", min: 1 },
+  ],
+  [
+    { unit: "ml", min: 0 },
+    { unit: "l", min: 1 },
+  ],
+];
+
+/**
+ * Small measures that aren't counted items even though they can't be converted
+ */
+const SMALL_MEASURES = new Set(["pinch", "pinches", "dash", "dashes", "drop", "drops"]);
+
+/**
+ * Common baking pans
+ */
+export const PAN_SIZES: PanSize[] = [
+  { id: "8-round", label: '8" round', shape: "round", dimensions: [8] },
+  { id: "9-round", label: '9" round', shape: "round", dimensions: [9] },
+  { id: "10-round", label: '10" round', shape: "round", dimensions: [10] },
+  { id: "12-round", label: '12" round', shape: "round", dimensions: [12] },
+  { id: "8x8", label: '8x8" square', shape: "square", dimensions: [8, 8] },
+  { id: "9x9", label: '9x9" square', shape: "square", dimensions: [9, 9] },
+  { id: "7x11", label: '7x11"', shape: "rectangle", dimensions: [7, 11] },
+  { id: "9x13", label: '9x13"', shape: "rectangle", dimensions: [9, 13] },
+  { id: "10x15", label: '10x15" jelly roll', shape: "rectangle", dimensions: [10, 15] },
+  { id: "13x18", label: '13x18" half sheet', shape: "rectangle", dimensions: [13, 18] },
+  { id: "4x8-loaf", label: '8x4" loaf', shape: "loaf", dimensions: [4, 8] },
+  { id: "5x9-loaf", label: '9x5" loaf', shape: "loaf", dimensions: [5, 9] },
+];
+
+/**
+ * Scale factor for making a different number of servings
+ *
+ * @param baseServings - Servings the recipe makes
+ * @param targetServings - Servings wanted
+ * @returns Factor to multiply amounts by (1 when the base is unknown)
+ */
+export function getScaleFactor(baseServings: number, targetServings: number): number {
+  if (baseServings <= 0 || targetServings <= 0) {
+    return 1;
+  }
+  return targetServings / baseServings;
+}
+
+/**
+ * Area of a pan's base in square inches
+ *
+ * @param pan - Baking pan
+ * @returns Area
+ */
+export function getPanArea(pan: PanSize): number {
+  const [first, second] = pan.dimensions;
+  return second === undefined ? Math.PI * (first / 2) ** 2 : first * second;
+}
+
+/**
+ * Scale factor for baking in a different pan
+ *
+ * Amounts scale with the area of the pan's base so the batter or dough
+ * stays the same depth.
+ *
+ * @param fromPanId - Pan the recipe was written for
+ * @param toPanId - Pan being used
+ * @returns Factor, or null if either pan is unknown
+ */
+export function getPanScaleFactor(fromPanId: string, toPanId: string): number | null {
+  const from = PAN_SIZES.find((pan) => pan.id === fromPanId);
+  const to = PAN_SIZES.find((pan) => pan.id === toPanId);
+  return from && to ? getPanArea(to) / getPanArea(from) : null;
+}
+
+/**
+ * Find the pan a recipe calls for in its text
+ *
+ * Recognises "9x13", "9 x 13-inch", "9-by-5 loaf pan", "8-inch round"
+ * and '9" square'.
+ *
+ * @param text - Instruction or ingredient text
+ * @returns The pan, or null if none is mentioned
+ */
+export function findPanSize(text: string): PanSize | null {
+  const lower = text.toLowerCase();
+
+  const rectangle = lower.match(/\b(\d{1,2})\s*(?:"|-?inch(?:es)?)?\s*(?:x|-?by-?)\s*(\d{1,2})\b/);
+  if (rectangle) {
+    const sides = [Number(rectangle[1]), Number(rectangle[2])].sort((a, b) => a - b);
+    const pan = PAN_SIZES.find(
+      (candidate) =>
+        candidate.dimensions.length === 2 &&
+        candidate.dimensions[0] === sides[0] &&
+        candidate.dimensions[1] === sides[1]
+    );
+    if (pan) return pan;
+  }
+
+  const single = lower.match(/\b(\d{1,2})\s*(?:"|-?\s*inch(?:es)?)\s*(round|square|springform|cake)\b/);
+  if (single) {
+    const size = Number(single[1]);
+    const shape = single[2] === "square" ? "square" : "round";
+    return (
+      PAN_SIZES.find(
+        (pan) => pan.shape === shape && pan.dimensions[0] === size
+      ) ?? null
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Check if an ingredient is counted in whole items (eggs, cans, cloves)
+ *
+ * @param unit - Ingredient unit
+ * @returns True for count units and unitless ingredients
+ */
+export function isCountedItem(unit: string): boolean {
+  return getUnitGroup(unit) === null && !SMALL_MEASURES.has(normalizeUnit(unit));
+}
+
+/**
+ * Round an amount to a fraction found on measuring cups and spoons
+ *
+ * Amounts of 10 or more are rounded to whole numbers. A positive amount
+ * never rounds down to zero.
+ *
+ * @param quantity - Exact amount
+ * @returns Rounded amount
+ */
+export function roundToPracticalFraction(quantity: number): number {
+  if (quantity <= 0) {
+    return 0;
+  }
+  if (quantity >= WHOLE_NUMBER_THRESHOLD) {
+    return Math.round(quantity);
+  }
+
+  const whole = Math.floor(quantity);
+  const remainder = quantity - whole;
+  let best = PRACTICAL_FRACTIONS[0].value;
+  for (const fraction of PRACTICAL_FRACTIONS) {
+    if (Math.abs(remainder - fraction.value) < Math.abs(remainder - best)) {
+      best = fraction.value;
+    }
+  }
+
+  const rounded = whole + best;
+  return rounded > 0 ? rounded : PRACTICAL_FRACTIONS[1].value;
+}
+
+/**
+ * Round a metric amount, where fractions aren't used
+ *
+ * Halves below 10, whole numbers below 100, then fives.
+ */
+function roundMetric(quantity: number, unit: string): number {
+  const canonical = getLadderUnit(unit);
+  if (canonical === "kg" || canonical === "l") {
+    return Math.round(quantity * 100) / 100;
+  }
+  if (quantity < 10) return Math.max(Math.round(quantity * 2) / 2, 0.5);
+  if (quantity < 100) return Math.round(quantity);
+  return Math.round(quantity / 5) * 5;
+}
+
+/**
+ * Round an amount for its unit
+ *
+ * Metric units round to decimals, everything else to practical fractions.
+ *
+ * @param quantity - Exact amount
+ * @param unit - Amount's unit
+ * @returns Rounded amount
+ */
+export function roundQuantity(quantity: number, unit: string): number {
+  if (quantity <= 0) {
+    return 0;
+  }
+  return getUnitSystem(unit) === "metric"
+    ? roundMetric(quantity, unit)
+    : roundToPracticalFraction(quantity);
+}
+
+/**
+ * Format an amount as a whole number and fraction ("1 1/3")
+ *
+ * Amounts that aren't close to a practical fraction, and metric amounts,
+ * are written as decimals.
+ *
+ * @param quantity - Amount
+ * @param unit - Amount's unit (optional)
+ * @returns Display text
+ */
+export function formatQuantity(quantity: number, unit: string = ""): string {
+  if (Number.isInteger(quantity)) {
+    return quantity.toString();
+  }
+
+  const decimal = (Math.round(quantity * 100) / 100).toString();
+  if (getUnitSystem(unit) === "metric") {
+    return decimal;
+  }
+
+  const whole = Math.floor(quantity);
+  const fraction = PRACTICAL_FRACTIONS.find(
+    (candidate) => Math.abs(quantity - whole - candidate.value) < 0.01
+  );
+  if (!fraction) {
+    return decimal;
+  }
+  if (!fraction.text) {
+    return Math.round(quantity).toString();
+  }
+  return whole > 0 ? `${whole} ${fraction.text}` : fraction.text;
+}
+
+/**
+ * Format an ingredient's amount with its unit ("1 1/2-2 cups")
+ *
+ * @param amount - Quantity, optional upper bound, and unit
+ * @returns Display text, empty when there's no amount
+ */
+export function formatAmount(amount: ScalableIngredient): string {
+  if (amount.quantity <= 0) {
+    return amount.unit;
+  }
+  const quantity =
+    amount.quantityMax !== undefined
+      ? `${formatQuantity(amount.quantity, amount.unit)}-${formatQuantity(amount.quantityMax, amount.unit)}`
+      : formatQuantity(amount.quantity, amount.unit);
+  return amount.unit ? `${quantity} ${amount.unit}` : quantity;
+}
+
+/**
+ * Canonical ladder unit for a unit, if it's on one
+ */
+function getLadderUnit(unit: string): string | null {
+  for (const ladder of UNIT_LADDERS) {
+    for (const step of ladder) {
+      if (convertUnit(1, unit, step.unit) === 1) {
+        return step.unit;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Express an amount in the best-sized unit of its kind
+ *
+ * Picks the largest unit in the same system where the amount reaches
+ * that unit's minimum, so 48 tsp becomes 1 cup and 1/8 cup becomes
+ * 2 tbsp. Units outside tsp/tbsp/cup, oz/lb, g/kg and ml/l are kept.
+ *
+ * @param quantity - Amount
+ * @param unit - Current unit
+ * @returns Amount and unit
+ */
+export function promoteUnit(quantity: number, unit: string): { quantity: number; unit: string } {
+  const canonical = getLadderUnit(unit);
+  const ladder = UNIT_LADDERS.find((steps) => steps.some((step) => step.unit === canonical));
+  if (!canonical || !ladder) {
+    return { quantity, unit };
+  }
+
+  let best = { quantity, unit };
+  for (const step of ladder) {
+    const converted = convertUnit(quantity, unit, step.unit);
+    if (converted !== null && converted >= step.min) {
+      best = { quantity: converted, unit: step.unit === canonical ? unit : step.unit };
+    }
+  }
+  return best;
+}
+
+/**
+ * Scale an ingredient's amount
+ *
+ * Measured amounts are converted to the preferred unit system, moved to
+ * a better-sized unit when scaled, and rounded to practical amounts.
+ * Counted items are rounded to whole items (or halves, if the recipe
+ * already used a half), with a warning when that changes the amount.
+ * Amounts of zero ("salt, to taste") stay zero.
+ *
+ * @param ingredient - Ingredient with quantity and unit
+ * @param factor - Scale factor (2 = double)
+ * @param options - Preferred unit system
+ * @returns Scaled quantity, upper bound, unit, and any warning
+ */
+export function scaleAmount(
+  ingredient: ScalableIngredient,
+  factor: number,
+  options: ScaleOptions = {}
+): ScaledAmount {
+  const { quantity, quantityMax, unit } = ingredient;
+  const exact = quantity * factor;
+
+  if (isCountedItem(unit)) {
+    if (factor === 1 || quantity <= 0) {
+      return { quantity, ...(quantityMax !== undefined && { quantityMax }), unit };
+    }
+
+    const step = Number.isInteger(quantity) ? 1 : 0.5;
+    const rounded = Math.max(Math.round(exact / step) * step, step);
+    const roundedMax =
+      quantityMax !== undefined
+        ? Math.max(Math.round((quantityMax * factor) / step) * step, rounded)
+        : undefined;
+
+    return {
+      quantity: rounded,
+      ...(roundedMax !== undefined && { quantityMax: roundedMax }),
+      unit,
+      ...(Math.abs(rounded - exact) > 0.01 && {
+        warning: `Rounded from ${formatQuantity(roundToPracticalFraction(exact))}`,
+      }),
+    };
+  }
+
+  // Convert to the preferred system, then find a better unit if scaled
+  const converted = options.unitSystem
+    ? convertToSystem(exact, unit, options.unitSystem)
+    : { quantity: exact, unit };
+  const adjusted =
+    factor !== 1 ? promoteUnit(converted.quantity, converted.unit) : converted;
+
+  // The top of a range converts by the same factor as the bottom
+  const ratio = exact > 0 ? adjusted.quantity / exact : 0;
+  const adjustedMax =
+    quantityMax !== undefined ? quantityMax * factor * ratio : undefined;
+
+  return {
+    quantity: roundQuantity(adjusted.quantity, adjusted.unit),
+    ...(adjustedMax !== undefined && {
+      quantityMax: roundQuantity(adjustedMax, adjusted.unit),
+    }),
+    unit: adjusted.unit,
+  };
+}
+
+/**
+ * Scale an ingredient, keeping its other fields
+ *
+ * @param ingredient - Recipe ingredient
+ * @param factor - Scale factor (2 = double)
+ * @param options - Preferred unit system
+ * @returns Copy of the ingredient with the scaled amount
+ */
+export function scaleIngredient<T extends ScalableIngredient>(
+  ingredient: T,
+  factor: number,
+  options: ScaleOptions = {}
+): Omit<T, "quantityMax"> & ScaledAmount {
+  const { quantityMax: _quantityMax, ...rest } = ingredient;
+  return { ...rest, ...scaleAmount(ingredient, factor, options) };
+}
+
+/**
+ * Round a shopping list amount to something that can be bought
+ *
+ * Counted items round up to whole items; measured amounts round to
+ * practical fractions.
+ *
+ * @param quantity - Total amount needed
+ * @param unit - Amount's unit
+ * @returns Amount to buy
+ */
+export function roundShoppingQuantity(quantity: number, unit: string): number {
+  if (quantity <= 0) {
+    return 0;
+  }
+  if (isCountedItem(unit)) {
+    return Math.ceil(quantity - 0.01);
+  }
+  return roundQuantity(quantity, unit);
+}
@@ -0,0 +1,158 @@
+/**
+ * Recipe Search Utilities
+ *
+ * Helpers for the recipes full-text search index. Each recipe stores a
+ * denormalized `searchText` (title, ingredient names, cuisine, notes, and
+ * dietary tags) and `totalTime` so search results can be ranked, filtered,
+ * and paginated by Convex instead of in memory.
+ */
+
+/**
+ * Recipe fields that feed the search index
+ */
+export interface SearchableRecipeFields {
+  title: string;
+  ingredients: { name: string }[];
+  cuisineType?: string;
+  notes?: string;
+  dietaryTags: string[];
+  prepTime: number;
+  cookTime: number;
+}
+
+/**
+ * Filters that can be combined with a search
+ */
+export interface RecipeSearchFilters {
+  source?: string;
+  cuisineType?: string;
+  difficulty?: string;
+  dietaryTags?: string[];
+  maxTotalTime?: number;
+}
+
+/**
+ * Cursor prefix for the second phase of the calories sort
+ *
+ * Recipes without nutrition are listed after all recipes with calories,
+ * so that sort paginates the two groups one after the other.
+ */
+export const MISSING_CALORIES_CURSOR_PREFIX = "nocal:";
+
+/**
+ * Build the text indexed for full-text search
+ *
+ * The title comes first so title matches rank ahead of matches in
+ * ingredients or notes.
+ *
+ * @param recipe - Recipe fields
+ * @returns Search text
+ */
+export function buildRecipeSearchText(recipe: SearchableRecipeFields): string {
+  return [
+    recipe.title,
+    ...recipe.ingredients.map((ingredient) => ingredient.name),
+    recipe.cuisineType ?? "",
+    ...recipe.dietaryTags,
+    recipe.notes ?? "",
+  ]
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .join(" ");
+}
+
+/**
+ * Compute the denormalized search fields stored on a recipe
+ *
+ * Call this whenever a recipe is inserted or any of its searchable
+ * fields change.
+ *
+ * @param recipe - Recipe fields
+ * @returns Fields to write alongside the recipe
+ */
+export function getRecipeSearchFields(recipe: SearchableRecipeFields): {
+  searchText: string;
+  totalTime: number;
+} {
+  return {
+    searchText: buildRecipeSearchText(recipe),
+    totalTime: recipe.prepTime + recipe.cookTime,
+  };
+}
+
+/**
+ * Add the denormalized search fields to a recipe document
+ *
+ * @param recipe - Recipe document being inserted or patched
+ * @returns The recipe with searchText and totalTime set
+ */
+export function withSearchFields<T extends SearchableRecipeFields>(
+  recipe: T
+): T & { searchText: string; totalTime: number } {
+  return { ...recipe, ...getRecipeSearchFields(recipe) };
+}
+
+/**
+ * Normalize a search query (trims and collapses whitespace)
+ *
+ * @param query - Raw search input
+ * @returns Normalized query, or undefined if empty
+ */
+export function normalizeSearchQuery(query: string | undefined): string | undefined {
+  const normalized = query?.replace(/\s+/g, " ").trim();
+  return normalized ? normalized : undefined;
+}
+
+/**
+ * Check if a recipe has every requested dietary tag (case-insensitive)
+ *
+ * Array fields can't be filtered by the database, so this is applied to
+ * each page of results.
+ *
+ * @param recipeTags - Tags on the recipe
+ * @param requiredTags - Tags selected in the filter
+ * @returns True if all required tags are present
+ */
+export function hasAllDietaryTags(
+  recipeTags: string[],
+  requiredTags: string[] | undefined
+): boolean {
+  if (!requiredTags || requiredTags.length === 0) return true;
+
+  const tags = new Set(recipeTags.map((tag) => tag.toLowerCase()));
+  return requiredTags.every((tag) => tags.has(tag.toLowerCase()));
+}
+
+/**
+ * Check if a recipe matches all filters
+ *
+ * @param recipe - Recipe to check
+ * @param filters - Selected filters
+ * @returns True if the recipe passes every filter
+ */
+export function matchesRecipeFilters(
+  recipe: {
+    source: string;
+    cuisineType?: string;
+    difficulty?: string;
+    dietaryTags: string[];
+    prepTime: number;
+    cookTime: number;
+  },
+  filters: RecipeSearchFilters
+): boolean {
+  if (filters.source && recipe.source !== filters.source) return false;
+  if (filters.cuisineType && recipe.cuisineType !== filters.cuisineType) {
+    return false;
+  }
+  if (filters.difficulty && recipe.difficulty !== filters.difficulty) {
+    return false;
+  }
+  if (
+    filters.maxTotalTime !== undefined &&
+    recipe.prepTime + recipe.cookTime > filters.maxTotalTime
+  ) {
+    return false;
+  }
+  return hasAllDietaryTags(recipe.dietaryTags, filters.dietaryTags);
+}
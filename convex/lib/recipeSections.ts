@@ -0,0 +1,239 @@
+/**
+ * Recipe Section Utilities
+ *
+ * Multi-component recipes group their ingredients and steps under named
+ * sections ("For the sauce", "For the dough"). Ingredients carry their
+ * section title on each item; steps stay a flat string array and the
+ * recipe's instructionSections mark where each titled run of steps
+ * starts. Ingredients and steps without a section come first, untitled.
+ *
+ * All functions are pure.
+ */
+
+/**
+ * A titled run of steps, starting at instructions[startIndex]
+ */
+export interface InstructionSection {
+  title: string;
+  startIndex: number;
+}
+
+/**
+ * Consecutive items sharing a section title
+ */
+export interface SectionGroup<T> {
+  /** Section title, or null for items outside any section */
+  title: string | null;
+  /** Items with their index in the flat list */
+  items: { item: T; index: number }[];
+}
+
+/**
+ * Longest line treated as a section heading
+ */
+const MAX_HEADING_LENGTH = 60;
+
+/**
+ * Group a flat list into runs of consecutive items with the same section
+ *
+ * @param items - Flat list
+ * @param getSection - Section title of an item (undefined for none); an
+ *   empty title still starts a group so editors can show a blank heading
+ * @returns Groups in list order
+ */
+export function groupBySection<T>(
+  items: T[],
+  getSection: (item: T, index: number) => string | undefined
+): SectionGroup<T>[] {
+  const groups: SectionGroup<T>[] = [];
+
+  items.forEach((item, index) => {
+    const title = getSection(item, index) ?? null;
+    const last = groups[groups.length - 1];
+    if (last && last.title === title) {
+      last.items.push({ item, index });
+    } else {
+      groups.push({ title, items: [{ item, index }] });
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Group ingredients by their section field
+ */
+export function groupIngredientsBySection<T extends { section?: string }>(
+  ingredients: T[]
+): SectionGroup<T>[] {
+  return groupBySection(ingredients, (ingredient) => ingredient.section);
+}
+
+/**
+ * Clean up instruction sections for a list of steps
+ *
+ * Sorts by start, drops untitled and out-of-range sections, and keeps the
+ * last section when two start at the same step (the earlier one is empty).
+ *
+ * @param sections - Sections from the database, an editor, or an extractor
+ * @param stepCount - Number of steps
+ * @returns Valid sections in step order
+ */
+export function normalizeInstructionSections(
+  sections: InstructionSection[] | undefined,
+  stepCount: number
+): InstructionSection[] {
+  const byStart = new Map<number, string>();
+
+  for (const section of sections ?? []) {
+    const title = section.title.trim();
+    const start = Math.floor(section.startIndex);
+    if (title && start >= 0 && start < stepCount) {
+      byStart.set(start, title);
+    }
+  }
+
+  return [...byStart.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([startIndex, title]) => ({ title, startIndex }));
+}
+
+/**
+ * Section title of each step
+ *
+ * @param sections - Recipe's instruction sections
+ * @param stepCount - Number of steps
+ * @returns Title per step, undefined for steps before the first section
+ */
+export function getStepSections(
+  sections: InstructionSection[] | undefined,
+  stepCount: number
+): (string | undefined)[] {
+  const starts = normalizeInstructionSections(sections, stepCount);
+  const result: (string | undefined)[] = [];
+
+  let current: string | undefined;
+  for (let index = 0; index < stepCount; index++) {
+    const start = starts.find((section) => section.startIndex === index);
+    if (start) {
+      current = start.title;
+    }
+    result.push(current);
+  }
+
+  return result;
+}
+
+/**
+ * Build instruction sections from a title per step
+ *
+ * The inverse of getStepSections; a new section starts wherever the
+ * title changes.
+ *
+ * @param stepSections - Title per step (undefined for none)
+ * @returns Instruction sections
+ */
+export function toInstructionSections(
+  stepSections: (string | undefined)[]
+): InstructionSection[] {
+  return groupBySection(stepSections, (title) => title?.trim() || undefined)
+    .filter((group) => group.title !== null)
+    .map((group) => ({ title: group.title as string, startIndex: group.items[0].index }));
+}
+
+/**
+ * Group steps into their sections
+ *
+ * @param instructions - Flat steps
+ * @param sections - Recipe's instruction sections
+ * @returns Groups in step order; item indexes are overall step indexes
+ */
+export function groupInstructionsBySection(
+  instructions: string[],
+  sections: InstructionSection[] | undefined
+): SectionGroup<string>[] {
+  const stepSections = getStepSections(sections, instructions.length);
+  return groupBySection(instructions, (_step, index) => stepSections[index]);
+}
+
+/**
+ * Update sections after a step is removed
+ *
+ * Later sections move up one step; a section left with no steps is dropped.
+ *
+ * @param sections - Sections before the removal
+ * @param removedIndex - Index of the removed step
+ * @param stepCount - Number of steps after the removal
+ * @returns Updated sections
+ */
+export function removeStepFromSections(
+  sections: InstructionSection[] | undefined,
+  removedIndex: number,
+  stepCount: number
+): InstructionSection[] {
+  return normalizeInstructionSections(
+    (sections ?? []).map((section) => ({
+      ...section,
+      startIndex: section.startIndex > removedIndex ? section.startIndex - 1 : section.startIndex,
+    })),
+    stepCount
+  );
+}
+
+/**
+ * Read instruction sections from an AI extraction response
+ *
+ * Extraction prompts ask for [{ "title": "...", "startStep": 1 }] with
+ * 1-based step numbers, which is what models get right most often.
+ *
+ * @param value - instructionSections field of the response
+ * @param stepCount - Number of extracted steps
+ * @returns Valid sections in step order
+ */
+export function parseExtractedInstructionSections(
+  value: unknown,
+  stepCount: number
+): InstructionSection[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const sections: InstructionSection[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") continue;
+    const { title, startStep } = item as Record<string, unknown>;
+    if (typeof title === "string" && typeof startStep === "number") {
+      sections.push({ title, startIndex: startStep - 1 });
+    }
+  }
+
+  return normalizeInstructionSections(sections, stepCount);
+}
+
+/**
+ * Detect a section heading mixed into an ingredient or step list
+ *
+ * Many sites list "For the sauce:" or "FROSTING" as an ingredient line.
+ * A heading ends with a colon, or starts with "For the", or is a short
+ * all-caps line, and never starts with a quantity.
+ *
+ * @param line - Ingredient or step text
+ * @returns Heading title without the colon, or null
+ */
+export function parseSectionHeading(line: string): string | null {
+  const text = line.trim();
+  if (!text || text.length > MAX_HEADING_LENGTH || /^[\d½⅓⅔¼¾⅛]/.test(text)) {
+    return null;
+  }
+
+  const title = text.replace(/:\s*$/, "").trim();
+  if (!title) {
+    return null;
+  }
+
+  const endsWithColon = text.endsWith(":");
+  const startsWithFor = /^for (the|a|an)\b/i.test(title) && !/[.,;]/.test(title);
+  const isAllCaps = /[A-Z]/.test(title) && title === title.toUpperCase() && title.split(/\s+/).length <= 4;
+
+  return endsWithColon || startsWithFor || isAllCaps ? title : null;
+}
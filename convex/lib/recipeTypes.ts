@@ -4,6 +4,9 @@
  * Shared type definitions for recipe extraction and import functionality.
  */
 
+import type { PackageSize } from "./aiRecipeTransform";
+import type { InstructionSection } from "./recipeSections";
+
 /**
  * Confidence level for extracted fields
  */
@@ -28,13 +31,8 @@ export type IngredientCategory =
 export interface RawIngredient {
   /** Original raw ingredient string from the source */
   raw: string;
-  /** Parsed ingredient data (if available from structured data) */
-  parsed: {
-    name: string;
-    quantity: number;
-    unit: string;
-    category: IngredientCategory;
-  } | null;
+  /** Parsed ingredient data (from the ingredient parser or AI extraction) */
+  parsed: ParsedIngredient | null;
 }
 
 /**
@@ -45,6 +43,13 @@ export interface ParsedIngredient {
   quantity: number;
   unit: string;
   category: IngredientCategory;
+  quantityMax?: number;
+  packageSize?: PackageSize;
+  preparation?: string;
+  note?: string;
+  optional?: boolean;
+  /** Section title, e.g. "For the sauce" */
+  section?: string;
 }
 
 /**
@@ -59,6 +64,8 @@ export interface ExtractedRecipeData {
   ingredients: RawIngredient[];
   /** Instruction steps */
   instructions: string[];
+  /** Where titled groups of steps start */
+  instructionSections?: InstructionSection[];
   /** Number of servings */
   servings: number;
   /** Prep time in minutes */
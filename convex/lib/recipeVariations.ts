@@ -0,0 +1,32 @@
+/**
+ * Recipe Variation Utilities
+ *
+ * Helpers for recipe variations: copies of a recipe that keep a link to
+ * the recipe they were forked from (parentRecipeId), so the parent can
+ * list them and each variation can show what it changed.
+ */
+
+/**
+ * Title given to a new variation
+ *
+ * Uses "(Variation)" and numbers it when the user already has a recipe
+ * with that title.
+ *
+ * @param parentTitle - Title of the recipe being forked
+ * @param existingTitles - Titles of the user's recipes
+ * @returns e.g. "Tomato Soup (Variation 2)"
+ */
+export function getVariationTitle(parentTitle: string, existingTitles: string[]): string {
+  const taken = new Set(existingTitles.map((title) => title.trim().toLowerCase()));
+  const base = `${parentTitle.trim()} (Variation`;
+
+  if (!taken.has(`${base})`.toLowerCase())) {
+    return `${base})`;
+  }
+
+  let n = 2;
+  while (taken.has(`${base} ${n})`.toLowerCase())) {
+    n++;
+  }
+  return `${base} ${n})`;
+}
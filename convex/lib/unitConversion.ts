@@ -2,17 +2,58 @@
  * Unit Conversion Utility
  *
  * Converts between compatible units for ingredient aggregation.
- * Supports weight (oz, lbs) and volume (tsp, tbsp, cup) conversions.
+ * Supports US customary and metric weight (oz, lb, g, kg) and
+ * volume (tsp, tbsp, cup, fl oz, pint, quart, gallon, ml, dl, l) conversions,
+ * with output in the user's preferred unit system.
  */
 
+/**
+ * Unit system preference for displaying and combining quantities
+ */
+export type UnitSystem = "metric" | "imperial";
+
 /**
  * Unit groups for determining compatibility
  */
 const UNIT_GROUPS: Record<string, string[]> = {
-  weight: ["oz", "ounce", "ounces", "lb", "lbs", "pound", "pounds"],
-  volume: ["tsp", "teaspoon", "teaspoons", "tbsp", "tablespoon", "tablespoons", "cup", "cups"],
+  weight: [
+    "oz", "ounce", "ounces",
+    "lb", "lbs", "pound", "pounds",
+    "g", "gram", "grams", "gramme", "grammes",
+    "kg", "kgs", "kilogram", "kilograms", "kilogramme", "kilogrammes",
+  ],
+  volume: [
+    "tsp", "teaspoon", "teaspoons",
+    "tbsp", "tablespoon", "tablespoons",
+    "cup", "cups",
+    "fl oz", "floz", "fluid ounce", "fluid ounces",
+    "pt", "pint", "pints",
+    "qt", "quart", "quarts",
+    "gal", "gallon", "gallons",
+    "ml", "milliliter", "milliliters", "millilitre", "millilitres",
+    "dl", "deciliter", "deciliters", "decilitre", "decilitres",
+    "l", "liter", "liters", "litre", "litres",
+  ],
 };
 
+/**
+ * Units that belong to the metric system
+ * All other units in UNIT_GROUPS are US customary (imperial)
+ */
+const METRIC_UNITS = new Set<string>([
+  "g", "gram", "grams", "gramme", "grammes",
+  "kg", "kgs", "kilogram", "kilograms", "kilogramme", "kilogrammes",
+  "ml", "milliliter", "milliliters", "millilitre", "millilitres",
+  "dl", "deciliter", "deciliters", "decilitre", "decilitres",
+  "l", "liter", "liters", "litre", "litres",
+]);
+
+/**
+ * Grams per ounce and milliliters per teaspoon (US)
+ */
+const GRAMS_PER_OZ = 28.349523125;
+const ML_PER_TSP = 4.92892159375;
+
 /**
  * Conversion factors to base unit within each group
  * Weight: base unit is oz
@@ -27,6 +68,17 @@ const TO_BASE_UNIT: Record<string, number> = {
   lbs: 16,
   pound: 16,
   pounds: 16,
+  g: 1 / GRAMS_PER_OZ,
+  gram: 1 / GRAMS_PER_OZ,
+  grams: 1 / GRAMS_PER_OZ,
+  gramme: 1 / GRAMS_PER_OZ,
+  grammes: 1 / GRAMS_PER_OZ,
+  kg: 1000 / GRAMS_PER_OZ,
+  kgs: 1000 / GRAMS_PER_OZ,
+  kilogram: 1000 / GRAMS_PER_OZ,
+  kilograms: 1000 / GRAMS_PER_OZ,
+  kilogramme: 1000 / GRAMS_PER_OZ,
+  kilogrammes: 1000 / GRAMS_PER_OZ,
 
   // Volume (base: tsp)
   tsp: 1,
@@ -37,32 +89,75 @@ const TO_BASE_UNIT: Record<string, number> = {
   tablespoons: 3,
   cup: 48, // 16 tbsp * 3 tsp = 48 tsp
   cups: 48,
+  "fl oz": 6, // 2 tbsp
+  floz: 6,
+  "fluid ounce": 6,
+  "fluid ounces": 6,
+  pt: 96, // 2 cups
+  pint: 96,
+  pints: 96,
+  qt: 192, // 4 cups
+  quart: 192,
+  quarts: 192,
+  gal: 768, // 16 cups
+  gallon: 768,
+  gallons: 768,
+  ml: 1 / ML_PER_TSP,
+  milliliter: 1 / ML_PER_TSP,
+  milliliters: 1 / ML_PER_TSP,
+  millilitre: 1 / ML_PER_TSP,
+  millilitres: 1 / ML_PER_TSP,
+  dl: 100 / ML_PER_TSP,
+  deciliter: 100 / ML_PER_TSP,
+  deciliters: 100 / ML_PER_TSP,
+  decilitre: 100 / ML_PER_TSP,
+  decilitres: 100 / ML_PER_TSP,
+  l: 1000 / ML_PER_TSP,
+  liter: 1000 / ML_PER_TSP,
+  liters: 1000 / ML_PER_TSP,
+  litre: 1000 / ML_PER_TSP,
+  litres: 1000 / ML_PER_TSP,
 };
 
 /**
- * Preferred units for each group (used when combining)
- * Order: smallest to largest
+ * Preferred units for each system and group (used when combining)
+ * Thresholds are in base units; order: smallest to largest
  */
-const PREFERRED_UNITS: Record<string, { unit: string; threshold: number }[]> = {
-  weight: [
-    { unit: "oz", threshold: 0 },
-    { unit: "lbs", threshold: 16 }, // 16 oz = 1 lb
-  ],
-  volume: [
-    { unit: "tsp", threshold: 0 },
-    { unit: "tbsp", threshold: 3 },  // 3 tsp = 1 tbsp
-    { unit: "cups", threshold: 48 }, // 48 tsp = 1 cup
-  ],
+const PREFERRED_UNITS: Record<
+  UnitSystem,
+  Record<string, { unit: string; threshold: number }[]>
+> = {
+  imperial: {
+    weight: [
+      { unit: "oz", threshold: 0 },
+      { unit: "lbs", threshold: 16 }, // 16 oz = 1 lb
+    ],
+    volume: [
+      { unit: "tsp", threshold: 0 },
+      { unit: "tbsp", threshold: 3 },  // 3 tsp = 1 tbsp
+      { unit: "cups", threshold: 48 }, // 48 tsp = 1 cup
+    ],
+  },
+  metric: {
+    weight: [
+      { unit: "g", threshold: 0 },
+      { unit: "kg", threshold: TO_BASE_UNIT.kg }, // 1000 g = 1 kg
+    ],
+    volume: [
+      { unit: "ml", threshold: 0 },
+      { unit: "l", threshold: TO_BASE_UNIT.l }, // 1000 ml = 1 l
+    ],
+  },
 };
 
 /**
- * Normalize unit name to lowercase without 's' suffix variations
+ * Normalize unit name to lowercase without periods or extra whitespace
  *
  * @param unit - The unit to normalize
  * @returns Normalized unit string
  */
 export function normalizeUnit(unit: string): string {
-  return unit.toLowerCase().trim();
+  return unit.toLowerCase().replace(/\./g, "").replace(/\s+/g, " ").trim();
 }
 
 /**
@@ -83,6 +178,20 @@ export function getUnitGroup(unit: string): string | null {
   return null;
 }
 
+/**
+ * Get the unit system (metric or imperial) for a given unit
+ *
+ * @param unit - The unit to check
+ * @returns The unit system, or null for count and unknown units
+ */
+export function getUnitSystem(unit: string): UnitSystem | null {
+  if (!getUnitGroup(unit)) {
+    return null;
+  }
+
+  return METRIC_UNITS.has(normalizeUnit(unit)) ? "metric" : "imperial";
+}
+
 /**
  * Check if two units are compatible (can be converted)
  *
@@ -144,13 +253,15 @@ export function convertUnit(
  *
  * @param baseQuantity - The quantity in base units (oz for weight, tsp for volume)
  * @param group - The unit group
+ * @param system - The unit system to express the result in (default: imperial)
  * @returns Object with unit and converted quantity
  */
 export function chooseBestUnit(
   baseQuantity: number,
-  group: string
+  group: string,
+  system: UnitSystem = "imperial"
 ): { unit: string; quantity: number } {
-  const preferences = PREFERRED_UNITS[group];
+  const preferences = PREFERRED_UNITS[system][group];
 
   if (!preferences) {
     return { unit: group === "weight" ? "oz" : "tsp", quantity: baseQuantity };
@@ -179,13 +290,15 @@ export function chooseBestUnit(
  * @param unit1 - First unit
  * @param qty2 - Second quantity
  * @param unit2 - Second unit
+ * @param system - Output unit system (defaults to the system of unit1)
  * @returns Combined quantity and unit, or null if not compatible
  */
 export function combineQuantities(
   qty1: number,
   unit1: string,
   qty2: number,
-  unit2: string
+  unit2: string,
+  system?: UnitSystem
 ): { quantity: number; unit: string } | null {
   const group = getUnitGroup(unit1);
 
@@ -204,9 +317,95 @@ export function combineQuantities(
   const totalBase = qty1 * factor1 + qty2 * factor2;
 
   // Choose the best unit for the combined quantity
-  return chooseBestUnit(totalBase, group);
+  return chooseBestUnit(totalBase, group, system ?? getUnitSystem(unit1) ?? "imperial");
 }
 
+/**
+ * Express a quantity in the preferred unit system
+ *
+ * Quantities already in the preferred system, and count or unknown
+ * units, are returned unchanged.
+ *
+ * @param quantity - The quantity to convert
+ * @param unit - The current unit
+ * @param system - The preferred unit system
+ * @returns Quantity and unit in the preferred system
+ */
+export function convertToSystem(
+  quantity: number,
+  unit: string,
+  system: UnitSystem
+): { quantity: number; unit: string } {
+  const group = getUnitGroup(unit);
+  const currentSystem = getUnitSystem(unit);
+
+  if (!group || !currentSystem || currentSystem === system) {
+    return { quantity, unit };
+  }
+
+  const factor = TO_BASE_UNIT[normalizeUnit(unit)];
+  if (factor === undefined) {
+    return { quantity, unit };
+  }
+
+  return chooseBestUnit(quantity * factor, group, system);
+}
+
+/**
+ * Units counted rather than measured (not convertible)
+ */
+const COUNT_UNITS = [
+  "piece",
+  "pieces",
+  "clove",
+  "cloves",
+  "head",
+  "heads",
+  "bunch",
+  "bunches",
+  "sprig",
+  "sprigs",
+  "slice",
+  "slices",
+  "whole",
+  "large",
+  "medium",
+  "small",
+  "can",
+  "cans",
+  "bottle",
+  "bottles",
+  "package",
+  "packages",
+  "pkg",
+  "box",
+  "boxes",
+  "bag",
+  "bags",
+  "container",
+  "containers",
+  "jar",
+  "jars",
+  "stick",
+  "sticks",
+  "strip",
+  "strips",
+  "fillet",
+  "fillets",
+  "breast",
+  "breasts",
+  "thigh",
+  "thighs",
+  "leaf",
+  "leaves",
+  "item",
+  "items",
+  "each",
+  "pinch",
+  "dash",
+  "",
+];
+
 /**
  * Check if a unit is a count unit (not convertible)
  *
@@ -215,57 +414,19 @@ export function combineQuantities(
  */
 export function isCountUnit(unit: string): boolean {
   const normalized = normalizeUnit(unit);
-  const countUnits = [
-    "piece",
-    "pieces",
-    "clove",
-    "cloves",
-    "head",
-    "heads",
-    "bunch",
-    "bunches",
-    "sprig",
-    "sprigs",
-    "slice",
-    "slices",
-    "whole",
-    "large",
-    "medium",
-    "small",
-    "can",
-    "cans",
-    "bottle",
-    "bottles",
-    "package",
-    "packages",
-    "pkg",
-    "box",
-    "boxes",
-    "bag",
-    "bags",
-    "container",
-    "containers",
-    "jar",
-    "jars",
-    "stick",
-    "sticks",
-    "strip",
-    "strips",
-    "fillet",
-    "fillets",
-    "breast",
-    "breasts",
-    "thigh",
-    "thighs",
-    "leaf",
-    "leaves",
-    "item",
-    "items",
-    "each",
-    "pinch",
-    "dash",
-    "",
-  ];
-
-  return countUnits.includes(normalized) || !getUnitGroup(unit);
+
+  return COUNT_UNITS.includes(normalized) || !getUnitGroup(unit);
+}
+
+/**
+ * Check if a word is a unit the app knows about
+ *
+ * Unlike isCountUnit, unknown words are not treated as units.
+ *
+ * @param unit - The unit to check
+ * @returns True for measured units (tbsp, g) and count units (can, clove)
+ */
+export function isKnownUnit(unit: string): boolean {
+  const normalized = normalizeUnit(unit);
+  return normalized !== "" && (COUNT_UNITS.includes(normalized) || getUnitGroup(normalized) !== null);
 }
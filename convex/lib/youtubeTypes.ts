@@ -4,6 +4,8 @@
  * Shared type definitions for YouTube API integration and recipe extraction.
  */
 
+import type { InstructionSection } from "./recipeSections";
+
 /**
  * Confidence level for extracted recipe fields
  */
@@ -58,8 +60,14 @@ export interface YouTubeExtractedRecipe {
     quantity: number;
     unit: string;
     category: "meat" | "produce" | "dairy" | "pantry" | "spices" | "condiments" | "bread" | "other";
+    packageSize?: { quantity: number; unit: string };
+    preparation?: string;
+    note?: string;
+    optional?: boolean;
+    section?: string;
   }[];
   instructions: string[];
+  instructionSections?: InstructionSection[];
   prepTime: number;
   cookTime: number;
   servings: number;
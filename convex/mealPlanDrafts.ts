@@ -0,0 +1,447 @@
+/**
+ * Meal Plan Draft Queries and Mutations
+ *
+ * "Plan my week": generates a draft that fills empty breakfast, lunch,
+ * and dinner slots from the user's library. The draft can be re-rolled
+ * per slot, pinned, regenerated, accepted into plannedMeals, or discarded.
+ */
+
+import { v } from "convex/values";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  DEFAULT_VARIETY_DAYS,
+  GENERATED_MEAL_SLOTS,
+  GeneratedMealSlot,
+  generateWeekPlan,
+  getWeekDays,
+  pickRecipeForSlot,
+  PlanCandidate,
+  PlanEntry,
+  PlanGeneratorOptions,
+} from "./lib/mealPlanGenerator";
+import { getHouseholdId } from "./households";
+import { getDefaultMealServings, getPlanMeals } from "./mealPlanner";
+
+/**
+ * Generated meal slot validator (snacks are never generated)
+ */
+const generatedMealSlot = v.union(
+  v.literal("breakfast"),
+  v.literal("lunch"),
+  v.literal("dinner")
+);
+
+type DraftMeal = Doc<"mealPlanDrafts">["meals"][number];
+
+/**
+ * Load everything the generator needs for a week
+ *
+ * Planned meals in the week, and in the variety window before and after
+ * it, are returned as fixed entries.
+ */
+async function loadPlanContext(
+  ctx: MutationCtx,
+  userId: string,
+  weekStart: string,
+  varietyDays: number
+) {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+    .unique();
+
+  const recipes = await ctx.db
+    .query("recipes")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  const weekDays = getWeekDays(weekStart);
+  const windowStart = shiftDay(weekDays[0], -varietyDays);
+  const windowEnd = shiftDay(weekDays[6], varietyDays);
+
+  const plannedMeals = (await getPlanMeals(ctx, userId)).filter(
+    (meal) => meal.day >= windowStart && meal.day <= windowEnd
+  );
+
+  const recipesById = new Map(recipes.map((recipe) => [recipe._id as string, recipe]));
+
+  const candidates: PlanCandidate[] = recipes.map((recipe) => ({
+    recipeId: recipe._id,
+    title: recipe.title,
+    cuisineType: recipe.cuisineType,
+    totalTime: recipe.prepTime + recipe.cookTime,
+    dietaryTags: recipe.dietaryTags,
+  }));
+
+  const planned: PlanEntry[] = plannedMeals.map((meal) => ({
+    day: meal.day,
+    slot: meal.slot,
+    recipeId: meal.recipeId,
+    cuisineType: recipesById.get(meal.recipeId)?.cuisineType,
+  }));
+
+  return {
+    weekDays,
+    candidates,
+    planned,
+    recipesById,
+    dietaryRestrictions: user?.dietaryRestrictions ?? [],
+  };
+}
+
+/**
+ * Offset a YYYY-MM-DD date by a number of days
+ */
+function shiftDay(day: string, offset: number): string {
+  const date = new Date(day + "T12:00:00");
+  date.setDate(date.getDate() + offset);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Build a draft meal from a recipe
+ */
+function toDraftMeal(
+  recipe: Doc<"recipes">,
+  day: string,
+  slot: GeneratedMealSlot,
+  pinned = false
+): DraftMeal {
+  return {
+    day,
+    slot,
+    recipeId: recipe._id,
+    recipeName: recipe.title,
+    recipeImage: recipe.imageUrl,
+    prepTime: `${recipe.prepTime + recipe.cookTime} min`,
+    cuisineType: recipe.cuisineType,
+    pinned,
+  };
+}
+
+/**
+ * Get a draft and verify ownership
+ */
+async function getOwnedDraft(
+  ctx: MutationCtx,
+  draftId: Id<"mealPlanDrafts">,
+  userId: string
+): Promise<Doc<"mealPlanDrafts">> {
+  const draft = await ctx.db.get(draftId);
+
+  if (!draft) {
+    throw new Error("Meal plan draft not found");
+  }
+
+  if (draft.userId !== userId) {
+    throw new Error("You do not have permission to modify this draft");
+  }
+
+  return draft;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get the draft plan for a week, if any
+ */
+export const getMealPlanDraft = query({
+  args: {
+    weekStart: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    return await ctx.db
+      .query("mealPlanDrafts")
+      .withIndex("by_user_week", (q) =>
+        q.eq("userId", identity.subject).eq("weekStart", args.weekStart)
+      )
+      .unique();
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Generate (or regenerate) a draft plan for a week
+ *
+ * Fills empty slots only; meals already planned are kept. When a draft
+ * for the week exists, its pinned meals are kept and the rest re-rolled.
+ */
+export const generateMealPlanDraft = mutation({
+  args: {
+    weekStart: v.string(),
+    slots: v.optional(v.array(generatedMealSlot)),
+    maxWeeknightTime: v.optional(v.number()),
+    varietyDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const slots = args.slots ?? GENERATED_MEAL_SLOTS;
+    const varietyDays = args.varietyDays ?? DEFAULT_VARIETY_DAYS;
+
+    if (slots.length === 0) {
+      throw new Error("Select at least one meal to plan");
+    }
+    if (varietyDays < 0) {
+      throw new Error("Variety days cannot be negative");
+    }
+
+    const { weekDays, candidates, planned, recipesById, dietaryRestrictions } =
+      await loadPlanContext(ctx, userId, args.weekStart, varietyDays);
+
+    if (candidates.length === 0) {
+      throw new Error("Add some recipes before planning your week");
+    }
+
+    const existingDraft = await ctx.db
+      .query("mealPlanDrafts")
+      .withIndex("by_user_week", (q) =>
+        q.eq("userId", userId).eq("weekStart", args.weekStart)
+      )
+      .unique();
+
+    // Keep pinned meals whose slot is still empty and recipe still exists
+    const pinned = (existingDraft?.meals ?? []).filter(
+      (meal) =>
+        meal.pinned &&
+        recipesById.has(meal.recipeId) &&
+        !planned.some((entry) => entry.day === meal.day && entry.slot === meal.slot)
+    );
+
+    const options: PlanGeneratorOptions = {
+      dietaryRestrictions,
+      maxWeeknightTime: args.maxWeeknightTime,
+      varietyDays,
+    };
+
+    const { meals, unfilled } = generateWeekPlan(
+      weekDays,
+      slots,
+      candidates,
+      [...planned, ...pinned],
+      options,
+      Math.random
+    );
+
+    const draftMeals: DraftMeal[] = [
+      ...pinned,
+      ...meals.map((meal) =>
+        toDraftMeal(
+          recipesById.get(meal.recipeId)!,
+          meal.day,
+          meal.slot as GeneratedMealSlot
+        )
+      ),
+    ];
+
+    const now = Date.now();
+    const draft = {
+      slots,
+      maxWeeknightTime: args.maxWeeknightTime,
+      varietyDays,
+      meals: draftMeals,
+      unfilled,
+      updatedAt: now,
+    };
+
+    if (existingDraft) {
+      await ctx.db.patch(existingDraft._id, draft);
+      return existingDraft._id;
+    }
+
+    return await ctx.db.insert("mealPlanDrafts", {
+      userId,
+      weekStart: args.weekStart,
+      ...draft,
+      createdAt: now,
+    });
+  },
+});
+
+/**
+ * Re-roll one slot of a draft
+ *
+ * Picks a different recipe that fits the draft's rules, or fills a slot
+ * that was left empty.
+ */
+export const rerollDraftSlot = mutation({
+  args: {
+    draftId: v.id("mealPlanDrafts"),
+    day: v.string(),
+    slot: generatedMealSlot,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const draft = await getOwnedDraft(ctx, args.draftId, userId);
+
+    const { candidates, planned, recipesById, dietaryRestrictions } =
+      await loadPlanContext(ctx, userId, draft.weekStart, draft.varietyDays);
+
+    const current = draft.meals.find(
+      (meal) => meal.day === args.day && meal.slot === args.slot
+    );
+    const others = draft.meals.filter((meal) => meal !== current);
+
+    const recipe = pickRecipeForSlot(
+      candidates,
+      args.day,
+      args.slot,
+      [...planned, ...others],
+      {
+        dietaryRestrictions,
+        maxWeeknightTime: draft.maxWeeknightTime,
+        varietyDays: draft.varietyDays,
+      },
+      Math.random,
+      current?.recipeId
+    );
+
+    if (!recipe) {
+      throw new Error("No recipes fit this slot");
+    }
+
+    const meal = toDraftMeal(
+      recipesById.get(recipe.recipeId)!,
+      args.day,
+      args.slot,
+      current?.pinned ?? false
+    );
+
+    await ctx.db.patch(args.draftId, {
+      meals: [...others, meal],
+      unfilled: draft.unfilled.filter(
+        (entry) => !(entry.day === args.day && entry.slot === args.slot)
+      ),
+      updatedAt: Date.now(),
+    });
+
+    return meal;
+  },
+});
+
+/**
+ * Pin or unpin a draft meal
+ *
+ * Pinned meals are kept when the draft is regenerated.
+ */
+export const toggleDraftMealPin = mutation({
+  args: {
+    draftId: v.id("mealPlanDrafts"),
+    day: v.string(),
+    slot: generatedMealSlot,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const draft = await getOwnedDraft(ctx, args.draftId, identity.subject);
+
+    const meals = draft.meals.map((meal) =>
+      meal.day === args.day && meal.slot === args.slot
+        ? { ...meal, pinned: !meal.pinned }
+        : meal
+    );
+
+    await ctx.db.patch(args.draftId, { meals, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Accept a draft, writing its meals to plannedMeals
+ *
+ * Slots that were filled manually since the draft was generated are
+ * left alone. The draft is deleted.
+ */
+export const acceptMealPlanDraft = mutation({
+  args: {
+    draftId: v.id("mealPlanDrafts"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const draft = await getOwnedDraft(ctx, args.draftId, userId);
+    const now = Date.now();
+
+    const servings = await getDefaultMealServings(ctx, userId);
+    const householdId = (await getHouseholdId(ctx, userId)) ?? undefined;
+
+    let added = 0;
+    let skipped = 0;
+
+    for (const meal of draft.meals) {
+      const existing = await getPlanMeals(ctx, userId, meal.day);
+
+      const recipe = await ctx.db.get(meal.recipeId);
+
+      if (!recipe || existing.some((planned) => planned.slot === meal.slot)) {
+        skipped++;
+        continue;
+      }
+
+      await ctx.db.insert("plannedMeals", {
+        userId,
+        recipeId: meal.recipeId,
+        recipeName: meal.recipeName,
+        recipeImage: meal.recipeImage,
+        prepTime: meal.prepTime,
+        day: meal.day,
+        slot: meal.slot,
+        servings: servings ?? recipe.servings,
+        householdId,
+        createdAt: now,
+        updatedAt: now,
+      });
+      added++;
+    }
+
+    await ctx.db.delete(args.draftId);
+
+    return { added, skipped };
+  },
+});
+
+/**
+ * Discard a draft without changing the meal plan
+ */
+export const discardMealPlanDraft = mutation({
+  args: {
+    draftId: v.id("mealPlanDrafts"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    await getOwnedDraft(ctx, args.draftId, identity.subject);
+    await ctx.db.delete(args.draftId);
+
+    return { success: true };
+  },
+});
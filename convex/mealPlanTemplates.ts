@@ -0,0 +1,425 @@
+/**
+ * Meal Plan Template Queries and Mutations
+ *
+ * Save a week of planned meals as a named template, apply it to any week
+ * (overwriting or merging with what's planned), and optionally have it
+ * re-apply itself every N weeks. Recipes deleted since the template was
+ * saved are skipped and reported.
+ */
+
+import { v } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { canAccessRecipe, getHouseholdId } from "./households";
+import { deletePlannedMeal, getDefaultMealServings, getPlanMeals } from "./mealPlanner";
+import {
+  addDays,
+  buildTemplateMeals,
+  getNextRecurrenceWeek,
+  getWeekStartDay,
+  planTemplateApplication,
+  TemplateApplyMode,
+} from "./lib/mealPlanTemplates";
+
+type MealSlot = Doc<"plannedMeals">["slot"];
+
+/**
+ * Template apply mode validator
+ */
+const templateApplyMode = v.union(v.literal("overwrite"), v.literal("merge"));
+
+/**
+ * Recurring templates processed per cron batch
+ */
+const RECURRENCE_BATCH_SIZE = 50;
+
+/**
+ * Get a template and verify ownership
+ */
+async function getOwnedTemplate(
+  ctx: MutationCtx,
+  templateId: Id<"mealPlanTemplates">,
+  userId: string
+): Promise<Doc<"mealPlanTemplates">> {
+  const template = await ctx.db.get(templateId);
+
+  if (!template) {
+    throw new Error("Template not found");
+  }
+
+  if (template.userId !== userId) {
+    throw new Error("You do not have permission to modify this template");
+  }
+
+  return template;
+}
+
+/**
+ * Apply a template to a week and record the result on the template
+ */
+async function applyTemplateToWeek(
+  ctx: MutationCtx,
+  template: Doc<"mealPlanTemplates">,
+  weekStart: string,
+  mode: TemplateApplyMode
+) {
+  const userId = template.userId;
+  const weekEnd = addDays(weekStart, 6);
+
+  const existingMeals = (await getPlanMeals(ctx, userId)).filter(
+    (meal) => meal.day >= weekStart && meal.day <= weekEnd
+  );
+
+  const recipes = new Map<string, Doc<"recipes">>();
+  for (const meal of template.meals) {
+    const recipe = await ctx.db.get(meal.recipeId);
+    if (recipe && (await canAccessRecipe(ctx, recipe, userId))) {
+      recipes.set(recipe._id, recipe);
+    }
+  }
+
+  const { toRemove, toAdd, missingRecipes, occupiedCount } = planTemplateApplication(
+    template.meals,
+    weekStart,
+    existingMeals,
+    mode,
+    new Set(recipes.keys())
+  );
+
+  for (const mealId of toRemove) {
+    await deletePlannedMeal(ctx, mealId as Id<"plannedMeals">);
+  }
+
+  const now = Date.now();
+  const defaultServings = await getDefaultMealServings(ctx, userId);
+  const householdId = (await getHouseholdId(ctx, userId)) ?? undefined;
+
+  // Meals by slot, so leftovers can be linked to the meal they come from
+  const mealsBySlot = new Map<string, { _id: Id<"plannedMeals">; recipeId: string }>(
+    mode === "merge"
+      ? existingMeals.map((meal) => [`${meal.day}|${meal.slot}`, meal])
+      : []
+  );
+
+  // Cooked meals first, then leftovers
+  const ordered = [
+    ...toAdd.filter((meal) => !meal.leftoverOf),
+    ...toAdd.filter((meal) => meal.leftoverOf),
+  ];
+
+  for (const meal of ordered) {
+    const recipe = recipes.get(meal.recipeId)!;
+    const source = meal.leftoverOf
+      ? mealsBySlot.get(
+          `${addDays(weekStart, meal.leftoverOf.dayOffset)}|${meal.leftoverOf.slot}`
+        )
+      : undefined;
+
+    const mealId = await ctx.db.insert("plannedMeals", {
+      userId,
+      recipeId: recipe._id,
+      recipeName: recipe.title,
+      recipeImage: recipe.imageUrl,
+      prepTime: `${recipe.prepTime + recipe.cookTime} min`,
+      day: meal.day,
+      slot: meal.slot,
+      servings: meal.servings ?? defaultServings ?? recipe.servings,
+      // Leftovers whose original isn't cooked this week are cooked fresh
+      leftoverOfMealId: source?.recipeId === recipe._id ? source._id : undefined,
+      householdId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    mealsBySlot.set(`${meal.day}|${meal.slot}`, { _id: mealId, recipeId: recipe._id });
+  }
+
+  await ctx.db.patch(template._id, {
+    lastApplied: {
+      weekStart,
+      added: toAdd.length,
+      missingRecipes,
+      appliedAt: now,
+    },
+    updatedAt: now,
+  });
+
+  return {
+    added: toAdd.length,
+    removed: toRemove.length,
+    skippedOccupied: occupiedCount,
+    missingRecipes,
+  };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get the authenticated user's templates, sorted by name
+ */
+export const getMealPlanTemplates = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const templates = await ctx.db
+      .query("mealPlanTemplates")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Save a week of planned meals as a template
+ */
+export const createTemplateFromWeek = mutation({
+  args: {
+    name: v.string(),
+    weekStart: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const name = args.name.trim();
+
+    if (!name) {
+      throw new Error("Template name is required");
+    }
+
+    const weekEnd = addDays(args.weekStart, 6);
+    const weekMeals = (await getPlanMeals(ctx, userId)).filter(
+      (meal) => meal.day >= args.weekStart && meal.day <= weekEnd
+    );
+
+    if (weekMeals.length === 0) {
+      throw new Error("This week has no meals to save");
+    }
+
+    const meals = buildTemplateMeals(weekMeals, args.weekStart).map((meal) => ({
+      ...meal,
+      recipeId: meal.recipeId as Id<"recipes">,
+      slot: meal.slot as MealSlot,
+      leftoverOf: meal.leftoverOf && {
+        dayOffset: meal.leftoverOf.dayOffset,
+        slot: meal.leftoverOf.slot as MealSlot,
+      },
+    }));
+
+    const now = Date.now();
+
+    return await ctx.db.insert("mealPlanTemplates", {
+      userId,
+      name,
+      meals,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Rename a template
+ */
+export const renameTemplate = mutation({
+  args: {
+    templateId: v.id("mealPlanTemplates"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    await getOwnedTemplate(ctx, args.templateId, identity.subject);
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Template name is required");
+    }
+
+    await ctx.db.patch(args.templateId, { name, updatedAt: Date.now() });
+
+    return args.templateId;
+  },
+});
+
+/**
+ * Delete a template
+ *
+ * Meals already applied from it stay in the plan.
+ */
+export const deleteTemplate = mutation({
+  args: {
+    templateId: v.id("mealPlanTemplates"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    await getOwnedTemplate(ctx, args.templateId, identity.subject);
+    await ctx.db.delete(args.templateId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Apply a template to a week
+ *
+ * Overwrite removes the week's existing meals first; merge only fills
+ * empty slots. Returns counts plus the names of deleted recipes that
+ * were skipped.
+ */
+export const applyTemplate = mutation({
+  args: {
+    templateId: v.id("mealPlanTemplates"),
+    weekStart: v.string(),
+    mode: templateApplyMode,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const template = await getOwnedTemplate(ctx, args.templateId, identity.subject);
+
+    return await applyTemplateToWeek(ctx, template, args.weekStart, args.mode);
+  },
+});
+
+/**
+ * Set or clear a template's recurrence
+ *
+ * The template is applied automatically to startWeek and every
+ * intervalWeeks weeks after it. Pass null to stop recurring.
+ */
+export const setTemplateRecurrence = mutation({
+  args: {
+    templateId: v.id("mealPlanTemplates"),
+    recurrence: v.union(
+      v.object({
+        intervalWeeks: v.number(),
+        startWeek: v.string(),
+        mode: templateApplyMode,
+      }),
+      v.null()
+    ),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    await getOwnedTemplate(ctx, args.templateId, identity.subject);
+
+    if (args.recurrence === null) {
+      await ctx.db.patch(args.templateId, {
+        recurrence: undefined,
+        nextRecurrenceWeek: undefined,
+        updatedAt: Date.now(),
+      });
+      return args.templateId;
+    }
+
+    const { intervalWeeks } = args.recurrence;
+    if (!Number.isInteger(intervalWeeks) || intervalWeeks < 1) {
+      throw new Error("Recurrence interval must be at least one week");
+    }
+
+    const startWeek = getWeekStartDay(args.recurrence.startWeek);
+    const thisWeek = getWeekStartDay(new Date().toISOString().split("T")[0]);
+
+    await ctx.db.patch(args.templateId, {
+      recurrence: { ...args.recurrence, startWeek },
+      nextRecurrenceWeek: getNextRecurrenceWeek(startWeek, intervalWeeks, thisWeek),
+      updatedAt: Date.now(),
+    });
+
+    return args.templateId;
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Apply recurring templates that are due
+ *
+ * Called daily by cron. Templates due for next week (or earlier) are
+ * applied, so the upcoming week's plan is ready ahead of time. Weeks
+ * missed while the job wasn't running are skipped rather than back-filled.
+ */
+export const applyRecurringTemplates = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const thisWeek = getWeekStartDay(new Date().toISOString().split("T")[0]);
+    const nextWeek = addDays(thisWeek, 7);
+
+    const dueTemplates = await ctx.db
+      .query("mealPlanTemplates")
+      .withIndex("by_next_recurrence", (q) =>
+        q.gte("nextRecurrenceWeek", "").lte("nextRecurrenceWeek", nextWeek)
+      )
+      .take(RECURRENCE_BATCH_SIZE);
+
+    let appliedCount = 0;
+
+    for (const template of dueTemplates) {
+      if (!template.recurrence || !template.nextRecurrenceWeek) continue;
+
+      const { intervalWeeks, startWeek, mode } = template.recurrence;
+      const weekStart =
+        template.nextRecurrenceWeek >= thisWeek
+          ? template.nextRecurrenceWeek
+          : getNextRecurrenceWeek(startWeek, intervalWeeks, thisWeek);
+
+      if (weekStart <= nextWeek) {
+        await applyTemplateToWeek(ctx, template, weekStart, mode);
+        appliedCount++;
+      }
+
+      await ctx.db.patch(template._id, {
+        nextRecurrenceWeek:
+          weekStart <= nextWeek ? addDays(weekStart, intervalWeeks * 7) : weekStart,
+      });
+    }
+
+    if (dueTemplates.length === RECURRENCE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.mealPlanTemplates.applyRecurringTemplates,
+        {}
+      );
+    }
+
+    console.log(`Applied ${appliedCount} recurring meal plan templates`);
+
+    return { appliedCount };
+  },
+});
@@ -3,10 +3,23 @@
  *
  * API functions for managing planned meals in the weekly calendar.
  * All operations enforce authentication and user ownership.
+ * Each meal has a servings count (defaulting to the household size), and
+ * a later slot can be marked as leftovers of an earlier meal.
+ * Members of a household share its plan and can edit any meal in it.
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  canAccessHouseholdDoc,
+  canAccessRecipe,
+  getHouseholdId,
+  getSharedRecipeIds,
+} from "./households";
+import { getWeekDays, inferMealCategory } from "./lib/mealPlanGenerator";
+import { summarizeWeekNutrition } from "./lib/mealNutrition";
+import { hasConflict } from "./lib/offlineSync";
 
 /**
  * Meal slot validator
@@ -18,6 +31,95 @@ const mealSlot = v.union(
   v.literal("snacks")
 );
 
+/**
+ * Slot order within a day
+ */
+const SLOT_ORDER = ["breakfast", "lunch", "dinner", "snacks"];
+
+/**
+ * Get the user's household size, used as the default servings for new meals
+ *
+ * @returns Household size, or undefined to use each recipe's own servings
+ */
+export async function getDefaultMealServings(
+  ctx: MutationCtx,
+  userId: string
+): Promise<number | undefined> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+    .unique();
+
+  return user?.householdSize;
+}
+
+/**
+ * Get the meals in a user's plan
+ *
+ * Household members share the household's plan; anyone else has their
+ * own. A member's personal meals are kept but hidden until they leave.
+ *
+ * @param day - Only return meals on this day (YYYY-MM-DD)
+ */
+export async function getPlanMeals(
+  ctx: QueryCtx,
+  userId: string,
+  day?: string
+): Promise<Doc<"plannedMeals">[]> {
+  const householdId = await getHouseholdId(ctx, userId);
+
+  if (householdId) {
+    return await ctx.db
+      .query("plannedMeals")
+      .withIndex("by_household_day", (q) =>
+        day === undefined
+          ? q.eq("householdId", householdId)
+          : q.eq("householdId", householdId).eq("day", day)
+      )
+      .collect();
+  }
+
+  const meals =
+    day === undefined
+      ? await ctx.db
+          .query("plannedMeals")
+          .withIndex("by_user", (q) => q.eq("userId", userId))
+          .collect()
+      : await ctx.db
+          .query("plannedMeals")
+          .withIndex("by_user_day", (q) => q.eq("userId", userId).eq("day", day))
+          .collect();
+
+  return meals.filter((meal) => !meal.householdId);
+}
+
+/**
+ * Delete a planned meal along with any leftovers eaten from it
+ *
+ * Does nothing if the meal was already deleted.
+ *
+ * @returns Number of meals deleted
+ */
+export async function deletePlannedMeal(
+  ctx: MutationCtx,
+  mealId: Id<"plannedMeals">
+): Promise<number> {
+  const meal = await ctx.db.get(mealId);
+  if (!meal) return 0;
+
+  const leftovers = await ctx.db
+    .query("plannedMeals")
+    .withIndex("by_leftover_of", (q) => q.eq("leftoverOfMealId", mealId))
+    .collect();
+
+  for (const leftover of leftovers) {
+    await ctx.db.delete(leftover._id);
+  }
+  await ctx.db.delete(mealId);
+
+  return 1 + leftovers.length;
+}
+
 // ============================================================================
 // QUERIES
 // ============================================================================
@@ -41,11 +143,8 @@ export const getMealsByWeek = query({
 
     const userId = identity.subject;
 
-    // Fetch all meals for the user
-    const allMeals = await ctx.db
-      .query("plannedMeals")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .collect();
+    // Fetch all meals in the user's plan
+    const allMeals = await getPlanMeals(ctx, userId);
 
     // Filter to date range and sort
     const mealsInRange = allMeals
@@ -56,8 +155,7 @@ export const getMealsByWeek = query({
           return a.day.localeCompare(b.day);
         }
         // Then by slot order
-        const slotOrder = ["breakfast", "lunch", "dinner", "snacks"];
-        return slotOrder.indexOf(a.slot) - slotOrder.indexOf(b.slot);
+        return SLOT_ORDER.indexOf(a.slot) - SLOT_ORDER.indexOf(b.slot);
       });
 
     return mealsInRange;
@@ -82,7 +180,7 @@ export const getMealById = query({
     const userId = identity.subject;
     const meal = await ctx.db.get(args.mealId);
 
-    if (!meal || meal.userId !== userId) {
+    if (!meal || !(await canAccessHouseholdDoc(ctx, meal, userId))) {
       return null;
     }
 
@@ -125,42 +223,19 @@ export const getRecipePickerItems = query({
       .order("desc")
       .collect();
 
+    // Add recipes from cookbooks shared with the user's household
+    const householdId = await getHouseholdId(ctx, userId);
+    if (householdId) {
+      const ownIds = new Set(recipes.map((recipe) => recipe._id));
+      for (const recipeId of await getSharedRecipeIds(ctx, householdId)) {
+        const recipe = ownIds.has(recipeId) ? null : await ctx.db.get(recipeId);
+        if (recipe) recipes.push(recipe);
+      }
+    }
+
     // Transform to picker items
     let pickerItems = recipes.map((recipe) => {
-      // Infer category from recipe title/tags (simple heuristic)
-      let category: "breakfast" | "lunch" | "dinner" | "snacks" = "dinner";
-
-      const title = recipe.title.toLowerCase();
-      const tags = recipe.dietaryTags.map((t) => t.toLowerCase());
-
-      if (
-        title.includes("breakfast") ||
-        title.includes("oat") ||
-        title.includes("pancake") ||
-        title.includes("egg") ||
-        title.includes("toast") ||
-        tags.includes("breakfast")
-      ) {
-        category = "breakfast";
-      } else if (
-        title.includes("salad") ||
-        title.includes("sandwich") ||
-        title.includes("wrap") ||
-        title.includes("bowl") ||
-        tags.includes("lunch")
-      ) {
-        category = "lunch";
-      } else if (
-        title.includes("snack") ||
-        title.includes("cookie") ||
-        title.includes("cake") ||
-        title.includes("dessert") ||
-        title.includes("bite") ||
-        tags.includes("snack") ||
-        tags.includes("dessert")
-      ) {
-        category = "snacks";
-      }
+      const category = inferMealCategory(recipe.title, recipe.dietaryTags);
 
       return {
         id: recipe._id,
@@ -195,6 +270,54 @@ export const getRecipePickerItems = query({
   },
 });
 
+/**
+ * Get nutrition totals for a week of planned meals
+ *
+ * Totals one serving of each planned meal per day and for the week,
+ * alongside the user's daily targets. Meals whose recipe has no nutrition
+ * are listed as missing rather than counted as zero.
+ */
+export const getWeekNutrition = query({
+  args: {
+    weekStart: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const days = getWeekDays(args.weekStart);
+
+    const meals = (await getPlanMeals(ctx, userId)).filter((meal) =>
+      days.includes(meal.day)
+    );
+
+    const nutritionMeals = await Promise.all(
+      meals.map(async (meal) => {
+        const recipe = await ctx.db.get(meal.recipeId);
+        return {
+          _id: meal._id,
+          day: meal.day,
+          recipeName: meal.recipeName,
+          nutrition: recipe?.nutrition,
+        };
+      })
+    );
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+      .unique();
+
+    return {
+      ...summarizeWeekNutrition(nutritionMeals, days),
+      targets: user?.nutritionTargets ?? null,
+    };
+  },
+});
+
 // ============================================================================
 // MUTATIONS
 // ============================================================================
@@ -203,6 +326,7 @@ export const getRecipePickerItems = query({
  * Add a meal to a slot
  *
  * Creates a new planned meal entry for the specified day and slot.
+ * Servings default to the household size, then the recipe's servings.
  * Fetches recipe data to denormalize name, image, and prep time.
  */
 export const addMealToSlot = mutation({
@@ -210,6 +334,7 @@ export const addMealToSlot = mutation({
     recipeId: v.id("recipes"),
     day: v.string(),
     slot: mealSlot,
+    servings: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -225,24 +350,23 @@ export const addMealToSlot = mutation({
       throw new Error("Recipe not found");
     }
 
-    if (recipe.userId !== userId) {
+    if (!(await canAccessRecipe(ctx, recipe, userId))) {
       throw new Error("You do not have permission to use this recipe");
     }
 
     const now = Date.now();
 
     // Check if slot already has a meal (replace it)
-    const existingMeals = await ctx.db
-      .query("plannedMeals")
-      .withIndex("by_user_day", (q) =>
-        q.eq("userId", userId).eq("day", args.day)
-      )
-      .collect();
+    const existingMeals = await getPlanMeals(ctx, userId, args.day);
 
     const existingMeal = existingMeals.find((m) => m.slot === args.slot);
     if (existingMeal) {
       // Remove existing meal in this slot
-      await ctx.db.delete(existingMeal._id);
+      await deletePlannedMeal(ctx, existingMeal._id);
+    }
+
+    if (args.servings !== undefined && args.servings <= 0) {
+      throw new Error("Servings must be greater than zero");
     }
 
     // Create the planned meal
@@ -254,6 +378,9 @@ export const addMealToSlot = mutation({
       prepTime: `${recipe.prepTime + recipe.cookTime} min`,
       day: args.day,
       slot: args.slot,
+      servings:
+        args.servings ?? (await getDefaultMealServings(ctx, userId)) ?? recipe.servings,
+      householdId: (await getHouseholdId(ctx, userId)) ?? undefined,
       createdAt: now,
       updatedAt: now,
     });
@@ -266,6 +393,7 @@ export const addMealToSlot = mutation({
  * Remove a planned meal
  *
  * Deletes a planned meal after verifying ownership.
+ * Leftovers eaten from the meal are removed with it.
  */
 export const removeMeal = mutation({
   args: {
@@ -284,11 +412,11 @@ export const removeMeal = mutation({
       throw new Error("Meal not found");
     }
 
-    if (meal.userId !== userId) {
+    if (!(await canAccessHouseholdDoc(ctx, meal, userId))) {
       throw new Error("You do not have permission to delete this meal");
     }
 
-    await ctx.db.delete(args.mealId);
+    await deletePlannedMeal(ctx, args.mealId);
 
     return true;
   },
@@ -299,12 +427,17 @@ export const removeMeal = mutation({
  *
  * Updates the day and slot of an existing planned meal.
  * If the target slot is occupied, the existing meal is removed.
+ *
+ * Offline replays pass the meal's updatedAt when it was moved. If the meal
+ * changed since (e.g. another household member moved it), it is left
+ * where it is and the move is reported as a conflict.
  */
 export const moveMeal = mutation({
   args: {
     mealId: v.id("plannedMeals"),
     newDay: v.string(),
     newSlot: mealSlot,
+    expectedUpdatedAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -319,34 +452,39 @@ export const moveMeal = mutation({
       throw new Error("Meal not found");
     }
 
-    if (meal.userId !== userId) {
+    if (!(await canAccessHouseholdDoc(ctx, meal, userId))) {
       throw new Error("You do not have permission to move this meal");
     }
 
+    if (hasConflict(meal.updatedAt, args.expectedUpdatedAt)) {
+      return { mealId: args.mealId, conflict: true, updatedAt: meal.updatedAt };
+    }
+
     // Check if target slot already has a meal
-    const existingMeals = await ctx.db
-      .query("plannedMeals")
-      .withIndex("by_user_day", (q) =>
-        q.eq("userId", userId).eq("day", args.newDay)
-      )
-      .collect();
+    const existingMeals = await getPlanMeals(ctx, userId, args.newDay);
 
     const existingMeal = existingMeals.find(
       (m) => m.slot === args.newSlot && m._id !== args.mealId
     );
     if (existingMeal) {
+      // Moving leftovers onto their own source turns them into the cook
+      if (meal.leftoverOfMealId === existingMeal._id) {
+        await ctx.db.patch(args.mealId, { leftoverOfMealId: undefined });
+      }
+
       // Remove existing meal in target slot
-      await ctx.db.delete(existingMeal._id);
+      await deletePlannedMeal(ctx, existingMeal._id);
     }
 
     // Update the meal
+    const updatedAt = Date.now();
     await ctx.db.patch(args.mealId, {
       day: args.newDay,
       slot: args.newSlot,
-      updatedAt: Date.now(),
+      updatedAt,
     });
 
-    return args.mealId;
+    return { mealId: args.mealId, conflict: false, updatedAt };
   },
 });
 
@@ -375,22 +513,17 @@ export const copyMeal = mutation({
       throw new Error("Meal not found");
     }
 
-    if (meal.userId !== userId) {
+    if (!(await canAccessHouseholdDoc(ctx, meal, userId))) {
       throw new Error("You do not have permission to copy this meal");
     }
 
     // Check if target slot already has a meal
-    const existingMeals = await ctx.db
-      .query("plannedMeals")
-      .withIndex("by_user_day", (q) =>
-        q.eq("userId", userId).eq("day", args.targetDay)
-      )
-      .collect();
+    const existingMeals = await getPlanMeals(ctx, userId, args.targetDay);
 
     const existingMeal = existingMeals.find((m) => m.slot === args.targetSlot);
     if (existingMeal) {
       // Remove existing meal in target slot
-      await ctx.db.delete(existingMeal._id);
+      await deletePlannedMeal(ctx, existingMeal._id);
     }
 
     const now = Date.now();
@@ -404,6 +537,12 @@ export const copyMeal = mutation({
       prepTime: meal.prepTime,
       day: args.targetDay,
       slot: args.targetSlot,
+      servings: meal.servings,
+      leftoverOfMealId:
+        meal.leftoverOfMealId && meal.leftoverOfMealId !== existingMeal?._id
+          ? meal.leftoverOfMealId
+          : undefined,
+      householdId: meal.householdId,
       createdAt: now,
       updatedAt: now,
     });
@@ -415,7 +554,8 @@ export const copyMeal = mutation({
 /**
  * Clear all meals for a specific day
  *
- * Deletes all planned meals for the authenticated user on the specified day.
+ * Deletes all planned meals in the user's plan on the specified day,
+ * plus any leftovers eaten from them on other days.
  */
 export const clearDay = mutation({
   args: {
@@ -429,25 +569,22 @@ export const clearDay = mutation({
 
     const userId = identity.subject;
 
-    const meals = await ctx.db
-      .query("plannedMeals")
-      .withIndex("by_user_day", (q) =>
-        q.eq("userId", userId).eq("day", args.day)
-      )
-      .collect();
+    const meals = await getPlanMeals(ctx, userId, args.day);
 
+    let deletedCount = 0;
     for (const meal of meals) {
-      await ctx.db.delete(meal._id);
+      deletedCount += await deletePlannedMeal(ctx, meal._id);
     }
 
-    return meals.length;
+    return deletedCount;
   },
 });
 
 /**
  * Clear all meals for a week
  *
- * Deletes all planned meals for the authenticated user within the date range.
+ * Deletes all planned meals in the user's plan within the date range,
+ * plus any leftovers eaten from them outside it.
  */
 export const clearWeek = mutation({
   args: {
@@ -462,20 +599,133 @@ export const clearWeek = mutation({
 
     const userId = identity.subject;
 
-    const allMeals = await ctx.db
-      .query("plannedMeals")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .collect();
+    const allMeals = await getPlanMeals(ctx, userId);
 
     const mealsToDelete = allMeals.filter(
       (meal) => meal.day >= args.startDate && meal.day <= args.endDate
     );
 
+    let deletedCount = 0;
     for (const meal of mealsToDelete) {
-      await ctx.db.delete(meal._id);
+      deletedCount += await deletePlannedMeal(ctx, meal._id);
     }
 
-    return mealsToDelete.length;
+    return deletedCount;
+  },
+});
+
+/**
+ * Update the servings planned for a meal
+ *
+ * Shopping lists generated from the meal scale the recipe to match.
+ */
+export const updateMealServings = mutation({
+  args: {
+    mealId: v.id("plannedMeals"),
+    servings: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const meal = await ctx.db.get(args.mealId);
+    if (!meal) {
+      throw new Error("Meal not found");
+    }
+
+    if (!(await canAccessHouseholdDoc(ctx, meal, identity.subject))) {
+      throw new Error("You do not have permission to update this meal");
+    }
+
+    if (args.servings <= 0) {
+      throw new Error("Servings must be greater than zero");
+    }
+
+    await ctx.db.patch(args.mealId, {
+      servings: args.servings,
+      updatedAt: Date.now(),
+    });
+
+    return args.mealId;
+  },
+});
+
+/**
+ * Plan leftovers of a meal in a later slot ("cook once, eat twice")
+ *
+ * The leftover slot shows the same recipe but adds no ingredients to
+ * shopping lists; its servings are added to the original meal instead.
+ * If the target slot is occupied, the existing meal is removed.
+ */
+export const addLeftovers = mutation({
+  args: {
+    sourceMealId: v.id("plannedMeals"),
+    targetDay: v.string(),
+    targetSlot: mealSlot,
+    servings: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    let source = await ctx.db.get(args.sourceMealId);
+    if (!source) {
+      throw new Error("Meal not found");
+    }
+
+    if (!(await canAccessHouseholdDoc(ctx, source, userId))) {
+      throw new Error("You do not have permission to use this meal");
+    }
+
+    // Leftovers of leftovers come from the original cook
+    if (source.leftoverOfMealId) {
+      const original = await ctx.db.get(source.leftoverOfMealId);
+      if (original) {
+        source = original;
+      }
+    }
+
+    const isLater =
+      args.targetDay > source.day ||
+      (args.targetDay === source.day &&
+        SLOT_ORDER.indexOf(args.targetSlot) > SLOT_ORDER.indexOf(source.slot));
+    if (!isLater) {
+      throw new Error("Leftovers must be planned after the original meal");
+    }
+
+    if (args.servings !== undefined && args.servings <= 0) {
+      throw new Error("Servings must be greater than zero");
+    }
+
+    const existingMeals = await getPlanMeals(ctx, userId, args.targetDay);
+
+    const existingMeal = existingMeals.find((m) => m.slot === args.targetSlot);
+    if (existingMeal) {
+      await deletePlannedMeal(ctx, existingMeal._id);
+    }
+
+    const now = Date.now();
+
+    return await ctx.db.insert("plannedMeals", {
+      userId,
+      recipeId: source.recipeId,
+      recipeName: source.recipeName,
+      recipeImage: source.recipeImage,
+      prepTime: source.prepTime,
+      day: args.targetDay,
+      slot: args.targetSlot,
+      servings: args.servings ?? source.servings,
+      leftoverOfMealId: source._id,
+      householdId: source.householdId,
+      createdAt: now,
+      updatedAt: now,
+    });
   },
 });
 
@@ -500,10 +750,13 @@ export const getMealsByIds = query({
       args.mealIds.map((id) => ctx.db.get(id))
     );
 
-    // Filter out null values and verify ownership
-    return meals.filter(
-      (meal): meal is NonNullable<typeof meal> =>
-        meal !== null && meal.userId === userId
-    );
+    // Filter out null values and verify access
+    const accessible: Doc<"plannedMeals">[] = [];
+    for (const meal of meals) {
+      if (meal && (await canAccessHouseholdDoc(ctx, meal, userId))) {
+        accessible.push(meal);
+      }
+    }
+    return accessible;
   },
 });
@@ -0,0 +1,59 @@
+/**
+ * Migration: Backfill Calculated Nutrition
+ *
+ * Calculates nutrition from the ingredients of recipes saved without any,
+ * using the bundled nutrient table. Recipes with nutrition of their own
+ * are left alone. Processes recipes in batches and schedules itself until
+ * every recipe has been visited. Safe to re-run.
+ */
+
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { getCalculatedNutritionFields } from "../lib/nutritionCalculator";
+
+const BATCH_SIZE = 100;
+
+/**
+ * Backfill calculated nutrition for one batch of recipes
+ *
+ * Run with no arguments to start from the beginning.
+ */
+export const backfillCalculatedNutrition = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    updated: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("recipes")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let updated = args.updated ?? 0;
+    for (const recipe of result.page) {
+      if (recipe.nutrition) {
+        continue;
+      }
+
+      const fields = getCalculatedNutritionFields(recipe);
+      if (fields) {
+        await ctx.db.patch(recipe._id, fields);
+        if (fields.nutrition) {
+          updated++;
+        }
+      }
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillCalculatedNutrition.backfillCalculatedNutrition,
+        { cursor: result.continueCursor, updated }
+      );
+      return null;
+    }
+
+    console.log(`Migration complete: Calculated nutrition for ${updated} recipes`);
+    return null;
+  },
+});
@@ -0,0 +1,62 @@
+/**
+ * Migration: Backfill Ingredient Details
+ *
+ * Splits preparation, notes, optional markers and package sizes out of
+ * the names of ingredients saved before those fields existed, e.g.
+ * "onion, diced" -> name "onion", preparation "diced". Search text and
+ * calculated nutrition are recomputed from the updated ingredients.
+ * Processes recipes in batches and schedules itself until every recipe
+ * has been visited. Safe to re-run.
+ */
+
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { enrichIngredient } from "../lib/ingredientParser";
+import { getCalculatedNutritionFields } from "../lib/nutritionCalculator";
+import { getRecipeSearchFields } from "../lib/recipeSearch";
+
+const BATCH_SIZE = 100;
+
+/**
+ * Backfill ingredient details for one batch of recipes
+ *
+ * Run with no arguments to start from the beginning.
+ */
+export const backfillIngredientDetails = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    updated: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("recipes")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let updated = args.updated ?? 0;
+    for (const recipe of result.page) {
+      const ingredients = recipe.ingredients.map(enrichIngredient);
+      if (JSON.stringify(ingredients) !== JSON.stringify(recipe.ingredients)) {
+        const enriched = { ...recipe, ingredients };
+        await ctx.db.patch(recipe._id, {
+          ingredients,
+          ...getRecipeSearchFields(enriched),
+          ...getCalculatedNutritionFields(enriched),
+        });
+        updated++;
+      }
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillIngredientDetails.backfillIngredientDetails,
+        { cursor: result.continueCursor, updated }
+      );
+      return null;
+    }
+
+    console.log(`Migration complete: Updated ingredient details on ${updated} recipes`);
+    return null;
+  },
+});
@@ -0,0 +1,55 @@
+/**
+ * Migration: Backfill Recipe Search Fields
+ *
+ * Sets searchText and totalTime on recipes created before the full-text
+ * search index. Processes recipes in batches and schedules itself until
+ * every recipe has been visited. Safe to re-run.
+ */
+
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { getRecipeSearchFields } from "../lib/recipeSearch";
+
+const BATCH_SIZE = 100;
+
+/**
+ * Backfill search fields for one batch of recipes
+ *
+ * Run with no arguments to start from the beginning.
+ */
+export const backfillRecipeSearchFields = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    updated: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("recipes")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let updated = args.updated ?? 0;
+    for (const recipe of result.page) {
+      const fields = getRecipeSearchFields(recipe);
+      if (
+        recipe.searchText !== fields.searchText ||
+        recipe.totalTime !== fields.totalTime
+      ) {
+        await ctx.db.patch(recipe._id, fields);
+        updated++;
+      }
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillRecipeSearchFields.backfillRecipeSearchFields,
+        { cursor: result.continueCursor, updated }
+      );
+      return null;
+    }
+
+    console.log(`Migration complete: Updated search fields on ${updated} recipes`);
+    return null;
+  },
+});
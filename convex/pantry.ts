@@ -0,0 +1,363 @@
+/**
+ * Pantry Queries and Mutations
+ *
+ * API functions for the user's pantry inventory and "what can I cook"
+ * recipe matching. Missing ingredients can be added to a shopping list.
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { assignCategory, ShoppingItemCategory } from "./lib/categoryAssignment";
+import {
+  getPantryMatchKey,
+  indexPantry,
+  matchRecipeToPantry,
+  rankRecipesByPantry,
+} from "./lib/pantryMatching";
+
+/**
+ * Shopping item category validator (pantry items share these categories)
+ */
+const shoppingItemCategory = v.union(
+  v.literal("Produce"),
+  v.literal("Meat & Seafood"),
+  v.literal("Dairy & Eggs"),
+  v.literal("Pantry"),
+  v.literal("Bakery"),
+  v.literal("Frozen"),
+  v.literal("Beverages"),
+  v.literal("Household")
+);
+
+/**
+ * Default number of recipes returned by getCookableRecipes
+ */
+const DEFAULT_COOKABLE_LIMIT = 20;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get the authenticated user's pantry items
+ *
+ * Staples come first, then items by soonest expiry, then by name.
+ */
+export const getPantryItems = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const items = await ctx.db
+      .query("pantryItems")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    return items.sort(
+      (a, b) =>
+        Number(b.alwaysHave ?? false) - Number(a.alwaysHave ?? false) ||
+        (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity) ||
+        a.name.localeCompare(b.name)
+    );
+  },
+});
+
+/**
+ * Rank the user's recipes by how much of each ingredient list the pantry covers
+ *
+ * Returns the best matches with coverage counts and the ingredients
+ * still needed (including partial amounts when the pantry is short).
+ */
+export const getCookableRecipes = query({
+  args: {
+    limit: v.optional(v.number()),
+    minCoverage: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const [pantryItems, recipes] = await Promise.all([
+      ctx.db
+        .query("pantryItems")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("recipes")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect(),
+    ]);
+
+    if (pantryItems.length === 0) {
+      return [];
+    }
+
+    const minCoverage = args.minCoverage ?? 0;
+
+    return rankRecipesByPantry(recipes, pantryItems)
+      .filter((recipe) => recipe.match.coveredCount > 0)
+      .filter((recipe) => recipe.match.coverage >= minCoverage)
+      .slice(0, args.limit ?? DEFAULT_COOKABLE_LIMIT)
+      .map((recipe) => ({
+        _id: recipe._id,
+        title: recipe.title,
+        imageUrl: recipe.imageUrl,
+        prepTime: recipe.prepTime,
+        cookTime: recipe.cookTime,
+        coveredCount: recipe.match.coveredCount,
+        totalCount: recipe.match.totalCount,
+        coverage: recipe.match.coverage,
+        missing: recipe.match.missing,
+      }));
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add an item to the pantry
+ *
+ * If an item with the same name and unit already exists, its quantity is
+ * increased instead. Category is auto-assigned if not provided. Staples
+ * marked alwaysHave are skipped when generating shopping lists.
+ */
+export const addPantryItem = mutation({
+  args: {
+    name: v.string(),
+    quantity: v.number(),
+    unit: v.string(),
+    category: v.optional(shoppingItemCategory),
+    expiresAt: v.optional(v.number()),
+    alwaysHave: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const name = args.name.trim();
+
+    if (!name) {
+      throw new Error("Item name is required");
+    }
+    if (args.quantity < 0) {
+      throw new Error("Quantity cannot be negative");
+    }
+
+    const now = Date.now();
+    const existingItems = await ctx.db
+      .query("pantryItems")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const matchKey = getPantryMatchKey(name);
+    const existing = existingItems.find(
+      (item) =>
+        getPantryMatchKey(item.name) === matchKey &&
+        item.unit.trim().toLowerCase() === args.unit.trim().toLowerCase()
+    );
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        quantity: existing.quantity + args.quantity,
+        expiresAt: args.expiresAt ?? existing.expiresAt,
+        alwaysHave: args.alwaysHave ?? existing.alwaysHave,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("pantryItems", {
+      userId,
+      name,
+      quantity: args.quantity,
+      unit: args.unit.trim(),
+      category: args.category ?? (assignCategory(name) as ShoppingItemCategory),
+      expiresAt: args.expiresAt,
+      alwaysHave: args.alwaysHave,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update a pantry item
+ *
+ * Pass expiresAt as null to clear the expiry date.
+ */
+export const updatePantryItem = mutation({
+  args: {
+    itemId: v.id("pantryItems"),
+    name: v.optional(v.string()),
+    quantity: v.optional(v.number()),
+    unit: v.optional(v.string()),
+    category: v.optional(shoppingItemCategory),
+    expiresAt: v.optional(v.union(v.number(), v.null())),
+    alwaysHave: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const item = await ctx.db.get(args.itemId);
+
+    if (!item) {
+      throw new Error("Pantry item not found");
+    }
+
+    if (item.userId !== identity.subject) {
+      throw new Error("You do not have permission to update this item");
+    }
+
+    if (args.quantity !== undefined && args.quantity < 0) {
+      throw new Error("Quantity cannot be negative");
+    }
+
+    const { itemId, expiresAt, ...fields } = args;
+    const updates: Record<string, unknown> = { updatedAt: Date.now() };
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        updates[key] = typeof value === "string" ? value.trim() : value;
+      }
+    }
+
+    if (expiresAt !== undefined) {
+      updates.expiresAt = expiresAt ?? undefined;
+    }
+
+    await ctx.db.patch(itemId, updates);
+
+    return itemId;
+  },
+});
+
+/**
+ * Delete a pantry item
+ */
+export const deletePantryItem = mutation({
+  args: {
+    itemId: v.id("pantryItems"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const item = await ctx.db.get(args.itemId);
+
+    if (!item) {
+      throw new Error("Pantry item not found");
+    }
+
+    if (item.userId !== identity.subject) {
+      throw new Error("You do not have permission to delete this item");
+    }
+
+    await ctx.db.delete(args.itemId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Add a recipe's missing ingredients to a shopping list
+ *
+ * Uses the given list, or the user's active list (creating one if needed).
+ * Partial items are added with only the amount still needed.
+ */
+export const addMissingToShoppingList = mutation({
+  args: {
+    recipeId: v.id("recipes"),
+    listId: v.optional(v.id("shoppingLists")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const now = Date.now();
+
+    const recipe = await ctx.db.get(args.recipeId);
+    if (!recipe || recipe.userId !== userId) {
+      throw new Error("Recipe not found");
+    }
+
+    // Get or create shopping list
+    let listId = args.listId;
+
+    if (!listId) {
+      const activeList = await ctx.db
+        .query("shoppingLists")
+        .withIndex("by_user_status", (q) =>
+          q.eq("userId", userId).eq("status", "active")
+        )
+        .first();
+
+      listId =
+        activeList?._id ??
+        (await ctx.db.insert("shoppingLists", {
+          userId,
+          name: "Shopping List",
+          status: "active",
+          createdAt: now,
+          updatedAt: now,
+        }));
+    } else {
+      const list = await ctx.db.get(listId);
+      if (!list || list.userId !== userId) {
+        throw new Error("Shopping list not found");
+      }
+      if (list.status === "archived") {
+        throw new Error("Cannot add items to an archived list");
+      }
+    }
+
+    const pantryItems = await ctx.db
+      .query("pantryItems")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const { missing } = matchRecipeToPantry(
+      recipe.ingredients,
+      indexPantry(pantryItems)
+    );
+
+    for (const ingredient of missing) {
+      await ctx.db.insert("shoppingItems", {
+        listId,
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        category: assignCategory(ingredient.name) as ShoppingItemCategory,
+        checked: false,
+        isCustom: false,
+        recipeIds: [recipe._id],
+        recipeName: recipe.title,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.db.patch(listId, { updatedAt: now });
+
+    return { listId, itemCount: missing.length };
+  },
+});
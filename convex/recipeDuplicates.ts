@@ -0,0 +1,379 @@
+/**
+ * Recipe Duplicate Mutations and Queries
+ *
+ * Detects recipes the user already saved before a new one is saved,
+ * lists likely duplicates across the library, and merges duplicates
+ * into one surviving recipe.
+ */
+
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { refreshRecipeCookStats } from "./cookLogs";
+import { getHouseholdId } from "./households";
+import { deleteRecipeRevisions } from "./recipeRevisions";
+import {
+  findDuplicateGroups,
+  findDuplicates as findDuplicateMatches,
+  findSourceMatch,
+  mergeRecipeNotes,
+} from "./lib/recipeDuplicates";
+import { getRecipeSearchFields } from "./lib/recipeSearch";
+
+/**
+ * Fields shown when listing a duplicate
+ */
+function toDuplicateSummary(recipe: Doc<"recipes">) {
+  return {
+    _id: recipe._id,
+    title: recipe.title,
+    imageUrl: recipe.imageUrl,
+    source: recipe.source,
+    sourceName: recipe.sourceName,
+    isFavorited: recipe.isFavorited,
+    timesCooked: recipe.timesCooked ?? 0,
+    createdAt: recipe.createdAt,
+  };
+}
+
+/**
+ * Find a saved recipe with the same YouTube video or source URL
+ *
+ * Used by the save mutations to refuse exact duplicates unless the user
+ * confirmed saving anyway. A recipe derived from a saved one (its
+ * parentRecipeId) is not a duplicate of it.
+ *
+ * @returns The existing recipe, or null
+ */
+export async function findSourceDuplicate(
+  ctx: QueryCtx,
+  userId: string,
+  source: {
+    title: string;
+    sourceUrl?: string;
+    youtubeVideoId?: string;
+    parentRecipeId?: Id<"recipes">;
+  }
+): Promise<Doc<"recipes"> | null> {
+  if (!source.sourceUrl && !source.youtubeVideoId) {
+    return null;
+  }
+
+  const recipes = await ctx.db
+    .query("recipes")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  return findSourceMatch(source, recipes);
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Merge duplicate recipes into one
+ *
+ * The kept recipe takes over the duplicates' notes, cookbook memberships,
+ * meal plan and shopping list references, cook history, variations,
+ * creator attribution and favorite status. The duplicates are then deleted.
+ */
+export const mergeRecipes = mutation({
+  args: {
+    keepId: v.id("recipes"),
+    mergeIds: v.array(v.id("recipes")),
+  },
+  handler: async (ctx, args) => {
+    // Require authentication
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const keep = await ctx.db.get(args.keepId);
+    if (!keep) {
+      throw new Error("Recipe not found");
+    }
+    if (keep.userId !== userId) {
+      throw new Error("You do not have permission to modify this recipe");
+    }
+
+    const mergeIds = [...new Set(args.mergeIds)].filter((id) => id !== args.keepId);
+    if (mergeIds.length === 0) {
+      throw new Error("Select at least one recipe to merge");
+    }
+
+    const merged: Doc<"recipes">[] = [];
+    for (const id of mergeIds) {
+      const recipe = await ctx.db.get(id);
+      if (!recipe) {
+        throw new Error("Recipe not found");
+      }
+      if (recipe.userId !== userId) {
+        throw new Error("You do not have permission to modify this recipe");
+      }
+      merged.push(recipe);
+    }
+
+    const isMerged = (id: Id<"recipes">) => mergeIds.includes(id);
+
+    for (const recipe of merged) {
+      // Cookbooks: move the membership unless the kept recipe is already there
+      const memberships = await ctx.db
+        .query("cookbookRecipes")
+        .withIndex("by_recipe", (q) => q.eq("recipeId", recipe._id))
+        .collect();
+
+      for (const membership of memberships) {
+        const existing = await ctx.db
+          .query("cookbookRecipes")
+          .withIndex("by_cookbook_recipe", (q) =>
+            q.eq("cookbookId", membership.cookbookId).eq("recipeId", args.keepId)
+          )
+          .first();
+
+        if (existing) {
+          await ctx.db.delete(membership._id);
+        } else {
+          await ctx.db.patch(membership._id, { recipeId: args.keepId });
+        }
+      }
+
+      // Planned meals, including ones in a shared household plan
+      const meals = await ctx.db
+        .query("plannedMeals")
+        .withIndex("by_recipe", (q) => q.eq("recipeId", recipe._id))
+        .collect();
+
+      for (const meal of meals) {
+        await ctx.db.patch(meal._id, {
+          recipeId: args.keepId,
+          recipeName: keep.title,
+          recipeImage: keep.imageUrl,
+          prepTime: `${keep.prepTime + keep.cookTime} min`,
+          updatedAt: Date.now(),
+        });
+      }
+
+      // Cook history
+      const cookLogs = await ctx.db
+        .query("cookLogs")
+        .withIndex("by_recipe_cooked", (q) => q.eq("recipeId", recipe._id))
+        .collect();
+
+      for (const log of cookLogs) {
+        await ctx.db.patch(log._id, { recipeId: args.keepId });
+      }
+
+      // Creator attribution and engagement follow the kept recipe
+      const attributions = await ctx.db
+        .query("recipeAttribution")
+        .withIndex("by_recipe", (q) => q.eq("recipeId", recipe._id))
+        .collect();
+
+      for (const attribution of attributions) {
+        const existing = await ctx.db
+          .query("recipeAttribution")
+          .withIndex("by_recipe", (q) => q.eq("recipeId", args.keepId))
+          .filter((q) => q.eq(q.field("creatorId"), attribution.creatorId))
+          .first();
+
+        if (existing) {
+          await ctx.db.delete(attribution._id);
+        } else {
+          await ctx.db.patch(attribution._id, { recipeId: args.keepId });
+        }
+      }
+
+      const engagement = await ctx.db
+        .query("recipeEngagement")
+        .withIndex("by_recipe", (q) => q.eq("recipeId", recipe._id))
+        .collect();
+
+      for (const day of engagement) {
+        await ctx.db.patch(day._id, { recipeId: args.keepId });
+      }
+
+      // Variations now derive from the kept recipe
+      const variations = await ctx.db
+        .query("recipes")
+        .withIndex("by_parent", (q) => q.eq("parentRecipeId", recipe._id))
+        .collect();
+
+      for (const variation of variations) {
+        await ctx.db.patch(variation._id, {
+          parentRecipeId:
+            variation._id === args.keepId || isMerged(variation._id) ? undefined : args.keepId,
+        });
+      }
+    }
+
+    // Shopping items and skipped items list their source recipes
+    const repointRecipeIds = (recipeIds: Id<"recipes">[]) => [
+      ...new Set(recipeIds.map((id) => (isMerged(id) ? args.keepId : id))),
+    ];
+
+    const householdId = await getHouseholdId(ctx, userId);
+    const lists = [
+      ...(await ctx.db
+        .query("shoppingLists")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect()),
+      ...(householdId
+        ? await ctx.db
+            .query("shoppingLists")
+            .withIndex("by_household", (q) => q.eq("householdId", householdId))
+            .filter((q) => q.neq(q.field("userId"), userId))
+            .collect()
+        : []),
+    ];
+
+    for (const list of lists) {
+      const items = await ctx.db
+        .query("shoppingItems")
+        .withIndex("by_list", (q) => q.eq("listId", list._id))
+        .collect();
+
+      for (const item of items) {
+        if (item.recipeIds.some(isMerged)) {
+          await ctx.db.patch(item._id, {
+            recipeIds: repointRecipeIds(item.recipeIds),
+            updatedAt: Date.now(),
+          });
+        }
+      }
+
+      if (list.skippedItems?.some((item) => item.recipeIds.some(isMerged))) {
+        await ctx.db.patch(list._id, {
+          skippedItems: list.skippedItems.map((item) => ({
+            ...item,
+            recipeIds: repointRecipeIds(item.recipeIds),
+          })),
+          updatedAt: Date.now(),
+        });
+      }
+    }
+
+    // Draft and template meals embed the recipe
+    const drafts = await ctx.db
+      .query("mealPlanDrafts")
+      .withIndex("by_user_week", (q) => q.eq("userId", userId))
+      .collect();
+
+    for (const draft of drafts) {
+      if (draft.meals.some((meal) => isMerged(meal.recipeId))) {
+        await ctx.db.patch(draft._id, {
+          meals: draft.meals.map((meal) =>
+            isMerged(meal.recipeId)
+              ? {
+                  ...meal,
+                  recipeId: args.keepId,
+                  recipeName: keep.title,
+                  recipeImage: keep.imageUrl,
+                  prepTime: `${keep.prepTime + keep.cookTime} min`,
+                }
+              : meal
+          ),
+          updatedAt: Date.now(),
+        });
+      }
+    }
+
+    const templates = await ctx.db
+      .query("mealPlanTemplates")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    for (const template of templates) {
+      if (template.meals.some((meal) => isMerged(meal.recipeId))) {
+        await ctx.db.patch(template._id, {
+          meals: template.meals.map((meal) =>
+            isMerged(meal.recipeId)
+              ? { ...meal, recipeId: args.keepId, recipeName: keep.title }
+              : meal
+          ),
+          updatedAt: Date.now(),
+        });
+      }
+    }
+
+    // Combine notes and favorite status into the kept recipe
+    const notes = mergeRecipeNotes([keep.notes, ...merged.map((recipe) => recipe.notes)]);
+    await ctx.db.patch(args.keepId, {
+      notes,
+      isFavorited: keep.isFavorited || merged.some((recipe) => recipe.isFavorited),
+      ...getRecipeSearchFields({ ...keep, notes }),
+      updatedAt: Date.now(),
+    });
+
+    await refreshRecipeCookStats(ctx, args.keepId);
+
+    for (const recipe of merged) {
+      await deleteRecipeRevisions(ctx, recipe._id);
+      await ctx.db.delete(recipe._id);
+    }
+
+    return args.keepId;
+  },
+});
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Find saved recipes that a recipe about to be saved would duplicate
+ *
+ * Matches the same YouTube video or source URL exactly, and similar
+ * titles with mostly the same ingredients. Returns an empty array when
+ * not authenticated.
+ */
+export const findDuplicates = query({
+  args: {
+    title: v.string(),
+    sourceUrl: v.optional(v.string()),
+    youtubeVideoId: v.optional(v.string()),
+    ingredients: v.optional(v.array(v.object({ name: v.string() }))),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const recipes = await ctx.db
+      .query("recipes")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    return findDuplicateMatches(args, recipes).map((match) => ({
+      recipe: toDuplicateSummary(match.recipe),
+      reason: match.reason,
+    }));
+  },
+});
+
+/**
+ * List groups of likely duplicate recipes in the user's library
+ *
+ * Each group is ordered oldest first; the oldest is the suggested
+ * recipe to keep. Returns an empty array when not authenticated.
+ */
+export const getDuplicateGroups = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const recipes = await ctx.db
+      .query("recipes")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    return findDuplicateGroups(recipes).map((group) => group.map(toDuplicateSummary));
+  },
+});
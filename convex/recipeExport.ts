@@ -0,0 +1,85 @@
+/**
+ * Recipe Export Queries
+ *
+ * Internal functions used by the exportRecipes action to load the recipes
+ * being exported: a single recipe, a digital cookbook, or the whole library.
+ */
+
+import { v } from "convex/values";
+import { internalQuery } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Load recipes for export
+ *
+ * - With recipeId: returns that recipe
+ * - With cookbookId: returns the cookbook's recipes in manual order
+ * - With neither: returns the whole library, newest first
+ *
+ * Also returns a title used for the exported file name.
+ */
+export const getRecipesForExport = internalQuery({
+  args: {
+    userId: v.string(),
+    recipeId: v.optional(v.id("recipes")),
+    cookbookId: v.optional(v.id("cookbooks")),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ title: string; recipes: Doc<"recipes">[] }> => {
+    const { userId } = args;
+
+    if (args.recipeId) {
+      const recipe = await ctx.db.get(args.recipeId);
+      if (!recipe) {
+        throw new Error("Recipe not found");
+      }
+      if (recipe.userId !== userId) {
+        throw new Error("You do not have permission to export this recipe");
+      }
+
+      return { title: recipe.title, recipes: [recipe] };
+    }
+
+    if (args.cookbookId) {
+      const cookbook = await ctx.db.get(args.cookbookId);
+      if (!cookbook) {
+        throw new Error("Cookbook not found");
+      }
+      if (cookbook.userId !== userId) {
+        throw new Error("You do not have permission to export this cookbook");
+      }
+
+      const entries = await ctx.db
+        .query("cookbookRecipes")
+        .withIndex("by_cookbook", (q) => q.eq("cookbookId", cookbook._id))
+        .collect();
+      entries.sort((a, b) => a.position - b.position);
+
+      const recipes = await Promise.all(
+        entries.map((entry) => ctx.db.get(entry.recipeId))
+      );
+
+      return {
+        title: cookbook.name,
+        // Skip deleted recipes
+        recipes: recipes.filter(
+          (r): r is Doc<"recipes"> => r !== null && r.userId === userId
+        ),
+      };
+    }
+
+    const recipes = await ctx.db
+      .query("recipes")
+      .withIndex("by_user_created", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+
+    return { title: "My Recipes", recipes };
+  },
+});
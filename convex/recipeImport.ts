@@ -0,0 +1,164 @@
+/**
+ * Bulk Recipe Import Mutations
+ *
+ * Saves recipes mapped by the importRecipes action. Skips recipes that
+ * duplicate an existing title or source URL and enforces the free tier
+ * recipe limit.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, mutation } from "./_generated/server";
+import { FREE_RECIPE_LIMIT, hasPremiumAccess } from "./subscriptions";
+import { ImportDeduplicator, ImportRecipeResult } from "./lib/recipeImport";
+import { withSearchFields } from "./lib/recipeSearch";
+import { withCalculatedNutrition } from "./lib/nutritionCalculator";
+
+/**
+ * Ingredient category validator
+ */
+const ingredientCategory = v.union(
+  v.literal("meat"),
+  v.literal("produce"),
+  v.literal("dairy"),
+  v.literal("pantry"),
+  v.literal("spices"),
+  v.literal("condiments"),
+  v.literal("bread"),
+  v.literal("other")
+);
+
+/**
+ * Imported recipe validator (matches ImportedRecipe)
+ */
+const importedRecipeObject = v.object({
+  title: v.string(),
+  sourceUrl: v.optional(v.string()),
+  sourceName: v.optional(v.string()),
+  imageUrl: v.string(),
+  servings: v.number(),
+  prepTime: v.number(),
+  cookTime: v.number(),
+  ingredients: v.array(
+    v.object({
+      name: v.string(),
+      quantity: v.number(),
+      unit: v.string(),
+      category: ingredientCategory,
+      quantityMax: v.optional(v.number()),
+      packageSize: v.optional(v.object({ quantity: v.number(), unit: v.string() })),
+      preparation: v.optional(v.string()),
+      note: v.optional(v.string()),
+      optional: v.optional(v.boolean()),
+      section: v.optional(v.string()),
+    })
+  ),
+  instructions: v.array(v.string()),
+  notes: v.optional(v.string()),
+  cuisineType: v.optional(v.string()),
+  difficulty: v.optional(
+    v.union(v.literal("easy"), v.literal("medium"), v.literal("hard"))
+  ),
+  dietaryTags: v.array(v.string()),
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Generate upload URL for an import file
+ *
+ * The uploaded file is read and deleted by the importRecipes action.
+ */
+export const generateImportUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Save a batch of imported recipes
+ *
+ * Recipes are saved in order. Each recipe is reported as imported,
+ * duplicate (title or source URL already in the library or earlier in
+ * the batch), or limit_reached once a free user hits FREE_RECIPE_LIMIT.
+ */
+export const saveImportedRecipes = internalMutation({
+  args: {
+    userId: v.string(),
+    recipes: v.array(importedRecipeObject),
+  },
+  handler: async (ctx, args): Promise<ImportRecipeResult[]> => {
+    const { userId } = args;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+      .unique();
+
+    const existing = await ctx.db
+      .query("recipes")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const deduplicator = new ImportDeduplicator(existing);
+    const isPremium = hasPremiumAccess(user?.subscriptionStatus);
+    let recipeCount = existing.length;
+
+    const results: ImportRecipeResult[] = [];
+    const now = Date.now();
+
+    for (const recipe of args.recipes) {
+      if (deduplicator.isDuplicate(recipe)) {
+        results.push({ title: recipe.title, status: "duplicate" });
+        continue;
+      }
+
+      if (!isPremium && recipeCount >= FREE_RECIPE_LIMIT) {
+        results.push({
+          title: recipe.title,
+          status: "limit_reached",
+          error: `Free accounts can save up to ${FREE_RECIPE_LIMIT} recipes`,
+        });
+        continue;
+      }
+
+      const recipeId = await ctx.db.insert("recipes", withSearchFields(withCalculatedNutrition({
+        userId,
+        title: recipe.title,
+        source: recipe.sourceUrl ? "website" : "manual",
+        sourceUrl: recipe.sourceUrl,
+        sourceName: recipe.sourceName,
+        imageUrl: recipe.imageUrl,
+        servings: recipe.servings,
+        prepTime: recipe.prepTime,
+        cookTime: recipe.cookTime,
+        ingredients: recipe.ingredients,
+        instructions: recipe.instructions,
+        notes: recipe.notes ?? "",
+        cuisineType: recipe.cuisineType,
+        isFavorited: false,
+        difficulty: recipe.difficulty,
+        dietaryTags: recipe.dietaryTags,
+        createdAt: now,
+        updatedAt: now,
+      })));
+
+      deduplicator.add(recipe);
+      recipeCount++;
+      results.push({ title: recipe.title, status: "imported", recipeId });
+    }
+
+    return results;
+  },
+});
@@ -0,0 +1,244 @@
+/**
+ * Recipe Revision Mutations and Queries
+ *
+ * Keeps prior versions of a recipe so an accidental edit or a bad AI
+ * conversion can be undone. updateRecipe records a revision before it
+ * changes a recipe's content; these functions list revisions, diff them
+ * and restore one.
+ */
+
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { canAccessRecipe } from "./households";
+import {
+  diffRevisions,
+  getRevisionSnapshot,
+  selectRevisionsToPrune,
+} from "./lib/recipeRevisions";
+import { getCalculatedNutritionFields } from "./lib/nutritionCalculator";
+import { getRecipeSearchFields } from "./lib/recipeSearch";
+
+/**
+ * Store a recipe's current content as a revision
+ *
+ * Called before the recipe is changed. Prunes the oldest revisions once
+ * the recipe has more than MAX_REVISIONS_PER_RECIPE.
+ *
+ * @param recipe - Recipe before the change
+ * @param authorId - User making the change
+ * @param changeSummary - What the change is, e.g. "Edited"
+ */
+export async function recordRevision(
+  ctx: MutationCtx,
+  recipe: Doc<"recipes">,
+  authorId: string,
+  changeSummary: string
+): Promise<Id<"recipeRevisions">> {
+  const revisionId = await ctx.db.insert("recipeRevisions", {
+    recipeId: recipe._id,
+    authorId,
+    changeSummary,
+    snapshot: getRevisionSnapshot(recipe),
+    createdAt: Date.now(),
+  });
+
+  const revisions = await ctx.db
+    .query("recipeRevisions")
+    .withIndex("by_recipe_created", (q) => q.eq("recipeId", recipe._id))
+    .order("desc")
+    .collect();
+
+  for (const id of selectRevisionsToPrune(revisions.map((revision) => revision._id))) {
+    await ctx.db.delete(id);
+  }
+
+  return revisionId;
+}
+
+/**
+ * Delete all revisions of a recipe
+ *
+ * @returns Number of revisions deleted
+ */
+export async function deleteRecipeRevisions(
+  ctx: MutationCtx,
+  recipeId: Id<"recipes">
+): Promise<number> {
+  const revisions = await ctx.db
+    .query("recipeRevisions")
+    .withIndex("by_recipe_created", (q) => q.eq("recipeId", recipeId))
+    .collect();
+
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+
+  return revisions.length;
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Restore a recipe to a revision
+ *
+ * The recipe's current content is stored as a new revision first, so a
+ * restore can itself be undone.
+ */
+export const restoreRevision = mutation({
+  args: {
+    revisionId: v.id("recipeRevisions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+
+    const recipe = await ctx.db.get(revision.recipeId);
+    if (!recipe) {
+      throw new Error("Recipe not found");
+    }
+
+    if (recipe.userId !== userId) {
+      throw new Error("You do not have permission to update this recipe");
+    }
+
+    const restoredAt = new Date(revision.createdAt).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+    await recordRevision(ctx, recipe, userId, `Restored version from ${restoredAt}`);
+
+    // Every tracked field is written so fields the revision lacked are cleared.
+    // Calculated nutrition follows the restored ingredients and servings.
+    const { snapshot } = revision;
+    await ctx.db.patch(recipe._id, {
+      ...getRevisionSnapshot(snapshot),
+      ...getRecipeSearchFields(snapshot),
+      ...(getCalculatedNutritionFields({
+        ingredients: snapshot.ingredients,
+        servings: snapshot.servings,
+        nutrition: snapshot.nutrition,
+        nutritionCalculated: recipe.nutritionCalculated,
+        nutritionMatches: recipe.nutritionMatches,
+      }) ?? {}),
+      updatedAt: Date.now(),
+    });
+
+    return recipe._id;
+  },
+});
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List a recipe's revisions, newest first
+ *
+ * Each revision includes its author's name and the fields its change
+ * touched.
+ */
+export const listRevisions = query({
+  args: {
+    recipeId: v.id("recipes"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const recipe = await ctx.db.get(args.recipeId);
+    if (!recipe || !(await canAccessRecipe(ctx, recipe, identity.subject))) {
+      return [];
+    }
+
+    const revisions = await ctx.db
+      .query("recipeRevisions")
+      .withIndex("by_recipe_created", (q) => q.eq("recipeId", args.recipeId))
+      .order("desc")
+      .collect();
+
+    const authorNames = new Map<string, string>();
+    for (const authorId of new Set(revisions.map((revision) => revision.authorId))) {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_clerk_id", (q) => q.eq("clerkId", authorId))
+        .unique();
+      authorNames.set(authorId, user?.name ?? "Unknown");
+    }
+
+    return revisions.map((revision, index) => {
+      // The version that replaced this one
+      const next = index === 0 ? recipe : revisions[index - 1].snapshot;
+
+      return {
+        _id: revision._id,
+        authorName: authorNames.get(revision.authorId) ?? "Unknown",
+        isOwnChange: revision.authorId === identity.subject,
+        changeSummary: revision.changeSummary,
+        changedFields: diffRevisions(revision.snapshot, next).map((change) => change.field),
+        title: revision.snapshot.title,
+        createdAt: revision.createdAt,
+      };
+    });
+  },
+});
+
+/**
+ * Get a revision with its field-level diffs
+ *
+ * `changes` is what the change after this revision did; `restoreChanges`
+ * is what restoring it would change in the current recipe.
+ */
+export const getRevisionDiff = query({
+  args: {
+    revisionId: v.id("recipeRevisions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision) {
+      return null;
+    }
+
+    const recipe = await ctx.db.get(revision.recipeId);
+    if (!recipe || !(await canAccessRecipe(ctx, recipe, identity.subject))) {
+      return null;
+    }
+
+    // The next newer revision holds the version that replaced this one
+    const next = await ctx.db
+      .query("recipeRevisions")
+      .withIndex("by_recipe_created", (q) =>
+        q.eq("recipeId", revision.recipeId).gt("createdAt", revision.createdAt)
+      )
+      .first();
+    const replacedBy = next ? next.snapshot : recipe;
+
+    return {
+      _id: revision._id,
+      recipeId: revision.recipeId,
+      changeSummary: revision.changeSummary,
+      createdAt: revision.createdAt,
+      canRestore: recipe.userId === identity.subject,
+      changes: diffRevisions(revision.snapshot, replacedBy),
+      restoreChanges: diffRevisions(getRevisionSnapshot(recipe), revision.snapshot),
+    };
+  },
+});
@@ -7,12 +7,38 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { paginationOptsValidator } from "convex/server";
+import type { DataModel, Doc } from "./_generated/dataModel";
+import {
+  paginationOptsValidator,
+  type FilterBuilder,
+  type NamedTableInfo,
+  type PaginationResult,
+} from "convex/server";
+import { canAccessRecipe } from "./households";
+import { findSourceDuplicate } from "./recipeDuplicates";
+import { deleteRecipeRevisions, recordRevision } from "./recipeRevisions";
+import { diffRevisions, hasRevisionChanges } from "./lib/recipeRevisions";
+import { getVariationTitle } from "./lib/recipeVariations";
+import { hasConflict, mergeFieldChanges } from "./lib/offlineSync";
 import {
   transformAiIngredients,
   transformAiSteps,
   getPlaceholderImageUrl,
 } from "./lib/aiRecipeTransform";
+import { enrichIngredient } from "./lib/ingredientParser";
+import {
+  getCalculatedNutritionFields,
+  getNutritionMatchKey,
+  withCalculatedNutrition,
+} from "./lib/nutritionCalculator";
+import { getNutrientFood } from "./lib/nutrientTable";
+import {
+  getRecipeSearchFields,
+  hasAllDietaryTags,
+  MISSING_CALORIES_CURSOR_PREFIX,
+  normalizeSearchQuery,
+  withSearchFields,
+} from "./lib/recipeSearch";
 
 /**
  * Ingredient category validator
@@ -68,6 +94,20 @@ const ingredientObject = v.object({
   quantity: v.number(),
   unit: v.string(),
   category: ingredientCategory,
+  quantityMax: v.optional(v.number()),
+  packageSize: v.optional(v.object({ quantity: v.number(), unit: v.string() })),
+  preparation: v.optional(v.string()),
+  note: v.optional(v.string()),
+  optional: v.optional(v.boolean()),
+  section: v.optional(v.string()),
+});
+
+/**
+ * Instruction section validator
+ */
+const instructionSectionObject = v.object({
+  title: v.string(),
+  startIndex: v.number(),
 });
 
 /**
@@ -78,6 +118,9 @@ const nutritionObject = v.object({
   protein: v.number(),
   carbs: v.number(),
   fat: v.number(),
+  fiber: v.optional(v.number()),
+  sugar: v.optional(v.number()),
+  sodium: v.optional(v.number()),
 });
 
 /**
@@ -110,7 +153,8 @@ const aiStepObject = v.object({
  *
  * Creates a recipe with all provided fields and sets default values
  * for isFavorited (false), dietaryTags ([]), and notes ("").
- * Enforces source-specific validation rules.
+ * Enforces source-specific validation rules. Refuses a recipe whose
+ * source URL is already saved unless allowDuplicate is set.
  */
 export const createRecipe = mutation({
   args: {
@@ -126,6 +170,7 @@ export const createRecipe = mutation({
     cookTime: v.number(),
     ingredients: v.array(ingredientObject),
     instructions: v.array(v.string()),
+    instructionSections: v.optional(v.array(instructionSectionObject)),
     notes: v.optional(v.string()),
     nutrition: v.optional(nutritionObject),
     cuisineType: v.optional(v.string()),
@@ -134,6 +179,10 @@ export const createRecipe = mutation({
     dietaryTags: v.optional(v.array(v.string())),
     physicalCookbookId: v.optional(v.id("physicalCookbooks")),
     pageNumber: v.optional(v.string()),
+    // Recipe this one was derived from (e.g. a diet conversion saved as new)
+    parentRecipeId: v.optional(v.id("recipes")),
+    // Save even if the same video or URL is already saved
+    allowDuplicate: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     // Require authentication
@@ -175,10 +224,21 @@ export const createRecipe = mutation({
       }
     }
 
+    if (args.parentRecipeId) {
+      const parent = await ctx.db.get(args.parentRecipeId);
+      if (!parent || !(await canAccessRecipe(ctx, parent, userId))) {
+        throw new Error("Recipe not found");
+      }
+    }
+
+    if (!args.allowDuplicate && (await findSourceDuplicate(ctx, userId, args))) {
+      throw new Error("You already saved this recipe");
+    }
+
     const now = Date.now();
 
     // Create recipe with defaults
-    const recipeId = await ctx.db.insert("recipes", {
+    const recipeId = await ctx.db.insert("recipes", withSearchFields(withCalculatedNutrition({
       userId,
       title: args.title,
       source: args.source,
@@ -191,6 +251,7 @@ export const createRecipe = mutation({
       cookTime: args.cookTime,
       ingredients: args.ingredients,
       instructions: args.instructions,
+      instructionSections: args.instructionSections,
       notes: args.notes ?? "",
       nutrition: args.nutrition,
       cuisineType: args.cuisineType,
@@ -199,14 +260,93 @@ export const createRecipe = mutation({
       dietaryTags: args.dietaryTags ?? [],
       physicalCookbookId: args.physicalCookbookId,
       pageNumber: args.pageNumber,
+      parentRecipeId: args.parentRecipeId,
       createdAt: now,
       updatedAt: now,
-    });
+    })));
 
     return recipeId;
   },
 });
 
+/**
+ * Create a variation of a recipe
+ *
+ * Copies the recipe into the user's library linked to it by parentRecipeId.
+ * Content overrides (e.g. a diet conversion) replace the copied fields;
+ * otherwise the variation starts identical and is edited afterwards.
+ */
+export const createVariation = mutation({
+  args: {
+    recipeId: v.id("recipes"),
+    title: v.optional(v.string()),
+    ingredients: v.optional(v.array(ingredientObject)),
+    instructions: v.optional(v.array(v.string())),
+    instructionSections: v.optional(v.array(instructionSectionObject)),
+    notes: v.optional(v.string()),
+    dietaryTags: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    // Require authentication
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const parent = await ctx.db.get(args.recipeId);
+    if (!parent || !(await canAccessRecipe(ctx, parent, userId))) {
+      throw new Error("Recipe not found");
+    }
+
+    const title =
+      args.title?.trim() ||
+      getVariationTitle(
+        parent.title,
+        (
+          await ctx.db
+            .query("recipes")
+            .withIndex("by_user", (q) => q.eq("userId", userId))
+            .collect()
+        ).map((recipe) => recipe.title)
+      );
+
+    // A physical cookbook belongs to the parent's owner
+    const isOwnRecipe = parent.userId === userId;
+    const now = Date.now();
+
+    return await ctx.db.insert("recipes", withSearchFields(withCalculatedNutrition({
+      userId,
+      title,
+      source: parent.source,
+      sourceUrl: parent.sourceUrl,
+      youtubeVideoId: parent.youtubeVideoId,
+      sourceName: parent.sourceName,
+      imageUrl: parent.imageUrl,
+      servings: parent.servings,
+      prepTime: parent.prepTime,
+      cookTime: parent.cookTime,
+      ingredients: args.ingredients ?? parent.ingredients,
+      instructions: args.instructions ?? parent.instructions,
+      instructionSections: args.instructionSections ?? parent.instructionSections,
+      notes: args.notes ?? parent.notes,
+      nutrition: parent.nutrition,
+      nutritionCalculated: parent.nutritionCalculated,
+      nutritionMatches: parent.nutritionMatches,
+      cuisineType: parent.cuisineType,
+      isFavorited: false,
+      difficulty: parent.difficulty,
+      dietaryTags: args.dietaryTags ?? parent.dietaryTags,
+      physicalCookbookId: isOwnRecipe ? parent.physicalCookbookId : undefined,
+      pageNumber: isOwnRecipe ? parent.pageNumber : undefined,
+      parentRecipeId: parent._id,
+      createdAt: now,
+      updatedAt: now,
+    })));
+  },
+});
+
 /**
  * Save a scanned recipe
  *
@@ -218,6 +358,7 @@ export const saveScannedRecipe = mutation({
     title: v.string(),
     ingredients: v.array(ingredientObject),
     instructions: v.array(v.string()),
+    instructionSections: v.optional(v.array(instructionSectionObject)),
     servings: v.number(),
     prepTime: v.number(),
     cookTime: v.number(),
@@ -250,7 +391,7 @@ export const saveScannedRecipe = mutation({
     const now = Date.now();
 
     // Create recipe as scanned
-    const recipeId = await ctx.db.insert("recipes", {
+    const recipeId = await ctx.db.insert("recipes", withSearchFields(withCalculatedNutrition({
       userId,
       title: args.title,
       source: "scanned",
@@ -260,6 +401,7 @@ export const saveScannedRecipe = mutation({
       cookTime: args.cookTime,
       ingredients: args.ingredients,
       instructions: args.instructions,
+      instructionSections: args.instructionSections,
       notes: args.notes ?? "",
       isFavorited: false,
       dietaryTags: [],
@@ -267,7 +409,7 @@ export const saveScannedRecipe = mutation({
       pageNumber: args.pageNumber,
       createdAt: now,
       updatedAt: now,
-    });
+    })));
 
     // If session ID provided, add recipe to session
     if (args.sessionId) {
@@ -287,13 +429,15 @@ export const saveScannedRecipe = mutation({
  * Save a recipe from YouTube
  *
  * Convenience mutation specifically for saving recipes extracted from YouTube videos.
- * Sets source to 'youtube' and stores video metadata.
+ * Sets source to 'youtube' and stores video metadata. Refuses a video
+ * that is already saved unless allowDuplicate is set.
  */
 export const saveFromYouTube = mutation({
   args: {
     title: v.string(),
     ingredients: v.array(ingredientObject),
     instructions: v.array(v.string()),
+    instructionSections: v.optional(v.array(instructionSectionObject)),
     servings: v.number(),
     prepTime: v.number(),
     cookTime: v.number(),
@@ -306,6 +450,8 @@ export const saveFromYouTube = mutation({
     cuisineType: v.optional(v.string()),
     difficulty: v.optional(difficultyLevel),
     dietaryTags: v.optional(v.array(v.string())),
+    // Save even if the video is already saved
+    allowDuplicate: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     // Require authentication
@@ -315,10 +461,15 @@ export const saveFromYouTube = mutation({
     }
 
     const userId = identity.subject;
+
+    if (!args.allowDuplicate && (await findSourceDuplicate(ctx, userId, args))) {
+      throw new Error("You already saved this recipe");
+    }
+
     const now = Date.now();
 
     // Create recipe from YouTube
-    const recipeId = await ctx.db.insert("recipes", {
+    const recipeId = await ctx.db.insert("recipes", withSearchFields(withCalculatedNutrition({
       userId,
       title: args.title,
       source: "youtube",
@@ -331,6 +482,7 @@ export const saveFromYouTube = mutation({
       cookTime: args.cookTime,
       ingredients: args.ingredients,
       instructions: args.instructions,
+      instructionSections: args.instructionSections,
       notes: args.notes ?? "",
       cuisineType: args.cuisineType,
       isFavorited: false,
@@ -338,7 +490,7 @@ export const saveFromYouTube = mutation({
       dietaryTags: args.dietaryTags ?? [],
       createdAt: now,
       updatedAt: now,
-    });
+    })));
 
     return recipeId;
   },
@@ -378,7 +530,7 @@ export const saveAiGeneratedRecipe = mutation({
     const now = Date.now();
 
     // Transform AI ingredients to app format
-    const transformedIngredients = transformAiIngredients(args.ingredients);
+    const transformedIngredients = transformAiIngredients(args.ingredients).map(enrichIngredient);
 
     // Transform AI steps to instruction strings
     const instructions = transformAiSteps(args.steps);
@@ -396,7 +548,7 @@ export const saveAiGeneratedRecipe = mutation({
     const cookTime = args.estimatedTotalTimeMinutes - prepTime;
 
     // Create recipe with ai_generated source
-    const recipeId = await ctx.db.insert("recipes", {
+    const recipeId = await ctx.db.insert("recipes", withSearchFields(withCalculatedNutrition({
       userId,
       title: args.name,
       source: "ai_generated",
@@ -412,41 +564,59 @@ export const saveAiGeneratedRecipe = mutation({
       dietaryTags: args.tags,
       createdAt: now,
       updatedAt: now,
-    });
+    })));
 
     return recipeId;
   },
 });
 
+/**
+ * Editable recipe fields
+ */
+const recipeUpdateFields = {
+  title: v.optional(v.string()),
+  source: v.optional(recipeSource),
+  sourceUrl: v.optional(v.string()),
+  youtubeVideoId: v.optional(v.string()),
+  imageUrl: v.optional(v.string()),
+  servings: v.optional(v.number()),
+  prepTime: v.optional(v.number()),
+  cookTime: v.optional(v.number()),
+  ingredients: v.optional(v.array(ingredientObject)),
+  instructions: v.optional(v.array(v.string())),
+  instructionSections: v.optional(v.array(instructionSectionObject)),
+  notes: v.optional(v.string()),
+  nutrition: v.optional(nutritionObject),
+  cuisineType: v.optional(v.string()),
+  isFavorited: v.optional(v.boolean()),
+  difficulty: v.optional(difficultyLevel),
+  dietaryTags: v.optional(v.array(v.string())),
+  physicalCookbookId: v.optional(v.id("physicalCookbooks")),
+  pageNumber: v.optional(v.string()),
+};
+
 /**
  * Update an existing recipe
  *
  * Updates a recipe with the provided fields. Validates user ownership
  * and automatically updates the updatedAt timestamp.
+ *
+ * Offline replays pass the recipe's updatedAt and field values the edit
+ * was based on. If the recipe changed since, fields also changed elsewhere
+ * keep their server value and are returned as conflictingFields.
+ *
+ * If the update changes the recipe's content, the prior version is stored
+ * as a revision labelled with changeSummary (defaults to "Edited").
  */
 export const updateRecipe = mutation({
   args: {
     id: v.id("recipes"),
-    title: v.optional(v.string()),
-    source: v.optional(recipeSource),
-    sourceUrl: v.optional(v.string()),
-    youtubeVideoId: v.optional(v.string()),
-    imageUrl: v.optional(v.string()),
-    servings: v.optional(v.number()),
-    prepTime: v.optional(v.number()),
-    cookTime: v.optional(v.number()),
-    ingredients: v.optional(v.array(ingredientObject)),
-    instructions: v.optional(v.array(v.string())),
-    notes: v.optional(v.string()),
-    nutrition: v.optional(nutritionObject),
-    cuisineType: v.optional(v.string()),
-    isFavorited: v.optional(v.boolean()),
-    difficulty: v.optional(difficultyLevel),
-    dietaryTags: v.optional(v.array(v.string())),
-    physicalCookbookId: v.optional(v.id("physicalCookbooks")),
-    pageNumber: v.optional(v.string()),
+    ...recipeUpdateFields,
+    expectedUpdatedAt: v.optional(v.number()),
+    base: v.optional(v.object(recipeUpdateFields)),
+    changeSummary: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, rawArgs) => {
     // Require authentication
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) {
@@ -456,7 +626,7 @@ export const updateRecipe = mutation({
     const userId = identity.subject;
 
     // Fetch the existing recipe
-    const recipe = await ctx.db.get(args.id);
+    const recipe = await ctx.db.get(rawArgs.id);
     if (!recipe) {
       throw new Error("Recipe not found");
     }
@@ -466,6 +636,18 @@ export const updateRecipe = mutation({
       throw new Error("You do not have permission to update this recipe");
     }
 
+    // Merge offline edits with changes made since
+    const { expectedUpdatedAt, base, changeSummary, ...fields } = rawArgs;
+    let args = fields;
+    let conflictingFields: string[] = [];
+
+    if (hasConflict(recipe.updatedAt, expectedUpdatedAt)) {
+      const { id, ...changes } = fields;
+      const merged = mergeFieldChanges(changes, base ?? {}, recipe);
+      args = { id, ...merged.patch };
+      conflictingFields = merged.conflictingFields;
+    }
+
     // Determine the effective source (updated or existing)
     const effectiveSource = args.source ?? recipe.source;
 
@@ -496,9 +678,10 @@ export const updateRecipe = mutation({
 
     // Build update object with only provided fields
     const { id, ...updateFields } = args;
+    const updatedAt = Date.now();
     const updates: Record<string, unknown> = {
       ...updateFields,
-      updatedAt: Date.now(),
+      updatedAt,
     };
 
     // Remove undefined values
@@ -508,9 +691,46 @@ export const updateRecipe = mutation({
       }
     });
 
+    // Keep the denormalized search fields in sync
+    Object.assign(
+      updates,
+      getRecipeSearchFields({
+        title: args.title ?? recipe.title,
+        ingredients: args.ingredients ?? recipe.ingredients,
+        cuisineType: args.cuisineType ?? recipe.cuisineType,
+        notes: args.notes ?? recipe.notes,
+        dietaryTags: args.dietaryTags ?? recipe.dietaryTags,
+        prepTime: args.prepTime ?? recipe.prepTime,
+        cookTime: args.cookTime ?? recipe.cookTime,
+      })
+    );
+
+    // Nutrition entered by the user replaces calculated values; otherwise
+    // recalculate when the ingredients or servings change
+    if (args.nutrition) {
+      updates.nutritionCalculated = undefined;
+      updates.unmatchedIngredients = undefined;
+    } else if (args.ingredients || args.servings !== undefined) {
+      Object.assign(
+        updates,
+        getCalculatedNutritionFields({
+          ingredients: args.ingredients ?? recipe.ingredients,
+          servings: args.servings ?? recipe.servings,
+          nutrition: recipe.nutrition,
+          nutritionCalculated: recipe.nutritionCalculated,
+          nutritionMatches: recipe.nutritionMatches,
+        }) ?? {}
+      );
+    }
+
+    // Keep the prior version so the change can be reverted
+    if (hasRevisionChanges(recipe, updates)) {
+      await recordRevision(ctx, recipe, userId, changeSummary ?? "Edited");
+    }
+
     await ctx.db.patch(args.id, updates);
 
-    return args.id;
+    return { id: args.id, conflictingFields, updatedAt };
   },
 });
 
@@ -543,6 +763,28 @@ export const deleteRecipe = mutation({
       throw new Error("You do not have permission to delete this recipe");
     }
 
+    // Delete the recipe's cook history
+    const cookLogs = await ctx.db
+      .query("cookLogs")
+      .withIndex("by_recipe_cooked", (q) => q.eq("recipeId", args.id))
+      .collect();
+
+    for (const log of cookLogs) {
+      await ctx.db.delete(log._id);
+    }
+
+    await deleteRecipeRevisions(ctx, args.id);
+
+    // Variations stay as standalone recipes
+    const variations = await ctx.db
+      .query("recipes")
+      .withIndex("by_parent", (q) => q.eq("parentRecipeId", args.id))
+      .collect();
+
+    for (const variation of variations) {
+      await ctx.db.patch(variation._id, { parentRecipeId: undefined });
+    }
+
     await ctx.db.delete(args.id);
 
     return args.id;
@@ -589,6 +831,70 @@ export const toggleFavorite = mutation({
   },
 });
 
+/**
+ * Correct the reference food used for an ingredient's nutrition
+ *
+ * The correction applies to every ingredient with the same name and
+ * recalculates the recipe's nutrition. A null foodId leaves the
+ * ingredient out; omitting foodId goes back to automatic matching.
+ */
+export const setNutritionMatch = mutation({
+  args: {
+    id: v.id("recipes"),
+    ingredient: v.string(),
+    foodId: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    // Require authentication
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    // Fetch the recipe
+    const recipe = await ctx.db.get(args.id);
+    if (!recipe) {
+      throw new Error("Recipe not found");
+    }
+
+    // Validate ownership
+    if (recipe.userId !== userId) {
+      throw new Error("You do not have permission to modify this recipe");
+    }
+
+    if (args.foodId && !getNutrientFood(args.foodId)) {
+      throw new Error("Unknown food");
+    }
+
+    const key = getNutritionMatchKey(args.ingredient);
+    const nutritionMatches = (recipe.nutritionMatches ?? []).filter(
+      (match) => match.ingredient !== key
+    );
+    if (args.foodId !== undefined) {
+      nutritionMatches.push({ ingredient: key, foodId: args.foodId });
+    }
+
+    // Corrections only affect calculated nutrition
+    const calculated = getCalculatedNutritionFields({
+      ingredients: recipe.ingredients,
+      servings: recipe.servings,
+      nutrition: recipe.nutrition,
+      nutritionCalculated: recipe.nutritionCalculated,
+      nutritionMatches,
+    });
+
+    await ctx.db.patch(args.id, {
+      nutritionMatches,
+      ...calculated,
+      updatedAt: Date.now(),
+    });
+
+    return calculated?.nutrition ?? null;
+  },
+});
+
 // ============================================================================
 // QUERIES
 // ============================================================================
@@ -734,7 +1040,8 @@ export const getRecipes = query({
 /**
  * Get a single recipe by ID
  *
- * Returns the recipe if it exists and belongs to the authenticated user.
+ * Returns the recipe if it exists and belongs to the authenticated user
+ * or is in a cookbook shared with their household.
  * Returns null if the recipe doesn't exist or user doesn't have access.
  */
 export const getRecipeById = query({
@@ -752,8 +1059,8 @@ export const getRecipeById = query({
 
     const recipe = await ctx.db.get(args.id);
 
-    // Return null if recipe doesn't exist or user doesn't own it
-    if (!recipe || recipe.userId !== userId) {
+    // Return null if recipe doesn't exist or user can't access it
+    if (!recipe || !(await canAccessRecipe(ctx, recipe, userId))) {
       return null;
     }
 
@@ -799,10 +1106,15 @@ export const getFavoriteRecipes = query({
  * Get paginated recipes with search, filter, and sort
  *
  * Returns paginated recipes for the authenticated user with support for:
- * - Text search on title and ingredient names
- * - Source type filtering (youtube, website, scanned, manual, ai_generated)
+ * - Full-text search on title, ingredient names, cuisine, notes, and
+ *   dietary tags (ranked by relevance via the search_text index)
+ * - Source, cuisine, difficulty, dietary tag, and max total time filters
  * - Multiple sort options (mostRecent, alphabetical, cookTime, calories, recentlyCooked)
+ *   when not searching
  * - Cursor-based pagination for infinite scroll
+ *
+ * Dietary tags can't be filtered by the database, so they are applied to
+ * each page; pages may contain fewer than numItems recipes.
  */
 export const listRecipes = query({
   args: {
@@ -810,6 +1122,10 @@ export const listRecipes = query({
     sourceFilter: v.optional(recipeSource),
     searchQuery: v.optional(v.string()),
     sortBy: v.optional(sortOption),
+    cuisineType: v.optional(v.string()),
+    difficulty: v.optional(difficultyLevel),
+    dietaryTags: v.optional(v.array(v.string())),
+    maxTotalTime: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     // Require authentication
@@ -819,66 +1135,179 @@ export const listRecipes = query({
     }
 
     const userId = identity.subject;
-    const searchQuery = args.searchQuery?.toLowerCase().trim();
+    const searchQuery = normalizeSearchQuery(args.searchQuery);
     const sortBy = args.sortBy ?? "mostRecent";
+    const { maxTotalTime } = args;
+
+    // Apply dietary tag filter to a page of results. Array fields can't be
+    // filtered by the database and only one paginate() runs per query, so
+    // filtered pages can be short; the recipe list keeps loading until full.
+    const finishPage = (result: PaginationResult<Doc<"recipes">>) => ({
+      page: result.page.filter((recipe) =>
+        hasAllDietaryTags(recipe.dietaryTags, args.dietaryTags)
+      ),
+      isDone: result.isDone,
+      continueCursor: result.continueCursor,
+      splitCursor: result.splitCursor,
+      pageStatus: result.pageStatus,
+    });
 
-    // Fetch all user's recipes for filtering and sorting
-    // Note: For large datasets, consider adding more indexes
-    let recipesQuery = ctx.db
-      .query("recipes")
-      .withIndex("by_user", (q) => q.eq("userId", userId));
+    // Recipes whose total time isn't known don't match a time limit
+    const withinMaxTotalTime = (q: FilterBuilder<NamedTableInfo<DataModel, "recipes">>) =>
+      maxTotalTime !== undefined
+        ? q.and(
+            q.neq(q.field("totalTime"), undefined),
+            q.lte(q.field("totalTime"), maxTotalTime)
+          )
+        : true;
 
-    const allRecipes = await recipesQuery.collect();
+    // Ranked full-text search
+    if (searchQuery) {
+      let searchQueryBuilder = ctx.db
+        .query("recipes")
+        .withSearchIndex("search_text", (q) => {
+          let search = q.search("searchText", searchQuery).eq("userId", userId);
+          if (args.sourceFilter) search = search.eq("source", args.sourceFilter);
+          if (args.cuisineType) search = search.eq("cuisineType", args.cuisineType);
+          if (args.difficulty) search = search.eq("difficulty", args.difficulty);
+          return search;
+        });
 
-    // Apply source filter
-    let filteredRecipes = args.sourceFilter
-      ? allRecipes.filter((r) => r.source === args.sourceFilter)
-      : allRecipes;
+      if (maxTotalTime !== undefined) {
+        searchQueryBuilder = searchQueryBuilder.filter(withinMaxTotalTime);
+      }
 
-    // Apply text search on title and ingredient names
-    if (searchQuery) {
-      filteredRecipes = filteredRecipes.filter((recipe) => {
-        const titleMatch = recipe.title.toLowerCase().includes(searchQuery);
-        const ingredientMatch = recipe.ingredients.some((ing) =>
-          ing.name.toLowerCase().includes(searchQuery)
-        );
-        return titleMatch || ingredientMatch;
-      });
+      return finishPage(await searchQueryBuilder.paginate(args.paginationOpts));
     }
 
-    // Apply sorting
-    filteredRecipes.sort((a, b) => {
+    // Indexed browsing with the selected sort
+    const sortedQuery = (() => {
       switch (sortBy) {
         case "alphabetical":
-          return a.title.localeCompare(b.title);
+          return ctx.db
+            .query("recipes")
+            .withIndex("by_user_title", (q) => q.eq("userId", userId))
+            .order("asc");
         case "cookTime":
-          return (a.prepTime + a.cookTime) - (b.prepTime + b.cookTime);
+          return ctx.db
+            .query("recipes")
+            .withIndex("by_user_total_time", (q) => q.eq("userId", userId))
+            .order("asc");
         case "calories":
-          const aCalories = a.nutrition?.calories ?? Infinity;
-          const bCalories = b.nutrition?.calories ?? Infinity;
-          return aCalories - bCalories;
+          // Recipes with calories first; the rest follow in a second phase
+          if (args.paginationOpts.cursor?.startsWith(MISSING_CALORIES_CURSOR_PREFIX)) {
+            return ctx.db
+              .query("recipes")
+              .withIndex("by_user_calories", (q) =>
+                q.eq("userId", userId).eq("nutrition.calories", undefined)
+              )
+              .order("desc");
+          }
+          return ctx.db
+            .query("recipes")
+            .withIndex("by_user_calories", (q) =>
+              q.eq("userId", userId).gte("nutrition.calories", 0)
+            )
+            .order("asc");
         case "recentlyCooked":
-          // For now, use updatedAt as proxy for recently cooked
-          return b.updatedAt - a.updatedAt;
+          // Never-cooked recipes sort last, newest first among themselves
+          return ctx.db
+            .query("recipes")
+            .withIndex("by_user_last_cooked", (q) => q.eq("userId", userId))
+            .order("desc");
         case "mostRecent":
         default:
-          return b.createdAt - a.createdAt;
+          return ctx.db
+            .query("recipes")
+            .withIndex("by_user_created", (q) => q.eq("userId", userId))
+            .order("desc");
       }
+    })().filter((q) =>
+      q.and(
+        args.sourceFilter ? q.eq(q.field("source"), args.sourceFilter) : true,
+        args.cuisineType ? q.eq(q.field("cuisineType"), args.cuisineType) : true,
+        args.difficulty ? q.eq(q.field("difficulty"), args.difficulty) : true,
+        withinMaxTotalTime(q)
+      )
+    );
+
+    if (sortBy !== "calories") {
+      return finishPage(await sortedQuery.paginate(args.paginationOpts));
+    }
+
+    // Calories sort: strip or add the phase prefix around the real cursors.
+    // Split pages pass their end back as endCursor, which carries the prefix
+    // too; a bare prefix ends a page at the last recipe with calories.
+    const { cursor, endCursor } = args.paginationOpts;
+    const inMissingPhase = !!cursor?.startsWith(MISSING_CALORIES_CURSOR_PREFIX);
+    const endsAfterPhase = !!endCursor?.startsWith(MISSING_CALORIES_CURSOR_PREFIX);
+    const stripPrefix = (phaseCursor: string) =>
+      phaseCursor.slice(MISSING_CALORIES_CURSOR_PREFIX.length) || null;
+
+    if (inMissingPhase) {
+      const phaseOpts = {
+        ...args.paginationOpts,
+        cursor: stripPrefix(cursor!),
+        endCursor: endsAfterPhase ? stripPrefix(endCursor!) : endCursor,
+      };
+      const result = await sortedQuery.paginate(phaseOpts);
+
+      return finishPage({
+        ...result,
+        continueCursor: MISSING_CALORIES_CURSOR_PREFIX + result.continueCursor,
+        splitCursor: result.splitCursor && MISSING_CALORIES_CURSOR_PREFIX + result.splitCursor,
+      });
+    }
+
+    const phaseOpts = {
+      ...args.paginationOpts,
+      endCursor: endsAfterPhase ? null : endCursor,
+    };
+    const result = await sortedQuery.paginate(phaseOpts);
+
+    // After the last recipe with calories, continue with the rest
+    return finishPage({
+      ...result,
+      isDone: false,
+      continueCursor: result.isDone
+        ? MISSING_CALORIES_CURSOR_PREFIX
+        : result.continueCursor,
     });
+  },
+});
 
-    // Manual pagination
-    const numToSkip = args.paginationOpts.cursor
-      ? parseInt(args.paginationOpts.cursor)
-      : 0;
-    const numItems = args.paginationOpts.numItems;
+/**
+ * Get filter options for the recipe list
+ *
+ * Returns the distinct cuisines and dietary tags in the user's library,
+ * used to build the cuisine and dietary tag filters.
+ */
+export const getRecipeFilterOptions = query({
+  args: {},
+  handler: async (ctx) => {
+    // Require authentication
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
 
-    const paginatedRecipes = filteredRecipes.slice(numToSkip, numToSkip + numItems);
-    const hasMore = numToSkip + numItems < filteredRecipes.length;
+    const recipes = await ctx.db
+      .query("recipes")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const cuisines = new Set<string>();
+    const dietaryTags = new Set<string>();
+    for (const recipe of recipes) {
+      if (recipe.cuisineType) cuisines.add(recipe.cuisineType);
+      for (const tag of recipe.dietaryTags) dietaryTags.add(tag.toLowerCase());
+    }
 
     return {
-      page: paginatedRecipes,
-      isDone: !hasMore,
-      continueCursor: hasMore ? String(numToSkip + numItems) : null,
+      cuisines: [...cuisines].sort((a, b) => a.localeCompare(b)),
+      dietaryTags: [...dietaryTags].sort((a, b) => a.localeCompare(b)),
     };
   },
 });
@@ -904,8 +1333,8 @@ export const get = query({
 
     const recipe = await ctx.db.get(args.id);
 
-    // Return null if recipe doesn't exist or user doesn't own it
-    if (!recipe || recipe.userId !== userId) {
+    // Return null if recipe doesn't exist or user can't access it
+    if (!recipe || !(await canAccessRecipe(ctx, recipe, userId))) {
       return null;
     }
 
@@ -929,3 +1358,84 @@ export const get = query({
     };
   },
 });
+
+/**
+ * List a recipe's variations
+ *
+ * Returns variations the user can open, oldest first.
+ */
+export const getVariations = query({
+  args: {
+    recipeId: v.id("recipes"),
+  },
+  handler: async (ctx, args) => {
+    // Require authentication
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const variations = await ctx.db
+      .query("recipes")
+      .withIndex("by_parent", (q) => q.eq("parentRecipeId", args.recipeId))
+      .collect();
+
+    const visible: Doc<"recipes">[] = [];
+    for (const variation of variations) {
+      if (await canAccessRecipe(ctx, variation, userId)) {
+        visible.push(variation);
+      }
+    }
+
+    return visible
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((variation) => ({
+        _id: variation._id,
+        title: variation.title,
+        imageUrl: variation.imageUrl,
+        dietaryTags: variation.dietaryTags,
+        createdAt: variation.createdAt,
+      }));
+  },
+});
+
+/**
+ * Compare a variation with the recipe it was forked from
+ *
+ * Returns the parent and a field-level diff from parent to variation, or
+ * null if the recipe isn't a variation or the parent can't be opened.
+ */
+export const getParentComparison = query({
+  args: {
+    recipeId: v.id("recipes"),
+  },
+  handler: async (ctx, args) => {
+    // Require authentication
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+
+    const recipe = await ctx.db.get(args.recipeId);
+    if (!recipe?.parentRecipeId || !(await canAccessRecipe(ctx, recipe, userId))) {
+      return null;
+    }
+
+    const parent = await ctx.db.get(recipe.parentRecipeId);
+    if (!parent || !(await canAccessRecipe(ctx, parent, userId))) {
+      return null;
+    }
+
+    return {
+      parent: {
+        _id: parent._id,
+        title: parent.title,
+      },
+      changes: diffRevisions(parent, recipe),
+    };
+  },
+});
@@ -2,9 +2,10 @@
  * Convex Schema Definitions
  *
  * Defines the database schema for Digero's recipe management system.
- * Includes tables for users, recipes, physical cookbooks, digital cookbooks,
- * scan sessions, meal planner, shopping lists, YouTube channels,
- * AI chat messages, subscription tracking, and creator economy features.
+ * Includes tables for users, account deletion audits, data exports, recipes,
+ * physical cookbooks, digital cookbooks, scan sessions, cook logs, meal planner,
+ * shopping lists, YouTube channels, AI chat messages, subscription tracking,
+ * and creator economy features.
  */
 
 import { defineSchema, defineTable } from "convex/server";
@@ -20,6 +21,32 @@ const cookingSkillLevel = v.union(
   v.literal("advanced")
 );
 
+/**
+ * Unit system validator
+ * Preferred measurement system for ingredient quantities
+ */
+const unitSystem = v.union(v.literal("imperial"), v.literal("metric"));
+
+/**
+ * Account deletion status validator
+ * - in_progress: Deletion job is still removing user data in batches
+ * - completed: All user-owned documents and files have been removed
+ */
+const accountDeletionStatus = v.union(
+  v.literal("in_progress"),
+  v.literal("completed")
+);
+
+/**
+ * Account deletion source validator
+ * - user: Requested from the app's Delete Account confirmation
+ * - webhook: Triggered by a Clerk user.deleted event
+ */
+const accountDeletionSource = v.union(
+  v.literal("user"),
+  v.literal("webhook")
+);
+
 /**
  * Subscription status validator
  * 4-value union for tracking user subscription state
@@ -221,24 +248,66 @@ const messageStatus = v.union(
 /**
  * Ingredient object structure
  * Supports structured storage for shopping list generation
+ * Detail fields are set by the ingredient parser when the source line had them
  */
 const ingredientObject = v.object({
   name: v.string(),
   quantity: v.number(),
   unit: v.string(),
   category: ingredientCategory,
+  // Upper end of a range ("1-2 tbsp")
+  quantityMax: v.optional(v.number()),
+  // Size of each package ("2 (14 oz) cans")
+  packageSize: v.optional(v.object({ quantity: v.number(), unit: v.string() })),
+  preparation: v.optional(v.string()),
+  note: v.optional(v.string()),
+  optional: v.optional(v.boolean()),
+  // Named group, e.g. "For the sauce"
+  section: v.optional(v.string()),
+});
+
+/**
+ * Where a titled group of instruction steps starts
+ * e.g. { title: "For the dough", startIndex: 0 }
+ */
+const instructionSectionObject = v.object({
+  title: v.string(),
+  startIndex: v.number(),
 });
 
 /**
  * Nutrition object structure
- * Optional nested object for future Edamam API integration
- * All values in kcal (calories) or grams (macros)
+ * Per serving; values in kcal (calories), mg (sodium) or grams (the rest)
+ * Fiber, sugar and sodium are filled in by the nutrition calculator
  */
 const nutritionObject = v.object({
   calories: v.number(),
   protein: v.number(),
   carbs: v.number(),
   fat: v.number(),
+  fiber: v.optional(v.number()),
+  sugar: v.optional(v.number()),
+  sodium: v.optional(v.number()),
+});
+
+/**
+ * User correction of the reference food used for an ingredient
+ * foodId is null when the ingredient should be left out of nutrition
+ */
+const nutritionMatchObject = v.object({
+  ingredient: v.string(),
+  foodId: v.union(v.string(), v.null()),
+});
+
+/**
+ * Daily nutrition targets
+ * Each value is optional; nutrients without a target aren't tracked
+ */
+const nutritionTargetsObject = v.object({
+  calories: v.optional(v.number()),
+  protein: v.optional(v.number()),
+  carbs: v.optional(v.number()),
+  fat: v.optional(v.number()),
 });
 
 export default defineSchema({
@@ -263,6 +332,15 @@ export default defineSchema({
     cookingSkillLevel: v.optional(cookingSkillLevel),
     dietaryRestrictions: v.array(v.string()),
 
+    // Preferred measurement system (defaults to imperial when unset)
+    preferredUnitSystem: v.optional(unitSystem),
+
+    // People usually cooked for; default servings for planned meals
+    householdSize: v.optional(v.number()),
+
+    // Daily nutrition targets for the meal planner dashboard
+    nutritionTargets: v.optional(nutritionTargetsObject),
+
     // Onboarding status
     hasCompletedOnboarding: v.boolean(),
 
@@ -286,6 +364,59 @@ export default defineSchema({
     // Index for looking up user by RevenueCat user ID
     .index("by_revenuecat_id", ["revenuecatUserId"]),
 
+  /**
+   * Account Deletions Table
+   *
+   * Audit log of account deletion jobs. Also stores the job's progress so
+   * an interrupted deletion can resume from the step it stopped at.
+   * Entries are kept after completion as a record of compliance with the
+   * privacy policy; they contain no profile data beyond the Clerk ID.
+   */
+  accountDeletions: defineTable({
+    // Clerk user ID of the deleted account
+    userId: v.string(),
+
+    // Who initiated the deletion
+    source: accountDeletionSource,
+
+    // Job progress
+    status: accountDeletionStatus,
+    // Index into the ordered list of deletion steps
+    currentStep: v.number(),
+
+    // Running totals of removed documents and storage files
+    documentsDeleted: v.number(),
+    filesDeleted: v.number(),
+
+    // Timestamps (Unix milliseconds)
+    requestedAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    // Index for finding a user's deletion job
+    .index("by_user", ["userId"]),
+
+  /**
+   * Data Exports Table
+   *
+   * Tracks temporary export files in Convex storage (personal data
+   * exports and Paprika recipe archives).
+   * Each file is deleted by a scheduled job once expiresAt passes.
+   */
+  dataExports: defineTable({
+    // Clerk user ID of the exporting user
+    userId: v.string(),
+
+    // Export file in Convex file storage
+    storageId: v.id("_storage"),
+
+    // Timestamps (Unix milliseconds)
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    // Index for fetching a user's exports
+    .index("by_user", ["userId"]),
+
   /**
    * Scan History Table
    *
@@ -331,10 +462,19 @@ export default defineSchema({
     // Recipe content
     ingredients: v.array(ingredientObject),
     instructions: v.array(v.string()),
+    // Titled groups of steps; ingredients carry their own section
+    instructionSections: v.optional(v.array(instructionSectionObject)),
     notes: v.optional(v.string()),
 
-    // Nutrition data (optional, for future Edamam integration)
+    // Nutrition per serving, entered by the user or imported with the recipe,
+    // or calculated from the ingredients (see lib/nutritionCalculator.ts)
     nutrition: v.optional(nutritionObject),
+    // True when nutrition was calculated and should follow ingredient edits
+    nutritionCalculated: v.optional(v.boolean()),
+    // Ingredients the calculator couldn't match or weigh
+    unmatchedIngredients: v.optional(v.array(v.string())),
+    // User corrections of ingredient matches
+    nutritionMatches: v.optional(v.array(nutritionMatchObject)),
 
     // Metadata
     cuisineType: v.optional(v.string()),
@@ -349,6 +489,19 @@ export default defineSchema({
     // Stored as string to support ranges like "pp. 42-43"
     pageNumber: v.optional(v.string()),
 
+    // Recipe this one is a variation of (e.g. "less sugar, add chili")
+    parentRecipeId: v.optional(v.id("recipes")),
+
+    // Denormalized cook history (source of truth is the cookLogs table)
+    lastCookedAt: v.optional(v.number()),
+    timesCooked: v.optional(v.number()),
+
+    // Denormalized search fields (see lib/recipeSearch.ts)
+    // searchText: title, ingredient names, cuisine, dietary tags, and notes
+    searchText: v.optional(v.string()),
+    // prepTime + cookTime, for the cook time sort and max time filter
+    totalTime: v.optional(v.number()),
+
     // Timestamps (Unix milliseconds)
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -360,7 +513,91 @@ export default defineSchema({
     // Index for favorites filtering
     .index("by_user_favorited", ["userId", "isFavorited"])
     // Index for fetching recipes by physical cookbook
-    .index("by_physical_cookbook", ["physicalCookbookId"]),
+    .index("by_physical_cookbook", ["physicalCookbookId"])
+    // Indexes for recipe list sort options
+    .index("by_user_title", ["userId", "title"])
+    .index("by_user_total_time", ["userId", "totalTime"])
+    .index("by_user_calories", ["userId", "nutrition.calories"])
+    .index("by_user_last_cooked", ["userId", "lastCookedAt"])
+    // Index for listing a recipe's variations
+    .index("by_parent", ["parentRecipeId"])
+    // Index for finding recipes that share a stored image
+    .index("by_image_url", ["imageUrl"])
+    // Full-text search over title, ingredients, cuisine, tags, and notes
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId", "source", "cuisineType", "difficulty"],
+    }),
+
+  /**
+   * Cook Logs Table
+   *
+   * Records each time a user cooks a recipe, either by finishing
+   * cook mode or by marking the recipe as cooked from the detail screen.
+   * Drives the "recently cooked" sort and per-recipe cook history.
+   */
+  cookLogs: defineTable({
+    // User relationship - Clerk user ID for multi-tenancy
+    userId: v.string(),
+
+    // Recipe that was cooked
+    recipeId: v.id("recipes"),
+
+    // When the recipe was cooked (Unix milliseconds)
+    cookedAt: v.number(),
+
+    // Optional details captured when logging
+    servingsMade: v.optional(v.number()),
+    rating: v.optional(v.number()), // 1-5 stars
+    notes: v.optional(v.string()),
+
+    // Timestamp (Unix milliseconds)
+    createdAt: v.number(),
+  })
+    // Index for fetching a recipe's cook history in date order
+    .index("by_recipe_cooked", ["recipeId", "cookedAt"])
+    // Index for fetching user's cook history in date order
+    .index("by_user_cooked", ["userId", "cookedAt"]),
+
+  /**
+   * Recipe Revisions Table
+   *
+   * Prior versions of a recipe's content, stored before each update that
+   * changes it so edits and AI conversions can be reviewed and reverted.
+   * Capped per recipe (see lib/recipeRevisions.ts).
+   */
+  recipeRevisions: defineTable({
+    // Recipe this is a prior version of
+    recipeId: v.id("recipes"),
+
+    // Clerk user ID of whoever made the change that replaced this version
+    authorId: v.string(),
+
+    // What replaced this version, e.g. "Edited" or "Converted to Vegan"
+    changeSummary: v.string(),
+
+    // Recipe content before the change
+    snapshot: v.object({
+      title: v.string(),
+      imageUrl: v.string(),
+      servings: v.number(),
+      prepTime: v.number(),
+      cookTime: v.number(),
+      ingredients: v.array(ingredientObject),
+      instructions: v.array(v.string()),
+      instructionSections: v.optional(v.array(instructionSectionObject)),
+      notes: v.optional(v.string()),
+      nutrition: v.optional(nutritionObject),
+      cuisineType: v.optional(v.string()),
+      difficulty: v.optional(difficultyLevel),
+      dietaryTags: v.array(v.string()),
+    }),
+
+    // Timestamp (Unix milliseconds)
+    createdAt: v.number(),
+  })
+    // Index for listing a recipe's revisions in date order
+    .index("by_recipe_created", ["recipeId", "createdAt"]),
 
   /**
    * Physical Cookbooks Table
@@ -446,6 +683,9 @@ export default defineSchema({
     // Sort preference for recipes in this cookbook
     sortBy: v.optional(cookbookSortOption),
 
+    // Set when the owner shares the cookbook with their household
+    householdId: v.optional(v.id("households")),
+
     // Timestamps (Unix milliseconds)
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -453,7 +693,9 @@ export default defineSchema({
     // Index for fetching user's cookbooks
     .index("by_user", ["userId"])
     // Index for filtering built-in vs user cookbooks
-    .index("by_user_builtin", ["userId", "isBuiltIn"]),
+    .index("by_user_builtin", ["userId", "isBuiltIn"])
+    // Index for fetching cookbooks shared with a household
+    .index("by_household", ["householdId"]),
 
   /**
    * Cookbook Recipes Junction Table
@@ -506,6 +748,17 @@ export default defineSchema({
     // Meal slot type
     slot: mealSlot,
 
+    // Servings to cook (defaults to the recipe's servings when unset)
+    servings: v.optional(v.number()),
+
+    // Set when this slot eats leftovers of an earlier planned meal;
+    // leftovers add no ingredients to shopping lists
+    leftoverOfMealId: v.optional(v.id("plannedMeals")),
+
+    // Household whose shared plan the meal is in; userId is then the
+    // member who planned it
+    householdId: v.optional(v.id("households")),
+
     // Timestamps (Unix milliseconds)
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -515,8 +768,207 @@ export default defineSchema({
     // Index for fetching user's meals by slot type
     .index("by_user_slot", ["userId", "slot"])
     // Index for fetching all user's meals
+    .index("by_user", ["userId"])
+    // Index for finding leftovers of a meal
+    .index("by_leftover_of", ["leftoverOfMealId"])
+    // Index for finding meals that use a recipe
+    .index("by_recipe", ["recipeId"])
+    // Index for fetching a household's shared plan for a day
+    .index("by_household_day", ["householdId", "day"]),
+
+  /**
+   * Meal Plan Drafts Table
+   *
+   * Generated week plans waiting for review. Nothing is written to
+   * plannedMeals until the user accepts the draft; slots can be re-rolled
+   * or pinned in the meantime. One draft per user and week.
+   */
+  mealPlanDrafts: defineTable({
+    // User relationship - Clerk user ID for multi-tenancy
+    userId: v.string(),
+
+    // First day of the week in YYYY-MM-DD format
+    weekStart: v.string(),
+
+    // Generator settings, reused when re-rolling
+    slots: v.array(mealSlot),
+    maxWeeknightTime: v.optional(v.number()),
+    varietyDays: v.number(),
+
+    // Proposed meals (denormalized like plannedMeals)
+    meals: v.array(
+      v.object({
+        day: v.string(),
+        slot: mealSlot,
+        recipeId: v.id("recipes"),
+        recipeName: v.string(),
+        recipeImage: v.string(),
+        prepTime: v.string(),
+        cuisineType: v.optional(v.string()),
+        // Pinned meals are kept when the draft is regenerated
+        pinned: v.boolean(),
+      })
+    ),
+
+    // Empty slots no recipe could fill
+    unfilled: v.array(v.object({ day: v.string(), slot: mealSlot })),
+
+    // Timestamps (Unix milliseconds)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    // Index for fetching the draft for a week
+    .index("by_user_week", ["userId", "weekStart"]),
+
+  /**
+   * Meal Plan Templates Table
+   *
+   * Named weeks of meals saved for reuse. Meals are keyed by day offset
+   * from the week start so a template can be applied to any week. A
+   * template can recur, applying itself every N weeks.
+   */
+  mealPlanTemplates: defineTable({
+    // User relationship - Clerk user ID for multi-tenancy
+    userId: v.string(),
+
+    name: v.string(),
+
+    // Saved meals (0 = Sunday)
+    meals: v.array(
+      v.object({
+        dayOffset: v.number(),
+        slot: mealSlot,
+        recipeId: v.id("recipes"),
+        recipeName: v.string(),
+        servings: v.optional(v.number()),
+        // Leftovers of the template meal in this slot
+        leftoverOf: v.optional(v.object({ dayOffset: v.number(), slot: mealSlot })),
+      })
+    ),
+
+    // Recurrence: apply every intervalWeeks weeks starting from startWeek
+    recurrence: v.optional(
+      v.object({
+        intervalWeeks: v.number(),
+        startWeek: v.string(),
+        mode: v.union(v.literal("overwrite"), v.literal("merge")),
+      })
+    ),
+    // Next week (YYYY-MM-DD) the recurrence applies to; unset when not recurring
+    nextRecurrenceWeek: v.optional(v.string()),
+
+    // Result of the most recent apply, for reporting skipped recipes
+    lastApplied: v.optional(
+      v.object({
+        weekStart: v.string(),
+        added: v.number(),
+        missingRecipes: v.array(v.string()),
+        appliedAt: v.number(),
+      })
+    ),
+
+    // Timestamps (Unix milliseconds)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    // Index for listing a user's templates
+    .index("by_user", ["userId"])
+    // Index for finding recurring templates that are due
+    .index("by_next_recurrence", ["nextRecurrenceWeek"]),
+
+  /**
+   * Households Table
+   *
+   * A group of users sharing one meal plan, shared shopping lists and an
+   * opted-in set of cookbooks. Each user belongs to at most one household.
+   */
+  households: defineTable({
+    name: v.string(),
+
+    // Clerk user ID of the current owner
+    ownerId: v.string(),
+
+    // Timestamps (Unix milliseconds)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  /**
+   * Household Members Table
+   *
+   * Membership and role of each user in a household.
+   */
+  householdMembers: defineTable({
+    householdId: v.id("households"),
+
+    // Member's Clerk user ID
+    userId: v.string(),
+
+    role: v.union(v.literal("owner"), v.literal("member")),
+
+    // When the user joined (Unix milliseconds); the longest-standing
+    // member becomes owner if the owner leaves
+    joinedAt: v.number(),
+  })
+    // Index for listing a household's members
+    .index("by_household", ["householdId"])
+    // Index for finding a user's household
     .index("by_user", ["userId"]),
 
+  /**
+   * Household Invites Table
+   *
+   * Single-use invite codes for joining a household. Codes expire after
+   * a week and are deleted once used.
+   */
+  householdInvites: defineTable({
+    householdId: v.id("households"),
+
+    // Code the invitee types in (e.g., "K7QM-4XPA")
+    code: v.string(),
+
+    // Clerk user ID of the member who created the invite
+    createdBy: v.string(),
+
+    expiresAt: v.number(),
+    createdAt: v.number(),
+  })
+    // Index for redeeming a code
+    .index("by_code", ["code"])
+    // Index for listing and cleaning up a household's invites
+    .index("by_household", ["householdId"]),
+
+  /**
+   * Calendar Feeds Table
+   *
+   * A user's iCalendar subscription to their meal plan. The secret token
+   * in the feed URL is the only credential, so revoking deletes the row
+   * and rotating replaces the token.
+   */
+  calendarFeeds: defineTable({
+    // Owner's Clerk user ID
+    userId: v.string(),
+
+    // Secret token in the feed URL
+    token: v.string(),
+
+    // Event start time for each slot (HH:MM, 24-hour, calendar's local time)
+    slotTimes: v.object({
+      breakfast: v.string(),
+      lunch: v.string(),
+      dinner: v.string(),
+      snacks: v.string(),
+    }),
+
+    // Timestamps (Unix milliseconds)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    // Index for finding a user's feed
+    .index("by_user", ["userId"])
+    // Index for resolving a feed URL
+    .index("by_token", ["token"]),
+
   /**
    * Shopping Lists Table
    *
@@ -533,6 +985,33 @@ export default defineSchema({
     // List status for filtering
     status: shoppingListStatus,
 
+    // Ingredients left off a generated list because of the pantry,
+    // kept so each can be added back
+    skippedItems: v.optional(
+      v.array(
+        v.object({
+          name: v.string(),
+          quantity: v.number(),
+          unit: v.string(),
+          category: shoppingItemCategory,
+          recipeIds: v.array(v.id("recipes")),
+          recipeName: v.optional(v.string()),
+          reason: v.union(
+            v.literal("always_have"),
+            v.literal("on_hand"),
+            v.literal("partially_on_hand")
+          ),
+        })
+      )
+    ),
+
+    // Add checked items to the pantry when the list is completed
+    restockPantry: v.optional(v.boolean()),
+    restockedAt: v.optional(v.number()),
+
+    // Household the list is shared with; userId is then the creator
+    householdId: v.optional(v.id("households")),
+
     // Timestamps (Unix milliseconds)
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -541,7 +1020,9 @@ export default defineSchema({
     // Index for fetching user's lists
     .index("by_user", ["userId"])
     // Index for filtering by status
-    .index("by_user_status", ["userId", "status"]),
+    .index("by_user_status", ["userId", "status"])
+    // Index for fetching a household's shared lists
+    .index("by_household", ["householdId"]),
 
   /**
    * Shopping Items Table
@@ -569,6 +1050,9 @@ export default defineSchema({
     recipeIds: v.array(v.id("recipes")),
     recipeName: v.optional(v.string()),
 
+    // Quantity combines weight and volume via an approximate density
+    isApproximate: v.optional(v.boolean()),
+
     // Timestamps (Unix milliseconds)
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -578,6 +1062,35 @@ export default defineSchema({
     // Index for filtering checked items
     .index("by_list_checked", ["listId", "checked"]),
 
+  /**
+   * Pantry Items Table
+   *
+   * Stores the user's pantry inventory for "what can I cook" matching.
+   * Uses the same categories as shopping items.
+   */
+  pantryItems: defineTable({
+    // User relationship - Clerk user ID for multi-tenancy
+    userId: v.string(),
+
+    // Item information
+    name: v.string(),
+    quantity: v.number(),
+    unit: v.string(),
+    category: shoppingItemCategory,
+
+    // Optional expiry date (Unix milliseconds)
+    expiresAt: v.optional(v.number()),
+
+    // Staple that's always on hand (e.g., salt, oil); never added to lists
+    alwaysHave: v.optional(v.boolean()),
+
+    // Timestamps (Unix milliseconds)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    // Index for fetching user's pantry
+    .index("by_user", ["userId"]),
+
   /**
    * YouTube Channels Table
    *
@@ -11,6 +11,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "../_generated/server";
 import { Id } from "../_generated/dataModel";
+import { withSearchFields } from "../lib/recipeSearch";
 
 // =============================================================================
 // Constants
@@ -425,7 +426,7 @@ export const seedDemoData = mutation({
     ];
 
     for (const recipe of demoRecipes) {
-      const recipeId = await ctx.db.insert("recipes", {
+      const recipeId = await ctx.db.insert("recipes", withSearchFields({
         userId: currentUserId,
         title: recipe.title,
         source: "youtube",
@@ -443,7 +444,7 @@ export const seedDemoData = mutation({
         dietaryTags: [],
         createdAt: now - Math.floor(Math.random() * 30) * 24 * 60 * 60 * 1000,
         updatedAt: now,
-      });
+      }));
       recipeIds.push(recipeId);
 
       // Create recipe attribution
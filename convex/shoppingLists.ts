@@ -3,18 +3,25 @@
  *
  * API functions for managing shopping lists and items.
  * Supports list generation from meal plans, item management,
- * and auto-archiving on completion.
+ * and auto-archiving on completion. Lists created while in a household
+ * are shared with its members, who can all read and edit them.
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
 import {
   aggregateIngredients,
   sortByCategory,
   RecipeWithIngredients,
 } from "./lib/ingredientAggregation";
 import { assignCategory, ShoppingItemCategory } from "./lib/categoryAssignment";
+import { convertUnit, UnitSystem } from "./lib/unitConversion";
+import { getPantryMatchKey, subtractPantryStock } from "./lib/pantryMatching";
+import { buildScaledMealRecipes } from "./lib/mealServings";
+import { roundShoppingQuantity, scaleAmount } from "./lib/recipeScaling";
+import { canAccessHouseholdDoc, canAccessRecipe, getHouseholdId } from "./households";
+import { hasConflict, mergeFieldChanges } from "./lib/offlineSync";
 
 /**
  * Shopping item category validator
@@ -30,6 +37,132 @@ const shoppingItemCategory = v.union(
   v.literal("Household")
 );
 
+/**
+ * Get the lists a user can see: their personal lists plus their
+ * household's shared lists
+ */
+async function getVisibleShoppingLists(
+  ctx: QueryCtx,
+  userId: string
+): Promise<Doc<"shoppingLists">[]> {
+  const personal = (
+    await ctx.db
+      .query("shoppingLists")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect()
+  ).filter((list) => !list.householdId);
+
+  const householdId = await getHouseholdId(ctx, userId);
+  if (!householdId) {
+    return personal;
+  }
+
+  const shared = await ctx.db
+    .query("shoppingLists")
+    .withIndex("by_household", (q) => q.eq("householdId", householdId))
+    .collect();
+
+  return [...personal, ...shared];
+}
+
+/**
+ * Look up the user's preferred unit system (defaults to imperial)
+ */
+async function getPreferredUnitSystem(
+  ctx: QueryCtx,
+  clerkId: string
+): Promise<UnitSystem> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
+    .unique();
+
+  return user?.preferredUnitSystem ?? "imperial";
+}
+
+/**
+ * Add a completed list's checked items to a user's pantry
+ *
+ * Amounts are added to an existing pantry item with a convertible unit,
+ * otherwise a new pantry item is created. Staples are left unchanged.
+ */
+async function restockPantryFromList(
+  ctx: MutationCtx,
+  list: Doc<"shoppingLists">,
+  userId: string,
+  now: number
+): Promise<void> {
+  const items = await ctx.db
+    .query("shoppingItems")
+    .withIndex("by_list", (q) => q.eq("listId", list._id))
+    .collect();
+
+  const pantryItems = await ctx.db
+    .query("pantryItems")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  for (const item of items.filter((i) => i.checked)) {
+    const matchKey = getPantryMatchKey(item.name);
+    const matches = pantryItems.filter(
+      (p) => getPantryMatchKey(p.name) === matchKey
+    );
+
+    if (matches.some((p) => p.alwaysHave)) continue;
+
+    const existing = matches.find(
+      (p) => convertUnit(item.quantity, item.unit, p.unit) !== null
+    );
+
+    if (existing) {
+      const added = convertUnit(item.quantity, item.unit, existing.unit) ?? 0;
+      existing.quantity = Math.round((existing.quantity + added) * 100) / 100;
+      await ctx.db.patch(existing._id, {
+        quantity: existing.quantity,
+        updatedAt: now,
+      });
+    } else {
+      const pantryItemId = await ctx.db.insert("pantryItems", {
+        userId,
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        category: item.category,
+        createdAt: now,
+        updatedAt: now,
+      });
+      const inserted = await ctx.db.get(pantryItemId);
+      if (inserted) pantryItems.push(inserted);
+    }
+  }
+}
+
+/**
+ * Mark a list as completed, restocking the pantry if the list opted in
+ *
+ * Pantries are personal, so a shared household list restocks the pantry
+ * of the member who completed it.
+ */
+async function completeShoppingList(
+  ctx: MutationCtx,
+  list: Doc<"shoppingLists">,
+  userId: string,
+  now: number
+): Promise<void> {
+  const restock = list.restockPantry && list.restockedAt === undefined;
+
+  if (restock) {
+    await restockPantryFromList(ctx, list, userId, now);
+  }
+
+  await ctx.db.patch(list._id, {
+    status: "archived",
+    completedAt: now,
+    updatedAt: now,
+    ...(restock ? { restockedAt: now } : {}),
+  });
+}
+
 // ============================================================================
 // QUERIES
 // ============================================================================
@@ -37,6 +170,7 @@ const shoppingItemCategory = v.union(
 /**
  * Get all shopping lists for the authenticated user
  *
+ * Includes lists shared with the user's household.
  * Returns lists with item counts for progress display.
  */
 export const getShoppingLists = query({
@@ -49,11 +183,8 @@ export const getShoppingLists = query({
 
     const userId = identity.subject;
 
-    // Fetch all lists for the user
-    const lists = await ctx.db
-      .query("shoppingLists")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .collect();
+    // Fetch all lists the user can see
+    const lists = await getVisibleShoppingLists(ctx, userId);
 
     // Get item counts for each list
     const listsWithCounts = await Promise.all(
@@ -97,7 +228,7 @@ export const getShoppingListById = query({
     const userId = identity.subject;
     const list = await ctx.db.get(args.listId);
 
-    if (!list || list.userId !== userId) {
+    if (!list || !(await canAccessHouseholdDoc(ctx, list, userId))) {
       return null;
     }
 
@@ -137,7 +268,7 @@ export const getShoppingListItems = query({
     const userId = identity.subject;
     const list = await ctx.db.get(args.listId);
 
-    if (!list || list.userId !== userId) {
+    if (!list || !(await canAccessHouseholdDoc(ctx, list, userId))) {
       return [];
     }
 
@@ -174,6 +305,7 @@ export const createShoppingList = mutation({
       userId,
       name: args.name,
       status: "active",
+      householdId: (await getHouseholdId(ctx, userId)) ?? undefined,
       createdAt: now,
       updatedAt: now,
     });
@@ -183,12 +315,13 @@ export const createShoppingList = mutation({
 });
 
 /**
- * Update a shopping list name
+ * Update a shopping list name or pantry restock setting
  */
 export const updateShoppingList = mutation({
   args: {
     listId: v.id("shoppingLists"),
     name: v.optional(v.string()),
+    restockPantry: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -203,11 +336,11 @@ export const updateShoppingList = mutation({
       throw new Error("Shopping list not found");
     }
 
-    if (list.userId !== userId) {
+    if (!(await canAccessHouseholdDoc(ctx, list, userId))) {
       throw new Error("You do not have permission to update this list");
     }
 
-    const updates: { name?: string; updatedAt: number } = {
+    const updates: { name?: string; restockPantry?: boolean; updatedAt: number } = {
       updatedAt: Date.now(),
     };
 
@@ -215,6 +348,10 @@ export const updateShoppingList = mutation({
       updates.name = args.name;
     }
 
+    if (args.restockPantry !== undefined) {
+      updates.restockPantry = args.restockPantry;
+    }
+
     await ctx.db.patch(args.listId, updates);
     return args.listId;
   },
@@ -240,7 +377,7 @@ export const deleteShoppingList = mutation({
       throw new Error("Shopping list not found");
     }
 
-    if (list.userId !== userId) {
+    if (!(await canAccessHouseholdDoc(ctx, list, userId))) {
       throw new Error("You do not have permission to delete this list");
     }
 
@@ -262,6 +399,8 @@ export const deleteShoppingList = mutation({
 
 /**
  * Archive a shopping list
+ *
+ * Restocks the pantry with checked items if the list has restockPantry set.
  */
 export const archiveShoppingList = mutation({
   args: {
@@ -280,15 +419,11 @@ export const archiveShoppingList = mutation({
       throw new Error("Shopping list not found");
     }
 
-    if (list.userId !== userId) {
+    if (!(await canAccessHouseholdDoc(ctx, list, userId))) {
       throw new Error("You do not have permission to archive this list");
     }
 
-    await ctx.db.patch(args.listId, {
-      status: "archived",
-      completedAt: Date.now(),
-      updatedAt: Date.now(),
-    });
+    await completeShoppingList(ctx, list, userId, Date.now());
 
     return args.listId;
   },
@@ -322,7 +457,7 @@ export const addItem = mutation({
       throw new Error("Shopping list not found");
     }
 
-    if (list.userId !== userId) {
+    if (!(await canAccessHouseholdDoc(ctx, list, userId))) {
       throw new Error("You do not have permission to add items to this list");
     }
 
@@ -364,6 +499,8 @@ export const addIngredientsFromRecipe = mutation({
     listId: v.optional(v.id("shoppingLists")),
     recipeId: v.id("recipes"),
     ingredientIndexes: v.array(v.number()),
+    /** Scale the recipe was viewed at (1 = as written) */
+    scale: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -376,7 +513,7 @@ export const addIngredientsFromRecipe = mutation({
 
     // Get the recipe
     const recipe = await ctx.db.get(args.recipeId);
-    if (!recipe || recipe.userId !== userId) {
+    if (!recipe || !(await canAccessRecipe(ctx, recipe, userId))) {
       throw new Error("Recipe not found");
     }
 
@@ -385,11 +522,9 @@ export const addIngredientsFromRecipe = mutation({
 
     if (!listId) {
       // Get the user's active shopping list, or create one
-      const activeList = await ctx.db
-        .query("shoppingLists")
-        .withIndex("by_user", (q) => q.eq("userId", userId))
-        .filter((q) => q.eq(q.field("status"), "active"))
-        .first();
+      const activeList = (await getVisibleShoppingLists(ctx, userId)).find(
+        (list) => list.status === "active"
+      );
 
       if (activeList) {
         listId = activeList._id;
@@ -399,6 +534,7 @@ export const addIngredientsFromRecipe = mutation({
           userId,
           name: "Shopping List",
           status: "active",
+          householdId: (await getHouseholdId(ctx, userId)) ?? undefined,
           createdAt: now,
           updatedAt: now,
         });
@@ -406,7 +542,7 @@ export const addIngredientsFromRecipe = mutation({
     } else {
       // Verify list ownership
       const list = await ctx.db.get(listId);
-      if (!list || list.userId !== userId) {
+      if (!list || !(await canAccessHouseholdDoc(ctx, list, userId))) {
         throw new Error("Shopping list not found");
       }
       if (list.status === "archived") {
@@ -419,14 +555,19 @@ export const addIngredientsFromRecipe = mutation({
       (index) => recipe.ingredients[index]
     ).filter(Boolean);
 
+    const unitSystem = await getPreferredUnitSystem(ctx, userId);
+
     for (const ingredient of selectedIngredients) {
       const category = assignCategory(ingredient.name);
+      const { quantity, unit } = scaleAmount(ingredient, args.scale ?? 1, {
+        unitSystem,
+      });
 
       await ctx.db.insert("shoppingItems", {
         listId,
         name: ingredient.name,
-        quantity: ingredient.quantity,
-        unit: ingredient.unit,
+        quantity: roundShoppingQuantity(quantity, unit),
+        unit,
         category: category as ShoppingItemCategory,
         checked: false,
         isCustom: false,
@@ -443,15 +584,28 @@ export const addIngredientsFromRecipe = mutation({
   },
 });
 
+/**
+ * Editable shopping item fields
+ */
+const itemUpdateFields = {
+  quantity: v.optional(v.number()),
+  unit: v.optional(v.string()),
+  category: v.optional(shoppingItemCategory),
+};
+
 /**
  * Update an item's quantity, unit, or category
+ *
+ * Offline replays pass the item's updatedAt and field values the edit was
+ * based on. If the item changed since, fields also changed by someone else
+ * keep their server value and are returned as conflictingFields.
  */
 export const updateItem = mutation({
   args: {
     itemId: v.id("shoppingItems"),
-    quantity: v.optional(v.number()),
-    unit: v.optional(v.string()),
-    category: v.optional(shoppingItemCategory),
+    ...itemUpdateFields,
+    expectedUpdatedAt: v.optional(v.number()),
+    base: v.optional(v.object(itemUpdateFields)),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -467,7 +621,7 @@ export const updateItem = mutation({
     }
 
     const list = await ctx.db.get(item.listId);
-    if (!list || list.userId !== userId) {
+    if (!list || !(await canAccessHouseholdDoc(ctx, list, userId))) {
       throw new Error("You do not have permission to update this item");
     }
 
@@ -475,38 +629,66 @@ export const updateItem = mutation({
       throw new Error("Cannot update items in an archived list");
     }
 
+    let changes: {
+      quantity?: number;
+      unit?: string;
+      category?: ShoppingItemCategory;
+    } = { quantity: args.quantity, unit: args.unit, category: args.category };
+    let conflictingFields: string[] = [];
+
+    if (hasConflict(item.updatedAt, args.expectedUpdatedAt)) {
+      const merged = mergeFieldChanges(changes, args.base ?? {}, item);
+      changes = merged.patch;
+      conflictingFields = merged.conflictingFields;
+    }
+
     const now = Date.now();
     const updates: {
       quantity?: number;
       unit?: string;
       category?: ShoppingItemCategory;
+      isApproximate?: boolean;
       updatedAt: number;
     } = { updatedAt: now };
 
-    if (args.quantity !== undefined) {
-      updates.quantity = args.quantity;
+    if (changes.quantity !== undefined) {
+      updates.quantity = changes.quantity;
     }
-    if (args.unit !== undefined) {
-      updates.unit = args.unit;
+    if (changes.unit !== undefined) {
+      updates.unit = changes.unit;
     }
-    if (args.category !== undefined) {
-      updates.category = args.category;
+    // A manually edited amount is no longer an approximation
+    if (changes.quantity !== undefined || changes.unit !== undefined) {
+      updates.isApproximate = false;
+    }
+    if (changes.category !== undefined) {
+      updates.category = changes.category;
     }
 
-    await ctx.db.patch(args.itemId, updates);
-    await ctx.db.patch(item.listId, { updatedAt: now });
+    if (Object.keys(updates).length > 1) {
+      await ctx.db.patch(args.itemId, updates);
+      await ctx.db.patch(item.listId, { updatedAt: now });
+      return { itemId: args.itemId, conflictingFields, updatedAt: now };
+    }
 
-    return args.itemId;
+    return { itemId: args.itemId, conflictingFields, updatedAt: item.updatedAt };
   },
 });
 
 /**
  * Toggle an item's checked state
- * Auto-archives the list if all items are checked
+ * Auto-archives the list if all items are checked, restocking the pantry
+ * if the list has restockPantry set
+ *
+ * Offline replays pass the checked state to set, so replaying twice is
+ * harmless, and the item's updatedAt when it was checked. A newer server
+ * change is overwritten and reported as a conflict.
  */
 export const toggleItemChecked = mutation({
   args: {
     itemId: v.id("shoppingItems"),
+    checked: v.optional(v.boolean()),
+    expectedUpdatedAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -522,7 +704,7 @@ export const toggleItemChecked = mutation({
     }
 
     const list = await ctx.db.get(item.listId);
-    if (!list || list.userId !== userId) {
+    if (!list || !(await canAccessHouseholdDoc(ctx, list, userId))) {
       throw new Error("You do not have permission to update this item");
     }
 
@@ -530,8 +712,14 @@ export const toggleItemChecked = mutation({
       throw new Error("Cannot update items in an archived list");
     }
 
+    const conflict = hasConflict(item.updatedAt, args.expectedUpdatedAt);
+    const newCheckedState = args.checked ?? !item.checked;
+
+    if (newCheckedState === item.checked) {
+      return { itemId: args.itemId, checked: newCheckedState, conflict, updatedAt: item.updatedAt };
+    }
+
     const now = Date.now();
-    const newCheckedState = !item.checked;
 
     await ctx.db.patch(args.itemId, {
       checked: newCheckedState,
@@ -555,15 +743,11 @@ export const toggleItemChecked = mutation({
 
       if (totalItems > 0 && checkedItems === totalItems) {
         // Auto-archive the list
-        await ctx.db.patch(item.listId, {
-          status: "archived",
-          completedAt: now,
-          updatedAt: now,
-        });
+        await completeShoppingList(ctx, list, userId, now);
       }
     }
 
-    return { itemId: args.itemId, checked: newCheckedState };
+    return { itemId: args.itemId, checked: newCheckedState, conflict, updatedAt: now };
   },
 });
 
@@ -588,7 +772,7 @@ export const deleteItem = mutation({
     }
 
     const list = await ctx.db.get(item.listId);
-    if (!list || list.userId !== userId) {
+    if (!list || !(await canAccessHouseholdDoc(ctx, list, userId))) {
       throw new Error("You do not have permission to delete this item");
     }
 
@@ -626,7 +810,7 @@ export const updateItemCategory = mutation({
     }
 
     const list = await ctx.db.get(item.listId);
-    if (!list || list.userId !== userId) {
+    if (!list || !(await canAccessHouseholdDoc(ctx, list, userId))) {
       throw new Error("You do not have permission to update this item");
     }
 
@@ -651,11 +835,18 @@ export const updateItemCategory = mutation({
 
 /**
  * Generate a shopping list from selected meal plan meals
+ *
+ * Each recipe is scaled to its meal's planned servings (plus any
+ * leftovers eaten from it); leftover meals add no ingredients.
+ * Unless usePantry is false, on-hand pantry amounts are subtracted and
+ * "always have" staples are skipped. Skipped amounts are saved on the
+ * list so each can be added back with restoreSkippedItem.
  */
 export const generateFromMealPlan = mutation({
   args: {
     mealIds: v.array(v.id("plannedMeals")),
     name: v.optional(v.string()),
+    usePantry: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -675,11 +866,13 @@ export const generateFromMealPlan = mutation({
       args.mealIds.map((id) => ctx.db.get(id))
     );
 
-    // Filter valid meals and verify ownership
-    const validMeals = meals.filter(
-      (meal): meal is NonNullable<typeof meal> =>
-        meal !== null && meal.userId === userId
-    );
+    // Filter valid meals and verify access
+    const validMeals: Doc<"plannedMeals">[] = [];
+    for (const meal of meals) {
+      if (meal && (await canAccessHouseholdDoc(ctx, meal, userId))) {
+        validMeals.push(meal);
+      }
+    }
 
     if (validMeals.length === 0) {
       throw new Error("No valid meals found");
@@ -692,19 +885,48 @@ export const generateFromMealPlan = mutation({
     const recipes = await Promise.all(
       recipeIds.map((id) => ctx.db.get(id))
     );
+    const recipesById = new Map(
+      recipes
+        .filter((r): r is NonNullable<typeof r> => r !== null)
+        .map((recipe) => [recipe._id as string, recipe])
+    );
 
-    // Build recipe data for aggregation
-    const recipeData: RecipeWithIngredients[] = recipes
-      .filter((r): r is NonNullable<typeof r> => r !== null)
-      .map((recipe) => ({
-        recipeId: recipe._id,
-        recipeName: recipe.title,
-        ingredients: recipe.ingredients,
-      }));
-
-    // Aggregate ingredients
-    const aggregatedIngredients = sortByCategory(
-      aggregateIngredients(recipeData)
+    // Leftovers eaten from the selected meals, so enough gets cooked
+    const leftovers = (
+      await Promise.all(
+        validMeals.map((meal) =>
+          ctx.db
+            .query("plannedMeals")
+            .withIndex("by_leftover_of", (q) => q.eq("leftoverOfMealId", meal._id))
+            .collect()
+        )
+      )
+    ).flat();
+
+    // Build recipe data for aggregation, scaled to each meal's servings
+    const recipeData: RecipeWithIngredients[] = buildScaledMealRecipes(
+      validMeals,
+      recipesById,
+      leftovers
+    );
+
+    // Aggregate ingredients in the user's preferred unit system
+    const unitSystem = await getPreferredUnitSystem(ctx, userId);
+    const allIngredients = sortByCategory(
+      aggregateIngredients(recipeData, unitSystem)
+    );
+
+    // Leave out what the pantry already covers
+    const pantryItems =
+      args.usePantry === false
+        ? []
+        : await ctx.db
+            .query("pantryItems")
+            .withIndex("by_user", (q) => q.eq("userId", userId))
+            .collect();
+    const { items: aggregatedIngredients, skipped } = subtractPantryStock(
+      allIngredients,
+      pantryItems
     );
 
     // Generate default name based on date range
@@ -721,6 +943,8 @@ export const generateFromMealPlan = mutation({
       userId,
       name: defaultName,
       status: "active",
+      householdId: (await getHouseholdId(ctx, userId)) ?? undefined,
+      skippedItems: skipped.length > 0 ? skipped : undefined,
       createdAt: now,
       updatedAt: now,
     });
@@ -730,13 +954,14 @@ export const generateFromMealPlan = mutation({
       await ctx.db.insert("shoppingItems", {
         listId,
         name: ingredient.name,
-        quantity: ingredient.quantity,
+        quantity: roundShoppingQuantity(ingredient.quantity, ingredient.unit),
         unit: ingredient.unit,
         category: ingredient.category,
         checked: false,
         isCustom: false,
         recipeIds: ingredient.recipeIds,
         recipeName: ingredient.recipeName ?? undefined,
+        isApproximate: ingredient.isApproximate || undefined,
         createdAt: now,
         updatedAt: now,
       });
@@ -745,3 +970,88 @@ export const generateFromMealPlan = mutation({
     return listId;
   },
 });
+
+/**
+ * Add an item skipped because of the pantry back to its list
+ *
+ * Fully skipped items are re-added; for partially on-hand items the
+ * skipped amount is added to the item already on the list.
+ */
+export const restoreSkippedItem = mutation({
+  args: {
+    listId: v.id("shoppingLists"),
+    index: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+
+    const userId = identity.subject;
+    const list = await ctx.db.get(args.listId);
+
+    if (!list) {
+      throw new Error("Shopping list not found");
+    }
+
+    if (!(await canAccessHouseholdDoc(ctx, list, userId))) {
+      throw new Error("You do not have permission to update this list");
+    }
+
+    if (list.status === "archived") {
+      throw new Error("Cannot add items to an archived list");
+    }
+
+    const skippedItems = list.skippedItems ?? [];
+    const skipped = skippedItems[args.index];
+
+    if (!skipped) {
+      throw new Error("Skipped item not found");
+    }
+
+    const now = Date.now();
+
+    const existing =
+      skipped.reason === "partially_on_hand"
+        ? (
+            await ctx.db
+              .query("shoppingItems")
+              .withIndex("by_list", (q) => q.eq("listId", args.listId))
+              .collect()
+          ).find(
+            (item) =>
+              !item.isCustom &&
+              item.name === skipped.name &&
+              item.unit === skipped.unit
+          )
+        : undefined;
+
+    let itemId: Id<"shoppingItems">;
+
+    if (existing) {
+      itemId = existing._id;
+      await ctx.db.patch(existing._id, {
+        quantity: Math.round((existing.quantity + skipped.quantity) * 100) / 100,
+        updatedAt: now,
+      });
+    } else {
+      const { reason: _reason, ...item } = skipped;
+      itemId = await ctx.db.insert("shoppingItems", {
+        listId: args.listId,
+        ...item,
+        checked: false,
+        isCustom: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.db.patch(args.listId, {
+      skippedItems: skippedItems.filter((_, i) => i !== args.index),
+      updatedAt: now,
+    });
+
+    return itemId;
+  },
+});
@@ -17,6 +17,21 @@ const cookingSkillLevel = v.union(
   v.literal("advanced")
 );
 
+/**
+ * Unit system validator
+ */
+const unitSystem = v.union(v.literal("imperial"), v.literal("metric"));
+
+/**
+ * Daily nutrition targets validator
+ */
+const nutritionTargets = v.object({
+  calories: v.optional(v.number()),
+  protein: v.optional(v.number()),
+  carbs: v.optional(v.number()),
+  fat: v.optional(v.number()),
+});
+
 // ============================================================================
 // INTERNAL MUTATIONS (for webhook use)
 // ============================================================================
@@ -113,32 +128,6 @@ export const updateUserFromWebhook = internalMutation({
   },
 });
 
-/**
- * Delete user (internal - called from webhook)
- *
- * Removes user record by Clerk ID.
- */
-export const deleteUserByClerkId = internalMutation({
-  args: {
-    clerkId: v.string(),
-  },
-  handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
-      .unique();
-
-    if (!user) {
-      // User not found, nothing to delete
-      return null;
-    }
-
-    await ctx.db.delete(user._id);
-
-    return user._id;
-  },
-});
-
 // ============================================================================
 // INTERNAL QUERIES (for webhook and action use)
 // ============================================================================
@@ -214,14 +203,18 @@ export const ensureUserExists = mutation({
 /**
  * Update user profile
  *
- * Updates the authenticated user's profile fields (cooking skill, dietary restrictions).
- * Used during onboarding and settings.
+ * Updates the authenticated user's profile fields (cooking skill, dietary restrictions,
+ * preferred unit system, household size, daily nutrition targets).
+ * Used during onboarding and settings. Pass null nutritionTargets to clear them.
  */
 export const updateUserProfile = mutation({
   args: {
     cookingSkillLevel: v.optional(cookingSkillLevel),
     dietaryRestrictions: v.optional(v.array(v.string())),
     hasCompletedOnboarding: v.optional(v.boolean()),
+    preferredUnitSystem: v.optional(unitSystem),
+    householdSize: v.optional(v.number()),
+    nutritionTargets: v.optional(v.union(nutritionTargets, v.null())),
   },
   handler: async (ctx, args) => {
     // Require authentication
@@ -255,6 +248,23 @@ export const updateUserProfile = mutation({
     if (args.hasCompletedOnboarding !== undefined) {
       updates.hasCompletedOnboarding = args.hasCompletedOnboarding;
     }
+    if (args.preferredUnitSystem !== undefined) {
+      updates.preferredUnitSystem = args.preferredUnitSystem;
+    }
+    if (args.householdSize !== undefined) {
+      if (!Number.isInteger(args.householdSize) || args.householdSize < 1) {
+        throw new Error("Household size must be at least 1");
+      }
+      updates.householdSize = args.householdSize;
+    }
+    if (args.nutritionTargets !== undefined) {
+      const targets = args.nutritionTargets;
+      if (targets && Object.values(targets).some((value) => value !== undefined && value <= 0)) {
+        throw new Error("Nutrition targets must be greater than zero");
+      }
+      // null clears all targets
+      updates.nutritionTargets = targets ?? undefined;
+    }
 
     await ctx.db.patch(user._id, updates);
 
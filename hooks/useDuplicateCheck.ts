@@ -0,0 +1,90 @@
+/**
+ * useDuplicateCheck Hook
+ *
+ * Checks a recipe against the user's saved recipes before it is saved.
+ * When it matches one (same video, same page, or a similar title with
+ * mostly the same ingredients) the user is asked whether to open the
+ * existing recipe or save anyway.
+ */
+
+import { useCallback } from "react";
+import { Alert } from "react-native";
+import { useRouter } from "expo-router";
+import { useConvex } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { DuplicateReason } from "@/convex/lib/recipeDuplicates";
+
+/**
+ * Recipe about to be saved
+ */
+export interface DuplicateCheckRecipe {
+  title: string;
+  sourceUrl?: string;
+  youtubeVideoId?: string;
+  ingredients?: { name: string }[];
+}
+
+/**
+ * What the user chose
+ *
+ * - save: no duplicate found
+ * - saveAnyway: duplicate found, save with allowDuplicate
+ * - openedExisting: navigated to the saved recipe
+ * - cancel: don't save
+ */
+export type DuplicateDecision = "save" | "saveAnyway" | "openedExisting" | "cancel";
+
+const REASON_MESSAGES: Record<DuplicateReason, (title: string) => string> = {
+  youtube: (title) => `This video is already in your recipes as "${title}".`,
+  url: (title) => `This page is already in your recipes as "${title}".`,
+  similar: (title) => `"${title}" in your recipes looks like the same recipe.`,
+};
+
+export function useDuplicateCheck() {
+  const convex = useConvex();
+  const router = useRouter();
+
+  const checkDuplicates = useCallback(
+    async (recipe: DuplicateCheckRecipe): Promise<DuplicateDecision> => {
+      const matches = await convex
+        .query(api.recipeDuplicates.findDuplicates, {
+          title: recipe.title,
+          sourceUrl: recipe.sourceUrl,
+          youtubeVideoId: recipe.youtubeVideoId,
+          ingredients: recipe.ingredients?.map((ingredient) => ({ name: ingredient.name })),
+        })
+        .catch((err) => {
+          // Don't block saving when the check can't run
+          console.error("Duplicate check error:", err);
+          return [];
+        });
+
+      const match = matches[0];
+      if (!match) {
+        return "save";
+      }
+
+      return new Promise((resolve) => {
+        Alert.alert(
+          match.reason === "similar" ? "Possible duplicate" : "You already saved this",
+          REASON_MESSAGES[match.reason](match.recipe.title),
+          [
+            { text: "Cancel", style: "cancel", onPress: () => resolve("cancel") },
+            {
+              text: "Open Existing",
+              onPress: () => {
+                router.push(`/(app)/recipes/${match.recipe._id}`);
+                resolve("openedExisting");
+              },
+            },
+            { text: "Save Anyway", onPress: () => resolve("saveAnyway") },
+          ],
+          { cancelable: true, onDismiss: () => resolve("cancel") }
+        );
+      });
+    },
+    [convex, router]
+  );
+
+  return { checkDuplicates };
+}
@@ -0,0 +1,106 @@
+/**
+ * useOfflineMutationExecutor Hook
+ *
+ * Replays mutations from the offline sync queue against Convex and reports
+ * any conflict back to the queue. Passed to NetworkStatusProvider.
+ */
+
+import { useCallback } from "react";
+import { useConvex } from "convex/react";
+import type { FunctionArgs } from "convex/server";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type {
+  OfflineMutationPayloads,
+  QueuedMutation,
+  ReplayResult,
+} from "@/lib/offlineSyncQueue";
+
+type ItemUpdateArgs = FunctionArgs<typeof api.shoppingLists.updateItem>;
+type RecipeUpdateArgs = FunctionArgs<typeof api.recipes.updateRecipe>;
+type MoveMealArgs = FunctionArgs<typeof api.mealPlanner.moveMeal>;
+
+export function useOfflineMutationExecutor() {
+  const convex = useConvex();
+
+  return useCallback(
+    async (mutation: QueuedMutation): Promise<ReplayResult | void> => {
+      const expectedUpdatedAt = mutation.baseUpdatedAt;
+
+      switch (mutation.type) {
+        case "toggleFavorite": {
+          const { recipeId } = mutation.payload as OfflineMutationPayloads["toggleFavorite"];
+          await convex.mutation(api.recipes.toggleFavorite, { id: recipeId as Id<"recipes"> });
+          return;
+        }
+
+        case "deleteRecipe": {
+          const { recipeId } = mutation.payload as OfflineMutationPayloads["deleteRecipe"];
+          await convex.mutation(api.recipes.deleteRecipe, { id: recipeId as Id<"recipes"> });
+          return;
+        }
+
+        case "updateRecipe": {
+          const { recipeId, changes, base } =
+            mutation.payload as OfflineMutationPayloads["updateRecipe"];
+          const result = await convex.mutation(api.recipes.updateRecipe, {
+            ...(changes as Partial<RecipeUpdateArgs>),
+            id: recipeId as Id<"recipes">,
+            expectedUpdatedAt,
+            base: base as RecipeUpdateArgs["base"],
+          });
+          return { conflictingFields: result.conflictingFields, updatedAt: result.updatedAt };
+        }
+
+        case "addShoppingItem": {
+          const { listId, name, quantity, unit, category } =
+            mutation.payload as OfflineMutationPayloads["addShoppingItem"];
+          const itemId = await convex.mutation(api.shoppingLists.addItem, {
+            listId: listId as Id<"shoppingLists">,
+            name,
+            quantity,
+            unit,
+            category: category as ItemUpdateArgs["category"],
+          });
+          return { createdId: itemId };
+        }
+
+        case "setShoppingItemChecked": {
+          const { itemId, checked } =
+            mutation.payload as OfflineMutationPayloads["setShoppingItemChecked"];
+          const result = await convex.mutation(api.shoppingLists.toggleItemChecked, {
+            itemId: itemId as Id<"shoppingItems">,
+            checked,
+            expectedUpdatedAt,
+          });
+          return { conflict: result.conflict, updatedAt: result.updatedAt };
+        }
+
+        case "updateShoppingItem": {
+          const { itemId, changes, base } =
+            mutation.payload as OfflineMutationPayloads["updateShoppingItem"];
+          const result = await convex.mutation(api.shoppingLists.updateItem, {
+            ...(changes as Partial<ItemUpdateArgs>),
+            itemId: itemId as Id<"shoppingItems">,
+            expectedUpdatedAt,
+            base: base as ItemUpdateArgs["base"],
+          });
+          return { conflictingFields: result.conflictingFields, updatedAt: result.updatedAt };
+        }
+
+        case "moveMeal": {
+          const { mealId, newDay, newSlot } =
+            mutation.payload as OfflineMutationPayloads["moveMeal"];
+          const result = await convex.mutation(api.mealPlanner.moveMeal, {
+            mealId: mealId as Id<"plannedMeals">,
+            newDay,
+            newSlot: newSlot as MoveMealArgs["newSlot"],
+            expectedUpdatedAt,
+          });
+          return { conflict: result.conflict, updatedAt: result.updatedAt };
+        }
+      }
+    },
+    [convex]
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * useOfflinePins Hook
+ *
+ * Pins cookbooks, shopping lists and week plans for offline use by
+ * fetching their current data and recipes from Convex, and lists, refreshes
+ * and removes pins. All instances stay in sync through the pin store.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useConvex } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { getPinKey, OfflinePinKind } from "@/convex/lib/offlineStorage";
+import {
+  getPins,
+  removePin,
+  savePin,
+  subscribeToPins,
+  type OfflinePin,
+} from "@/lib/offlinePins";
+
+/**
+ * Week plan snapshot stored in a weekPlan pin
+ */
+export interface PinnedWeekPlan {
+  startDate: string;
+  endDate: string;
+  meals: FunctionReturnType<typeof api.mealPlanner.getMealsByWeek>;
+}
+
+export function useOfflinePins() {
+  const convex = useConvex();
+  const [pins, setPins] = useState<OfflinePin[]>([]);
+  const [busyKeys, setBusyKeys] = useState<string[]>([]);
+
+  useEffect(() => {
+    const load = () => {
+      getPins().then(setPins);
+    };
+    load();
+    return subscribeToPins(load);
+  }, []);
+
+  // Fetch full recipes so they open offline
+  const fetchRecipes = useCallback(
+    async (recipeIds: Id<"recipes">[]) => {
+      const recipes = await Promise.all(
+        [...new Set(recipeIds)].map((id) => convex.query(api.recipes.get, { id }))
+      );
+      return recipes
+        .filter((recipe): recipe is NonNullable<typeof recipe> => recipe !== null)
+        .map((recipe) => ({ id: recipe._id, data: recipe, imageUrl: recipe.imageUrl }));
+    },
+    [convex]
+  );
+
+  // Mark a pin as downloading while it runs
+  const withBusy = useCallback(async (key: string, run: () => Promise<void>) => {
+    setBusyKeys((keys) => [...keys, key]);
+    try {
+      await run();
+    } finally {
+      setBusyKeys((keys) => keys.filter((k) => k !== key));
+    }
+  }, []);
+
+  const pinCookbook = useCallback(
+    (cookbookId: string) =>
+      withBusy(getPinKey("cookbook", cookbookId), async () => {
+        const cookbook = await convex.query(api.cookbooks.getCookbookWithRecipes, {
+          id: cookbookId as Id<"cookbooks">,
+        });
+        if (!cookbook) throw new Error("Cookbook not found");
+
+        await savePin({
+          kind: "cookbook",
+          targetId: cookbookId,
+          title: cookbook.name,
+          data: cookbook,
+          recipes: await fetchRecipes(cookbook.recipes.map((r) => r.recipeId)),
+          imageUrls: [cookbook.coverUrl],
+        });
+      }),
+    [convex, fetchRecipes, withBusy]
+  );
+
+  const pinShoppingList = useCallback(
+    (listId: string) =>
+      withBusy(getPinKey("shoppingList", listId), async () => {
+        const list = await convex.query(api.shoppingLists.getShoppingListById, {
+          listId: listId as Id<"shoppingLists">,
+        });
+        if (!list) throw new Error("Shopping list not found");
+
+        await savePin({
+          kind: "shoppingList",
+          targetId: listId,
+          title: list.name,
+          data: list,
+          recipes: [],
+        });
+      }),
+    [convex, withBusy]
+  );
+
+  const pinWeekPlan = useCallback(
+    (startDate: string, endDate: string, weekLabel: string) =>
+      withBusy(getPinKey("weekPlan", startDate), async () => {
+        const meals = await convex.query(api.mealPlanner.getMealsByWeek, {
+          startDate,
+          endDate,
+        });
+
+        await savePin({
+          kind: "weekPlan",
+          targetId: startDate,
+          title: `Meal plan, ${weekLabel}`,
+          data: { startDate, endDate, meals },
+          recipes: await fetchRecipes(meals.map((meal) => meal.recipeId)),
+          imageUrls: meals.map((meal) => meal.recipeImage),
+        });
+      }),
+    [convex, fetchRecipes, withBusy]
+  );
+
+  // Re-download a pin's current data
+  const refreshPin = useCallback(
+    async (pin: OfflinePin) => {
+      switch (pin.kind) {
+        case "cookbook":
+          return pinCookbook(pin.targetId);
+        case "shoppingList":
+          return pinShoppingList(pin.targetId);
+        case "weekPlan": {
+          const { startDate, endDate } = pin.data as PinnedWeekPlan;
+          return pinWeekPlan(startDate, endDate, pin.title.replace(/^Meal plan, /, ""));
+        }
+      }
+    },
+    [pinCookbook, pinShoppingList, pinWeekPlan]
+  );
+
+  const unpin = useCallback(async (key: string) => {
+    await removePin(key);
+  }, []);
+
+  const isPinned = useCallback(
+    (kind: OfflinePinKind, targetId: string) =>
+      pins.some((pin) => pin.key === getPinKey(kind, targetId)),
+    [pins]
+  );
+
+  const isBusy = useCallback(
+    (kind: OfflinePinKind, targetId: string) => busyKeys.includes(getPinKey(kind, targetId)),
+    [busyKeys]
+  );
+
+  return {
+    pins,
+    isPinned,
+    isBusy,
+    pinCookbook,
+    pinShoppingList,
+    pinWeekPlan,
+    refreshPin,
+    unpin,
+  };
+}
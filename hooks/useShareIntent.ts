@@ -1,8 +1,8 @@
 /**
  * Share Intent Hook
  *
- * Handles URLs and text shared to the app from other apps
- * (YouTube, Safari, Chrome, etc.) via the Share Sheet.
+ * Handles URLs, text, and recipe export files shared to the app from
+ * other apps (YouTube, Safari, Chrome, Paprika, etc.) via the Share Sheet.
  */
 
 import { useEffect } from "react";
@@ -69,13 +69,19 @@ function isRecipeUrl(url: string): boolean {
   return recipePatterns.some((pattern) => pattern.test(url));
 }
 
+/**
+ * File extensions accepted by the bulk recipe import screen
+ */
+const IMPORT_FILE_PATTERN = /\.(paprikarecipes|paprikarecipe|json|csv)$/i;
+
 /**
  * Hook to handle share intent from other apps
  *
  * When a URL is shared to the app, this hook:
  * 1. Detects if it's a YouTube video → routes to YouTube import
  * 2. Detects if it's a recipe website → routes to web import
- * 3. Otherwise shows an error or allows manual entry
+ * 3. Detects a recipe export file → routes to bulk import
+ * 4. Otherwise shows an error or allows manual entry
  */
 export function useShareIntentHandler() {
   const router = useRouter();
@@ -92,6 +98,17 @@ export function useShareIntentHandler() {
     webUrl?: string;
     files?: any[];
   }) => {
+    // Recipe export files (Paprika, Mealie, Tandoor, CSV)
+    const file = intent.files?.[0];
+    if (file?.path && IMPORT_FILE_PATTERN.test(file.fileName || file.path)) {
+      router.push({
+        pathname: "/(app)/recipes/bulk-import",
+        params: { fileUri: file.path, fileName: file.fileName || "" },
+      });
+      resetShareIntent();
+      return;
+    }
+
     // Get the shared URL (could be in webUrl or text)
     const sharedUrl = intent.webUrl || intent.text || "";
 
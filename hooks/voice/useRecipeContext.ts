@@ -9,11 +9,12 @@ import { useState, useCallback, useMemo, useRef, useEffect } from "react";
 import {
   buildRecipeContext,
   getScaledIngredient,
-  calculateScaleMultiplier,
   RecipeData,
   RecipeContext,
   ScaledIngredient,
 } from "@/lib/voice/recipeContext";
+import type { UnitSystem } from "@/convex/lib/unitConversion";
+import { getScaleFactor } from "@/convex/lib/recipeScaling";
 
 // =============================================================================
 // Types
@@ -57,6 +58,8 @@ export interface UseRecipeContextOptions {
   initialStep?: number;
   /** Initial scale multiplier */
   initialMultiplier?: number;
+  /** Preferred unit system for ingredient quantities */
+  unitSystem?: UnitSystem;
   /** Callback when context changes */
   onContextChange?: (context: RecipeContext) => void;
 }
@@ -100,7 +103,12 @@ export function useRecipeContext(
   recipe: RecipeData | null | undefined,
   options: UseRecipeContextOptions = {}
 ): UseRecipeContextReturn {
-  const { initialStep = 0, initialMultiplier = 1, onContextChange } = options;
+  const {
+    initialStep = 0,
+    initialMultiplier = 1,
+    unitSystem,
+    onContextChange,
+  } = options;
 
   const [currentStep, setCurrentStep] = useState(initialStep);
   const [scaledMultiplier, setScaledMultiplier] = useState(initialMultiplier);
@@ -133,8 +141,9 @@ export function useRecipeContext(
     return buildRecipeContext(recipe, {
       currentStep,
       scaleMultiplier: scaledMultiplier,
+      unitSystem,
     });
-  }, [recipe, currentStep, scaledMultiplier]);
+  }, [recipe, currentStep, scaledMultiplier, unitSystem]);
 
   // Notify when context changes
   useEffect(() => {
@@ -192,7 +201,7 @@ export function useRecipeContext(
         return;
       }
 
-      const multiplier = calculateScaleMultiplier(recipe.servings, servings);
+      const multiplier = getScaleFactor(recipe.servings, servings);
       scaleRecipe(multiplier);
     },
     [recipe, scaleRecipe]
@@ -214,9 +223,9 @@ export function useRecipeContext(
         return null;
       }
 
-      return getScaledIngredient(recipe, query, scaledMultiplier);
+      return getScaledIngredient(recipe, query, scaledMultiplier, unitSystem);
     },
-    [recipe, scaledMultiplier]
+    [recipe, scaledMultiplier, unitSystem]
   );
 
   return {
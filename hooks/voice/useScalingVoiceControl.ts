@@ -16,6 +16,8 @@ import {
   RecipeData,
   ScaledIngredient,
 } from "@/lib/voice/recipeContext";
+import type { UnitSystem } from "@/convex/lib/unitConversion";
+import { getScaleFactor } from "@/convex/lib/recipeScaling";
 
 // =============================================================================
 // Types
@@ -89,6 +91,8 @@ export interface UseScalingVoiceControlOptions {
   scalingState: ScalingState;
   /** Scaling callbacks */
   callbacks: ScalingVoiceCallbacks;
+  /** Preferred unit system for ingredient answers */
+  unitSystem?: UnitSystem;
 }
 
 // =============================================================================
@@ -134,7 +138,7 @@ export interface UseScalingVoiceControlOptions {
 export function useScalingVoiceControl(
   options: UseScalingVoiceControlOptions
 ): UseScalingVoiceControlReturn {
-  const { recipe, scalingState, callbacks } = options;
+  const { recipe, scalingState, callbacks, unitSystem } = options;
 
   // Keep stable references
   const recipeRef = useRef(recipe);
@@ -146,6 +150,9 @@ export function useScalingVoiceControl(
   const stateRef = useRef(scalingState);
   stateRef.current = scalingState;
 
+  const unitSystemRef = useRef(unitSystem);
+  unitSystemRef.current = unitSystem;
+
   /**
    * Get a scaled ingredient by name
    */
@@ -158,7 +165,12 @@ export function useScalingVoiceControl(
         return null;
       }
 
-      return getScaledIngredient(currentRecipe, query, state.scaledMultiplier);
+      return getScaledIngredient(
+        currentRecipe,
+        query,
+        state.scaledMultiplier,
+        unitSystemRef.current
+      );
     },
     []
   );
@@ -231,7 +243,7 @@ export function useScalingVoiceControl(
               };
             }
 
-            const newMultiplier = targetServings / state.baseServings;
+            const newMultiplier = getScaleFactor(state.baseServings, targetServings);
 
             if (newMultiplier > 10) {
               return {
@@ -314,6 +326,9 @@ export function useScalingVoiceControl(
           if (state.scaledMultiplier !== 1) {
             response += ` for the ${getMultiplierDescription(state.scaledMultiplier)} recipe`;
           }
+          if (ingredient.warning) {
+            response += `, ${ingredient.warning.toLowerCase()}`;
+          }
 
           return {
             success: true,
@@ -26,6 +26,7 @@ import {
 import { useAction } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import type { VoiceAssistantState } from "@/types/voice";
+import { formatAmount } from "@/convex/lib/recipeScaling";
 
 // =============================================================================
 // Types
@@ -99,7 +100,7 @@ function formatIngredients(
   return ingredients
     .map((ing) => {
       if (typeof ing === "string") return ing;
-      return `${ing.quantity} ${ing.unit} ${ing.name}`.trim();
+      return `${formatAmount(ing)} ${ing.name}`.trim();
     })
     .join("\n");
 }
@@ -15,6 +15,7 @@ import { useNavigationVoiceControl, NavigationState, NavigationVoiceCallbacks }
 import { useScalingVoiceControl, ScalingState, ScalingVoiceCallbacks } from "./useScalingVoiceControl";
 import { useAudioPermissions } from "./useAudioPermissions";
 import type { RecipeData } from "@/lib/voice/recipeContext";
+import type { UnitSystem } from "@/convex/lib/unitConversion";
 import type { VoiceAssistantState, VoiceAssistantAction } from "@/types/voice";
 
 // =============================================================================
@@ -97,6 +98,8 @@ export interface UseVoiceAssistantOptions {
   autoConnect?: boolean;
   /** Backend WebSocket URL (optional - uses default if not provided) */
   backendUrl?: string;
+  /** Preferred unit system for spoken ingredient quantities */
+  unitSystem?: UnitSystem;
   /** Callback when connection status changes */
   onConnectionChange?: (isConnected: boolean) => void;
   /** Callback when an error occurs */
@@ -260,6 +263,7 @@ export function useVoiceAssistant(
     navigation,
     autoConnect = false,
     backendUrl,
+    unitSystem,
     onConnectionChange,
     onError,
   } = options;
@@ -313,6 +317,7 @@ export function useVoiceAssistant(
     currentServings,
   } = useRecipeContext(recipeData, {
     initialStep: navigation.currentStep,
+    unitSystem,
   });
 
   // Update recipe context when step changes
@@ -395,6 +400,7 @@ export function useVoiceAssistant(
     recipe: recipeData,
     scalingState,
     callbacks: scalingCallbacks,
+    unitSystem,
   });
 
   // Track connection status changes
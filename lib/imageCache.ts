@@ -0,0 +1,97 @@
+/**
+ * Image Cache Service
+ *
+ * Downloads recipe images to the device so pinned cookbooks, lists and
+ * week plans show their pictures offline. Files live in the document
+ * directory (not the cache directory) so the OS doesn't clear them.
+ */
+
+import { Directory, File, Paths } from "expo-file-system";
+import { getImageFileName, isDownloadableImage } from "@/convex/lib/offlineStorage";
+
+const IMAGE_DIR_NAME = "offline-images";
+
+/**
+ * Get the directory downloaded images are stored in
+ */
+function getImageDirectory(): Directory {
+  return new Directory(Paths.document, IMAGE_DIR_NAME);
+}
+
+/**
+ * Get the local file for an image URL
+ */
+function getImageFile(url: string): File {
+  return new File(getImageDirectory(), getImageFileName(url));
+}
+
+/**
+ * Download an image if it isn't stored yet
+ * @param url The remote image URL
+ * @returns Size of the stored file in bytes, or 0 if it couldn't be stored
+ */
+export async function downloadImage(url: string): Promise<number> {
+  if (!isDownloadableImage(url)) return 0;
+
+  try {
+    const directory = getImageDirectory();
+    if (!directory.exists) {
+      directory.create({ intermediates: true, idempotent: true });
+    }
+
+    const file = getImageFile(url);
+    if (!file.exists) {
+      await File.downloadFileAsync(url, file);
+    }
+    return file.size;
+  } catch (error) {
+    console.error("Failed to download image:", error);
+    return 0;
+  }
+}
+
+/**
+ * Get the local URI of a downloaded image
+ * @param url The remote image URL
+ * @returns The file URI, or null if the image isn't stored
+ */
+export function getLocalImageUri(url: string | undefined): string | null {
+  if (!isDownloadableImage(url)) return null;
+
+  try {
+    const file = getImageFile(url);
+    return file.exists ? file.uri : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete downloaded images
+ * @param urls The remote image URLs
+ */
+export function deleteImages(urls: string[]): void {
+  for (const url of urls) {
+    try {
+      const file = getImageFile(url);
+      if (file.exists) {
+        file.delete();
+      }
+    } catch (error) {
+      console.error("Failed to delete image:", error);
+    }
+  }
+}
+
+/**
+ * Get the total size of downloaded images
+ * @returns Size in bytes
+ */
+export function getImageCacheSize(): number {
+  try {
+    const directory = getImageDirectory();
+    return directory.exists ? (directory.size ?? 0) : 0;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Offline Pins Service
+ *
+ * Keeps a cookbook, shopping list or week's meal plan available offline.
+ * A pin stores a snapshot of the pinned data, caches its recipes (exempt
+ * from LRU eviction) and downloads their images. Unpinning frees anything
+ * no other pin still uses.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  getPinKey,
+  getUnreferencedImages,
+  isDownloadableImage,
+  OfflinePinKind,
+} from "@/convex/lib/offlineStorage";
+import { pinRecipes, unpinRecipes } from "./recipeCache";
+import { deleteImages, downloadImage } from "./imageCache";
+
+const PINS_KEY = "@digero/offline-pins";
+
+export interface OfflinePin<T = unknown> {
+  key: string;
+  kind: OfflinePinKind;
+  /** Cookbook or list ID, or the week's start date */
+  targetId: string;
+  title: string;
+  /** Snapshot of the pinned cookbook, list or week */
+  data: T;
+  recipeIds: string[];
+  imageUrls: string[];
+  /** Size of the stored data and recipes */
+  dataBytes: number;
+  /** Size of the downloaded images */
+  imageBytes: number;
+  pinnedAt: number;
+  refreshedAt: number;
+}
+
+/**
+ * What to store for a pin
+ */
+export interface PinContent<T = unknown> {
+  kind: OfflinePinKind;
+  targetId: string;
+  title: string;
+  data: T;
+  recipes: { id: string; data: unknown; imageUrl?: string }[];
+  /** Images besides the recipes' own (e.g. a cookbook cover) */
+  imageUrls?: string[];
+}
+
+const listeners = new Set<() => void>();
+
+/**
+ * Get all pins
+ */
+async function readPins(): Promise<Record<string, OfflinePin>> {
+  try {
+    const pinsData = await AsyncStorage.getItem(PINS_KEY);
+    if (pinsData) {
+      return JSON.parse(pinsData);
+    }
+  } catch (error) {
+    console.error("Failed to get offline pins:", error);
+  }
+  return {};
+}
+
+/**
+ * Save all pins and notify subscribers
+ */
+async function writePins(pins: Record<string, OfflinePin>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PINS_KEY, JSON.stringify(pins));
+  } catch (error) {
+    console.error("Failed to save offline pins:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to pin changes
+ * @returns Function that unsubscribes
+ */
+export function subscribeToPins(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Pin content for offline use, or refresh an existing pin
+ * @param content The data, recipes and images to keep
+ * @returns The stored pin
+ */
+export async function savePin<T>(content: PinContent<T>): Promise<OfflinePin<T>> {
+  const key = getPinKey(content.kind, content.targetId);
+  const pins = await readPins();
+  const now = Date.now();
+
+  // Drop recipes the previous snapshot held before pinning the current ones
+  if (pins[key]) {
+    await unpinRecipes(key);
+  }
+  await pinRecipes(key, content.recipes);
+
+  const imageUrls = [
+    ...new Set(
+      [...content.recipes.map((r) => r.imageUrl), ...(content.imageUrls ?? [])].filter(
+        isDownloadableImage
+      )
+    ),
+  ];
+
+  let imageBytes = 0;
+  for (const url of imageUrls) {
+    imageBytes += await downloadImage(url);
+  }
+
+  const pin: OfflinePin<T> = {
+    key,
+    kind: content.kind,
+    targetId: content.targetId,
+    title: content.title,
+    data: content.data,
+    recipeIds: content.recipes.map((r) => r.id),
+    imageUrls,
+    dataBytes: JSON.stringify([content.data, content.recipes]).length,
+    imageBytes,
+    pinnedAt: pins[key]?.pinnedAt ?? now,
+    refreshedAt: now,
+  };
+
+  // Images the previous snapshot had that are no longer needed
+  const previous = pins[key];
+  pins[key] = pin;
+  if (previous) {
+    deleteImages(
+      getUnreferencedImages(
+        { key, imageUrls: previous.imageUrls.filter((url) => !imageUrls.includes(url)) },
+        Object.values(pins)
+      )
+    );
+  }
+
+  await writePins(pins);
+  return pin;
+}
+
+/**
+ * Remove a pin, freeing recipes and images no other pin uses
+ * @param key The pin key
+ */
+export async function removePin(key: string): Promise<void> {
+  const pins = await readPins();
+  const pin = pins[key];
+  if (!pin) return;
+
+  delete pins[key];
+  await unpinRecipes(key);
+  deleteImages(getUnreferencedImages(pin, Object.values(pins)));
+
+  await writePins(pins);
+}
+
+/**
+ * Get all pins, most recently pinned first
+ */
+export async function getPins(): Promise<OfflinePin[]> {
+  const pins = await readPins();
+  return Object.values(pins).sort((a, b) => b.pinnedAt - a.pinnedAt);
+}
+
+/**
+ * Get a pin
+ * @param kind What is pinned
+ * @param targetId Cookbook or list ID, or the week's start date
+ * @returns The pin, or null if not pinned
+ */
+export async function getPin<T = unknown>(
+  kind: OfflinePinKind,
+  targetId: string
+): Promise<OfflinePin<T> | null> {
+  const pins = await readPins();
+  return (pins[getPinKey(kind, targetId)] as OfflinePin<T> | undefined) ?? null;
+}
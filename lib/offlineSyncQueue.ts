@@ -2,29 +2,146 @@
  * Offline Sync Queue Service
  *
  * Queues mutations when offline and processes them when back online.
+ * Mutations to the same document replay in the order they were made;
+ * failed replays back off exponentially. Replays that hit a newer server
+ * change are resolved per mutation type (see CONFLICT_RESOLUTIONS) and
+ * recorded so the sync status can show what happened.
  */
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  CONFLICT_RESOLUTIONS,
+  ConflictResolution,
+  getEntityKey,
+  getNextAttemptAt,
+  getRetryDelay,
+  isPermanentSyncError,
+  MAX_RETRY_ATTEMPTS,
+  OfflineMutationType,
+  rebaseQueuedMutations,
+  resolveTempIds,
+  selectReadyMutations,
+  TEMP_ID_PREFIX,
+} from "@/convex/lib/offlineSync";
 
 const QUEUE_KEY = "@digero/offline-sync-queue";
 
-type MutationType = "toggleFavorite" | "deleteRecipe";
+/**
+ * Most recent conflicts kept for display
+ */
+const MAX_CONFLICTS = 20;
 
-interface QueuedMutation {
-  id: string;
-  type: MutationType;
-  payload: {
+export type MutationType = OfflineMutationType;
+
+/**
+ * Payload queued for each mutation type
+ */
+export interface OfflineMutationPayloads {
+  toggleFavorite: { recipeId: string };
+  deleteRecipe: { recipeId: string };
+  updateRecipe: {
     recipeId: string;
-    [key: string]: unknown;
+    changes: Record<string, unknown>;
+    /** Values of the changed fields before the edit */
+    base: Record<string, unknown>;
   };
+  addShoppingItem: {
+    /** Temp ID later mutations use until the item exists on the server */
+    clientItemId: string;
+    listId: string;
+    name: string;
+    quantity: number;
+    unit: string;
+    category?: string;
+  };
+  setShoppingItemChecked: { itemId: string; checked: boolean };
+  updateShoppingItem: {
+    itemId: string;
+    changes: { quantity?: number; unit?: string; category?: string };
+    base: { quantity?: number; unit?: string; category?: string };
+  };
+  moveMeal: { mealId: string; newDay: string; newSlot: string };
+}
+
+export interface QueuedMutation<T extends MutationType = MutationType> {
+  id: string;
+  type: T;
+  payload: OfflineMutationPayloads[T];
+  /** Document the mutation changes */
+  entityKey: string;
+  /** Queue order */
+  sequence: number;
+  /** updatedAt of the server copy the change was made against */
+  baseUpdatedAt?: number;
   createdAt: number;
   retryCount: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Result reported by the executor for a replayed mutation
+ */
+export interface ReplayResult {
+  /** Server ID of a document created by the mutation */
+  createdId?: string;
+  /** The server copy changed after the offline edit */
+  conflict?: boolean;
+  /** Fields where the server value was kept */
+  conflictingFields?: string[];
+  /** updatedAt of the server copy after the replay */
+  updatedAt?: number;
+}
+
+/**
+ * A replay that conflicted or could not be applied
+ */
+export interface SyncConflict {
+  id: string;
+  type: MutationType;
+  resolution: ConflictResolution | "failed";
+  message: string;
+  occurredAt: number;
 }
 
 interface SyncQueue {
   mutations: QueuedMutation[];
+  nextSequence: number;
+  /** Temp IDs of documents created offline mapped to their server IDs */
+  idMap: Record<string, string>;
+  conflicts: SyncConflict[];
 }
 
+type MutationExecutor = (mutation: QueuedMutation) => Promise<ReplayResult | void>;
+
+/**
+ * What happened to a queued mutation after an attempt
+ *
+ * - applied: replayed on the server
+ * - discarded: left the queue without being applied
+ * - retrying: stays queued for a later attempt
+ */
+type ReplayOutcome = "applied" | "discarded" | "retrying";
+
+/**
+ * How each mutation type is described in conflict messages
+ */
+const MUTATION_LABELS: Record<MutationType, string> = {
+  toggleFavorite: "Favorite",
+  deleteRecipe: "Recipe delete",
+  updateRecipe: "Recipe edit",
+  addShoppingItem: "Added item",
+  setShoppingItemChecked: "Checked item",
+  updateShoppingItem: "Item edit",
+  moveMeal: "Meal move",
+};
+
+let isProcessing = false;
+
+/**
+ * Tail of the chain that serializes queue updates
+ */
+let queueLock: Promise<unknown> = Promise.resolve();
+
 /**
  * Generate a unique ID for queued mutations
  */
@@ -32,6 +149,13 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Generate a temp ID for a document created offline
+ */
+export function generateTempId(): string {
+  return `${TEMP_ID_PREFIX}${generateId()}`;
+}
+
 /**
  * Get the sync queue
  */
@@ -39,12 +163,24 @@ async function getQueue(): Promise<SyncQueue> {
   try {
     const queueData = await AsyncStorage.getItem(QUEUE_KEY);
     if (queueData) {
-      return JSON.parse(queueData);
+      const queue = JSON.parse(queueData);
+      // Queues saved before ordering and conflicts were tracked
+      return {
+        mutations: queue.mutations.map((m: QueuedMutation, index: number) => ({
+          ...m,
+          entityKey: m.entityKey ?? getEntityKey(m.type, m.payload),
+          sequence: m.sequence ?? index,
+          nextAttemptAt: m.nextAttemptAt ?? 0,
+        })),
+        nextSequence: queue.nextSequence ?? queue.mutations.length,
+        idMap: queue.idMap ?? {},
+        conflicts: queue.conflicts ?? [],
+      };
     }
   } catch (error) {
     console.error("Failed to get sync queue:", error);
   }
-  return { mutations: [] };
+  return { mutations: [], nextSequence: 0, idMap: {}, conflicts: [] };
 }
 
 /**
@@ -58,29 +194,89 @@ async function saveQueue(queue: SyncQueue): Promise<void> {
   }
 }
 
+/**
+ * Read, update and save the queue without interleaving with other updates
+ */
+function updateQueue<T>(update: (queue: SyncQueue) => T): Promise<T> {
+  const run = queueLock.then(async () => {
+    const queue = await getQueue();
+    const result = update(queue);
+    await saveQueue(queue);
+    return result;
+  });
+  queueLock = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Describe a conflict for the sync status
+ */
+function describeConflict(
+  type: MutationType,
+  resolution: ConflictResolution | "failed",
+  detail?: string
+): string {
+  const label = MUTATION_LABELS[type];
+  switch (resolution) {
+    case "clientWins":
+      return `${label} replaced a newer change from another device`;
+    case "serverWins":
+      return `${label} was discarded because it changed on another device`;
+    case "merge":
+      return `${label} kept the other device's ${detail}`;
+    case "failed":
+      return `${label} couldn't be synced: ${detail}`;
+  }
+}
+
+/**
+ * Record a conflict, keeping the most recent ones
+ */
+function recordConflict(
+  queue: SyncQueue,
+  mutation: QueuedMutation,
+  resolution: ConflictResolution | "failed",
+  detail?: string
+): void {
+  queue.conflicts.unshift({
+    id: mutation.id,
+    type: mutation.type,
+    resolution,
+    message: describeConflict(mutation.type, resolution, detail),
+    occurredAt: Date.now(),
+  });
+  queue.conflicts = queue.conflicts.slice(0, MAX_CONFLICTS);
+}
+
 /**
  * Add a mutation to the offline queue
  * @param type The mutation type
  * @param payload The mutation payload
+ * @param baseUpdatedAt updatedAt of the document the change was made against
  */
-export async function queueMutation(
-  type: MutationType,
-  payload: { recipeId: string; [key: string]: unknown }
+export async function queueMutation<T extends MutationType>(
+  type: T,
+  payload: OfflineMutationPayloads[T],
+  baseUpdatedAt?: number
 ): Promise<string> {
-  const queue = await getQueue();
+  return await updateQueue((queue) => {
+    const mutation: QueuedMutation<T> = {
+      id: generateId(),
+      type,
+      payload,
+      entityKey: getEntityKey(type, payload),
+      sequence: queue.nextSequence,
+      baseUpdatedAt,
+      createdAt: Date.now(),
+      retryCount: 0,
+      nextAttemptAt: 0,
+    };
 
-  const mutation: QueuedMutation = {
-    id: generateId(),
-    type,
-    payload,
-    createdAt: Date.now(),
-    retryCount: 0,
-  };
+    queue.mutations.push(mutation as QueuedMutation);
+    queue.nextSequence++;
 
-  queue.mutations.push(mutation);
-  await saveQueue(queue);
-
-  return mutation.id;
+    return mutation.id;
+  });
 }
 
 /**
@@ -88,18 +284,18 @@ export async function queueMutation(
  * @param mutationId The mutation ID
  */
 export async function removeMutation(mutationId: string): Promise<void> {
-  const queue = await getQueue();
-  queue.mutations = queue.mutations.filter((m) => m.id !== mutationId);
-  await saveQueue(queue);
+  await updateQueue((queue) => {
+    queue.mutations = queue.mutations.filter((m) => m.id !== mutationId);
+  });
 }
 
 /**
  * Get all pending mutations
- * @returns Array of pending mutations
+ * @returns Array of pending mutations in queue order
  */
 export async function getPendingMutations(): Promise<QueuedMutation[]> {
   const queue = await getQueue();
-  return queue.mutations;
+  return [...queue.mutations].sort((a, b) => a.sequence - b.sequence);
 }
 
 /**
@@ -111,71 +307,177 @@ export async function getPendingCount(): Promise<number> {
   return queue.mutations.length;
 }
 
+/**
+ * Get when the next backed-off mutation may be retried
+ * @returns Timestamp, or null if nothing is pending
+ */
+export async function getNextRetryAt(): Promise<number | null> {
+  const queue = await getQueue();
+  return getNextAttemptAt(queue.mutations);
+}
+
+/**
+ * Get recorded sync conflicts, newest first
+ */
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const queue = await getQueue();
+  return queue.conflicts;
+}
+
+/**
+ * Clear recorded sync conflicts once the user has seen them
+ */
+export async function dismissSyncConflicts(): Promise<void> {
+  await updateQueue((queue) => {
+    queue.conflicts = [];
+  });
+}
+
 /**
  * Clear all pending mutations
  */
 export async function clearQueue(): Promise<void> {
-  await saveQueue({ mutations: [] });
+  await updateQueue((queue) => {
+    queue.mutations = [];
+    queue.idMap = {};
+    queue.conflicts = [];
+  });
 }
 
 /**
  * Process a single mutation
  * @param mutation The mutation to process
  * @param executor Function to execute the mutation
- * @returns True if successful, false otherwise
+ * @returns Whether the mutation was applied, discarded or will be retried
  */
-export async function processMutation(
+async function processMutation(
   mutation: QueuedMutation,
-  executor: (type: MutationType, payload: unknown) => Promise<void>
-): Promise<boolean> {
+  executor: MutationExecutor
+): Promise<ReplayOutcome> {
+  const remove = (queue: SyncQueue) => {
+    queue.mutations = queue.mutations.filter((m) => m.id !== mutation.id);
+  };
+
+  // An earlier replay in this run may have rebased the mutation
+  const { idMap, mutations } = await getQueue();
+  const current = mutations.find((m) => m.id === mutation.id) ?? mutation;
+  const payload = resolveTempIds(current.payload, idMap);
+  if (!payload) {
+    // Depends on a document whose creation was dropped
+    await updateQueue((queue) => {
+      recordConflict(queue, mutation, "failed", "the item it changes was never added");
+      remove(queue);
+    });
+    return "discarded";
+  }
+
   try {
-    await executor(mutation.type, mutation.payload);
-    await removeMutation(mutation.id);
-    return true;
+    const result = (await executor({ ...current, payload })) ?? {};
+    const resolution = CONFLICT_RESOLUTIONS[mutation.type];
+
+    await updateQueue((queue) => {
+      if (mutation.type === "addShoppingItem" && result.createdId) {
+        const { clientItemId } = mutation.payload as OfflineMutationPayloads["addShoppingItem"];
+        queue.idMap[clientItemId] = result.createdId;
+      }
+
+      if (resolution === "merge" && result.conflictingFields?.length) {
+        recordConflict(queue, mutation, "merge", result.conflictingFields.join(", "));
+      } else if (resolution !== "merge" && result.conflict) {
+        recordConflict(queue, mutation, resolution);
+      }
+
+      remove(queue);
+
+      // Later edits to the document were made on top of this one
+      if (result.updatedAt !== undefined) {
+        queue.mutations = rebaseQueuedMutations(
+          queue.mutations,
+          mutation.entityKey,
+          result.updatedAt
+        );
+      }
+    });
+    return resolution === "serverWins" && result.conflict ? "discarded" : "applied";
   } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
     console.error(`Failed to process mutation ${mutation.id}:`, error);
 
-    // Increment retry count
-    const queue = await getQueue();
-    const mutationIndex = queue.mutations.findIndex((m) => m.id === mutation.id);
-    if (mutationIndex > -1) {
-      queue.mutations[mutationIndex].retryCount++;
-
-      // Remove after 3 failed attempts
-      if (queue.mutations[mutationIndex].retryCount >= 3) {
-        queue.mutations.splice(mutationIndex, 1);
-        console.warn(`Mutation ${mutation.id} removed after 3 failed attempts`);
-      }
+    const retryCount = mutation.retryCount + 1;
+    const giveUp = isPermanentSyncError(message) || retryCount >= MAX_RETRY_ATTEMPTS;
 
-      await saveQueue(queue);
-    }
+    await updateQueue((queue) => {
+      if (giveUp) {
+        recordConflict(queue, mutation, "failed", message);
+        remove(queue);
+        return;
+      }
 
-    return false;
+      const queued = queue.mutations.find((m) => m.id === mutation.id);
+      if (queued) {
+        queued.retryCount = retryCount;
+        queued.nextAttemptAt = Date.now() + getRetryDelay(retryCount);
+      }
+    });
+    return giveUp ? "discarded" : "retrying";
   }
 }
 
 /**
- * Process all pending mutations
+ * Process all pending mutations that are ready
+ *
+ * Mutations waiting on a backoff delay (and later mutations to the same
+ * document) are left for a later run.
+ *
  * @param executor Function to execute each mutation
- * @returns Object with success and failure counts
+ * @returns Counts of applied, discarded and failed (to be retried) mutations
  */
 export async function processQueue(
-  executor: (type: MutationType, payload: unknown) => Promise<void>
-): Promise<{ success: number; failed: number }> {
-  const queue = await getQueue();
+  executor: MutationExecutor
+): Promise<{ success: number; discarded: number; failed: number }> {
+  if (isProcessing) return { success: 0, discarded: 0, failed: 0 };
+  isProcessing = true;
+
   let success = 0;
+  let discarded = 0;
   let failed = 0;
 
-  for (const mutation of queue.mutations) {
-    const result = await processMutation(mutation, executor);
-    if (result) {
-      success++;
-    } else {
-      failed++;
+  try {
+    const { mutations } = await getQueue();
+    const blocked = new Set<string>();
+
+    for (const mutation of selectReadyMutations(mutations, Date.now())) {
+      // An earlier mutation to this document failed in this run
+      if (blocked.has(mutation.entityKey)) continue;
+
+      switch (await processMutation(mutation, executor)) {
+        case "applied":
+          success++;
+          break;
+        case "discarded":
+          discarded++;
+          break;
+        case "retrying":
+          failed++;
+          blocked.add(mutation.entityKey);
+          break;
+      }
     }
+
+    // Forget temp IDs no queued mutation refers to any more
+    await updateQueue((queue) => {
+      const pendingKeys = new Set(queue.mutations.map((m) => m.entityKey));
+      for (const tempId of Object.keys(queue.idMap)) {
+        if (!pendingKeys.has(`shoppingItem:${tempId}`)) {
+          delete queue.idMap[tempId];
+        }
+      }
+    });
+  } finally {
+    isProcessing = false;
   }
 
-  return { success, failed };
+  return { success, discarded, failed };
 }
 
 /**
@@ -185,7 +487,7 @@ export async function processQueue(
  */
 export async function hasPendingMutations(recipeId: string): Promise<boolean> {
   const queue = await getQueue();
-  return queue.mutations.some((m) => m.payload.recipeId === recipeId);
+  return queue.mutations.some((m) => m.entityKey === `recipe:${recipeId}`);
 }
 
 /**
@@ -197,5 +499,5 @@ export async function getPendingMutationsForRecipe(
   recipeId: string
 ): Promise<QueuedMutation[]> {
   const queue = await getQueue();
-  return queue.mutations.filter((m) => m.payload.recipeId === recipeId);
+  return queue.mutations.filter((m) => m.entityKey === `recipe:${recipeId}`);
 }
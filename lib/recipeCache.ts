@@ -2,10 +2,12 @@
  * Recipe Cache Service
  *
  * LRU cache for storing viewed recipes locally for offline access.
- * Uses AsyncStorage with a configurable size limit.
+ * Uses AsyncStorage with a configurable size limit. Recipes in a pinned
+ * cookbook, list or week plan are held by that pin and never evicted.
  */
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { selectEvictions } from "@/convex/lib/offlineStorage";
 
 const CACHE_KEY = "@digero/recipe-cache";
 const CACHE_INDEX_KEY = "@digero/recipe-cache-index";
@@ -21,6 +23,8 @@ interface CachedRecipe {
 interface CacheIndex {
   recipeIds: string[];
   maxRecipes: number;
+  /** Pin keys holding each pinned recipe */
+  pins?: Record<string, string[]>;
 }
 
 /**
@@ -56,6 +60,52 @@ function getRecipeKey(recipeId: string): string {
   return `${CACHE_KEY}:${recipeId}`;
 }
 
+/**
+ * Evict least recently used recipes over the limit, skipping pinned ones
+ */
+async function evictUnpinned(index: CacheIndex): Promise<void> {
+  const pinnedIds = new Set(Object.keys(index.pins ?? {}));
+  const evicted = selectEvictions(index.recipeIds, pinnedIds, index.maxRecipes);
+
+  for (const recipeId of evicted) {
+    await AsyncStorage.removeItem(getRecipeKey(recipeId));
+  }
+
+  index.recipeIds = index.recipeIds.filter((id) => !evicted.includes(id));
+}
+
+/**
+ * Save recipe data and mark it most recently used
+ */
+async function storeRecipe(
+  index: CacheIndex,
+  recipeId: string,
+  recipeData: unknown
+): Promise<void> {
+  const now = Date.now();
+
+  // Create cached recipe entry
+  const cachedRecipe: CachedRecipe = {
+    id: recipeId,
+    data: recipeData,
+    cachedAt: now,
+    lastAccessedAt: now,
+  };
+
+  // Save the recipe data
+  await AsyncStorage.setItem(
+    getRecipeKey(recipeId),
+    JSON.stringify(cachedRecipe)
+  );
+
+  // Update index - move to front (most recently used)
+  const existingIndex = index.recipeIds.indexOf(recipeId);
+  if (existingIndex > -1) {
+    index.recipeIds.splice(existingIndex, 1);
+  }
+  index.recipeIds.unshift(recipeId);
+}
+
 /**
  * Cache a recipe for offline access
  * @param recipeId The recipe ID
@@ -67,43 +117,75 @@ export async function cacheRecipe(
 ): Promise<void> {
   try {
     const index = await getCacheIndex();
-    const now = Date.now();
+    await storeRecipe(index, recipeId, recipeData);
 
-    // Create cached recipe entry
-    const cachedRecipe: CachedRecipe = {
-      id: recipeId,
-      data: recipeData,
-      cachedAt: now,
-      lastAccessedAt: now,
-    };
+    // Evict oldest recipes if over limit
+    await evictUnpinned(index);
 
-    // Save the recipe data
-    await AsyncStorage.setItem(
-      getRecipeKey(recipeId),
-      JSON.stringify(cachedRecipe)
-    );
+    await saveCacheIndex(index);
+  } catch (error) {
+    console.error("Failed to cache recipe:", error);
+  }
+}
 
-    // Update index - move to front (most recently used)
-    const existingIndex = index.recipeIds.indexOf(recipeId);
-    if (existingIndex > -1) {
-      index.recipeIds.splice(existingIndex, 1);
-    }
-    index.recipeIds.unshift(recipeId);
+/**
+ * Cache recipes for a pin, exempting them from eviction
+ * @param pinKey The pin holding the recipes
+ * @param recipes Recipe ID and full data for each recipe
+ */
+export async function pinRecipes(
+  pinKey: string,
+  recipes: { id: string; data: unknown }[]
+): Promise<void> {
+  const index = await getCacheIndex();
+  const pins = index.pins ?? {};
 
-    // Evict oldest recipes if over limit
-    while (index.recipeIds.length > index.maxRecipes) {
-      const oldestId = index.recipeIds.pop();
-      if (oldestId) {
-        await AsyncStorage.removeItem(getRecipeKey(oldestId));
+  for (const recipe of recipes) {
+    await storeRecipe(index, recipe.id, recipe.data);
+    pins[recipe.id] = [...new Set([...(pins[recipe.id] ?? []), pinKey])];
+  }
+
+  index.pins = pins;
+  await saveCacheIndex(index);
+}
+
+/**
+ * Release a pin's hold on its recipes
+ *
+ * Recipes no other pin holds go back to normal LRU eviction.
+ * @param pinKey The pin being removed
+ */
+export async function unpinRecipes(pinKey: string): Promise<void> {
+  try {
+    const index = await getCacheIndex();
+    const pins = index.pins ?? {};
+
+    for (const [recipeId, keys] of Object.entries(pins)) {
+      const remaining = keys.filter((key) => key !== pinKey);
+      if (remaining.length > 0) {
+        pins[recipeId] = remaining;
+      } else {
+        delete pins[recipeId];
       }
     }
 
+    index.pins = pins;
+    await evictUnpinned(index);
     await saveCacheIndex(index);
   } catch (error) {
-    console.error("Failed to cache recipe:", error);
+    console.error("Failed to unpin recipes:", error);
   }
 }
 
+/**
+ * Check if a recipe is held by a pin
+ * @param recipeId The recipe ID
+ */
+export async function isRecipePinned(recipeId: string): Promise<boolean> {
+  const index = await getCacheIndex();
+  return !!index.pins?.[recipeId];
+}
+
 /**
  * Get a cached recipe
  * @param recipeId The recipe ID
@@ -167,6 +249,7 @@ export async function removeCachedRecipe(recipeId: string): Promise<void> {
     const existingIndex = index.recipeIds.indexOf(recipeId);
     if (existingIndex > -1) {
       index.recipeIds.splice(existingIndex, 1);
+      delete index.pins?.[recipeId];
       await saveCacheIndex(index);
     }
   } catch (error) {
@@ -175,19 +258,28 @@ export async function removeCachedRecipe(recipeId: string): Promise<void> {
 }
 
 /**
- * Clear all cached recipes
+ * Clear all recently viewed recipes
+ *
+ * Pinned recipes are kept; unpin them to remove them.
  */
 export async function clearCache(): Promise<void> {
   try {
     const index = await getCacheIndex();
+    const pins = index.pins ?? {};
 
-    // Remove all cached recipes
+    // Remove all unpinned cached recipes
     for (const recipeId of index.recipeIds) {
-      await AsyncStorage.removeItem(getRecipeKey(recipeId));
+      if (!pins[recipeId]) {
+        await AsyncStorage.removeItem(getRecipeKey(recipeId));
+      }
     }
 
-    // Clear the index
-    await saveCacheIndex({ recipeIds: [], maxRecipes: index.maxRecipes });
+    // Keep only pinned recipes in the index
+    await saveCacheIndex({
+      recipeIds: index.recipeIds.filter((id) => pins[id]),
+      maxRecipes: index.maxRecipes,
+      pins,
+    });
   } catch (error) {
     console.error("Failed to clear cache:", error);
   }
@@ -195,7 +287,7 @@ export async function clearCache(): Promise<void> {
 
 /**
  * Get the current cache size
- * @returns The number of cached recipes
+ * @returns The number of cached recipes, pinned ones included
  */
 export async function getCacheSize(): Promise<number> {
   try {
@@ -229,15 +321,25 @@ export async function setMaxCacheSize(maxRecipes: number): Promise<void> {
     index.maxRecipes = maxRecipes;
 
     // Evict if over new limit
-    while (index.recipeIds.length > maxRecipes) {
-      const oldestId = index.recipeIds.pop();
-      if (oldestId) {
-        await AsyncStorage.removeItem(getRecipeKey(oldestId));
-      }
-    }
+    await evictUnpinned(index);
 
     await saveCacheIndex(index);
   } catch (error) {
     console.error("Failed to set max cache size:", error);
   }
 }
+
+/**
+ * Count recently viewed and pinned recipes in the cache
+ * @returns Counts of unpinned and pinned recipes
+ */
+export async function getCacheStats(): Promise<{ recentCount: number; pinnedCount: number }> {
+  try {
+    const index = await getCacheIndex();
+    const pins = index.pins ?? {};
+    const pinnedCount = index.recipeIds.filter((id) => pins[id]).length;
+    return { recentCount: index.recipeIds.length - pinnedCount, pinnedCount };
+  } catch (error) {
+    return { recentCount: 0, pinnedCount: 0 };
+  }
+}
@@ -15,7 +15,6 @@ export {
 export {
   buildRecipeContext,
   getScaledIngredient,
-  calculateScaleMultiplier,
   type RecipeData,
   type RecipeContext,
   type RecipeContextOptions,
@@ -5,6 +5,9 @@
  * Formats recipe data as structured information for the cooking assistant.
  */
 
+import type { UnitSystem } from "@/convex/lib/unitConversion";
+import { formatAmount, getScaleFactor, scaleAmount } from "@/convex/lib/recipeScaling";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -54,6 +57,8 @@ export interface RecipeContextOptions {
   scaleMultiplier?: number;
   /** Target servings (alternative to multiplier) */
   targetServings?: number;
+  /** Preferred unit system for ingredient quantities */
+  unitSystem?: UnitSystem;
 }
 
 /**
@@ -70,6 +75,8 @@ export interface ScaledIngredient {
   name: string;
   /** Formatted string with scaled quantity */
   formatted: string;
+  /** Set when a counted item was rounded to whole items */
+  warning?: string;
 }
 
 /**
@@ -270,35 +277,60 @@ function parseIngredientString(raw: string): ScaledIngredient {
   };
 }
 
+/**
+ * Read a recipe ingredient, parsing raw text when it has no parsed form
+ */
+function toUnscaledIngredient(ing: string | ParsedIngredient): ScaledIngredient {
+  if (typeof ing === "string") {
+    return parseIngredientString(ing);
+  }
+  if (!ing.parsed) {
+    return parseIngredientString(ing.raw);
+  }
+  return {
+    original: ing.raw,
+    scaledQuantity: ing.parsed.quantity,
+    unit: ing.parsed.unit,
+    name: ing.parsed.name,
+    formatted: ing.raw,
+  };
+}
+
 /**
  * Scale an ingredient by a multiplier
+ * Optionally converts the quantity to the preferred unit system
  */
 function scaleIngredient(
   ingredient: ScaledIngredient,
-  multiplier: number
+  multiplier: number,
+  unitSystem?: UnitSystem
 ): ScaledIngredient {
-  if (multiplier === 1 || ingredient.scaledQuantity === null) {
+  if (ingredient.scaledQuantity === null) {
     return ingredient;
   }
 
-  const scaledQuantity = ingredient.scaledQuantity * multiplier;
+  const scaled = scaleAmount(
+    { quantity: ingredient.scaledQuantity, unit: ingredient.unit ?? "" },
+    multiplier,
+    { unitSystem }
+  );
 
-  // Format the scaled quantity nicely
-  let formattedQuantity: string;
-  if (Number.isInteger(scaledQuantity)) {
-    formattedQuantity = scaledQuantity.toString();
-  } else {
-    // Round to 2 decimal places
-    formattedQuantity = scaledQuantity.toFixed(2).replace(/\.?0+$/, "");
+  if (
+    multiplier === 1 &&
+    scaled.unit === (ingredient.unit ?? "") &&
+    scaled.quantity === ingredient.scaledQuantity
+  ) {
+    return ingredient;
   }
 
-  const unit = ingredient.unit ? ` ${ingredient.unit}` : "";
-  const formatted = `${formattedQuantity}${unit} ${ingredient.name}`;
+  const formatted = `${formatAmount(scaled)} ${ingredient.name}`;
 
   return {
     ...ingredient,
-    scaledQuantity,
+    scaledQuantity: scaled.quantity,
+    unit: scaled.unit || null,
     formatted: formatted.trim(),
+    ...(scaled.warning && { warning: scaled.warning }),
   };
 }
 
@@ -353,37 +385,20 @@ export function buildRecipeContext(
     currentStep = 0,
     scaleMultiplier: providedMultiplier,
     targetServings,
+    unitSystem,
   } = options;
 
   // Calculate scale multiplier
   let scaleMultiplier = providedMultiplier ?? 1;
   if (targetServings && recipe.servings > 0) {
-    scaleMultiplier = targetServings / recipe.servings;
+    scaleMultiplier = getScaleFactor(recipe.servings, targetServings);
   }
 
   const currentServings = Math.round(recipe.servings * scaleMultiplier);
 
   // Parse and scale ingredients
   const scaledIngredients: ScaledIngredient[] = recipe.ingredients.map(
-    (ing) => {
-      let parsed: ScaledIngredient;
-
-      if (typeof ing === "string") {
-        parsed = parseIngredientString(ing);
-      } else if (ing.parsed) {
-        parsed = {
-          original: ing.raw,
-          scaledQuantity: ing.parsed.quantity,
-          unit: ing.parsed.unit,
-          name: ing.parsed.name,
-          formatted: ing.raw,
-        };
-      } else {
-        parsed = parseIngredientString(ing.raw);
-      }
-
-      return scaleIngredient(parsed, scaleMultiplier);
-    }
+    (ing) => scaleIngredient(toUnscaledIngredient(ing), scaleMultiplier, unitSystem)
   );
 
   // Format instructions with step numbers
@@ -479,12 +494,14 @@ export function buildRecipeContext(
  * @param recipe - Recipe data
  * @param ingredientQuery - Search term for ingredient
  * @param scaleMultiplier - Scale multiplier
+ * @param unitSystem - Preferred unit system for the answer (optional)
  * @returns Scaled ingredient or null if not found
  */
 export function getScaledIngredient(
   recipe: RecipeData,
   ingredientQuery: string,
-  scaleMultiplier: number = 1
+  scaleMultiplier: number = 1,
+  unitSystem?: UnitSystem
 ): ScaledIngredient | null {
   const query = ingredientQuery.toLowerCase();
 
@@ -492,27 +509,9 @@ export function getScaledIngredient(
     const raw = typeof ing === "string" ? ing : ing.raw;
 
     if (raw.toLowerCase().includes(query)) {
-      const parsed = parseIngredientString(raw);
-      return scaleIngredient(parsed, scaleMultiplier);
+      return scaleIngredient(toUnscaledIngredient(ing), scaleMultiplier, unitSystem);
     }
   }
 
   return null;
 }
-
-/**
- * Calculate scale multiplier from target servings
- *
- * @param baseServings - Original recipe servings
- * @param targetServings - Desired servings
- * @returns Scale multiplier
- */
-export function calculateScaleMultiplier(
-  baseServings: number,
-  targetServings: number
-): number {
-  if (baseServings <= 0) {
-    return 1;
-  }
-  return targetServings / baseServings;
-}
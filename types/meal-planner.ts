@@ -40,6 +40,10 @@ export interface PlannedMeal {
   prepTime: string;
   day: string;
   slot: MealSlot;
+  /** Servings to cook (recipe's servings when unset) */
+  servings?: number;
+  /** Earlier meal this slot eats leftovers of */
+  leftoverOfMealId?: Id<"plannedMeals">;
   createdAt: number;
   updatedAt: number;
 }
@@ -55,6 +59,113 @@ export interface RecipePickerItem {
   category: MealSlot | "all";
 }
 
+/**
+ * Meal in a generated "plan my week" draft
+ */
+export interface DraftMeal {
+  day: string;
+  slot: MealSlot;
+  recipeId: Id<"recipes">;
+  recipeName: string;
+  recipeImage: string;
+  prepTime: string;
+  cuisineType?: string;
+  /** Kept when the draft is regenerated */
+  pinned: boolean;
+}
+
+/**
+ * Generated meal plan awaiting review
+ */
+export interface MealPlanDraft {
+  _id: Id<"mealPlanDrafts">;
+  weekStart: string;
+  maxWeeknightTime?: number;
+  varietyDays: number;
+  meals: DraftMeal[];
+  /** Slots no recipe fit */
+  unfilled: { day: string; slot: MealSlot }[];
+}
+
+/**
+ * Settings for generating a draft plan
+ */
+export interface PlanWeekSettings {
+  /** Max prep + cook minutes for weeknight dinners */
+  maxWeeknightTime?: number;
+  /** Days within which a recipe or cuisine may not repeat */
+  varietyDays: number;
+}
+
+/**
+ * Saved week of meals that can be applied to any week
+ */
+export interface MealPlanTemplate {
+  _id: Id<"mealPlanTemplates">;
+  name: string;
+  meals: {
+    dayOffset: number;
+    slot: MealSlot;
+    recipeId: Id<"recipes">;
+    recipeName: string;
+  }[];
+  recurrence?: {
+    intervalWeeks: number;
+    startWeek: string;
+    mode: "overwrite" | "merge";
+  };
+  nextRecurrenceWeek?: string;
+  lastApplied?: {
+    weekStart: string;
+    added: number;
+    missingRecipes: string[];
+    appliedAt: number;
+  };
+}
+
+/**
+ * Nutrition values (kcal and grams)
+ */
+export interface NutritionValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+/**
+ * Daily nutrition targets from the user's profile
+ */
+export type NutritionTargets = Partial<NutritionValues>;
+
+/**
+ * Nutrition totals for a set of planned meals (one serving each)
+ */
+export interface NutritionSummary {
+  totals: NutritionValues;
+  /** Meals included in the totals */
+  mealCount: number;
+  /** Meals left out because their recipe has no nutrition */
+  missing: { mealId: string; recipeName: string }[];
+}
+
+/**
+ * Nutrition totals for one day
+ */
+export interface DayNutrition extends NutritionSummary {
+  day: string;
+}
+
+/**
+ * Nutrition for a week with the user's targets
+ */
+export interface WeekNutrition {
+  days: DayNutrition[];
+  week: NutritionSummary;
+  dailyAverage: NutritionValues;
+  targets: NutritionTargets | null;
+}
+
 /**
  * Day information for display
  */
@@ -155,6 +266,11 @@ export interface WeekHeaderProps {
   onCancelSelection: () => void;
   onGenerateList: () => void;
   onClearWeek: () => void;
+  onPlanWeek: () => void;
+  onTemplatesPress: () => void;
+
+  /** Week nutrition, shown as the daily average against targets */
+  nutrition?: WeekNutrition | null;
 }
 
 /**
@@ -218,6 +334,24 @@ export interface DayViewProps {
   onToggleSnacks: () => void;
   onClearDay: () => void;
   onSelectAllDay: () => void;
+
+  /** Nutrition totals for this day */
+  nutrition?: DayNutrition | null;
+  /** Daily targets to show progress against */
+  nutritionTargets?: NutritionTargets | null;
+}
+
+/**
+ * Props for the NutritionProgress component
+ */
+export interface NutritionProgressProps {
+  /** Nutrition to show (a day's totals or a daily average) */
+  values: NutritionValues;
+  targets: NutritionTargets | null | undefined;
+  /** Number of meals without nutrition */
+  missingCount: number;
+  /** Smaller single-line layout */
+  compact?: boolean;
 }
 
 /**
@@ -282,6 +416,42 @@ export interface OnboardingOverlayProps {
   onDismiss: () => void;
 }
 
+/**
+ * Props for the PlanWeekSheet component
+ */
+export interface PlanWeekSheetProps {
+  /** Whether the sheet is visible */
+  isVisible: boolean;
+  /** Days of the week being planned */
+  weekDays: DayInfo[];
+  /** Current draft, or null before one is generated */
+  draft: MealPlanDraft | null;
+  /** Whether a draft is being generated or accepted */
+  isBusy: boolean;
+
+  // Actions
+  onGenerate: (settings: PlanWeekSettings) => void;
+  onReroll: (day: string, slot: MealSlot) => void;
+  onTogglePin: (day: string, slot: MealSlot) => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Props for the TemplateCard component
+ */
+export interface TemplateCardProps {
+  template: MealPlanTemplate;
+  /** Whether an action on this template is in progress */
+  isBusy: boolean;
+
+  // Actions
+  onApply: () => void;
+  onSetRecurrence: () => void;
+  onDelete: () => void;
+}
+
 /**
  * Props for the EmptyWeekState component
  */
@@ -297,7 +467,7 @@ export interface EmptyWeekStateProps {
 /**
  * Context menu action type
  */
-export type ContextMenuAction = "copy" | "move" | "remove";
+export type ContextMenuAction = "copy" | "move" | "leftovers" | "remove";
 
 /**
  * Props for context menu
@@ -313,6 +483,8 @@ export interface ContextMenuProps {
   // Actions
   onCopy: () => void;
   onMove: () => void;
+  onLeftovers: () => void;
+  onChangeServings: (servings: number) => void;
   onRemove: () => void;
   onClose: () => void;
 }
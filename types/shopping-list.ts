@@ -43,6 +43,7 @@ export interface ShoppingItem {
   isCustom: boolean;
   recipeIds: Id<"recipes">[];
   recipeName?: string;
+  isApproximate?: boolean;
   createdAt: number;
   updatedAt: number;
 }
@@ -71,8 +72,10 @@ export interface ShoppingListWithItems extends ShoppingList {
 
 /**
  * Sync status for offline support
+ *
+ * "conflict" means an offline change hit a newer change on replay.
  */
-export type SyncStatus = "synced" | "pending" | "offline";
+export type SyncStatus = "synced" | "pending" | "offline" | "conflict";
 
 // =============================================================================
 // Component Props
@@ -156,6 +159,9 @@ export interface CategorySectionProps {
  */
 export interface SyncStatusIndicatorProps {
   status: SyncStatus;
+  /** Number of changes waiting to sync */
+  pendingCount?: number;
+  onPress?: () => void;
 }
 
 /**
@@ -216,4 +222,5 @@ export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
   synced: "Synced",
   pending: "Syncing...",
   offline: "Offline",
+  conflict: "Sync conflict",
 };